@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import { Keypair, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { signInstructions, sendSignedTransaction, simulateSignedTransaction } from '../utils/transactions';
+import { writeStdout } from './stdout';
+
+/**
+ * Shared plumbing of the operator CLI: argument parsing, output, signers and
+ * transaction execution with --dry-run.
+ */
+
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set(['json', 'dry-run', 'help', 'skip-scan', 'save']);
+
+export interface CliArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+export interface CliContext {
+  json: boolean;
+  dryRun: boolean;
+  flags: Record<string, string | true>;
+}
+
+/**
+ * What a command reports
+ * ok=false exits with status 1 (e.g. a failed verification) without being an error.
+ */
+export interface CommandResult {
+  ok: boolean;
+  summary: string;
+  data: Record<string, unknown>;
+}
+
+export interface CliCommand {
+  path: string[]; // e.g. ['mint', 'fee', 'set']
+  usage: string; // Flags, e.g. '--fee-bps <bps> --max-fee <raw>'
+  description: string;
+  run(context: CliContext): Promise<CommandResult>;
+}
+
+/**
+ * Parse argv into positionals and --flags (--name value, --name=value)
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (!BOOLEAN_FLAGS.has(name) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Get a string flag
+ * @throws Error if the flag is required and missing, or given without a value
+ */
+export function getFlag(context: CliContext, name: string, required: true): string;
+export function getFlag(context: CliContext, name: string, required?: false): string | null;
+export function getFlag(context: CliContext, name: string, required = false): string | null {
+  const value = context.flags[name];
+  if (value === true) {
+    throw new Error(`--${name} requires a value`);
+  }
+  if (value === undefined) {
+    if (required) {
+      throw new Error(`--${name} is required`);
+    }
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Get an integer flag within a range
+ */
+export function getIntegerFlag(context: CliContext, name: string, min: number, max: number, fallback?: number): number {
+  const value = fallback === undefined ? getFlag(context, name, true) : getFlag(context, name);
+  if (value === null) {
+    return fallback!;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`--${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Get a raw token amount flag (non-negative integer)
+ */
+export function getAmountFlag(context: CliContext, name: string, required: true): bigint;
+export function getAmountFlag(context: CliContext, name: string, required?: false): bigint | null;
+export function getAmountFlag(context: CliContext, name: string, required = false): bigint | null {
+  const value = required ? getFlag(context, name, true) : getFlag(context, name);
+  if (value === null) {
+    return null;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--${name} must be a non-negative integer amount in raw units`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Parse a public key argument
+ */
+export function parsePublicKey(value: string, label: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+}
+
+/**
+ * Load a signer from the environment variable named by a flag
+ * @param flag - Flag naming the environment variable (e.g. --payer REWARD_WALLET_PRIVATE_KEY_JSON)
+ * @param defaultEnv - Environment variable used when the flag is not given
+ */
+export function loadSigner(context: CliContext, flag: string, defaultEnv: string): Keypair {
+  return loadKeypairFromEnv(getFlag(context, flag) ?? defaultEnv);
+}
+
+/**
+ * Load a keypair from a JSON secret key file (solana-keygen format)
+ */
+export function loadKeypairFile(filePath: string): Keypair {
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(filePath, 'utf-8'))));
+  } catch (error) {
+    throw new Error(`Failed to load keypair from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Send instructions in one transaction, or only simulate them with --dry-run
+ * The first signer pays the fee.
+ * @returns The signature, or the simulation outcome on a dry run
+ * @throws Error if the transaction (or its simulation) fails
+ */
+export async function executeInstructions(
+  context: CliContext,
+  instructions: TransactionInstruction[],
+  signers: Keypair[]
+): Promise<{ signature: string | null; simulation: { unitsConsumed: number | null; logs: string[] } | null }> {
+  const signed = await signInstructions(instructions, signers);
+
+  if (context.dryRun) {
+    return { signature: null, simulation: await simulateSignedTransaction(signed) };
+  }
+
+  return { signature: await sendSignedTransaction(signed), simulation: null };
+}
+
+/**
+ * JSON replacer for command data (bigints and public keys as strings)
+ */
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+  return value;
+}
+
+/**
+ * Print a command result (indented key/value lines, or JSON with --json)
+ */
+export function printResult(context: CliContext, result: CommandResult): void {
+  if (context.json) {
+    writeStdout(JSON.stringify({ ok: result.ok, dryRun: context.dryRun, ...result.data }, toJsonValue, 2));
+    return;
+  }
+
+  const lines = [`${result.ok ? '✅' : '❌'} ${result.summary}${context.dryRun ? ' (dry run - nothing sent)' : ''}`];
+  const printValue = (label: string, value: unknown, indent: string): void => {
+    const normalized = JSON.parse(JSON.stringify(value, toJsonValue) ?? 'null');
+    if (normalized !== null && typeof normalized === 'object') {
+      lines.push(`${indent}${label}:`);
+      for (const [key, child] of Object.entries(normalized)) {
+        printValue(key, child, `${indent}  `);
+      }
+    } else {
+      lines.push(`${indent}${label}: ${normalized}`);
+    }
+  };
+  for (const [key, value] of Object.entries(result.data)) {
+    printValue(key, value, '  ');
+  }
+  writeStdout(lines.join('\n'));
+}
+
+/**
+ * Print a failed command (JSON with --json)
+ */
+export function printError(json: boolean, message: string): void {
+  if (json) {
+    writeStdout(JSON.stringify({ ok: false, error: message }, null, 2));
+  } else {
+    console.error(`❌ ${message}`);
+  }
+}
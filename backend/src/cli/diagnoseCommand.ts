@@ -0,0 +1,132 @@
+import { getTokenMint } from '../config/solana';
+import { getRewardAsset } from '../config/rewardAsset';
+import { getActiveProject } from '../utils/projectContext';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { getSystemHealth } from '../services/healthService';
+import { getSwapProviders } from '../services/swapProviders';
+import { fetchTransferFeeMint, getTransferFeeSchedule } from '../services/transferFeeService';
+import type { CliCommand, CliContext, CommandResult } from './context';
+
+/**
+ * tek diagnose - Check everything a reward cycle depends on
+ *
+ * Runs the backend's component probes (see healthService; the Telegram bot
+ * heartbeat only exists in the server process and is skipped), then checks the
+ * mint's transfer fee and withdraw authority, the reward asset and swap
+ * providers, and scans the withheld tax (--skip-scan to skip the
+ * getProgramAccounts scan). Fails (status 1) if any check fails.
+ */
+
+type CheckStatus = 'ok' | 'warn' | 'fail';
+
+interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+}
+
+/**
+ * Run a check, turning a thrown error into a failed check
+ */
+async function runCheck(name: string, check: () => Promise<Omit<DiagnosticCheck, 'name'>>): Promise<DiagnosticCheck> {
+  try {
+    return { name, ...(await check()) };
+  } catch (error) {
+    return { name, status: 'fail', message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function diagnose(context: CliContext): Promise<CommandResult> {
+  const project = getActiveProject();
+  const checks: DiagnosticCheck[] = [];
+
+  const health = await getSystemHealth();
+  for (const component of health.components) {
+    if (component.id === 'telegram-bot') {
+      continue;
+    }
+    checks.push({
+      name: component.name,
+      status: component.status === 'healthy' ? 'ok' : component.status === 'down' ? 'fail' : 'warn',
+      message: component.message,
+    });
+  }
+
+  const mint = getTokenMint();
+  let decimals = 0;
+  let withheldInMint = 0n;
+  checks.push(await runCheck('Transfer fee', async () => {
+    const fetched = await fetchTransferFeeMint(mint);
+    decimals = fetched.mint.decimals;
+    withheldInMint = fetched.transferFeeConfig.withheldAmount;
+    const { effective, pending } = await getTransferFeeSchedule(mint, { refresh: true });
+    const scheduled = pending ? `, ${pending.basisPoints} bps from epoch ${pending.epoch}` : '';
+    return effective.basisPoints > 0
+      ? { status: 'ok', message: `${effective.basisPoints} bps in force${scheduled}` }
+      : { status: pending && pending.basisPoints > 0 ? 'warn' : 'fail', message: `The transfer fee in force is 0 - no tax is collected${scheduled}` };
+  }));
+
+  checks.push(await runCheck('Withdraw authority', async () => {
+    const { transferFeeConfig } = await fetchTransferFeeMint(mint);
+    const authority = transferFeeConfig.withdrawWithheldAuthority;
+    const rewardWallet = project.rewardWalletAddress ?? loadKeypairFromEnv(project.rewardWalletEnv).publicKey.toBase58();
+    if (!authority) {
+      return { status: 'fail', message: 'Revoked - the tax can never be harvested' };
+    }
+    return authority.toBase58() === rewardWallet
+      ? { status: 'ok', message: `Held by the reward wallet ${rewardWallet}` }
+      : { status: 'fail', message: `Held by ${authority.toBase58()}, not the reward wallet ${rewardWallet} (tek mint authority set)` };
+  }));
+
+  checks.push(await runCheck('Reward asset', async () => {
+    const asset = getRewardAsset();
+    return { status: 'ok', message: `${asset.symbol} (${asset.kind})` };
+  }));
+
+  checks.push(await runCheck('Swap providers', async () => {
+    return { status: 'ok', message: getSwapProviders().map((provider) => provider.name).join(', ') };
+  }));
+
+  let withheld: Record<string, unknown> | null = null;
+  if (!context.flags['skip-scan']) {
+    checks.push(await runCheck('Withheld tax', async () => {
+      // Loaded lazily - the tax service pulls in the whole pipeline
+      const { TaxService } = await import('../services/taxService');
+      const scan = await TaxService.scanWithheldAccounts(decimals, withheldInMint);
+      const total = scan.totalWithheldInAccounts + withheldInMint;
+      withheld = {
+        inMint: withheldInMint,
+        inAccounts: scan.totalWithheldInAccounts,
+        accountsWithWithheld: scan.accounts.length,
+        accountsScanned: scan.totalAccountsScanned,
+        total,
+        totalUi: Number(total) / Math.pow(10, decimals),
+      };
+      return total > 0n
+        ? { status: 'ok', message: `${Number(total) / Math.pow(10, decimals)} tokens withheld` }
+        : { status: 'warn', message: 'No withheld tax yet' };
+    }));
+  }
+
+  const failed = checks.filter((check) => check.status === 'fail');
+  const warnings = checks.filter((check) => check.status === 'warn');
+  return {
+    ok: failed.length === 0,
+    summary: failed.length === 0
+      ? `Reward system healthy${warnings.length > 0 ? ` (${warnings.length} warning(s))` : ''}`
+      : `${failed.length} check(s) failed: ${failed.map((check) => check.name).join(', ')}`,
+    data: {
+      project: project.id,
+      mint,
+      checks,
+      withheld,
+    },
+  };
+}
+
+export const diagnoseCommand: CliCommand = {
+  path: ['diagnose'],
+  usage: '[--skip-scan]',
+  description: 'Check the RPC, wallets, mint authorities, swap routes and withheld tax',
+  run: diagnose,
+};
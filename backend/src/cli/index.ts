@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+// Keep stdout for command output - must load before the backend modules
+import { writeStdout } from './stdout';
+import { getProject } from '../config/projects';
+import { runWithProject } from '../utils/projectContext';
+import { parseArgs, printError, printResult, type CliCommand, type CliContext } from './context';
+import { mintCommands } from './mintCommands';
+import { walletCommands } from './walletCommands';
+import { diagnoseCommand } from './diagnoseCommand';
+import { reconcileCommand } from './reconcileCommand';
+
+/**
+ * TEK operator CLI
+ *
+ * One entry point for mint and wallet management, sharing the backend's
+ * configuration (config/env, config/projects), connection and keypair loading.
+ *
+ * Usage: tek <command> [flags] [--project <id>] [--dry-run] [--json]
+ * - --project: run against an additional project of the registry
+ * - --dry-run: build, sign and simulate transactions without sending them
+ * - --json: print the result as JSON on stdout (logs go to stderr)
+ * Exits with status 1 when a command fails or a check does not pass.
+ */
+
+const COMMANDS: CliCommand[] = [...mintCommands, ...walletCommands, diagnoseCommand, reconcileCommand];
+
+function formatUsage(): string {
+  const lines = [
+    'Usage: tek <command> [flags] [--project <id>] [--dry-run] [--json]',
+    '',
+    'Commands:',
+  ];
+  for (const command of COMMANDS) {
+    lines.push(`  ${command.path.join(' ')} ${command.usage}`.trimEnd(), `      ${command.description}`);
+  }
+  lines.push('', 'Signer flags (--payer, --authority) name the environment variable holding the keypair JSON.');
+  return lines.join('\n');
+}
+
+/**
+ * Find the command whose path the positionals start with
+ */
+function findCommand(positionals: string[]): CliCommand | null {
+  return COMMANDS.find((command) =>
+    command.path.length === positionals.length &&
+    command.path.every((part, index) => part === positionals[index])
+  ) ?? null;
+}
+
+async function main(): Promise<number> {
+  const { positionals, flags } = parseArgs(process.argv.slice(2));
+  const json = flags.json === true;
+
+  if (flags.help || positionals.length === 0) {
+    writeStdout(formatUsage());
+    return positionals.length === 0 && !flags.help ? 1 : 0;
+  }
+
+  const command = findCommand(positionals);
+  if (!command) {
+    printError(json, `Unknown command: ${positionals.join(' ')}${json ? '' : `\n\n${formatUsage()}`}`);
+    return 1;
+  }
+
+  const context: CliContext = { json, dryRun: flags['dry-run'] === true, flags };
+  try {
+    const projectId = flags.project;
+    if (projectId === true) {
+      throw new Error('--project requires a value');
+    }
+    const project = projectId ? getProject(projectId) : null;
+    if (projectId && !project) {
+      throw new Error(`Unknown project: ${projectId}`);
+    }
+
+    const result = project
+      ? await runWithProject(project, () => command.run(context))
+      : await command.run(context);
+    printResult(context, result);
+    return result.ok ? 0 : 1;
+  } catch (error) {
+    printError(json, error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+main()
+  .then((status) => process.exit(status))
+  .catch((error) => {
+    printError(false, error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
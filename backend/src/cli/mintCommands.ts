@@ -0,0 +1,366 @@
+import { Keypair, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  AuthorityType,
+  ExtensionType,
+  getMintLen,
+  getAssociatedTokenAddressSync,
+  createInitializeMint2Instruction,
+  createInitializeTransferFeeConfigInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+} from '@solana/spl-token';
+import { connection, getTokenMint } from '../config/solana';
+import { getActiveProject } from '../utils/projectContext';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import {
+  MAX_TRANSFER_FEE_BPS,
+  fetchTransferFeeMint,
+  getTransferFeeSchedule,
+  scheduleTransferFee,
+  type TransferFeeSchedule,
+} from '../services/transferFeeService';
+import {
+  executeInstructions,
+  getAmountFlag,
+  getFlag,
+  getIntegerFlag,
+  loadKeypairFile,
+  loadSigner,
+  parsePublicKey,
+  type CliCommand,
+  type CliContext,
+  type CommandResult,
+} from './context';
+
+/**
+ * Mint management commands (tek mint ...)
+ *
+ * Operate on the active project's mint (TOKEN_MINT, or the mint of --project)
+ * unless --mint is given. Authorities sign from the environment variable named
+ * by --authority (default: ADMIN_WALLET_JSON).
+ */
+
+/**
+ * Mint the command operates on
+ */
+function getTargetMint(context: CliContext): PublicKey {
+  const mint = getFlag(context, 'mint');
+  return mint ? parsePublicKey(mint, 'mint') : getTokenMint();
+}
+
+/**
+ * Address holding the withdraw authority by default (the project's reward wallet)
+ */
+function getRewardWalletAddress(): PublicKey | null {
+  const project = getActiveProject();
+  if (project.rewardWalletAddress) {
+    return parsePublicKey(project.rewardWalletAddress, 'reward wallet address');
+  }
+  try {
+    return loadKeypairFromEnv(project.rewardWalletEnv).publicKey;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Transfer fee schedule and authorities of a mint, for the current cluster epoch
+ */
+async function describeTransferFee(
+  mint: PublicKey
+): Promise<TransferFeeSchedule & { mintAuthority: string | null; supply: bigint }> {
+  const [schedule, { mint: parsed }] = await Promise.all([
+    getTransferFeeSchedule(mint, { refresh: true }),
+    fetchTransferFeeMint(mint),
+  ]);
+  return {
+    ...schedule,
+    mintAuthority: parsed.mintAuthority?.toBase58() ?? null,
+    supply: parsed.supply,
+  };
+}
+
+/**
+ * tek mint create - Create a Token-2022 mint with a transfer fee
+ */
+async function createMint(context: CliContext): Promise<CommandResult> {
+  const payer = loadSigner(context, 'payer', 'ADMIN_WALLET_JSON');
+  const decimals = getIntegerFlag(context, 'decimals', 0, 9, 6);
+  const feeBps = getIntegerFlag(context, 'fee-bps', 0, MAX_TRANSFER_FEE_BPS);
+  const maxFee = getAmountFlag(context, 'max-fee', true);
+  const supply = getAmountFlag(context, 'supply'); // Whole tokens minted to the payer
+
+  const mintAuthorityFlag = getFlag(context, 'mint-authority');
+  const mintAuthority = mintAuthorityFlag ? parsePublicKey(mintAuthorityFlag, 'mint authority') : payer.publicKey;
+  const feeAuthorityFlag = getFlag(context, 'fee-authority');
+  const feeAuthority = feeAuthorityFlag ? parsePublicKey(feeAuthorityFlag, 'fee authority') : payer.publicKey;
+  const withdrawAuthorityFlag = getFlag(context, 'withdraw-authority');
+  const withdrawAuthority = withdrawAuthorityFlag
+    ? parsePublicKey(withdrawAuthorityFlag, 'withdraw authority')
+    : getRewardWalletAddress() ?? payer.publicKey;
+
+  if (supply !== null && supply > 0n && !mintAuthority.equals(payer.publicKey)) {
+    throw new Error('--supply requires the payer to be the mint authority');
+  }
+
+  const mintKeypairFile = getFlag(context, 'mint-keypair');
+  const mint = mintKeypairFile ? loadKeypairFile(mintKeypairFile) : Keypair.generate();
+
+  const mintLen = getMintLen([ExtensionType.TransferFeeConfig]);
+  const instructions: TransactionInstruction[] = [
+    SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: mint.publicKey,
+      space: mintLen,
+      lamports: await connection.getMinimumBalanceForRentExemption(mintLen),
+      programId: TOKEN_2022_PROGRAM_ID,
+    }),
+    createInitializeTransferFeeConfigInstruction(
+      mint.publicKey,
+      feeAuthority,
+      withdrawAuthority,
+      feeBps,
+      maxFee,
+      TOKEN_2022_PROGRAM_ID
+    ),
+    createInitializeMint2Instruction(mint.publicKey, decimals, mintAuthority, null, TOKEN_2022_PROGRAM_ID),
+  ];
+
+  let supplyAccount: PublicKey | null = null;
+  const rawSupply = supply !== null ? supply * 10n ** BigInt(decimals) : 0n;
+  if (rawSupply > 0n) {
+    supplyAccount = getAssociatedTokenAddressSync(mint.publicKey, payer.publicKey, false, TOKEN_2022_PROGRAM_ID);
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer.publicKey,
+        supplyAccount,
+        payer.publicKey,
+        mint.publicKey,
+        TOKEN_2022_PROGRAM_ID
+      ),
+      createMintToInstruction(mint.publicKey, supplyAccount, payer.publicKey, rawSupply, [], TOKEN_2022_PROGRAM_ID)
+    );
+  }
+
+  const { signature, simulation } = await executeInstructions(context, instructions, [payer, mint]);
+
+  return {
+    ok: true,
+    summary: `Token-2022 mint ${mint.publicKey.toBase58()} created`,
+    data: {
+      mint: mint.publicKey,
+      decimals,
+      transferFee: { basisPoints: feeBps, maximumFee: maxFee },
+      mintAuthority,
+      transferFeeConfigAuthority: feeAuthority,
+      withdrawWithheldAuthority: withdrawAuthority,
+      supply: rawSupply,
+      supplyAccount,
+      signature,
+      simulation,
+    },
+  };
+}
+
+/**
+ * tek mint fee set - Schedule a new transfer fee
+ * Token-2022 applies it two epochs after the current one.
+ */
+async function setTransferFee(context: CliContext): Promise<CommandResult> {
+  const mint = getTargetMint(context);
+  const authority = loadSigner(context, 'authority', 'ADMIN_WALLET_JSON');
+  const feeBps = getIntegerFlag(context, 'fee-bps', 0, MAX_TRANSFER_FEE_BPS);
+  const maxFee = getAmountFlag(context, 'max-fee', true);
+
+  const { preview, signature, simulation } = await scheduleTransferFee(
+    { basisPoints: feeBps, maximumFee: maxFee },
+    authority,
+    { mint, dryRun: context.dryRun }
+  );
+
+  return {
+    ok: true,
+    summary: `Transfer fee of ${feeBps / 100}% scheduled from epoch ${preview.proposed.epoch}`
+      + (preview.replacesPending ? ' (replaces the pending change)' : ''),
+    data: {
+      mint,
+      inForce: preview.schedule.effective,
+      scheduled: preview.proposed,
+      replacedPending: preview.schedule.pending,
+      signature,
+      simulation,
+    },
+  };
+}
+
+/**
+ * tek mint fee activate - Report whether the scheduled transfer fee is in force
+ *
+ * Token-2022 only lets a new fee take effect two epochs after it is set, and
+ * setting it again restarts that delay, so nothing is sent: the command tells
+ * when the scheduled fee activates and fails (status 1) while it is pending.
+ */
+async function activateTransferFee(context: CliContext): Promise<CommandResult> {
+  const mint = getTargetMint(context);
+  const state = await describeTransferFee(mint);
+  const { pending } = state;
+
+  return {
+    ok: pending === null,
+    summary: pending === null
+      ? 'The newest transfer fee is in force'
+      : `The scheduled transfer fee activates at epoch ${pending.epoch} (${pending.epochsRemaining} epoch(s) left, about ${pending.estimatedEffectiveAt})`,
+    data: { ...state },
+  };
+}
+
+const AUTHORITY_TYPES: Record<string, AuthorityType> = {
+  'withdraw-withheld': AuthorityType.WithheldWithdraw,
+  'transfer-fee-config': AuthorityType.TransferFeeConfig,
+  mint: AuthorityType.MintTokens,
+};
+
+/**
+ * tek mint authority set - Move a mint authority to another address (or revoke it)
+ */
+async function setMintAuthority(context: CliContext): Promise<CommandResult> {
+  const mint = getTargetMint(context);
+  const authority = loadSigner(context, 'authority', 'ADMIN_WALLET_JSON');
+  const typeName = getFlag(context, 'type') ?? 'withdraw-withheld';
+  const authorityType = AUTHORITY_TYPES[typeName];
+  if (authorityType === undefined) {
+    throw new Error(`--type must be one of ${Object.keys(AUTHORITY_TYPES).join(', ')}`);
+  }
+
+  // The withdraw authority goes to the reward wallet unless --new is given; "none" revokes
+  const newFlag = getFlag(context, 'new');
+  let newAuthority: PublicKey | null;
+  if (newFlag === 'none') {
+    newAuthority = null;
+  } else if (newFlag) {
+    newAuthority = parsePublicKey(newFlag, 'new authority');
+  } else if (authorityType === AuthorityType.WithheldWithdraw && getRewardWalletAddress()) {
+    newAuthority = getRewardWalletAddress();
+  } else {
+    throw new Error('--new <address|none> is required');
+  }
+
+  const { mint: parsed, transferFeeConfig } = await fetchTransferFeeMint(mint);
+  const current = authorityType === AuthorityType.WithheldWithdraw
+    ? transferFeeConfig.withdrawWithheldAuthority
+    : authorityType === AuthorityType.TransferFeeConfig
+      ? transferFeeConfig.transferFeeConfigAuthority
+      : parsed.mintAuthority;
+  if (!current) {
+    throw new Error(`The ${typeName} authority is revoked and cannot be changed`);
+  }
+  if (!current.equals(authority.publicKey)) {
+    throw new Error(`The ${typeName} authority is ${current.toBase58()}, not the signer ${authority.publicKey.toBase58()}`);
+  }
+  if (newAuthority && newAuthority.equals(current)) {
+    return {
+      ok: true,
+      summary: `The ${typeName} authority is already ${current.toBase58()}`,
+      data: { mint, type: typeName, authority: current, signature: null },
+    };
+  }
+
+  const { signature, simulation } = await executeInstructions(
+    context,
+    [createSetAuthorityInstruction(mint, authority.publicKey, authorityType, newAuthority, [], TOKEN_2022_PROGRAM_ID)],
+    [authority]
+  );
+
+  return {
+    ok: true,
+    summary: newAuthority
+      ? `The ${typeName} authority moved to ${newAuthority.toBase58()}`
+      : `The ${typeName} authority is revoked`,
+    data: { mint, type: typeName, previousAuthority: current, newAuthority, signature, simulation },
+  };
+}
+
+/**
+ * tek mint verify - Check the mint's transfer fee setup
+ * Fails (status 1) when a check fails, so it can gate deployments.
+ */
+async function verifyMint(context: CliContext): Promise<CommandResult> {
+  const mint = getTargetMint(context);
+  const state = await describeTransferFee(mint);
+  const activeFee = state.effective;
+  const rewardWallet = getRewardWalletAddress();
+
+  const checks: Array<{ name: string; ok: boolean; detail: string }> = [
+    {
+      name: 'transfer fee active',
+      ok: activeFee.basisPoints > 0,
+      detail: `${activeFee.basisPoints} bps in force`,
+    },
+    {
+      name: 'withdraw authority is the reward wallet',
+      ok: rewardWallet !== null && state.withdrawWithheldAuthority === rewardWallet.toBase58(),
+      detail: `authority ${state.withdrawWithheldAuthority ?? 'revoked'}, reward wallet ${rewardWallet?.toBase58() ?? 'unknown'}`,
+    },
+  ];
+
+  const expectedBps = getFlag(context, 'expect-bps') !== null ? getIntegerFlag(context, 'expect-bps', 0, MAX_TRANSFER_FEE_BPS) : null;
+  if (expectedBps !== null) {
+    checks.push({
+      name: 'fee matches --expect-bps',
+      ok: activeFee.basisPoints === expectedBps,
+      detail: `expected ${expectedBps} bps, in force ${activeFee.basisPoints} bps`,
+    });
+  }
+  const expectedMaxFee = getAmountFlag(context, 'expect-max-fee');
+  if (expectedMaxFee !== null) {
+    checks.push({
+      name: 'maximum fee matches --expect-max-fee',
+      ok: activeFee.maximumFee === expectedMaxFee.toString(),
+      detail: `expected ${expectedMaxFee}, in force ${activeFee.maximumFee}`,
+    });
+  }
+
+  const failed = checks.filter((check) => !check.ok);
+  return {
+    ok: failed.length === 0,
+    summary: failed.length === 0
+      ? 'Mint transfer fee setup verified'
+      : `${failed.length} check(s) failed: ${failed.map((check) => check.name).join(', ')}`,
+    data: { ...state, checks },
+  };
+}
+
+export const mintCommands: CliCommand[] = [
+  {
+    path: ['mint', 'create'],
+    usage: '--fee-bps <bps> --max-fee <raw> [--decimals 6] [--supply <tokens>] [--mint-authority <address>] [--fee-authority <address>] [--withdraw-authority <address>] [--mint-keypair <file>] [--payer <ENV>]',
+    description: 'Create a Token-2022 mint with a transfer fee',
+    run: createMint,
+  },
+  {
+    path: ['mint', 'fee', 'set'],
+    usage: '--fee-bps <bps> --max-fee <raw> [--mint <address>] [--authority <ENV>]',
+    description: 'Schedule a new transfer fee (in force two epochs later)',
+    run: setTransferFee,
+  },
+  {
+    path: ['mint', 'fee', 'activate'],
+    usage: '[--mint <address>]',
+    description: 'Report when the scheduled transfer fee comes into force',
+    run: activateTransferFee,
+  },
+  {
+    path: ['mint', 'authority', 'set'],
+    usage: '[--type withdraw-withheld|transfer-fee-config|mint] [--new <address|none>] [--mint <address>] [--authority <ENV>]',
+    description: 'Move or revoke a mint authority (withdraw authority defaults to the reward wallet)',
+    run: setMintAuthority,
+  },
+  {
+    path: ['mint', 'verify'],
+    usage: '[--expect-bps <bps>] [--expect-max-fee <raw>] [--mint <address>]',
+    description: 'Check the transfer fee and withdraw authority',
+    run: verifyMint,
+  },
+];
@@ -0,0 +1,37 @@
+import { getCurrentEpoch } from '../services/cycleService';
+import { reconcileEpoch } from '../services/reconciliationService';
+import { generateReconciliationReport } from '../services/rewardExportService';
+import { getFlag, type CliCommand, type CliContext, type CommandResult } from './context';
+
+/**
+ * tek reconcile - Check an epoch's recorded transactions against the chain
+ *
+ * Prints the reconciliation report (see reconciliationService); --save also
+ * stores it with the audit exports (GET /audit/reconciliation/:epoch). Fails
+ * (status 1) on any finding or when the reward wallet history was truncated.
+ */
+
+async function reconcile(context: CliContext): Promise<CommandResult> {
+  const epoch = getFlag(context, 'epoch') ?? getCurrentEpoch();
+  const report = context.flags.save
+    ? (await generateReconciliationReport(epoch)).report
+    : await reconcileEpoch(epoch);
+
+  const findingTypes = Array.from(new Set(report.findings.map((finding) => finding.type)));
+  return {
+    ok: report.ok,
+    summary: report.ok
+      ? `Epoch ${epoch} reconciled: ${report.totals.verifiedTransactions} transaction(s) match the chain`
+      : report.findings.length > 0
+        ? `Epoch ${epoch}: ${report.findings.length} finding(s) (${findingTypes.join(', ')})`
+        : `Epoch ${epoch}: reward wallet history truncated - unrecorded outflows were not fully checked`,
+    data: { ...report },
+  };
+}
+
+export const reconcileCommand: CliCommand = {
+  path: ['reconcile'],
+  usage: '[--epoch <YYYY-MM-DD>] [--save]',
+  description: 'Reconcile the recorded harvests, swaps and payouts of an epoch with the chain (default: current epoch)',
+  run: reconcile,
+};
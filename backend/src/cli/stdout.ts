@@ -0,0 +1,21 @@
+/**
+ * CLI stdout
+ *
+ * Must be the first import of the CLI entry point: the backend modules log
+ * through console.log as they load, and stdout is reserved for command output
+ * (so --json output can be piped). Logs are moved to stderr before anything
+ * else is loaded.
+ */
+
+const stdoutWrite = process.stdout.write.bind(process.stdout);
+
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+
+/**
+ * Write command output to stdout
+ */
+export function writeStdout(text: string): void {
+  stdoutWrite(text.endsWith('\n') ? text : `${text}\n`);
+}
@@ -0,0 +1,91 @@
+import {
+  NATIVE_MINT,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+} from '@solana/spl-token';
+import { connection, getTokenMint } from '../config/solana';
+import { getActiveProject } from '../utils/projectContext';
+import {
+  executeInstructions,
+  getFlag,
+  loadSigner,
+  parsePublicKey,
+  type CliCommand,
+  type CliContext,
+  type CommandResult,
+} from './context';
+
+/**
+ * Wallet commands (tek wallets ...)
+ */
+
+/**
+ * tek wallets ata-create - Create missing associated token accounts
+ * Defaults to WSOL accounts for the reward and treasury wallets, paid by the reward wallet.
+ */
+async function createAtas(context: CliContext): Promise<CommandResult> {
+  const project = getActiveProject();
+  const payer = loadSigner(context, 'payer', project.rewardWalletEnv);
+
+  const mintFlag = getFlag(context, 'mint') ?? 'wsol';
+  const mint = mintFlag === 'wsol' ? NATIVE_MINT : mintFlag === 'token' ? getTokenMint() : parsePublicKey(mintFlag, 'mint');
+  const mintAccount = await connection.getAccountInfo(mint, 'confirmed');
+  if (!mintAccount) {
+    throw new Error(`Mint account not found: ${mint.toBase58()}`);
+  }
+  const tokenProgram = mintAccount.owner;
+
+  const ownersFlag = getFlag(context, 'owners');
+  const rewardWallet = project.rewardWalletAddress
+    ? parsePublicKey(project.rewardWalletAddress, 'reward wallet address')
+    : payer.publicKey;
+  const owners = ownersFlag
+    ? ownersFlag.split(',').map((owner) => parsePublicKey(owner.trim(), 'owner'))
+    : [rewardWallet, parsePublicKey(project.treasuryWalletAddress, 'treasury wallet address')];
+
+  const accounts = owners.map((owner) => ({
+    owner,
+    address: getAssociatedTokenAddressSync(mint, owner, true, tokenProgram),
+  }));
+  const existing = await connection.getMultipleAccountsInfo(accounts.map((account) => account.address), 'confirmed');
+  const missing = accounts.filter((_account, index) => existing[index] === null);
+
+  let execution: Awaited<ReturnType<typeof executeInstructions>> = { signature: null, simulation: null };
+  if (missing.length > 0) {
+    execution = await executeInstructions(
+      context,
+      missing.map((account) =>
+        createAssociatedTokenAccountIdempotentInstruction(payer.publicKey, account.address, account.owner, mint, tokenProgram)
+      ),
+      [payer]
+    );
+  }
+
+  return {
+    ok: true,
+    summary: missing.length > 0
+      ? `${missing.length} token account(s) created for ${mint.toBase58()}`
+      : 'All token accounts already exist',
+    data: {
+      mint,
+      tokenProgram,
+      payer: payer.publicKey,
+      accounts: accounts.map((account) => ({
+        owner: account.owner,
+        address: account.address,
+        status: missing.includes(account) ? 'created' : 'existing',
+      })),
+      signature: execution.signature,
+      simulation: execution.simulation,
+    },
+  };
+}
+
+export const walletCommands: CliCommand[] = [
+  {
+    path: ['wallets', 'ata-create'],
+    usage: '[--mint wsol|token|<address>] [--owners <address,...>] [--payer <ENV>]',
+    description: 'Create missing token accounts (default: WSOL for the reward and treasury wallets)',
+    run: createAtas,
+  },
+];
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { logger } from '../utils/logger';
+
+/**
+ * Admin Access Configuration
+ *
+ * Who may call the /admin API and what they may do. A caller authenticates
+ * either with an API key (Authorization: Bearer <key>) or by signing the
+ * request with a Solana keypair (see middleware/adminAuth.ts). Every
+ * credential has a role, and each role grants a set of scopes:
+ *
+ * - viewer: read (status, blacklist, audit log, alerts, webhooks, cycle simulation)
+ * - operator: viewer + scheduler (pause/resume/skip/force-run), cache, exports,
+ *   alerts (test notification, run checks), webhooks (subscriptions, redelivery)
+ * - admin: operator + blacklist edits, transfer fee changes (fees)
+ *
+ * The admin wallet (ADMIN_WALLET_JSON) can always sign requests as "admin".
+ *
+ * Configuration:
+ * - ADMIN_API_KEYS: JSON array, e.g.
+ *     [{"name":"ops-bot","key":"<at least 32 characters>","role":"operator"}]
+ * - ADMIN_SIGNERS: JSON array of extra signing wallets, e.g.
+ *     [{"name":"alice","pubkey":"<pubkey>","role":"admin"}]
+ * - ADMIN_SIGNATURE_MAX_AGE_MS: How old a signed request may be (default: 300000 = 5 minutes)
+ */
+
+export type AdminRole = 'viewer' | 'operator' | 'admin';
+
+export type AdminScope = 'read' | 'scheduler' | 'cache' | 'exports' | 'alerts' | 'webhooks' | 'blacklist' | 'fees';
+
+export const ROLE_SCOPES: Record<AdminRole, readonly AdminScope[]> = {
+  viewer: ['read'],
+  operator: ['read', 'scheduler', 'cache', 'exports', 'alerts', 'webhooks'],
+  admin: ['read', 'scheduler', 'cache', 'exports', 'alerts', 'webhooks', 'blacklist', 'fees'],
+};
+
+export const ADMIN_SIGNATURE_MAX_AGE_MS = process.env.ADMIN_SIGNATURE_MAX_AGE_MS
+  ? parseInt(process.env.ADMIN_SIGNATURE_MAX_AGE_MS, 10)
+  : 5 * 60 * 1000; // Default: 5 minutes
+
+const MIN_API_KEY_LENGTH = 32;
+
+export interface AdminApiKey {
+  name: string;
+  role: AdminRole;
+  keyHash: Buffer; // SHA-256 of the key - the key itself is not kept
+}
+
+export interface AdminSigner {
+  name: string;
+  role: AdminRole;
+  pubkey: string;
+}
+
+export interface AdminCredentials {
+  apiKeys: AdminApiKey[];
+  signers: AdminSigner[];
+}
+
+let cachedCredentials: AdminCredentials | null = null;
+
+/**
+ * SHA-256 of an API key (keys are compared by hash in constant time)
+ */
+export function hashApiKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Parse an optional JSON array environment variable
+ */
+function parseJsonArray(envName: string): Array<Record<string, unknown>> {
+  const raw = process.env[envName];
+  if (!raw) {
+    return [];
+  }
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${envName} must be a JSON array`);
+  }
+  return parsed;
+}
+
+/**
+ * Validate a role value
+ */
+function parseRole(value: unknown, label: string): AdminRole {
+  if (value === 'viewer' || value === 'operator' || value === 'admin') {
+    return value;
+  }
+  throw new Error(`${label}: role must be one of viewer, operator, admin`);
+}
+
+/**
+ * Get the configured admin credentials
+ * @throws Error if ADMIN_API_KEYS or ADMIN_SIGNERS is malformed
+ */
+export function getAdminCredentials(): AdminCredentials {
+  if (cachedCredentials) {
+    return cachedCredentials;
+  }
+
+  const names = new Set<string>();
+  const checkName = (value: unknown, envName: string): string => {
+    const name = typeof value === 'string' ? value.trim() : '';
+    if (!name) {
+      throw new Error(`${envName}: every entry needs a "name"`);
+    }
+    if (names.has(name)) {
+      throw new Error(`${envName}: duplicate name "${name}"`);
+    }
+    names.add(name);
+    return name;
+  };
+
+  const apiKeys = parseJsonArray('ADMIN_API_KEYS').map((entry) => {
+    const name = checkName(entry.name, 'ADMIN_API_KEYS');
+    const key = typeof entry.key === 'string' ? entry.key : '';
+    if (key.length < MIN_API_KEY_LENGTH) {
+      throw new Error(`ADMIN_API_KEYS: key of "${name}" must be at least ${MIN_API_KEY_LENGTH} characters`);
+    }
+    return { name, role: parseRole(entry.role, `ADMIN_API_KEYS "${name}"`), keyHash: hashApiKey(key) };
+  });
+
+  const adminWallet = loadKeypairFromEnv('ADMIN_WALLET_JSON');
+  const signers: AdminSigner[] = [
+    { name: checkName('admin-wallet', 'ADMIN_SIGNERS'), role: 'admin', pubkey: adminWallet.publicKey.toBase58() },
+    ...parseJsonArray('ADMIN_SIGNERS').map((entry) => {
+      const name = checkName(entry.name, 'ADMIN_SIGNERS');
+      const pubkey = typeof entry.pubkey === 'string' ? entry.pubkey.trim() : '';
+      try {
+        new PublicKey(pubkey);
+      } catch {
+        throw new Error(`ADMIN_SIGNERS: invalid pubkey for "${name}"`);
+      }
+      return { name, role: parseRole(entry.role, `ADMIN_SIGNERS "${name}"`), pubkey };
+    }),
+  ];
+
+  cachedCredentials = { apiKeys, signers };
+  return cachedCredentials;
+}
+
+/**
+ * Validate the admin credentials on startup
+ * Fails fast so a typo in a key or role is not discovered during an incident.
+ */
+export function validateAdminAccess(): void {
+  let credentials: AdminCredentials;
+  try {
+    credentials = getAdminCredentials();
+  } catch (error) {
+    throw new Error(`Invalid admin access configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  logger.info('✅ Admin access validated', {
+    apiKeys: credentials.apiKeys.map((key) => ({ name: key.name, role: key.role })),
+    signers: credentials.signers.map((signer) => ({ name: signer.name, role: signer.role, pubkey: signer.pubkey })),
+  });
+}
@@ -1,6 +1,8 @@
 /**
- * Blacklisted addresses that should be excluded from rewards
- * Includes admin wallets, tax wallets, DEXes, and liquidity pools
+ * Built-in addresses that are always excluded from rewards
+ * Includes admin wallets, tax wallets, DEXes, and liquidity pools.
+ * Runtime entries and automatically detected pool/program owners are managed
+ * by blacklistService - use isBlacklisted() from there.
  */
 
 export const BLACKLISTED_ADDRESSES = [
@@ -13,11 +15,3 @@ export const BLACKLISTED_ADDRESSES = [
   // 'So11111111111111111111111111111111111111112', // Wrapped SOL (example)
   // Add more DEX/LP addresses here as needed
 ] as const;
-
-/**
- * Check if an address is blacklisted
- */
-export function isBlacklisted(address: string): boolean {
-  return (BLACKLISTED_ADDRESSES as readonly string[]).includes(address);
-}
-
@@ -120,6 +120,477 @@ export const BATCH_HARVEST_CONFIG = {
     : 30000, // Default: 30 seconds
 } as const;
 
+/**
+ * Payout Batch Configuration
+ * 
+ * Controls how holder SOL payouts are packed into transactions. Each
+ * transaction carries as many transfers as fit in the 1232-byte size limit
+ * (about 20 for legacy transactions), capped by MAX_TRANSFERS_PER_TX.
+ * 
+ * - MAX_TRANSFERS_PER_TX: Maximum transfers per payout transaction
+ *   Default: 60
+ * 
+ * - USE_LOOKUP_TABLES: Send payouts as v0 transactions using address lookup
+ *   tables that hold the recipients (about 55 transfers per transaction).
+ *   Tables are owned by the reward wallet and reused across cycles.
+ *   Default: false
+ * 
+ * - LOOKUP_TABLE_MIN_RECIPIENTS: Minimum payouts in a cycle before lookup
+ *   tables are used (below this, legacy transactions are cheaper)
+ *   Default: 50
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - PAYOUT_MAX_TRANSFERS_PER_TX (default: 60)
+ * - PAYOUT_USE_LOOKUP_TABLES (default: false)
+ * - PAYOUT_LOOKUP_TABLE_MIN_RECIPIENTS (default: 50)
+ */
+export const PAYOUT_BATCH_CONFIG = {
+  MAX_TRANSFERS_PER_TX: process.env.PAYOUT_MAX_TRANSFERS_PER_TX
+    ? parseInt(process.env.PAYOUT_MAX_TRANSFERS_PER_TX, 10)
+    : 60, // Default: 60 transfers
+  USE_LOOKUP_TABLES: process.env.PAYOUT_USE_LOOKUP_TABLES === 'true', // Default: false
+  LOOKUP_TABLE_MIN_RECIPIENTS: process.env.PAYOUT_LOOKUP_TABLE_MIN_RECIPIENTS
+    ? parseInt(process.env.PAYOUT_LOOKUP_TABLE_MIN_RECIPIENTS, 10)
+    : 50, // Default: 50 payouts
+} as const;
+
+/**
+ * Payout Queue Configuration
+ * 
+ * Holder payouts that fail or cannot be afforded are kept in a persisted
+ * queue with the amount owed and retried in later cycles with exponential
+ * backoff (RETRY_BASE_DELAY_MS, doubling per retry, capped at RETRY_MAX_DELAY_MS).
+ * 
+ * - MAX_RETRIES: Failed transfer retries before a payout is marked failed.
+ *   Failed payouts stay in the queue (and on /dashboard/payouts) until the
+ *   holder is owed a new reward, which re-opens them.
+ *   Default: 8
+ * 
+ * - RETRY_BASE_DELAY_MS: Delay before the first retry (milliseconds)
+ *   Default: 600000 (10 minutes)
+ * 
+ * - RETRY_MAX_DELAY_MS: Maximum delay between retries (milliseconds)
+ *   Default: 21600000 (6 hours)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - PAYOUT_MAX_RETRIES (default: 8)
+ * - PAYOUT_RETRY_BASE_DELAY_MS (default: 600000)
+ * - PAYOUT_RETRY_MAX_DELAY_MS (default: 21600000)
+ */
+export const PAYOUT_QUEUE_CONFIG = {
+  MAX_RETRIES: process.env.PAYOUT_MAX_RETRIES
+    ? parseInt(process.env.PAYOUT_MAX_RETRIES, 10)
+    : 8, // Default: 8 retries
+  RETRY_BASE_DELAY_MS: process.env.PAYOUT_RETRY_BASE_DELAY_MS
+    ? parseInt(process.env.PAYOUT_RETRY_BASE_DELAY_MS, 10)
+    : 10 * 60 * 1000, // Default: 10 minutes
+  RETRY_MAX_DELAY_MS: process.env.PAYOUT_RETRY_MAX_DELAY_MS
+    ? parseInt(process.env.PAYOUT_RETRY_MAX_DELAY_MS, 10)
+    : 6 * 60 * 60 * 1000, // Default: 6 hours
+} as const;
+
+/**
+ * Reward Accumulation Configuration
+ * 
+ * Controls what happens to holder rewards below the minimum payout threshold.
+ * When disabled, sub-threshold rewards are not paid and their SOL is left in
+ * the reward wallet untracked. When enabled, they are credited to the holder
+ * in the unpaid rewards store and reserved in the reward wallet; the holder is
+ * paid the current reward plus the accumulated amount once the total reaches
+ * the threshold.
+ * 
+ * - ENABLED: Credit sub-threshold rewards and pay them out once they add up
+ *   Default: false
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - REWARD_ACCUMULATION_ENABLED (default: false)
+ */
+export const REWARD_ACCUMULATION_CONFIG = {
+  ENABLED: process.env.REWARD_ACCUMULATION_ENABLED === 'true', // Default: false
+} as const;
+
+/**
+ * Reward Weighting Configuration
+ * 
+ * Controls which balance each holder's share of a distribution is based on.
+ * 
+ * - WEIGHTING_MODE: "TIME_WEIGHTED" or "INSTANTANEOUS"
+ *   - TIME_WEIGHTED: Average balance over the current epoch, from periodic
+ *     balance snapshots, capped at the current balance. Buying just before a
+ *     cycle earns almost nothing.
+ *   - INSTANTANEOUS: Balance at distribution time (original behaviour, kept
+ *     for comparison)
+ *   Default: TIME_WEIGHTED (falls back to INSTANTANEOUS until the first snapshot)
+ * 
+ * - SNAPSHOT_INTERVAL_MS: Time between holder balance snapshots
+ *   Default: 900000 (15 minutes)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - REWARD_WEIGHTING_MODE (default: TIME_WEIGHTED)
+ * - BALANCE_SNAPSHOT_INTERVAL_MS (default: 900000)
+ */
+export const REWARD_WEIGHTING_CONFIG = {
+  WEIGHTING_MODE: (process.env.REWARD_WEIGHTING_MODE || 'TIME_WEIGHTED').toUpperCase() === 'INSTANTANEOUS'
+    ? 'INSTANTANEOUS' as const
+    : 'TIME_WEIGHTED' as const,
+  SNAPSHOT_INTERVAL_MS: process.env.BALANCE_SNAPSHOT_INTERVAL_MS
+    ? parseInt(process.env.BALANCE_SNAPSHOT_INTERVAL_MS, 10)
+    : 15 * 60 * 1000, // Default: 15 minutes
+} as const;
+
+/**
+ * Blacklist Configuration
+ * 
+ * Controls automatic exclusion of non-holder wallets found while scanning
+ * token holders (see blacklistService). Excluded owners are recorded in the
+ * persisted blacklist with the reason they were detected.
+ * 
+ * - AUTO_DETECT: Exclude owners that are Raydium pool authorities, program
+ *   derived addresses (off-curve, no private key - pool vaults, program
+ *   escrows) or known exchange wallets
+ *   Default: true
+ * 
+ * - EXCHANGE_WALLETS: Known exchange hot/deposit wallets to exclude
+ *   Default: none
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - BLACKLIST_AUTO_DETECT (default: true)
+ * - BLACKLIST_EXCHANGE_WALLETS (comma-separated addresses, default: none)
+ */
+export const BLACKLIST_CONFIG = {
+  AUTO_DETECT: process.env.BLACKLIST_AUTO_DETECT !== 'false',
+  EXCHANGE_WALLETS: (process.env.BLACKLIST_EXCHANGE_WALLETS || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0),
+} as const;
+
+/**
+ * Health Check Configuration
+ * 
+ * Controls the component probes behind /health/components (see healthService).
+ * 
+ * - CHECK_INTERVAL_MS: Time between background health checks
+ *   Default: 60000 (1 minute)
+ * 
+ * - RPC_LATENCY_DEGRADED_MS: RPC response time above which the RPC is degraded
+ *   Default: 2000 (2 seconds)
+ * 
+ * - SLOT_LAG_DEGRADED_SECONDS: Age of the RPC's latest block above which the
+ *   RPC is degraded (five times this is down)
+ *   Default: 60
+ * 
+ * - REWARD_WALLET_MIN_SOL: Reward wallet balance below which payouts may fail
+ *   Default: 0.05
+ * 
+ * - CYCLE_STALE_MS: Age of the last successful cycle above which the
+ *   distribution engine is degraded (four times this is down)
+ *   Default: 1800000 (30 minutes)
+ * 
+ * - ELIGIBLE_WALLETS_STALE_MS: Age of the eligible wallets list above which it
+ *   is degraded (the list is refreshed hourly)
+ *   Default: 10800000 (3 hours)
+ * 
+ * - HEARTBEAT_TOKEN: Shared secret the Telegram bot sends with its heartbeat
+ *   (POST /health/heartbeat/telegram-bot). Heartbeats are rejected when unset.
+ * 
+ * - HEARTBEAT_STALE_MS: Time without a heartbeat after which the bot is down
+ *   Default: 300000 (5 minutes)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - HEALTH_CHECK_INTERVAL_MS (default: 60000)
+ * - HEALTH_REWARD_WALLET_MIN_SOL (default: 0.05)
+ * - HEALTH_CYCLE_STALE_MS (default: 1800000)
+ * - HEALTH_HEARTBEAT_TOKEN (default: none)
+ * - HEALTH_HEARTBEAT_STALE_MS (default: 300000)
+ */
+export const HEALTH_CONFIG = {
+  CHECK_INTERVAL_MS: process.env.HEALTH_CHECK_INTERVAL_MS
+    ? parseInt(process.env.HEALTH_CHECK_INTERVAL_MS, 10)
+    : 60 * 1000, // Default: 1 minute
+  RPC_LATENCY_DEGRADED_MS: 2000,
+  SLOT_LAG_DEGRADED_SECONDS: 60,
+  REWARD_WALLET_MIN_SOL: process.env.HEALTH_REWARD_WALLET_MIN_SOL
+    ? parseFloat(process.env.HEALTH_REWARD_WALLET_MIN_SOL)
+    : 0.05,
+  CYCLE_STALE_MS: process.env.HEALTH_CYCLE_STALE_MS
+    ? parseInt(process.env.HEALTH_CYCLE_STALE_MS, 10)
+    : 30 * 60 * 1000, // Default: 30 minutes
+  ELIGIBLE_WALLETS_STALE_MS: 3 * 60 * 60 * 1000, // 3 hours
+  HEARTBEAT_TOKEN: process.env.HEALTH_HEARTBEAT_TOKEN || null,
+  HEARTBEAT_STALE_MS: process.env.HEALTH_HEARTBEAT_STALE_MS
+    ? parseInt(process.env.HEALTH_HEARTBEAT_STALE_MS, 10)
+    : 5 * 60 * 1000, // Default: 5 minutes
+} as const;
+
+/**
+ * Alert Configuration
+ * 
+ * Rules evaluated by the alert engine (see alertService). Alerts go to the
+ * sinks configured in alertSinks (Telegram, webhook, email).
+ * 
+ * - CHECK_INTERVAL_MS: Time between background checks of the wallet balance
+ *   and withdraw authority rules
+ *   Default: 300000 (5 minutes)
+ * 
+ * - COOLDOWN_MS: Minimum time between two notifications of the same active
+ *   alert (repeats in between are counted, not sent)
+ *   Default: 3600000 (1 hour)
+ * 
+ * - REWARD_WALLET_FEE_RESERVE_SOL: SOL the reward wallet keeps for transaction
+ *   fees on top of the reserved accumulated rewards
+ *   Default: 0.05
+ * 
+ * - CONSECUTIVE_FAILED_CYCLES: FAILED cycles in a row that raise an alert
+ *   Default: 3
+ * 
+ * - SWAP_SLIPPAGE_MAX_BPS: Realized swap slippage above which an alert is raised
+ *   Default: 300 (3%)
+ * 
+ * - DISABLED_RULES: Rule ids that are never raised
+ *   (reward-wallet-balance, withdraw-authority, failed-cycles, swap-slippage)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - ALERT_CHECK_INTERVAL_MS (default: 300000)
+ * - ALERT_COOLDOWN_MS (default: 3600000)
+ * - ALERT_REWARD_WALLET_FEE_RESERVE_SOL (default: 0.05)
+ * - ALERT_CONSECUTIVE_FAILED_CYCLES (default: 3)
+ * - ALERT_SWAP_SLIPPAGE_MAX_BPS (default: 300)
+ * - ALERT_DISABLED_RULES (comma-separated, default: none)
+ */
+export const ALERT_CONFIG = {
+  CHECK_INTERVAL_MS: process.env.ALERT_CHECK_INTERVAL_MS
+    ? parseInt(process.env.ALERT_CHECK_INTERVAL_MS, 10)
+    : 5 * 60 * 1000, // Default: 5 minutes
+  COOLDOWN_MS: process.env.ALERT_COOLDOWN_MS
+    ? parseInt(process.env.ALERT_COOLDOWN_MS, 10)
+    : 60 * 60 * 1000, // Default: 1 hour
+  REWARD_WALLET_FEE_RESERVE_SOL: process.env.ALERT_REWARD_WALLET_FEE_RESERVE_SOL
+    ? parseFloat(process.env.ALERT_REWARD_WALLET_FEE_RESERVE_SOL)
+    : 0.05,
+  CONSECUTIVE_FAILED_CYCLES: process.env.ALERT_CONSECUTIVE_FAILED_CYCLES
+    ? parseInt(process.env.ALERT_CONSECUTIVE_FAILED_CYCLES, 10)
+    : 3,
+  SWAP_SLIPPAGE_MAX_BPS: process.env.ALERT_SWAP_SLIPPAGE_MAX_BPS
+    ? parseInt(process.env.ALERT_SWAP_SLIPPAGE_MAX_BPS, 10)
+    : 300,
+  DISABLED_RULES: (process.env.ALERT_DISABLED_RULES || '')
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0),
+} as const;
+
+/**
+ * Metrics Configuration
+ * 
+ * Controls the Prometheus endpoint GET /metrics (see utils/metrics).
+ * 
+ * - ENABLED: Serve /metrics (metrics are still collected when disabled)
+ *   Default: true
+ * 
+ * - BEARER_TOKEN: When set, scrapes must send Authorization: Bearer <token>
+ *   (Prometheus scrape_config "authorization" / "bearer_token")
+ *   Default: none (open endpoint)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - METRICS_ENABLED (default: true)
+ * - METRICS_BEARER_TOKEN (default: none)
+ */
+export const METRICS_CONFIG = {
+  ENABLED: process.env.METRICS_ENABLED !== 'false',
+  BEARER_TOKEN: process.env.METRICS_BEARER_TOKEN || null,
+} as const;
+
+/**
+ * Webhook Configuration
+ * 
+ * Delivery of reward pipeline events to registered webhook URLs (see
+ * webhookService). Subscriptions are managed via the admin API.
+ * 
+ * - MAX_ATTEMPTS: Delivery attempts per event and subscription before the
+ *   delivery is marked failed
+ *   Default: 8
+ * 
+ * - RETRY_BASE_DELAY_MS: Delay before the first retry, doubled after every
+ *   failed attempt
+ *   Default: 30000 (30 seconds)
+ * 
+ * - RETRY_MAX_DELAY_MS: Upper bound of the retry delay
+ *   Default: 3600000 (1 hour)
+ * 
+ * - TIMEOUT_MS: How long a receiver may take to respond
+ *   Default: 10000 (10 seconds)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - WEBHOOK_MAX_ATTEMPTS (default: 8)
+ * - WEBHOOK_RETRY_BASE_DELAY_MS (default: 30000)
+ * - WEBHOOK_RETRY_MAX_DELAY_MS (default: 3600000)
+ * - WEBHOOK_TIMEOUT_MS (default: 10000)
+ */
+export const WEBHOOK_CONFIG = {
+  MAX_ATTEMPTS: process.env.WEBHOOK_MAX_ATTEMPTS
+    ? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10)
+    : 8,
+  RETRY_BASE_DELAY_MS: process.env.WEBHOOK_RETRY_BASE_DELAY_MS
+    ? parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS, 10)
+    : 30 * 1000, // Default: 30 seconds
+  RETRY_MAX_DELAY_MS: process.env.WEBHOOK_RETRY_MAX_DELAY_MS
+    ? parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS, 10)
+    : 60 * 60 * 1000, // Default: 1 hour
+  TIMEOUT_MS: process.env.WEBHOOK_TIMEOUT_MS
+    ? parseInt(process.env.WEBHOOK_TIMEOUT_MS, 10)
+    : 10 * 1000, // Default: 10 seconds
+} as const;
+
+/**
+ * Live Feed Configuration
+ * 
+ * Server-sent events stream at GET /dashboard/live (see liveFeedService)
+ * pushing cycle progress, pipeline events, price updates and scheduler state
+ * to the dashboard.
+ * 
+ * - MAX_CLIENTS: Concurrent stream connections; further clients get 503 and
+ *   keep polling
+ *   Default: 500
+ * 
+ * - HEARTBEAT_INTERVAL_MS: Interval of the keep-alive comment that stops
+ *   proxies from closing an idle stream
+ *   Default: 25000 (25 seconds)
+ * 
+ * - REPLAY_BUFFER_SIZE: Recent events kept for clients reconnecting with
+ *   Last-Event-ID
+ *   Default: 100
+ * 
+ * - RETRY_MS: Reconnect delay suggested to EventSource clients
+ *   Default: 5000 (5 seconds)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - LIVE_FEED_MAX_CLIENTS (default: 500)
+ * - LIVE_FEED_HEARTBEAT_INTERVAL_MS (default: 25000)
+ * - LIVE_FEED_REPLAY_BUFFER_SIZE (default: 100)
+ * - LIVE_FEED_RETRY_MS (default: 5000)
+ */
+export const LIVE_FEED_CONFIG = {
+  MAX_CLIENTS: process.env.LIVE_FEED_MAX_CLIENTS
+    ? parseInt(process.env.LIVE_FEED_MAX_CLIENTS, 10)
+    : 500,
+  HEARTBEAT_INTERVAL_MS: process.env.LIVE_FEED_HEARTBEAT_INTERVAL_MS
+    ? parseInt(process.env.LIVE_FEED_HEARTBEAT_INTERVAL_MS, 10)
+    : 25 * 1000, // Default: 25 seconds
+  REPLAY_BUFFER_SIZE: process.env.LIVE_FEED_REPLAY_BUFFER_SIZE
+    ? parseInt(process.env.LIVE_FEED_REPLAY_BUFFER_SIZE, 10)
+    : 100,
+  RETRY_MS: process.env.LIVE_FEED_RETRY_MS
+    ? parseInt(process.env.LIVE_FEED_RETRY_MS, 10)
+    : 5 * 1000, // Default: 5 seconds
+} as const;
+
+/**
+ * Holder Access Configuration
+ * 
+ * Holder self-service (see holderPreferencesService): holders prove wallet
+ * ownership by signing a nonce message and can then set payout preferences.
+ * 
+ * - NONCE_TTL_MS: Time to sign a verification message
+ *   Default: 300000 (5 minutes)
+ * 
+ * - SESSION_TTL_MS: Lifetime of the session token issued after verification
+ *   Default: 86400000 (24 hours)
+ * 
+ * - MAX_MIN_PAYOUT_SOL: Highest personal minimum payout a holder can choose
+ *   Default: 10
+ * 
+ * - TELEGRAM_LINK_TTL_MS: Lifetime of the code that links a Telegram chat
+ *   Default: 900000 (15 minutes)
+ * 
+ * - TELEGRAM_LINK_TOKEN: Shared secret the Telegram bot sends when it links a
+ *   chat (POST /holders/telegram/link). Telegram DMs are disabled when unset.
+ * 
+ * - TELEGRAM_BOT_USERNAME: Bot username for t.me deep links in the frontend
+ *   Default: none (holders send /start <code> to the bot themselves)
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - HOLDER_NONCE_TTL_MS (default: 300000)
+ * - HOLDER_SESSION_TTL_MS (default: 86400000)
+ * - HOLDER_MAX_MIN_PAYOUT_SOL (default: 10)
+ * - HOLDER_TELEGRAM_LINK_TTL_MS (default: 900000)
+ * - HOLDER_TELEGRAM_LINK_TOKEN (default: none)
+ * - HOLDER_TELEGRAM_BOT_USERNAME (default: none)
+ */
+export const HOLDER_ACCESS_CONFIG = {
+  NONCE_TTL_MS: process.env.HOLDER_NONCE_TTL_MS
+    ? parseInt(process.env.HOLDER_NONCE_TTL_MS, 10)
+    : 5 * 60 * 1000, // Default: 5 minutes
+  NONCE_RATE_LIMIT: process.env.HOLDER_NONCE_RATE_LIMIT
+    ? parseInt(process.env.HOLDER_NONCE_RATE_LIMIT, 10)
+    : 10, // Default: 10 nonce requests per client per minute
+  MAX_PENDING_CHALLENGES: process.env.HOLDER_MAX_PENDING_CHALLENGES
+    ? parseInt(process.env.HOLDER_MAX_PENDING_CHALLENGES, 10)
+    : 10000, // Default: 10000 unexpired nonces across all wallets
+  SESSION_TTL_MS: process.env.HOLDER_SESSION_TTL_MS
+    ? parseInt(process.env.HOLDER_SESSION_TTL_MS, 10)
+    : 24 * 60 * 60 * 1000, // Default: 24 hours
+  MAX_MIN_PAYOUT_SOL: process.env.HOLDER_MAX_MIN_PAYOUT_SOL
+    ? parseFloat(process.env.HOLDER_MAX_MIN_PAYOUT_SOL)
+    : 10,
+  TELEGRAM_LINK_TTL_MS: process.env.HOLDER_TELEGRAM_LINK_TTL_MS
+    ? parseInt(process.env.HOLDER_TELEGRAM_LINK_TTL_MS, 10)
+    : 15 * 60 * 1000, // Default: 15 minutes
+  TELEGRAM_LINK_TOKEN: process.env.HOLDER_TELEGRAM_LINK_TOKEN || null,
+  TELEGRAM_BOT_USERNAME: process.env.HOLDER_TELEGRAM_BOT_USERNAME || null,
+} as const;
+
+/**
+ * Storage Configuration
+ * 
+ * Selects where persistent backend state (reward state, tax state, unpaid
+ * rewards, eligible wallets, history, cycle state, export manifest) is kept.
+ * 
+ * - BACKEND: "file" (one JSON document per key) or "sqlite" (single database file)
+ *   Default: file
+ * 
+ * - DIR: Directory holding the state. When unset, /data is used if it exists
+ *   and is writable (persistent disk), otherwise the working directory.
+ * 
+ * - SQLITE_FILE: Database filename inside DIR (sqlite backend only)
+ *   Default: tek-state.db
+ * 
+ * Configuration:
+ * Set via environment variables:
+ * - STORAGE_BACKEND (default: file)
+ * - STORAGE_DIR (default: /data or working directory)
+ * - STORAGE_SQLITE_FILE (default: tek-state.db)
+ */
+export const STORAGE_CONFIG = {
+  BACKEND: (process.env.STORAGE_BACKEND || 'file').toLowerCase(),
+  DIR: process.env.STORAGE_DIR || null,
+  SQLITE_FILE: process.env.STORAGE_SQLITE_FILE || 'tek-state.db',
+} as const;
+
+/**
+ * Dry-Run Mode
+ *
+ * When DRY_RUN=true the scheduler simulates each cycle with
+ * TaxService.simulateWithheldTax() and logs the plan instead of harvesting,
+ * swapping and distributing. No transactions are sent and no cycle is recorded.
+ *
+ * @returns true if DRY_RUN is "true", false otherwise
+ */
+export function isDryRunMode(): boolean {
+  return process.env.DRY_RUN === 'true';
+}
+
 /**
  * Reward Value Mode Configuration
  * 
@@ -161,12 +632,15 @@ export function isUsdMode(): boolean {
  * This function converts the configured threshold to SOL for comparison:
  * - TOKEN mode: Converts MIN_PAYOUT_TOKEN (NUKE tokens) to SOL using NUKE price
  * - USD mode: Converts MIN_PAYOUT_USD (USD) to SOL using fixed devnet rate (100 SOL = 1 USD)
+ * The thresholds are the active project's (MIN_PAYOUT_* for the default project).
  * 
  * @returns Minimum payout threshold in SOL, or null if price data unavailable
  */
 export async function getMinimumPayoutThreshold(): Promise<number | null> {
   // Dynamic import to avoid circular dependency
   const { getNUKEPriceSOL } = await import('../services/priceService');
+  const { getActiveProject } = await import('../utils/projectContext');
+  const { minPayoutToken, minPayoutUSD } = getActiveProject().thresholds;
   
   try {
     if (isTokenMode()) {
@@ -177,18 +651,18 @@ export async function getMinimumPayoutThreshold(): Promise<number | null> {
           logger.warn('NUKE price unavailable for threshold calculation', {
             source: priceData.source,
             mode: 'TOKEN',
-            thresholdToken: MIN_PAYOUT_CONFIG.MIN_PAYOUT_TOKEN,
+            thresholdToken: minPayoutToken,
           });
           return null;
         }
         
         // NUKE price is in SOL per NUKE
         // For MIN_PAYOUT_TOKEN NUKE tokens, we need: SOL = MIN_PAYOUT_TOKEN × (SOL_per_NUKE)
-        const thresholdSOL = MIN_PAYOUT_CONFIG.MIN_PAYOUT_TOKEN * priceData.price;
+        const thresholdSOL = minPayoutToken * priceData.price;
         
         logger.debug('Minimum payout threshold calculated (TOKEN mode)', {
           mode: 'TOKEN',
-          thresholdToken: MIN_PAYOUT_CONFIG.MIN_PAYOUT_TOKEN,
+          thresholdToken: minPayoutToken,
           nukePriceSOL: priceData.price,
           thresholdSOL: thresholdSOL.toFixed(6),
         });
@@ -198,7 +672,7 @@ export async function getMinimumPayoutThreshold(): Promise<number | null> {
         logger.error('Error calculating minimum payout threshold in TOKEN mode', {
           error: error instanceof Error ? error.message : String(error),
           mode: 'TOKEN',
-          thresholdToken: MIN_PAYOUT_CONFIG.MIN_PAYOUT_TOKEN,
+          thresholdToken: minPayoutToken,
         });
         return null;
       }
@@ -206,11 +680,11 @@ export async function getMinimumPayoutThreshold(): Promise<number | null> {
       // USD mode: Convert MIN_PAYOUT_USD (USD) to SOL
       // Use fixed devnet rate: 100 SOL = 1 USD (same as used elsewhere in codebase)
       const SOL_TO_USD_RATE = 100; // Devnet conversion rate
-      const thresholdSOL = MIN_PAYOUT_CONFIG.MIN_PAYOUT_USD / SOL_TO_USD_RATE;
+      const thresholdSOL = minPayoutUSD / SOL_TO_USD_RATE;
       
       logger.debug('Minimum payout threshold calculated (USD mode)', {
         mode: 'USD',
-        thresholdUSD: MIN_PAYOUT_CONFIG.MIN_PAYOUT_USD,
+        thresholdUSD: minPayoutUSD,
         solToUsdRate: SOL_TO_USD_RATE,
         thresholdSOL: thresholdSOL.toFixed(6),
       });
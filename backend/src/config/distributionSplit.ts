@@ -0,0 +1,212 @@
+import { PublicKey } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import { getProjects, type ProjectConfig } from './projects';
+import { getActiveProject, projectScoped, runWithProject } from '../utils/projectContext';
+
+/**
+ * Distribution Split Configuration
+ *
+ * Declares how the SOL received from each cycle's swap is split. Each bucket
+ * takes either a fixed SOL amount or a percentage and sends it to its
+ * destination address; the bucket named "holders" has no address and is
+ * distributed to eligible holders instead.
+ *
+ * Fixed amounts are taken first (in order, as far as the SOL covers them) and
+ * the percentages split what is left, so the percentages must add up to 100.
+ *
+ * Configuration:
+ * Set DISTRIBUTION_SPLIT to a JSON array, e.g.
+ *   [{"name":"holders","percent":70},
+ *    {"name":"treasury","percent":20,"address":"<pubkey>"},
+ *    {"name":"burn","percent":10},
+ *    {"name":"marketing","fixedSol":0.05,"address":"<pubkey>"}]
+ * - "treasury" defaults to TREASURY_WALLET_ADDRESS, "burn" to the incinerator
+ * Default: 75% holders, 25% treasury
+ * Additional projects declare their own split (distributionSplit in the project
+ * registry); their "treasury" defaults to the project's treasury wallet.
+ */
+
+export const HOLDERS_BUCKET = 'holders';
+
+// SOL sent here can never be spent (no private key exists)
+const BURN_ADDRESS = '1nc1nerator11111111111111111111111111111111';
+
+export interface DistributionBucket {
+  name: string;
+  percent: number | null; // Share of the SOL left after fixed amounts
+  fixedSol: number | null; // Fixed SOL amount per cycle
+  destination: string | null; // null for the holders bucket
+}
+
+export interface BucketAllocation {
+  name: string;
+  destination: string | null;
+  amountLamports: bigint;
+}
+
+const cachedSplit = projectScoped<{ buckets: DistributionBucket[] | null }>(() => ({ buckets: null }));
+
+/**
+ * Parse a project's split (or the default split) without validating it
+ */
+function parseDistributionSplit(project: ProjectConfig): DistributionBucket[] {
+  const entries: Array<Record<string, unknown>> = project.distributionSplit ?? [
+    { name: HOLDERS_BUCKET, percent: 75 },
+    { name: 'treasury', percent: 25 },
+  ];
+
+  if (!Array.isArray(entries)) {
+    throw new Error('DISTRIBUTION_SPLIT must be a JSON array of buckets');
+  }
+
+  return entries.map((entry) => {
+    const name = String(entry.name ?? '').trim().toLowerCase();
+    let destination = typeof entry.address === 'string' ? entry.address.trim() : null;
+    if (!destination && name === 'treasury') {
+      destination = project.treasuryWalletAddress;
+    }
+    if (!destination && name === 'burn') {
+      destination = BURN_ADDRESS;
+    }
+
+    return {
+      name,
+      percent: typeof entry.percent === 'number' ? entry.percent : null,
+      fixedSol: typeof entry.fixedSol === 'number' ? entry.fixedSol : null,
+      destination,
+    };
+  });
+}
+
+/**
+ * List everything wrong with a split (empty when valid)
+ */
+function findSplitErrors(buckets: DistributionBucket[]): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  if (buckets.length === 0) {
+    errors.push('at least one bucket is required');
+  }
+
+  for (const bucket of buckets) {
+    const label = bucket.name || '(unnamed)';
+
+    if (!/^[a-z0-9_-]+$/.test(bucket.name)) {
+      errors.push(`${label}: name must be lowercase letters, digits, "_" or "-"`);
+    }
+    if (names.has(bucket.name)) {
+      errors.push(`${label}: duplicate bucket name`);
+    }
+    names.add(bucket.name);
+
+    if ((bucket.percent === null) === (bucket.fixedSol === null)) {
+      errors.push(`${label}: set exactly one of "percent" or "fixedSol"`);
+    } else if (bucket.percent !== null && !(bucket.percent > 0 && bucket.percent <= 100)) {
+      errors.push(`${label}: percent must be greater than 0 and at most 100`);
+    } else if (bucket.fixedSol !== null && !(bucket.fixedSol > 0 && isFinite(bucket.fixedSol))) {
+      errors.push(`${label}: fixedSol must be a positive number`);
+    }
+
+    if (bucket.name === HOLDERS_BUCKET) {
+      if (bucket.destination) {
+        errors.push(`${label}: the holders bucket is paid to holders and takes no address`);
+      }
+    } else if (!bucket.destination) {
+      errors.push(`${label}: address is required`);
+    } else {
+      try {
+        new PublicKey(bucket.destination);
+      } catch {
+        errors.push(`${label}: invalid address ${bucket.destination}`);
+      }
+    }
+  }
+
+  // Basis points avoid floating point error (e.g. 33.3 + 66.7)
+  const totalBps = buckets.reduce((sum, b) => sum + Math.round((b.percent ?? 0) * 100), 0);
+  if (totalBps !== 10000) {
+    errors.push(`percentages must add up to 100 (got ${totalBps / 100})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Get the validated distribution split of the active project
+ * @throws Error if DISTRIBUTION_SPLIT is malformed or invalid
+ */
+export function getDistributionSplit(): DistributionBucket[] {
+  const cached = cachedSplit();
+  if (cached.buckets) {
+    return cached.buckets;
+  }
+
+  const project = getActiveProject();
+  const source = project.isDefault ? 'DISTRIBUTION_SPLIT' : `distributionSplit of project ${project.id}`;
+  let buckets: DistributionBucket[];
+  try {
+    buckets = parseDistributionSplit(project);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = findSplitErrors(buckets);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}: ${errors.join('; ')}`);
+  }
+
+  cached.buckets = buckets;
+  return cached.buckets;
+}
+
+/**
+ * Validate the distribution split of every project on startup
+ * Fails fast so a bad split never reaches a cycle.
+ */
+export function validateDistributionSplit(): void {
+  for (const project of getProjects()) {
+    const buckets = runWithProject(project, () => getDistributionSplit());
+    logger.info('✅ Distribution split validated', {
+      project: project.id,
+      buckets: buckets.map((bucket) => ({
+        name: bucket.name,
+        share: bucket.percent !== null ? `${bucket.percent}%` : `${bucket.fixedSol} SOL`,
+        destination: bucket.destination ?? 'eligible holders',
+      })),
+    });
+  }
+}
+
+/**
+ * Split an amount of SOL across the buckets
+ * Fixed amounts first (in order), then percentages of the rest. Rounding dust
+ * stays in the reward wallet.
+ *
+ * @param totalLamports - SOL to split (in lamports)
+ * @returns One allocation per bucket, in configuration order
+ */
+export function allocateDistributionSplit(
+  totalLamports: bigint,
+  buckets: DistributionBucket[] = getDistributionSplit()
+): BucketAllocation[] {
+  let remaining = totalLamports;
+  const fixedAmounts = new Map<string, bigint>();
+
+  for (const bucket of buckets) {
+    if (bucket.fixedSol !== null) {
+      const wanted = BigInt(Math.round(bucket.fixedSol * 1e9));
+      const amount = wanted < remaining ? wanted : remaining;
+      fixedAmounts.set(bucket.name, amount);
+      remaining -= amount;
+    }
+  }
+
+  return buckets.map((bucket) => ({
+    name: bucket.name,
+    destination: bucket.destination,
+    amountLamports: bucket.percent !== null
+      ? (remaining * BigInt(Math.round(bucket.percent * 100))) / 10000n
+      : fixedAmounts.get(bucket.name) ?? 0n,
+  }));
+}
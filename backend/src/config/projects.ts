@@ -0,0 +1,306 @@
+import * as fs from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import { env } from './env';
+import { REWARD_CONFIG, MIN_PAYOUT_CONFIG, TAX_THRESHOLD_CONFIG } from './constants';
+import { logger } from '../utils/logger';
+
+/**
+ * Project Registry
+ *
+ * One backend instance can run the reward pipeline for several tokens. Each
+ * project has its own mint, Raydium pool, reward and treasury wallets,
+ * distribution split, thresholds and state namespace; the RPC connection, admin
+ * credentials, webhooks and holder preferences are shared.
+ *
+ * The default project is built from the existing environment variables
+ * (TOKEN_MINT, RAYDIUM_POOL_ID, REWARD_WALLET_PRIVATE_KEY_JSON, ...) and keeps
+ * the un-prefixed routes and the original state files. Additional projects are
+ * read from a JSON array, e.g.
+ *   [{"id": "second", "name": "Second", "tokenMint": "<mint>",
+ *     "raydiumPoolId": "<pool>", "rewardWalletEnv": "SECOND_REWARD_WALLET_PRIVATE_KEY_JSON",
+ *     "rewardWalletAddress": "<pubkey>", "treasuryWalletAddress": "<pubkey>",
+ *     "treasuryWalletEnv": "SECOND_TREASURY_WALLET_PRIVATE_KEY_JSON", "distributionSplit": [...],
+ *     "thresholds": {"minHoldingUSD": 10, "minTaxThresholdToken": 50000},
+ *     "rewardAsset": {"asset": "<mint>", "symbol": "USDC", "poolId": "<pool>"}}]
+ * Wallet private keys stay in environment variables; a project names the
+ * variable holding its key. Omitted thresholds use the global configuration.
+ *
+ * Configuration:
+ * Set via environment variables:
+ * - DEFAULT_PROJECT_ID (default: tek) - id of the project configured by TOKEN_MINT
+ * - DEFAULT_PROJECT_NAME (default: TEK)
+ * - PROJECTS_FILE - path of a JSON file with the additional projects
+ * - PROJECTS_JSON - the same JSON inline (used when PROJECTS_FILE is not set)
+ */
+
+const DEFAULT_TREASURY_ADDRESS = 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo';
+
+export interface ProjectThresholds {
+  minHoldingUSD: number; // Minimum holding value to be eligible
+  minPayoutToken: number; // Minimum payout in tokens (TOKEN mode)
+  minPayoutUSD: number; // Minimum payout in USD (USD mode)
+  minTaxThresholdToken: number; // Minimum withheld tax to harvest (TOKEN mode)
+  minTaxThresholdUSD: number; // Minimum withheld tax to harvest (USD mode)
+}
+
+export interface ProjectRewardAsset {
+  asset: string; // SOL, TOKEN (the project's own token) or an SPL mint address
+  symbol: string | null;
+  poolId: string | null; // Raydium CPMM pool pairing the asset with SOL
+}
+
+export interface ProjectConfig {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  tokenMint: PublicKey;
+  raydiumPoolId: string | null;
+  raydiumPoolIdUsdc: string | null;
+  rewardWalletEnv: string; // Env var holding the reward wallet keypair
+  rewardWalletAddress: string | null; // Address holding the withdraw authority (required for additional projects)
+  treasuryWalletAddress: string;
+  treasuryWalletEnv: string | null; // Env var holding the treasury keypair (optional)
+  distributionSplit: Array<Record<string, unknown>> | null; // Raw DISTRIBUTION_SPLIT entries (null: default split)
+  thresholds: ProjectThresholds;
+  rewardAsset: ProjectRewardAsset; // Validated by config/rewardAsset
+}
+
+let cachedProjects: ProjectConfig[] | null = null;
+
+function getDefaultThresholds(): ProjectThresholds {
+  return {
+    minHoldingUSD: REWARD_CONFIG.MIN_HOLDING_USD,
+    minPayoutToken: MIN_PAYOUT_CONFIG.MIN_PAYOUT_TOKEN,
+    minPayoutUSD: MIN_PAYOUT_CONFIG.MIN_PAYOUT_USD,
+    minTaxThresholdToken: TAX_THRESHOLD_CONFIG.MIN_TAX_THRESHOLD_TOKEN,
+    minTaxThresholdUSD: TAX_THRESHOLD_CONFIG.MIN_TAX_THRESHOLD_USD,
+  };
+}
+
+/**
+ * Read DISTRIBUTION_SPLIT (validated by config/distributionSplit)
+ */
+function parseSplitEnv(): Array<Record<string, unknown>> | null {
+  const raw = process.env.DISTRIBUTION_SPLIT;
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid DISTRIBUTION_SPLIT: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Build the default project from the single-token environment variables
+ */
+function buildDefaultProject(): ProjectConfig {
+  const mintAddress = (env.TOKEN_MINT as string) || '';
+  if (!mintAddress) {
+    throw new Error('TOKEN_MINT is required');
+  }
+
+  return {
+    id: process.env.DEFAULT_PROJECT_ID || 'tek',
+    name: process.env.DEFAULT_PROJECT_NAME || 'TEK',
+    isDefault: true,
+    tokenMint: new PublicKey(mintAddress),
+    raydiumPoolId: process.env.RAYDIUM_POOL_ID || null,
+    raydiumPoolIdUsdc: process.env.RAYDIUM_POOL_ID_USDC || null,
+    rewardWalletEnv: 'REWARD_WALLET_PRIVATE_KEY_JSON',
+    rewardWalletAddress: process.env.REWARD_WALLET_ADDRESS || null,
+    treasuryWalletAddress: process.env.TREASURY_WALLET_ADDRESS || DEFAULT_TREASURY_ADDRESS,
+    treasuryWalletEnv: 'TREASURY_WALLET_PRIVATE_KEY_JSON',
+    distributionSplit: parseSplitEnv(),
+    thresholds: getDefaultThresholds(),
+    rewardAsset: {
+      asset: process.env.REWARD_ASSET || 'SOL',
+      symbol: process.env.REWARD_ASSET_SYMBOL || null,
+      poolId: process.env.REWARD_ASSET_POOL_ID || null,
+    },
+  };
+}
+
+/**
+ * Read the raw entries of the additional projects (PROJECTS_FILE or PROJECTS_JSON)
+ */
+function readProjectEntries(): Array<Record<string, unknown>> {
+  const file = process.env.PROJECTS_FILE;
+  const raw = file ? fs.readFileSync(file, 'utf-8') : process.env.PROJECTS_JSON;
+  if (!raw || !raw.trim()) {
+    return [];
+  }
+
+  const entries = JSON.parse(raw);
+  if (!Array.isArray(entries)) {
+    throw new Error('projects must be a JSON array');
+  }
+  return entries;
+}
+
+/**
+ * Parse one additional project
+ * @throws Error describing the first invalid field
+ */
+function parseProject(entry: Record<string, unknown>): ProjectConfig {
+  const id = String(entry.id ?? '').trim().toLowerCase();
+  const label = id || '(unnamed)';
+  if (!/^[a-z0-9_-]+$/.test(id)) {
+    throw new Error(`${label}: id must be lowercase letters, digits, "_" or "-"`);
+  }
+
+  const optionalString = (field: string): string | null => {
+    const value = entry[field];
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`${label}: ${field} must be a string`);
+    }
+    return value.trim();
+  };
+  const address = (field: string, value: string | null): string | null => {
+    if (value === null) {
+      return null;
+    }
+    try {
+      return new PublicKey(value).toBase58();
+    } catch {
+      throw new Error(`${label}: invalid ${field} ${value}`);
+    }
+  };
+
+  const tokenMint = address('tokenMint', optionalString('tokenMint'));
+  if (!tokenMint) {
+    throw new Error(`${label}: tokenMint is required`);
+  }
+  const rewardWalletEnv = optionalString('rewardWalletEnv');
+  if (!rewardWalletEnv) {
+    throw new Error(`${label}: rewardWalletEnv is required`);
+  }
+  const rewardWalletAddress = address('rewardWalletAddress', optionalString('rewardWalletAddress'));
+  if (!rewardWalletAddress) {
+    throw new Error(`${label}: rewardWalletAddress is required`);
+  }
+  const treasuryWalletAddress = address('treasuryWalletAddress', optionalString('treasuryWalletAddress'));
+  if (!treasuryWalletAddress) {
+    throw new Error(`${label}: treasuryWalletAddress is required`);
+  }
+
+  const distributionSplit = entry.distributionSplit ?? null;
+  if (distributionSplit !== null && !Array.isArray(distributionSplit)) {
+    throw new Error(`${label}: distributionSplit must be an array of buckets`);
+  }
+
+  const thresholds = getDefaultThresholds();
+  const overrides = (entry.thresholds ?? {}) as Record<string, unknown>;
+  for (const key of Object.keys(thresholds) as Array<keyof ProjectThresholds>) {
+    const value = overrides[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${label}: thresholds.${key} must be a non-negative number`);
+    }
+    thresholds[key] = value;
+  }
+
+  const rewardAsset = (entry.rewardAsset ?? {}) as Record<string, unknown>;
+  if (typeof rewardAsset !== 'object' || Array.isArray(rewardAsset)) {
+    throw new Error(`${label}: rewardAsset must be an object`);
+  }
+  for (const field of ['asset', 'symbol', 'poolId']) {
+    if (rewardAsset[field] !== undefined && rewardAsset[field] !== null && typeof rewardAsset[field] !== 'string') {
+      throw new Error(`${label}: rewardAsset.${field} must be a string`);
+    }
+  }
+
+  return {
+    id,
+    name: optionalString('name') ?? id,
+    isDefault: false,
+    tokenMint: new PublicKey(tokenMint),
+    raydiumPoolId: address('raydiumPoolId', optionalString('raydiumPoolId')),
+    raydiumPoolIdUsdc: address('raydiumPoolIdUsdc', optionalString('raydiumPoolIdUsdc')),
+    rewardWalletEnv,
+    rewardWalletAddress,
+    treasuryWalletAddress,
+    treasuryWalletEnv: optionalString('treasuryWalletEnv'),
+    distributionSplit: distributionSplit as Array<Record<string, unknown>> | null,
+    thresholds,
+    rewardAsset: {
+      asset: (rewardAsset.asset as string | undefined) || 'SOL',
+      symbol: (rewardAsset.symbol as string | undefined) || null,
+      poolId: (rewardAsset.poolId as string | undefined) || null,
+    },
+  };
+}
+
+/**
+ * Get all projects, the default project first
+ * @throws Error if the project configuration is invalid
+ */
+export function getProjects(): ProjectConfig[] {
+  if (cachedProjects) {
+    return cachedProjects;
+  }
+
+  const projects = [buildDefaultProject()];
+  let entries: Array<Record<string, unknown>>;
+  try {
+    entries = readProjectEntries();
+  } catch (error) {
+    throw new Error(`Invalid project configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const entry of entries) {
+    let project: ProjectConfig;
+    try {
+      project = parseProject(entry);
+    } catch (error) {
+      throw new Error(`Invalid project configuration: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (projects.some((existing) => existing.id === project.id)) {
+      throw new Error(`Invalid project configuration: duplicate project id "${project.id}"`);
+    }
+    if (projects.some((existing) => existing.tokenMint.equals(project.tokenMint))) {
+      throw new Error(`Invalid project configuration: ${project.id}: mint is already used by another project`);
+    }
+    projects.push(project);
+  }
+
+  cachedProjects = projects;
+  return cachedProjects;
+}
+
+/**
+ * Get the project configured by the single-token environment variables
+ */
+export function getDefaultProject(): ProjectConfig {
+  return getProjects()[0];
+}
+
+/**
+ * Get a project by id
+ * @returns null if there is no such project
+ */
+export function getProject(id: string): ProjectConfig | null {
+  return getProjects().find((project) => project.id === id) ?? null;
+}
+
+/**
+ * Validate the project registry on startup
+ * Fails fast so a bad project never reaches a cycle.
+ */
+export function validateProjects(): void {
+  const projects = getProjects();
+  logger.info('✅ Projects loaded', {
+    projects: projects.map((project) => ({
+      id: project.id,
+      name: project.name,
+      mint: project.tokenMint.toBase58(),
+      default: project.isDefault,
+    })),
+  });
+}
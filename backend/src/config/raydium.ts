@@ -1,28 +1,30 @@
 import { PublicKey } from '@solana/web3.js';
 import { env } from './env';
-import { tokenMint } from './solana';
+import { getTokenMint } from './solana';
 import { logger } from '../utils/logger';
+import { getActiveProject } from '../utils/projectContext';
 
 // Raydium AMM Program ID (same for devnet and mainnet)
 export const RAYDIUM_AMM_PROGRAM_ID = new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
 
+// Raydium CPMM Program IDs
+export const RAYDIUM_CPMM_PROGRAM_IDS = [
+  new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C'), // mainnet
+  new PublicKey('DRaycpLY18LhpbydsBWbVJtxpNv9oXPgjRSfpF2bWpYb'), // devnet
+];
+
 // WSOL mint (wrapped SOL) - same for devnet and mainnet
 export const WSOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
 
-// Base mint = NUKE token
-export const BASE_MINT = tokenMint;
-
 // Quote mint = WSOL
 export const QUOTE_MINT = WSOL_MINT;
 
-// Pool ID from environment (optional - will try to find pool if not provided)
-let poolIdInstance: PublicKey | null = null;
-
 /**
- * Get Raydium pool ID from environment or return null
+ * Get the Raydium pool ID of the active project, or null
+ * The default project's pool is RAYDIUM_POOL_ID (optional - will try to find pool if not provided)
  */
 export function getRaydiumPoolId(): PublicKey | null {
-  const poolIdStr = process.env.RAYDIUM_POOL_ID;
+  const poolIdStr = getActiveProject().raydiumPoolId;
   
   if (!poolIdStr) {
     logger.debug('RAYDIUM_POOL_ID not set in environment variables');
@@ -30,10 +32,7 @@ export function getRaydiumPoolId(): PublicKey | null {
   }
 
   try {
-    if (!poolIdInstance) {
-      poolIdInstance = new PublicKey(poolIdStr);
-    }
-    return poolIdInstance;
+    return new PublicKey(poolIdStr);
   } catch (error) {
     logger.warn('Invalid RAYDIUM_POOL_ID in environment', {
       error: error instanceof Error ? error.message : String(error),
@@ -44,12 +43,31 @@ export function getRaydiumPoolId(): PublicKey | null {
 }
 
 /**
- * Raydium pool configuration
+ * Raydium pool configuration of the active project
+ * Base mint = the project's token, quote mint = WSOL
  */
 export const RAYDIUM_CONFIG = {
   programId: RAYDIUM_AMM_PROGRAM_ID,
-  baseMint: BASE_MINT,
+  get baseMint(): PublicKey {
+    return getTokenMint();
+  },
   quoteMint: QUOTE_MINT,
-  poolId: getRaydiumPoolId(),
+  get poolId(): PublicKey | null {
+    return getRaydiumPoolId();
+  },
 };
 
+
+/**
+ * Get the Raydium pool authorities
+ * Every AMM v4 / CPMM pool's token vaults are owned by its program's single
+ * authority PDA, so the pool's tokens show up as held by these addresses.
+ */
+export function getRaydiumPoolAuthorities(): PublicKey[] {
+  return [
+    PublicKey.findProgramAddressSync([Buffer.from('amm authority')], RAYDIUM_AMM_PROGRAM_ID)[0],
+    ...RAYDIUM_CPMM_PROGRAM_IDS.map(
+      (programId) => PublicKey.findProgramAddressSync([Buffer.from('vault_and_lp_mint_auth_seed')], programId)[0]
+    ),
+  ];
+}
@@ -0,0 +1,174 @@
+import { PublicKey } from '@solana/web3.js';
+import { getAccountLenForMint, unpackMint } from '@solana/spl-token';
+import { connection } from './solana';
+import { logger } from '../utils/logger';
+import { getProjects, type ProjectConfig } from './projects';
+import { getActiveProject, projectScoped, runWithProject } from '../utils/projectContext';
+
+/**
+ * Reward Asset Configuration
+ *
+ * Declares what holders are paid in. The pipeline always swaps the harvested
+ * tax to SOL and splits the SOL (config/distributionSplit); with a reward asset
+ * other than SOL, the SOL paid to holders is swapped into the asset right
+ * before the payouts and each holder receives the asset instead:
+ * - SOL: lamports (default)
+ * - TOKEN: the project's own token ("reflection" mode), bought back through the
+ *   project's Raydium pool
+ * - <mint address>: any SPL or Token-2022 mint (e.g. USDC), bought through a
+ *   Raydium CPMM pool pairing it with SOL
+ *
+ * Allocations, thresholds, accumulated rewards and the payout queue stay in
+ * SOL; amounts are converted at the rate of the cycle's swap. Recipients
+ * without a token account for the asset get one, and its rent is taken out of
+ * the SOL swapped for that run (see solDistributionService).
+ *
+ * Configuration:
+ * Set via environment variables:
+ * - REWARD_ASSET (default: SOL) - SOL, TOKEN or an SPL mint address
+ * - REWARD_ASSET_SYMBOL - display symbol (required for an SPL mint)
+ * - REWARD_ASSET_POOL_ID - Raydium CPMM pool of the asset against SOL
+ *   (required for an SPL mint; TOKEN defaults to RAYDIUM_POOL_ID)
+ * Additional projects declare their own asset (rewardAsset in the project registry).
+ */
+
+export type RewardAssetKind = 'SOL' | 'TOKEN' | 'SPL';
+
+export interface RewardAsset {
+  kind: RewardAssetKind;
+  mint: PublicKey | null; // null for SOL
+  symbol: string;
+  poolId: PublicKey | null; // null for SOL
+}
+
+/**
+ * On-chain details of the reward asset mint
+ */
+export interface RewardAssetMintInfo {
+  programId: PublicKey; // Token program owning the mint
+  decimals: number;
+  accountSize: number; // Size of a token account for the mint (with its extensions)
+}
+
+const cachedAsset = projectScoped<{ asset: RewardAsset | null; mintInfo: RewardAssetMintInfo | null }>(() => ({
+  asset: null,
+  mintInfo: null,
+}));
+
+/**
+ * Parse a project's reward asset
+ * @throws Error describing the first invalid field
+ */
+function parseRewardAsset(project: ProjectConfig): RewardAsset {
+  const { asset, symbol, poolId } = project.rewardAsset;
+  const value = asset.trim();
+
+  if (value.toUpperCase() === 'SOL') {
+    return { kind: 'SOL', mint: null, symbol: 'SOL', poolId: null };
+  }
+
+  const parseAddress = (field: string, address: string): PublicKey => {
+    try {
+      return new PublicKey(address);
+    } catch {
+      throw new Error(`invalid ${field} ${address}`);
+    }
+  };
+
+  if (value.toUpperCase() === 'TOKEN') {
+    const pool = poolId ?? project.raydiumPoolId;
+    if (!pool) {
+      throw new Error('a pool id is required (the project has no Raydium pool)');
+    }
+    return {
+      kind: 'TOKEN',
+      mint: project.tokenMint,
+      symbol: symbol ?? project.name,
+      poolId: parseAddress('pool id', pool),
+    };
+  }
+
+  const mint = parseAddress('mint', value);
+  if (mint.equals(project.tokenMint)) {
+    throw new Error('use TOKEN to pay holders in the project token');
+  }
+  if (!symbol) {
+    throw new Error('a symbol is required for an SPL reward asset');
+  }
+  if (!poolId) {
+    throw new Error('a pool id is required for an SPL reward asset');
+  }
+  return { kind: 'SPL', mint, symbol, poolId: parseAddress('pool id', poolId) };
+}
+
+/**
+ * Get the validated reward asset of the active project
+ * @throws Error if the reward asset is misconfigured
+ */
+export function getRewardAsset(): RewardAsset {
+  const cached = cachedAsset();
+  if (cached.asset) {
+    return cached.asset;
+  }
+
+  const project = getActiveProject();
+  try {
+    cached.asset = parseRewardAsset(project);
+  } catch (error) {
+    const source = project.isDefault ? 'REWARD_ASSET' : `rewardAsset of project ${project.id}`;
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return cached.asset;
+}
+
+/**
+ * Fetch the token program, decimals and token account size of the reward asset mint
+ * @throws Error if the reward asset is SOL or the mint account does not exist
+ */
+export async function getRewardAssetMintInfo(): Promise<RewardAssetMintInfo> {
+  const cached = cachedAsset();
+  if (cached.mintInfo) {
+    return cached.mintInfo;
+  }
+
+  const { mint } = getRewardAsset();
+  if (!mint) {
+    throw new Error('The reward asset is SOL and has no mint');
+  }
+
+  const account = await connection.getAccountInfo(mint, 'confirmed');
+  if (!account) {
+    throw new Error(`Reward asset mint not found: ${mint.toBase58()}`);
+  }
+  const parsed = unpackMint(mint, account, account.owner);
+  cached.mintInfo = {
+    programId: account.owner,
+    decimals: parsed.decimals,
+    accountSize: getAccountLenForMint(parsed),
+  };
+  return cached.mintInfo;
+}
+
+/**
+ * Convert a raw asset amount to a display amount
+ */
+export function formatRewardAssetAmount(amount: bigint, decimals: number): number {
+  return parseFloat((Number(amount) / Math.pow(10, decimals)).toFixed(Math.min(decimals, 9)));
+}
+
+/**
+ * Validate the reward asset of every project on startup
+ * Fails fast so a bad asset never reaches a cycle.
+ */
+export function validateRewardAssets(): void {
+  for (const project of getProjects()) {
+    const asset = runWithProject(project, () => getRewardAsset());
+    logger.info('✅ Reward asset validated', {
+      project: project.id,
+      asset: asset.kind,
+      symbol: asset.symbol,
+      mint: asset.mint?.toBase58() ?? null,
+      poolId: asset.poolId?.toBase58() ?? null,
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { env } from './env';
 import { logger } from '../utils/logger';
+import { getActiveProject } from '../utils/projectContext';
 
 // Lazy initialization of Solana connection to allow server to start without Solana config
 let connectionInstance: Connection | null = null;
@@ -44,22 +45,14 @@ function getConnection(): Connection {
 
 export const connection = getConnection();
 
-// Lazy initialization of token mint to allow server to start without Solana config
-let tokenMintInstance: PublicKey | null = null;
-
-function getTokenMint(): PublicKey {
-  if (!tokenMintInstance) {
-    const mintAddress = (env.TOKEN_MINT as string) || '';
-    if (!mintAddress || typeof mintAddress !== 'string') {
-      throw new Error('TOKEN_MINT is required');
-    }
-    tokenMintInstance = new PublicKey(mintAddress);
-  }
-  return tokenMintInstance;
+/**
+ * Get the token mint of the active project (see config/projects)
+ * The default project's mint is TOKEN_MINT.
+ */
+export function getTokenMint(): PublicKey {
+  return getActiveProject().tokenMint;
 }
 
-export const tokenMint = getTokenMint();
-
 /**
  * Verify connection on startup (non-blocking)
  */
@@ -4,7 +4,14 @@ import { logger } from './utils/logger';
 import { loadKeypairFromEnv, loadKeypairFromEnvOptional } from './utils/loadKeypairFromEnv';
 import { PublicKey } from '@solana/web3.js';
 import { suppressSolanaRetryMessages } from './utils/rateLimitLogger';
-import { isTokenMode, isUsdMode, MIN_PAYOUT_CONFIG, TAX_THRESHOLD_CONFIG, BATCH_HARVEST_CONFIG } from './config/constants';
+import { isTokenMode, isUsdMode, isDryRunMode, MIN_PAYOUT_CONFIG, TAX_THRESHOLD_CONFIG, BATCH_HARVEST_CONFIG, STORAGE_CONFIG } from './config/constants';
+import { initializeStorage } from './storage';
+import { validateDistributionSplit } from './config/distributionSplit';
+import { validateRewardAssets } from './config/rewardAsset';
+import { getProjects, validateProjects, type ProjectConfig } from './config/projects';
+import { validateAdminAccess } from './config/adminAccess';
+import { validateAlertSinks } from './services/alertSinks';
+import { validateSwapProviders } from './services/swapProviders';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -21,6 +28,8 @@ function logStartupConfiguration(): void {
     mode,
     isTokenMode: isTokenMode(),
     isUsdMode: isUsdMode(),
+    dryRun: isDryRunMode(),
+    storageBackend: STORAGE_CONFIG.BACKEND,
     minPayoutConfig: {
       token: MIN_PAYOUT_CONFIG.MIN_PAYOUT_TOKEN,
       usd: MIN_PAYOUT_CONFIG.MIN_PAYOUT_USD,
@@ -40,82 +49,99 @@ function logStartupConfiguration(): void {
 }
 
 /**
- * Validate and load all required wallets on startup
+ * Validate and load all required wallets of every project on startup
  * This ensures the application fails fast if wallet configuration is invalid
  */
 function validateWallets(): void {
   logger.info('Validating wallet configuration...');
 
-  try {
-    // Validate reward wallet (required for tax distribution)
-    const rewardWallet = loadKeypairFromEnv('REWARD_WALLET_PRIVATE_KEY_JSON');
-    logger.info('✅ Reward wallet validated', {
-      publicKey: rewardWallet.publicKey.toBase58(),
-    });
+  for (const project of getProjects()) {
+    try {
+      validateProjectWallets(project);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error('❌ Wallet validation failed - application cannot start', {
+        project: project.id,
+        error: errorMessage,
+      });
+      throw new Error(`Wallet validation failed (project ${project.id}): ${errorMessage}`);
+    }
+  }
+
+  logger.info('✅ All wallet configurations validated successfully');
+}
+
+/**
+ * Validate the reward and treasury wallets of one project
+ * Default project: REWARD_WALLET_PRIVATE_KEY_JSON, REWARD_WALLET_ADDRESS,
+ * TREASURY_WALLET_PRIVATE_KEY_JSON and TREASURY_WALLET_ADDRESS
+ */
+function validateProjectWallets(project: ProjectConfig): void {
+  // Validate reward wallet (required for tax distribution)
+  const rewardWallet = loadKeypairFromEnv(project.rewardWalletEnv);
+  logger.info('✅ Reward wallet validated', {
+    project: project.id,
+    publicKey: rewardWallet.publicKey.toBase58(),
+  });
 
-    // Validate reward wallet address matches (if provided)
-    const rewardWalletAddress = process.env.REWARD_WALLET_ADDRESS;
-    if (rewardWalletAddress) {
-      try {
-        const expectedAddress = new PublicKey(rewardWalletAddress);
-        if (!rewardWallet.publicKey.equals(expectedAddress)) {
-          logger.warn('⚠️ REWARD_WALLET_ADDRESS does not match REWARD_WALLET_PRIVATE_KEY_JSON public key', {
-            expected: rewardWalletAddress,
-            actual: rewardWallet.publicKey.toBase58(),
-          });
-        } else {
-          logger.info('✅ Reward wallet address matches private key');
-        }
-      } catch (error) {
-        logger.warn('⚠️ Invalid REWARD_WALLET_ADDRESS format', {
-          address: rewardWalletAddress,
-          error: error instanceof Error ? error.message : String(error),
+  // Validate reward wallet address matches (if provided)
+  const rewardWalletAddress = project.rewardWalletAddress;
+  if (rewardWalletAddress) {
+    try {
+      const expectedAddress = new PublicKey(rewardWalletAddress);
+      if (!rewardWallet.publicKey.equals(expectedAddress)) {
+        logger.warn(`⚠️ Reward wallet address does not match ${project.rewardWalletEnv} public key`, {
+          project: project.id,
+          expected: rewardWalletAddress,
+          actual: rewardWallet.publicKey.toBase58(),
         });
+      } else {
+        logger.info('✅ Reward wallet address matches private key', { project: project.id });
       }
+    } catch (error) {
+      logger.warn('⚠️ Invalid reward wallet address format', {
+        project: project.id,
+        address: rewardWalletAddress,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
+  }
+
+  // Validate treasury wallet (optional - can be receive-only)
+  const treasuryWallet = project.treasuryWalletEnv ? loadKeypairFromEnvOptional(project.treasuryWalletEnv) : null;
+  if (treasuryWallet) {
+    logger.info('✅ Treasury wallet validated (has private key)', {
+      project: project.id,
+      publicKey: treasuryWallet.publicKey.toBase58(),
+    });
+  } else {
+    logger.info('ℹ️ Treasury wallet is receive-only (no private key provided)', { project: project.id });
+  }
 
-    // Validate treasury wallet (optional - can be receive-only)
-    const treasuryWallet = loadKeypairFromEnvOptional('TREASURY_WALLET_PRIVATE_KEY_JSON');
-    if (treasuryWallet) {
-      logger.info('✅ Treasury wallet validated (has private key)', {
-        publicKey: treasuryWallet.publicKey.toBase58(),
+  // Validate treasury wallet address
+  const treasuryWalletAddress = project.treasuryWalletAddress;
+  try {
+    const expectedAddress = new PublicKey(treasuryWalletAddress);
+    if (treasuryWallet && !treasuryWallet.publicKey.equals(expectedAddress)) {
+      logger.warn(`⚠️ Treasury wallet address does not match ${project.treasuryWalletEnv} public key`, {
+        project: project.id,
+        expected: treasuryWalletAddress,
+        actual: treasuryWallet.publicKey.toBase58(),
       });
+    } else if (treasuryWallet) {
+      logger.info('✅ Treasury wallet address matches private key', { project: project.id });
     } else {
-      logger.info('ℹ️ Treasury wallet is receive-only (no private key provided)');
-    }
-
-    // Validate treasury wallet address (if provided)
-    const treasuryWalletAddress = process.env.TREASURY_WALLET_ADDRESS;
-    if (treasuryWalletAddress) {
-      try {
-        const expectedAddress = new PublicKey(treasuryWalletAddress);
-        if (treasuryWallet && !treasuryWallet.publicKey.equals(expectedAddress)) {
-          logger.warn('⚠️ TREASURY_WALLET_ADDRESS does not match TREASURY_WALLET_PRIVATE_KEY_JSON public key', {
-            expected: treasuryWalletAddress,
-            actual: treasuryWallet.publicKey.toBase58(),
-          });
-        } else if (treasuryWallet) {
-          logger.info('✅ Treasury wallet address matches private key');
-        } else {
-          logger.info('ℹ️ Treasury wallet address set (receive-only mode)', {
-            address: treasuryWalletAddress,
-          });
-        }
-      } catch (error) {
-        logger.warn('⚠️ Invalid TREASURY_WALLET_ADDRESS format', {
-          address: treasuryWalletAddress,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
+      logger.info('ℹ️ Treasury wallet address set (receive-only mode)', {
+        project: project.id,
+        address: treasuryWalletAddress,
+      });
     }
-
-    logger.info('✅ All wallet configurations validated successfully');
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error('❌ Wallet validation failed - application cannot start', {
-      error: errorMessage,
+    logger.warn('⚠️ Invalid treasury wallet address format', {
+      project: project.id,
+      address: treasuryWalletAddress,
+      error: error instanceof Error ? error.message : String(error),
     });
-    throw new Error(`Wallet validation failed: ${errorMessage}`);
   }
 }
 
@@ -127,9 +153,30 @@ async function main(): Promise<void> {
     // Log configuration on startup
     logStartupConfiguration();
 
+    // Validate the project registry (PROJECTS_FILE / PROJECTS_JSON)
+    validateProjects();
+
     // Validate wallets before starting server
     validateWallets();
 
+    // Validate the SOL split (DISTRIBUTION_SPLIT and per-project splits) before any cycle can run
+    validateDistributionSplit();
+
+    // Validate what holders are paid in (REWARD_ASSET and per-project assets)
+    validateRewardAssets();
+
+    // Validate the TEK to SOL swap routes (SWAP_PROVIDERS, JUPITER_API_URL)
+    validateSwapProviders();
+
+    // Validate admin API keys and signers (ADMIN_API_KEYS, ADMIN_SIGNERS)
+    validateAdminAccess();
+
+    // Validate the operator alert sinks (Telegram, webhook, SMTP)
+    validateAlertSinks();
+
+    // Open storage and import legacy JSON state files (fails fast on bad STORAGE_BACKEND)
+    initializeStorage();
+
     const app = createApp();
     startServer(app);
   } catch (error: unknown) {
@@ -0,0 +1,221 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import bs58 from 'bs58';
+import {
+  getAdminCredentials,
+  hashApiKey,
+  ROLE_SCOPES,
+  ADMIN_SIGNATURE_MAX_AGE_MS,
+  type AdminRole,
+  type AdminScope,
+} from '../config/adminAccess';
+import { recordAdminAction, type AdminAuthMethod } from '../services/adminAuditService';
+import { logger } from '../utils/logger';
+import { verifyWalletSignature } from '../utils/signatures';
+
+/**
+ * Admin authentication middleware
+ *
+ * Requests authenticate with one of:
+ * - API key: `Authorization: Bearer <key>`
+ * - Signed request: `X-Admin-Pubkey`, `X-Admin-Timestamp` (ms) and
+ *   `X-Admin-Signature` (base58 ed25519 signature) over the message
+ *     TEK admin request\n<METHOD> <path incl. query>\n<timestamp>\n<sha256 hex of the raw body>
+ *   A signature is accepted once and only within ADMIN_SIGNATURE_MAX_AGE_MS.
+ *
+ * Every state-changing request and every rejected request is written to the
+ * admin audit log.
+ */
+
+export interface AdminActor {
+  name: string;
+  role: AdminRole;
+  authMethod: AdminAuthMethod;
+}
+
+// Signatures already accepted -> time they expire from the replay window
+const usedSignatures = new Map<string, number>();
+
+/**
+ * Get the authenticated admin of a request (set by requireAdmin)
+ */
+export function getAdminActor(res: Response): AdminActor {
+  return res.locals.adminActor as AdminActor;
+}
+
+/**
+ * Authenticate by API key
+ */
+function authenticateApiKey(key: string): AdminActor | null {
+  const keyHash = hashApiKey(key);
+  const match = getAdminCredentials().apiKeys.find((apiKey) => timingSafeEqual(apiKey.keyHash, keyHash));
+  return match ? { name: match.name, role: match.role, authMethod: 'api-key' } : null;
+}
+
+/**
+ * Authenticate by signed request
+ * @throws Error describing why the signature was rejected
+ */
+function authenticateSignature(req: Request, pubkey: string, timestamp: string, signature: string): AdminActor {
+  const signer = getAdminCredentials().signers.find((candidate) => candidate.pubkey === pubkey);
+  if (!signer) {
+    throw new Error('Unknown signer');
+  }
+
+  const signedAt = Number(timestamp);
+  if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > ADMIN_SIGNATURE_MAX_AGE_MS) {
+    throw new Error('Signature timestamp is missing or outside the allowed window');
+  }
+
+  const now = Date.now();
+  for (const [used, expiresAt] of usedSignatures) {
+    if (expiresAt < now) {
+      usedSignatures.delete(used);
+    }
+  }
+  if (usedSignatures.has(signature)) {
+    throw new Error('Signature has already been used');
+  }
+
+  const rawBody = (req as Request & { rawBody?: Buffer }).rawBody ?? Buffer.alloc(0);
+  const message = [
+    'TEK admin request',
+    `${req.method} ${req.originalUrl}`,
+    timestamp,
+    createHash('sha256').update(rawBody).digest('hex'),
+  ].join('\n');
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = bs58.decode(signature);
+  } catch {
+    throw new Error('Invalid signature');
+  }
+  if (!verifyWalletSignature(pubkey, message, signatureBytes)) {
+    throw new Error('Invalid signature');
+  }
+
+  usedSignatures.set(signature, signedAt + ADMIN_SIGNATURE_MAX_AGE_MS);
+  return { name: signer.name, role: signer.role, authMethod: 'signature' };
+}
+
+/**
+ * Collect what an audit entry records about the request
+ */
+function getAuditParams(req: Request): Record<string, unknown> {
+  return {
+    params: req.params,
+    query: req.query,
+    body: req.body ?? {},
+  };
+}
+
+/**
+ * Require an authenticated admin with the given scope
+ */
+export function requireAdmin(scope: AdminScope): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const action = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+
+    const deny = (statusCode: number, error: string, actor: AdminActor | null): void => {
+      try {
+        recordAdminAction({
+          actor: actor?.name ?? null,
+          role: actor?.role ?? null,
+          authMethod: actor?.authMethod ?? null,
+          action,
+          params: getAuditParams(req),
+          outcome: 'denied',
+          statusCode,
+          error,
+          ip: req.ip ?? null,
+        });
+      } catch (auditError) {
+        logger.error('Failed to record denied admin request', {
+          action,
+          error: auditError instanceof Error ? auditError.message : String(auditError),
+        });
+      }
+      res.status(statusCode).json({ error });
+    };
+
+    try {
+      getAdminCredentials();
+    } catch (error) {
+      logger.error('Admin access is misconfigured', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({ error: 'Admin access is misconfigured' });
+      return;
+    }
+
+    let actor: AdminActor | null = null;
+    try {
+      const authorization = req.header('authorization');
+      const pubkey = req.header('x-admin-pubkey');
+
+      if (authorization?.startsWith('Bearer ')) {
+        actor = authenticateApiKey(authorization.slice('Bearer '.length).trim());
+        if (!actor) {
+          deny(401, 'Invalid API key', null);
+          return;
+        }
+      } else if (pubkey) {
+        actor = authenticateSignature(
+          req,
+          pubkey,
+          req.header('x-admin-timestamp') ?? '',
+          req.header('x-admin-signature') ?? ''
+        );
+      } else {
+        deny(401, 'Admin authentication required', null);
+        return;
+      }
+    } catch (error) {
+      deny(401, error instanceof Error ? error.message : String(error), null);
+      return;
+    }
+
+    if (!ROLE_SCOPES[actor.role].includes(scope)) {
+      deny(403, `Role "${actor.role}" does not have the "${scope}" scope`, actor);
+      return;
+    }
+
+    res.locals.adminActor = actor;
+
+    if (req.method !== 'GET') {
+      // Capture the error message of failed requests for the audit entry
+      let responseError: string | null = null;
+      const json = res.json.bind(res);
+      res.json = (body?: unknown): Response => {
+        if (body && typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string') {
+          responseError = (body as { error: string }).error;
+        }
+        return json(body);
+      };
+
+      res.on('finish', () => {
+        try {
+          recordAdminAction({
+            actor: actor!.name,
+            role: actor!.role,
+            authMethod: actor!.authMethod,
+            action,
+            params: getAuditParams(req),
+            outcome: res.statusCode < 400 ? 'success' : 'failure',
+            statusCode: res.statusCode,
+            error: res.statusCode < 400 ? null : responseError,
+            ip: req.ip ?? null,
+          });
+        } catch (auditError) {
+          logger.error('Failed to record admin action', {
+            action,
+            error: auditError instanceof Error ? auditError.message : String(auditError),
+          });
+        }
+      });
+    }
+
+    next();
+  };
+}
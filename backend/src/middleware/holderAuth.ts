@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getHolderSession } from '../services/holderPreferencesService';
+import { logger } from '../utils/logger';
+
+/**
+ * Holder authentication middleware
+ *
+ * Requests authenticate with the session token returned by
+ * POST /holders/auth/verify: `Authorization: Bearer <token>`.
+ */
+
+/**
+ * Get the verified wallet of a request (set by requireHolder)
+ */
+export function getHolderWallet(res: Response): string {
+  return res.locals.holderWallet as string;
+}
+
+/**
+ * Get the session token of a request, if any
+ */
+export function getHolderToken(req: Request): string | null {
+  const authorization = req.header('authorization');
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : null;
+}
+
+/**
+ * Require a verified holder session
+ */
+export function requireHolder(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const token = getHolderToken(req);
+    if (!token) {
+      res.status(401).json({ error: 'Wallet verification required' });
+      return;
+    }
+
+    try {
+      const session = getHolderSession(token);
+      if (!session) {
+        res.status(401).json({ error: 'Session expired or invalid - verify your wallet again' });
+        return;
+      }
+      res.locals.holderWallet = session.wallet;
+    } catch (error) {
+      logger.error('Failed to check holder session', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({ error: 'Failed to check holder session' });
+      return;
+    }
+
+    next();
+  };
+}
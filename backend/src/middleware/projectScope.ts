@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getProject } from '../config/projects';
+import { runWithProject } from '../utils/projectContext';
+
+/**
+ * Project scope middleware
+ *
+ * Resolves the :projectId route parameter and handles the rest of the request
+ * for that project, so /projects/<id>/dashboard/... serves the same routers as
+ * /dashboard/... with the project's mint, wallets and state.
+ */
+
+/**
+ * Run the request for the project named by :projectId (404 if unknown)
+ */
+export function resolveProject(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const project = getProject(String(req.params.projectId ?? '').toLowerCase());
+    if (!project) {
+      res.status(404).json({ error: `Unknown project: ${req.params.projectId}` });
+      return;
+    }
+
+    runWithProject(project, () => next());
+  };
+}
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { logger } from '../utils/logger';
+
+/**
+ * Rate limiting middleware
+ *
+ * Counts requests per client address in fixed windows, in memory (per process,
+ * reset on restart). Meant for unauthenticated routes that create server-side
+ * state, such as POST /holders/auth/nonce.
+ */
+
+const MAX_TRACKED_CLIENTS = 10000; // Beyond this the oldest windows are dropped
+
+/**
+ * Limit each client to `max` requests per `windowMs`
+ * Requests over the limit get 429 with a Retry-After header.
+ */
+export function rateLimit(options: { windowMs: number; max: number; name: string }): RequestHandler {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const now = Date.now();
+    const client = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+
+    let window = windows.get(client);
+    if (!window || window.resetAt <= now) {
+      windows.delete(client);
+      // Map order is insertion order, so the first entries are the oldest windows
+      for (const [key, { resetAt }] of windows) {
+        if (resetAt > now && windows.size < MAX_TRACKED_CLIENTS) {
+          break;
+        }
+        windows.delete(key);
+      }
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(client, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      if (window.count === options.max + 1) {
+        logger.warn('Rate limit reached', { limiter: options.name, client });
+      }
+      res.setHeader('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      res.status(429).json({ error: 'Too many requests - try again later' });
+      return;
+    }
+
+    next();
+  };
+}
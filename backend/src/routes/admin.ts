@@ -0,0 +1,832 @@
+import { Router, Request, Response } from 'express';
+import * as path from 'path';
+import { TaxService } from '../services/taxService';
+import { getCurrentEpochInfo } from '../services/cycleService';
+import {
+  getSchedulerStatus,
+  getSchedulerControlState,
+  pauseRewardScheduler,
+  resumeRewardScheduler,
+  skipNextRewardCycle,
+  runRewardCycleNow,
+} from '../scheduler/rewardScheduler';
+import { clearTokenHoldersCache } from '../services/solanaService';
+import { clearPriceCache } from '../services/priceService';
+import { clearRaydiumCache } from '../services/raydiumService';
+import {
+  MAX_TRANSFER_FEE_BPS,
+  clearTransferFeeCache,
+  getTransferFeeSchedule,
+  previewTransferFeeChange,
+  scheduleTransferFee,
+  type TransferFeeChange,
+} from '../services/transferFeeService';
+import {
+  EXPORT_FORMATS,
+  generateCombinedExport,
+  generateRewardsExport,
+  generatePayoutsExport,
+  generateReconciliationReport,
+  type ExportFormat,
+} from '../services/rewardExportService';
+import {
+  getBlacklistEntries,
+  addBlacklistEntry,
+  removeBlacklistEntry,
+  type BlacklistSource,
+} from '../services/blacklistService';
+import { getAdminAuditLog, type AdminAuditOutcome } from '../services/adminAuditService';
+import { getAlerts, sendTestAlert, runAlertChecks } from '../services/alertService';
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookSubscriptions,
+  getWebhookDeliveries,
+  redeliverWebhook,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDeliveryStatus,
+} from '../services/webhookService';
+import { requireAdmin, getAdminActor } from '../middleware/adminAuth';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { logger } from '../utils/logger';
+
+/**
+ * Admin API
+ * Every route requires admin authentication (see middleware/adminAuth.ts) with
+ * the scope named on it; state-changing requests are recorded in the admin
+ * audit log.
+ */
+
+const router = Router();
+
+const CACHES: Record<string, () => void> = {
+  holders: clearTokenHoldersCache,
+  price: clearPriceCache,
+  raydium: clearRaydiumCache,
+  'transfer-fee': clearTransferFeeCache,
+};
+
+/**
+ * Parse a transfer fee change from a request body
+ * @returns The change, or an error message
+ */
+function parseTransferFeeChange(body: unknown): TransferFeeChange | string {
+  const { basisPoints, maximumFee } = (body ?? {}) as Record<string, unknown>;
+  if (typeof basisPoints !== 'number' || !Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > MAX_TRANSFER_FEE_BPS) {
+    return `basisPoints must be an integer between 0 and ${MAX_TRANSFER_FEE_BPS}`;
+  }
+  if (!/^\d+$/.test(String(maximumFee ?? ''))) {
+    return 'maximumFee must be a non-negative integer string (raw token units)';
+  }
+  return { basisPoints, maximumFee: BigInt(maximumFee as string) };
+}
+
+/**
+ * GET /admin/scheduler
+ * Scheduler status and operator controls
+ * Scope: read
+ */
+router.get('/scheduler', requireAdmin('read'), (_req: Request, res: Response): void => {
+  try {
+    const status = getSchedulerStatus();
+    res.status(200).json({
+      isRunning: status.isRunning,
+      lastRun: status.lastRun ? new Date(status.lastRun).toISOString() : null,
+      nextRun: status.nextRun ? new Date(status.nextRun).toISOString() : null,
+      control: getSchedulerControlState(),
+    });
+  } catch (error) {
+    logger.error('Error fetching scheduler status', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/scheduler/pause
+ * Stop running scheduled cycles until resumed (survives restarts)
+ * Scope: scheduler
+ * Body (optional):
+ *   - reason: string - Why the scheduler is paused
+ */
+router.post('/scheduler/pause', requireAdmin('scheduler'), (req: Request, res: Response): void => {
+  try {
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : null;
+    const control = pauseRewardScheduler(getAdminActor(res).name, reason);
+    res.status(200).json({ control });
+  } catch (error) {
+    logger.error('Error pausing scheduler', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/scheduler/resume
+ * Resume scheduled cycles
+ * Scope: scheduler
+ */
+router.post('/scheduler/resume', requireAdmin('scheduler'), (_req: Request, res: Response): void => {
+  try {
+    const control = resumeRewardScheduler(getAdminActor(res).name);
+    res.status(200).json({ control });
+  } catch (error) {
+    logger.error('Error resuming scheduler', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/scheduler/skip
+ * Skip the next cycle that would otherwise run
+ * Scope: scheduler
+ */
+router.post('/scheduler/skip', requireAdmin('scheduler'), (_req: Request, res: Response): void => {
+  try {
+    const control = skipNextRewardCycle(getAdminActor(res).name);
+    res.status(200).json({ control });
+  } catch (error) {
+    logger.error('Error skipping next cycle', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/cycles/run
+ * Start a cycle now, ignoring the minimum interval and a pause
+ * Responds once the cycle has started; follow it via /dashboard/cycles/current.
+ * Scope: scheduler
+ */
+router.post('/cycles/run', requireAdmin('scheduler'), (_req: Request, res: Response): void => {
+  if (getSchedulerStatus().isRunning) {
+    res.status(409).json({ error: 'A cycle is already running' });
+    return;
+  }
+
+  const { epoch, cycleNumber } = getCurrentEpochInfo();
+  runRewardCycleNow(getAdminActor(res).name).catch((error) => {
+    logger.error('Error in forced cycle run', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  res.status(202).json({ started: true, epoch, cycleNumber });
+});
+
+/**
+ * POST /admin/cycles/simulate
+ * Dry-run the full tax cycle and return the plan without sending transactions
+ * Scope: read
+ * Body (optional):
+ *   - harvestAmount: string - Raw token amount to simulate instead of scanning the chain
+ */
+
+router.post('/cycles/simulate', requireAdmin('read'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    let harvestAmount: bigint | undefined;
+    if (req.body?.harvestAmount !== undefined) {
+      if (!/^\d+$/.test(String(req.body.harvestAmount))) {
+        res.status(400).json({ error: 'harvestAmount must be a non-negative integer string (raw token units)' });
+        return;
+      }
+      harvestAmount = BigInt(req.body.harvestAmount);
+    }
+
+    const { epoch, cycleNumber } = getCurrentEpochInfo();
+
+    logger.info('Cycle simulation requested', {
+      epoch,
+      cycleNumber,
+      harvestAmount: harvestAmount?.toString(),
+    });
+
+    const plan = await TaxService.simulateWithheldTax({ epoch, cycleNumber, harvestAmount });
+
+    res.status(200).json(plan);
+  } catch (error) {
+    logger.error('Error simulating cycle', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /admin/transfer-fee
+ * The token's transfer fee schedule, read fresh from the chain
+ * Scope: read
+ */
+router.get('/transfer-fee', requireAdmin('read'), async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.status(200).json(await getTransferFeeSchedule(undefined, { refresh: true }));
+  } catch (error) {
+    logger.error('Error fetching transfer fee schedule', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/transfer-fee/preview
+ * Show the epoch a fee change would take effect at without scheduling it
+ * Scope: read
+ * Body:
+ *   - basisPoints: number - New fee (0-10000)
+ *   - maximumFee: string - Maximum fee per transfer (raw token units)
+ */
+router.post('/transfer-fee/preview', requireAdmin('read'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const change = parseTransferFeeChange(req.body);
+    if (typeof change === 'string') {
+      res.status(400).json({ error: change });
+      return;
+    }
+
+    res.status(200).json(await previewTransferFeeChange(change));
+  } catch (error) {
+    logger.error('Error previewing transfer fee change', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/transfer-fee
+ * Schedule a new transfer fee, in force two epochs after the current one.
+ * Replaces a change that is still pending. Signed by the admin wallet
+ * (ADMIN_WALLET_JSON), which must be the mint's transfer fee config authority.
+ * Scope: fees
+ * Body:
+ *   - basisPoints: number - New fee (0-10000)
+ *   - maximumFee: string - Maximum fee per transfer (raw token units)
+ *   - dryRun: boolean (optional) - Simulate the transaction without sending it
+ */
+router.post('/transfer-fee', requireAdmin('fees'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const change = parseTransferFeeChange(req.body);
+    if (typeof change === 'string') {
+      res.status(400).json({ error: change });
+      return;
+    }
+
+    const authority = loadKeypairFromEnv('ADMIN_WALLET_JSON');
+    const { schedule } = await previewTransferFeeChange(change);
+    if (schedule.transferFeeConfigAuthority !== authority.publicKey.toBase58()) {
+      res.status(409).json({
+        error: `The transfer fee config authority is ${schedule.transferFeeConfigAuthority}, not the admin wallet ${authority.publicKey.toBase58()}. Use \`tek mint fee set --authority <ENV>\` instead.`,
+      });
+      return;
+    }
+
+    const result = await scheduleTransferFee(change, authority, { dryRun: req.body?.dryRun === true });
+    res.status(200).json(result);
+  } catch (error) {
+    logger.error('Error scheduling transfer fee change', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/cache/clear
+ * Clear in-memory caches to force a refresh
+ * Useful when TOKEN_MINT environment variable has been updated
+ * Scope: cache
+ * Body (optional):
+ *   - caches: string[] - Any of 'holders', 'price', 'raydium', 'transfer-fee' (default: all)
+ */
+router.post('/cache/clear', requireAdmin('cache'), (req: Request, res: Response): void => {
+  try {
+    const caches: unknown = req.body?.caches ?? Object.keys(CACHES);
+    if (!Array.isArray(caches) || caches.some((cache) => typeof cache !== 'string' || !CACHES[cache])) {
+      res.status(400).json({ error: `caches must be an array of: ${Object.keys(CACHES).join(', ')}` });
+      return;
+    }
+
+    for (const cache of caches as string[]) {
+      CACHES[cache]();
+    }
+
+    res.status(200).json({ success: true, cleared: caches });
+  } catch (error) {
+    logger.error('Error clearing caches', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/exports/generate
+ * Generate an export file on demand (downloadable via /audit/download/:filename)
+ * Scope: exports
+ * Body:
+ *   - type: 'combined' | 'rewards' | 'payouts' | 'reconciliation'
+ *   - format: 'xlsx' (default) | 'csv' | 'json' | 'ndjson' - File format (combined, rewards, payouts)
+ *   - startDate, endDate: string (optional) - ISO dates
+ *   - pubkey, status: string (optional) - Payout filters (combined, payouts)
+ *   - epoch: string (reconciliation) - UTC day (YYYY-MM-DD) to reconcile with the chain
+ */
+router.post('/exports/generate', requireAdmin('exports'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, startDate, endDate, pubkey, status, epoch, format = 'xlsx' } = req.body ?? {};
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Invalid format. Use: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+
+    let filepath: string;
+    let reconciliation: { ok: boolean; findings: number; reportHash: string } | undefined;
+    switch (type) {
+      case 'combined':
+        filepath = await generateCombinedExport({ startDate, endDate, pubkey, status }, format as ExportFormat);
+        break;
+      case 'rewards':
+        filepath = await generateRewardsExport({ startDate, endDate }, format as ExportFormat);
+        break;
+      case 'payouts':
+        filepath = await generatePayoutsExport({ startDate, endDate, pubkey, status }, format as ExportFormat);
+        break;
+      case 'reconciliation': {
+        if (typeof epoch !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(epoch)) {
+          res.status(400).json({ error: 'epoch must be a UTC day (YYYY-MM-DD)' });
+          return;
+        }
+        const generated = await generateReconciliationReport(epoch);
+        filepath = generated.filepath;
+        reconciliation = {
+          ok: generated.report.ok,
+          findings: generated.report.findings.length,
+          reportHash: generated.report.reportHash,
+        };
+        break;
+      }
+      default:
+        res.status(400).json({ error: 'Invalid type. Use: combined, rewards, payouts, or reconciliation' });
+        return;
+    }
+
+    const filename = path.basename(filepath);
+
+    res.status(200).json({
+      success: true,
+      filename,
+      downloadUrl: `/audit/download/${filename}`,
+      ...(reconciliation ? { reconciliation } : {}),
+    });
+  } catch (error) {
+    logger.error('Error generating export', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /admin/blacklist
+ * List wallets excluded from rewards
+ * Scope: read
+ * Query params:
+ *   - source: 'static' | 'manual' | 'auto' (optional)
+ */
+router.get('/blacklist', requireAdmin('read'), (req: Request, res: Response): void => {
+  try {
+    const source = req.query.source as string | undefined;
+    if (source && !['static', 'manual', 'auto'].includes(source)) {
+      res.status(400).json({ error: "source must be one of 'static', 'manual', 'auto'" });
+      return;
+    }
+
+    const entries = getBlacklistEntries()
+      .filter((entry) => !source || entry.source === (source as BlacklistSource));
+
+    res.status(200).json({
+      total: entries.length,
+      entries,
+    });
+  } catch (error) {
+    logger.error('Error fetching blacklist', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/blacklist
+ * Exclude a wallet from rewards (updates the reason if already listed)
+ * Scope: blacklist
+ * Body:
+ *   - address: string - Wallet address
+ *   - reason: string - Why the wallet is excluded
+ */
+router.post('/blacklist', requireAdmin('blacklist'), (req: Request, res: Response): void => {
+  try {
+    const address = typeof req.body?.address === 'string' ? req.body.address.trim() : '';
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!address || !reason) {
+      res.status(400).json({ error: 'address and reason are required' });
+      return;
+    }
+
+    let entry;
+    try {
+      entry = addBlacklistEntry(address, reason, getAdminActor(res).name);
+    } catch {
+      res.status(400).json({ error: `Invalid address: ${address}` });
+      return;
+    }
+
+    res.status(200).json(entry);
+  } catch (error) {
+    logger.error('Error adding blacklist entry', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /admin/blacklist/:address
+ * Make a wallet eligible again. Removed auto-detected wallets are not
+ * excluded again by later holder scans.
+ * Scope: blacklist
+ */
+router.delete('/blacklist/:address', requireAdmin('blacklist'), (req: Request, res: Response): void => {
+  try {
+    const address = req.params.address;
+
+    let removed;
+    try {
+      removed = removeBlacklistEntry(address, getAdminActor(res).name);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (!removed) {
+      res.status(404).json({ error: `Address is not blacklisted: ${address}` });
+      return;
+    }
+
+    res.status(200).json({ removed });
+  } catch (error) {
+    logger.error('Error removing blacklist entry', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /admin/audit-log
+ * Recorded admin actions, newest first
+ * Scope: read
+ * Query params:
+ *   - actor: string (optional) - Credential name
+ *   - outcome: 'success' | 'failure' | 'denied' (optional)
+ *   - limit: number (optional, default: 100, max: 1000)
+ */
+router.get('/audit-log', requireAdmin('read'), (req: Request, res: Response): void => {
+  try {
+    const outcome = req.query.outcome as string | undefined;
+    if (outcome && !['success', 'failure', 'denied'].includes(outcome)) {
+      res.status(400).json({ error: "outcome must be one of 'success', 'failure', 'denied'" });
+      return;
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 1000);
+
+    const { total, entries } = getAdminAuditLog({
+      actor: req.query.actor as string | undefined,
+      outcome: outcome as AdminAuditOutcome | undefined,
+      limit,
+    });
+
+    res.status(200).json({
+      total,
+      limit,
+      entries: entries.map((entry) => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp).toISOString(),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error fetching admin audit log', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /admin/alerts
+ * Active operator alerts and recent notifications
+ * Scope: read
+ * Query params:
+ *   - limit: number (optional, default: 100, max: 500) - Notifications to return
+ */
+router.get('/alerts', requireAdmin('read'), (req: Request, res: Response): void => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 500);
+    const { active, history, sinks } = getAlerts(limit);
+
+    res.status(200).json({
+      sinks,
+      active: active.map((alert) => ({
+        ...alert,
+        firstFiredAt: new Date(alert.firstFiredAt).toISOString(),
+        lastSeenAt: new Date(alert.lastSeenAt).toISOString(),
+        lastNotifiedAt: new Date(alert.lastNotifiedAt).toISOString(),
+      })),
+      history: history.map((entry) => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp).toISOString(),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error fetching alerts', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/alerts/test
+ * Send a test notification to every configured sink
+ * Scope: alerts
+ */
+router.post('/alerts/test', requireAdmin('alerts'), async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const entry = await sendTestAlert(getAdminActor(res).name);
+
+    res.status(entry.failedSinks.length > 0 ? 502 : 200).json({
+      success: entry.failedSinks.length === 0,
+      deliveredTo: entry.deliveredTo,
+      failedSinks: entry.failedSinks,
+      ...(entry.failedSinks.length > 0 ? { error: 'Some sinks failed to deliver the test alert' } : {}),
+    });
+  } catch (error) {
+    logger.error('Error sending test alert', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/alerts/check
+ * Run the periodic alert checks now (wallet balance, withdraw authority, failed cycles)
+ * Scope: alerts
+ */
+router.post('/alerts/check', requireAdmin('alerts'), async (_req: Request, res: Response): Promise<void> => {
+  try {
+    await runAlertChecks();
+    const { active } = getAlerts(0);
+
+    res.status(200).json({
+      success: true,
+      active: active.map((alert) => ({
+        key: alert.key,
+        severity: alert.severity,
+        title: alert.title,
+        message: alert.message,
+      })),
+    });
+  } catch (error) {
+    logger.error('Error running alert checks', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /admin/webhooks
+ * Registered webhook subscriptions (signing secrets are not returned)
+ * Scope: read
+ */
+router.get('/webhooks', requireAdmin('read'), (_req: Request, res: Response): void => {
+  try {
+    res.status(200).json({
+      eventTypes: WEBHOOK_EVENT_TYPES,
+      subscriptions: getWebhookSubscriptions().map((subscription) => ({
+        ...subscription,
+        createdAt: new Date(subscription.createdAt).toISOString(),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook subscriptions', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/webhooks
+ * Register a webhook URL. The response contains the signing secret, which is
+ * not returned again.
+ * Scope: webhooks
+ * Body:
+ *   - url: string - http(s) URL receiving the events
+ *   - events: string[] (optional, default: all event types except holder.payout)
+ *   - description: string (optional)
+ */
+router.post('/webhooks', requireAdmin('webhooks'), (req: Request, res: Response): void => {
+  try {
+    const url = typeof req.body?.url === 'string' ? req.body.url.trim() : '';
+    const events = req.body?.events;
+    const description = typeof req.body?.description === 'string' ? req.body.description.trim() : null;
+
+    if (!url) {
+      res.status(400).json({ error: 'url is required' });
+      return;
+    }
+    if (events !== undefined && (!Array.isArray(events) || events.some((event) => typeof event !== 'string'))) {
+      res.status(400).json({ error: 'events must be an array of event types' });
+      return;
+    }
+
+    let subscription;
+    try {
+      subscription = createWebhookSubscription({ url, events, description }, getAdminActor(res).name);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    res.status(201).json({
+      ...subscription,
+      createdAt: new Date(subscription.createdAt).toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error creating webhook subscription', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /admin/webhooks/:id
+ * Remove a webhook subscription; its pending deliveries are marked failed
+ * Scope: webhooks
+ */
+router.delete('/webhooks/:id', requireAdmin('webhooks'), (req: Request, res: Response): void => {
+  try {
+    const removed = deleteWebhookSubscription(req.params.id, getAdminActor(res).name);
+    if (!removed) {
+      res.status(404).json({ error: `Webhook subscription not found: ${req.params.id}` });
+      return;
+    }
+
+    res.status(200).json({ removed });
+  } catch (error) {
+    logger.error('Error deleting webhook subscription', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /admin/webhooks/deliveries
+ * Webhook delivery log, newest first
+ * Scope: read
+ * Query params:
+ *   - subscriptionId: string (optional)
+ *   - eventType: string (optional)
+ *   - status: 'pending' | 'delivered' | 'failed' (optional)
+ *   - limit: number (optional, default: 100, max: 1000)
+ */
+router.get('/webhooks/deliveries', requireAdmin('read'), (req: Request, res: Response): void => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !['pending', 'delivered', 'failed'].includes(status)) {
+      res.status(400).json({ error: "status must be one of 'pending', 'delivered', 'failed'" });
+      return;
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 1000);
+    const formatTime = (timestamp: number | null): string | null =>
+      timestamp !== null ? new Date(timestamp).toISOString() : null;
+
+    const { total, deliveries } = getWebhookDeliveries({
+      subscriptionId: req.query.subscriptionId as string | undefined,
+      eventType: req.query.eventType as string | undefined,
+      status: status as WebhookDeliveryStatus | undefined,
+      limit,
+    });
+
+    res.status(200).json({
+      total,
+      limit,
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        createdAt: formatTime(delivery.createdAt),
+        queuedAt: formatTime(delivery.queuedAt),
+        nextAttemptAt: formatTime(delivery.nextAttemptAt),
+        deliveredAt: formatTime(delivery.deliveredAt),
+        attempts: delivery.attempts.map((attempt) => ({
+          ...attempt,
+          attemptedAt: formatTime(attempt.attemptedAt),
+        })),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error fetching webhook deliveries', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /admin/webhooks/deliveries/:id/redeliver
+ * Send a delivery again (same event id, payload and signature scheme)
+ * Scope: webhooks
+ */
+router.post('/webhooks/deliveries/:id/redeliver', requireAdmin('webhooks'), (req: Request, res: Response): void => {
+  try {
+    let delivery;
+    try {
+      delivery = redeliverWebhook(req.params.id);
+    } catch (error) {
+      res.status(409).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (!delivery) {
+      res.status(404).json({ error: `Webhook delivery not found: ${req.params.id}` });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      deliveryId: delivery.id,
+      eventId: delivery.eventId,
+      status: delivery.status,
+    });
+  } catch (error) {
+    logger.error('Error redelivering webhook', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -5,8 +5,10 @@ import {
   getLatestExport,
   getExportFileBuffer,
   getExportSummary,
-  generateCombinedExcel,
+  getLatestReconciliationReport,
+  getExportContentType,
 } from '../services/rewardExportService';
+import { getEpochRootStatus, getWalletEpochProof } from '../services/rewardMerkleService';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -52,7 +54,7 @@ router.get('/latest', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Type', getExportContentType(latestExport.filename));
     res.setHeader('Content-Disposition', `attachment; filename="${latestExport.filename}"`);
     res.setHeader('Content-Length', fileBuffer.length.toString());
 
@@ -93,18 +95,20 @@ router.get('/download/:filename', (req: Request, res: Response): void => {
       return;
     }
 
-    const fileBuffer = fs.readFileSync(filepath);
-
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-    res.setHeader('Content-Length', fileBuffer.length.toString());
-
     logger.info('Serving export file', {
       filename,
-      size: fileBuffer.length,
+      size: fs.statSync(filepath).size,
     });
 
-    res.send(fileBuffer);
+    // Streamed from disk (exports of long histories can be large)
+    res.download(filepath, filename, { headers: { 'Content-Type': getExportContentType(filename) } }, (error) => {
+      if (error) {
+        logger.error('Error streaming export file', { filename, error: error.message });
+        if (!res.headersSent) {
+          res.status(500).json({ error: 'Failed to send export file' });
+        }
+      }
+    });
   } catch (error) {
     logger.error('Error serving export file', {
       error: error instanceof Error ? error.message : String(error),
@@ -117,16 +121,31 @@ router.get('/download/:filename', (req: Request, res: Response): void => {
 });
 
 /**
- * GET /audit/summary
- * Get export summary for Telegram bot notifications
+ * GET /audit/reconciliation/:epoch
+ * Latest on-chain reconciliation report of an epoch (UTC day, YYYY-MM-DD)
+ * Reports are generated with POST /admin/exports/generate (type: reconciliation)
+ * or the operator CLI (tek reconcile --save).
  */
-router.get('/summary', async (_req: Request, res: Response): Promise<void> => {
+router.get('/reconciliation/:epoch', (req: Request, res: Response): void => {
   try {
-    const summary = await getExportSummary();
-    res.status(200).json(summary);
+    const saved = getLatestReconciliationReport(req.params.epoch);
+
+    if (!saved) {
+      res.status(404).json({
+        error: 'No reconciliation report for this epoch',
+        epoch: req.params.epoch,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      ...saved.report,
+      downloadUrl: `/audit/download/${saved.exportFile.filename}`,
+    });
   } catch (error) {
-    logger.error('Error getting export summary', {
+    logger.error('Error serving reconciliation report', {
       error: error instanceof Error ? error.message : String(error),
+      epoch: req.params.epoch,
     });
     res.status(500).json({
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -135,50 +154,50 @@ router.get('/summary', async (_req: Request, res: Response): Promise<void> => {
 });
 
 /**
- * POST /audit/generate
- * Manually trigger export generation (for testing or on-demand)
+ * GET /audit/epochs/:epoch/proof/:wallet
+ * Merkle proofs of a wallet's payouts in an epoch, against the root published
+ * on chain in a memo transaction of the reward wallet (see rewardMerkleService)
  */
-router.post('/generate', async (req: Request, res: Response): Promise<void> => {
+router.get('/epochs/:epoch/proof/:wallet', (req: Request, res: Response): void => {
   try {
-    const { type, startDate, endDate, pubkey, status } = req.body;
-
-    logger.info('Manual export generation requested', {
-      type,
-      startDate,
-      endDate,
-      pubkey,
-      status,
-    });
+    const { epoch, wallet } = req.params;
+    const proof = getWalletEpochProof(epoch, wallet);
 
-    let filepath: string;
-
-    switch (type) {
-      case 'combined':
-        filepath = await generateCombinedExcel({ startDate, endDate, pubkey, status });
-        break;
-      case 'rewards':
-        const { generateRewardsExcel } = await import('../services/rewardExportService');
-        filepath = await generateRewardsExcel({ startDate, endDate });
-        break;
-      case 'payouts':
-        const { generatePayoutsExcel } = await import('../services/rewardExportService');
-        filepath = await generatePayoutsExcel({ startDate, endDate, pubkey, status });
-        break;
-      default:
-        res.status(400).json({ error: 'Invalid type. Use: combined, rewards, or payouts' });
-        return;
+    if (!proof) {
+      const status = getEpochRootStatus(epoch);
+      res.status(404).json({
+        error: status?.publication
+          ? 'No payouts to this wallet in this epoch'
+          : 'The reward root of this epoch has not been published yet',
+        epoch,
+        wallet,
+      });
+      return;
     }
 
-    const filename = path.basename(filepath);
-
-    res.status(200).json({
-      success: true,
-      filename,
-      filepath,
-      downloadUrl: `/audit/download/${filename}`,
+    res.status(200).json(proof);
+  } catch (error) {
+    logger.error('Error serving epoch proof', {
+      error: error instanceof Error ? error.message : String(error),
+      epoch: req.params.epoch,
+      wallet: req.params.wallet,
     });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /audit/summary
+ * Get export summary for Telegram bot notifications
+ */
+router.get('/summary', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const summary = await getExportSummary();
+    res.status(200).json(summary);
   } catch (error) {
-    logger.error('Error generating export', {
+    logger.error('Error getting export summary', {
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
@@ -7,8 +7,10 @@ import {
 import { getSchedulerStatus } from '../scheduler/rewardScheduler';
 import { getNUKEPriceSOL, getNUKEPriceUSD, getPriceDiagnostics } from '../services/priceService';
 import { getRaydiumData, getSOLPriceUSD } from '../services/raydiumService';
-import { isBlacklisted } from '../config/blacklist';
+import { isBlacklisted } from '../services/blacklistService';
 import { REWARD_CONFIG } from '../config/constants';
+import { getDistributionSplit } from '../config/distributionSplit';
+import { getRewardAsset, getRewardAssetMintInfo, formatRewardAssetAmount } from '../config/rewardAsset';
 import { logger } from '../utils/logger';
 import { rateLimitLogger } from '../utils/rateLimitLogger';
 import { TaxService } from '../services/taxService';
@@ -19,8 +21,13 @@ import {
   getAllEpochStates,
   getEpochStatistics,
 } from '../services/cycleService';
-import { clearTokenHoldersCache } from '../services/solanaService';
-import { tokenMint } from '../config/solana';
+import { getActiveCycleJournal, getCycleJournalHistory } from '../services/cycleJournalService';
+import { getQueuedPayouts, getPayoutQueueSummary } from '../services/payoutQueueService';
+import { reconcileAccumulatedRewards } from '../services/solDistributionService';
+import { getAllUnpaidRewards } from '../services/unpaidRewardsService';
+import { getTransferFeeSchedule } from '../services/transferFeeService';
+import { getTokenMint } from '../config/solana';
+import { getActiveProject } from '../utils/projectContext';
 
 const router = Router();
 
@@ -218,6 +225,18 @@ router.get('/rewards', async (req: Request, res: Response): Promise<void> => {
     const taxStats = TaxService.getTaxStatistics();
     const totalSOLDistributed = parseFloat(taxStats.totalSolDistributed || '0') / 1e9; // Convert lamports to SOL
 
+    // What holders are paid in - amounts below are in its units (SOL uses lamports)
+    const rewardAsset = getRewardAsset();
+    const rewardAssetMint = rewardAsset.mint?.toBase58() ?? null;
+    // The last cycle's asset payouts, if that cycle paid the current asset
+    const lastAsset = taxStats.lastDistributionAsset?.mint === rewardAssetMint ? taxStats.lastDistributionAsset : null;
+    let rewardAssetDecimals = 9;
+    if (rewardAssetMint) {
+      rewardAssetDecimals = await getRewardAssetMintInfo()
+        .then((mintInfo) => mintInfo.decimals)
+        .catch(() => lastAsset?.decimals ?? 0);
+    }
+
     // Calculate statistics from holders with status
     const actualHolderCount = holdersWithStatus.length;
     const blacklistedCount = holdersWithStatus.filter(h => h.eligibilityStatus === 'blacklisted').length;
@@ -279,6 +298,34 @@ router.get('/rewards', async (req: Request, res: Response): Promise<void> => {
         lastDistributionTx: taxStats.lastDistributionTx,
         distributionCount: taxStats.distributionCount,
       },
+      // Configured SOL split with the last cycle's amounts and all-time totals per bucket
+      split: getDistributionSplit().map((bucket) => {
+        const last = taxStats.lastDistributionSplit.find((b) => b.name === bucket.name);
+        return {
+          name: bucket.name,
+          percent: bucket.percent,
+          fixedSol: bucket.fixedSol,
+          destination: bucket.destination,
+          lastAmountSOL: last ? parseFloat((Number(last.amountLamports) / 1e9).toFixed(6)) : null,
+          lastSignature: last?.signature ?? null,
+          totalSOL: parseFloat((Number(taxStats.totalSolByBucket[bucket.name] || '0') / 1e9).toFixed(6)),
+        };
+      }),
+      rewardAsset: {
+        kind: rewardAsset.kind,
+        symbol: rewardAsset.symbol,
+        mint: rewardAssetMint,
+        decimals: rewardAssetDecimals,
+        totalDistributed: rewardAssetMint
+          ? formatRewardAssetAmount(BigInt(taxStats.totalAssetDistributed[rewardAssetMint] || '0'), rewardAssetDecimals)
+          : parseFloat((totalSOLDistributed || 0).toFixed(6)),
+        // Last cycle's holder payouts (null if that cycle paid a different asset)
+        lastDistributed: lastAsset
+          ? formatRewardAssetAmount(BigInt(lastAsset.amount), lastAsset.decimals)
+          : (!rewardAssetMint && !taxStats.lastDistributionAsset
+            ? parseFloat((Number(taxStats.lastDistributionSolToHolders || '0') / 1e9).toFixed(6))
+            : null),
+      },
       filtered: filterPubkey ? {
         pubkey: filterPubkey,
         eligible: filteredEligible.length > 0,
@@ -329,6 +376,7 @@ router.get('/rewards', async (req: Request, res: Response): Promise<void> => {
       },
       dex: null,
       tax: null,
+      split: [],
       filtered: null,
     });
   }
@@ -336,17 +384,17 @@ router.get('/rewards', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * GET /dashboard/payouts
- * Returns list of pending payouts with status
+ * Returns queued holder payouts (failed or unaffordable transfers awaiting retry)
  * Query params:
  *   - pubkey: string (optional) - filter by specific holder
- *   - status: 'pending' | 'failed' (optional)
+ *   - status: 'pending' | 'failed' | 'paid' (optional, default: pending and failed)
  *   - limit: number (default: 100, max: 500)
  */
 router.get('/payouts', async (req: Request, res: Response): Promise<void> => {
   try {
     const startTime = Date.now();
     const filterPubkey = req.query.pubkey as string | undefined;
-    const filterStatus = req.query.status as 'pending' | 'failed' | undefined;
+    const filterStatus = req.query.status as 'pending' | 'failed' | 'paid' | undefined;
     const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
 
     logger.debug('Dashboard API: GET /dashboard/payouts', {
@@ -356,29 +404,55 @@ router.get('/payouts', async (req: Request, res: Response): Promise<void> => {
       timestamp: new Date().toISOString(),
     });
 
-    // Get historical payouts from tax distributions (payouts are now immediate, no pending queue)
+    if (filterStatus && !['pending', 'failed', 'paid'].includes(filterStatus)) {
+      res.status(400).json({
+        error: 'Invalid status, expected pending, failed or paid',
+        payouts: [],
+        total: 0,
+      });
+      return;
+    }
+
     const { TaxService } = await import('../services/taxService');
     const taxStats = TaxService.getTaxStatistics();
-    
-    // Payouts are now immediate via tax distribution, so return empty for now
-    // Historical payouts can be retrieved from tax distributions if needed
-    const payouts: Array<{
-      pubkey: string;
-      rewardSOL: number;
-      queuedAt: string;
-      retryCount: number;
-      status: 'pending' | 'success' | 'failed';
-      lastReward: string | null;
-    }> = [];
+
+    const queued = getQueuedPayouts({ pubkey: filterPubkey, status: filterStatus });
+    const queueSummary = getPayoutQueueSummary();
+
+    const payouts = queued.slice(0, limit).map((payout) => {
+      const lastReward = getLastReward(payout.pubkey);
+      return {
+        pubkey: payout.pubkey,
+        rewardSOL: Number(payout.amountLamports) / 1e9,
+        amountLamports: payout.amountLamports,
+        queuedAt: new Date(payout.queuedAt).toISOString(),
+        retryCount: payout.retryCount,
+        status: payout.status,
+        lastReward: lastReward ? new Date(lastReward).toISOString() : null,
+        nextAttemptAt: payout.nextAttemptAt ? new Date(payout.nextAttemptAt).toISOString() : null,
+        lastError: payout.lastError,
+        attempts: payout.attempts.map((attempt) => ({
+          attemptedAt: new Date(attempt.attemptedAt).toISOString(),
+          signature: attempt.signature,
+          result: attempt.result,
+          error: attempt.error ?? null,
+        })),
+        sources: payout.sources,
+        paidAt: payout.paidAt ? new Date(payout.paidAt).toISOString() : null,
+        paidSignature: payout.paidSignature,
+      };
+    });
 
     const response = {
-      total: 0,
+      total: queued.length,
       limit,
-      payouts: [],
+      hasMore: queued.length > limit,
+      payouts,
       summary: {
-        pending: 0,
-        failed: 0,
+        pending: queueSummary.pending,
+        failed: queueSummary.failed,
         totalSOL: parseFloat(taxStats.totalSolDistributed || '0') / 1e9, // Convert lamports to SOL
+        owedSOL: Number(queueSummary.owedLamports) / 1e9,
       },
     };
 
@@ -403,6 +477,45 @@ router.get('/payouts', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /dashboard/rewards/accumulated
+ * Returns accumulated (reserved) sub-threshold rewards and whether the reward
+ * wallet balance covers them
+ * Query params:
+ *   - limit: number (default: 100, max: 500) - wallets returned, largest first
+ */
+router.get('/rewards/accumulated', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
+
+    logger.debug('Dashboard API: GET /dashboard/rewards/accumulated', {
+      limit,
+    });
+
+    const wallets = Object.entries(getAllUnpaidRewards())
+      .filter(([, amount]) => amount > 0)
+      .sort(([, a], [, b]) => b - a);
+    const reconciliation = await reconcileAccumulatedRewards();
+
+    res.status(200).json({
+      reconciliation,
+      total: wallets.length,
+      limit,
+      wallets: wallets.slice(0, limit).map(([pubkey, accumulatedSOL]) => ({ pubkey, accumulatedSOL })),
+    });
+  } catch (error) {
+    logger.error('Error fetching accumulated rewards', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      reconciliation: null,
+      wallets: [],
+      total: 0,
+    });
+  }
+});
+
 /**
  * GET /dashboard/raydium
  * Returns Raydium DEX analytics for TEK token
@@ -494,6 +607,7 @@ router.get('/diagnostics', async (req: Request, res: Response): Promise<void> =>
       },
       scheduler: {
         isRunning: schedulerStatus.isRunning,
+        paused: schedulerStatus.paused,
         lastRun: schedulerStatus.lastRun ? new Date(schedulerStatus.lastRun).toISOString() : null,
         nextRun: schedulerStatus.nextRun ? new Date(schedulerStatus.nextRun).toISOString() : null,
       },
@@ -509,8 +623,8 @@ router.get('/diagnostics', async (req: Request, res: Response): Promise<void> =>
       // },
       environment: {
         network: process.env.SOLANA_NETWORK || 'not set',
-        raydiumPoolId: process.env.RAYDIUM_POOL_ID || 'not set',
-        minHoldingUSD: REWARD_CONFIG.MIN_HOLDING_USD,
+        raydiumPoolId: getActiveProject().raydiumPoolId || 'not set',
+        minHoldingUSD: getActiveProject().thresholds.minHoldingUSD,
         minSOLPayout: REWARD_CONFIG.MIN_SOL_PAYOUT,
       },
     };
@@ -557,13 +671,13 @@ router.get('/token-stats', async (req: Request, res: Response): Promise<void> =>
       totalHolders = holdersWithStatus.length;
       logger.debug('Token stats: Total holders fetched', {
         totalHolders,
-        tokenMint: tokenMint.toBase58(),
+        tokenMint: getTokenMint().toBase58(),
         envTokenMint: process.env.TOKEN_MINT || 'not set',
       });
     } catch (error) {
       logger.warn('Could not fetch total holders for token-stats', {
         error: error instanceof Error ? error.message : String(error),
-        tokenMint: tokenMint.toBase58(),
+        tokenMint: getTokenMint().toBase58(),
         envTokenMint: process.env.TOKEN_MINT || 'not set',
       });
     }
@@ -766,12 +880,12 @@ router.get('/liquidity/summary', async (req: Request, res: Response): Promise<vo
  * GET /dashboard/treasury/balance
  * Returns treasury wallet balance in SOL using Helius RPC
  * Query params:
- *   - address: string (optional) - treasury wallet address (defaults to TREASURY_WALLET_ADDRESS env var)
+ *   - address: string (optional) - treasury wallet address (defaults to the project's treasury wallet, TREASURY_WALLET_ADDRESS)
  */
 router.get('/treasury/balance', async (req: Request, res: Response): Promise<void> => {
   try {
     const startTime = Date.now();
-    const treasuryAddress = (req.query.address as string) || process.env.TREASURY_WALLET_ADDRESS || 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo';
+    const treasuryAddress = (req.query.address as string) || getActiveProject().treasuryWalletAddress;
     
     logger.info('Dashboard API: GET /dashboard/treasury/balance', {
       treasuryAddress,
@@ -836,12 +950,12 @@ router.get('/treasury/balance', async (req: Request, res: Response): Promise<voi
       error: errorMessage,
       errorStack: error instanceof Error ? error.stack : undefined,
       isRateLimit,
-      treasuryAddress: (req.query.address as string) || process.env.TREASURY_WALLET_ADDRESS || 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo',
+      treasuryAddress: (req.query.address as string) || getActiveProject().treasuryWalletAddress,
     });
     
     res.status(500).json({
       error: errorMessage,
-      address: (req.query.address as string) || process.env.TREASURY_WALLET_ADDRESS || 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo',
+      address: (req.query.address as string) || getActiveProject().treasuryWalletAddress,
       balanceSOL: null,
       balanceLamports: null,
     });
@@ -1017,6 +1131,70 @@ router.get('/cycles/epochs', async (req: Request, res: Response): Promise<void>
   }
 });
 
+/**
+ * GET /dashboard/cycles/journal
+ * Returns the cycle journal: the interrupted cycle (if any) and recently finished cycles
+ * Query params:
+ *   - limit: number (default: 10, max: 50)
+ */
+router.get('/cycles/journal', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 10, 50);
+
+    logger.debug('Dashboard API: GET /dashboard/cycles/journal', {
+      limit,
+    });
+
+    res.status(200).json({
+      active: getActiveCycleJournal(),
+      history: getCycleJournalHistory(limit),
+      limit,
+    });
+  } catch (error) {
+    logger.error('Error fetching cycle journal', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      active: null,
+      history: [],
+    });
+  }
+});
+
+/**
+ * GET /dashboard/transfer-fee
+ * Returns the token's transfer fee in force, any scheduled change (with the
+ * cluster epoch it takes effect at) and how the fee splits across the
+ * percentage buckets of the distribution split
+ */
+router.get('/transfer-fee', async (req: Request, res: Response): Promise<void> => {
+  try {
+    logger.debug('Dashboard API: GET /dashboard/transfer-fee');
+
+    const schedule = await getTransferFeeSchedule();
+    const percentBuckets = getDistributionSplit().filter((bucket) => bucket.percent !== null);
+
+    res.status(200).json({
+      ...schedule,
+      // Share of each transfer going to each bucket, e.g. 3% fee x 75% holders = 2.25%
+      split: percentBuckets.map((bucket) => ({
+        name: bucket.name,
+        percent: bucket.percent,
+        basisPointsOfTransfer: (schedule.effective.basisPoints * (bucket.percent as number)) / 100,
+      })),
+      hasFixedBuckets: percentBuckets.length < getDistributionSplit().length,
+    });
+  } catch (error) {
+    logger.error('Error fetching transfer fee', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /dashboard/sol-price
  * Returns current SOL price in USD from Jupiter/CoinGecko
@@ -1053,39 +1231,5 @@ router.get('/sol-price', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-/**
- * POST /dashboard/cache/clear
- * Clears the token holders cache to force refresh
- * Useful when TOKEN_MINT environment variable has been updated
- */
-router.post('/cache/clear', async (req: Request, res: Response): Promise<void> => {
-  try {
-    logger.info('Dashboard API: POST /dashboard/cache/clear - Clearing token holders cache');
-    
-    // Clear the cache
-    clearTokenHoldersCache();
-    
-    // Log current token mint for verification
-    logger.info('Token holders cache cleared', {
-      tokenMint: tokenMint.toBase58(),
-      envTokenMint: process.env.TOKEN_MINT || 'not set',
-    });
-
-    res.status(200).json({
-      success: true,
-      message: 'Token holders cache cleared successfully',
-      tokenMint: tokenMint.toBase58(),
-    });
-  } catch (error) {
-    logger.error('Error clearing token holders cache', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Unknown error',
-      success: false,
-    });
-  }
-});
-
 export default router;
 
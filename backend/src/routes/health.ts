@@ -1,4 +1,13 @@
 import { Router, Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { HEALTH_CONFIG } from '../config/constants';
+import {
+  getSystemHealth,
+  recordHeartbeat,
+  HEARTBEAT_SERVICES,
+  type HeartbeatService,
+} from '../services/healthService';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -10,4 +19,64 @@ router.get('/health', (_req: Request, res: Response): void => {
   res.status(200).json({ status: 'ok' });
 });
 
+/**
+ * GET /health/components
+ * Status and recent history of each component (RPC, Raydium API, wallets,
+ * distribution engine, eligible wallets list, Telegram bot)
+ */
+router.get('/health/components', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const health = await getSystemHealth();
+
+    res.status(200).json({
+      status: health.status,
+      checkedAt: health.checkedAt ? new Date(health.checkedAt).toISOString() : null,
+      components: health.components.map((component) => ({
+        ...component,
+        checkedAt: new Date(component.checkedAt).toISOString(),
+        history: component.history.map((entry) => ({
+          ...entry,
+          checkedAt: new Date(entry.checkedAt).toISOString(),
+        })),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error checking component health', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /health/heartbeat/:service
+ * Heartbeat from an external service (currently the Telegram bot)
+ * Header: Authorization: Bearer <HEALTH_HEARTBEAT_TOKEN>
+ * Body (optional): details to show with the component (e.g. version)
+ */
+router.post('/health/heartbeat/:service', (req: Request, res: Response): void => {
+  const service = req.params.service as HeartbeatService;
+  if (!HEARTBEAT_SERVICES.includes(service)) {
+    res.status(404).json({ error: `Unknown service: ${req.params.service}` });
+    return;
+  }
+  if (!HEALTH_CONFIG.HEARTBEAT_TOKEN) {
+    res.status(503).json({ error: 'Heartbeats are disabled (HEALTH_HEARTBEAT_TOKEN not set)' });
+    return;
+  }
+
+  const token = (req.header('authorization') ?? '').replace(/^Bearer\s+/, '');
+  const expected = createHash('sha256').update(HEALTH_CONFIG.HEARTBEAT_TOKEN).digest();
+  if (!timingSafeEqual(createHash('sha256').update(token).digest(), expected)) {
+    res.status(401).json({ error: 'Invalid heartbeat token' });
+    return;
+  }
+
+  const details = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+  recordHeartbeat(service, details);
+  res.status(204).end();
+});
+
 export default router;
@@ -7,14 +7,38 @@ import {
   getPayoutsExport,
 } from '../services/rewardHistoryService';
 import {
-  generateRewardsExcel,
-  generatePayoutsExcel,
-  getExportFileBuffer,
+  generateRewardsExport,
+  generatePayoutsExport,
+  getExportContentType,
+  type ExportFormat,
 } from '../services/rewardExportService';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+// File formats of the export endpoints ('excel' is kept for existing links)
+const FILE_FORMATS = new Map<string, ExportFormat>([
+  ['excel', 'xlsx'],
+  ['xlsx', 'xlsx'],
+  ['csv', 'csv'],
+  ['ndjson', 'ndjson'],
+]);
+
+/**
+ * Stream a generated export file as a download
+ */
+function sendExportFile(res: Response, filepath: string): void {
+  const filename = path.basename(filepath);
+  res.download(filepath, filename, { headers: { 'Content-Type': getExportContentType(filename) } }, (error) => {
+    if (error) {
+      logger.error('Error streaming export file', { filename, error: error.message });
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to send export file' });
+      }
+    }
+  });
+}
+
 /**
  * GET /dashboard/historical/rewards
  * Get historical reward cycles with filters and pagination
@@ -155,9 +179,9 @@ router.get('/historical/payouts', async (req: Request, res: Response): Promise<v
 
 /**
  * GET /dashboard/export/rewards
- * Get export-ready reward cycles data (CSV/Excel format)
+ * Get export-ready reward cycles data, inline or as a file
  * Query params:
- *   - format: 'json' (default) or 'excel' (file download)
+ *   - format: 'json' (default, inline) or a file download: 'xlsx' ('excel'), 'csv', 'ndjson'
  *   - startDate, endDate: date filters
  */
 router.get('/historical/export/rewards', async (req: Request, res: Response): Promise<void> => {
@@ -174,28 +198,23 @@ router.get('/historical/export/rewards', async (req: Request, res: Response): Pr
       timestamp: new Date().toISOString(),
     });
 
-    if (format === 'excel') {
-      // Generate and return Excel file
-      const filepath = await generateRewardsExcel({ startDate, endDate });
-      const filename = path.basename(filepath);
-      const fileBuffer = getExportFileBuffer(filepath);
-
-      if (!fileBuffer) {
-        res.status(500).json({ error: 'Failed to generate export file' });
+    if (format !== 'json') {
+      const fileFormat = FILE_FORMATS.get(format);
+      if (!fileFormat) {
+        res.status(400).json({ error: `Invalid format. Use: json, ${[...FILE_FORMATS.keys()].join(', ')}` });
         return;
       }
 
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Length', fileBuffer.length.toString());
+      // Generate and stream the export file
+      const filepath = await generateRewardsExport({ startDate, endDate }, fileFormat);
+      sendExportFile(res, filepath);
 
       const duration = Date.now() - startTime;
-      logger.info('Dashboard API: GET /dashboard/export/rewards (Excel) completed', {
+      logger.info('Dashboard API: GET /dashboard/export/rewards (file) completed', {
         duration: `${duration}ms`,
-        filename,
+        format: fileFormat,
+        filename: path.basename(filepath),
       });
-
-      res.send(fileBuffer);
       return;
     }
 
@@ -236,9 +255,9 @@ router.get('/historical/export/rewards', async (req: Request, res: Response): Pr
 
 /**
  * GET /dashboard/export/payouts
- * Get export-ready payout data (CSV/Excel format)
+ * Get export-ready payout data, inline or as a file
  * Query params:
- *   - format: 'json' (default) or 'excel' (file download)
+ *   - format: 'json' (default, inline) or a file download: 'xlsx' ('excel'), 'csv', 'ndjson'
  *   - startDate, endDate, pubkey, status: filters
  */
 router.get('/historical/export/payouts', async (req: Request, res: Response): Promise<void> => {
@@ -259,28 +278,23 @@ router.get('/historical/export/payouts', async (req: Request, res: Response): Pr
       timestamp: new Date().toISOString(),
     });
 
-    if (format === 'excel') {
-      // Generate and return Excel file
-      const filepath = await generatePayoutsExcel({ startDate, endDate, pubkey, status });
-      const filename = path.basename(filepath);
-      const fileBuffer = getExportFileBuffer(filepath);
-
-      if (!fileBuffer) {
-        res.status(500).json({ error: 'Failed to generate export file' });
+    if (format !== 'json') {
+      const fileFormat = FILE_FORMATS.get(format);
+      if (!fileFormat) {
+        res.status(400).json({ error: `Invalid format. Use: json, ${[...FILE_FORMATS.keys()].join(', ')}` });
         return;
       }
 
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Length', fileBuffer.length.toString());
+      // Generate and stream the export file
+      const filepath = await generatePayoutsExport({ startDate, endDate, pubkey, status }, fileFormat);
+      sendExportFile(res, filepath);
 
       const duration = Date.now() - startTime;
-      logger.info('Dashboard API: GET /dashboard/export/payouts (Excel) completed', {
+      logger.info('Dashboard API: GET /dashboard/export/payouts (file) completed', {
         duration: `${duration}ms`,
-        filename,
+        format: fileFormat,
+        filename: path.basename(filepath),
       });
-
-      res.send(fileBuffer);
       return;
     }
 
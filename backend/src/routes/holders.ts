@@ -0,0 +1,332 @@
+import { Router, Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { HOLDER_ACCESS_CONFIG, REWARD_ACCUMULATION_CONFIG } from '../config/constants';
+import { getHolderToken, getHolderWallet, requireHolder } from '../middleware/holderAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  createTelegramLinkCode,
+  createVerificationChallenge,
+  endHolderSession,
+  getHolderPreferences,
+  linkTelegramChat,
+  unlinkTelegramChat,
+  updateHolderPreferences,
+  verifyHolderSignature,
+  type HolderPreferences,
+} from '../services/holderPreferencesService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+function toISO(timestamp: number | null): string | null {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
+
+function serializePreferences(preferences: HolderPreferences) {
+  return {
+    wallet: preferences.wallet,
+    payoutDestination: preferences.payoutDestination,
+    minPayoutSOL: preferences.minPayoutSOL,
+    telegramLinked: preferences.telegramChatId !== null,
+    telegramLinkedAt: toISO(preferences.telegramLinkedAt),
+    verifiedAt: toISO(preferences.verifiedAt),
+    updatedAt: toISO(preferences.updatedAt),
+    options: {
+      minPayoutAvailable: REWARD_ACCUMULATION_CONFIG.ENABLED,
+      maxMinPayoutSOL: HOLDER_ACCESS_CONFIG.MAX_MIN_PAYOUT_SOL,
+      telegramAvailable: HOLDER_ACCESS_CONFIG.TELEGRAM_LINK_TOKEN !== null,
+    },
+  };
+}
+
+/**
+ * Check the Telegram bot's link token
+ * @returns false after sending the error response
+ */
+function checkBotToken(req: Request, res: Response): boolean {
+  if (!HOLDER_ACCESS_CONFIG.TELEGRAM_LINK_TOKEN) {
+    res.status(503).json({ error: 'Telegram linking is disabled (HOLDER_TELEGRAM_LINK_TOKEN not set)' });
+    return false;
+  }
+
+  const token = (req.header('authorization') ?? '').replace(/^Bearer\s+/, '');
+  const expected = createHash('sha256').update(HOLDER_ACCESS_CONFIG.TELEGRAM_LINK_TOKEN).digest();
+  if (!timingSafeEqual(createHash('sha256').update(token).digest(), expected)) {
+    res.status(401).json({ error: 'Invalid link token' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * POST /holders/auth/nonce
+ * Start a wallet verification: returns the message the wallet must sign
+ * Limited to HOLDER_NONCE_RATE_LIMIT requests per client per minute.
+ * Body:
+ *   - wallet: string - address to verify
+ */
+router.post('/auth/nonce', rateLimit({
+  windowMs: 60 * 1000,
+  max: HOLDER_ACCESS_CONFIG.NONCE_RATE_LIMIT,
+  name: 'holder-nonce',
+}), (req: Request, res: Response): void => {
+  try {
+    const wallet = typeof req.body?.wallet === 'string' ? req.body.wallet.trim() : '';
+    if (!wallet) {
+      res.status(400).json({ error: 'wallet is required' });
+      return;
+    }
+
+    let challenge;
+    try {
+      challenge = createVerificationChallenge(wallet);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    if (!challenge) {
+      logger.warn('Pending holder verification limit reached, rejecting nonce request');
+      res.status(503).json({ error: 'Too many verifications pending - try again later' });
+      return;
+    }
+
+    res.status(200).json({
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expiresAt: new Date(challenge.expiresAt).toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error creating holder verification challenge', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /holders/auth/verify
+ * Finish a wallet verification and start a session
+ * Body:
+ *   - wallet: string
+ *   - nonce: string - nonce returned with the signed message
+ *   - signature: string - base64 ed25519 signature of the nonce message
+ * Returns the session token, used as `Authorization: Bearer <token>` for /holders/me
+ */
+router.post('/auth/verify', (req: Request, res: Response): void => {
+  try {
+    const wallet = typeof req.body?.wallet === 'string' ? req.body.wallet.trim() : '';
+    const nonce = typeof req.body?.nonce === 'string' ? req.body.nonce.trim() : '';
+    const signature = typeof req.body?.signature === 'string' ? req.body.signature.trim() : '';
+    if (!wallet || !nonce || !signature) {
+      res.status(400).json({ error: 'wallet, nonce and signature are required' });
+      return;
+    }
+
+    let session;
+    try {
+      session = verifyHolderSignature(wallet, nonce, signature);
+    } catch (error) {
+      res.status(401).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    res.status(200).json({
+      token: session.token,
+      wallet: session.wallet,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error verifying holder signature', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /holders/auth/session
+ * End the current session
+ */
+router.delete('/auth/session', requireHolder(), (req: Request, res: Response): void => {
+  try {
+    endHolderSession(getHolderToken(req)!);
+    res.status(204).end();
+  } catch (error) {
+    logger.error('Error ending holder session', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /holders/me/preferences
+ * Preferences of the verified wallet, with the options this backend supports
+ */
+router.get('/me/preferences', requireHolder(), (_req: Request, res: Response): void => {
+  try {
+    res.status(200).json(serializePreferences(getHolderPreferences(getHolderWallet(res))));
+  } catch (error) {
+    logger.error('Error fetching holder preferences', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /holders/me/preferences
+ * Change preferences of the verified wallet (omitted fields are kept)
+ * Body:
+ *   - payoutDestination: string | null - address receiving the payouts (null: the wallet itself)
+ *   - minPayoutSOL: number | null - personal minimum payout (null: the global threshold)
+ *   - telegramNotifications: false - unlink the Telegram chat
+ */
+router.put('/me/preferences', requireHolder(), (req: Request, res: Response): void => {
+  try {
+    const { payoutDestination, minPayoutSOL, telegramNotifications } = req.body ?? {};
+
+    if (payoutDestination !== undefined && payoutDestination !== null && typeof payoutDestination !== 'string') {
+      res.status(400).json({ error: 'payoutDestination must be an address or null' });
+      return;
+    }
+    if (minPayoutSOL !== undefined && minPayoutSOL !== null && typeof minPayoutSOL !== 'number') {
+      res.status(400).json({ error: 'minPayoutSOL must be a number or null' });
+      return;
+    }
+    if (telegramNotifications !== undefined && typeof telegramNotifications !== 'boolean') {
+      res.status(400).json({ error: 'telegramNotifications must be a boolean' });
+      return;
+    }
+
+    let preferences;
+    try {
+      preferences = updateHolderPreferences(getHolderWallet(res), {
+        payoutDestination: typeof payoutDestination === 'string' ? payoutDestination.trim() : payoutDestination,
+        minPayoutSOL,
+        telegramNotifications,
+      });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    res.status(200).json(serializePreferences(preferences));
+  } catch (error) {
+    logger.error('Error updating holder preferences', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /holders/me/telegram/link
+ * Issue a code linking a Telegram chat to the verified wallet. The holder sends
+ * it to the bot (/start <code>), or opens botUrl when the bot username is configured.
+ */
+router.post('/me/telegram/link', requireHolder(), (_req: Request, res: Response): void => {
+  try {
+    let link;
+    try {
+      link = createTelegramLinkCode(getHolderWallet(res));
+    } catch (error) {
+      res.status(503).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    res.status(200).json({
+      code: link.code,
+      botUrl: link.botUrl,
+      expiresAt: new Date(link.expiresAt).toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error creating Telegram link code', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /holders/telegram/link
+ * Called by the Telegram bot when a holder sends a link code
+ * Header: Authorization: Bearer <HOLDER_TELEGRAM_LINK_TOKEN>
+ * Body:
+ *   - code: string
+ *   - chatId: string | number
+ * Returns 404 for an unknown or expired code
+ */
+router.post('/telegram/link', (req: Request, res: Response): void => {
+  try {
+    if (!checkBotToken(req, res)) {
+      return;
+    }
+
+    const code = typeof req.body?.code === 'string' ? req.body.code.trim() : '';
+    const chatId = req.body?.chatId;
+    if (!code || (typeof chatId !== 'string' && typeof chatId !== 'number')) {
+      res.status(400).json({ error: 'code and chatId are required' });
+      return;
+    }
+
+    const wallet = linkTelegramChat(code, String(chatId));
+    if (!wallet) {
+      res.status(404).json({ error: 'Unknown or expired link code' });
+      return;
+    }
+
+    res.status(200).json({ wallet });
+  } catch (error) {
+    logger.error('Error linking Telegram chat', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /holders/telegram/unlink
+ * Called by the Telegram bot on /stop or when the holder blocked the bot
+ * Header: Authorization: Bearer <HOLDER_TELEGRAM_LINK_TOKEN>
+ * Body:
+ *   - chatId: string | number
+ */
+router.post('/telegram/unlink', (req: Request, res: Response): void => {
+  try {
+    if (!checkBotToken(req, res)) {
+      return;
+    }
+
+    const chatId = req.body?.chatId;
+    if (typeof chatId !== 'string' && typeof chatId !== 'number') {
+      res.status(400).json({ error: 'chatId is required' });
+      return;
+    }
+
+    res.status(200).json({ wallets: unlinkTelegramChat(String(chatId)) });
+  } catch (error) {
+    logger.error('Error unlinking Telegram chat', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
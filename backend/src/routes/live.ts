@@ -0,0 +1,54 @@
+import { Router, Request, Response } from 'express';
+import { getSchedulerLiveState } from '../scheduler/rewardScheduler';
+import { getCurrentEpochInfo } from '../services/cycleService';
+import { addLiveFeedClient } from '../services/liveFeedService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * GET /dashboard/live
+ * Server-sent events stream of cycle progress, pipeline events, price updates
+ * and scheduler state (see liveFeedService for the event types).
+ * Reconnecting clients send Last-Event-ID (EventSource does this automatically)
+ * to receive the events they missed.
+ * Returns 503 when the connection limit is reached; clients keep polling.
+ */
+router.get('/live', (req: Request, res: Response): void => {
+  try {
+    const header = req.get('Last-Event-ID') ?? (req.query.lastEventId as string | undefined);
+    const parsed = header !== undefined ? parseInt(header, 10) : NaN;
+    const lastEventId = Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+
+    const epochInfo = getCurrentEpochInfo();
+    const accepted = addLiveFeedClient(res, {
+      lastEventId,
+      snapshot: {
+        scheduler: getSchedulerLiveState(),
+        cycle: {
+          epoch: epochInfo.epoch,
+          cycleNumber: epochInfo.cycleNumber,
+          nextCycleInSeconds: Math.floor(epochInfo.nextCycleIn / 1000),
+        },
+      },
+    });
+
+    if (!accepted) {
+      logger.warn('Live feed connection limit reached, rejecting client');
+      res.status(503).json({ error: 'Live feed is at capacity, fall back to polling' });
+    }
+  } catch (error) {
+    logger.error('Error opening live feed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+export default router;
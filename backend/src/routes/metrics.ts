@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { METRICS_CONFIG } from '../config/constants';
+import { getSchedulerControlState } from '../scheduler/rewardScheduler';
+import { getLastSuccessfulCycle } from '../services/cycleService';
+import { rateLimitLogger } from '../utils/rateLimitLogger';
+import {
+  renderMetrics,
+  METRICS_CONTENT_TYPE,
+  rewardLastSuccessfulCycleTimestampSeconds,
+  rewardSchedulerPaused,
+  circuitBreakerOpen,
+  processResidentMemoryBytes,
+  nodejsHeapUsedBytes,
+} from '../utils/metrics';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Refresh the gauges that are read from state at scrape time
+ */
+function collectStateGauges(): void {
+  const lastSuccessful = getLastSuccessfulCycle();
+  if (lastSuccessful) {
+    rewardLastSuccessfulCycleTimestampSeconds.set({}, Math.round(lastSuccessful.timestamp / 1000));
+  }
+  rewardSchedulerPaused.set({}, getSchedulerControlState().paused ? 1 : 0);
+  circuitBreakerOpen.set({}, rateLimitLogger.isCircuitBreakerOpen() ? 1 : 0);
+
+  const memory = process.memoryUsage();
+  processResidentMemoryBytes.set({}, memory.rss);
+  nodejsHeapUsedBytes.set({}, memory.heapUsed);
+}
+
+/**
+ * GET /metrics
+ * Prometheus metrics for the reward pipeline (text exposition format)
+ * Header (when METRICS_BEARER_TOKEN is set): Authorization: Bearer <token>
+ */
+router.get('/metrics', (req: Request, res: Response): void => {
+  if (!METRICS_CONFIG.ENABLED) {
+    res.status(404).json({ error: 'Not Found' });
+    return;
+  }
+
+  if (METRICS_CONFIG.BEARER_TOKEN) {
+    const token = (req.header('authorization') ?? '').replace(/^Bearer\s+/, '');
+    const expected = createHash('sha256').update(METRICS_CONFIG.BEARER_TOKEN).digest();
+    if (!timingSafeEqual(createHash('sha256').update(token).digest(), expected)) {
+      res.status(401).json({ error: 'Invalid metrics token' });
+      return;
+    }
+  }
+
+  try {
+    collectStateGauges();
+  } catch (error) {
+    // Serve the in-memory metrics even if state could not be read
+    logger.warn('Failed to collect state gauges for /metrics', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  res.status(200).type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
+export default router;
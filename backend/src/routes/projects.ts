@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { getProjects } from '../config/projects';
+import { getRewardAsset } from '../config/rewardAsset';
+import { runWithProject } from '../utils/projectContext';
+import { resolveProject } from '../middleware/projectScope';
+import { logger } from '../utils/logger';
+import dashboardRouter from './dashboard';
+import historicalRouter from './historical';
+import liveRouter from './live';
+import walletsRouter from './wallets';
+import auditRouter from './audit';
+import adminRouter from './admin';
+
+const router = Router();
+
+/**
+ * GET /projects
+ * Lists the projects this backend runs the reward pipeline for
+ * The default project is also served by the un-prefixed routes (/dashboard, /audit, /admin).
+ */
+router.get('/', (_req: Request, res: Response): void => {
+  try {
+    res.status(200).json({
+      projects: getProjects().map((project) => {
+        const rewardAsset = runWithProject(project, () => getRewardAsset());
+        return {
+          id: project.id,
+          name: project.name,
+          isDefault: project.isDefault,
+          tokenMint: project.tokenMint.toBase58(),
+          raydiumPoolId: project.raydiumPoolId,
+          treasuryWallet: project.treasuryWalletAddress,
+          thresholds: project.thresholds,
+          rewardAsset: {
+            kind: rewardAsset.kind,
+            symbol: rewardAsset.symbol,
+            mint: rewardAsset.mint?.toBase58() ?? null,
+          },
+          basePath: `/projects/${project.id}`,
+        };
+      }),
+    });
+  } catch (error) {
+    logger.error('Error listing projects', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * /projects/:projectId/dashboard/..., /projects/:projectId/audit/..., /projects/:projectId/admin/...
+ * The project-scoped routes, served by the same routers as the default project's
+ */
+router.use('/:projectId', resolveProject());
+router.use('/:projectId/dashboard', dashboardRouter);
+router.use('/:projectId/dashboard', historicalRouter);
+router.use('/:projectId/dashboard', liveRouter);
+router.use('/:projectId/dashboard', walletsRouter);
+router.use('/:projectId/audit', auditRouter);
+router.use('/:projectId/admin', adminRouter);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { getMintInfo, getTokenSupply } from '../services/solanaService';
-import { connection, tokenMint } from '../config/solana';
+import { connection, getTokenMint } from '../config/solana';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -29,7 +29,7 @@ router.get('/status', async (_req: Request, res: Response): Promise<void> => {
         blockHeight: blockHeight,
       },
       token: {
-        mint: tokenMint.toBase58(),
+        mint: getTokenMint().toBase58(),
         decimals: mintInfo.decimals,
         supply: tokenSupply,
         mintAuthority: mintInfo.mintAuthority,
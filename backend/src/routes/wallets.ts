@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import { isBlacklisted } from '../services/blacklistService';
+import { isEligibleWallet } from '../services/eligibleWalletsService';
+import { getQueuedPayouts } from '../services/payoutQueueService';
+import { getAccumulatedReward } from '../services/unpaidRewardsService';
+import { getWalletLedger } from '../services/walletLedgerService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const LAMPORTS_PER_SOL = 1e9;
+
+function toISO(timestamp: number | null): string | null {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
+
+/**
+ * GET /dashboard/wallets/:pubkey
+ * Reward statement of one wallet: balance and eligibility history (with the
+ * exclusion reason), every payout with its epoch, cycle and signature, the
+ * amount still owed (accumulated below the payout threshold or queued for
+ * retry) and lifetime totals
+ * Query params:
+ *   - limit: number (default: 100, max: 1000) - payouts returned, newest first
+ *   - offset: number (default: 0)
+ * Returns 400 for an invalid address and 404 for a wallet the backend never saw
+ */
+router.get('/wallets/:pubkey', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pubkey = req.params.pubkey;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 1000);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+    logger.debug('Dashboard API: GET /dashboard/wallets/:pubkey', {
+      pubkey,
+      limit,
+      offset,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      new PublicKey(pubkey);
+    } catch {
+      res.status(400).json({ error: `Invalid wallet address: ${pubkey}` });
+      return;
+    }
+
+    const found = getWalletLedger(pubkey);
+    const queued = getQueuedPayouts({ pubkey }).find((payout) => payout.status !== 'paid') ?? null;
+    const accumulatedSOL = getAccumulatedReward(pubkey);
+
+    if (!found && !queued && accumulatedSOL === 0) {
+      res.status(404).json({ error: 'No reward history for this wallet' });
+      return;
+    }
+
+    const ledger = found?.ledger ?? null;
+    const decimals = found?.tokenDecimals ?? null;
+    const toUI = (balance: string): number | null =>
+      decimals !== null ? Number(balance) / Math.pow(10, decimals) : null;
+
+    const balances = ledger?.balances ?? [];
+    const eligibility = ledger?.eligibility ?? [];
+    const lastBalance = balances[balances.length - 1] ?? null;
+    const lastEligibility = eligibility[eligibility.length - 1] ?? null;
+    const payouts = [...(ledger?.payouts ?? [])].reverse();
+    const queuedSOL = queued ? Number(queued.amountLamports) / LAMPORTS_PER_SOL : 0;
+
+    const response = {
+      pubkey,
+      current: {
+        balance: lastBalance?.balance ?? '0',
+        balanceUI: toUI(lastBalance?.balance ?? '0'),
+        eligible: isEligibleWallet(pubkey),
+        blacklisted: isBlacklisted(pubkey),
+        eligibilityStatus: lastEligibility?.status ?? null,
+        eligibilityReason: lastEligibility?.reason ?? null,
+        eligibleSince: lastEligibility?.status === 'eligible' ? toISO(lastEligibility.at) : null,
+      },
+      balanceHistory: balances.map((point) => ({
+        at: toISO(point.at),
+        balance: point.balance,
+        balanceUI: toUI(point.balance),
+      })),
+      eligibilityHistory: eligibility.map((change) => ({
+        at: toISO(change.at),
+        status: change.status,
+        reason: change.reason,
+        holdingSOL: change.holdingSOL,
+        minHoldingSOL: change.minHoldingSOL,
+      })),
+      payouts: payouts.slice(offset, offset + limit).map((payout) => ({
+        epoch: payout.epoch,
+        cycleNumber: payout.cycleNumber,
+        journalId: payout.journalId,
+        source: payout.source,
+        status: payout.status,
+        amountSOL: Number(payout.amountLamports) / LAMPORTS_PER_SOL,
+        amountLamports: payout.amountLamports,
+        signature: payout.signature,
+        error: payout.error,
+        at: toISO(payout.at),
+      })),
+      payoutsTotal: payouts.length,
+      limit,
+      offset,
+      hasMore: payouts.length > offset + limit,
+      unpaid: {
+        accumulatedSOL,
+        queuedSOL,
+        queueStatus: queued?.status ?? null,
+        nextAttemptAt: toISO(queued?.nextAttemptAt ?? null),
+        lastError: queued?.lastError ?? null,
+        totalSOL: accumulatedSOL + queuedSOL,
+      },
+      totals: {
+        paidSOL: Number(ledger?.totals.paidLamports ?? '0') / LAMPORTS_PER_SOL,
+        paidLamports: ledger?.totals.paidLamports ?? '0',
+        payoutCount: ledger?.totals.paidCount ?? 0,
+        failedCount: ledger?.totals.failedCount ?? 0,
+        firstPaidAt: toISO(ledger?.totals.firstPaidAt ?? null),
+        lastPaidAt: toISO(ledger?.totals.lastPaidAt ?? null),
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    logger.error('Error fetching wallet statement', {
+      error: error instanceof Error ? error.message : String(error),
+      pubkey: req.params.pubkey,
+    });
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
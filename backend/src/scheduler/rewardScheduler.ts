@@ -1,14 +1,22 @@
-import { REWARD_CONFIG } from '../config/constants';
+import {
+  REWARD_CONFIG,
+  REWARD_ACCUMULATION_CONFIG,
+  REWARD_WEIGHTING_CONFIG,
+  isDryRunMode,
+} from '../config/constants';
 import { logger } from '../utils/logger';
+import { getProjects } from '../config/projects';
+import { getActiveProject, projectScoped, runWithProject } from '../utils/projectContext';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
 import {
   getLastRewardRun,
   setLastRewardRun,
   getAllHoldersWithStatus,
 } from '../services/rewardService';
 import { saveRewardCycle, type RewardCycle } from '../services/rewardHistoryService';
-import { generateCombinedExcel } from '../services/rewardExportService';
+import { generateCombinedExport } from '../services/rewardExportService';
 import { getNUKEPriceUSD } from '../services/priceService';
-import { isBlacklisted } from '../config/blacklist';
+import { isBlacklisted } from '../services/blacklistService';
 import { TaxService } from '../services/taxService';
 import { updateEligibleWallets, getEligibleWalletsMetadata } from '../services/eligibleWalletsService';
 import {
@@ -17,24 +25,148 @@ import {
 } from '../services/unpaidRewardsService';
 import {
   getCurrentEpochInfo,
+  getEpochNumber,
   recordCycleResult,
   CycleState,
+  CYCLES_PER_EPOCH,
   type CycleResult,
 } from '../services/cycleService';
+import { getActiveCycleJournal } from '../services/cycleJournalService';
+import { processPayoutQueue } from '../services/payoutQueueService';
+import { reconcileAccumulatedRewards } from '../services/solDistributionService';
+import { takeBalanceSnapshot } from '../services/balanceSnapshotService';
+import { publishPendingEpochRoots } from '../services/rewardMerkleService';
+import { evaluateCycleFailures } from '../services/alertService';
+import { emitWebhookEvent } from '../services/webhookService';
+import { publishLiveEvent, finishCycleProgress } from '../services/liveFeedService';
+import {
+  rewardCyclesTotal,
+  rewardCycleDurationSeconds,
+  rewardCycleLastTimestampSeconds,
+} from '../utils/metrics';
 
 // Update eligible wallets list every hour (not every distribution cycle)
 const ELIGIBLE_WALLETS_UPDATE_INTERVAL = 60 * 60 * 1000; // 1 hour
-let lastEligibleWalletsUpdate: number = 0;
 
 let schedulerInterval: NodeJS.Timeout | null = null;
-let isRunning = false;
+let snapshotInterval: NodeJS.Timeout | null = null;
+
+// Each project runs its own cycles
+const runState = projectScoped<{ isRunning: boolean; lastEligibleWalletsUpdate: number }>(() => ({
+  isRunning: false,
+  lastEligibleWalletsUpdate: 0,
+}));
+
+/**
+ * Operator controls set via the admin API (persisted so a pause survives restarts)
+ */
+export interface SchedulerControlState {
+  paused: boolean;
+  pausedAt: number | null;
+  pausedBy: string | null;
+  pauseReason: string | null;
+  skipNextCycle: boolean; // Skip the next cycle that would otherwise run
+  skipRequestedBy: string | null;
+}
+
+/**
+ * Load scheduler control state from storage
+ */
+function loadControlState(): SchedulerControlState {
+  try {
+    const state = readDocument<SchedulerControlState>(STORAGE_KEYS.SCHEDULER_STATE);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load scheduler state, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return {
+    paused: false,
+    pausedAt: null,
+    pausedBy: null,
+    pauseReason: null,
+    skipNextCycle: false,
+    skipRequestedBy: null,
+  };
+}
+
+/**
+ * Update scheduler control state
+ */
+function updateControlState(mutate: (state: SchedulerControlState) => void): SchedulerControlState {
+  return updateDocument<SchedulerControlState>(STORAGE_KEYS.SCHEDULER_STATE, (current) => {
+    const next = current ?? loadControlState();
+    mutate(next);
+    return next;
+  });
+}
+
+/**
+ * Record the outcome of a cycle in the Prometheus metrics
+ */
+function observeCycle(cycleResult: CycleResult): void {
+  rewardCyclesTotal.inc({ epoch: cycleResult.epoch, state: cycleResult.state });
+  rewardCycleDurationSeconds.observe({ state: cycleResult.state }, (Date.now() - cycleResult.timestamp) / 1000);
+  rewardCycleLastTimestampSeconds.set({ state: cycleResult.state }, Math.round(cycleResult.timestamp / 1000));
+}
+
+/**
+ * Webhook event id key of a cycle run (a forced run can repeat a cycle number)
+ */
+function getCycleEventKey(cycleResult: Pick<CycleResult, 'epoch' | 'cycleNumber' | 'timestamp'>): string {
+  return `${cycleResult.epoch}:${cycleResult.cycleNumber}:${cycleResult.timestamp}`;
+}
+
+/**
+ * Emit the webhook event of a cycle that did not distribute
+ * (distribution.completed is emitted by TaxService once the payouts are sent)
+ */
+function emitCycleOutcome(cycleResult: CycleResult): void {
+  const cycle = {
+    epoch: cycleResult.epoch,
+    epochNumber: getEpochNumber(cycleResult.epoch),
+    cycleNumber: cycleResult.cycleNumber,
+    cyclesPerEpoch: CYCLES_PER_EPOCH,
+    startedAt: new Date(cycleResult.timestamp).toISOString(),
+  };
+
+  if (cycleResult.state === CycleState.ROLLED_OVER) {
+    emitWebhookEvent('cycle.rolled_over', getCycleEventKey(cycleResult), {
+      ...cycle,
+      reason: 'Tax below minimum threshold, carried forward to the next cycle',
+    });
+  } else if (cycleResult.state === CycleState.FAILED || cycleResult.state === CycleState.PARTIAL) {
+    emitWebhookEvent('cycle.failed', getCycleEventKey(cycleResult), {
+      ...cycle,
+      state: cycleResult.state,
+      error: cycleResult.error ?? null,
+      journalId: cycleResult.journalId ?? null,
+      resumable: cycleResult.state === CycleState.PARTIAL,
+    });
+  }
+}
+
+/**
+ * Push the scheduler state to the dashboard live feed
+ */
+function publishSchedulerState(reason: string): void {
+  publishLiveEvent('scheduler.state', { reason, ...getSchedulerLiveState() });
+}
 
 /**
  * Process reward distribution for pending holders
  * Wrapped inside cycle/epoch system
+ *
+ * @param options.force - Run now, ignoring the minimum interval, a pause and a
+ *                        requested skip (admin force-run)
  */
-async function processRewards(): Promise<void> {
-  if (isRunning) {
+async function processRewards(options: { force?: boolean } = {}): Promise<void> {
+  const run = runState();
+  if (run.isRunning) {
     logger.debug('Reward scheduler already running, skipping');
     return;
   }
@@ -43,26 +175,53 @@ async function processRewards(): Promise<void> {
   const now = startTime; // Alias for compatibility with existing code
   const lastRun = getLastRewardRun();
 
-  // Check if enough time has passed since last run
-  if (lastRun !== null && (startTime - lastRun) < REWARD_CONFIG.MIN_REWARD_INTERVAL) {
-    const timeUntilNext = REWARD_CONFIG.MIN_REWARD_INTERVAL - (startTime - lastRun);
-    logger.debug('Skipping reward run - too soon since last run', {
-      lastRun: new Date(lastRun).toISOString(),
-      timeUntilNext: `${Math.ceil(timeUntilNext / 1000)}s`,
-    });
-    return;
+  if (!options.force) {
+    const control = loadControlState();
+    if (control.paused) {
+      logger.debug('Skipping reward run - scheduler is paused', {
+        pausedBy: control.pausedBy,
+        pauseReason: control.pauseReason,
+      });
+      return;
+    }
+
+    // Check if enough time has passed since last run
+    if (lastRun !== null && (startTime - lastRun) < REWARD_CONFIG.MIN_REWARD_INTERVAL) {
+      const timeUntilNext = REWARD_CONFIG.MIN_REWARD_INTERVAL - (startTime - lastRun);
+      logger.debug('Skipping reward run - too soon since last run', {
+        lastRun: new Date(lastRun).toISOString(),
+        timeUntilNext: `${Math.ceil(timeUntilNext / 1000)}s`,
+      });
+      return;
+    }
+
+    // The skipped cycle counts as a run so the next one follows the normal interval
+    if (control.skipNextCycle) {
+      updateControlState((state) => {
+        state.skipNextCycle = false;
+        state.skipRequestedBy = null;
+      });
+      setLastRewardRun(now);
+      logger.info('⏭️ Cycle skipped (requested by admin)', {
+        requestedBy: control.skipRequestedBy,
+      });
+      publishSchedulerState('cycle_skipped');
+      return;
+    }
   }
 
   // Get current epoch and cycle information
   const epochInfo = getCurrentEpochInfo();
   const { epoch, cycleNumber } = epochInfo;
 
-  isRunning = true;
+  run.isRunning = true;
   logger.info('🔄 Starting cycle execution', {
+    project: getActiveProject().id,
     epoch,
     cycleNumber,
     startTime: new Date(startTime).toISOString(),
   });
+  publishSchedulerState('cycle_started');
 
   // Initialize cycle result
   let cycleResult: CycleResult = {
@@ -74,15 +233,15 @@ async function processRewards(): Promise<void> {
 
   try {
     // Update eligible wallets list periodically (not every distribution cycle)
-    const timeSinceLastUpdate = startTime - lastEligibleWalletsUpdate;
+    const timeSinceLastUpdate = startTime - run.lastEligibleWalletsUpdate;
     
-    if (timeSinceLastUpdate >= ELIGIBLE_WALLETS_UPDATE_INTERVAL || lastEligibleWalletsUpdate === 0) {
+    if (timeSinceLastUpdate >= ELIGIBLE_WALLETS_UPDATE_INTERVAL || run.lastEligibleWalletsUpdate === 0) {
       try {
         logger.info('Updating eligible wallets list (periodic update)', {
           timeSinceLastUpdate: Math.round(timeSinceLastUpdate / 1000),
         });
         await updateEligibleWallets();
-        lastEligibleWalletsUpdate = startTime;
+        run.lastEligibleWalletsUpdate = startTime;
         
         const metadata = getEligibleWalletsMetadata();
         logger.info('Eligible wallets list updated successfully', {
@@ -102,28 +261,76 @@ async function processRewards(): Promise<void> {
       });
     }
 
+    // DRY_RUN: simulate the cycle and log the plan - no transactions, no cycle/history records
+    if (isDryRunMode()) {
+      try {
+        const plan = await TaxService.simulateWithheldTax({ epoch, cycleNumber });
+        logger.info('🧪 Cycle simulated (DRY_RUN)', plan);
+      } catch (simulationError) {
+        logger.error('❌ Cycle simulation failed (DRY_RUN)', {
+          epoch,
+          cycleNumber,
+          error: simulationError instanceof Error ? simulationError.message : String(simulationError),
+        });
+      }
+      setLastRewardRun(now);
+      return;
+    }
+
+    emitWebhookEvent('cycle.started', getCycleEventKey(cycleResult), {
+      epoch,
+      epochNumber: getEpochNumber(epoch),
+      cycleNumber,
+      cyclesPerEpoch: CYCLES_PER_EPOCH,
+      startedAt: new Date(startTime).toISOString(),
+      forced: options.force === true,
+    });
+
     // Process withheld tax from Token-2022 transfers
     // This: 1) Harvests NUKE taxes, 2) Swaps NUKE to SOL, 3) Distributes SOL to holders (75%) and treasury (25%)
     // Wrapped inside cycle system - determines cycle state
     let taxResult: Awaited<ReturnType<typeof TaxService.processWithheldTax>> | null = null;
+    let resumedJournalId: string | null = null;
     try {
-      logger.info('Processing withheld tax from Token-2022 transfers');
-      taxResult = await TaxService.processWithheldTax(epoch, cycleNumber);
+      // An interrupted cycle (see cycleJournalService) is finished before a new one starts
+      const interruptedJournal = getActiveCycleJournal();
+      if (interruptedJournal) {
+        resumedJournalId = interruptedJournal.id;
+        taxResult = await TaxService.resumeWithheldTax();
+      }
+
+      // Nothing was resumed (or the interrupted cycle was aborted) - run a fresh cycle
+      if (!taxResult) {
+        resumedJournalId = null;
+        logger.info('Processing withheld tax from Token-2022 transfers');
+        taxResult = await TaxService.processWithheldTax(epoch, cycleNumber);
+      }
       
       if (taxResult) {
         // DISTRIBUTED: Successful harvest + distribution
-        cycleResult.state = CycleState.DISTRIBUTED;
+        // RESUMED: Interrupted cycle completed from its journal
+        cycleResult.state = resumedJournalId ? CycleState.RESUMED : CycleState.DISTRIBUTED;
+        if (resumedJournalId) {
+          cycleResult.journalId = resumedJournalId;
+        }
         cycleResult.taxResult = {
           harvested: taxResult.totalTax.toString(),
           solToHolders: (Number(taxResult.rewardAmount) / 1e9).toFixed(6),
           solToTreasury: (Number(taxResult.treasuryAmount) / 1e9).toFixed(6),
           distributedCount: taxResult.distributionResult?.distributedCount || 0,
           swapSignature: taxResult.swapSignature,
+          split: taxResult.split?.map((bucket) => ({
+            name: bucket.name,
+            destination: bucket.destination,
+            amountSOL: (Number(bucket.amountLamports) / 1e9).toFixed(6),
+            signature: bucket.signature,
+          })),
         };
         
-        logger.info('✅ Cycle completed: DISTRIBUTED', {
+        logger.info(`✅ Cycle completed: ${cycleResult.state}`, {
           epoch,
           cycleNumber,
+          journalId: resumedJournalId ?? undefined,
           tekHarvested: taxResult.totalTax.toString(),
           tekSold: taxResult.totalTax.toString(),
           solReceived: (taxResult.rewardAmount + taxResult.treasuryAmount).toString(),
@@ -142,19 +349,71 @@ async function processRewards(): Promise<void> {
         });
       }
     } catch (taxError) {
-      // FAILED: Unexpected error, safe to retry next cycle
-      cycleResult.state = CycleState.FAILED;
       cycleResult.error = taxError instanceof Error ? taxError.message : String(taxError);
-      
-      logger.error('❌ Cycle completed: FAILED', {
-        epoch,
-        cycleNumber,
-        error: taxError instanceof Error ? taxError.message : String(taxError),
-        stack: taxError instanceof Error ? taxError.stack : undefined,
-      });
+
+      const partialJournal = getActiveCycleJournal();
+      if (partialJournal) {
+        // PARTIAL: Tax already withdrawn, remaining steps resume next cycle
+        cycleResult.state = CycleState.PARTIAL;
+        cycleResult.journalId = partialJournal.id;
+
+        logger.error('⚠️ Cycle completed: PARTIAL', {
+          epoch,
+          cycleNumber,
+          journalId: partialJournal.id,
+          error: cycleResult.error,
+          note: 'Remaining steps will be resumed from the cycle journal next cycle',
+        });
+      } else {
+        // FAILED: Unexpected error, safe to retry next cycle
+        cycleResult.state = CycleState.FAILED;
+        
+        logger.error('❌ Cycle completed: FAILED', {
+          epoch,
+          cycleNumber,
+          error: taxError instanceof Error ? taxError.message : String(taxError),
+          stack: taxError instanceof Error ? taxError.stack : undefined,
+        });
+      }
       // Don't throw - allow scheduler to continue and record cycle state
     }
 
+    // Retry queued holder payouts from earlier cycles (not while a cycle is interrupted,
+    // its remaining steps need the reward wallet balance)
+    if (!getActiveCycleJournal()) {
+      try {
+        await processPayoutQueue();
+      } catch (queueError) {
+        logger.error('Failed to process payout queue', {
+          epoch,
+          cycleNumber,
+          error: queueError instanceof Error ? queueError.message : String(queueError),
+        });
+      }
+    }
+
+    // Accumulated sub-threshold rewards must stay covered by the reward wallet
+    if (REWARD_ACCUMULATION_CONFIG.ENABLED) {
+      try {
+        await reconcileAccumulatedRewards();
+      } catch (reconcileError) {
+        logger.error('Failed to reconcile accumulated rewards', {
+          error: reconcileError instanceof Error ? reconcileError.message : String(reconcileError),
+        });
+      }
+    }
+
+    // Merkle roots of finished epochs (once no interrupted cycle can still add payouts)
+    if (!getActiveCycleJournal()) {
+      try {
+        await publishPendingEpochRoots();
+      } catch (merkleError) {
+        logger.error('Failed to publish epoch reward roots', {
+          error: merkleError instanceof Error ? merkleError.message : String(merkleError),
+        });
+      }
+    }
+
     const endTime = Date.now();
     const duration = endTime - startTime;
 
@@ -310,7 +569,7 @@ async function processRewards(): Promise<void> {
 
     // Generate automated export file
     try {
-      const exportFilepath = await generateCombinedExcel();
+      const exportFilepath = await generateCombinedExport();
       logger.info('Automated export file generated', {
         filepath: exportFilepath,
       });
@@ -325,6 +584,8 @@ async function processRewards(): Promise<void> {
     setLastRewardRun(now);
 
     // Record cycle result (after all processing is complete)
+    observeCycle(cycleResult);
+    emitCycleOutcome(cycleResult);
     try {
       recordCycleResult(cycleResult);
     } catch (cycleError) {
@@ -346,6 +607,8 @@ async function processRewards(): Promise<void> {
     });
 
     // Try to record the failed cycle
+    observeCycle(cycleResult);
+    emitCycleOutcome(cycleResult);
     try {
       recordCycleResult(cycleResult);
     } catch (cycleError) {
@@ -354,12 +617,41 @@ async function processRewards(): Promise<void> {
       });
     }
   } finally {
-    isRunning = false;
+    run.isRunning = false;
+    finishCycleProgress();
+    publishSchedulerState('cycle_finished');
+
+    // Raises (or resolves) the consecutive failed cycles operator alert
+    try {
+      evaluateCycleFailures();
+    } catch (alertError) {
+      logger.warn('Failed to evaluate failed cycles alert', {
+        error: alertError instanceof Error ? alertError.message : String(alertError),
+      });
+    }
+  }
+}
+
+/**
+ * Run a scheduled task for every project, one project after the other
+ * A failing project does not keep the others from running (never rejects).
+ */
+async function forEachProject(task: () => Promise<void>, errorMessage: string): Promise<void> {
+  for (const project of getProjects()) {
+    try {
+      await runWithProject(project, task);
+    } catch (error) {
+      logger.error(errorMessage, {
+        project: project.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 }
 
 /**
  * Start the reward scheduler
+ * Every interval runs a cycle for each project (see config/projects).
  */
 export function startRewardScheduler(): void {
   if (schedulerInterval !== null) {
@@ -372,20 +664,38 @@ export function startRewardScheduler(): void {
     minRewardInterval: `${REWARD_CONFIG.MIN_REWARD_INTERVAL / 1000}s`,
     cyclesPerEpoch: 288,
     epochDuration: '1 UTC day',
+    rewardWeighting: REWARD_WEIGHTING_CONFIG.WEIGHTING_MODE,
+    projects: getProjects().map((project) => project.id),
   });
 
+  for (const project of getProjects()) {
+    const interruptedJournal = runWithProject(project, () => getActiveCycleJournal());
+    if (interruptedJournal) {
+      logger.warn('Interrupted cycle found in the cycle journal - it will be resumed on the next run', {
+        project: project.id,
+        journalId: interruptedJournal.id,
+        epoch: interruptedJournal.epoch,
+        cycleNumber: interruptedJournal.cycleNumber,
+        lastStep: interruptedJournal.steps[interruptedJournal.steps.length - 1]?.step ?? null,
+      });
+    }
+  }
+
   // Don't run immediately on startup - wait for first scheduled interval
   // This prevents rate limiting on startup when multiple services are initializing
   logger.debug('Skipping immediate run on startup to prevent rate limiting');
 
   // Schedule periodic runs
   schedulerInterval = setInterval(() => {
-    processRewards().catch((error) => {
-      logger.error('Error in scheduled reward run', {
-        error: error instanceof Error ? error.message : String(error),
-      });
-    });
+    forEachProject(() => processRewards(), 'Error in scheduled reward run');
   }, REWARD_CONFIG.SCHEDULER_INTERVAL);
+
+  // Holder balance snapshots for time-weighted reward shares
+  if (REWARD_WEIGHTING_CONFIG.WEIGHTING_MODE === 'TIME_WEIGHTED') {
+    snapshotInterval = setInterval(() => {
+      forEachProject(() => takeBalanceSnapshot(), 'Error taking balance snapshot');
+    }, REWARD_WEIGHTING_CONFIG.SNAPSHOT_INTERVAL_MS);
+  }
 }
 
 /**
@@ -397,6 +707,73 @@ export function stopRewardScheduler(): void {
     schedulerInterval = null;
     logger.info('Reward scheduler stopped');
   }
+  if (snapshotInterval !== null) {
+    clearInterval(snapshotInterval);
+    snapshotInterval = null;
+  }
+}
+
+/**
+ * Pause the reward scheduler
+ * Scheduled cycles are skipped until resumed; balance snapshots continue.
+ */
+export function pauseRewardScheduler(pausedBy: string, reason: string | null): SchedulerControlState {
+  const state = updateControlState((next) => {
+    next.paused = true;
+    next.pausedAt = Date.now();
+    next.pausedBy = pausedBy;
+    next.pauseReason = reason;
+  });
+  logger.warn('⏸️ Reward scheduler paused', { pausedBy, reason });
+  publishSchedulerState('paused');
+  return state;
+}
+
+/**
+ * Resume a paused reward scheduler
+ */
+export function resumeRewardScheduler(resumedBy: string): SchedulerControlState {
+  const state = updateControlState((next) => {
+    next.paused = false;
+    next.pausedAt = null;
+    next.pausedBy = null;
+    next.pauseReason = null;
+  });
+  logger.info('▶️ Reward scheduler resumed', { resumedBy });
+  publishSchedulerState('resumed');
+  return state;
+}
+
+/**
+ * Skip the next cycle that would otherwise run
+ */
+export function skipNextRewardCycle(requestedBy: string): SchedulerControlState {
+  const state = updateControlState((next) => {
+    next.skipNextCycle = true;
+    next.skipRequestedBy = requestedBy;
+  });
+  logger.info('Next reward cycle will be skipped', { requestedBy });
+  publishSchedulerState('skip_requested');
+  return state;
+}
+
+/**
+ * Run a cycle now, ignoring the minimum interval and a pause
+ * @throws Error if a cycle is already running
+ */
+export async function runRewardCycleNow(requestedBy: string): Promise<void> {
+  if (runState().isRunning) {
+    throw new Error('A cycle is already running');
+  }
+  logger.info('Forced cycle run requested', { requestedBy, project: getActiveProject().id });
+  await processRewards({ force: true });
+}
+
+/**
+ * Get the operator controls (pause / skip) of the scheduler
+ */
+export function getSchedulerControlState(): SchedulerControlState {
+  return loadControlState();
 }
 
 /**
@@ -404,14 +781,18 @@ export function stopRewardScheduler(): void {
  */
 export function getSchedulerStatus(): {
   isRunning: boolean;
+  paused: boolean;
   lastRun: number | null;
   nextRun: number | null;
 } {
   const lastRun = getLastRewardRun();
   const now = Date.now();
+  const paused = loadControlState().paused;
   
   let nextRun: number | null = null;
-  if (lastRun !== null) {
+  if (paused) {
+    nextRun = null;
+  } else if (lastRun !== null) {
     const timeSinceLastRun = now - lastRun;
     if (timeSinceLastRun < REWARD_CONFIG.MIN_REWARD_INTERVAL) {
       nextRun = lastRun + REWARD_CONFIG.MIN_REWARD_INTERVAL;
@@ -425,9 +806,32 @@ export function getSchedulerStatus(): {
   }
 
   return {
-    isRunning,
+    isRunning: runState().isRunning,
+    paused,
     lastRun,
     nextRun,
   };
 }
 
+/**
+ * Scheduler state as pushed to the dashboard live feed
+ */
+export function getSchedulerLiveState(): {
+  isRunning: boolean;
+  paused: boolean;
+  pauseReason: string | null;
+  skipNextCycle: boolean;
+  lastRun: string | null;
+  nextRun: string | null;
+} {
+  const status = getSchedulerStatus();
+  const control = loadControlState();
+  return {
+    isRunning: status.isRunning,
+    paused: status.paused,
+    pauseReason: control.pauseReason,
+    skipNextCycle: control.skipNextCycle,
+    lastRun: status.lastRun !== null ? new Date(status.lastRun).toISOString() : null,
+    nextRun: status.nextRun !== null ? new Date(status.nextRun).toISOString() : null,
+  };
+}
@@ -4,7 +4,18 @@ import healthRouter from './routes/health';
 import dashboardRouter from './routes/dashboard';
 import historicalRouter from './routes/historical';
 import auditRouter from './routes/audit';
+import adminRouter from './routes/admin';
+import metricsRouter from './routes/metrics';
+import liveRouter from './routes/live';
+import walletsRouter from './routes/wallets';
+import holdersRouter from './routes/holders';
+import projectsRouter from './routes/projects';
 import { startRewardScheduler } from './scheduler/rewardScheduler';
+import { startHealthMonitor } from './services/healthService';
+import { startAlertMonitor } from './services/alertService';
+import { startWebhookDispatcher } from './services/webhookService';
+import { closeLiveFeed } from './services/liveFeedService';
+import { closeStorage } from './storage';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 
@@ -66,7 +77,14 @@ export function createApp(): Express {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      'X-Admin-Pubkey',
+      'X-Admin-Timestamp',
+      'X-Admin-Signature',
+    ],
     exposedHeaders: ['Content-Length', 'X-Foo', 'X-Bar'],
   }));
 
@@ -91,7 +109,12 @@ export function createApp(): Express {
   });
 
   // Body parsing middleware
-  app.use(express.json());
+  // The raw body is kept for verifying signed admin requests (see middleware/adminAuth.ts)
+  app.use(express.json({
+    verify: (req: Request, _res: Response, buf: Buffer) => {
+      (req as Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  }));
   app.use(express.urlencoded({ extended: true }));
 
   // Root endpoint - API information
@@ -102,10 +125,14 @@ export function createApp(): Express {
       status: 'running',
       endpoints: {
         health: '/health',
+        healthComponents: '/health/components',
+        metrics: '/metrics',
         dashboard: {
           holders: '/dashboard/holders',
           rewards: '/dashboard/rewards',
           payouts: '/dashboard/payouts',
+          live: '/dashboard/live',
+          wallet: '/dashboard/wallets/:pubkey',
           historical: {
             rewards: '/dashboard/historical/rewards',
             payouts: '/dashboard/historical/payouts',
@@ -118,7 +145,34 @@ export function createApp(): Express {
         audit: {
           latest: '/audit/latest',
           summary: '/audit/summary',
-          generate: '/audit/generate',
+        },
+        admin: {
+          scheduler: '/admin/scheduler',
+          pauseScheduler: '/admin/scheduler/pause',
+          resumeScheduler: '/admin/scheduler/resume',
+          skipCycle: '/admin/scheduler/skip',
+          runCycle: '/admin/cycles/run',
+          simulateCycle: '/admin/cycles/simulate',
+          clearCache: '/admin/cache/clear',
+          generateExport: '/admin/exports/generate',
+          blacklist: '/admin/blacklist',
+          auditLog: '/admin/audit-log',
+          alerts: '/admin/alerts',
+          testAlert: '/admin/alerts/test',
+          runAlertChecks: '/admin/alerts/check',
+          webhooks: '/admin/webhooks',
+          webhookDeliveries: '/admin/webhooks/deliveries',
+        },
+        holders: {
+          nonce: '/holders/auth/nonce',
+          verify: '/holders/auth/verify',
+          session: '/holders/auth/session',
+          preferences: '/holders/me/preferences',
+          telegramLink: '/holders/me/telegram/link',
+        },
+        projects: {
+          list: '/projects',
+          scoped: '/projects/:projectId/{dashboard,audit,admin}/...',
         },
       },
     });
@@ -126,9 +180,15 @@ export function createApp(): Express {
 
   // Routes
   app.use('/', healthRouter);
+  app.use('/', metricsRouter);
   app.use('/dashboard', dashboardRouter);
   app.use('/dashboard', historicalRouter);
+  app.use('/dashboard', liveRouter);
+  app.use('/dashboard', walletsRouter);
   app.use('/audit', auditRouter);
+  app.use('/admin', adminRouter);
+  app.use('/holders', holdersRouter);
+  app.use('/projects', projectsRouter);
 
   // 404 handler
   app.use((_req: Request, res: Response): void => {
@@ -164,14 +224,26 @@ export function startServer(app: Express): void {
         console.error('Stack:', err.stack);
       }
     }
+
+    // Background component probes for /health/components
+    startHealthMonitor();
+
+    // Background operator alert checks (wallet balance, withdraw authority, failed cycles)
+    startAlertMonitor();
+
+    // Webhook retries (and deliveries left pending by a restart)
+    startWebhookDispatcher();
   });
 
   // Graceful shutdown
   const shutdown = (signal: string): void => {
     console.log(`Received ${signal}, starting graceful shutdown...`);
     
+    // Open event streams would otherwise keep the server from closing
+    closeLiveFeed();
     server.close(() => {
       console.log('Server closed successfully');
+      closeStorage();
       process.exit(0);
     });
 
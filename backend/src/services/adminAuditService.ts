@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import type { AdminRole } from '../config/adminAccess';
+
+/**
+ * Admin Audit Service
+ *
+ * Append-only record of every state-changing /admin request and every
+ * rejected admin request, with who made it and what happened. Only the most
+ * recent entries are kept.
+ */
+
+const MAX_AUDIT_ENTRIES = 2000;
+
+export type AdminAuthMethod = 'api-key' | 'signature';
+
+export type AdminAuditOutcome = 'success' | 'failure' | 'denied';
+
+export interface AdminAuditEntry {
+  id: string;
+  timestamp: number;
+  actor: string | null; // Credential name, null when authentication failed
+  role: AdminRole | null;
+  authMethod: AdminAuthMethod | null;
+  action: string; // e.g. "POST /admin/scheduler/pause"
+  params: Record<string, unknown>; // Route params, query and body
+  outcome: AdminAuditOutcome;
+  statusCode: number;
+  error: string | null;
+  ip: string | null;
+}
+
+interface AdminAuditState {
+  entries: AdminAuditEntry[]; // Oldest first
+}
+
+/**
+ * Load the audit log from storage
+ */
+function loadState(): AdminAuditState {
+  try {
+    const state = readDocument<AdminAuditState>(STORAGE_KEYS.ADMIN_AUDIT_LOG);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load admin audit log, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { entries: [] };
+}
+
+/**
+ * Record an admin action
+ */
+export function recordAdminAction(entry: Omit<AdminAuditEntry, 'id' | 'timestamp'>): AdminAuditEntry {
+  const recorded: AdminAuditEntry = {
+    id: randomUUID(),
+    timestamp: Date.now(),
+    ...entry,
+  };
+
+  updateDocument<AdminAuditState>(STORAGE_KEYS.ADMIN_AUDIT_LOG, (current) => {
+    const next = current ?? loadState();
+    next.entries.push(recorded);
+    if (next.entries.length > MAX_AUDIT_ENTRIES) {
+      next.entries.splice(0, next.entries.length - MAX_AUDIT_ENTRIES);
+    }
+    return next;
+  });
+
+  const log = recorded.outcome === 'success' ? logger.info : logger.warn;
+  log('Admin action recorded', {
+    actor: recorded.actor,
+    action: recorded.action,
+    outcome: recorded.outcome,
+    statusCode: recorded.statusCode,
+    error: recorded.error,
+  });
+
+  return recorded;
+}
+
+/**
+ * Get audit log entries, newest first
+ */
+export function getAdminAuditLog(filters: {
+  actor?: string;
+  outcome?: AdminAuditOutcome;
+  limit?: number;
+} = {}): { total: number; entries: AdminAuditEntry[] } {
+  const matching = loadState().entries
+    .filter((entry) => !filters.actor || entry.actor === filters.actor)
+    .filter((entry) => !filters.outcome || entry.outcome === filters.outcome)
+    .reverse();
+
+  return {
+    total: matching.length,
+    entries: matching.slice(0, filters.limit ?? 100),
+  };
+}
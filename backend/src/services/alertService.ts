@@ -0,0 +1,474 @@
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { getMint, getTransferFeeConfig, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { connection, getTokenMint } from '../config/solana';
+import { ALERT_CONFIG, REWARD_ACCUMULATION_CONFIG } from '../config/constants';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { getProjects } from '../config/projects';
+import { getActiveProject, runWithProject } from '../utils/projectContext';
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { getRecentCycles, CycleState } from './cycleService';
+import { getTotalUnpaidRewards } from './unpaidRewardsService';
+import { getAdminWallet } from './rewardService';
+import {
+  getAlertSinks,
+  type AlertNotification,
+  type AlertSeverity,
+} from './alertSinks';
+
+/**
+ * Alert Service
+ *
+ * Server-side operator alerting. Rules raise an alert while their condition
+ * holds and resolve it once it clears:
+ *
+ * - reward-wallet-balance: reward wallet below the fee reserve plus the
+ *   reserved accumulated rewards (checked every ALERT_CONFIG.CHECK_INTERVAL_MS)
+ * - withdraw-authority: the mint's withdraw-withheld authority is not the
+ *   reward wallet (checked periodically and on every harvest)
+ * - failed-cycles: ALERT_CONFIG.CONSECUTIVE_FAILED_CYCLES FAILED cycles in a row
+ * - swap-slippage: realized swap slippage above ALERT_CONFIG.SWAP_SLIPPAGE_MAX_BPS
+ *
+ * An alert is delivered to every sink when it fires, again at most once per
+ * ALERT_CONFIG.COOLDOWN_MS while it stays active (repeats in between are only
+ * counted), immediately if it escalates to critical, and once when it resolves.
+ * Active alerts are persisted so a restart does not re-send them.
+ */
+
+export type AlertRule = 'reward-wallet-balance' | 'withdraw-authority' | 'failed-cycles' | 'swap-slippage';
+
+export const ALERT_RULES: readonly AlertRule[] = [
+  'reward-wallet-balance',
+  'withdraw-authority',
+  'failed-cycles',
+  'swap-slippage',
+];
+
+export interface ActiveAlert {
+  key: string;
+  rule: AlertRule;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details: Record<string, unknown>;
+  firstFiredAt: number;
+  lastSeenAt: number;
+  lastNotifiedAt: number;
+  occurrences: number;
+}
+
+export interface AlertHistoryEntry {
+  key: string;
+  rule: string;
+  kind: AlertNotification['kind'];
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  timestamp: number;
+  deliveredTo: string[];
+  failedSinks: Array<{ sink: string; error: string }>;
+}
+
+interface AlertState {
+  active: Record<string, ActiveAlert>; // Key: alert key
+  history: AlertHistoryEntry[]; // Oldest first
+}
+
+interface AlertInput {
+  key?: string; // Defaults to the rule id
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+const MAX_HISTORY_ENTRIES = 500;
+const SEVERITY_ORDER: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+let monitorInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Load alert state from storage
+ */
+function loadState(): AlertState {
+  try {
+    const state = readDocument<AlertState>(STORAGE_KEYS.ALERT_STATE);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load alert state, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { active: {}, history: [] };
+}
+
+/**
+ * Deliver a notification to every sink and record the outcome in the history
+ */
+async function dispatch(notification: AlertNotification): Promise<AlertHistoryEntry> {
+  const log = notification.kind === 'resolved' || notification.severity === 'info' ? logger.info : logger.warn;
+  log(`Alert ${notification.kind}: ${notification.title}`, {
+    key: notification.key,
+    severity: notification.severity,
+    message: notification.message,
+    occurrences: notification.occurrences,
+  });
+
+  const sinks = getAlertSinks();
+  const results = await Promise.allSettled(sinks.map((sink) => sink.send(notification)));
+
+  const entry: AlertHistoryEntry = {
+    key: notification.key,
+    rule: notification.rule,
+    kind: notification.kind,
+    severity: notification.severity,
+    title: notification.title,
+    message: notification.message,
+    timestamp: notification.timestamp,
+    deliveredTo: [],
+    failedSinks: [],
+  };
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      entry.deliveredTo.push(sinks[index].name);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      entry.failedSinks.push({ sink: sinks[index].name, error });
+      logger.error('Failed to deliver alert', { sink: sinks[index].name, key: notification.key, error });
+    }
+  });
+
+  updateDocument<AlertState>(STORAGE_KEYS.ALERT_STATE, (current) => {
+    const next = current ?? loadState();
+    next.history.push(entry);
+    if (next.history.length > MAX_HISTORY_ENTRIES) {
+      next.history.splice(0, next.history.length - MAX_HISTORY_ENTRIES);
+    }
+    return next;
+  });
+
+  return entry;
+}
+
+/**
+ * Deliver in the background - rule checks never wait on (or fail because of) a sink
+ */
+function dispatchInBackground(notification: AlertNotification): void {
+  dispatch(notification).catch((error) => {
+    logger.error('Error dispatching alert', {
+      key: notification.key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
+/**
+ * Raise an alert (or count another occurrence of an active one)
+ */
+export function raiseAlert(rule: AlertRule, input: AlertInput): void {
+  if (ALERT_CONFIG.DISABLED_RULES.includes(rule)) {
+    return;
+  }
+
+  const key = input.key ?? rule;
+  const now = Date.now();
+  const project = getActiveProject();
+  // Alerts of additional projects name the project (each project keeps its own alert state)
+  const title = project.isDefault ? input.title : `[${project.name}] ${input.title}`;
+  let notification: AlertNotification | null = null;
+
+  updateDocument<AlertState>(STORAGE_KEYS.ALERT_STATE, (current) => {
+    const next = current ?? loadState();
+    const existing = next.active[key];
+
+    if (!existing) {
+      next.active[key] = {
+        key,
+        rule,
+        severity: input.severity,
+        title,
+        message: input.message,
+        details: input.details ?? {},
+        firstFiredAt: now,
+        lastSeenAt: now,
+        lastNotifiedAt: now,
+        occurrences: 1,
+      };
+      notification = { kind: 'firing', ...next.active[key], timestamp: now };
+      return next;
+    }
+
+    const escalated = SEVERITY_ORDER.indexOf(input.severity) > SEVERITY_ORDER.indexOf(existing.severity);
+    existing.severity = input.severity;
+    existing.title = title;
+    existing.message = input.message;
+    existing.details = input.details ?? {};
+    existing.lastSeenAt = now;
+    existing.occurrences++;
+
+    if (escalated || now - existing.lastNotifiedAt >= ALERT_CONFIG.COOLDOWN_MS) {
+      existing.lastNotifiedAt = now;
+      notification = { kind: escalated ? 'firing' : 'reminder', ...existing, timestamp: now };
+    }
+    return next;
+  });
+
+  if (notification) {
+    dispatchInBackground(notification);
+  } else {
+    logger.debug('Alert suppressed (cooldown)', { key });
+  }
+}
+
+/**
+ * Resolve an active alert (no-op if it is not active)
+ */
+export function resolveAlert(key: string): void {
+  const now = Date.now();
+  let resolved: ActiveAlert | null = null;
+
+  updateDocument<AlertState>(STORAGE_KEYS.ALERT_STATE, (current) => {
+    const next = current ?? loadState();
+    if (next.active[key]) {
+      resolved = next.active[key];
+      delete next.active[key];
+    }
+    return next;
+  });
+
+  if (resolved) {
+    const alert: ActiveAlert = resolved;
+    dispatchInBackground({
+      kind: 'resolved',
+      ...alert,
+      message: `Resolved after ${Math.round((now - alert.firstFiredAt) / 60000)} minutes (${alert.occurrences} occurrences). Last: ${alert.message}`,
+      timestamp: now,
+    });
+  }
+}
+
+/**
+ * Reward wallet must cover transaction fees plus the reserved accumulated rewards
+ */
+export async function checkRewardWalletBalance(): Promise<void> {
+  const address = loadKeypairFromEnv(getActiveProject().rewardWalletEnv).publicKey;
+  const balanceSOL = (await connection.getBalance(address, 'confirmed')) / LAMPORTS_PER_SOL;
+  const reservedSOL = REWARD_ACCUMULATION_CONFIG.ENABLED ? getTotalUnpaidRewards() : 0;
+  const requiredSOL = reservedSOL + ALERT_CONFIG.REWARD_WALLET_FEE_RESERVE_SOL;
+
+  if (balanceSOL >= requiredSOL) {
+    resolveAlert('reward-wallet-balance');
+    return;
+  }
+
+  // Below the fee reserve alone nothing can be sent at all
+  const critical = balanceSOL < ALERT_CONFIG.REWARD_WALLET_FEE_RESERVE_SOL;
+  raiseAlert('reward-wallet-balance', {
+    severity: critical ? 'critical' : 'warning',
+    title: 'Reward wallet balance low',
+    message: `Reward wallet holds ${balanceSOL.toFixed(6)} SOL, needs ${requiredSOL.toFixed(6)} SOL `
+      + `(${ALERT_CONFIG.REWARD_WALLET_FEE_RESERVE_SOL} SOL fee reserve + ${reservedSOL.toFixed(6)} SOL reserved rewards)`,
+    details: {
+      address: address.toBase58(),
+      balanceSOL,
+      feeReserveSOL: ALERT_CONFIG.REWARD_WALLET_FEE_RESERVE_SOL,
+      reservedRewardsSOL: reservedSOL,
+    },
+  });
+}
+
+/**
+ * Compare the mint's withdraw-withheld authority with the reward wallet
+ * @param authority - Authority read from the mint (null when none is set)
+ */
+export function evaluateWithdrawAuthority(authority: PublicKey | null): void {
+  const rewardWallet = loadKeypairFromEnv(getActiveProject().rewardWalletEnv).publicKey;
+  if (authority?.equals(rewardWallet)) {
+    resolveAlert('withdraw-authority');
+    return;
+  }
+
+  let adminWallet: PublicKey | null = null;
+  try {
+    adminWallet = getAdminWallet().publicKey;
+  } catch {
+    adminWallet = null;
+  }
+
+  const details = {
+    mint: getTokenMint().toBase58(),
+    authority: authority?.toBase58() ?? null,
+    rewardWallet: rewardWallet.toBase58(),
+  };
+
+  if (!authority) {
+    raiseAlert('withdraw-authority', {
+      severity: 'critical',
+      title: 'Withdraw-withheld authority missing',
+      message: 'The mint has no withdraw-withheld authority - tax cannot be harvested',
+      details,
+    });
+  } else if (adminWallet && authority.equals(adminWallet)) {
+    raiseAlert('withdraw-authority', {
+      severity: 'warning',
+      title: 'Withdraw-withheld authority is the admin wallet',
+      message: 'Harvests fall back to the admin wallet - set the withdraw-withheld authority to the reward wallet',
+      details,
+    });
+  } else {
+    raiseAlert('withdraw-authority', {
+      severity: 'critical',
+      title: 'Withdraw-withheld authority changed',
+      message: `Withdraw-withheld authority ${authority.toBase58()} is neither the reward nor the admin wallet - tax cannot be harvested`,
+      details,
+    });
+  }
+}
+
+/**
+ * Read the withdraw-withheld authority from the mint and evaluate it
+ */
+export async function checkWithdrawAuthority(): Promise<void> {
+  const mintInfo = await getMint(connection, getTokenMint(), 'confirmed', TOKEN_2022_PROGRAM_ID);
+  const transferFeeConfig = getTransferFeeConfig(mintInfo);
+  evaluateWithdrawAuthority(transferFeeConfig?.withdrawWithheldAuthority ?? null);
+}
+
+/**
+ * Raise an alert after ALERT_CONFIG.CONSECUTIVE_FAILED_CYCLES FAILED cycles in a row
+ */
+export function evaluateCycleFailures(): void {
+  const threshold = ALERT_CONFIG.CONSECUTIVE_FAILED_CYCLES;
+  const recent = getRecentCycles(threshold);
+  const failed = recent.filter((cycle) => cycle.state === CycleState.FAILED);
+
+  if (recent.length < threshold || failed.length < threshold) {
+    if (recent.length > 0 && recent[0].state !== CycleState.FAILED) {
+      resolveAlert('failed-cycles');
+    }
+    return;
+  }
+
+  raiseAlert('failed-cycles', {
+    severity: 'critical',
+    title: `${threshold} consecutive cycles failed`,
+    message: `The last ${threshold} cycles ended FAILED. Latest error: ${failed[0].error ?? 'unknown'}`,
+    details: {
+      cycles: failed.map((cycle) => ({
+        epoch: cycle.epoch,
+        cycleNumber: cycle.cycleNumber,
+        error: cycle.error ?? null,
+      })),
+    },
+  });
+}
+
+/**
+ * Raise an alert when a swap's realized slippage exceeds the bound
+ */
+export function evaluateSwapSlippage(slippageBps: number, details: Record<string, unknown>): void {
+  if (slippageBps <= ALERT_CONFIG.SWAP_SLIPPAGE_MAX_BPS) {
+    resolveAlert('swap-slippage');
+    return;
+  }
+
+  raiseAlert('swap-slippage', {
+    severity: 'warning',
+    title: 'Swap slippage above bound',
+    message: `Realized slippage ${slippageBps.toFixed(0)} bps exceeds ${ALERT_CONFIG.SWAP_SLIPPAGE_MAX_BPS} bps`,
+    details: { slippageBps: Math.round(slippageBps), maxSlippageBps: ALERT_CONFIG.SWAP_SLIPPAGE_MAX_BPS, ...details },
+  });
+}
+
+/**
+ * Run the periodic rule checks (wallet balance, withdraw authority, failed cycles)
+ */
+export async function runAlertChecks(): Promise<void> {
+  const checks: Array<[string, () => Promise<void> | void]> = [
+    ['reward-wallet-balance', checkRewardWalletBalance],
+    ['withdraw-authority', checkWithdrawAuthority],
+    ['failed-cycles', evaluateCycleFailures],
+  ];
+
+  for (const [name, check] of checks) {
+    try {
+      await check();
+    } catch (error) {
+      logger.error('Alert check failed', {
+        check: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Send a test notification to every sink and report which ones delivered it
+ */
+export async function sendTestAlert(requestedBy: string): Promise<AlertHistoryEntry> {
+  const now = Date.now();
+  return dispatch({
+    kind: 'test',
+    key: 'test',
+    rule: 'test',
+    severity: 'info',
+    title: 'Test alert',
+    message: `Test alert requested by ${requestedBy}`,
+    details: {},
+    occurrences: 1,
+    firstFiredAt: now,
+    timestamp: now,
+  });
+}
+
+/**
+ * Get active alerts and recent notifications (newest first)
+ */
+export function getAlerts(limit: number = 100): {
+  active: ActiveAlert[];
+  history: AlertHistoryEntry[];
+  sinks: string[];
+} {
+  const state = loadState();
+  return {
+    active: Object.values(state.active).sort((a, b) => b.lastSeenAt - a.lastSeenAt),
+    history: limit > 0 ? state.history.slice(-limit).reverse() : [],
+    sinks: getAlertSinks().map((sink) => sink.name),
+  };
+}
+
+/**
+ * Start background alert checks
+ */
+export function startAlertMonitor(): void {
+  if (monitorInterval !== null) {
+    return;
+  }
+
+  const run = (): void => {
+    for (const project of getProjects()) {
+      runWithProject(project, () => runAlertChecks()).catch((error) => {
+        logger.error('Error running alert checks', {
+          project: project.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  };
+
+  run();
+  monitorInterval = setInterval(run, ALERT_CONFIG.CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stop background alert checks
+ */
+export function stopAlertMonitor(): void {
+  if (monitorInterval !== null) {
+    clearInterval(monitorInterval);
+    monitorInterval = null;
+  }
+}
@@ -0,0 +1,232 @@
+import { sendMail } from '../utils/smtp';
+import { logger } from '../utils/logger';
+
+/**
+ * Alert Sinks
+ *
+ * Where operator alerts are delivered. Each sink is enabled by its
+ * environment variables; with none configured alerts are only logged.
+ *
+ * - Telegram: ALERT_TELEGRAM_BOT_TOKEN + ALERT_TELEGRAM_CHAT_ID (operator chat)
+ * - Webhook: ALERT_WEBHOOK_URL (JSON POST of the notification)
+ * - Email: ALERT_SMTP_HOST, ALERT_SMTP_PORT (default: 587), ALERT_SMTP_SECURE
+ *   (default: true on port 465), ALERT_SMTP_USER, ALERT_SMTP_PASS,
+ *   ALERT_EMAIL_FROM and ALERT_EMAIL_TO (comma-separated)
+ *
+ * A new sink only has to implement AlertSink and be added in buildSinks().
+ */
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * What a sink is asked to deliver
+ */
+export interface AlertNotification {
+  kind: 'firing' | 'reminder' | 'resolved' | 'test';
+  key: string; // Deduplication key, e.g. "failed-cycles"
+  rule: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details: Record<string, unknown>;
+  occurrences: number; // Times the condition was seen since the alert fired
+  firstFiredAt: number;
+  timestamp: number;
+}
+
+export interface AlertSink {
+  name: string;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+const SINK_TIMEOUT_MS = 10000;
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🚨',
+};
+
+let cachedSinks: AlertSink[] | null = null;
+
+/**
+ * One-line headline of a notification
+ */
+function formatHeadline(notification: AlertNotification): string {
+  const prefix = notification.kind === 'resolved'
+    ? '✅ RESOLVED'
+    : notification.kind === 'test'
+      ? '🧪 TEST'
+      : `${SEVERITY_ICONS[notification.severity]} ${notification.severity.toUpperCase()}`;
+  return `${prefix}: ${notification.title}`;
+}
+
+/**
+ * Plain-text body shared by the Telegram and email sinks
+ */
+function formatText(notification: AlertNotification): string {
+  const lines = [formatHeadline(notification), '', notification.message];
+  if (notification.kind === 'reminder') {
+    lines.push('', `Still active - seen ${notification.occurrences} times since ${new Date(notification.firstFiredAt).toISOString()}`);
+  }
+  const details = Object.entries(notification.details);
+  if (details.length > 0) {
+    lines.push('');
+    for (const [name, value] of details) {
+      lines.push(`${name}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+  }
+  lines.push('', new Date(notification.timestamp).toISOString());
+  return lines.join('\n');
+}
+
+/**
+ * Operator Telegram chat via the Bot API
+ */
+function createTelegramSink(botToken: string, chatId: string): AlertSink {
+  return {
+    name: 'telegram',
+    async send(notification) {
+      const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text: formatText(notification),
+          disable_web_page_preview: true,
+        }),
+        signal: AbortSignal.timeout(SINK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Telegram API responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/**
+ * Generic webhook receiving the notification as JSON
+ */
+function createWebhookSink(url: string): AlertSink {
+  return {
+    name: 'webhook',
+    async send(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...notification,
+          timestamp: new Date(notification.timestamp).toISOString(),
+          firstFiredAt: new Date(notification.firstFiredAt).toISOString(),
+        }),
+        signal: AbortSignal.timeout(SINK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Email via SMTP
+ */
+function createEmailSink(): AlertSink {
+  const port = process.env.ALERT_SMTP_PORT ? parseInt(process.env.ALERT_SMTP_PORT, 10) : 587;
+  const smtp = {
+    host: process.env.ALERT_SMTP_HOST!,
+    port,
+    secure: process.env.ALERT_SMTP_SECURE ? process.env.ALERT_SMTP_SECURE === 'true' : port === 465,
+    user: process.env.ALERT_SMTP_USER || null,
+    pass: process.env.ALERT_SMTP_PASS || null,
+    timeoutMs: SINK_TIMEOUT_MS,
+  };
+  const from = process.env.ALERT_EMAIL_FROM || '';
+  const to = (process.env.ALERT_EMAIL_TO || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0);
+
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error('ALERT_SMTP_PORT must be a port number');
+  }
+  if (!from || to.length === 0) {
+    throw new Error('ALERT_EMAIL_FROM and ALERT_EMAIL_TO are required when ALERT_SMTP_HOST is set');
+  }
+  if (Boolean(smtp.user) !== Boolean(smtp.pass)) {
+    throw new Error('ALERT_SMTP_USER and ALERT_SMTP_PASS must be set together');
+  }
+
+  return {
+    name: 'email',
+    async send(notification) {
+      await sendMail(smtp, {
+        from,
+        to,
+        subject: `[TEK] ${formatHeadline(notification)}`,
+        text: formatText(notification),
+      });
+    },
+  };
+}
+
+/**
+ * Build the sinks configured in the environment
+ */
+function buildSinks(): AlertSink[] {
+  const sinks: AlertSink[] = [];
+
+  const botToken = process.env.ALERT_TELEGRAM_BOT_TOKEN;
+  const chatId = process.env.ALERT_TELEGRAM_CHAT_ID;
+  if (botToken || chatId) {
+    if (!botToken || !chatId) {
+      throw new Error('ALERT_TELEGRAM_BOT_TOKEN and ALERT_TELEGRAM_CHAT_ID must be set together');
+    }
+    sinks.push(createTelegramSink(botToken, chatId));
+  }
+
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  if (webhookUrl) {
+    try {
+      new URL(webhookUrl);
+    } catch {
+      throw new Error('ALERT_WEBHOOK_URL is not a valid URL');
+    }
+    sinks.push(createWebhookSink(webhookUrl));
+  }
+
+  if (process.env.ALERT_SMTP_HOST) {
+    sinks.push(createEmailSink());
+  }
+
+  return sinks;
+}
+
+/**
+ * Get the configured alert sinks
+ * @throws Error if a sink is partially configured
+ */
+export function getAlertSinks(): AlertSink[] {
+  if (!cachedSinks) {
+    cachedSinks = buildSinks();
+  }
+  return cachedSinks;
+}
+
+/**
+ * Validate the alert sinks on startup
+ */
+export function validateAlertSinks(): void {
+  let sinks: AlertSink[];
+  try {
+    sinks = getAlertSinks();
+  } catch (error) {
+    throw new Error(`Invalid alert sink configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (sinks.length === 0) {
+    logger.warn('⚠️ No alert sinks configured - operator alerts are only logged');
+  } else {
+    logger.info('✅ Alert sinks validated', { sinks: sinks.map((sink) => sink.name) });
+  }
+}
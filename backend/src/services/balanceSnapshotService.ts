@@ -0,0 +1,196 @@
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { getTokenHolders, type TokenHolder } from './solanaService';
+import { getCurrentEpochInfo } from './cycleService';
+
+/**
+ * Balance Snapshot Service
+ *
+ * Records holder balances at intervals across the epoch and derives a
+ * time-weighted average balance per wallet, used as the distribution weighting
+ * (see REWARD_WEIGHTING_CONFIG).
+ *
+ * Instead of keeping every snapshot, each wallet keeps a running sum of
+ * balance × time held since the start of the averaging window. The window is
+ * the current epoch (1 UTC day); at epoch rollover each wallet starts the new
+ * window with its last known balance, so the average is already meaningful in
+ * the first cycles of the day.
+ */
+
+interface WalletBalanceRecord {
+  weighted: string; // Σ balance × ms since windowStartedAt (raw token units × ms)
+  balance: string; // Balance at the last snapshot (raw token units)
+}
+
+interface BalanceSnapshotState {
+  epoch: string | null; // Epoch of the current window
+  windowStartedAt: number | null;
+  lastSnapshotAt: number | null;
+  snapshotCount: number; // Snapshots in the current window
+  wallets: Record<string, WalletBalanceRecord>; // owner -> record
+}
+
+/**
+ * Load snapshot state from storage
+ */
+function loadState(): BalanceSnapshotState {
+  try {
+    const state = readDocument<BalanceSnapshotState>(STORAGE_KEYS.BALANCE_SNAPSHOTS);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load balance snapshots, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return {
+    epoch: null,
+    windowStartedAt: null,
+    lastSnapshotAt: null,
+    snapshotCount: 0,
+    wallets: {},
+  };
+}
+
+/**
+ * Start of an epoch (00:00 UTC) in milliseconds
+ */
+function getEpochStart(epoch: string): number {
+  return Date.parse(`${epoch}T00:00:00.000Z`);
+}
+
+/**
+ * Sum token account balances per owner (a wallet can hold several accounts)
+ */
+function sumBalancesByOwner(holders: TokenHolder[]): Map<string, bigint> {
+  const balances = new Map<string, bigint>();
+  for (const holder of holders) {
+    balances.set(holder.owner, (balances.get(holder.owner) ?? 0n) + BigInt(holder.amount));
+  }
+  return balances;
+}
+
+/**
+ * Add balance × time held up to `until` to every wallet's running sum
+ */
+function accrue(state: BalanceSnapshotState, until: number): void {
+  if (state.lastSnapshotAt === null || until <= state.lastSnapshotAt) {
+    return;
+  }
+  const elapsed = BigInt(until - state.lastSnapshotAt);
+  for (const record of Object.values(state.wallets)) {
+    record.weighted = (BigInt(record.weighted) + BigInt(record.balance) * elapsed).toString();
+  }
+}
+
+/**
+ * Record the current holder balances
+ * @param holders - Token holders to record (default: fetched via getTokenHolders)
+ */
+export async function takeBalanceSnapshot(holders?: TokenHolder[]): Promise<void> {
+  const balances = sumBalancesByOwner(holders ?? await getTokenHolders());
+  const { epoch } = getCurrentEpochInfo();
+  const now = Date.now();
+
+  const state = updateDocument<BalanceSnapshotState>(STORAGE_KEYS.BALANCE_SNAPSHOTS, (current) => {
+    const next = current ?? loadState();
+
+    if (next.epoch !== epoch) {
+      // New epoch: close the old window at the epoch boundary and carry the
+      // last known balances into the new one
+      const epochStart = getEpochStart(epoch);
+      const carried = next.lastSnapshotAt !== null && next.lastSnapshotAt < epochStart;
+
+      next.epoch = epoch;
+      next.windowStartedAt = carried ? epochStart : now;
+      next.lastSnapshotAt = carried ? epochStart : null;
+      next.snapshotCount = 0;
+      next.wallets = Object.fromEntries(
+        Object.entries(next.wallets)
+          .filter(([, record]) => carried && BigInt(record.balance) > 0n)
+          .map(([owner, record]) => [owner, { weighted: '0', balance: record.balance }])
+      );
+    }
+
+    accrue(next, now);
+
+    for (const [owner, record] of Object.entries(next.wallets)) {
+      record.balance = (balances.get(owner) ?? 0n).toString();
+      // Sold out before anything accrued - nothing to keep
+      if (record.weighted === '0' && record.balance === '0') {
+        delete next.wallets[owner];
+      }
+    }
+    for (const [owner, balance] of balances) {
+      if (!next.wallets[owner] && balance > 0n) {
+        next.wallets[owner] = { weighted: '0', balance: balance.toString() };
+      }
+    }
+
+    next.lastSnapshotAt = now;
+    next.snapshotCount++;
+    return next;
+  });
+
+  logger.debug('Balance snapshot recorded', {
+    epoch,
+    wallets: Object.keys(state.wallets).length,
+    snapshotCount: state.snapshotCount,
+    windowStartedAt: state.windowStartedAt ? new Date(state.windowStartedAt).toISOString() : null,
+  });
+}
+
+/**
+ * Get the time-weighted average balance of every wallet over the current window
+ * Balances since the last snapshot count at the last snapshot's value, so tokens
+ * bought after it do not count yet.
+ *
+ * @returns owner -> average balance (raw token units), or null when there is
+ *          no window yet (no snapshot taken in the current epoch)
+ */
+export function getTimeWeightedBalances(): Map<string, bigint> | null {
+  const state = loadState();
+  const now = Date.now();
+
+  if (
+    state.epoch !== getCurrentEpochInfo().epoch ||
+    state.windowStartedAt === null ||
+    state.lastSnapshotAt === null ||
+    now <= state.windowStartedAt
+  ) {
+    return null;
+  }
+
+  const windowMs = BigInt(now - state.windowStartedAt);
+  const sinceLastSnapshot = BigInt(Math.max(0, now - state.lastSnapshotAt));
+  const averages = new Map<string, bigint>();
+
+  for (const [owner, record] of Object.entries(state.wallets)) {
+    const weighted = BigInt(record.weighted) + BigInt(record.balance) * sinceLastSnapshot;
+    averages.set(owner, weighted / windowMs);
+  }
+
+  return averages;
+}
+
+/**
+ * Get snapshot window metadata
+ */
+export function getBalanceSnapshotMetadata(): {
+  epoch: string | null;
+  windowStartedAt: number | null;
+  lastSnapshotAt: number | null;
+  snapshotCount: number;
+  walletsTracked: number;
+} {
+  const state = loadState();
+  return {
+    epoch: state.epoch,
+    windowStartedAt: state.windowStartedAt,
+    lastSnapshotAt: state.lastSnapshotAt,
+    snapshotCount: state.snapshotCount,
+    walletsTracked: Object.keys(state.wallets).length,
+  };
+}
@@ -0,0 +1,256 @@
+import { PublicKey } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { BLACKLISTED_ADDRESSES } from '../config/blacklist';
+import { BLACKLIST_CONFIG } from '../config/constants';
+import { getRaydiumPoolAuthorities } from '../config/raydium';
+import type { TokenHolder } from './solanaService';
+import { projectScoped } from '../utils/projectContext';
+
+/**
+ * Blacklist Service
+ *
+ * Wallets excluded from rewards. Combines three sources:
+ * - static: the built-in addresses in config/blacklist.ts (cannot be removed)
+ * - manual: entries added by an admin via /admin/blacklist
+ * - auto: owners detected while scanning token holders (Raydium pool
+ *   authorities, program derived addresses, known exchange wallets)
+ *
+ * Removing an auto entry records an override so the next holder scan does not
+ * exclude the wallet again.
+ */
+
+export type BlacklistSource = 'static' | 'manual' | 'auto';
+
+export type AutoExclusionKind = 'POOL_AUTHORITY' | 'PROGRAM_DERIVED' | 'EXCHANGE';
+
+export interface BlacklistEntry {
+  address: string;
+  reason: string;
+  addedBy: string;
+  addedAt: number | null; // null for static entries
+  updatedAt: number | null;
+  source: BlacklistSource;
+  detectedAs: AutoExclusionKind | null; // Set for auto entries
+}
+
+interface BlacklistOverride {
+  removedBy: string;
+  removedAt: number;
+}
+
+interface BlacklistState {
+  entries: Record<string, BlacklistEntry>; // address -> manual/auto entry
+  overrides: Record<string, BlacklistOverride>; // address -> removal of an auto entry
+}
+
+const AUTO_REASONS: Record<AutoExclusionKind, string> = {
+  POOL_AUTHORITY: 'Raydium pool authority (liquidity pool vault owner)',
+  PROGRAM_DERIVED: 'Program derived address (no private key - pool vault or program escrow)',
+  EXCHANGE: 'Known exchange wallet',
+};
+
+// Addresses checked on every isBlacklisted() call; rebuilt on every write (per project)
+const blacklistCache = projectScoped<{ cachedAddresses: Set<string> | null }>(() => ({ cachedAddresses: null }));
+
+/**
+ * Load blacklist state from storage
+ */
+function loadState(): BlacklistState {
+  try {
+    const state = readDocument<BlacklistState>(STORAGE_KEYS.BLACKLIST);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load blacklist, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return {
+    entries: {},
+    overrides: {},
+  };
+}
+
+/**
+ * Rebuild the address cache from a state
+ */
+function refreshCache(state: BlacklistState): void {
+  blacklistCache().cachedAddresses = new Set<string>([
+    ...(BLACKLISTED_ADDRESSES as readonly string[]),
+    ...Object.keys(state.entries),
+  ]);
+}
+
+/**
+ * Check if an address is blacklisted
+ */
+export function isBlacklisted(address: string): boolean {
+  const cache = blacklistCache();
+  if (!cache.cachedAddresses) {
+    refreshCache(loadState());
+  }
+  return cache.cachedAddresses!.has(address);
+}
+
+/**
+ * Get all blacklist entries (static entries first, then newest first)
+ */
+export function getBlacklistEntries(): BlacklistEntry[] {
+  const state = loadState();
+  const staticEntries: BlacklistEntry[] = (BLACKLISTED_ADDRESSES as readonly string[]).map((address) => ({
+    address,
+    reason: 'Built-in system wallet',
+    addedBy: 'config',
+    addedAt: null,
+    updatedAt: null,
+    source: 'static',
+    detectedAs: null,
+  }));
+
+  const storedEntries = Object.values(state.entries)
+    .filter((entry) => !(BLACKLISTED_ADDRESSES as readonly string[]).includes(entry.address))
+    .sort((a, b) => (b.addedAt ?? 0) - (a.addedAt ?? 0));
+
+  return [...staticEntries, ...storedEntries];
+}
+
+/**
+ * Add (or update the reason of) a manual blacklist entry
+ * @throws Error if the address is not a valid public key
+ */
+export function addBlacklistEntry(address: string, reason: string, addedBy: string): BlacklistEntry {
+  new PublicKey(address); // Throws on an invalid address
+
+  const now = Date.now();
+  const state = updateDocument<BlacklistState>(STORAGE_KEYS.BLACKLIST, (current) => {
+    const next = current ?? loadState();
+    const existing = next.entries[address];
+
+    next.entries[address] = {
+      address,
+      reason,
+      addedBy,
+      addedAt: existing?.addedAt ?? now,
+      updatedAt: now,
+      source: 'manual',
+      detectedAs: null,
+    };
+    delete next.overrides[address];
+    return next;
+  });
+  refreshCache(state);
+
+  logger.info('Address added to blacklist', { address, reason, addedBy });
+  return state.entries[address];
+}
+
+/**
+ * Remove a manual or auto blacklist entry
+ * @returns The removed entry, or null if the address was not blacklisted
+ * @throws Error if the address is a static entry
+ */
+export function removeBlacklistEntry(address: string, removedBy: string): BlacklistEntry | null {
+  if ((BLACKLISTED_ADDRESSES as readonly string[]).includes(address)) {
+    throw new Error('Address is a built-in blacklist entry (config/blacklist.ts) and cannot be removed');
+  }
+
+  let removed: BlacklistEntry | null = null;
+  const state = updateDocument<BlacklistState>(STORAGE_KEYS.BLACKLIST, (current) => {
+    const next = current ?? loadState();
+    removed = next.entries[address] ?? null;
+
+    if (removed) {
+      delete next.entries[address];
+      if (removed.source === 'auto') {
+        next.overrides[address] = { removedBy, removedAt: Date.now() };
+      }
+    }
+    return next;
+  });
+  refreshCache(state);
+
+  if (removed) {
+    logger.info('Address removed from blacklist', { address, removedBy });
+  }
+  return removed;
+}
+
+/**
+ * Classify a token account owner that should never receive rewards
+ */
+function detectExclusion(owner: string, poolAuthorities: Set<string>): AutoExclusionKind | null {
+  if (poolAuthorities.has(owner)) {
+    return 'POOL_AUTHORITY';
+  }
+  if ((BLACKLIST_CONFIG.EXCHANGE_WALLETS as readonly string[]).includes(owner)) {
+    return 'EXCHANGE';
+  }
+  try {
+    if (!PublicKey.isOnCurve(new PublicKey(owner).toBytes())) {
+      return 'PROGRAM_DERIVED';
+    }
+  } catch {
+    // Not a valid public key - leave it to the normal eligibility checks
+  }
+  return null;
+}
+
+/**
+ * Blacklist the owners of scanned token accounts that are pools, programs or
+ * exchanges (called from getTokenHolders). Only writes when something new is found.
+ * @returns Number of newly excluded owners
+ */
+export function excludeDetectedOwners(holders: TokenHolder[]): number {
+  if (!BLACKLIST_CONFIG.AUTO_DETECT) {
+    return 0;
+  }
+
+  const state = loadState();
+  const poolAuthorities = new Set(getRaydiumPoolAuthorities().map((authority) => authority.toBase58()));
+  const detected = new Map<string, AutoExclusionKind>();
+
+  for (const holder of holders) {
+    const owner = holder.owner;
+    if (detected.has(owner) || isBlacklisted(owner) || state.overrides[owner]) {
+      continue;
+    }
+    const kind = detectExclusion(owner, poolAuthorities);
+    if (kind) {
+      detected.set(owner, kind);
+    }
+  }
+
+  if (detected.size === 0) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const next = updateDocument<BlacklistState>(STORAGE_KEYS.BLACKLIST, (current) => {
+    const updated = current ?? loadState();
+    for (const [address, kind] of detected) {
+      if (updated.entries[address] || updated.overrides[address]) {
+        continue;
+      }
+      updated.entries[address] = {
+        address,
+        reason: AUTO_REASONS[kind],
+        addedBy: 'auto-detect',
+        addedAt: now,
+        updatedAt: now,
+        source: 'auto',
+        detectedAs: kind,
+      };
+    }
+    return updated;
+  });
+  refreshCache(next);
+
+  logger.info('Excluded detected pool/program/exchange owners from rewards', {
+    count: detected.size,
+    owners: Array.from(detected, ([address, kind]) => ({ address, kind })),
+  });
+  return detected.size;
+}
@@ -0,0 +1,425 @@
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { recordCyclePayouts } from './walletLedgerService';
+import { recordEpochAllocations } from './rewardMerkleService';
+import { notifyHolderPayouts } from './holderPreferencesService';
+
+/**
+ * Cycle Journal Service
+ *
+ * Write-ahead journal for the on-chain steps of a distribution cycle:
+ * harvest → withdraw → swap batches → holder transfers → bucket transfers
+ * (treasury and the other split buckets, see config/distributionSplit).
+ * Holder transfers paid in a reward asset other than SOL are preceded by the
+ * swap that buys it (ASSET_SWAP).
+ *
+ * Each step is recorded as STARTED (with the balances or pre-signed signature
+ * needed to reconcile it) before its transaction is sent, and CONFIRMED with
+ * its signature once it lands. If the process dies mid-cycle the journal stays
+ * IN_PROGRESS and TaxService.resumeWithheldTax() continues from the last
+ * confirmed step instead of starting a fresh cycle.
+ */
+
+export type CycleStep = 'HARVEST' | 'WITHDRAW' | 'SWAP' | 'ASSET_SWAP' | 'HOLDER_TRANSFERS' | 'BUCKET_TRANSFER';
+
+export type CycleStepStatus = 'STARTED' | 'CONFIRMED' | 'FAILED';
+
+export interface CycleStepRecord {
+  step: CycleStep;
+  batchIndex?: number; // SWAP batch or BUCKET_TRANSFER bucket (0-based)
+  status: CycleStepStatus;
+  startedAt: number;
+  finishedAt: number | null;
+  signature: string | null;
+  lastValidBlockHeight: number | null; // Set for pre-signed transfers
+  data: Record<string, string>; // Step inputs/outputs (amounts as strings)
+  error?: string;
+}
+
+export interface JournaledHolderPayout {
+  pubkey: string;
+  amountLamports: string;
+  status: 'PENDING' | 'SENT' | 'CONFIRMED' | 'FAILED';
+  signature: string | null;
+  lastValidBlockHeight: number | null;
+  assetAmount?: string; // Reward asset paid (raw units) - set on CONFIRMED when not paid in SOL
+  eligibleBalance?: string; // Balance the share was based on (raw units) - absent for planned payouts of older builds
+  error?: string;
+}
+
+export interface JournaledSplitBucket {
+  name: string;
+  destination: string | null; // null for the holders bucket
+  amountLamports: string;
+}
+
+export interface JournaledAssetConversion {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  lamportsPlanned: string;
+  rentLamports: string;
+  accountsCreated: number;
+  amountReceived: string;
+  signature: string;
+}
+
+export interface CycleJournal {
+  id: string;
+  epoch: string | null;
+  cycleNumber: number | null;
+  status: 'IN_PROGRESS' | 'COMPLETED' | 'ABORTED';
+  startedAt: number;
+  updatedAt: number;
+  finishedAt: number | null;
+  resumeCount: number;
+  steps: CycleStepRecord[];
+  swapBatchAmounts: string[] | null; // null until the swap is planned
+  splitPlan: JournaledSplitBucket[] | null; // null until the swap proceeds are split
+  holderPayouts: JournaledHolderPayout[] | null; // null until payouts are planned
+  assetConversion?: JournaledAssetConversion | null; // Set once holder payout SOL is swapped into the reward asset
+  abortReason?: string;
+}
+
+interface CycleJournalState {
+  active: CycleJournal | null;
+  history: CycleJournal[]; // Finished journals, newest first
+}
+
+const MAX_JOURNAL_HISTORY = 50;
+
+/**
+ * Load journal state from storage
+ */
+function loadState(): CycleJournalState {
+  try {
+    const state = readDocument<CycleJournalState>(STORAGE_KEYS.CYCLE_JOURNAL);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load cycle journal, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return {
+    active: null,
+    history: [],
+  };
+}
+
+/**
+ * Apply a change to the active journal and persist it
+ * @throws Error if no cycle journal is active
+ */
+function updateActiveJournal(mutate: (journal: CycleJournal) => void): CycleJournal {
+  const state = updateDocument<CycleJournalState>(STORAGE_KEYS.CYCLE_JOURNAL, (current) => {
+    const next = current ?? { active: null, history: [] };
+    if (!next.active) {
+      throw new Error('No active cycle journal');
+    }
+    mutate(next.active);
+    next.active.updatedAt = Date.now();
+    return next;
+  });
+  return state.active!;
+}
+
+/**
+ * Find a step record in a journal
+ */
+export function findJournalStep(
+  journal: CycleJournal,
+  step: CycleStep,
+  batchIndex?: number
+): CycleStepRecord | undefined {
+  return journal.steps.find((s) => s.step === step && s.batchIndex === batchIndex);
+}
+
+/**
+ * Get the journal of the cycle currently in progress (or interrupted)
+ */
+export function getActiveCycleJournal(): CycleJournal | null {
+  return loadState().active;
+}
+
+/**
+ * Get finished journals, newest first
+ */
+export function getCycleJournalHistory(limit: number = MAX_JOURNAL_HISTORY): CycleJournal[] {
+  return loadState().history.slice(0, limit);
+}
+
+/**
+ * Start a journal for a new cycle
+ * @throws Error if another cycle journal is still in progress
+ */
+export function beginCycleJournal(epoch?: string, cycleNumber?: number): CycleJournal {
+  const now = Date.now();
+  const journal: CycleJournal = {
+    id: `${epoch || 'manual'}#${cycleNumber ?? 0}#${now}`,
+    epoch: epoch || null,
+    cycleNumber: cycleNumber ?? null,
+    status: 'IN_PROGRESS',
+    startedAt: now,
+    updatedAt: now,
+    finishedAt: null,
+    resumeCount: 0,
+    steps: [],
+    swapBatchAmounts: null,
+    splitPlan: null,
+    holderPayouts: null,
+  };
+
+  updateDocument<CycleJournalState>(STORAGE_KEYS.CYCLE_JOURNAL, (current) => {
+    const next = current ?? { active: null, history: [] };
+    if (next.active) {
+      throw new Error(`Cycle journal ${next.active.id} is still in progress`);
+    }
+    next.active = journal;
+    return next;
+  });
+
+  logger.debug('Cycle journal started', { journalId: journal.id });
+  return journal;
+}
+
+/**
+ * Record that a step is about to send its transaction
+ * Replaces any earlier record of the same step (e.g. a retried batch).
+ */
+export function recordStepStarted(
+  step: CycleStep,
+  data: Record<string, string> = {},
+  options: { batchIndex?: number; signature?: string; lastValidBlockHeight?: number } = {}
+): void {
+  updateActiveJournal((journal) => {
+    journal.steps = journal.steps.filter((s) => !(s.step === step && s.batchIndex === options.batchIndex));
+    journal.steps.push({
+      step,
+      batchIndex: options.batchIndex,
+      status: 'STARTED',
+      startedAt: Date.now(),
+      finishedAt: null,
+      signature: options.signature ?? null,
+      lastValidBlockHeight: options.lastValidBlockHeight ?? null,
+      data,
+    });
+  });
+}
+
+/**
+ * Record that a step's transaction landed
+ */
+export function recordStepConfirmed(
+  step: CycleStep,
+  result: { signature?: string | null; data?: Record<string, string>; batchIndex?: number } = {}
+): void {
+  const journal = updateActiveJournal((journal) => {
+    let record = findJournalStep(journal, step, result.batchIndex);
+    if (!record) {
+      record = {
+        step,
+        batchIndex: result.batchIndex,
+        status: 'STARTED',
+        startedAt: Date.now(),
+        finishedAt: null,
+        signature: null,
+        lastValidBlockHeight: null,
+        data: {},
+      };
+      journal.steps.push(record);
+    }
+    record.status = 'CONFIRMED';
+    record.finishedAt = Date.now();
+    record.signature = result.signature ?? record.signature;
+    record.data = { ...record.data, ...result.data };
+  });
+
+  logger.info('Cycle step confirmed', {
+    journalId: journal.id,
+    step,
+    batchIndex: result.batchIndex,
+    signature: result.signature ?? undefined,
+  });
+}
+
+/**
+ * Record that a step failed (its transaction did not land)
+ */
+export function recordStepFailed(step: CycleStep, error: string, batchIndex?: number): void {
+  updateActiveJournal((journal) => {
+    const record = findJournalStep(journal, step, batchIndex);
+    if (record) {
+      record.status = 'FAILED';
+      record.finishedAt = Date.now();
+      record.error = error;
+    }
+  });
+}
+
+/**
+ * Record the swap batch amounts before the first batch is sent
+ * Kept in the journal because the batch decision can depend on the token price.
+ */
+export function recordSwapPlan(batchAmounts: bigint[]): void {
+  updateActiveJournal((journal) => {
+    journal.swapBatchAmounts = batchAmounts.map((amount) => amount.toString());
+  });
+}
+
+/**
+ * Record how the swap proceeds are split before any transfer is sent
+ * Kept in the journal so a resumed cycle uses the same amounts even if the
+ * split configuration changed in between.
+ */
+export function recordSplitPlan(allocations: Array<{ name: string; destination: string | null; amountLamports: bigint }>): void {
+  updateActiveJournal((journal) => {
+    journal.splitPlan = allocations.map((allocation) => ({
+      name: allocation.name,
+      destination: allocation.destination,
+      amountLamports: allocation.amountLamports.toString(),
+    }));
+  });
+}
+
+/**
+ * Record the holder payout list before any holder transfer is sent
+ * Payouts are keyed by wallet, so each wallet may only be listed once.
+ * @throws Error if a wallet is listed twice
+ */
+export function recordHolderPayoutsPlanned(
+  payouts: Array<{ pubkey: string; amountLamports: bigint; eligibleBalance?: bigint }>
+): void {
+  const wallets = new Set(payouts.map((payout) => payout.pubkey));
+  if (wallets.size < payouts.length) {
+    throw new Error(`Holder payout list repeats ${payouts.length - wallets.size} wallet(s)`);
+  }
+
+  updateActiveJournal((journal) => {
+    journal.holderPayouts = payouts.map((payout) => ({
+      pubkey: payout.pubkey,
+      amountLamports: payout.amountLamports.toString(),
+      status: 'PENDING',
+      signature: null,
+      lastValidBlockHeight: null,
+      ...(payout.eligibleBalance !== undefined ? { eligibleBalance: payout.eligibleBalance.toString() } : {}),
+    }));
+  });
+}
+
+/**
+ * Record the swap of the holder payouts into the reward asset
+ * A resumed cycle pays its remaining payouts from this purchase instead of swapping again.
+ */
+export function recordAssetConversion(conversion: {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  lamportsPlanned: bigint;
+  rentLamports: bigint;
+  accountsCreated: number;
+  amountReceived: bigint;
+  signature: string;
+}): void {
+  updateActiveJournal((journal) => {
+    journal.assetConversion = {
+      ...conversion,
+      lamportsPlanned: conversion.lamportsPlanned.toString(),
+      rentLamports: conversion.rentLamports.toString(),
+      amountReceived: conversion.amountReceived.toString(),
+    };
+  });
+}
+
+/**
+ * Update journaled holder payouts in one write
+ * Every write rewrites the whole journal, so callers pass all the payouts of a
+ * transaction at once instead of updating them one by one.
+ */
+export function updateHolderPayouts(
+  updates: Array<{ pubkey: string; update: Partial<Omit<JournaledHolderPayout, 'pubkey' | 'amountLamports'>> }>
+): void {
+  if (updates.length === 0) {
+    return;
+  }
+
+  updateActiveJournal((journal) => {
+    const payouts = new Map((journal.holderPayouts ?? []).map((payout) => [payout.pubkey, payout]));
+    for (const { pubkey, update } of updates) {
+      const payout = payouts.get(pubkey);
+      if (payout) {
+        Object.assign(payout, update);
+      }
+    }
+  });
+}
+
+/**
+ * Count a resume attempt on the active journal
+ * @returns Updated journal
+ */
+export function markCycleJournalResumed(): CycleJournal {
+  return updateActiveJournal((journal) => {
+    journal.resumeCount++;
+  });
+}
+
+/**
+ * Close the active journal and move it to history
+ */
+export function finishCycleJournal(status: 'COMPLETED' | 'ABORTED', reason?: string): void {
+  let finished: CycleJournal | null = null;
+
+  updateDocument<CycleJournalState>(STORAGE_KEYS.CYCLE_JOURNAL, (current) => {
+    const next = current ?? { active: null, history: [] };
+    if (!next.active) {
+      return next;
+    }
+
+    finished = next.active;
+    finished.status = status;
+    finished.finishedAt = Date.now();
+    finished.updatedAt = finished.finishedAt;
+    if (reason) {
+      finished.abortReason = reason;
+    }
+
+    next.history = [finished, ...next.history].slice(0, MAX_JOURNAL_HISTORY);
+    next.active = null;
+    return next;
+  });
+
+  if (finished) {
+    const journal: CycleJournal = finished;
+    logger.info('Cycle journal closed', {
+      journalId: journal.id,
+      status,
+      reason,
+      resumeCount: journal.resumeCount,
+    });
+
+    if (journal.holderPayouts) {
+      recordCyclePayouts(
+        { journalId: journal.id, epoch: journal.epoch, cycleNumber: journal.cycleNumber },
+        journal.holderPayouts
+      );
+      recordEpochAllocations({ journalId: journal.id, epoch: journal.epoch }, journal.holderPayouts);
+      notifyHolderPayouts(journal.holderPayouts
+        .filter((payout) => payout.status === 'CONFIRMED' && payout.signature)
+        .map((payout) => ({
+          id: journal.id,
+          pubkey: payout.pubkey,
+          amountLamports: payout.amountLamports,
+          asset: journal.assetConversion && payout.assetAmount
+            ? { symbol: journal.assetConversion.symbol, decimals: journal.assetConversion.decimals, amount: payout.assetAmount }
+            : undefined,
+          signature: payout.signature!,
+          epoch: journal.epoch,
+          cycleNumber: journal.cycleNumber,
+          source: 'cycle' as const,
+        })));
+    }
+  }
+}
@@ -1,6 +1,5 @@
 import { logger } from '../utils/logger';
-import * as fs from 'fs';
-import * as path from 'path';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
 
 /**
  * Cycle State
@@ -10,6 +9,8 @@ export enum CycleState {
   DISTRIBUTED = 'DISTRIBUTED', // Successful harvest + distribution
   ROLLED_OVER = 'ROLLED_OVER', // Minimum tax not met, carry tax forward
   FAILED = 'FAILED', // Unexpected error, safe to retry next cycle
+  PARTIAL = 'PARTIAL', // Tax withdrawn but a later step failed, resumed from the cycle journal next run
+  RESUMED = 'RESUMED', // Interrupted cycle completed from the cycle journal
 }
 
 /**
@@ -21,13 +22,20 @@ export interface CycleResult {
   cycleNumber: number; // 1-288
   state: CycleState;
   timestamp: number; // Unix timestamp in milliseconds
-  error?: string; // Error message if FAILED
+  error?: string; // Error message if FAILED or PARTIAL
+  journalId?: string; // Cycle journal of the on-chain steps (PARTIAL and RESUMED)
   taxResult?: {
     harvested: string; // TEK amount harvested (in raw token units)
     solToHolders: string;
     solToTreasury: string;
     distributedCount: number;
     swapSignature?: string;
+    split?: Array<{
+      name: string; // Split bucket (holders, treasury, ...)
+      destination: string | null; // null for the holders bucket
+      amountSOL: string;
+      signature?: string; // Bucket transfer signature
+    }>;
   };
 }
 
@@ -52,47 +60,13 @@ interface CycleServiceState {
   lastCycleTimestamp: number | null; // Last cycle execution timestamp
 }
 
-/**
- * Get state file path - uses persistent storage if available, falls back to local
- */
-function getStateFilePath(): string {
-  const persistentPath = '/data/cycle-state.json';
-  const localPath = path.join(process.cwd(), 'cycle-state.json');
-  
-  try {
-    // Check if /data directory exists and is writable
-    if (fs.existsSync('/data')) {
-      fs.accessSync('/data', fs.constants.W_OK);
-      logger.info('Using persistent storage', { path: persistentPath });
-      return persistentPath;
-    }
-  } catch (error) {
-    // /data doesn't exist or not writable, use local
-    logger.info('Persistent storage not available, using local directory', {
-      path: localPath,
-      error: error instanceof Error ? error.message : String(error),
-    });
-  }
-  
-  return localPath;
-}
-
-// Always use project directory for now (persistent storage disabled temporarily)
-const STATE_FILE_PATH = getStateFilePath();
-
 const CYCLE_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
-const CYCLES_PER_EPOCH = 288; // 24 hours * 60 minutes / 5 minutes
-
-// Log the state file path on startup
-logger.info('Cycle Service initialized', {
-  stateFilePath: STATE_FILE_PATH,
-  nodeEnv: process.env.NODE_ENV || 'not set',
-});
+export const CYCLES_PER_EPOCH = 288; // 24 hours * 60 minutes / 5 minutes
 
 /**
  * Get current UTC date string (YYYY-MM-DD)
  */
-function getCurrentEpoch(): string {
+export function getCurrentEpoch(): string {
   const now = new Date();
   const year = now.getUTCFullYear();
   const month = String(now.getUTCMonth() + 1).padStart(2, '0');
@@ -126,13 +100,13 @@ function shouldResetEpoch(currentEpoch: string | null): boolean {
 }
 
 /**
- * Load cycle service state from file
+ * Load cycle service state from storage
  */
 function loadCycleState(): CycleServiceState {
   try {
-    if (fs.existsSync(STATE_FILE_PATH)) {
-      const data = fs.readFileSync(STATE_FILE_PATH, 'utf-8');
-      return JSON.parse(data);
+    const state = readDocument<CycleServiceState>(STORAGE_KEYS.CYCLE_STATE);
+    if (state) {
+      return state;
     }
   } catch (error) {
     logger.warn('Failed to load cycle state, using defaults', {
@@ -149,17 +123,11 @@ function loadCycleState(): CycleServiceState {
 }
 
 /**
- * Save cycle service state to file
+ * Save cycle service state to storage
  */
 function saveCycleState(state: CycleServiceState): void {
   try {
-    // Ensure directory exists
-    const dir = path.dirname(STATE_FILE_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    fs.writeFileSync(STATE_FILE_PATH, JSON.stringify(state, null, 2), 'utf-8');
+    writeDocument<CycleServiceState>(STORAGE_KEYS.CYCLE_STATE, state);
   } catch (error) {
     logger.error('Failed to save cycle state', {
       error: error instanceof Error ? error.message : String(error),
@@ -312,6 +280,38 @@ export function getCurrentEpochInfo(): {
   };
 }
 
+/**
+ * Get the most recent cycle that did not fail (DISTRIBUTED, ROLLED_OVER or RESUMED)
+ */
+export function getLastSuccessfulCycle(): CycleResult | null {
+  const state = loadCycleState();
+  let latest: CycleResult | null = null;
+
+  for (const epochState of Object.values(state.epochs)) {
+    for (const cycle of epochState.cycles) {
+      if (cycle.state === CycleState.FAILED || cycle.state === CycleState.PARTIAL) {
+        continue;
+      }
+      if (!latest || cycle.timestamp > latest.timestamp) {
+        latest = cycle;
+      }
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Get the most recent cycles across epochs, newest first
+ */
+export function getRecentCycles(limit: number): CycleResult[] {
+  const state = loadCycleState();
+  return Object.values(state.epochs)
+    .flatMap((epochState) => epochState.cycles)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit);
+}
+
 /**
  * Get epoch state
  */
@@ -330,6 +330,16 @@ export function getAllEpochStates(): EpochState[] {
   );
 }
 
+/**
+ * Sequential number of an epoch (1 for the oldest recorded epoch)
+ * @returns Epoch number, or null if the epoch has no recorded cycles
+ */
+export function getEpochNumber(epoch: string): number | null {
+  const state = loadCycleState();
+  const index = Object.keys(state.epochs).sort().indexOf(epoch);
+  return index >= 0 ? index + 1 : null;
+}
+
 /**
  * Get cycle statistics for an epoch
  */
@@ -339,6 +349,8 @@ export function getEpochStatistics(epoch: string): {
   distributed: number;
   rolledOver: number;
   failed: number;
+  partial: number;
+  resumed: number;
   cycles: CycleResult[];
 } {
   const epochState = getEpochState(epoch);
@@ -350,6 +362,8 @@ export function getEpochStatistics(epoch: string): {
       distributed: 0,
       rolledOver: 0,
       failed: 0,
+      partial: 0,
+      resumed: 0,
       cycles: [],
     };
   }
@@ -357,6 +371,8 @@ export function getEpochStatistics(epoch: string): {
   const distributed = epochState.cycles.filter(c => c.state === CycleState.DISTRIBUTED).length;
   const rolledOver = epochState.cycles.filter(c => c.state === CycleState.ROLLED_OVER).length;
   const failed = epochState.cycles.filter(c => c.state === CycleState.FAILED).length;
+  const partial = epochState.cycles.filter(c => c.state === CycleState.PARTIAL).length;
+  const resumed = epochState.cycles.filter(c => c.state === CycleState.RESUMED).length;
 
   return {
     epoch,
@@ -364,6 +380,8 @@ export function getEpochStatistics(epoch: string): {
     distributed,
     rolledOver,
     failed,
+    partial,
+    resumed,
     cycles: epochState.cycles,
   };
 }
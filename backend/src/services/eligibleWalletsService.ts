@@ -1,10 +1,10 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { logger } from '../utils/logger';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
 import { getTokenHolders, type TokenHolder } from './solanaService';
-import { isBlacklisted } from '../config/blacklist';
+import { isBlacklisted } from './blacklistService';
 import { getNUKEPriceSOL } from './priceService';
-import { REWARD_CONFIG } from '../config/constants';
+import { recordWalletScan, type WalletScanResult } from './walletLedgerService';
+import { getActiveProject, projectScoped } from '../utils/projectContext';
 
 /**
  * Data structure for eligible wallets storage
@@ -17,53 +17,71 @@ interface EligibleWalletsState {
   eligibleCount: number; // Count of eligible wallets (for logging)
 }
 
-const STORAGE_FILE_PATH = path.join(process.cwd(), 'eligible-wallets.json');
-
 /**
- * Cache for eligible wallets in memory (to avoid reading file repeatedly)
+ * Cache for eligible wallets in memory (to avoid reading storage repeatedly), per project
  */
-let cachedEligibleWallets: Set<string> | null = null;
-let cacheTimestamp: number = 0;
+const eligibleWalletsCache = projectScoped<{ cachedEligibleWallets: Set<string> | null; cacheTimestamp: number }>(() => ({
+  cachedEligibleWallets: null,
+  cacheTimestamp: 0,
+}));
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache
 
+/**
+ * Narrow a stored value to a list of wallet addresses, dropping anything that is not one
+ * @returns null if it is not an array
+ */
+function asWalletList(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((wallet): wallet is string => typeof wallet === 'string') : null;
+}
+
+/**
+ * Narrow a stored value to a number
+ * @returns 0 if it is anything else
+ */
+function asNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
 /**
  * Load eligible wallets state from persistent storage
  * @returns EligibleWalletsState object
  */
 function loadState(): EligibleWalletsState {
   try {
-    if (fs.existsSync(STORAGE_FILE_PATH)) {
-      const data = fs.readFileSync(STORAGE_FILE_PATH, 'utf-8');
-      const parsed = JSON.parse(data);
-      
-      // Validate structure
-      if (typeof parsed === 'object' && parsed !== null) {
-        // Handle both old format (direct array) and new format (with metadata)
-        if (Array.isArray(parsed)) {
-          // Legacy format: migrate to new format
-          logger.warn('Migrating legacy eligible wallets format', {
-            file: STORAGE_FILE_PATH,
-          });
-          return {
-            eligibleWallets: parsed,
-            lastUpdated: Date.now(),
-            totalHolders: 0,
-            eligibleCount: parsed.length,
-          };
-        } else if (Array.isArray(parsed.eligibleWallets)) {
-          return {
-            eligibleWallets: parsed.eligibleWallets || [],
-            lastUpdated: parsed.lastUpdated || Date.now(),
-            totalHolders: parsed.totalHolders || 0,
-            eligibleCount: parsed.eligibleCount || (parsed.eligibleWallets?.length || 0),
-          };
-        }
+    const parsed = readDocument<unknown>(STORAGE_KEYS.ELIGIBLE_WALLETS);
+    
+    // Validate structure
+    if (typeof parsed === 'object' && parsed !== null) {
+      // Handle both old format (direct array) and new format (with metadata)
+      const legacyWallets = asWalletList(parsed);
+      if (legacyWallets) {
+        // Legacy format: migrate to new format
+        logger.warn('Migrating legacy eligible wallets format', {
+          key: STORAGE_KEYS.ELIGIBLE_WALLETS,
+        });
+        return {
+          eligibleWallets: legacyWallets,
+          lastUpdated: Date.now(),
+          totalHolders: 0,
+          eligibleCount: legacyWallets.length,
+        };
+      }
+
+      const state = parsed as Record<string, unknown>;
+      const eligibleWallets = asWalletList(state.eligibleWallets);
+      if (eligibleWallets) {
+        return {
+          eligibleWallets,
+          lastUpdated: asNumber(state.lastUpdated) || Date.now(),
+          totalHolders: asNumber(state.totalHolders),
+          eligibleCount: asNumber(state.eligibleCount) || eligibleWallets.length,
+        };
       }
     }
   } catch (error) {
     logger.warn('Failed to load eligible wallets state, using defaults', {
       error: error instanceof Error ? error.message : String(error),
-      file: STORAGE_FILE_PATH,
+      key: STORAGE_KEYS.ELIGIBLE_WALLETS,
     });
   }
   
@@ -81,33 +99,24 @@ function loadState(): EligibleWalletsState {
  * @param state - EligibleWalletsState object to save
  */
 function saveState(state: EligibleWalletsState): void {
+  const cache = eligibleWalletsCache();
   try {
-    // Ensure directory exists
-    const dir = path.dirname(STORAGE_FILE_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    
-    // Write to temporary file first, then rename (atomic operation)
-    const tempPath = `${STORAGE_FILE_PATH}.tmp`;
-    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf-8');
-    
-    // Rename temp file to actual file (atomic on most filesystems)
-    fs.renameSync(tempPath, STORAGE_FILE_PATH);
+    // Storage backend writes atomically
+    writeDocument<EligibleWalletsState>(STORAGE_KEYS.ELIGIBLE_WALLETS, state);
     
     // Clear cache
-    cachedEligibleWallets = null;
-    cacheTimestamp = 0;
+    cache.cachedEligibleWallets = null;
+    cache.cacheTimestamp = 0;
     
     logger.debug('Eligible wallets state saved', {
-      file: STORAGE_FILE_PATH,
+      key: STORAGE_KEYS.ELIGIBLE_WALLETS,
       walletsCount: state.eligibleWallets.length,
       lastUpdated: new Date(state.lastUpdated).toISOString(),
     });
   } catch (error) {
     logger.error('Failed to save eligible wallets state', {
       error: error instanceof Error ? error.message : String(error),
-      file: STORAGE_FILE_PATH,
+      key: STORAGE_KEYS.ELIGIBLE_WALLETS,
     });
     throw error;
   }
@@ -128,10 +137,12 @@ async function calculateHoldingSOL(amount: string, decimals: number, tokenPriceS
  * - Not blacklisted
  * - Holding value >= MIN_HOLDING_SOL (converted from MIN_HOLDING_USD)
  * 
- * @param minHoldingUSD - Minimum holding value in USD (defaults to REWARD_CONFIG.MIN_HOLDING_USD)
+ * @param minHoldingUSD - Minimum holding value in USD (defaults to the active project's threshold)
  * @returns Updated eligible wallets count
  */
-export async function updateEligibleWallets(minHoldingUSD: number = REWARD_CONFIG.MIN_HOLDING_USD): Promise<number> {
+export async function updateEligibleWallets(
+  minHoldingUSD: number = getActiveProject().thresholds.minHoldingUSD
+): Promise<number> {
   try {
     logger.info('Updating eligible wallets list', {
       minHoldingUSD,
@@ -164,6 +175,7 @@ export async function updateEligibleWallets(minHoldingUSD: number = REWARD_CONFI
     // Get all token holders
     const allHolders = await getTokenHolders();
     const eligibleWallets: string[] = [];
+    const scanResults = new Map<string, WalletScanResult>(); // Per owner, for the wallet ledger
     
     // Convert MIN_HOLDING_USD to SOL for comparison (using fixed devnet rate)
     const SOL_TO_USD_RATE = 100; // Devnet conversion rate
@@ -171,17 +183,32 @@ export async function updateEligibleWallets(minHoldingUSD: number = REWARD_CONFI
     
     // Apply eligibility criteria
     for (const holder of allHolders) {
+      const scanResult: WalletScanResult = scanResults.get(holder.owner) ?? {
+        owner: holder.owner,
+        balance: 0n,
+        status: 'excluded',
+        reason: 'BELOW_MIN_HOLDING',
+        holdingSOL: null,
+      };
+      scanResult.balance += BigInt(holder.amount);
+      scanResults.set(holder.owner, scanResult);
+
       // Skip blacklisted addresses
       if (isBlacklisted(holder.owner)) {
+        scanResult.status = 'blacklisted';
+        scanResult.reason = 'BLACKLISTED';
         continue;
       }
       
       // Calculate SOL value using Raydium price
       const holdingSOL = await calculateHoldingSOL(holder.amount, holder.decimals, tokenPriceSOL);
+      scanResult.holdingSOL = Math.max(scanResult.holdingSOL ?? 0, holdingSOL);
       
       // Check if eligible (holding >= minimum threshold)
       if (holdingSOL >= minHoldingSOL) {
         eligibleWallets.push(holder.owner);
+        scanResult.status = 'eligible';
+        scanResult.reason = 'MEETS_MIN_HOLDING';
       }
     }
     
@@ -194,6 +221,7 @@ export async function updateEligibleWallets(minHoldingUSD: number = REWARD_CONFI
     };
     
     saveState(state);
+    recordWalletScan(Array.from(scanResults.values()), minHoldingSOL, allHolders[0]?.decimals ?? null);
     
     logger.info('Eligible wallets list updated', {
       totalHolders: allHolders.length,
@@ -220,19 +248,20 @@ export async function updateEligibleWallets(minHoldingUSD: number = REWARD_CONFI
  * @returns Set of eligible wallet addresses
  */
 export function getEligibleWallets(): Set<string> {
+  const cache = eligibleWalletsCache();
   // Check cache first
   const now = Date.now();
-  if (cachedEligibleWallets && (now - cacheTimestamp) < CACHE_TTL) {
-    return cachedEligibleWallets;
+  if (cache.cachedEligibleWallets && (now - cache.cacheTimestamp) < CACHE_TTL) {
+    return cache.cachedEligibleWallets;
   }
   
-  // Load from file
+  // Load from storage
   const state = loadState();
   const walletsSet = new Set<string>(state.eligibleWallets);
   
   // Update cache
-  cachedEligibleWallets = walletsSet;
-  cacheTimestamp = now;
+  cache.cachedEligibleWallets = walletsSet;
+  cache.cacheTimestamp = now;
   
   return walletsSet;
 }
@@ -0,0 +1,353 @@
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { connection } from '../config/solana';
+import { getRaydiumPoolId } from '../config/raydium';
+import { getDistributionSplit } from '../config/distributionSplit';
+import { HEALTH_CONFIG } from '../config/constants';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { getActiveProject } from '../utils/projectContext';
+import { logger } from '../utils/logger';
+import { getLastSuccessfulCycle } from './cycleService';
+import { getEligibleWalletsMetadata } from './eligibleWalletsService';
+import { getSchedulerControlState } from '../scheduler/rewardScheduler';
+
+/**
+ * Health Service
+ *
+ * Actively probes the components the reward system depends on and keeps a
+ * short in-memory history of each component's results. Checks run in the
+ * background every HEALTH_CONFIG.CHECK_INTERVAL_MS and on demand when the
+ * latest results are older than that.
+ */
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  message: string;
+  checkedAt: number;
+  latencyMs: number | null; // Time the probe took
+  details: Record<string, unknown>;
+}
+
+export interface ComponentHealth extends HealthCheckResult {
+  id: string;
+  name: string;
+  history: Array<Pick<HealthCheckResult, 'status' | 'message' | 'checkedAt' | 'latencyMs'>>; // Oldest first
+}
+
+export interface SystemHealth {
+  status: HealthStatus; // Worst status of all components
+  checkedAt: number | null;
+  components: ComponentHealth[];
+}
+
+type ProbeResult = Omit<HealthCheckResult, 'checkedAt' | 'latencyMs'>;
+
+interface ComponentProbe {
+  id: string;
+  name: string;
+  probe: () => Promise<ProbeResult>;
+}
+
+export const HEARTBEAT_SERVICES = ['telegram-bot'] as const;
+export type HeartbeatService = typeof HEARTBEAT_SERVICES[number];
+
+const HISTORY_SIZE = 60;
+const PROBE_TIMEOUT_MS = 10000;
+const STATUS_ORDER: HealthStatus[] = ['healthy', 'unknown', 'degraded', 'down'];
+
+const components = new Map<string, ComponentHealth>();
+const heartbeats = new Map<HeartbeatService, { receivedAt: number; details: Record<string, unknown> }>();
+let lastCheckAt: number | null = null;
+let pendingCheck: Promise<void> | null = null;
+let monitorInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Format a duration for status messages
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 120 ? `${minutes}m` : `${(ms / 3600000).toFixed(1)}h`;
+}
+
+/**
+ * RPC latency and how far its latest block is behind wall-clock time
+ */
+async function probeRpc(): Promise<ProbeResult> {
+  const startedAt = Date.now();
+  const slot = await connection.getSlot('confirmed');
+  const latencyMs = Date.now() - startedAt;
+  const blockTime = await connection.getBlockTime(slot).catch(() => null);
+  const slotLagSeconds = blockTime !== null ? Math.max(0, Math.round(Date.now() / 1000 - blockTime)) : null;
+
+  let status: HealthStatus = 'healthy';
+  let message = `Slot ${slot} in ${latencyMs}ms`;
+  if (slotLagSeconds !== null && slotLagSeconds > HEALTH_CONFIG.SLOT_LAG_DEGRADED_SECONDS * 5) {
+    status = 'down';
+    message = `Latest block is ${slotLagSeconds}s old`;
+  } else if (slotLagSeconds !== null && slotLagSeconds > HEALTH_CONFIG.SLOT_LAG_DEGRADED_SECONDS) {
+    status = 'degraded';
+    message = `Latest block is ${slotLagSeconds}s old`;
+  } else if (latencyMs > HEALTH_CONFIG.RPC_LATENCY_DEGRADED_MS) {
+    status = 'degraded';
+    message = `Slow RPC response (${latencyMs}ms)`;
+  }
+
+  return { status, message, details: { slot, rpcLatencyMs: latencyMs, slotLagSeconds } };
+}
+
+/**
+ * Raydium pool info API reachability
+ */
+async function probeRaydiumApi(): Promise<ProbeResult> {
+  const poolId = getRaydiumPoolId();
+  if (!poolId) {
+    return { status: 'unknown', message: 'RAYDIUM_POOL_ID not set', details: {} };
+  }
+
+  const response = await fetch(`https://api-v3-devnet.raydium.io/pools/info/ids?ids=${poolId.toBase58()}`);
+  if (!response.ok) {
+    return { status: 'down', message: `Raydium API returned HTTP ${response.status}`, details: { httpStatus: response.status } };
+  }
+  const body = await response.json() as { success?: boolean; data?: unknown[] };
+  if (!body.success || !Array.isArray(body.data) || body.data.length === 0) {
+    return { status: 'degraded', message: 'Raydium API returned no pool data', details: { poolId: poolId.toBase58() } };
+  }
+  return { status: 'healthy', message: 'Pool info available', details: { poolId: poolId.toBase58() } };
+}
+
+/**
+ * SOL balance of the wallet that pays holders
+ */
+async function probeRewardWallet(): Promise<ProbeResult> {
+  const address = loadKeypairFromEnv(getActiveProject().rewardWalletEnv).publicKey;
+  const balanceSOL = (await connection.getBalance(address, 'confirmed')) / LAMPORTS_PER_SOL;
+
+  const low = balanceSOL < HEALTH_CONFIG.REWARD_WALLET_MIN_SOL;
+  return {
+    status: balanceSOL === 0 ? 'down' : low ? 'degraded' : 'healthy',
+    message: low
+      ? `Balance ${balanceSOL.toFixed(4)} SOL is below ${HEALTH_CONFIG.REWARD_WALLET_MIN_SOL} SOL`
+      : `Balance ${balanceSOL.toFixed(4)} SOL`,
+    details: { address: address.toBase58(), balanceSOL, minimumSOL: HEALTH_CONFIG.REWARD_WALLET_MIN_SOL },
+  };
+}
+
+/**
+ * SOL balance of the treasury bucket's destination (informational)
+ */
+async function probeTreasuryWallet(): Promise<ProbeResult> {
+  const treasury = getDistributionSplit().find((bucket) => bucket.name === 'treasury');
+  if (!treasury?.destination) {
+    return { status: 'unknown', message: 'No treasury bucket in the distribution split', details: {} };
+  }
+
+  const balanceSOL = (await connection.getBalance(new PublicKey(treasury.destination), 'confirmed')) / LAMPORTS_PER_SOL;
+  return {
+    status: 'healthy',
+    message: `Balance ${balanceSOL.toFixed(4)} SOL`,
+    details: { address: treasury.destination, balanceSOL },
+  };
+}
+
+/**
+ * Age of the last cycle that did not fail
+ */
+async function probeDistributionEngine(): Promise<ProbeResult> {
+  const control = getSchedulerControlState();
+  const lastCycle = getLastSuccessfulCycle();
+  const ageMs = lastCycle ? Date.now() - lastCycle.timestamp : null;
+  const details = {
+    lastSuccessfulCycle: lastCycle
+      ? { epoch: lastCycle.epoch, cycleNumber: lastCycle.cycleNumber, state: lastCycle.state, timestamp: lastCycle.timestamp }
+      : null,
+    ageMs,
+    paused: control.paused,
+  };
+
+  if (control.paused) {
+    return { status: 'degraded', message: `Scheduler paused by ${control.pausedBy}${control.pauseReason ? `: ${control.pauseReason}` : ''}`, details };
+  }
+  if (ageMs === null) {
+    return { status: 'unknown', message: 'No successful cycle recorded yet', details };
+  }
+  if (ageMs > HEALTH_CONFIG.CYCLE_STALE_MS * 4) {
+    return { status: 'down', message: `Last successful cycle ${formatAge(ageMs)} ago`, details };
+  }
+  if (ageMs > HEALTH_CONFIG.CYCLE_STALE_MS) {
+    return { status: 'degraded', message: `Last successful cycle ${formatAge(ageMs)} ago`, details };
+  }
+  return { status: 'healthy', message: `Last cycle ${lastCycle!.state} ${formatAge(ageMs)} ago`, details };
+}
+
+/**
+ * Age of the eligible wallets list
+ */
+async function probeEligibleWallets(): Promise<ProbeResult> {
+  const metadata = getEligibleWalletsMetadata();
+  if (metadata.lastUpdated === null) {
+    return { status: 'unknown', message: 'Eligible wallets list not built yet', details: metadata };
+  }
+
+  const ageMs = Date.now() - metadata.lastUpdated;
+  return {
+    status: ageMs > HEALTH_CONFIG.ELIGIBLE_WALLETS_STALE_MS ? 'degraded' : 'healthy',
+    message: `${metadata.count} eligible wallets, updated ${formatAge(ageMs)} ago`,
+    details: { ...metadata, ageMs },
+  };
+}
+
+/**
+ * Time since the Telegram bot's last heartbeat
+ */
+async function probeTelegramBot(): Promise<ProbeResult> {
+  if (!HEALTH_CONFIG.HEARTBEAT_TOKEN) {
+    return { status: 'unknown', message: 'HEALTH_HEARTBEAT_TOKEN not set', details: {} };
+  }
+
+  const heartbeat = heartbeats.get('telegram-bot');
+  if (!heartbeat) {
+    return { status: 'unknown', message: 'No heartbeat received since startup', details: {} };
+  }
+
+  const ageMs = Date.now() - heartbeat.receivedAt;
+  return {
+    status: ageMs > HEALTH_CONFIG.HEARTBEAT_STALE_MS ? 'down' : 'healthy',
+    message: `Last heartbeat ${Math.round(ageMs / 1000)}s ago`,
+    details: { ...heartbeat.details, lastHeartbeatAt: heartbeat.receivedAt, ageMs },
+  };
+}
+
+const PROBES: ComponentProbe[] = [
+  { id: 'rpc', name: 'Solana RPC', probe: probeRpc },
+  { id: 'raydium-api', name: 'Raydium API', probe: probeRaydiumApi },
+  { id: 'reward-wallet', name: 'Reward wallet', probe: probeRewardWallet },
+  { id: 'treasury-wallet', name: 'Treasury wallet', probe: probeTreasuryWallet },
+  { id: 'distribution-engine', name: 'Distribution engine', probe: probeDistributionEngine },
+  { id: 'eligible-wallets', name: 'Eligible wallets list', probe: probeEligibleWallets },
+  { id: 'telegram-bot', name: 'Telegram bot', probe: probeTelegramBot },
+];
+
+/**
+ * Run one probe with a timeout; a thrown error or timeout marks the component down
+ */
+async function runProbe({ probe }: ComponentProbe): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  let timeout: NodeJS.Timeout | undefined;
+  try {
+    const result = await Promise.race([
+      probe(),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error(`Timed out after ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS);
+      }),
+    ]);
+    return { ...result, checkedAt: startedAt, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'down',
+      message: error instanceof Error ? error.message : String(error),
+      checkedAt: startedAt,
+      latencyMs: Date.now() - startedAt,
+      details: {},
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Probe every component and append the results to their history
+ */
+export async function runHealthChecks(): Promise<void> {
+  if (pendingCheck) {
+    return pendingCheck;
+  }
+
+  pendingCheck = (async () => {
+    const results = await Promise.all(PROBES.map(runProbe));
+
+    PROBES.forEach((component, index) => {
+      const result = results[index];
+      const previous = components.get(component.id);
+      const history = [
+        ...(previous?.history ?? []),
+        { status: result.status, message: result.message, checkedAt: result.checkedAt, latencyMs: result.latencyMs },
+      ].slice(-HISTORY_SIZE);
+
+      if (previous && previous.status !== result.status) {
+        const log = result.status === 'healthy' ? logger.info : logger.warn;
+        log('Component health changed', {
+          component: component.id,
+          from: previous.status,
+          to: result.status,
+          message: result.message,
+        });
+      }
+
+      components.set(component.id, { id: component.id, name: component.name, ...result, history });
+    });
+
+    lastCheckAt = Date.now();
+  })();
+
+  try {
+    await pendingCheck;
+  } finally {
+    pendingCheck = null;
+  }
+}
+
+/**
+ * Get the health of every component, probing first if the results are stale
+ */
+export async function getSystemHealth(): Promise<SystemHealth> {
+  if (lastCheckAt === null || Date.now() - lastCheckAt >= HEALTH_CONFIG.CHECK_INTERVAL_MS) {
+    await runHealthChecks();
+  }
+
+  const list = PROBES
+    .map((component) => components.get(component.id))
+    .filter((component): component is ComponentHealth => component !== undefined);
+
+  const status = list.reduce<HealthStatus>(
+    (worst, component) => STATUS_ORDER.indexOf(component.status) > STATUS_ORDER.indexOf(worst) ? component.status : worst,
+    'healthy'
+  );
+
+  return { status, checkedAt: lastCheckAt, components: list };
+}
+
+/**
+ * Record a heartbeat from an external service
+ */
+export function recordHeartbeat(service: HeartbeatService, details: Record<string, unknown> = {}): void {
+  heartbeats.set(service, { receivedAt: Date.now(), details });
+  logger.debug('Heartbeat received', { service });
+}
+
+/**
+ * Start background health checks
+ */
+export function startHealthMonitor(): void {
+  if (monitorInterval !== null) {
+    return;
+  }
+
+  monitorInterval = setInterval(() => {
+    runHealthChecks().catch((error) => {
+      logger.error('Error running health checks', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, HEALTH_CONFIG.CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stop background health checks
+ */
+export function stopHealthMonitor(): void {
+  if (monitorInterval !== null) {
+    clearInterval(monitorInterval);
+    monitorInterval = null;
+  }
+}
@@ -0,0 +1,453 @@
+import { createHash, randomBytes } from 'crypto';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { HOLDER_ACCESS_CONFIG, REWARD_ACCUMULATION_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { verifyWalletSignature } from '../utils/signatures';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { emitWebhookEvent } from './webhookService';
+
+/**
+ * Holder Preferences Service
+ *
+ * Holder self-service. A holder proves ownership of a wallet by signing a
+ * nonce message with it (POST /holders/auth/nonce, then /holders/auth/verify)
+ * and receives a session token for the /holders/me endpoints, where they can set:
+ *
+ * - payoutDestination: address that receives their SOL payouts instead of the
+ *   holding wallet (distributeSolToHolders sends the transfer there)
+ * - minPayoutSOL: personal minimum payout; smaller rewards are accumulated
+ *   until they reach it (only with reward accumulation enabled, otherwise
+ *   sub-threshold rewards are not carried over)
+ * - Telegram DMs: a chat linked through the Telegram bot receives a message
+ *   for each payout (holder.payout webhook event)
+ *
+ * Preferences and sessions (hashed tokens) are persisted; verification
+ * challenges and Telegram link codes are short-lived and kept in memory.
+ */
+
+export interface HolderPreferences {
+  wallet: string;
+  payoutDestination: string | null;
+  minPayoutSOL: number | null;
+  telegramChatId: string | null;
+  telegramLinkedAt: number | null;
+  verifiedAt: number | null; // Last signature verification
+  updatedAt: number | null;
+}
+
+export interface HolderSession {
+  wallet: string;
+  expiresAt: number;
+}
+
+interface StoredSession extends HolderSession {
+  tokenHash: string;
+  createdAt: number;
+}
+
+interface HolderPreferencesState {
+  preferences: Record<string, HolderPreferences>;
+  sessions: StoredSession[];
+}
+
+const MAX_SESSIONS_PER_WALLET = 10;
+const MAX_CHALLENGES_PER_WALLET = 5;
+
+// Verification challenges (by nonce) and Telegram link codes (short-lived, lost on restart)
+const challenges = new Map<string, { wallet: string; message: string; expiresAt: number }>();
+const telegramLinkCodes = new Map<string, { wallet: string; expiresAt: number }>();
+
+/**
+ * Load holder preferences from storage
+ */
+function loadState(): HolderPreferencesState {
+  try {
+    const state = readDocument<HolderPreferencesState>(STORAGE_KEYS.HOLDER_PREFERENCES);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load holder preferences, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { preferences: {}, sessions: [] };
+}
+
+/**
+ * Apply a change to the state and persist it (expired sessions are dropped)
+ */
+function updateState(mutate: (state: HolderPreferencesState) => void): HolderPreferencesState {
+  return updateDocument<HolderPreferencesState>(STORAGE_KEYS.HOLDER_PREFERENCES, (current) => {
+    const next = current ?? loadState();
+    mutate(next);
+    const now = Date.now();
+    next.sessions = next.sessions.filter((session) => session.expiresAt > now);
+    return next;
+  });
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function defaultPreferences(wallet: string): HolderPreferences {
+  return {
+    wallet,
+    payoutDestination: null,
+    minPayoutSOL: null,
+    telegramChatId: null,
+    telegramLinkedAt: null,
+    verifiedAt: null,
+    updatedAt: null,
+  };
+}
+
+/**
+ * Drop expired challenges and link codes
+ */
+function pruneExpired(): void {
+  const now = Date.now();
+  for (const [nonce, challenge] of challenges) {
+    if (challenge.expiresAt <= now) {
+      challenges.delete(nonce);
+    }
+  }
+  for (const [code, link] of telegramLinkCodes) {
+    if (link.expiresAt <= now) {
+      telegramLinkCodes.delete(code);
+    }
+  }
+}
+
+/**
+ * Normalize a wallet address
+ * @throws Error if it is not a valid address
+ */
+function parseWallet(wallet: string, label = 'wallet'): string {
+  try {
+    return new PublicKey(wallet).toBase58();
+  } catch {
+    throw new Error(`Invalid ${label} address`);
+  }
+}
+
+/**
+ * Issue the message a holder signs to prove ownership of a wallet
+ * A wallet can have MAX_CHALLENGES_PER_WALLET pending (the oldest is dropped),
+ * so requesting nonces for someone else's wallet does not cancel theirs.
+ *
+ * @returns null if MAX_PENDING_CHALLENGES are already pending
+ * @throws Error if the wallet address is invalid
+ */
+export function createVerificationChallenge(wallet: string): { nonce: string; message: string; expiresAt: number } | null {
+  pruneExpired();
+  const address = parseWallet(wallet);
+
+  // Map order is issue order, so the first ones found are the oldest
+  const pending = Array.from(challenges.keys()).filter((nonce) => challenges.get(nonce)!.wallet === address);
+  if (pending.length >= MAX_CHALLENGES_PER_WALLET) {
+    for (const nonce of pending.slice(0, pending.length - MAX_CHALLENGES_PER_WALLET + 1)) {
+      challenges.delete(nonce);
+    }
+  }
+  if (challenges.size >= HOLDER_ACCESS_CONFIG.MAX_PENDING_CHALLENGES) {
+    return null;
+  }
+
+  const nonce = randomBytes(16).toString('hex');
+  const now = Date.now();
+  const expiresAt = now + HOLDER_ACCESS_CONFIG.NONCE_TTL_MS;
+
+  const message = [
+    'TEK holder verification',
+    'Sign this message to prove you own this wallet. Signing does not send a transaction or cost a fee.',
+    '',
+    `Wallet: ${address}`,
+    `Nonce: ${nonce}`,
+    `Issued at: ${new Date(now).toISOString()}`,
+    `Expires at: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+
+  challenges.set(nonce, { wallet: address, message, expiresAt });
+  return { nonce, message, expiresAt };
+}
+
+/**
+ * Verify a signed challenge and start a session
+ * The challenge can only be used once.
+ *
+ * @param nonce - Nonce of the signed challenge
+ * @param signature - Signature of the challenge message (base64)
+ * @returns Session token (only returned here) and its expiry
+ * @throws Error describing why the verification was rejected
+ */
+export function verifyHolderSignature(
+  wallet: string,
+  nonce: string,
+  signature: string
+): { token: string; wallet: string; expiresAt: number } {
+  pruneExpired();
+  const address = parseWallet(wallet);
+  const challenge = challenges.get(nonce);
+  if (!challenge || challenge.wallet !== address) {
+    throw new Error('No verification pending for this nonce or it expired - request a new nonce');
+  }
+
+  const signatureBytes = Buffer.from(signature, 'base64');
+  if (signatureBytes.length !== 64 || !verifyWalletSignature(address, challenge.message, signatureBytes)) {
+    throw new Error('Invalid signature');
+  }
+  challenges.delete(nonce);
+
+  const token = randomBytes(32).toString('hex');
+  const now = Date.now();
+  const expiresAt = now + HOLDER_ACCESS_CONFIG.SESSION_TTL_MS;
+
+  updateState((state) => {
+    const sessions = state.sessions.filter((session) => session.wallet === address);
+    if (sessions.length >= MAX_SESSIONS_PER_WALLET) {
+      const dropped = new Set(sessions.slice(0, sessions.length - MAX_SESSIONS_PER_WALLET + 1));
+      state.sessions = state.sessions.filter((session) => !dropped.has(session));
+    }
+    state.sessions.push({ tokenHash: hashToken(token), wallet: address, createdAt: now, expiresAt });
+
+    const preferences = state.preferences[address] ?? defaultPreferences(address);
+    preferences.verifiedAt = now;
+    state.preferences[address] = preferences;
+  });
+
+  logger.info('Holder wallet verified', { wallet: address });
+  return { token, wallet: address, expiresAt };
+}
+
+/**
+ * Get the session of a token
+ * @returns null if the token is unknown or expired
+ */
+export function getHolderSession(token: string): HolderSession | null {
+  const tokenHash = hashToken(token);
+  const session = loadState().sessions.find((candidate) => candidate.tokenHash === tokenHash);
+  if (!session || session.expiresAt <= Date.now()) {
+    return null;
+  }
+  return { wallet: session.wallet, expiresAt: session.expiresAt };
+}
+
+/**
+ * End a session (sign out)
+ */
+export function endHolderSession(token: string): void {
+  const tokenHash = hashToken(token);
+  updateState((state) => {
+    state.sessions = state.sessions.filter((session) => session.tokenHash !== tokenHash);
+  });
+}
+
+/**
+ * Get a holder's preferences (defaults if none were set)
+ */
+export function getHolderPreferences(wallet: string): HolderPreferences {
+  return loadState().preferences[wallet] ?? defaultPreferences(wallet);
+}
+
+/**
+ * Change a holder's preferences
+ * Fields left undefined are kept; null clears a setting.
+ *
+ * @throws Error if a value is invalid
+ */
+export function updateHolderPreferences(
+  wallet: string,
+  changes: { payoutDestination?: string | null; minPayoutSOL?: number | null; telegramNotifications?: boolean }
+): HolderPreferences {
+  let payoutDestination: string | null | undefined;
+  if (changes.payoutDestination !== undefined) {
+    payoutDestination = changes.payoutDestination === null
+      ? null
+      : parseWallet(changes.payoutDestination, 'payout destination');
+    if (payoutDestination === wallet) {
+      payoutDestination = null; // Same as the default
+    }
+  }
+
+  if (changes.minPayoutSOL !== undefined && changes.minPayoutSOL !== null) {
+    if (!REWARD_ACCUMULATION_CONFIG.ENABLED) {
+      throw new Error('A personal minimum payout requires reward accumulation, which is disabled');
+    }
+    if (!Number.isFinite(changes.minPayoutSOL)
+      || changes.minPayoutSOL <= 0
+      || changes.minPayoutSOL > HOLDER_ACCESS_CONFIG.MAX_MIN_PAYOUT_SOL) {
+      throw new Error(`minPayoutSOL must be greater than 0 and at most ${HOLDER_ACCESS_CONFIG.MAX_MIN_PAYOUT_SOL}`);
+    }
+  }
+
+  if (changes.telegramNotifications === true) {
+    throw new Error('Telegram notifications are enabled by linking a chat through the Telegram bot');
+  }
+
+  let updated: HolderPreferences = defaultPreferences(wallet);
+  updateState((state) => {
+    const preferences = state.preferences[wallet] ?? defaultPreferences(wallet);
+    if (payoutDestination !== undefined) {
+      preferences.payoutDestination = payoutDestination;
+    }
+    if (changes.minPayoutSOL !== undefined) {
+      preferences.minPayoutSOL = changes.minPayoutSOL;
+    }
+    if (changes.telegramNotifications === false) {
+      preferences.telegramChatId = null;
+      preferences.telegramLinkedAt = null;
+    }
+    preferences.updatedAt = Date.now();
+    state.preferences[wallet] = preferences;
+    updated = { ...preferences };
+  });
+
+  logger.info('Holder preferences updated', {
+    wallet,
+    payoutDestination: updated.payoutDestination,
+    minPayoutSOL: updated.minPayoutSOL,
+    telegramLinked: updated.telegramChatId !== null,
+  });
+  return updated;
+}
+
+/**
+ * Issue a code that links a Telegram chat to the wallet (sent to the bot as /start <code>)
+ * @throws Error if Telegram DMs are disabled
+ */
+export function createTelegramLinkCode(wallet: string): { code: string; expiresAt: number; botUrl: string | null } {
+  if (!HOLDER_ACCESS_CONFIG.TELEGRAM_LINK_TOKEN) {
+    throw new Error('Telegram notifications are not enabled on this backend');
+  }
+  pruneExpired();
+
+  // Telegram deep-link parameters allow [A-Za-z0-9_-]
+  const code = randomBytes(12).toString('base64url');
+  const expiresAt = Date.now() + HOLDER_ACCESS_CONFIG.TELEGRAM_LINK_TTL_MS;
+  telegramLinkCodes.set(code, { wallet, expiresAt });
+
+  const botUrl = HOLDER_ACCESS_CONFIG.TELEGRAM_BOT_USERNAME
+    ? `https://t.me/${HOLDER_ACCESS_CONFIG.TELEGRAM_BOT_USERNAME}?start=${code}`
+    : null;
+  return { code, expiresAt, botUrl };
+}
+
+/**
+ * Link a Telegram chat with a code issued by createTelegramLinkCode
+ * @returns The linked wallet, or null if the code is unknown or expired
+ */
+export function linkTelegramChat(code: string, chatId: string): string | null {
+  pruneExpired();
+  const link = telegramLinkCodes.get(code);
+  if (!link) {
+    return null;
+  }
+  telegramLinkCodes.delete(code);
+
+  updateState((state) => {
+    const preferences = state.preferences[link.wallet] ?? defaultPreferences(link.wallet);
+    preferences.telegramChatId = chatId;
+    preferences.telegramLinkedAt = Date.now();
+    preferences.updatedAt = preferences.telegramLinkedAt;
+    state.preferences[link.wallet] = preferences;
+  });
+
+  logger.info('Telegram chat linked to holder wallet', { wallet: link.wallet });
+  return link.wallet;
+}
+
+/**
+ * Unlink a Telegram chat from every wallet it is linked to (/stop in the bot, or the bot was blocked)
+ * @returns The wallets that were unlinked
+ */
+export function unlinkTelegramChat(chatId: string): string[] {
+  const unlinked: string[] = [];
+  updateState((state) => {
+    for (const preferences of Object.values(state.preferences)) {
+      if (preferences.telegramChatId === chatId) {
+        preferences.telegramChatId = null;
+        preferences.telegramLinkedAt = null;
+        preferences.updatedAt = Date.now();
+        unlinked.push(preferences.wallet);
+      }
+    }
+  });
+
+  if (unlinked.length > 0) {
+    logger.info('Telegram chat unlinked from holder wallets', { wallets: unlinked });
+  }
+  return unlinked;
+}
+
+/**
+ * Payout preferences of every holder that set one (read once per distribution)
+ */
+export function getPayoutPreferences(): Map<string, { payoutDestination: string | null; minPayoutSOL: number | null }> {
+  const result = new Map<string, { payoutDestination: string | null; minPayoutSOL: number | null }>();
+  for (const preferences of Object.values(loadState().preferences)) {
+    if (preferences.payoutDestination !== null || preferences.minPayoutSOL !== null) {
+      result.set(preferences.wallet, {
+        payoutDestination: preferences.payoutDestination,
+        minPayoutSOL: preferences.minPayoutSOL,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Emit a holder.payout webhook event for each paid holder with a linked Telegram chat
+ * Never throws - notifications must not affect the payout bookkeeping.
+ */
+export function notifyHolderPayouts(
+  payouts: Array<{
+    id: string; // Identifies the payout (idempotency key)
+    pubkey: string;
+    amountLamports: string;
+    asset?: { symbol: string; decimals: number; amount: string }; // Paid in a reward asset other than SOL
+    signature: string;
+    epoch: string | null;
+    cycleNumber: number | null;
+    source: 'cycle' | 'retry';
+  }>
+): void {
+  try {
+    if (payouts.length === 0) {
+      return;
+    }
+    const { preferences } = loadState();
+
+    for (const payout of payouts) {
+      const holder = preferences[payout.pubkey];
+      if (!holder?.telegramChatId) {
+        continue;
+      }
+      emitWebhookEvent('holder.payout', `${payout.id}:${payout.pubkey}`, {
+        wallet: payout.pubkey,
+        chatId: holder.telegramChatId,
+        amountLamports: payout.amountLamports,
+        amountSOL: Number(payout.amountLamports) / LAMPORTS_PER_SOL,
+        asset: payout.asset
+          ? {
+              symbol: payout.asset.symbol,
+              amount: payout.asset.amount,
+              amountUi: Number(payout.asset.amount) / Math.pow(10, payout.asset.decimals),
+            }
+          : null,
+        destination: holder.payoutDestination ?? payout.pubkey,
+        signature: payout.signature,
+        epoch: payout.epoch,
+        cycleNumber: payout.cycleNumber,
+        source: payout.source,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to notify holders of payouts', {
+      payouts: payouts.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
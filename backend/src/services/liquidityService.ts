@@ -5,7 +5,8 @@
  */
 
 import { logger } from '../utils/logger';
-import { tokenMint } from '../config/solana';
+import { getActiveProject, projectScoped } from '../utils/projectContext';
+import { getTokenMint } from '../config/solana';
 
 // Cache for liquidity pool data
 interface LiquidityPoolCache {
@@ -23,7 +24,10 @@ interface LiquidityPoolCache {
   timestamp: number;
 }
 
-let cachedLiquidityData: LiquidityPoolCache | null = null;
+// Liquidity cache, per project
+const liquidityCache = projectScoped<{ cachedLiquidityData: LiquidityPoolCache | null }>(() => ({
+  cachedLiquidityData: null,
+}));
 const LIQUIDITY_CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache
 
 // Match the structure used in priceService
@@ -86,12 +90,12 @@ interface RaydiumPoolInfoResponse {
 }
 
 /**
- * Get pool IDs from environment variables
+ * Get pool IDs of the active project
+ * Default project: RAYDIUM_POOL_ID and RAYDIUM_POOL_ID_USDC
  */
 function getPoolIds(): { sol: string | null; usdc: string | null } {
-  const solPoolId = process.env.RAYDIUM_POOL_ID || null;
-  const usdcPoolId = process.env.RAYDIUM_POOL_ID_USDC || null;
-  return { sol: solPoolId, usdc: usdcPoolId };
+  const project = getActiveProject();
+  return { sol: project.raydiumPoolId, usdc: project.raydiumPoolIdUsdc };
 }
 
 /**
@@ -148,7 +152,7 @@ async function fetchPoolFromRaydium(poolId: string): Promise<RaydiumPoolInfo | n
  */
 function getPairName(pool: RaydiumPoolInfo): string {
   // Token mint address (from config)
-  const TOKEN_MINT = tokenMint.toBase58();
+  const TOKEN_MINT = getTokenMint().toBase58();
   // USDC devnet mint (common devnet USDC mint)
   const USDC_MINT_DEVNET = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'; // Common devnet USDC mint
   // WSOL mint
@@ -193,15 +197,16 @@ export async function fetchLiquidityPoolsData(): Promise<{
     treasuryPools: number;
   };
 }> {
+  const cache = liquidityCache();
   // Check cache first
   const now = Date.now();
-  if (cachedLiquidityData && (now - cachedLiquidityData.timestamp) < LIQUIDITY_CACHE_TTL) {
+  if (cache.cachedLiquidityData && (now - cache.cachedLiquidityData.timestamp) < LIQUIDITY_CACHE_TTL) {
     logger.debug('Using cached liquidity pool data', {
-      cachedAt: new Date(cachedLiquidityData.timestamp).toISOString(),
+      cachedAt: new Date(cache.cachedLiquidityData.timestamp).toISOString(),
     });
     return {
-      pools: cachedLiquidityData.pools,
-      summary: cachedLiquidityData.summary,
+      pools: cache.cachedLiquidityData.pools,
+      summary: cache.cachedLiquidityData.summary,
     };
   }
 
@@ -290,7 +295,7 @@ export async function fetchLiquidityPoolsData(): Promise<{
   };
 
   // Update cache
-  cachedLiquidityData = {
+  cache.cachedLiquidityData = {
     pools,
     summary,
     timestamp: now,
@@ -309,7 +314,7 @@ export async function fetchLiquidityPoolsData(): Promise<{
  * Clear liquidity cache (useful for testing)
  */
 export function clearLiquidityCache(): void {
-  cachedLiquidityData = null;
+  liquidityCache().cachedLiquidityData = null;
   logger.debug('Liquidity cache cleared');
 }
 
@@ -0,0 +1,275 @@
+import type { Response } from 'express';
+import { LIVE_FEED_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { liveFeedClients, liveFeedEventsTotal } from '../utils/metrics';
+import type { PublicWebhookEventType } from './webhookService';
+import { getActiveProject, projectScoped } from '../utils/projectContext';
+
+/**
+ * Live Feed Service
+ *
+ * Server-sent events stream for the dashboard (GET /dashboard/live), so the
+ * frontend can refresh when something happens instead of polling every
+ * endpoint on a timer:
+ *
+ * - snapshot: sent on connect (scheduler state, cycle in progress, last prices)
+ * - cycle.progress: harvesting, swapping batch k/N, paying holder i/M, treasury
+ * - the reward pipeline events also delivered as webhooks (cycle.started,
+ *   tax.harvested, swap.completed, distribution.completed, cycle.rolled_over,
+ *   cycle.failed)
+ * - price.updated: a fresh TEK/SOL or SOL/USD price was fetched
+ * - scheduler.state: paused, resumed, skip requested, cycle started or finished
+ *
+ * Events carry an increasing id. The last REPLAY_BUFFER_SIZE events are kept in
+ * memory, so an EventSource reconnecting with Last-Event-ID receives what it
+ * missed; older gaps (or a backend restart) are reported with resync: true in
+ * the snapshot. Nothing is persisted - the stream only speeds up the
+ * dashboard, the REST endpoints stay the source of truth.
+ *
+ * Each client follows one project (the project of the route it connected
+ * through): it only receives that project's events, progress and prices.
+ */
+
+export type LiveEventType =
+  | PublicWebhookEventType
+  | 'cycle.progress'
+  | 'price.updated'
+  | 'scheduler.state';
+
+export interface LiveEvent {
+  id: number;
+  type: LiveEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Stage of the cycle being processed
+ */
+export type CycleProgressStage = 'harvesting' | 'swapping' | 'distributing' | 'treasury' | 'finished';
+
+export interface CycleProgress {
+  epoch: string;
+  cycleNumber: number | null;
+  stage: CycleProgressStage;
+  batch: { current: number; total: number } | null; // Swap batches (1-based)
+  payouts: { settled: number; failed: number; total: number } | null; // Holder transfers
+  updatedAt: string;
+}
+
+export interface LivePrices {
+  tekSol: number | null;
+  solUsd: number | null;
+  updatedAt: string | null;
+}
+
+// A client this far behind (slow network, suspended tab) is dropped and reconnects
+const MAX_CLIENT_BUFFER_BYTES = 1024 * 1024;
+
+const clients = new Map<number, { res: Response; project: string }>();
+let nextClientId = 1;
+let lastEventId = 0;
+const recentEvents: Array<{ project: string; event: LiveEvent }> = [];
+let heartbeatInterval: NodeJS.Timeout | null = null;
+
+// Cycle in progress and last prices, per project
+const projectState = projectScoped<{ currentProgress: CycleProgress | null; prices: LivePrices }>(() => ({
+  currentProgress: null,
+  prices: { tekSol: null, solUsd: null, updatedAt: null },
+}));
+
+/**
+ * Format one SSE message (multi-line data is split over several data: lines)
+ */
+function formatMessage(event: string, data: unknown, id?: number): string {
+  const lines = JSON.stringify(data).split('\n').map((line) => `data: ${line}`);
+  return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Write to a client, dropping it when the write fails or it stopped reading
+ */
+function writeToClient(clientId: number, res: Response, chunk: string): void {
+  try {
+    res.write(chunk);
+    if (res.writableLength > MAX_CLIENT_BUFFER_BYTES) {
+      logger.warn('Live feed client is not reading, disconnecting', { clientId });
+      res.end();
+      removeClient(clientId);
+    }
+  } catch (error) {
+    logger.debug('Live feed write failed, disconnecting client', {
+      clientId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    removeClient(clientId);
+  }
+}
+
+function removeClient(clientId: number): void {
+  if (!clients.delete(clientId)) {
+    return;
+  }
+  liveFeedClients.set({}, clients.size);
+  if (clients.size === 0 && heartbeatInterval !== null) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
+}
+
+/**
+ * Keep-alive comments (only run while clients are connected)
+ */
+function ensureHeartbeat(): void {
+  if (heartbeatInterval !== null) {
+    return;
+  }
+  heartbeatInterval = setInterval(() => {
+    for (const [clientId, { res }] of clients) {
+      writeToClient(clientId, res, `: ping ${Date.now()}\n\n`);
+    }
+  }, LIVE_FEED_CONFIG.HEARTBEAT_INTERVAL_MS);
+  heartbeatInterval.unref();
+}
+
+/**
+ * Publish an event to every client of the active project (never throws)
+ */
+export function publishLiveEvent(type: LiveEventType, data: Record<string, unknown>): void {
+  try {
+    const project = getActiveProject().id;
+    const event: LiveEvent = {
+      id: ++lastEventId,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    recentEvents.push({ project, event });
+    if (recentEvents.length > LIVE_FEED_CONFIG.REPLAY_BUFFER_SIZE) {
+      recentEvents.splice(0, recentEvents.length - LIVE_FEED_CONFIG.REPLAY_BUFFER_SIZE);
+    }
+    liveFeedEventsTotal.inc({ type });
+
+    const message = formatMessage(type, event, event.id);
+    for (const [clientId, client] of clients) {
+      if (client.project === project) {
+        writeToClient(clientId, client.res, message);
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to publish live feed event', {
+      type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Publish the progress of the running cycle
+ * The finished stage clears it from the connect snapshot.
+ */
+export function publishCycleProgress(progress: Omit<CycleProgress, 'updatedAt'>): void {
+  const next: CycleProgress = { ...progress, updatedAt: new Date().toISOString() };
+  projectState().currentProgress = next.stage === 'finished' ? null : next;
+  publishLiveEvent('cycle.progress', { ...next });
+}
+
+/**
+ * Mark the cycle in progress (if any) as finished
+ */
+export function finishCycleProgress(): void {
+  const { currentProgress } = projectState();
+  if (currentProgress) {
+    publishCycleProgress({ ...currentProgress, stage: 'finished' });
+  }
+}
+
+/**
+ * Publish a freshly fetched price when it differs from the last one
+ */
+export function publishPriceUpdate(pair: 'tekSol' | 'solUsd', price: number): void {
+  const { prices } = projectState();
+  if (prices[pair] === price) {
+    return;
+  }
+  prices[pair] = price;
+  prices.updatedAt = new Date().toISOString();
+  publishLiveEvent('price.updated', { pair, price, prices: { ...prices } });
+}
+
+/**
+ * Attach an SSE client to the active project
+ * Sends the snapshot, then the events after lastEventId if they are still
+ * buffered, and streams every event published afterwards.
+ *
+ * @returns false if MAX_CLIENTS are already connected (nothing was written)
+ */
+export function addLiveFeedClient(
+  res: Response,
+  options: { lastEventId: number | null; snapshot: Record<string, unknown> }
+): boolean {
+  if (clients.size >= LIVE_FEED_CONFIG.MAX_CLIENTS) {
+    return false;
+  }
+
+  const clientId = nextClientId++;
+  const project = getActiveProject().id;
+  const { currentProgress, prices } = projectState();
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // nginx would otherwise buffer the stream
+  res.flushHeaders();
+
+  // Replay only if nothing between the client's last event and the buffer was lost
+  const oldestBuffered = recentEvents[0]?.event.id ?? lastEventId + 1;
+  const canReplay = options.lastEventId !== null
+    && options.lastEventId <= lastEventId
+    && options.lastEventId >= oldestBuffered - 1;
+  const missed = canReplay
+    ? recentEvents
+      .filter((entry) => entry.project === project && entry.event.id > (options.lastEventId as number))
+      .map((entry) => entry.event)
+    : [];
+
+  let chunk = `retry: ${LIVE_FEED_CONFIG.RETRY_MS}\n\n`;
+  chunk += formatMessage('snapshot', {
+    ...options.snapshot,
+    progress: currentProgress,
+    prices: { ...prices },
+    lastEventId,
+    resync: options.lastEventId !== null && !canReplay,
+  });
+  for (const event of missed) {
+    chunk += formatMessage(event.type, event, event.id);
+  }
+
+  clients.set(clientId, { res, project });
+  liveFeedClients.set({}, clients.size);
+  res.on('close', () => removeClient(clientId));
+  ensureHeartbeat();
+
+  logger.debug('Live feed client connected', {
+    clientId,
+    project,
+    clients: clients.size,
+    replayed: missed.length,
+  });
+  writeToClient(clientId, res, chunk);
+  return true;
+}
+
+/**
+ * Close every stream (graceful shutdown - open streams would keep the HTTP server alive)
+ */
+export function closeLiveFeed(): void {
+  for (const [clientId, { res }] of clients) {
+    try {
+      res.end();
+    } catch {
+      // Already closed
+    }
+    removeClient(clientId);
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Keypair,
+  PublicKey,
+} from '@solana/web3.js';
+import { connection } from '../config/solana';
+import { logger } from '../utils/logger';
+import { signInstructions, sendSignedTransaction } from '../utils/transactions';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
+
+/**
+ * Payout Lookup Table Service
+ *
+ * Maintains address lookup tables holding holder addresses, so batched payouts
+ * can be sent as v0 transactions that reference each recipient by a 1-byte
+ * index instead of a 32-byte key (about 55 transfers per transaction instead
+ * of about 20).
+ *
+ * Tables are owned by the reward wallet and reused across cycles: each cycle
+ * only appends holders that are not in a table yet. A table holds at most 256
+ * addresses; a new table is created when the last one is full.
+ */
+
+interface PayoutLookupTableState {
+  tables: string[]; // Lookup table addresses, oldest first
+}
+
+const MAX_ADDRESSES_PER_TABLE = 256;
+const ADDRESSES_PER_EXTEND = 20; // Keeps each extend transaction under the size limit
+const ACTIVATION_POLL_INTERVAL_MS = 1000;
+const ACTIVATION_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Load lookup table state from storage
+ */
+function loadState(): PayoutLookupTableState {
+  try {
+    const state = readDocument<PayoutLookupTableState>(STORAGE_KEYS.PAYOUT_LOOKUP_TABLES);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load payout lookup tables, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { tables: [] };
+}
+
+/**
+ * Fetch a lookup table account from chain
+ */
+async function fetchLookupTable(address: PublicKey): Promise<AddressLookupTableAccount | null> {
+  const { value } = await connection.getAddressLookupTable(address, { commitment: 'confirmed' });
+  return value;
+}
+
+/**
+ * Wait until a lookup table contains the expected number of addresses and they are usable
+ * Addresses appended to a table can only be used from the next slot on.
+ */
+async function waitForLookupTable(address: PublicKey, expectedAddresses: number): Promise<AddressLookupTableAccount> {
+  const deadline = Date.now() + ACTIVATION_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const table = await fetchLookupTable(address);
+    if (table && table.state.addresses.length >= expectedAddresses) {
+      const slot = await connection.getSlot('confirmed');
+      if (slot > table.state.lastExtendedSlot) {
+        return table;
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, ACTIVATION_POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Lookup table ${address.toBase58()} did not become usable within ${ACTIVATION_TIMEOUT_MS / 1000}s`);
+}
+
+/**
+ * Create a new lookup table owned by the payer
+ */
+async function createLookupTable(payer: Keypair): Promise<AddressLookupTableAccount> {
+  const recentSlot = await connection.getSlot('finalized');
+  const [instruction, address] = AddressLookupTableProgram.createLookupTable({
+    authority: payer.publicKey,
+    payer: payer.publicKey,
+    recentSlot,
+  });
+
+  const signature = await sendSignedTransaction(await signInstructions([instruction], [payer]));
+  logger.info('Created payout lookup table', {
+    lookupTable: address.toBase58(),
+    signature,
+  });
+
+  const state = loadState();
+  state.tables.push(address.toBase58());
+  writeDocument<PayoutLookupTableState>(STORAGE_KEYS.PAYOUT_LOOKUP_TABLES, state);
+
+  return waitForLookupTable(address, 0);
+}
+
+/**
+ * Append addresses to a lookup table
+ */
+async function extendLookupTable(
+  payer: Keypair,
+  table: AddressLookupTableAccount,
+  addresses: PublicKey[]
+): Promise<AddressLookupTableAccount> {
+  for (let i = 0; i < addresses.length; i += ADDRESSES_PER_EXTEND) {
+    const instruction = AddressLookupTableProgram.extendLookupTable({
+      lookupTable: table.key,
+      authority: payer.publicKey,
+      payer: payer.publicKey,
+      addresses: addresses.slice(i, i + ADDRESSES_PER_EXTEND),
+    });
+    await sendSignedTransaction(await signInstructions([instruction], [payer]));
+  }
+
+  logger.info('Extended payout lookup table', {
+    lookupTable: table.key.toBase58(),
+    added: addresses.length,
+    total: table.state.addresses.length + addresses.length,
+  });
+
+  return waitForLookupTable(table.key, table.state.addresses.length + addresses.length);
+}
+
+/**
+ * Get lookup tables covering all recipients, appending missing ones first
+ *
+ * @param recipients - Payout recipients
+ * @param payer - Table authority and fee payer (the reward wallet)
+ * @returns Lookup tables to compile payout transactions against
+ */
+export async function getPayoutLookupTables(
+  recipients: PublicKey[],
+  payer: Keypair
+): Promise<AddressLookupTableAccount[]> {
+  const tables: AddressLookupTableAccount[] = [];
+  for (const address of loadState().tables) {
+    const table = await fetchLookupTable(new PublicKey(address));
+    if (table && table.isActive() && table.state.authority?.equals(payer.publicKey)) {
+      tables.push(table);
+    } else {
+      logger.warn('Skipping unusable payout lookup table', { lookupTable: address });
+    }
+  }
+
+  const known = new Set(tables.flatMap((table) => table.state.addresses.map((a) => a.toBase58())));
+  let missing = recipients.filter((recipient) => !known.has(recipient.toBase58()));
+
+  while (missing.length > 0) {
+    let table = tables[tables.length - 1];
+    if (!table || table.state.addresses.length >= MAX_ADDRESSES_PER_TABLE) {
+      table = await createLookupTable(payer);
+      tables.push(table);
+    }
+
+    const room = MAX_ADDRESSES_PER_TABLE - table.state.addresses.length;
+    const extended = await extendLookupTable(payer, table, missing.slice(0, room));
+    tables[tables.length - 1] = extended;
+    missing = missing.slice(room);
+  }
+
+  return tables;
+}
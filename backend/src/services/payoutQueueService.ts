@@ -0,0 +1,430 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import { PAYOUT_QUEUE_CONFIG } from '../config/constants';
+import { waitForTransactionOutcome } from '../utils/transactions';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { distributeSolToHolders, type RewardAssetConversion } from './solDistributionService';
+import { recordRetriedPayout } from './walletLedgerService';
+import { notifyHolderPayouts } from './holderPreferencesService';
+
+/**
+ * Payout Queue Service
+ *
+ * Durable queue of holder payouts that could not be sent in their cycle
+ * (failed transfer or insufficient reward wallet balance). Each holder has at
+ * most one open entry holding the total amount owed; it is retried in later
+ * cycles with exponential backoff until it is paid.
+ *
+ * Entries that exhaust MAX_RETRIES are marked failed but keep the amount owed,
+ * so they stay visible on /dashboard/payouts and are re-opened when the
+ * holder is owed a new reward.
+ */
+
+export type PayoutQueueStatus = 'pending' | 'failed' | 'paid';
+
+export type PayoutFailureReason = 'TRANSFER_FAILED' | 'INSUFFICIENT_BALANCE';
+
+export interface PayoutAttempt {
+  attemptedAt: number;
+  signature: string | null;
+  result: 'PAID' | 'FAILED' | 'INSUFFICIENT_BALANCE';
+  error?: string;
+}
+
+export interface QueuedPayout {
+  pubkey: string;
+  amountLamports: string; // Total owed (in lamports, as string for BigInt)
+  status: PayoutQueueStatus;
+  queuedAt: number;
+  updatedAt: number;
+  retryCount: number; // Failed retries (insufficient balance does not count)
+  nextAttemptAt: number | null;
+  lastError: string | null;
+  sources: Array<{
+    journalId: string; // Cycle the owed amount comes from
+    epoch: string | null;
+    cycleNumber: number | null;
+    amountLamports: string;
+    reason: PayoutFailureReason;
+  }>;
+  attempts: PayoutAttempt[]; // Retry history, oldest first
+  inFlight: { signature: string; lastValidBlockHeight: number } | null; // Sent, outcome not yet known
+  paidAt: number | null;
+  paidSignature: string | null;
+}
+
+interface PayoutQueueState {
+  payouts: QueuedPayout[];
+}
+
+const MAX_ATTEMPTS_KEPT = 20;
+const MAX_PAID_KEPT = 500;
+
+/**
+ * Load payout queue from storage
+ */
+function loadState(): PayoutQueueState {
+  try {
+    const state = readDocument<PayoutQueueState>(STORAGE_KEYS.PAYOUT_QUEUE);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load payout queue, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { payouts: [] };
+}
+
+/**
+ * Apply a change to the queue and persist it
+ */
+function updateQueue(mutate: (state: PayoutQueueState) => void): PayoutQueueState {
+  return updateDocument<PayoutQueueState>(STORAGE_KEYS.PAYOUT_QUEUE, (current) => {
+    const next = current ?? { payouts: [] };
+    mutate(next);
+
+    // Keep open entries and only the most recent paid ones
+    const paid = next.payouts.filter((p) => p.status === 'paid');
+    if (paid.length > MAX_PAID_KEPT) {
+      const dropped = new Set(
+        paid.sort((a, b) => (a.paidAt ?? 0) - (b.paidAt ?? 0)).slice(0, paid.length - MAX_PAID_KEPT)
+      );
+      next.payouts = next.payouts.filter((p) => !dropped.has(p));
+    }
+    return next;
+  });
+}
+
+/**
+ * Delay before the next retry after the given number of failed retries
+ */
+function getRetryDelay(retryCount: number): number {
+  const delay = PAYOUT_QUEUE_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, retryCount - 1));
+  return Math.min(delay, PAYOUT_QUEUE_CONFIG.RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Find the open (pending or failed) entry of a holder
+ */
+function findOpenEntry(state: PayoutQueueState, pubkey: string): QueuedPayout | undefined {
+  return state.payouts.find((p) => p.pubkey === pubkey && p.status !== 'paid');
+}
+
+/**
+ * Record an attempt on an entry, keeping the last MAX_ATTEMPTS_KEPT
+ */
+function pushAttempt(entry: QueuedPayout, attempt: PayoutAttempt): void {
+  entry.attempts = [...entry.attempts, attempt].slice(-MAX_ATTEMPTS_KEPT);
+}
+
+/**
+ * Mark an entry paid
+ * @returns Copy of the paid entry, to record in the wallet ledger once the queue is saved
+ */
+function markPaid(entry: QueuedPayout, signature: string, now: number): QueuedPayout {
+  pushAttempt(entry, { attemptedAt: now, signature, result: 'PAID' });
+  entry.status = 'paid';
+  entry.paidAt = now;
+  entry.paidSignature = signature;
+  entry.nextAttemptAt = null;
+  entry.inFlight = null;
+  entry.lastError = null;
+  entry.updatedAt = now;
+  return { ...entry };
+}
+
+/**
+ * Record a paid entry in the wallet ledger and notify the holder
+ * asset: what the holder received, when paid in a reward asset other than SOL
+ */
+function recordPaidInLedger(
+  entry: QueuedPayout | null,
+  asset?: { symbol: string; decimals: number; amount: string }
+): void {
+  if (entry?.paidSignature) {
+    recordRetriedPayout(entry.pubkey, entry.paidSignature, entry.sources, entry.paidAt ?? Date.now());
+    const lastSource = entry.sources[entry.sources.length - 1];
+    notifyHolderPayouts([{
+      id: entry.paidSignature,
+      pubkey: entry.pubkey,
+      amountLamports: entry.amountLamports,
+      asset,
+      signature: entry.paidSignature,
+      epoch: lastSource?.epoch ?? null,
+      cycleNumber: lastSource?.cycleNumber ?? null,
+      source: 'retry',
+    }]);
+  }
+}
+
+/**
+ * Record a failed attempt and schedule the next retry
+ */
+function markAttemptFailed(entry: QueuedPayout, error: string, now: number): void {
+  const insufficientBalance = error === 'INSUFFICIENT_BALANCE';
+
+  pushAttempt(entry, {
+    attemptedAt: now,
+    signature: entry.inFlight?.signature ?? null,
+    result: insufficientBalance ? 'INSUFFICIENT_BALANCE' : 'FAILED',
+    error: insufficientBalance ? undefined : error,
+  });
+  entry.inFlight = null;
+  entry.lastError = error;
+  entry.updatedAt = now;
+
+  if (!insufficientBalance) {
+    entry.retryCount++;
+  }
+
+  if (entry.retryCount >= PAYOUT_QUEUE_CONFIG.MAX_RETRIES) {
+    entry.status = 'failed';
+    entry.nextAttemptAt = null;
+    logger.error('Queued payout exhausted its retries - holder is still owed this amount', {
+      wallet: entry.pubkey,
+      amountLamports: entry.amountLamports,
+      retryCount: entry.retryCount,
+      lastError: error,
+    });
+  } else {
+    entry.nextAttemptAt = now + getRetryDelay(Math.max(1, entry.retryCount));
+  }
+}
+
+/**
+ * Queue payouts that could not be sent in their cycle
+ * Idempotent per cycle: a cycle journal is only added once per holder.
+ *
+ * @param payouts - Payouts owed, with the reason they were not sent
+ * @param source - Cycle the payouts belong to
+ * @returns Number of payouts added to the queue
+ */
+export function enqueueFailedPayouts(
+  payouts: Array<{ pubkey: string; amountLamports: bigint; reason: PayoutFailureReason; error?: string }>,
+  source: { journalId: string; epoch: string | null; cycleNumber: number | null }
+): number {
+  const now = Date.now();
+  let added = 0;
+
+  updateQueue((state) => {
+    for (const payout of payouts) {
+      if (payout.amountLamports <= 0n) {
+        continue;
+      }
+
+      let entry = findOpenEntry(state, payout.pubkey);
+      if (entry?.sources.some((s) => s.journalId === source.journalId)) {
+        continue;
+      }
+
+      if (!entry) {
+        entry = {
+          pubkey: payout.pubkey,
+          amountLamports: '0',
+          status: 'pending',
+          queuedAt: now,
+          updatedAt: now,
+          retryCount: 0,
+          nextAttemptAt: null,
+          lastError: null,
+          sources: [],
+          attempts: [],
+          inFlight: null,
+          paidAt: null,
+          paidSignature: null,
+        };
+        state.payouts.push(entry);
+      }
+
+      entry.amountLamports = (BigInt(entry.amountLamports) + payout.amountLamports).toString();
+      entry.sources.push({
+        journalId: source.journalId,
+        epoch: source.epoch,
+        cycleNumber: source.cycleNumber,
+        amountLamports: payout.amountLamports.toString(),
+        reason: payout.reason,
+      });
+      // A new amount owed re-opens an exhausted entry
+      entry.status = 'pending';
+      if (entry.retryCount >= PAYOUT_QUEUE_CONFIG.MAX_RETRIES) {
+        entry.retryCount = 0;
+      }
+      entry.lastError = payout.error ?? payout.reason;
+      entry.nextAttemptAt = now + PAYOUT_QUEUE_CONFIG.RETRY_BASE_DELAY_MS;
+      entry.updatedAt = now;
+      added++;
+    }
+  });
+
+  if (added > 0) {
+    logger.warn('Holder payouts queued for retry', {
+      journalId: source.journalId,
+      queued: added,
+      totalOwedLamports: payouts.reduce((sum, p) => sum + p.amountLamports, 0n).toString(),
+    });
+  }
+
+  return added;
+}
+
+/**
+ * Get queue entries, newest first
+ * @param filter.status - Only entries with this status (default: open entries, i.e. pending and failed)
+ */
+export function getQueuedPayouts(filter: { pubkey?: string; status?: PayoutQueueStatus } = {}): QueuedPayout[] {
+  return loadState().payouts
+    .filter((p) => (filter.status ? p.status === filter.status : p.status !== 'paid'))
+    .filter((p) => !filter.pubkey || p.pubkey === filter.pubkey)
+    .sort((a, b) => b.queuedAt - a.queuedAt);
+}
+
+/**
+ * Get queue totals
+ */
+export function getPayoutQueueSummary(): {
+  pending: number;
+  failed: number;
+  paid: number;
+  owedLamports: string;
+} {
+  const payouts = loadState().payouts;
+  const open = payouts.filter((p) => p.status !== 'paid');
+
+  return {
+    pending: payouts.filter((p) => p.status === 'pending').length,
+    failed: payouts.filter((p) => p.status === 'failed').length,
+    paid: payouts.filter((p) => p.status === 'paid').length,
+    owedLamports: open.reduce((sum, p) => sum + BigInt(p.amountLamports), 0n).toString(),
+  };
+}
+
+/**
+ * Get the total still owed by open entries (pending and failed)
+ * This SOL has to stay in the reward wallet until the entries are paid.
+ * @param excludePubkeys - Holders whose entries are being paid by the caller
+ */
+export function getQueuedOwedLamports(excludePubkeys: Set<string> = new Set()): bigint {
+  return loadState().payouts
+    .filter((p) => p.status !== 'paid' && !excludePubkeys.has(p.pubkey))
+    .reduce((sum, p) => sum + BigInt(p.amountLamports), 0n);
+}
+
+/**
+ * Settle queued payouts whose transfer was sent but whose outcome is unknown
+ * (process stopped or RPC error while confirming)
+ */
+async function reconcileInFlightPayouts(): Promise<void> {
+  const inFlight = loadState().payouts.filter((p) => p.status !== 'paid' && p.inFlight);
+
+  for (const entry of inFlight) {
+    const { signature, lastValidBlockHeight } = entry.inFlight!;
+    const outcome = await waitForTransactionOutcome(signature, lastValidBlockHeight);
+    const now = Date.now();
+    let paidEntry: QueuedPayout | null = null;
+
+    updateQueue((state) => {
+      const current = findOpenEntry(state, entry.pubkey);
+      if (!current || current.inFlight?.signature !== signature) {
+        return;
+      }
+      if (outcome === 'confirmed') {
+        paidEntry = markPaid(current, signature, now);
+      } else {
+        markAttemptFailed(current, `Transfer ${outcome}`, now);
+      }
+    });
+    recordPaidInLedger(paidEntry);
+
+    logger.info('Reconciled in-flight queued payout', {
+      wallet: entry.pubkey,
+      signature,
+      outcome,
+    });
+  }
+}
+
+/**
+ * Retry queued payouts that are due
+ *
+ * Sends all due payouts through distributeSolToHolders (batched transfers),
+ * then records each outcome on its queue entry.
+ *
+ * @returns Counts of attempted, paid and still-unpaid payouts
+ */
+export async function processPayoutQueue(): Promise<{ attempted: number; paid: number; unpaid: number }> {
+  await reconcileInFlightPayouts();
+
+  const now = Date.now();
+  const due = loadState().payouts.filter(
+    (p) => p.status === 'pending' && !p.inFlight && p.nextAttemptAt !== null && p.nextAttemptAt <= now
+  );
+
+  if (due.length === 0) {
+    return { attempted: 0, paid: 0, unpaid: 0 };
+  }
+
+  const plannedRewards = due.map((p) => ({ pubkey: p.pubkey, amountLamports: BigInt(p.amountLamports) }));
+  const totalLamports = plannedRewards.reduce((sum, r) => sum + r.amountLamports, 0n);
+
+  logger.info('Retrying queued holder payouts', {
+    due: due.length,
+    totalLamports: totalLamports.toString(),
+    totalSOL: (Number(totalLamports) / LAMPORTS_PER_SOL).toFixed(6),
+  });
+
+  let paid = 0;
+  let conversion: RewardAssetConversion | null = null;
+  const result = await distributeSolToHolders(totalLamports, {
+    plannedRewards,
+    payingQueuedPayouts: true,
+    onAssetSwapped: (assetConversion) => {
+      conversion = assetConversion;
+    },
+    onTransfersSigned: (pubkeys, signature, lastValidBlockHeight) => {
+      updateQueue((state) => {
+        for (const pubkey of pubkeys) {
+          const entry = findOpenEntry(state, pubkey);
+          if (entry) {
+            entry.inFlight = { signature, lastValidBlockHeight };
+            entry.updatedAt = Date.now();
+          }
+        }
+      });
+    },
+    onTransfersSettled: (settled) => {
+      const paidEntries: Array<{ entry: QueuedPayout; assetAmount?: bigint }> = [];
+      updateQueue((state) => {
+        for (const { pubkey, outcome } of settled) {
+          const entry = findOpenEntry(state, pubkey);
+          if (!entry) {
+            continue;
+          }
+          if ('signature' in outcome) {
+            paidEntries.push({ entry: markPaid(entry, outcome.signature, Date.now()), assetAmount: outcome.assetAmount });
+            paid++;
+          } else {
+            markAttemptFailed(entry, outcome.error, Date.now());
+          }
+        }
+      });
+      const asset: RewardAssetConversion | null = conversion;
+      for (const { entry, assetAmount } of paidEntries) {
+        recordPaidInLedger(entry, asset && assetAmount !== undefined
+          ? { symbol: asset.symbol, decimals: asset.decimals, amount: assetAmount.toString() }
+          : undefined);
+      }
+    },
+  });
+
+  logger.info('Queued payout retry completed', {
+    attempted: due.length,
+    paid,
+    unpaid: due.length - paid,
+    totalDistributed: result.totalDistributed.toString(),
+  });
+
+  return { attempted: due.length, paid, unpaid: due.length - paid };
+}
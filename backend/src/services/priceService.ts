@@ -1,6 +1,8 @@
 import { logger } from '../utils/logger';
+import { projectScoped } from '../utils/projectContext';
 import { getRaydiumPoolId, WSOL_MINT } from '../config/raydium';
-import { tokenMint } from '../config/solana';
+import { getTokenMint } from '../config/solana';
+import { publishPriceUpdate } from './liveFeedService';
 
 /**
  * Price Service - Devnet Only
@@ -18,7 +20,8 @@ interface PriceCache {
   timestamp: number;
 }
 
-let cachedPrice: PriceCache | null = null;
+// Price cache, per project
+const priceCache = projectScoped<{ cachedPrice: PriceCache | null }>(() => ({ cachedPrice: null }));
 const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 /**
@@ -84,18 +87,19 @@ interface RaydiumPoolInfoResponse {
  * Uses cached price if available and fresh (5 minute TTL)
  */
 export async function getNUKEPriceSOL(): Promise<{ price: number | null; source: 'raydium' | null }> {
+  const cache = priceCache();
   try {
     // Check cache first
     const now = Date.now();
-    if (cachedPrice && (now - cachedPrice.timestamp) < PRICE_CACHE_TTL) {
+    if (cache.cachedPrice && (now - cache.cachedPrice.timestamp) < PRICE_CACHE_TTL) {
       logger.debug('Using cached NUKE price (SOL)', {
-        price: cachedPrice.price,
-        source: cachedPrice.source,
-        cachedAt: new Date(cachedPrice.timestamp).toISOString(),
+        price: cache.cachedPrice.price,
+        source: cache.cachedPrice.source,
+        cachedAt: new Date(cache.cachedPrice.timestamp).toISOString(),
       });
       return {
-        price: cachedPrice.price,
-        source: cachedPrice.source,
+        price: cache.cachedPrice.price,
+        source: cache.cachedPrice.source,
       };
     }
 
@@ -104,7 +108,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
     if (!poolId) {
       logger.error('RAYDIUM_POOL_ID not set in environment variables - price cannot be fetched');
       logger.error('Please set RAYDIUM_POOL_ID environment variable to the Raydium devnet pool ID');
-      cachedPrice = {
+      cache.cachedPrice = {
         price: null,
         source: null,
         timestamp: now,
@@ -120,7 +124,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
     
     logger.debug('Fetching NUKE price from Raydium Devnet API', {
       poolId: poolIdString,
-      tokenMint: tokenMint.toBase58(),
+      tokenMint: getTokenMint().toBase58(),
     });
 
     // Step 2: Fetch pool info from Raydium Devnet API
@@ -139,7 +143,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
         poolId: poolIdString,
         apiUrl,
       });
-      cachedPrice = {
+      cache.cachedPrice = {
         price: null,
         source: 'raydium',
         timestamp: now,
@@ -160,7 +164,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
         dataLength: apiData.data?.length || 0,
         poolId: poolIdString,
       });
-      cachedPrice = {
+      cache.cachedPrice = {
         price: null,
         source: 'raydium',
         timestamp: now,
@@ -180,7 +184,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
         returnedPoolId: pool?.id,
         poolId: poolIdString,
       });
-      cachedPrice = {
+      cache.cachedPrice = {
         price: null,
         source: 'raydium',
         timestamp: now,
@@ -205,7 +209,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
     
     let price: number | null = null;
 
-    const tokenMintStr = tokenMint.toBase58();
+    const tokenMintStr = getTokenMint().toBase58();
     const wsolStr = WSOL_MINT.toBase58();
 
     const isStandardCpmm =
@@ -266,11 +270,12 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
         poolId: poolIdString,
       });
 
-      cachedPrice = {
+      cache.cachedPrice = {
         price,
         source: 'raydium',
         timestamp: now,
       };
+      publishPriceUpdate('tekSol', price);
 
       return {
         price,
@@ -282,13 +287,13 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
         price,
         poolBaseMint: pool.baseMint,
         poolQuoteMint: pool.quoteMint,
-        tokenMint: tokenMint.toBase58(),
+        tokenMint: getTokenMint().toBase58(),
         baseTokenTotal: pool.baseTokenTotal,
         quoteTokenTotal: pool.quoteTokenTotal,
         priceNative: pool.priceNative,
       });
 
-      cachedPrice = {
+      cache.cachedPrice = {
         price: null,
         source: 'raydium',
         timestamp: now,
@@ -307,7 +312,7 @@ export async function getNUKEPriceSOL(): Promise<{ price: number | null; source:
     
     // Return null on error
     const now = Date.now();
-    cachedPrice = {
+    cache.cachedPrice = {
       price: null,
       source: 'raydium',
       timestamp: now,
@@ -333,14 +338,14 @@ export async function getNUKEPriceUSD(): Promise<number> {
  * Get price source (always 'raydium' or null for devnet)
  */
 export function getPriceSource(): 'raydium' | null {
-  return cachedPrice?.source || null;
+  return priceCache().cachedPrice?.source || null;
 }
 
 /**
  * Clear price cache (useful for testing or forced refresh)
  */
 export function clearPriceCache(): void {
-  cachedPrice = null;
+  priceCache().cachedPrice = null;
   logger.debug('Price cache cleared');
 }
 
@@ -358,6 +363,7 @@ export async function getPriceDiagnostics(): Promise<{
   cacheAge: number | null;
   apiUrl: string;
 }> {
+  const cache = priceCache();
   const poolId = getRaydiumPoolId();
   const now = Date.now();
   const poolIdString = poolId?.toBase58() || '';
@@ -365,11 +371,11 @@ export async function getPriceDiagnostics(): Promise<{
   return {
     poolIdSet: poolId !== null,
     poolId: poolIdString,
-    tokenMint: tokenMint.toBase58(),
-    lastPrice: cachedPrice?.price || null,
-    lastSource: cachedPrice?.source || null,
-    lastFetchTime: cachedPrice ? new Date(cachedPrice.timestamp).toISOString() : null,
-    cacheAge: cachedPrice ? now - cachedPrice.timestamp : null,
+    tokenMint: getTokenMint().toBase58(),
+    lastPrice: cache.cachedPrice?.price || null,
+    lastSource: cache.cachedPrice?.source || null,
+    lastFetchTime: cache.cachedPrice ? new Date(cache.cachedPrice.timestamp).toISOString() : null,
+    cacheAge: cache.cachedPrice ? now - cache.cachedPrice.timestamp : null,
     apiUrl: poolIdString ? `https://api-v3-devnet.raydium.io/pools/info/ids?ids=${poolIdString}` : 'not set',
   };
 }
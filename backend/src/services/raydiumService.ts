@@ -3,6 +3,8 @@ import { getMint, getAccount, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@s
 import { connection } from '../config/solana';
 import { RAYDIUM_CONFIG, WSOL_MINT } from '../config/raydium';
 import { logger } from '../utils/logger';
+import { projectScoped } from '../utils/projectContext';
+import { publishPriceUpdate } from './liveFeedService';
 
 // Cache for Raydium data
 interface RaydiumCache {
@@ -14,20 +16,26 @@ interface RaydiumCache {
   source: 'raydium' | null;
 }
 
-let cachedRaydiumData: RaydiumCache | null = null;
 const RAYDIUM_CACHE_TTL = 10 * 60 * 1000; // 10 minutes cache
 const RAYDIUM_COOLDOWN = 5 * 60 * 1000; // 5 minutes cooldown between RPC calls
 
-// Track last successful fetch time to enforce cooldown
-let lastRaydiumFetch: number = 0;
-let pendingRaydiumFetch: Promise<{
-  price: number | null;
-  liquidityUSD: number | null;
-  baseVaultBalance: bigint;
-  quoteVaultBalance: bigint;
-  source: 'raydium' | null;
-  updatedAt: string;
-}> | null = null;
+// Pool data cache, last successful fetch time (to enforce cooldown) and in-flight fetch, per project
+const raydiumCaches = projectScoped<{
+  cachedRaydiumData: RaydiumCache | null;
+  lastRaydiumFetch: number;
+  pendingRaydiumFetch: Promise<{
+    price: number | null;
+    liquidityUSD: number | null;
+    baseVaultBalance: bigint;
+    quoteVaultBalance: bigint;
+    source: 'raydium' | null;
+    updatedAt: string;
+  }> | null;
+}>(() => ({
+  cachedRaydiumData: null,
+  lastRaydiumFetch: 0,
+  pendingRaydiumFetch: null,
+}));
 
 // SOL price in USD (fallback if we can't fetch)
 const DEFAULT_SOL_PRICE_USD = 100;
@@ -63,6 +71,7 @@ export async function getSOLPriceUSD(): Promise<number> {
       if (data.data && data.data['So11111111111111111111111111111111111111112']) {
         const price = data.data['So11111111111111111111111111111111111111112'].price;
         if (typeof price === 'number' && price > 0) {
+          publishPriceUpdate('solUsd', price);
           return price;
         }
       }
@@ -276,54 +285,55 @@ export async function getRaydiumData(): Promise<{
   updatedAt: string;
 }> {
   // Check cache first
+  const cache = raydiumCaches();
   const now = Date.now();
-  if (cachedRaydiumData && (now - cachedRaydiumData.timestamp) < RAYDIUM_CACHE_TTL) {
+  if (cache.cachedRaydiumData && (now - cache.cachedRaydiumData.timestamp) < RAYDIUM_CACHE_TTL) {
     logger.debug('Using cached Raydium data', {
-      price: cachedRaydiumData.price,
-      liquidityUSD: cachedRaydiumData.liquidityUSD,
-      cachedAt: new Date(cachedRaydiumData.timestamp).toISOString(),
+      price: cache.cachedRaydiumData.price,
+      liquidityUSD: cache.cachedRaydiumData.liquidityUSD,
+      cachedAt: new Date(cache.cachedRaydiumData.timestamp).toISOString(),
     });
     return {
-      price: cachedRaydiumData.price,
-      liquidityUSD: cachedRaydiumData.liquidityUSD,
-      baseVaultBalance: cachedRaydiumData.baseVaultBalance,
-      quoteVaultBalance: cachedRaydiumData.quoteVaultBalance,
-      source: cachedRaydiumData.source,
-      updatedAt: new Date(cachedRaydiumData.timestamp).toISOString(),
+      price: cache.cachedRaydiumData.price,
+      liquidityUSD: cache.cachedRaydiumData.liquidityUSD,
+      baseVaultBalance: cache.cachedRaydiumData.baseVaultBalance,
+      quoteVaultBalance: cache.cachedRaydiumData.quoteVaultBalance,
+      source: cache.cachedRaydiumData.source,
+      updatedAt: new Date(cache.cachedRaydiumData.timestamp).toISOString(),
     };
   }
 
   // Check cooldown - if within 5 minutes of last fetch, return stale cache
-  const timeSinceLastFetch = now - lastRaydiumFetch;
-  if (lastRaydiumFetch > 0 && timeSinceLastFetch < RAYDIUM_COOLDOWN && cachedRaydiumData) {
+  const timeSinceLastFetch = now - cache.lastRaydiumFetch;
+  if (cache.lastRaydiumFetch > 0 && timeSinceLastFetch < RAYDIUM_COOLDOWN && cache.cachedRaydiumData) {
     logger.debug('Within cooldown period, returning stale Raydium cache', {
       timeSinceLastFetch: Math.round(timeSinceLastFetch / 1000),
-      cacheAge: Math.round((now - cachedRaydiumData.timestamp) / 1000),
+      cacheAge: Math.round((now - cache.cachedRaydiumData.timestamp) / 1000),
     });
     return {
-      price: cachedRaydiumData.price,
-      liquidityUSD: cachedRaydiumData.liquidityUSD,
-      baseVaultBalance: cachedRaydiumData.baseVaultBalance,
-      quoteVaultBalance: cachedRaydiumData.quoteVaultBalance,
-      source: cachedRaydiumData.source,
-      updatedAt: new Date(cachedRaydiumData.timestamp).toISOString(),
+      price: cache.cachedRaydiumData.price,
+      liquidityUSD: cache.cachedRaydiumData.liquidityUSD,
+      baseVaultBalance: cache.cachedRaydiumData.baseVaultBalance,
+      quoteVaultBalance: cache.cachedRaydiumData.quoteVaultBalance,
+      source: cache.cachedRaydiumData.source,
+      updatedAt: new Date(cache.cachedRaydiumData.timestamp).toISOString(),
     };
   }
 
   // If there's already a pending fetch, wait for it
-  if (pendingRaydiumFetch) {
+  if (cache.pendingRaydiumFetch) {
     logger.debug('Raydium fetch already in progress, waiting...');
-    return pendingRaydiumFetch;
+    return cache.pendingRaydiumFetch;
   }
 
   // Create new fetch promise
-  pendingRaydiumFetch = (async () => {
+  cache.pendingRaydiumFetch = (async () => {
     try {
       // Find or use pool ID
       const poolId = await findRaydiumPool(connection, RAYDIUM_CONFIG.baseMint, RAYDIUM_CONFIG.quoteMint);
     if (!poolId) {
       logger.debug('Raydium pool not found or not configured');
-      cachedRaydiumData = {
+      cache.cachedRaydiumData = {
         price: null,
         liquidityUSD: null,
         baseVaultBalance: BigInt(0),
@@ -344,7 +354,7 @@ export async function getRaydiumData(): Promise<{
     // Fetch pool data
     const poolData = await fetchRaydiumPoolData(connection, poolId);
     if (!poolData) {
-      cachedRaydiumData = {
+      cache.cachedRaydiumData = {
         price: null,
         liquidityUSD: null,
         baseVaultBalance: BigInt(0),
@@ -381,7 +391,7 @@ export async function getRaydiumData(): Promise<{
     const liquidityUSD = price !== null ? 2 * quoteAmount * solPriceUSD : null;
 
       // Update cache and last fetch time
-      cachedRaydiumData = {
+      cache.cachedRaydiumData = {
         price,
         liquidityUSD,
         baseVaultBalance: poolData.baseVaultBalance,
@@ -389,7 +399,7 @@ export async function getRaydiumData(): Promise<{
         timestamp: now,
         source: 'raydium',
       };
-      lastRaydiumFetch = now;
+      cache.lastRaydiumFetch = now;
 
       logger.info('Raydium data fetched', {
         price,
@@ -414,17 +424,17 @@ export async function getRaydiumData(): Promise<{
       };
     } catch (error) {
       // If it's a rate limit error and we have stale cache, return it
-      if (isRateLimitError(error) && cachedRaydiumData) {
+      if (isRateLimitError(error) && cache.cachedRaydiumData) {
         logger.warn('Rate limit hit, returning stale Raydium cache', {
-          cacheAge: Math.round((Date.now() - cachedRaydiumData.timestamp) / 1000),
+          cacheAge: Math.round((Date.now() - cache.cachedRaydiumData.timestamp) / 1000),
         });
         return {
-          price: cachedRaydiumData.price,
-          liquidityUSD: cachedRaydiumData.liquidityUSD,
-          baseVaultBalance: cachedRaydiumData.baseVaultBalance,
-          quoteVaultBalance: cachedRaydiumData.quoteVaultBalance,
-          source: cachedRaydiumData.source,
-          updatedAt: new Date(cachedRaydiumData.timestamp).toISOString(),
+          price: cache.cachedRaydiumData.price,
+          liquidityUSD: cache.cachedRaydiumData.liquidityUSD,
+          baseVaultBalance: cache.cachedRaydiumData.baseVaultBalance,
+          quoteVaultBalance: cache.cachedRaydiumData.quoteVaultBalance,
+          source: cache.cachedRaydiumData.source,
+          updatedAt: new Date(cache.cachedRaydiumData.timestamp).toISOString(),
         };
       }
 
@@ -441,7 +451,7 @@ export async function getRaydiumData(): Promise<{
       
       // Return null data
       const errorNow = Date.now();
-      cachedRaydiumData = {
+      cache.cachedRaydiumData = {
         price: null,
         liquidityUSD: null,
         baseVaultBalance: BigInt(0),
@@ -460,11 +470,11 @@ export async function getRaydiumData(): Promise<{
       };
     } finally {
       // Clear pending fetch
-      pendingRaydiumFetch = null;
+      cache.pendingRaydiumFetch = null;
     }
   })();
 
-  return pendingRaydiumFetch;
+  return cache.pendingRaydiumFetch;
 }
 
 /**
@@ -501,7 +511,7 @@ export async function getRaydiumPriceUSD(): Promise<number | null> {
  * Clear Raydium cache (useful for testing or forced refresh)
  */
 export function clearRaydiumCache(): void {
-  cachedRaydiumData = null;
+  raydiumCaches().cachedRaydiumData = null;
   logger.debug('Raydium cache cleared');
 }
 
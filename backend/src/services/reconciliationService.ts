@@ -0,0 +1,751 @@
+import { createHash } from 'crypto';
+import { PublicKey, type ConfirmedSignatureInfo, type VersionedTransactionResponse } from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import { connection, getTokenMint } from '../config/solana';
+import { getActiveProject } from '../utils/projectContext';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { logger } from '../utils/logger';
+import { getAllEpochStates, getEpochState, type CycleResult } from './cycleService';
+import { getActiveCycleJournal, getCycleJournalHistory, type CycleJournal } from './cycleJournalService';
+import { getEpochPayoutRecords, getPayoutSignatures } from './walletLedgerService';
+import { getPayoutPreferences } from './holderPreferencesService';
+
+/**
+ * Reconciliation Service
+ *
+ * Checks what the reward pipeline recorded for an epoch (one UTC day, see
+ * cycleService) against the chain:
+ *
+ * - every recorded signature (harvest, withdraw, swap, holder payout, payout
+ *   retry, split bucket transfer, reward asset conversion) must exist and have
+ *   the outcome that was recorded
+ * - holder payouts, bucket transfers and withdrawals must credit the recorded
+ *   recipient with the recorded amount
+ * - every transaction of the reward wallet inside the epoch that moved SOL out
+ *   of it (beyond the fee) must be a recorded one
+ *
+ * Records come from the cycle journals (the last 50 cycles), the cycle
+ * summaries of the epoch state for older cycles, and the wallet ledger's payout
+ * records. Bucket amounts of a cycle summary are rounded to 6 decimals and are
+ * compared with a matching tolerance.
+ *
+ * Treasury totals are read from the reward wallet's history, which holds every
+ * transfer the pipeline made to the treasury.
+ *
+ * The report is deterministic for the same records and chain state: entries
+ * are sorted and reportHash covers everything but generatedAt.
+ */
+
+export type ReconciledTransactionKind =
+  | 'harvest'
+  | 'withdraw'
+  | 'swap'
+  | 'holder_payout'
+  | 'payout_retry'
+  | 'bucket_transfer'
+  | 'asset_conversion';
+
+export type ReconciliationFindingType =
+  | 'MISSING_TRANSACTION' // Recorded as sent, not found on chain
+  | 'FAILED_RECORDED_AS_SUCCESS' // Landed with an error, recorded as successful
+  | 'LANDED_RECORDED_AS_FAILED' // Succeeded on chain, recorded as failed
+  | 'RECIPIENT_NOT_CREDITED' // The recorded recipient received nothing
+  | 'AMOUNT_MISMATCH' // The recipient received a different amount
+  | 'UNACCOUNTED_OUTFLOW'; // SOL left the reward wallet in an unrecorded transaction
+
+export interface ReconciliationFinding {
+  type: ReconciliationFindingType;
+  signature: string;
+  kind: ReconciledTransactionKind | null; // null for unrecorded transactions
+  cycleNumber: number | null;
+  recipient: string | null;
+  expected: string | null; // Raw units (lamports, or token units for token transfers)
+  observed: string | null;
+  message: string;
+}
+
+export interface ReconciledTransaction {
+  signature: string;
+  kind: ReconciledTransactionKind;
+  cycleNumber: number | null;
+  source: 'journal' | 'cycle' | 'ledger';
+  recordedStatus: 'success' | 'failed';
+  onChainStatus: 'success' | 'failed' | 'missing';
+  slot: number | null;
+  blockTime: number | null;
+  transfersChecked: number;
+  ok: boolean;
+}
+
+export interface EpochReconciliationReport {
+  project: string;
+  epoch: string;
+  window: { start: string; end: string }; // Reward wallet history scanned for unrecorded outflows
+  rewardWallet: string;
+  treasuryWallet: string;
+  coverage: {
+    cycles: number;
+    cyclesFromJournal: number;
+    cyclesFromSummary: number; // Journal no longer kept
+    ledgerPayouts: number;
+    rewardWalletTransactions: number;
+    historyTruncated: boolean; // The history scan hit its limit
+  };
+  totals: {
+    recordedTransactions: number;
+    verifiedTransactions: number;
+    findings: number;
+    rewardWalletOutflowLamports: string;
+    unaccountedOutflowLamports: string;
+    treasuryRecordedLamports: string; // Bucket transfers to the treasury recorded for the epoch
+    treasuryReceivedLamports: string; // Received from the reward wallet inside the window
+  };
+  transactions: ReconciledTransaction[];
+  findings: ReconciliationFinding[];
+  ok: boolean;
+  reportHash: string; // sha256 of the report without generatedAt and reportHash
+  generatedAt: string;
+}
+
+interface ExpectedTransfer {
+  recipients: string[]; // Any of these may be credited (a holder or their payout destination)
+  lamports: bigint | null; // null: amount not recorded
+  toleranceLamports: bigint;
+  token: { mint: string; amount: bigint } | null; // Paid in a token instead of SOL
+}
+
+interface RecordedTransaction {
+  signature: string;
+  kind: ReconciledTransactionKind;
+  cycleNumber: number | null;
+  source: 'journal' | 'cycle' | 'ledger';
+  recordedStatus: 'success' | 'failed';
+  transfers: ExpectedTransfer[];
+}
+
+type PayoutDestinations = ReturnType<typeof getPayoutPreferences>;
+
+// Bucket amounts in cycle summaries are SOL with 6 decimals
+const SUMMARY_TOLERANCE_LAMPORTS = 1_000n;
+
+const TRANSACTION_FETCH_CHUNK = 25;
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_HISTORY_PAGES = 50;
+
+const EPOCH_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get the UTC day of an epoch
+ * @throws Error if the epoch is not a YYYY-MM-DD date
+ */
+function getEpochWindow(epoch: string): { start: number; end: number } {
+  const start = EPOCH_PATTERN.test(epoch) ? Date.parse(`${epoch}T00:00:00.000Z`) : NaN;
+  if (Number.isNaN(start)) {
+    throw new Error(`Invalid epoch: ${epoch} (expected YYYY-MM-DD)`);
+  }
+  return { start, end: start + 24 * 60 * 60 * 1000 };
+}
+
+function getRewardWalletAddress(): string {
+  const project = getActiveProject();
+  return project.rewardWalletAddress ?? loadKeypairFromEnv(project.rewardWalletEnv).publicKey.toBase58();
+}
+
+/**
+ * Journals of an epoch (manual cycles have no epoch and are matched by start time)
+ */
+function getEpochJournals(epoch: string, window: { start: number; end: number }): CycleJournal[] {
+  const active = getActiveCycleJournal();
+  return [...(active ? [active] : []), ...getCycleJournalHistory()].filter((journal) =>
+    journal.epoch === epoch ||
+    (journal.epoch === null && journal.startedAt >= window.start && journal.startedAt < window.end)
+  );
+}
+
+/**
+ * Add a recorded transaction, merging records sharing a signature
+ * Transfers to the same recipient add up within a source (e.g. two holders with
+ * the same payout destination) and are kept once across sources.
+ */
+function addRecord(records: Map<string, RecordedTransaction>, record: RecordedTransaction): void {
+  const existing = records.get(record.signature);
+  if (!existing) {
+    records.set(record.signature, record);
+    return;
+  }
+  for (const transfer of record.transfers) {
+    const known = existing.transfers.find((candidate) =>
+      candidate.recipients.some((recipient) => transfer.recipients.includes(recipient))
+    );
+    if (!known) {
+      existing.transfers.push(transfer);
+    } else if (existing.source === record.source) {
+      known.lamports = known.lamports !== null && transfer.lamports !== null ? known.lamports + transfer.lamports : null;
+      if (known.token && transfer.token?.mint === known.token.mint) {
+        known.token.amount += transfer.token.amount;
+      }
+    }
+  }
+  if (record.recordedStatus === 'success') {
+    existing.recordedStatus = 'success';
+  }
+}
+
+function collectJournalRecords(
+  journal: CycleJournal,
+  rewardWallet: string,
+  destinations: PayoutDestinations,
+  records: Map<string, RecordedTransaction>
+): void {
+  const base = { cycleNumber: journal.cycleNumber, source: 'journal' as const };
+
+  for (const step of journal.steps) {
+    if (!step.signature || step.status === 'STARTED') {
+      continue; // Never sent, or the outcome is still unknown
+    }
+    const recordedStatus = step.status === 'CONFIRMED' ? 'success' : 'failed';
+    const transfers: ExpectedTransfer[] = [];
+    let kind: ReconciledTransactionKind;
+
+    switch (step.step) {
+      case 'HARVEST':
+        kind = 'harvest';
+        break;
+      case 'WITHDRAW': {
+        kind = 'withdraw';
+        const withdrawn = BigInt(step.data.withdrawnAmount || '0');
+        if (withdrawn > 0n) {
+          transfers.push({
+            recipients: [rewardWallet],
+            lamports: null,
+            toleranceLamports: 0n,
+            token: { mint: getTokenMint().toBase58(), amount: withdrawn },
+          });
+        }
+        break;
+      }
+      case 'SWAP':
+        kind = 'swap';
+        break;
+      case 'ASSET_SWAP':
+        kind = 'asset_conversion';
+        break;
+      case 'BUCKET_TRANSFER': {
+        kind = 'bucket_transfer';
+        const bucket = step.batchIndex !== undefined ? journal.splitPlan?.[step.batchIndex] : undefined;
+        if (bucket?.destination) {
+          transfers.push({
+            recipients: [bucket.destination],
+            lamports: BigInt(bucket.amountLamports),
+            toleranceLamports: 0n,
+            token: null,
+          });
+        }
+        break;
+      }
+      default:
+        continue; // HOLDER_TRANSFERS has no signature of its own
+    }
+
+    addRecord(records, { signature: step.signature, kind, ...base, recordedStatus, transfers });
+  }
+
+  const conversion = journal.assetConversion;
+  if (conversion) {
+    addRecord(records, {
+      signature: conversion.signature,
+      kind: 'asset_conversion',
+      ...base,
+      recordedStatus: 'success',
+      transfers: [],
+    });
+  }
+
+  for (const payout of journal.holderPayouts ?? []) {
+    if (!payout.signature || (payout.status !== 'CONFIRMED' && payout.status !== 'FAILED')) {
+      continue;
+    }
+    const destination = destinations.get(payout.pubkey)?.payoutDestination;
+    const assetMint = payout.assetAmount !== undefined ? conversion?.mint : undefined;
+    addRecord(records, {
+      signature: payout.signature,
+      kind: 'holder_payout',
+      ...base,
+      recordedStatus: payout.status === 'CONFIRMED' ? 'success' : 'failed',
+      transfers: [{
+        recipients: destination ? [payout.pubkey, destination] : [payout.pubkey],
+        lamports: assetMint ? null : BigInt(payout.amountLamports),
+        toleranceLamports: 0n,
+        token: assetMint ? { mint: assetMint, amount: BigInt(payout.assetAmount!) } : null,
+      }],
+    });
+  }
+}
+
+function collectCycleSummaryRecords(cycle: CycleResult, records: Map<string, RecordedTransaction>): void {
+  const taxResult = cycle.taxResult;
+  if (!taxResult) {
+    return;
+  }
+  const base = { cycleNumber: cycle.cycleNumber, source: 'cycle' as const, recordedStatus: 'success' as const };
+
+  for (const signature of (taxResult.swapSignature ?? '').split(',')) {
+    if (signature.trim()) {
+      addRecord(records, { signature: signature.trim(), kind: 'swap', ...base, transfers: [] });
+    }
+  }
+
+  for (const bucket of taxResult.split ?? []) {
+    if (!bucket.signature || !bucket.destination) {
+      continue;
+    }
+    addRecord(records, {
+      signature: bucket.signature,
+      kind: 'bucket_transfer',
+      ...base,
+      transfers: [{
+        recipients: [bucket.destination],
+        lamports: BigInt(Math.round(parseFloat(bucket.amountSOL) * 1e9)),
+        toleranceLamports: SUMMARY_TOLERANCE_LAMPORTS,
+        token: null,
+      }],
+    });
+  }
+}
+
+/**
+ * Collect the recorded transactions of an epoch
+ */
+function collectRecords(epoch: string, window: { start: number; end: number }, rewardWallet: string): {
+  records: Map<string, RecordedTransaction>;
+  coverage: { cycles: number; cyclesFromJournal: number; cyclesFromSummary: number; ledgerPayouts: number };
+} {
+  const records = new Map<string, RecordedTransaction>();
+  const destinations = getPayoutPreferences();
+
+  const journals = getEpochJournals(epoch, window);
+  const journalIds = new Set(journals.map((journal) => journal.id));
+  const journaledCycles = new Set(journals.map((journal) => journal.cycleNumber));
+  for (const journal of journals) {
+    collectJournalRecords(journal, rewardWallet, destinations, records);
+  }
+
+  const cycles = getEpochState(epoch)?.cycles ?? [];
+  let cyclesFromSummary = 0;
+  for (const cycle of cycles) {
+    if (journaledCycles.has(cycle.cycleNumber) || (cycle.journalId && journalIds.has(cycle.journalId))) {
+      continue;
+    }
+    if (cycle.taxResult) {
+      cyclesFromSummary++;
+      collectCycleSummaryRecords(cycle, records);
+    }
+  }
+
+  const payouts = getEpochPayoutRecords(epoch);
+  const ledgerTransfers = new Set<string>();
+  for (const { wallet, record, paidWithSignatureLamports } of payouts) {
+    if (!record.signature || (record.source === 'cycle' && record.journalId && journalIds.has(record.journalId))) {
+      continue; // Not sent, or already checked from its journal
+    }
+    // paidWithSignatureLamports already covers every record of the wallet sharing the signature
+    if (ledgerTransfers.has(`${wallet}:${record.signature}`)) {
+      continue;
+    }
+    ledgerTransfers.add(`${wallet}:${record.signature}`);
+    const destination = destinations.get(wallet)?.payoutDestination;
+    addRecord(records, {
+      signature: record.signature,
+      kind: record.source === 'retry' ? 'payout_retry' : 'holder_payout',
+      cycleNumber: record.cycleNumber,
+      source: 'ledger',
+      recordedStatus: record.status === 'paid' ? 'success' : 'failed',
+      transfers: [{
+        recipients: destination ? [wallet, destination] : [wallet],
+        // The ledger does not record the reward asset - the amount is checked for SOL payouts only
+        lamports: paidWithSignatureLamports !== null ? BigInt(paidWithSignatureLamports) : null,
+        toleranceLamports: 0n,
+        token: null,
+      }],
+    });
+  }
+
+  return {
+    records,
+    coverage: {
+      cycles: cycles.length,
+      cyclesFromJournal: journals.length,
+      cyclesFromSummary,
+      ledgerPayouts: payouts.length,
+    },
+  };
+}
+
+/**
+ * Every signature the pipeline ever recorded (payout retries and cycles running
+ * past midnight land outside their own epoch)
+ */
+function getAllRecordedSignatures(rewardWallet: string): Set<string> {
+  const records = new Map<string, RecordedTransaction>();
+  const destinations = getPayoutPreferences();
+  const active = getActiveCycleJournal();
+  for (const journal of [...(active ? [active] : []), ...getCycleJournalHistory()]) {
+    collectJournalRecords(journal, rewardWallet, destinations, records);
+  }
+  for (const state of getAllEpochStates()) {
+    for (const cycle of state.cycles) {
+      collectCycleSummaryRecords(cycle, records);
+    }
+  }
+  return new Set([...records.keys(), ...getPayoutSignatures()]);
+}
+
+/**
+ * Fetch transactions, reusing those already fetched
+ */
+async function fetchTransactions(
+  signatures: string[],
+  cache: Map<string, VersionedTransactionResponse | null>
+): Promise<void> {
+  const missing = signatures.filter((signature) => !cache.has(signature));
+  for (let i = 0; i < missing.length; i += TRANSACTION_FETCH_CHUNK) {
+    const chunk = missing.slice(i, i + TRANSACTION_FETCH_CHUNK);
+    const transactions = await connection.getTransactions(chunk, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    chunk.forEach((signature, index) => cache.set(signature, transactions[index] ?? null));
+  }
+}
+
+/**
+ * Signatures of an address inside a time window, newest first
+ * Signatures listed without a block time are dated from their slot, and
+ * skipped if that fails too.
+ */
+async function getSignaturesInWindow(
+  address: PublicKey,
+  window: { start: number; end: number }
+): Promise<{ signatures: ConfirmedSignatureInfo[]; truncated: boolean }> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const infos = await connection.getSignaturesForAddress(address, { before, limit: SIGNATURE_PAGE_SIZE }, 'confirmed');
+    for (const info of infos) {
+      // Signatures come newest first, but only one with a known time can end the scan
+      const blockTime = info.blockTime ?? await connection.getBlockTime(info.slot).catch(() => null);
+      if (blockTime === null) {
+        logger.warn('Skipping reward wallet transaction without a block time', { signature: info.signature, slot: info.slot });
+        continue;
+      }
+      const at = blockTime * 1000;
+      if (at >= window.end) {
+        continue;
+      }
+      if (at < window.start) {
+        return { signatures, truncated: false };
+      }
+      signatures.push(info);
+    }
+    if (infos.length < SIGNATURE_PAGE_SIZE) {
+      return { signatures, truncated: false };
+    }
+    before = infos[infos.length - 1].signature;
+  }
+
+  return { signatures, truncated: true };
+}
+
+/**
+ * Balance changes of a transaction by account (lamports) and by owner + mint (tokens)
+ */
+function getBalanceChanges(transaction: VersionedTransactionResponse): {
+  feePayer: string;
+  fee: bigint;
+  lamports: Map<string, bigint>;
+  tokens: Map<string, bigint>; // Key: `${owner}:${mint}`
+} {
+  const meta = transaction.meta!;
+  const keys = transaction.transaction.message
+    .getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses })
+    .keySegments()
+    .flat()
+    .map((key) => key.toBase58());
+
+  const lamports = new Map<string, bigint>();
+  keys.forEach((key, index) => {
+    const delta = BigInt(meta.postBalances[index] ?? 0) - BigInt(meta.preBalances[index] ?? 0);
+    lamports.set(key, (lamports.get(key) ?? 0n) + delta);
+  });
+
+  const tokens = new Map<string, bigint>();
+  const addTokenBalance = (balance: { owner?: string; mint: string; uiTokenAmount: { amount: string } }, sign: bigint) => {
+    if (!balance.owner) {
+      return;
+    }
+    const key = `${balance.owner}:${balance.mint}`;
+    tokens.set(key, (tokens.get(key) ?? 0n) + sign * BigInt(balance.uiTokenAmount.amount));
+  };
+  for (const balance of meta.preTokenBalances ?? []) {
+    addTokenBalance(balance, -1n);
+  }
+  for (const balance of meta.postTokenBalances ?? []) {
+    addTokenBalance(balance, 1n);
+  }
+
+  return { feePayer: keys[0], fee: BigInt(meta.fee), lamports, tokens };
+}
+
+/**
+ * SOL (including WSOL) that left a wallet in a transaction, excluding the fee it paid
+ */
+function getOutflowLamports(changes: ReturnType<typeof getBalanceChanges>, wallet: string): bigint {
+  const fee = changes.feePayer === wallet ? changes.fee : 0n;
+  const delta = (changes.lamports.get(wallet) ?? 0n) + fee + (changes.tokens.get(`${wallet}:${NATIVE_MINT.toBase58()}`) ?? 0n);
+  return delta < 0n ? -delta : 0n;
+}
+
+/**
+ * Check the transfers of a landed transaction
+ */
+function checkTransfers(
+  record: RecordedTransaction,
+  changes: ReturnType<typeof getBalanceChanges>
+): ReconciliationFinding[] {
+  const findings: ReconciliationFinding[] = [];
+  const base = { signature: record.signature, kind: record.kind, cycleNumber: record.cycleNumber };
+
+  for (const transfer of record.transfers) {
+    const recipientLabel = transfer.recipients.join(' or ');
+
+    if (transfer.token) {
+      const token = transfer.token;
+      const credited = transfer.recipients
+        .map((recipient) => changes.tokens.get(`${recipient}:${token.mint}`) ?? 0n)
+        .find((delta) => delta > 0n);
+      if (credited === undefined) {
+        findings.push({
+          type: 'RECIPIENT_NOT_CREDITED',
+          ...base,
+          recipient: recipientLabel,
+          expected: token.amount.toString(),
+          observed: '0',
+          message: `${recipientLabel} received no ${token.mint}`,
+        });
+      } else if (credited !== token.amount) {
+        findings.push({
+          type: 'AMOUNT_MISMATCH',
+          ...base,
+          recipient: recipientLabel,
+          expected: token.amount.toString(),
+          observed: credited.toString(),
+          message: `${recipientLabel} received ${credited} ${token.mint}, recorded ${token.amount}`,
+        });
+      }
+      continue;
+    }
+
+    const credited = transfer.recipients
+      .map((recipient) => changes.lamports.get(recipient) ?? 0n)
+      .find((delta) => delta > 0n);
+    if (credited === undefined) {
+      // A payout recorded by the ledger only may have been paid in the reward asset
+      const creditedInToken = transfer.lamports !== null && record.source === 'ledger' &&
+        Array.from(changes.tokens.entries()).some(([key, delta]) =>
+          delta > 0n && transfer.recipients.includes(key.split(':')[0])
+        );
+      if (!creditedInToken) {
+        findings.push({
+          type: 'RECIPIENT_NOT_CREDITED',
+          ...base,
+          recipient: recipientLabel,
+          expected: transfer.lamports?.toString() ?? null,
+          observed: '0',
+          message: `${recipientLabel} received no SOL`,
+        });
+      }
+    } else if (transfer.lamports !== null) {
+      const difference = credited > transfer.lamports ? credited - transfer.lamports : transfer.lamports - credited;
+      if (difference > transfer.toleranceLamports) {
+        findings.push({
+          type: 'AMOUNT_MISMATCH',
+          ...base,
+          recipient: recipientLabel,
+          expected: transfer.lamports.toString(),
+          observed: credited.toString(),
+          message: `${recipientLabel} received ${credited} lamports, recorded ${transfer.lamports}`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+function compareFindings(a: ReconciliationFinding, b: ReconciliationFinding): number {
+  return (a.cycleNumber ?? Number.MAX_SAFE_INTEGER) - (b.cycleNumber ?? Number.MAX_SAFE_INTEGER) ||
+    a.signature.localeCompare(b.signature) ||
+    a.type.localeCompare(b.type) ||
+    (a.recipient ?? '').localeCompare(b.recipient ?? '');
+}
+
+/**
+ * Reconcile an epoch's recorded transactions with the chain
+ * @param epoch - UTC day (YYYY-MM-DD)
+ * @throws Error if the epoch is invalid or the RPC cannot be read
+ */
+export async function reconcileEpoch(epoch: string): Promise<EpochReconciliationReport> {
+  const window = getEpochWindow(epoch);
+  const project = getActiveProject();
+  const rewardWallet = getRewardWalletAddress();
+  const treasuryWallet = project.treasuryWalletAddress;
+
+  const { records, coverage } = collectRecords(epoch, window, rewardWallet);
+  const cache = new Map<string, VersionedTransactionResponse | null>();
+  await fetchTransactions(Array.from(records.keys()), cache);
+
+  const findings: ReconciliationFinding[] = [];
+  const transactions: ReconciledTransaction[] = [];
+  let treasuryRecorded = 0n;
+
+  for (const record of records.values()) {
+    const transaction = cache.get(record.signature) ?? null;
+    const onChainStatus = !transaction ? 'missing' : transaction.meta?.err ? 'failed' : 'success';
+    const recordFindings: ReconciliationFinding[] = [];
+    const base = { signature: record.signature, kind: record.kind, cycleNumber: record.cycleNumber, recipient: null };
+
+    if (record.recordedStatus === 'success') {
+      for (const transfer of record.transfers) {
+        if (transfer.recipients.includes(treasuryWallet) && transfer.lamports !== null) {
+          treasuryRecorded += transfer.lamports;
+        }
+      }
+    }
+
+    if (record.recordedStatus === 'success' && onChainStatus === 'missing') {
+      recordFindings.push({
+        type: 'MISSING_TRANSACTION',
+        ...base,
+        expected: null,
+        observed: null,
+        message: `Recorded ${record.kind.replace(/_/g, ' ')} transaction not found on chain`,
+      });
+    } else if (record.recordedStatus === 'success' && onChainStatus === 'failed') {
+      recordFindings.push({
+        type: 'FAILED_RECORDED_AS_SUCCESS',
+        ...base,
+        expected: null,
+        observed: JSON.stringify(transaction?.meta?.err),
+        message: 'Recorded as successful but failed on chain',
+      });
+    } else if (record.recordedStatus === 'failed' && onChainStatus === 'success') {
+      recordFindings.push({
+        type: 'LANDED_RECORDED_AS_FAILED',
+        ...base,
+        expected: null,
+        observed: null,
+        message: 'Recorded as failed but succeeded on chain',
+      });
+    } else if (record.recordedStatus === 'success' && transaction?.meta) {
+      recordFindings.push(...checkTransfers(record, getBalanceChanges(transaction)));
+    }
+
+    findings.push(...recordFindings);
+    transactions.push({
+      signature: record.signature,
+      kind: record.kind,
+      cycleNumber: record.cycleNumber,
+      source: record.source,
+      recordedStatus: record.recordedStatus,
+      onChainStatus,
+      slot: transaction?.slot ?? null,
+      blockTime: transaction?.blockTime ?? null,
+      transfersChecked: record.recordedStatus === 'success' && onChainStatus === 'success' ? record.transfers.length : 0,
+      ok: recordFindings.length === 0,
+    });
+  }
+
+  // Reward wallet history: every outflow must be recorded
+  const history = await getSignaturesInWindow(new PublicKey(rewardWallet), window);
+  const landed = history.signatures.filter((info) => info.err === null).map((info) => info.signature);
+  await fetchTransactions(landed, cache);
+
+  const knownSignatures = getAllRecordedSignatures(rewardWallet);
+  let outflow = 0n;
+  let unaccounted = 0n;
+  let treasuryReceived = 0n;
+  for (const signature of landed) {
+    const transaction = cache.get(signature);
+    if (!transaction?.meta) {
+      continue;
+    }
+    const changes = getBalanceChanges(transaction);
+    const transactionOutflow = getOutflowLamports(changes, rewardWallet);
+    outflow += transactionOutflow;
+    if (treasuryWallet !== rewardWallet) {
+      const toTreasury = changes.lamports.get(treasuryWallet) ?? 0n;
+      if (toTreasury > 0n && transactionOutflow > 0n) {
+        treasuryReceived += toTreasury;
+      }
+    }
+
+    if (transactionOutflow > 0n && !knownSignatures.has(signature)) {
+      unaccounted += transactionOutflow;
+      findings.push({
+        type: 'UNACCOUNTED_OUTFLOW',
+        signature,
+        kind: null,
+        cycleNumber: null,
+        recipient: null,
+        expected: '0',
+        observed: transactionOutflow.toString(),
+        message: `${transactionOutflow} lamports left the reward wallet in an unrecorded transaction`,
+      });
+    }
+  }
+
+  transactions.sort((a, b) =>
+    (a.cycleNumber ?? Number.MAX_SAFE_INTEGER) - (b.cycleNumber ?? Number.MAX_SAFE_INTEGER) ||
+    a.kind.localeCompare(b.kind) ||
+    a.signature.localeCompare(b.signature)
+  );
+  findings.sort(compareFindings);
+
+  const body = {
+    project: project.id,
+    epoch,
+    window: { start: new Date(window.start).toISOString(), end: new Date(window.end).toISOString() },
+    rewardWallet,
+    treasuryWallet,
+    coverage: {
+      ...coverage,
+      rewardWalletTransactions: history.signatures.length,
+      historyTruncated: history.truncated,
+    },
+    totals: {
+      recordedTransactions: transactions.length,
+      verifiedTransactions: transactions.filter((transaction) => transaction.ok).length,
+      findings: findings.length,
+      rewardWalletOutflowLamports: outflow.toString(),
+      unaccountedOutflowLamports: unaccounted.toString(),
+      treasuryRecordedLamports: treasuryRecorded.toString(),
+      treasuryReceivedLamports: treasuryReceived.toString(),
+    },
+    transactions,
+    findings,
+    ok: findings.length === 0 && !history.truncated,
+  };
+  const reportHash = createHash('sha256').update(JSON.stringify(body)).digest('hex');
+
+  logger.info('Epoch reconciled', {
+    project: project.id,
+    epoch,
+    recordedTransactions: transactions.length,
+    findings: findings.length,
+    historyTruncated: history.truncated,
+    reportHash,
+  });
+
+  return { ...body, reportHash, generatedAt: new Date().toISOString() };
+}
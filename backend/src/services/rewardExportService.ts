@@ -1,15 +1,39 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as XLSX from 'xlsx';
+import { createObjectCsvStringifier } from 'csv-writer';
 import { logger } from '../utils/logger';
 import {
   getHistoricalRewardCycles,
   getHistoricalPayouts,
+  type HistoricalPayout,
+  type RewardCycle,
 } from './rewardHistoryService';
 import { getNUKEPriceUSD } from './priceService';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
+import { reconcileEpoch, type EpochReconciliationReport } from './reconciliationService';
 
 const EXPORTS_DIR = path.join(process.cwd(), 'exports');
 const MAX_EXPORTS_TO_KEEP = 30; // Keep last 30 exports
+const HISTORY_PAGE_SIZE = 1000; // Rows read from the reward history and written per chunk
+
+/**
+ * Export file formats
+ * - xlsx: workbook with a Metadata sheet and one sheet per table
+ * - csv: one table with a header row, no metadata
+ * - json: one document with the metadata and a row array per table
+ * - ndjson: one row per line, tagged with its record type
+ */
+export type ExportFormat = 'xlsx' | 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['xlsx', 'csv', 'json', 'ndjson'];
+
+const EXPORT_CONTENT_TYPES: Record<string, string> = {
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.csv': 'text/csv; charset=utf-8',
+  '.json': 'application/json',
+  '.ndjson': 'application/x-ndjson',
+};
 
 interface ExportParams {
   startDate?: string;
@@ -21,18 +45,71 @@ interface ExportParams {
 interface ExportFile {
   filename: string;
   filepath: string;
-  type: 'rewards' | 'payouts' | 'combined';
+  type: 'rewards' | 'payouts' | 'combined' | 'reconciliation';
+  format?: ExportFormat; // Absent on exports made before formats were added (xlsx)
   timestamp: string;
   recordCount: number;
+  epoch?: string; // Reconciliation reports only
 }
 
 interface ExportManifest {
-  latest: ExportFile | null;
+  latest: ExportFile | null; // Latest Excel export (other formats and reconciliation reports are not served as latest)
   exports: ExportFile[];
   lastUpdated: string;
 }
 
-const MANIFEST_FILE = path.join(EXPORTS_DIR, 'manifest.json');
+type MetadataRows = Array<Array<string | number>>;
+
+type ExportRow = Record<string, string | number | null>;
+
+interface ExportColumn {
+  key: string;
+  title: string;
+  empty?: string; // Shown for a missing value in xlsx and csv
+}
+
+interface ExportTable {
+  sheet: string; // xlsx sheet name
+  key: string; // json property
+  record: string; // Record type in ndjson and combined csv
+  columns: ExportColumn[];
+  pages: () => Iterable<ExportRow[]>; // Reads the rows from the reward history, one page at a time
+}
+
+const CYCLE_COLUMNS: ExportColumn[] = [
+  { key: 'timestamp', title: 'Timestamp' },
+  { key: 'totalSOLDistributed', title: 'Total SOL Distributed' },
+  { key: 'eligibleHoldersCount', title: 'Eligible Holders' },
+  { key: 'excludedHoldersCount', title: 'Excluded Holders' },
+  { key: 'blacklistedHoldersCount', title: 'Blacklisted Holders' },
+  { key: 'totalHoldersCount', title: 'Total Holders' },
+  { key: 'tokenPriceUSD', title: 'Token Price (USD)' },
+];
+
+const PAYOUT_COLUMNS: ExportColumn[] = [
+  { key: 'timestamp', title: 'Timestamp' },
+  { key: 'pubkey', title: 'Recipient Pubkey' },
+  { key: 'rewardSOL', title: 'Reward SOL' },
+  { key: 'status', title: 'Status' },
+  { key: 'retryCount', title: 'Retry Count' },
+  { key: 'queuedAt', title: 'Queued At' },
+  { key: 'executedAt', title: 'Executed At', empty: 'Never' },
+  { key: 'transactionSignature', title: 'Transaction Signature' },
+];
+
+/**
+ * Content type of an export file, by extension
+ */
+export function getExportContentType(filename: string): string {
+  return EXPORT_CONTENT_TYPES[path.extname(filename)] ?? 'application/octet-stream';
+}
+
+/**
+ * Whether an export can be served as the latest one
+ */
+function isLatestCandidate(exportFile: ExportFile): boolean {
+  return exportFile.type !== 'reconciliation' && (exportFile.format ?? 'xlsx') === 'xlsx';
+}
 
 /**
  * Ensure exports directory exists
@@ -49,9 +126,9 @@ function ensureExportsDir(): void {
  */
 function loadManifest(): ExportManifest {
   try {
-    if (fs.existsSync(MANIFEST_FILE)) {
-      const data = fs.readFileSync(MANIFEST_FILE, 'utf-8');
-      return JSON.parse(data);
+    const manifest = readDocument<ExportManifest>(STORAGE_KEYS.EXPORT_MANIFEST);
+    if (manifest) {
+      return manifest;
     }
   } catch (error) {
     logger.warn('Failed to load export manifest, using defaults', {
@@ -71,8 +148,7 @@ function loadManifest(): ExportManifest {
  */
 function saveManifest(manifest: ExportManifest): void {
   try {
-    ensureExportsDir();
-    fs.writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2), 'utf-8');
+    writeDocument<ExportManifest>(STORAGE_KEYS.EXPORT_MANIFEST, manifest);
   } catch (error) {
     logger.error('Failed to save export manifest', {
       error: error instanceof Error ? error.message : String(error),
@@ -113,7 +189,7 @@ function cleanupOldExports(): void {
 
     // Update manifest
     manifest.exports = sortedExports.slice(-MAX_EXPORTS_TO_KEEP);
-    manifest.latest = manifest.exports[manifest.exports.length - 1] || null;
+    manifest.latest = [...manifest.exports].reverse().find(isLatestCandidate) || null;
     manifest.lastUpdated = new Date().toISOString();
     saveManifest(manifest);
 
@@ -129,102 +205,428 @@ function cleanupOldExports(): void {
 }
 
 /**
- * Generate Excel file for reward cycles
+ * Label of the date range filter
+ */
+function describeDateRange(params?: ExportParams): string {
+  if (params?.startDate && params?.endDate) {
+    return `${params.startDate} to ${params.endDate}`;
+  }
+  if (params?.startDate) {
+    return `From ${params.startDate}`;
+  }
+  return params?.endDate ? `Until ${params.endDate}` : 'All Time';
+}
+
+/**
+ * Label of the payout filters
  */
-export async function generateRewardsExcel(params?: ExportParams): Promise<string> {
+function describeFilters(params?: ExportParams): string {
+  return params?.pubkey ? `Pubkey: ${params.pubkey}` : params?.status ? `Status: ${params.status}` : 'None';
+}
+
+function roundSOL(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
+
+/**
+ * Read the matching reward cycles page by page (no cap on the number of rows)
+ */
+function* readCyclePages(params?: ExportParams): Generator<RewardCycle[]> {
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { cycles, total } = getHistoricalRewardCycles({ ...params, limit: HISTORY_PAGE_SIZE, offset });
+    if (cycles.length > 0) {
+      yield cycles;
+    }
+    if (cycles.length === 0 || offset + HISTORY_PAGE_SIZE >= total) {
+      return;
+    }
+  }
+}
+
+/**
+ * Read the matching payouts page by page (no cap on the number of rows)
+ */
+function* readPayoutPages(params?: ExportParams): Generator<HistoricalPayout[]> {
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { payouts, total } = getHistoricalPayouts({ ...params, limit: HISTORY_PAGE_SIZE, offset });
+    if (payouts.length > 0) {
+      yield payouts;
+    }
+    if (payouts.length === 0 || offset + HISTORY_PAGE_SIZE >= total) {
+      return;
+    }
+  }
+}
+
+/**
+ * Summary statistics of the matching reward cycles (one pass over the pages)
+ */
+function summarizeCycles(params?: ExportParams): {
+  count: number;
+  totalSOL: number;
+  eligibleHolders: number;
+  excludedHolders: number;
+  blacklistedHolders: number;
+} {
+  const summary = { count: 0, totalSOL: 0, eligibleHolders: 0, excludedHolders: 0, blacklistedHolders: 0 };
+  for (const page of readCyclePages(params)) {
+    for (const cycle of page) {
+      summary.count++;
+      summary.totalSOL += cycle.totalSOLDistributed;
+      summary.eligibleHolders += cycle.eligibleHoldersCount;
+      summary.excludedHolders += cycle.excludedHoldersCount;
+      summary.blacklistedHolders += cycle.blacklistedHoldersCount;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Summary statistics of the matching payouts (one pass over the pages)
+ */
+function summarizePayouts(params?: ExportParams): {
+  count: number;
+  successCount: number;
+  pendingCount: number;
+  failedCount: number;
+  totalSOL: number;
+} {
+  const summary = { count: 0, successCount: 0, pendingCount: 0, failedCount: 0, totalSOL: 0 };
+  for (const page of readPayoutPages(params)) {
+    for (const payout of page) {
+      summary.count++;
+      summary.totalSOL += payout.rewardSOL;
+      if (payout.status === 'success') {
+        summary.successCount++;
+      } else if (payout.status === 'pending') {
+        summary.pendingCount++;
+      } else if (payout.status === 'failed') {
+        summary.failedCount++;
+      }
+    }
+  }
+  return summary;
+}
+
+/**
+ * Convert each page of history entries to export rows
+ */
+function* mapPages<T>(pages: Iterable<T[]>, toRow: (item: T) => ExportRow): Generator<ExportRow[]> {
+  for (const page of pages) {
+    yield page.map(toRow);
+  }
+}
+
+function toCyclesTable(params?: ExportParams): ExportTable {
+  return {
+    sheet: 'Reward Cycles',
+    key: 'cycles',
+    record: 'cycle',
+    columns: CYCLE_COLUMNS,
+    pages: () => mapPages(readCyclePages(params), (cycle) => ({
+      timestamp: cycle.timestamp,
+      totalSOLDistributed: roundSOL(cycle.totalSOLDistributed),
+      eligibleHoldersCount: cycle.eligibleHoldersCount,
+      excludedHoldersCount: cycle.excludedHoldersCount,
+      blacklistedHoldersCount: cycle.blacklistedHoldersCount,
+      totalHoldersCount: cycle.totalHoldersCount,
+      tokenPriceUSD: roundSOL(cycle.tokenPriceUSD),
+    })),
+  };
+}
+
+function toPayoutsTable(params?: ExportParams): ExportTable {
+  return {
+    sheet: 'Payouts',
+    key: 'payouts',
+    record: 'payout',
+    columns: PAYOUT_COLUMNS,
+    pages: () => mapPages(readPayoutPages(params), (payout) => ({
+      timestamp: payout.timestamp,
+      pubkey: payout.pubkey,
+      rewardSOL: roundSOL(payout.rewardSOL),
+      status: payout.status,
+      retryCount: payout.retryCount,
+      queuedAt: payout.queuedAt,
+      executedAt: payout.executedAt || null,
+      transactionSignature: payout.transactionSignature || null,
+    })),
+  };
+}
+
+/**
+ * Row as shown in a sheet or CSV file (column titles, placeholders for missing values)
+ */
+function toTabularRow(columns: ExportColumn[], table: ExportTable, row: ExportRow): Record<string, string | number> {
+  const tableKeys = new Set(table.columns.map((column) => column.key));
+  const tabular: Record<string, string | number> = {};
+  for (const column of columns) {
+    tabular[column.title] = column.key === 'record'
+      ? table.record
+      : tableKeys.has(column.key) ? row[column.key] ?? column.empty ?? '' : '';
+  }
+  return tabular;
+}
+
+/**
+ * Open a write stream and pass it to write, which awaits each chunk so large
+ * exports are written with backpressure instead of being built in memory
+ *
+ * The stream's error listener is attached before anything else: an open or
+ * write failure is emitted as an 'error' event, which would crash the process
+ * without one. It rejects the pending write (or end) and every later one.
+ */
+async function writeStreamed(
+  filepath: string,
+  write: (writeChunk: (chunk: string) => Promise<void>) => Promise<void>
+): Promise<void> {
+  const stream = fs.createWriteStream(filepath, { encoding: 'utf8' });
+  let streamError: Error | null = null;
+  const pendingRejects = new Set<(error: Error) => void>();
+  stream.on('error', (error) => {
+    streamError = error;
+    for (const reject of pendingRejects) {
+      reject(error);
+    }
+    pendingRejects.clear();
+  });
+
+  const settle = (start: (done: (error?: Error | null) => void) => void) => new Promise<void>((resolve, reject) => {
+    if (streamError) {
+      reject(streamError);
+      return;
+    }
+    pendingRejects.add(reject);
+    start((error) => {
+      pendingRejects.delete(reject);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+  const writeChunk = (chunk: string) => settle((done) => {
+    stream.write(chunk, done);
+  });
+
   try {
-    ensureExportsDir();
+    await write(writeChunk);
+    await settle((done) => {
+      stream.end(() => done());
+    });
+  } catch (error) {
+    stream.destroy();
+    throw error;
+  }
+}
 
-    const { cycles } = getHistoricalRewardCycles({ ...params, limit: 10000 });
-    const tokenPrice = await getNUKEPriceUSD().catch(() => 0.01);
+/**
+ * Workbook with a Metadata sheet and one sheet per table (built in memory)
+ * @returns Number of rows written
+ */
+function writeXlsx(filepath: string, metadata: MetadataRows, tables: ExportTable[]): number {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(metadata), 'Metadata');
+
+  let rowCount = 0;
+  for (const table of tables) {
+    const titles = table.columns.map((column) => column.title);
+    const rows = [...table.pages()].flat().map((row) => toTabularRow(table.columns, table, row));
+    const worksheet = rows.length > 0
+      ? XLSX.utils.json_to_sheet(rows, { header: titles })
+      : XLSX.utils.aoa_to_sheet([titles]); // Empty sheet with headers
+    XLSX.utils.book_append_sheet(workbook, worksheet, table.sheet);
+    rowCount += rows.length;
+  }
+
+  XLSX.writeFile(workbook, filepath);
+  return rowCount;
+}
+
+/**
+ * Single CSV table without metadata (the header row is written even without rows)
+ * A combined export gets a leading "Record Type" column and the columns of
+ * every table, left empty on rows of the other tables.
+ * @returns Number of rows written
+ */
+async function writeCsv(filepath: string, tables: ExportTable[]): Promise<number> {
+  const columns: ExportColumn[] = tables.length > 1 ? [{ key: 'record', title: 'Record Type' }] : [];
+  for (const column of tables.flatMap((table) => table.columns)) {
+    if (!columns.some((existing) => existing.key === column.key)) {
+      columns.push(column);
+    }
+  }
+
+  const stringifier = createObjectCsvStringifier({
+    header: columns.map((column) => ({ id: column.title, title: column.title })),
+  });
+
+  let rowCount = 0;
+  await writeStreamed(filepath, async (writeChunk) => {
+    await writeChunk(stringifier.getHeaderString() ?? '');
+    for (const table of tables) {
+      for (const page of table.pages()) {
+        await writeChunk(stringifier.stringifyRecords(page.map((row) => toTabularRow(columns, table, row))));
+        rowCount += page.length;
+      }
+    }
+  });
+  return rowCount;
+}
+
+/**
+ * One JSON object per line, tagged with its record type; no metadata line
+ * @returns Number of rows written
+ */
+async function writeNdjson(filepath: string, tables: ExportTable[]): Promise<number> {
+  let rowCount = 0;
+  await writeStreamed(filepath, async (writeChunk) => {
+    for (const table of tables) {
+      for (const page of table.pages()) {
+        await writeChunk(page.map((row) => `${JSON.stringify({ record: table.record, ...row })}\n`).join(''));
+        rowCount += page.length;
+      }
+    }
+  });
+  return rowCount;
+}
 
-    const workbook = XLSX.utils.book_new();
+/**
+ * JSON document: { export, metadata, <table key>: rows[] }
+ * @returns Number of rows written
+ */
+async function writeJson(filepath: string, metadata: MetadataRows, tables: ExportTable[]): Promise<number> {
+  const summary = Object.fromEntries(
+    metadata.filter((row) => row.length === 2 && row[0] !== '').map(([label, value]) => [label, value])
+  );
+
+  let rowCount = 0;
+  await writeStreamed(filepath, async (writeChunk) => {
+    await writeChunk(`{\n  "export": ${JSON.stringify(metadata[0]?.[0] ?? '')},\n  "metadata": ${JSON.stringify(summary)}`);
+    for (const table of tables) {
+      await writeChunk(`,\n  ${JSON.stringify(table.key)}: [`);
+      let tableRows = 0;
+      for (const page of table.pages()) {
+        await writeChunk(`${tableRows > 0 ? ',' : ''}\n    ${page.map((row) => JSON.stringify(row)).join(',\n    ')}`);
+        tableRows += page.length;
+      }
+      await writeChunk(tableRows > 0 ? '\n  ]' : ']');
+      rowCount += tableRows;
+    }
+    await writeChunk('\n}\n');
+  });
+  return rowCount;
+}
+
+/**
+ * Record an export in the manifest and apply the retention limit
+ * Only Excel exports become the latest export (served to the Telegram bot).
+ */
+function recordExport(exportFile: ExportFile): void {
+  const manifest = loadManifest();
+  manifest.exports.push(exportFile);
+  if (isLatestCandidate(exportFile)) {
+    manifest.latest = exportFile;
+  }
+  manifest.lastUpdated = new Date().toISOString();
+  saveManifest(manifest);
+
+  cleanupOldExports();
+}
+
+/**
+ * Write an export file in the given format and record it in the manifest
+ * A partially written file is removed if writing fails.
+ */
+async function writeExport(
+  type: ExportFile['type'],
+  format: ExportFormat,
+  metadata: MetadataRows,
+  tables: ExportTable[]
+): Promise<ExportFile> {
+  ensureExportsDir();
+
+  // Generate filename
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filename = `${type}-export-${timestamp}.${format}`;
+  const filepath = path.join(EXPORTS_DIR, filename);
+
+  let recordCount: number;
+  try {
+    switch (format) {
+      case 'xlsx':
+        recordCount = writeXlsx(filepath, metadata, tables);
+        break;
+      case 'csv':
+        recordCount = await writeCsv(filepath, tables);
+        break;
+      case 'json':
+        recordCount = await writeJson(filepath, metadata, tables);
+        break;
+      case 'ndjson':
+        recordCount = await writeNdjson(filepath, tables);
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${String(format)}`);
+    }
+  } catch (error) {
+    if (fs.existsSync(filepath)) {
+      fs.unlinkSync(filepath);
+    }
+    throw error;
+  }
+
+  const exportFile: ExportFile = {
+    filename,
+    filepath,
+    type,
+    format,
+    timestamp: new Date().toISOString(),
+    recordCount,
+  };
+  recordExport(exportFile);
+  return exportFile;
+}
+
+/**
+ * Generate an export file of reward cycles
+ * @param format - File format (default: xlsx)
+ * @returns Path of the generated file
+ */
+export async function generateRewardsExport(params?: ExportParams, format: ExportFormat = 'xlsx'): Promise<string> {
+  try {
+    const cycles = summarizeCycles(params);
+    const tokenPrice = await getNUKEPriceUSD().catch(() => 0.01);
 
     // Metadata sheet
-    const metadataData = [
+    const metadata: MetadataRows = [
       ['Reward Cycles Export'],
       [''],
       ['Export Timestamp', new Date().toISOString()],
-      ['Date Range', params?.startDate && params?.endDate 
-        ? `${params.startDate} to ${params.endDate}`
-        : params?.startDate 
-        ? `From ${params.startDate}`
-        : params?.endDate
-        ? `Until ${params.endDate}`
-        : 'All Time'],
-      ['Total Cycles', cycles.length],
+      ['Date Range', describeDateRange(params)],
+      ['Total Cycles', cycles.count],
       ['Current Token Price (USD)', tokenPrice.toFixed(6)],
       [''],
       ['Summary Statistics'],
-      ['Total SOL Distributed', cycles.reduce((sum, c) => sum + c.totalSOLDistributed, 0).toFixed(6)],
-      ['Average Eligible Holders', cycles.length > 0 
-        ? (cycles.reduce((sum, c) => sum + c.eligibleHoldersCount, 0) / cycles.length).toFixed(2)
-        : '0'],
-      ['Average Excluded Holders', cycles.length > 0
-        ? (cycles.reduce((sum, c) => sum + c.excludedHoldersCount, 0) / cycles.length).toFixed(2)
-        : '0'],
-      ['Average Blacklisted Holders', cycles.length > 0
-        ? (cycles.reduce((sum, c) => sum + c.blacklistedHoldersCount, 0) / cycles.length).toFixed(2)
-        : '0'],
+      ['Total SOL Distributed', cycles.totalSOL.toFixed(6)],
+      ['Average Eligible Holders', cycles.count > 0 ? (cycles.eligibleHolders / cycles.count).toFixed(2) : '0'],
+      ['Average Excluded Holders', cycles.count > 0 ? (cycles.excludedHolders / cycles.count).toFixed(2) : '0'],
+      ['Average Blacklisted Holders', cycles.count > 0 ? (cycles.blacklistedHolders / cycles.count).toFixed(2) : '0'],
     ];
 
-    const metadataWs = XLSX.utils.aoa_to_sheet(metadataData);
-    XLSX.utils.book_append_sheet(workbook, metadataWs, 'Metadata');
-
-    // Reward cycles sheet
-    const cyclesData = cycles.map((cycle) => ({
-      'Timestamp': cycle.timestamp,
-      'Total SOL Distributed': parseFloat(cycle.totalSOLDistributed.toFixed(6)),
-      'Eligible Holders': cycle.eligibleHoldersCount,
-      'Excluded Holders': cycle.excludedHoldersCount,
-      'Blacklisted Holders': cycle.blacklistedHoldersCount,
-      'Total Holders': cycle.totalHoldersCount,
-      'Token Price (USD)': parseFloat(cycle.tokenPriceUSD.toFixed(6)),
-    }));
-
-    if (cyclesData.length > 0) {
-      const cyclesWs = XLSX.utils.json_to_sheet(cyclesData);
-      XLSX.utils.book_append_sheet(workbook, cyclesWs, 'Reward Cycles');
-    } else {
-      // Empty sheet with headers
-      const emptyWs = XLSX.utils.aoa_to_sheet([
-        ['Timestamp', 'Total SOL Distributed', 'Eligible Holders', 'Excluded Holders', 'Blacklisted Holders', 'Total Holders', 'Token Price (USD)'],
-      ]);
-      XLSX.utils.book_append_sheet(workbook, emptyWs, 'Reward Cycles');
-    }
-
-    // Generate filename
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `rewards-export-${timestamp}.xlsx`;
-    const filepath = path.join(EXPORTS_DIR, filename);
-
-    XLSX.writeFile(workbook, filepath);
-
-    // Update manifest
-    const manifest = loadManifest();
-    const exportFile: ExportFile = {
-      filename,
-      filepath,
-      type: 'rewards',
-      timestamp: new Date().toISOString(),
-      recordCount: cycles.length,
-    };
-
-    manifest.exports.push(exportFile);
-    manifest.latest = exportFile;
-    manifest.lastUpdated = new Date().toISOString();
-    saveManifest(manifest);
+    const exportFile = await writeExport('rewards', format, metadata, [toCyclesTable(params)]);
 
-    logger.info('Rewards Excel file generated', {
-      filename,
-      recordCount: cycles.length,
+    logger.info('Rewards export generated', {
+      filename: exportFile.filename,
+      format,
+      recordCount: exportFile.recordCount,
     });
 
-    cleanupOldExports();
-
-    return filepath;
+    return exportFile.filepath;
   } catch (error) {
-    logger.error('Error generating rewards Excel file', {
+    logger.error('Error generating rewards export', {
+      format,
       error: error instanceof Error ? error.message : String(error),
     });
     throw error;
@@ -232,101 +634,42 @@ export async function generateRewardsExcel(params?: ExportParams): Promise<strin
 }
 
 /**
- * Generate Excel file for payouts
+ * Generate an export file of payouts
+ * @param format - File format (default: xlsx)
+ * @returns Path of the generated file
  */
-export async function generatePayoutsExcel(params?: ExportParams): Promise<string> {
+export async function generatePayoutsExport(params?: ExportParams, format: ExportFormat = 'xlsx'): Promise<string> {
   try {
-    ensureExportsDir();
-
-    const { payouts } = getHistoricalPayouts({ ...params, limit: 10000 });
-
-    const workbook = XLSX.utils.book_new();
+    const payouts = summarizePayouts(params);
 
     // Metadata sheet
-    const pendingCount = payouts.filter((p) => p.status === 'pending').length;
-    const failedCount = payouts.filter((p) => p.status === 'failed').length;
-    const successCount = payouts.filter((p) => p.status === 'success').length;
-    const totalSOL = payouts.reduce((sum, p) => sum + p.rewardSOL, 0);
-
-    const metadataData = [
+    const metadata: MetadataRows = [
       ['Payouts Export'],
       [''],
       ['Export Timestamp', new Date().toISOString()],
-      ['Date Range', params?.startDate && params?.endDate 
-        ? `${params.startDate} to ${params.endDate}`
-        : params?.startDate 
-        ? `From ${params.startDate}`
-        : params?.endDate
-        ? `Until ${params.endDate}`
-        : 'All Time'],
-      ['Filters', params?.pubkey ? `Pubkey: ${params.pubkey}` : params?.status ? `Status: ${params.status}` : 'None'],
-      ['Total Payouts', payouts.length],
+      ['Date Range', describeDateRange(params)],
+      ['Filters', describeFilters(params)],
+      ['Total Payouts', payouts.count],
       [''],
       ['Summary Statistics'],
-      ['Successful Payouts', successCount],
-      ['Pending Payouts', pendingCount],
-      ['Failed Payouts', failedCount],
-      ['Total SOL', totalSOL.toFixed(6)],
+      ['Successful Payouts', payouts.successCount],
+      ['Pending Payouts', payouts.pendingCount],
+      ['Failed Payouts', payouts.failedCount],
+      ['Total SOL', payouts.totalSOL.toFixed(6)],
     ];
 
-    const metadataWs = XLSX.utils.aoa_to_sheet(metadataData);
-    XLSX.utils.book_append_sheet(workbook, metadataWs, 'Metadata');
-
-    // Payouts sheet
-    const payoutsData = payouts.map((payout) => ({
-      'Timestamp': payout.timestamp,
-      'Recipient Pubkey': payout.pubkey,
-      'Reward SOL': parseFloat(payout.rewardSOL.toFixed(6)),
-      'Status': payout.status,
-      'Retry Count': payout.retryCount,
-      'Queued At': payout.queuedAt,
-      'Executed At': payout.executedAt || 'Never',
-      'Transaction Signature': payout.transactionSignature || '',
-    }));
-
-    if (payoutsData.length > 0) {
-      const payoutsWs = XLSX.utils.json_to_sheet(payoutsData);
-      XLSX.utils.book_append_sheet(workbook, payoutsWs, 'Payouts');
-    } else {
-      // Empty sheet with headers
-      const emptyWs = XLSX.utils.aoa_to_sheet([
-        ['Timestamp', 'Recipient Pubkey', 'Reward SOL', 'Status', 'Retry Count', 'Queued At', 'Executed At', 'Transaction Signature'],
-      ]);
-      XLSX.utils.book_append_sheet(workbook, emptyWs, 'Payouts');
-    }
-
-    // Generate filename
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `payouts-export-${timestamp}.xlsx`;
-    const filepath = path.join(EXPORTS_DIR, filename);
+    const exportFile = await writeExport('payouts', format, metadata, [toPayoutsTable(params)]);
 
-    XLSX.writeFile(workbook, filepath);
-
-    // Update manifest
-    const manifest = loadManifest();
-    const exportFile: ExportFile = {
-      filename,
-      filepath,
-      type: 'payouts',
-      timestamp: new Date().toISOString(),
-      recordCount: payouts.length,
-    };
-
-    manifest.exports.push(exportFile);
-    manifest.latest = exportFile;
-    manifest.lastUpdated = new Date().toISOString();
-    saveManifest(manifest);
-
-    logger.info('Payouts Excel file generated', {
-      filename,
-      recordCount: payouts.length,
+    logger.info('Payouts export generated', {
+      filename: exportFile.filename,
+      format,
+      recordCount: exportFile.recordCount,
     });
 
-    cleanupOldExports();
-
-    return filepath;
+    return exportFile.filepath;
   } catch (error) {
-    logger.error('Error generating payouts Excel file', {
+    logger.error('Error generating payouts export', {
+      format,
       error: error instanceof Error ? error.message : String(error),
     });
     throw error;
@@ -334,124 +677,125 @@ export async function generatePayoutsExcel(params?: ExportParams): Promise<strin
 }
 
 /**
- * Generate combined Excel file (rewards + payouts)
+ * Generate a combined export file (rewards + payouts)
+ * @param format - File format (default: xlsx)
+ * @returns Path of the generated file
  */
-export async function generateCombinedExcel(params?: ExportParams): Promise<string> {
+export async function generateCombinedExport(params?: ExportParams, format: ExportFormat = 'xlsx'): Promise<string> {
   try {
-    ensureExportsDir();
-
-    const { cycles } = getHistoricalRewardCycles({ ...params, limit: 10000 });
-    const { payouts } = getHistoricalPayouts({ ...params, limit: 10000 });
+    const cycles = summarizeCycles(params);
+    const payouts = summarizePayouts(params);
     const tokenPrice = await getNUKEPriceUSD().catch(() => 0.01);
 
-    const workbook = XLSX.utils.book_new();
-
     // Metadata sheet
-    const totalSOL = cycles.reduce((sum, c) => sum + c.totalSOLDistributed, 0);
-    const pendingCount = payouts.filter((p) => p.status === 'pending').length;
-    const failedCount = payouts.filter((p) => p.status === 'failed').length;
-    const successCount = payouts.filter((p) => p.status === 'success').length;
-
-    const metadataData = [
+    const metadata: MetadataRows = [
       ['Combined Reward Cycles & Payouts Export'],
       [''],
       ['Export Timestamp', new Date().toISOString()],
-      ['Date Range', params?.startDate && params?.endDate 
-        ? `${params.startDate} to ${params.endDate}`
-        : params?.startDate 
-        ? `From ${params.startDate}`
-        : params?.endDate
-        ? `Until ${params.endDate}`
-        : 'All Time'],
-      ['Filters', params?.pubkey ? `Pubkey: ${params.pubkey}` : params?.status ? `Status: ${params.status}` : 'None'],
+      ['Date Range', describeDateRange(params)],
+      ['Filters', describeFilters(params)],
       [''],
       ['Reward Cycles Summary'],
-      ['Total Cycles', cycles.length],
-      ['Total SOL Distributed', totalSOL.toFixed(6)],
+      ['Total Cycles', cycles.count],
+      ['Total SOL Distributed', cycles.totalSOL.toFixed(6)],
       ['Current Token Price (USD)', tokenPrice.toFixed(6)],
       [''],
       ['Payouts Summary'],
-      ['Total Payouts', payouts.length],
-      ['Successful', successCount],
-      ['Pending', pendingCount],
-      ['Failed', failedCount],
+      ['Total Payouts', payouts.count],
+      ['Successful', payouts.successCount],
+      ['Pending', payouts.pendingCount],
+      ['Failed', payouts.failedCount],
     ];
 
-    const metadataWs = XLSX.utils.aoa_to_sheet(metadataData);
-    XLSX.utils.book_append_sheet(workbook, metadataWs, 'Metadata');
-
-    // Reward cycles sheet
-    const cyclesData = cycles.map((cycle) => ({
-      'Timestamp': cycle.timestamp,
-      'Total SOL Distributed': parseFloat(cycle.totalSOLDistributed.toFixed(6)),
-      'Eligible Holders': cycle.eligibleHoldersCount,
-      'Excluded Holders': cycle.excludedHoldersCount,
-      'Blacklisted Holders': cycle.blacklistedHoldersCount,
-      'Total Holders': cycle.totalHoldersCount,
-      'Token Price (USD)': parseFloat(cycle.tokenPriceUSD.toFixed(6)),
-    }));
-
-    if (cyclesData.length > 0) {
-      const cyclesWs = XLSX.utils.json_to_sheet(cyclesData);
-      XLSX.utils.book_append_sheet(workbook, cyclesWs, 'Reward Cycles');
-    }
+    const exportFile = await writeExport('combined', format, metadata, [toCyclesTable(params), toPayoutsTable(params)]);
 
-    // Payouts sheet
-    const payoutsData = payouts.map((payout) => ({
-      'Timestamp': payout.timestamp,
-      'Recipient Pubkey': payout.pubkey,
-      'Reward SOL': parseFloat(payout.rewardSOL.toFixed(6)),
-      'Status': payout.status,
-      'Retry Count': payout.retryCount,
-      'Queued At': payout.queuedAt,
-      'Executed At': payout.executedAt || 'Never',
-      'Transaction Signature': payout.transactionSignature || '',
-    }));
-
-    if (payoutsData.length > 0) {
-      const payoutsWs = XLSX.utils.json_to_sheet(payoutsData);
-      XLSX.utils.book_append_sheet(workbook, payoutsWs, 'Payouts');
-    }
+    logger.info('Combined export generated', {
+      filename: exportFile.filename,
+      format,
+      cyclesCount: cycles.count,
+      payoutsCount: payouts.count,
+    });
+
+    return exportFile.filepath;
+  } catch (error) {
+    logger.error('Error generating combined export', {
+      format,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Generate the on-chain reconciliation report of an epoch (JSON)
+ * Saved next to the other exports without replacing the latest one.
+ */
+export async function generateReconciliationReport(
+  epoch: string
+): Promise<{ filepath: string; report: EpochReconciliationReport }> {
+  try {
+    ensureExportsDir();
+
+    const report = await reconcileEpoch(epoch);
 
     // Generate filename
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `combined-export-${timestamp}.xlsx`;
+    const filename = `reconciliation-${epoch}-${timestamp}.json`;
     const filepath = path.join(EXPORTS_DIR, filename);
 
-    XLSX.writeFile(workbook, filepath);
+    fs.writeFileSync(filepath, JSON.stringify(report, null, 2));
 
-    // Update manifest
-    const manifest = loadManifest();
-    const exportFile: ExportFile = {
+    recordExport({
       filename,
       filepath,
-      type: 'combined',
+      type: 'reconciliation',
+      format: 'json',
       timestamp: new Date().toISOString(),
-      recordCount: cycles.length + payouts.length,
-    };
-
-    manifest.exports.push(exportFile);
-    manifest.latest = exportFile;
-    manifest.lastUpdated = new Date().toISOString();
-    saveManifest(manifest);
+      recordCount: report.transactions.length,
+      epoch,
+    });
 
-    logger.info('Combined Excel file generated', {
+    logger.info('Reconciliation report generated', {
       filename,
-      cyclesCount: cycles.length,
-      payoutsCount: payouts.length,
+      epoch,
+      findings: report.findings.length,
+      ok: report.ok,
     });
 
-    cleanupOldExports();
-
-    return filepath;
+    return { filepath, report };
   } catch (error) {
-    logger.error('Error generating combined Excel file', {
+    logger.error('Error generating reconciliation report', {
+      epoch,
       error: error instanceof Error ? error.message : String(error),
     });
     throw error;
   }
 }
 
+/**
+ * Get the latest saved reconciliation report of an epoch
+ */
+export function getLatestReconciliationReport(
+  epoch: string
+): { exportFile: ExportFile; report: EpochReconciliationReport } | null {
+  try {
+    const exportFile = [...loadManifest().exports]
+      .reverse()
+      .find((candidate) => candidate.type === 'reconciliation' && candidate.epoch === epoch);
+    const buffer = exportFile ? getExportFileBuffer(exportFile.filepath) : null;
+    if (!exportFile || !buffer) {
+      return null;
+    }
+    return { exportFile, report: JSON.parse(buffer.toString('utf8')) as EpochReconciliationReport };
+  } catch (error) {
+    logger.error('Error reading reconciliation report', {
+      epoch,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
 /**
  * Get latest export file
  */
@@ -1,6 +1,5 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { logger } from '../utils/logger';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
 
 export interface RewardCycle {
   id: string; // ISO timestamp
@@ -36,17 +35,16 @@ interface HistoryState {
   historicalPayouts: HistoricalPayout[];
 }
 
-const HISTORY_FILE_PATH = path.join(process.cwd(), 'reward-history.json');
 const MAX_HISTORY_ENTRIES = 10000; // Keep last 10k cycles
 
 /**
- * Load history state from file
+ * Load history state from storage
  */
 function loadHistory(): HistoryState {
   try {
-    if (fs.existsSync(HISTORY_FILE_PATH)) {
-      const data = fs.readFileSync(HISTORY_FILE_PATH, 'utf-8');
-      return JSON.parse(data);
+    const state = readDocument<HistoryState>(STORAGE_KEYS.REWARD_HISTORY);
+    if (state) {
+      return state;
     }
   } catch (error) {
     logger.warn('Failed to load reward history, using defaults', {
@@ -61,17 +59,11 @@ function loadHistory(): HistoryState {
 }
 
 /**
- * Save history state to file
+ * Save history state to storage
  */
 function saveHistory(state: HistoryState): void {
   try {
-    // Ensure directory exists
-    const dir = path.dirname(HISTORY_FILE_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    fs.writeFileSync(HISTORY_FILE_PATH, JSON.stringify(state, null, 2), 'utf-8');
+    writeDocument<HistoryState>(STORAGE_KEYS.REWARD_HISTORY, state);
   } catch (error) {
     logger.error('Failed to save reward history', {
       error: error instanceof Error ? error.message : String(error),
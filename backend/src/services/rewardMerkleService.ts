@@ -0,0 +1,344 @@
+import { createHash } from 'crypto';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { getActiveProject } from '../utils/projectContext';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { signInstructions, sendSignedTransaction } from '../utils/transactions';
+import { getCurrentEpoch } from './cycleService';
+
+/**
+ * Reward Merkle Service
+ *
+ * Publishes a Merkle root of every epoch's holder payouts so holders can check
+ * their share without trusting the backend:
+ *
+ * - each confirmed cycle payout (from distributeSolToHolders, recorded through
+ *   the cycle journal when it closes) is a leaf: wallet, eligible balance the
+ *   share was based on, reward lamports and transaction signature
+ * - once the epoch is over, the root is published in a memo transaction signed
+ *   by the reward wallet ("tek-rewards:v1:<project>:<epoch>:<root>:<leaves>")
+ * - GET /audit/epochs/:epoch/proof/:wallet serves the wallet's leaves with their
+ *   proofs, which the frontend verifies against the published root
+ *
+ * Hashing (sha256, hex):
+ *   leaf = sha256(0x00 || "<wallet>:<eligibleBalance>:<rewardLamports>:<signature>")
+ *   node = sha256(0x01 || min(a, b) || max(a, b))
+ * Leaves are sorted by hash and an odd node is carried up unchanged, so a proof
+ * is the list of sibling hashes from the leaf to the root. The eligible balance
+ * is empty for payouts planned before it was recorded.
+ *
+ * Payout queue retries are not distributeSolToHolders allocations of the epoch
+ * and are not included.
+ */
+
+// Memo program v2
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+const MEMO_PREFIX = 'tek-rewards:v1';
+
+const MAX_EPOCHS_KEPT = 30;
+
+export interface RewardAllocationLeaf {
+  wallet: string;
+  eligibleBalance: string | null; // Raw token units the share was based on
+  rewardLamports: string;
+  signature: string;
+}
+
+export interface EpochRootPublication {
+  root: string;
+  leafCount: number;
+  memo: string;
+  signature: string;
+  publishedAt: number;
+}
+
+interface EpochAllocations {
+  epoch: string;
+  leaves: RewardAllocationLeaf[];
+  journalIds: string[]; // Cycle journals already recorded
+  publication: EpochRootPublication | null;
+  lastError: string | null; // Last failed publication attempt
+}
+
+interface RewardMerkleState {
+  epochs: Record<string, EpochAllocations>;
+}
+
+export interface AllocationProof {
+  leaf: RewardAllocationLeaf;
+  leafHash: string;
+  proof: string[]; // Sibling hashes, leaf to root
+}
+
+export interface WalletEpochProof {
+  epoch: string;
+  wallet: string;
+  root: string;
+  leafCount: number;
+  memo: string;
+  memoSignature: string;
+  publishedAt: number;
+  allocations: AllocationProof[];
+}
+
+/**
+ * Load state from storage
+ */
+function loadState(): RewardMerkleState {
+  try {
+    const state = readDocument<RewardMerkleState>(STORAGE_KEYS.REWARD_MERKLE);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load reward merkle state, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { epochs: {} };
+}
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return hash.digest();
+}
+
+/**
+ * Hash of a leaf
+ */
+export function hashAllocationLeaf(leaf: RewardAllocationLeaf): string {
+  const encoded = `${leaf.wallet}:${leaf.eligibleBalance ?? ''}:${leaf.rewardLamports}:${leaf.signature}`;
+  return sha256(Buffer.from([0]), Buffer.from(encoded, 'utf8')).toString('hex');
+}
+
+function hashPair(a: string, b: string): string {
+  const [first, second] = a < b ? [a, b] : [b, a];
+  return sha256(Buffer.from([1]), Buffer.from(first, 'hex'), Buffer.from(second, 'hex')).toString('hex');
+}
+
+/**
+ * Build the tree levels over sorted leaf hashes (level 0: leaves, last: root)
+ */
+function buildLevels(leafHashes: string[]): string[][] {
+  const levels = [[...leafHashes].sort()];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/**
+ * Merkle root of a set of leaves
+ * @throws Error if there are no leaves
+ */
+export function getMerkleRoot(leaves: RewardAllocationLeaf[]): string {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+  const levels = buildLevels(leaves.map(hashAllocationLeaf));
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Proof of one leaf hash
+ */
+function getProof(levels: string[][], leafHash: string): string[] {
+  const proof: string[] = [];
+  let index = levels[0].indexOf(leafHash);
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < levels[depth].length) {
+      proof.push(levels[depth][sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Record the confirmed payouts of a finished cycle as leaves of its epoch
+ * Manual cycles (no epoch) count towards the epoch they finished in.
+ */
+export function recordEpochAllocations(
+  cycle: { journalId: string; epoch: string | null },
+  payouts: Array<{ pubkey: string; amountLamports: string; status: string; signature: string | null; eligibleBalance?: string }>
+): void {
+  const leaves: RewardAllocationLeaf[] = payouts
+    .filter((payout) => payout.status === 'CONFIRMED' && payout.signature)
+    .map((payout) => ({
+      wallet: payout.pubkey,
+      eligibleBalance: payout.eligibleBalance ?? null,
+      rewardLamports: payout.amountLamports,
+      signature: payout.signature!,
+    }));
+  if (leaves.length === 0) {
+    return;
+  }
+
+  const epoch = cycle.epoch ?? getCurrentEpoch();
+  try {
+    let skipped: 'published' | 'recorded' | null = null;
+    updateDocument<RewardMerkleState>(STORAGE_KEYS.REWARD_MERKLE, (current) => {
+      const next = current ?? loadState();
+      const entry = next.epochs[epoch] ?? { epoch, leaves: [], journalIds: [], publication: null, lastError: null };
+      skipped = entry.publication ? 'published' : entry.journalIds.includes(cycle.journalId) ? 'recorded' : null;
+      if (skipped) {
+        return next;
+      }
+
+      entry.leaves.push(...leaves);
+      entry.journalIds.push(cycle.journalId);
+      next.epochs[epoch] = entry;
+
+      // Keep the newest epochs
+      const epochs = Object.keys(next.epochs).sort();
+      for (const old of epochs.slice(0, Math.max(0, epochs.length - MAX_EPOCHS_KEPT))) {
+        delete next.epochs[old];
+      }
+      return next;
+    });
+
+    if (skipped === 'published') {
+      logger.warn('Cycle finished after its epoch root was published - payouts not in the root', {
+        journalId: cycle.journalId,
+        epoch,
+        payouts: leaves.length,
+      });
+    } else if (!skipped) {
+      logger.debug('Epoch allocations recorded', { journalId: cycle.journalId, epoch, leaves: leaves.length });
+    }
+  } catch (error) {
+    logger.error('Failed to record epoch allocations', {
+      journalId: cycle.journalId,
+      epoch,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Publish the root of every finished epoch that has not been published yet
+ * Call only while no cycle is in progress, so an interrupted cycle of the last
+ * epoch is finished first. A failed publication is retried on the next call.
+ */
+export async function publishPendingEpochRoots(): Promise<EpochRootPublication[]> {
+  const currentEpoch = getCurrentEpoch();
+  const pending = Object.values(loadState().epochs)
+    .filter((entry) => entry.epoch < currentEpoch && !entry.publication && entry.leaves.length > 0)
+    .sort((a, b) => a.epoch.localeCompare(b.epoch));
+
+  const published: EpochRootPublication[] = [];
+  for (const entry of pending) {
+    const root = getMerkleRoot(entry.leaves);
+    const memo = `${MEMO_PREFIX}:${getActiveProject().id}:${entry.epoch}:${root}:${entry.leaves.length}`;
+
+    try {
+      const rewardWallet = loadKeypairFromEnv(getActiveProject().rewardWalletEnv);
+      const signed = await signInstructions([
+        new TransactionInstruction({
+          programId: MEMO_PROGRAM_ID,
+          keys: [{ pubkey: rewardWallet.publicKey, isSigner: true, isWritable: false }],
+          data: Buffer.from(memo, 'utf8'),
+        }),
+      ], [rewardWallet]);
+      const signature = await sendSignedTransaction(signed);
+
+      const publication: EpochRootPublication = {
+        root,
+        leafCount: entry.leaves.length,
+        memo,
+        signature,
+        publishedAt: Date.now(),
+      };
+      updateDocument<RewardMerkleState>(STORAGE_KEYS.REWARD_MERKLE, (current) => {
+        const next = current ?? loadState();
+        if (next.epochs[entry.epoch]) {
+          next.epochs[entry.epoch].publication = publication;
+          next.epochs[entry.epoch].lastError = null;
+        }
+        return next;
+      });
+      published.push(publication);
+
+      logger.info('Epoch reward root published', {
+        epoch: entry.epoch,
+        root,
+        leafCount: entry.leaves.length,
+        signature,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      updateDocument<RewardMerkleState>(STORAGE_KEYS.REWARD_MERKLE, (current) => {
+        const next = current ?? loadState();
+        if (next.epochs[entry.epoch]) {
+          next.epochs[entry.epoch].lastError = errorMessage;
+        }
+        return next;
+      });
+      logger.error('Failed to publish epoch reward root', {
+        epoch: entry.epoch,
+        root,
+        error: errorMessage,
+      });
+    }
+  }
+
+  return published;
+}
+
+/**
+ * Get the publication state of an epoch
+ */
+export function getEpochRootStatus(epoch: string): {
+  epoch: string;
+  leafCount: number;
+  publication: EpochRootPublication | null;
+  lastError: string | null;
+} | null {
+  const entry = loadState().epochs[epoch];
+  return entry
+    ? { epoch, leafCount: entry.leaves.length, publication: entry.publication, lastError: entry.lastError }
+    : null;
+}
+
+/**
+ * Get a wallet's allocations in a published epoch with their proofs
+ * @returns null if the epoch root is not published or the wallet has no allocation in it
+ */
+export function getWalletEpochProof(epoch: string, wallet: string): WalletEpochProof | null {
+  const entry = loadState().epochs[epoch];
+  if (!entry?.publication) {
+    return null;
+  }
+
+  const allocations = entry.leaves.filter((leaf) => leaf.wallet === wallet);
+  if (allocations.length === 0) {
+    return null;
+  }
+
+  const levels = buildLevels(entry.leaves.map(hashAllocationLeaf));
+  return {
+    epoch,
+    wallet,
+    root: entry.publication.root,
+    leafCount: entry.publication.leafCount,
+    memo: entry.publication.memo,
+    memoSignature: entry.publication.signature,
+    publishedAt: entry.publication.publishedAt,
+    allocations: allocations.map((leaf) => {
+      const leafHash = hashAllocationLeaf(leaf);
+      return { leaf, leafHash, proof: getProof(levels, leafHash) };
+    }),
+  };
+}
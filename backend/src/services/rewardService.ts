@@ -1,5 +1,3 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { Keypair, PublicKey, SystemProgram, Transaction, sendAndConfirmTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { getTokenHolders, TokenHolder } from './solanaService';
 import { connection } from '../config/solana';
@@ -7,9 +5,11 @@ import { REWARD_CONFIG } from '../config/constants';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
-import { isBlacklisted } from '../config/blacklist';
+import { isBlacklisted } from './blacklistService';
 import { getNUKEPriceSOL, getNUKEPriceUSD } from './priceService';
 import { saveHistoricalPayouts, type HistoricalPayout } from './rewardHistoryService';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
+import { getActiveProject, projectScoped } from '../utils/projectContext';
 
 export interface Holder {
   pubkey: string;
@@ -36,8 +36,6 @@ interface RewardState {
   pendingPayouts: PendingPayout[]; // Queued rewards awaiting payout
 }
 
-const STATE_FILE_PATH = path.join(process.cwd(), 'reward-state.json');
-
 /**
  * Load admin wallet keypair from JSON file
  */
@@ -82,7 +80,7 @@ export function getAdminWallet(): Keypair {
 }
 
 /**
- * Load reward state from file
+ * Load reward state from storage
  */
 function loadState(): RewardState {
   const defaultState: RewardState = {
@@ -93,10 +91,8 @@ function loadState(): RewardState {
   };
 
   try {
-    if (fs.existsSync(STATE_FILE_PATH)) {
-      const data = fs.readFileSync(STATE_FILE_PATH, 'utf-8');
-      const parsed = JSON.parse(data);
-      
+    const parsed = readDocument<Partial<RewardState>>(STORAGE_KEYS.REWARD_STATE);
+    if (parsed) {
       // Validate and merge with defaults to ensure all properties exist
       return {
         lastRewardRun: parsed.lastRewardRun ?? defaultState.lastRewardRun,
@@ -121,27 +117,12 @@ function loadState(): RewardState {
 }
 
 /**
- * Save reward state to file
- * IMPORTANT: Merges with existing state to preserve taxState
+ * Save reward state to storage
+ * Tax state is stored in its own document by taxService
  */
 function saveState(state: RewardState): void {
   try {
-    let fullState: any = {};
-    
-    // Load existing state if it exists (to preserve taxState and other data)
-    if (fs.existsSync(STATE_FILE_PATH)) {
-      const data = fs.readFileSync(STATE_FILE_PATH, 'utf-8');
-      fullState = JSON.parse(data);
-    }
-    
-    // Update reward state fields (merge, don't overwrite)
-    fullState.lastRewardRun = state.lastRewardRun;
-    fullState.holderRewards = state.holderRewards;
-    fullState.retryCounts = state.retryCounts;
-    fullState.pendingPayouts = state.pendingPayouts;
-    
-    // Save merged state (preserves taxState if it exists)
-    fs.writeFileSync(STATE_FILE_PATH, JSON.stringify(fullState, null, 2), 'utf-8');
+    writeDocument<RewardState>(STORAGE_KEYS.REWARD_STATE, state);
   } catch (error) {
     logger.error('Failed to save reward state', {
       error: error instanceof Error ? error.message : String(error),
@@ -255,7 +236,7 @@ async function calculateHoldingUSD(amount: string, decimals: number, tokenPriceS
  * Excludes blacklisted addresses
  * Uses real USD price from price service
  */
-export async function getEligibleHolders(minHoldingUSD: number = REWARD_CONFIG.MIN_HOLDING_USD): Promise<Holder[]> {
+export async function getEligibleHolders(minHoldingUSD: number = getActiveProject().thresholds.minHoldingUSD): Promise<Holder[]> {
   try {
     // Fetch current NUKE token price in SOL from Raydium
     let tokenPriceSOL: number | null = null;
@@ -358,7 +339,7 @@ export async function getEligibleHolders(minHoldingUSD: number = REWARD_CONFIG.M
 /**
  * Get all eligible holders (legacy function for backward compatibility)
  */
-export async function getAllEligibleHolders(minHoldingUSD: number = REWARD_CONFIG.MIN_HOLDING_USD): Promise<TokenHolder[]> {
+export async function getAllEligibleHolders(minHoldingUSD: number = getActiveProject().thresholds.minHoldingUSD): Promise<TokenHolder[]> {
   try {
     const eligibleHolders = await getEligibleHolders(minHoldingUSD);
     // Convert Holder[] to TokenHolder[] for backward compatibility
@@ -769,16 +750,19 @@ interface HoldersWithStatusCache {
   timestamp: number;
 }
 
-let cachedHoldersWithStatus: HoldersWithStatusCache | null = null;
 const HOLDERS_STATUS_CACHE_TTL = 30 * 60 * 1000; // 30 minutes (optimized to reduce Helius RPC calls)
-let pendingHoldersWithStatusFetch: Promise<Array<{
-  pubkey: string;
-  balance: string;
-  usdValue: number;
-  eligibilityStatus: 'eligible' | 'excluded' | 'blacklisted';
-  lastReward: number | null;
-  retryCount: number;
-}>> | null = null;
+// Cache and in-flight fetch, per project
+const holdersWithStatusCache = projectScoped<{
+  cachedHoldersWithStatus: HoldersWithStatusCache | null;
+  pendingHoldersWithStatusFetch: Promise<Array<{
+    pubkey: string;
+    balance: string;
+    usdValue: number;
+    eligibilityStatus: 'eligible' | 'excluded' | 'blacklisted';
+    lastReward: number | null;
+    retryCount: number;
+  }>> | null;
+}>(() => ({ cachedHoldersWithStatus: null, pendingHoldersWithStatusFetch: null }));
 
 /**
  * Get all holders with their eligibility status and reward info
@@ -792,24 +776,25 @@ export async function getAllHoldersWithStatus(): Promise<Array<{
   lastReward: number | null;
   retryCount: number;
 }>> {
+  const cache = holdersWithStatusCache();
   // Check cache first
   const now = Date.now();
-  if (cachedHoldersWithStatus && (now - cachedHoldersWithStatus.timestamp) < HOLDERS_STATUS_CACHE_TTL) {
+  if (cache.cachedHoldersWithStatus && (now - cache.cachedHoldersWithStatus.timestamp) < HOLDERS_STATUS_CACHE_TTL) {
     logger.debug('Using cached holders with status', {
-      count: cachedHoldersWithStatus.holders.length,
-      cachedAt: new Date(cachedHoldersWithStatus.timestamp).toISOString(),
+      count: cache.cachedHoldersWithStatus.holders.length,
+      cachedAt: new Date(cache.cachedHoldersWithStatus.timestamp).toISOString(),
     });
-    return cachedHoldersWithStatus.holders;
+    return cache.cachedHoldersWithStatus.holders;
   }
 
   // If there's already a pending fetch, wait for it
-  if (pendingHoldersWithStatusFetch) {
+  if (cache.pendingHoldersWithStatusFetch) {
     logger.debug('Holders with status fetch already in progress, waiting...');
-    return pendingHoldersWithStatusFetch;
+    return cache.pendingHoldersWithStatusFetch;
   }
 
   // Create new fetch promise
-  pendingHoldersWithStatusFetch = (async () => {
+  cache.pendingHoldersWithStatusFetch = (async () => {
     const fetchStartTime = Date.now();
     try {
       // Fetch all data in parallel to optimize performance
@@ -835,7 +820,7 @@ export async function getAllHoldersWithStatus(): Promise<Array<{
         }));
         
         // Update cache
-        cachedHoldersWithStatus = {
+        cache.cachedHoldersWithStatus = {
           holders: holdersWithStatusFallback,
           timestamp: fetchStartTime,
         };
@@ -844,7 +829,7 @@ export async function getAllHoldersWithStatus(): Promise<Array<{
       }
       
       // Calculate eligibility inline instead of calling getEligibleHolders() which fetches holders again
-      const minHoldingUSD = REWARD_CONFIG.MIN_HOLDING_USD;
+      const minHoldingUSD = getActiveProject().thresholds.minHoldingUSD;
       const SOL_TO_USD_RATE = 100; // Devnet conversion rate
       const minHoldingSOL = minHoldingUSD / SOL_TO_USD_RATE;
       const eligiblePubkeys = new Set<string>();
@@ -896,7 +881,7 @@ export async function getAllHoldersWithStatus(): Promise<Array<{
       });
       
       // Update cache
-      cachedHoldersWithStatus = {
+      cache.cachedHoldersWithStatus = {
         holders: holdersWithStatus,
         timestamp: fetchStartTime,
       };
@@ -914,11 +899,11 @@ export async function getAllHoldersWithStatus(): Promise<Array<{
       throw error;
     } finally {
       // Clear pending fetch
-      pendingHoldersWithStatusFetch = null;
+      cache.pendingHoldersWithStatusFetch = null;
     }
   })();
 
-  return pendingHoldersWithStatusFetch;
+  return cache.pendingHoldersWithStatusFetch;
 }
 
 /**
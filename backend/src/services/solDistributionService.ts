@@ -2,216 +2,899 @@
  * SOL Distribution Service
  * 
  * Distributes SOL to eligible holders proportionally based on their NUKE holdings
+ *
+ * Rewards are always allocated in SOL. When the project pays holders in
+ * another asset (config/rewardAsset), the SOL of the payouts is swapped into
+ * the asset once per run and each payout is converted at that swap's rate.
  */
 
 import {
+  AddressLookupTableAccount,
   Connection,
   Keypair,
   PublicKey,
-  Transaction,
   SystemProgram,
-  sendAndConfirmTransaction,
+  TransactionInstruction,
   LAMPORTS_PER_SOL,
+  PACKET_DATA_SIZE,
+  ComputeBudgetProgram,
 } from '@solana/web3.js';
-import { connection, tokenMint } from '../config/solana';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  TokenAccountNotFoundError,
+} from '@solana/spl-token';
+import { connection, getTokenMint } from '../config/solana';
 import { logger } from '../utils/logger';
 import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { getActiveProject } from '../utils/projectContext';
+import {
+  getTransactionSize,
+  signInstructions,
+  sendSignedTransaction,
+  waitForTransactionOutcome,
+  type SignedTransaction,
+  type TransactionOutcome,
+} from '../utils/transactions';
 import { getTokenHolders, type TokenHolder } from './solanaService';
-import { REWARD_CONFIG, getMinimumPayoutThreshold } from '../config/constants';
+import {
+  REWARD_CONFIG,
+  PAYOUT_BATCH_CONFIG,
+  REWARD_ACCUMULATION_CONFIG,
+  REWARD_WEIGHTING_CONFIG,
+  getMinimumPayoutThreshold,
+} from '../config/constants';
 import {
   getAccumulatedReward,
-  // Note: addToAccumulatedReward and clearAccumulatedReward not used
-  // We only track accumulated rewards for informational purposes, never pay them
+  addToAccumulatedReward,
+  clearAccumulatedReward,
+  getAllUnpaidRewards,
+  getTotalUnpaidRewards,
 } from './unpaidRewardsService';
 import {
   getEligibleWalletsWithUnpaidRewards,
   getEligibleWalletsMetadata,
 } from './eligibleWalletsService';
+import { getPayoutLookupTables } from './payoutLookupTableService';
+import { getTimeWeightedBalances, getBalanceSnapshotMetadata } from './balanceSnapshotService';
+import { getCurrentEpoch } from './cycleService';
+import { getPayoutPreferences } from './holderPreferencesService';
+import { getQueuedOwedLamports } from './payoutQueueService';
+import { getRewardAsset, getRewardAssetMintInfo } from '../config/rewardAsset';
+import {
+  distributionsTotal,
+  distributionDurationSeconds,
+  payoutsTotal,
+  solDistributedTotal,
+} from '../utils/metrics';
 
 // Minimum SOL payout threshold (0.0001 SOL) - legacy threshold for dust limit
 const MIN_SOL_PAYOUT = REWARD_CONFIG.MIN_SOL_PAYOUT;
 
+// Token account creations use far more compute than the default 200k units per transaction
+const ASSET_PAYOUT_COMPUTE_UNITS = 1_400_000;
+
+// Accounts per getMultipleAccountsInfo call (RPC limit)
+const ACCOUNTS_PER_REQUEST = 100;
+
 /**
- * Get reward wallet keypair
+ * Get reward wallet keypair of the active project
  */
 function getRewardWallet(): Keypair {
-  return loadKeypairFromEnv('REWARD_WALLET_PRIVATE_KEY_JSON');
+  return loadKeypairFromEnv(getActiveProject().rewardWalletEnv);
 }
 
 /**
- * Distribute SOL to eligible holders proportionally
- * 
- * @param totalSol - Total SOL to distribute (in lamports)
- * @returns Distribution result with details
+ * Rate at which a run's SOL payouts were converted into the reward asset
+ * Each payout receives amountLamports * amountReceived / lamportsPlanned.
  */
-export async function distributeSolToHolders(
-  totalSol: bigint
-): Promise<{
+export interface RewardAssetConversion {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  lamportsPlanned: bigint; // SOL value of the payouts converted
+  rentLamports: bigint; // Rent of the recipient token accounts created, taken out of lamportsPlanned
+  accountsCreated: number;
+  amountReceived: bigint; // Asset bought with lamportsPlanned - rentLamports (raw units)
+  signature: string; // Swap transaction
+}
+
+/**
+ * Reward asset of a payout run
+ */
+interface PayoutAsset {
+  mint: PublicKey;
+  programId: PublicKey;
+  decimals: number;
+  source: PublicKey; // Reward wallet token account
+  conversion: RewardAssetConversion;
+  missingAccounts: Set<string>; // Recipients without a token account for the asset
+}
+
+/**
+ * Everything needed to build the payout instructions of a run
+ */
+interface PayoutContext {
+  payer: PublicKey;
+  destinations: Map<string, string>; // Payout destination overrides
+  asset: PayoutAsset | null; // null: paid in SOL
+}
+
+/**
+ * Get the wallet a payout is sent to (the holder's destination override, if they set one)
+ */
+function getPayoutRecipient(pubkey: string, destinations: Map<string, string>): PublicKey {
+  return new PublicKey(destinations.get(pubkey) ?? pubkey);
+}
+
+/**
+ * Convert a payout's SOL value into the reward asset
+ */
+function toAssetAmount(amountLamports: bigint, conversion: RewardAssetConversion): bigint {
+  return conversion.lamportsPlanned > 0n
+    ? (amountLamports * conversion.amountReceived) / conversion.lamportsPlanned
+    : 0n;
+}
+
+/**
+ * Build the instructions for one payout
+ * A SOL transfer, or a token transfer preceded by the creation of the
+ * recipient's token account when it does not exist yet.
+ */
+function createPayoutInstructions(
+  context: PayoutContext,
+  reward: { pubkey: string; amountLamports: bigint }
+): TransactionInstruction[] {
+  const recipient = getPayoutRecipient(reward.pubkey, context.destinations);
+  const { asset } = context;
+  if (!asset) {
+    return [SystemProgram.transfer({
+      fromPubkey: context.payer,
+      toPubkey: recipient,
+      lamports: Number(reward.amountLamports),
+    })];
+  }
+
+  const account = getAssociatedTokenAddressSync(asset.mint, recipient, true, asset.programId);
+  const instructions: TransactionInstruction[] = [];
+  if (asset.missingAccounts.has(recipient.toBase58())) {
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(
+      context.payer, account, recipient, asset.mint, asset.programId
+    ));
+  }
+  instructions.push(createTransferCheckedInstruction(
+    asset.source,
+    asset.mint,
+    account,
+    context.payer,
+    toAssetAmount(reward.amountLamports, asset.conversion),
+    asset.decimals,
+    [],
+    asset.programId
+  ));
+  return instructions;
+}
+
+/**
+ * Build the instructions of one payout transaction
+ */
+function createBatchInstructions(
+  context: PayoutContext,
+  batch: Array<{ pubkey: string; amountLamports: bigint }>
+): TransactionInstruction[] {
+  const instructions = batch.flatMap((reward) => createPayoutInstructions(context, reward));
+  return context.asset
+    ? [ComputeBudgetProgram.setComputeUnitLimit({ units: ASSET_PAYOUT_COMPUTE_UNITS }), ...instructions]
+    : instructions;
+}
+
+/**
+ * Pack payouts into batches that each fit in one transaction
+ * Payouts are added in order until the next one would exceed the transaction
+ * size limit or MAX_TRANSFERS_PER_TX.
+ */
+function packPayoutBatches<T extends { pubkey: string; amountLamports: bigint }>(
+  rewards: T[],
+  context: PayoutContext,
+  lookupTables?: AddressLookupTableAccount[]
+): T[][] {
+  const fits = (batch: T[]): boolean => {
+    if (batch.length > PAYOUT_BATCH_CONFIG.MAX_TRANSFERS_PER_TX) {
+      return false;
+    }
+    try {
+      const instructions = createBatchInstructions(context, batch);
+      return getTransactionSize(instructions, context.payer, lookupTables) <= PACKET_DATA_SIZE;
+    } catch {
+      return false; // Too large to serialize at all
+    }
+  };
+
+  const batches: T[][] = [];
+  let current: T[] = [];
+
+  for (const reward of rewards) {
+    if (current.length > 0 && !fits([...current, reward])) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(reward);
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * SOL distribution result
+ */
+export interface SolDistributionResult {
   distributedCount: number;
-  totalDistributed: bigint;
+  totalDistributed: bigint; // SOL value of the payouts (in lamports)
   skippedCount: number;
-  signatures: Array<{ pubkey: string; amount: bigint; signature: string }>;
+  signatures: Array<{ pubkey: string; amount: bigint; signature: string; eligibleBalance?: bigint }>;
   errors: Array<{ pubkey: string; error: string }>;
-}> {
-  try {
-    logger.info('Starting SOL distribution to holders', {
-      totalSolLamports: totalSol.toString(),
-      totalSolHuman: (Number(totalSol) / LAMPORTS_PER_SOL).toFixed(6),
+  assetConversion?: RewardAssetConversion; // Set when paid in a reward asset other than SOL
+  assetDistributed?: bigint; // Reward asset paid (raw units)
+}
+
+/**
+ * Outcome of one holder payout transfer
+ * (assetAmount: reward asset paid, raw units - absent for SOL payouts)
+ */
+export type PayoutTransferOutcome = { signature: string; assetAmount?: bigint } | { error: string };
+
+/**
+ * Options for distributeSolToHolders
+ * The hooks let the cycle journal record every transfer before and after it is sent.
+ * They are called once per transaction (not per payout), so each can be persisted in one write.
+ */
+export interface SolDistributionOptions {
+  // Pay exactly these rewards instead of calculating allocations (resumed cycles)
+  plannedRewards?: Array<{ pubkey: string; amountLamports: bigint; eligibleBalance?: bigint }>;
+  // The planned rewards are payout queue entries - their own debt is not reserved against them
+  payingQueuedPayouts?: boolean;
+  // Called once with the final payout list, before any transfer is sent
+  onPayoutsPlanned?: (rewards: Array<{ pubkey: string; amountLamports: bigint; eligibleBalance?: bigint }>) => void;
+  // Called after a payout transaction is signed and before it is sent, with the holders it pays
+  onTransfersSigned?: (pubkeys: string[], signature: string, lastValidBlockHeight: number) => void;
+  // Called once transfers have definitely landed or definitely not landed
+  onTransfersSettled?: (settled: Array<{ pubkey: string; outcome: PayoutTransferOutcome }>) => void;
+  // Conversion recorded by an interrupted run - its asset is already in the reward wallet
+  assetConversion?: RewardAssetConversion;
+  // Called after the asset swap is signed and before it is sent, with the asset balance it is reconciled against
+  onAssetSwapStarted?: (swap: Omit<RewardAssetConversion, 'amountReceived'> & {
+    assetBalanceBefore: bigint;
+    lastValidBlockHeight: number;
+  }) => void;
+  // Called once the SOL of the payouts was swapped into the reward asset, before any transfer
+  onAssetSwapped?: (conversion: RewardAssetConversion) => void;
+}
+
+/**
+ * Holder allocation plan
+ * Per-holder reward split for a given SOL amount, before any transfer is sent
+ */
+export interface HolderAllocationPlan {
+  eligibleWalletsCount: number;
+  eligibleHoldersCount: number;
+  totalEligibleSupply: bigint;
+  thresholdSOL: number;
+  thresholdLamports: bigint;
+  weightingMode: 'TIME_WEIGHTED' | 'INSTANTANEOUS'; // Balance the shares are based on
+  rewardsToPay: Array<{ pubkey: string; amountLamports: bigint; wasAccumulated: boolean; eligibleBalance?: bigint }>; // eligibleBalance: weight the share is based on
+  rewardsToAccumulate: Array<{ pubkey: string; amountLamports: bigint }>;
+}
+
+/**
+ * Current balance of each owner over all its token accounts
+ */
+function getOwnerBalances(eligibleHolders: TokenHolder[]): Map<string, bigint> {
+  const balances = new Map<string, bigint>();
+  for (const holder of eligibleHolders) {
+    balances.set(holder.owner, (balances.get(holder.owner) ?? 0n) + BigInt(holder.amount));
+  }
+  return balances;
+}
+
+/**
+ * Balance each eligible holder's share is based on (REWARD_WEIGHTING_CONFIG)
+ * One entry per wallet, so accumulated rewards and thresholds apply per owner
+ * rather than per token account.
+ *
+ * TIME_WEIGHTED: the wallet's average balance over the epoch
+ * (balanceSnapshotService), capped at its current balance so tokens sold during
+ * the epoch do not earn. Falls back to INSTANTANEOUS until a snapshot exists.
+ * INSTANTANEOUS: the wallet's balance at distribution time.
+ */
+function getHolderWeights(eligibleHolders: TokenHolder[]): {
+  holders: Array<{ owner: string; amount: string }>;
+  weightingMode: 'TIME_WEIGHTED' | 'INSTANTANEOUS';
+} {
+  const currentBalances = getOwnerBalances(eligibleHolders);
+  const instantaneous = () => ({
+    holders: Array.from(currentBalances, ([owner, amount]) => ({ owner, amount: amount.toString() })),
+    weightingMode: 'INSTANTANEOUS' as const,
+  });
+
+  if (REWARD_WEIGHTING_CONFIG.WEIGHTING_MODE === 'INSTANTANEOUS') {
+    return instantaneous();
+  }
+
+  const averages = getTimeWeightedBalances();
+  if (!averages) {
+    logger.warn('No balance snapshots for the current epoch yet, using instantaneous balances', {
+      snapshots: getBalanceSnapshotMetadata(),
     });
+    return instantaneous();
+  }
 
-    if (totalSol <= 0n) {
-      throw new Error('Total SOL amount must be greater than zero');
+  const holders: Array<{ owner: string; amount: string }> = [];
+  let instantaneousSupply = 0n;
+  let weightedSupply = 0n;
+  for (const [owner, current] of currentBalances) {
+    const average = averages.get(owner) ?? 0n;
+    const weight = average < current ? average : current;
+    instantaneousSupply += current;
+    weightedSupply += weight;
+    if (weight > 0n) {
+      holders.push({ owner, amount: weight.toString() });
     }
+  }
 
-    // Step 1: Get eligible wallets (optimized - uses cached eligible wallets list)
-    const eligibleWalletsSet = getEligibleWalletsWithUnpaidRewards();
-    
-    if (eligibleWalletsSet.size === 0) {
-      const metadata = getEligibleWalletsMetadata();
-      logger.info('No eligible wallets, skipping distribution', {
-        eligibleWalletsLastUpdated: metadata.lastUpdated ? new Date(metadata.lastUpdated).toISOString() : null,
-        eligibleWalletsCount: metadata.count,
-      });
-      return {
-        distributedCount: 0,
-        totalDistributed: 0n,
-        skippedCount: 0,
-        signatures: [],
-        errors: [],
-      };
-    }
+  // Instantaneous figures are kept for comparison
+  logger.info('Holder weights from time-weighted balances', {
+    holders: currentBalances.size,
+    weightedHolders: holders.length,
+    instantaneousSupply: instantaneousSupply.toString(),
+    timeWeightedSupply: weightedSupply.toString(),
+  });
 
-    // Step 2: Get all token holders and filter to eligible wallets only
-    const allHolders = await getTokenHolders();
-    const eligibleHolders: TokenHolder[] = allHolders.filter(holder => 
-      eligibleWalletsSet.has(holder.owner)
-    );
-    
-    if (eligibleHolders.length === 0) {
-      logger.info('No eligible holders found after filtering', {
-        totalHolders: allHolders.length,
-        eligibleWalletsCount: eligibleWalletsSet.size,
-      });
-      return {
-        distributedCount: 0,
-        totalDistributed: 0n,
-        skippedCount: 0,
-        signatures: [],
-        errors: [],
-      };
-    }
+  return { holders, weightingMode: 'TIME_WEIGHTED' };
+}
+
+/**
+ * Calculate per-holder rewards for a distribution
+ *
+ * Splits totalSol proportionally across eligible holders and checks each share
+ * against the dust limit and the mode-dependent minimum payout threshold.
+ * Read-only: no transactions are sent, so this is also used for dry-run simulation.
+ *
+ * @param totalSol - Total SOL to distribute (in lamports)
+ * @returns Allocation plan with payouts and below-threshold amounts
+ */
+export async function calculateHolderAllocations(totalSol: bigint): Promise<HolderAllocationPlan> {
+  const plan: HolderAllocationPlan = {
+    eligibleWalletsCount: 0,
+    eligibleHoldersCount: 0,
+    totalEligibleSupply: 0n,
+    thresholdSOL: MIN_SOL_PAYOUT,
+    thresholdLamports: BigInt(Math.floor(MIN_SOL_PAYOUT * LAMPORTS_PER_SOL)),
+    weightingMode: 'INSTANTANEOUS',
+    rewardsToPay: [],
+    rewardsToAccumulate: [],
+  };
 
-    // Step 3: Calculate total eligible supply
-    const totalEligibleSupply = eligibleHolders.reduce((sum, holder) => {
-      return sum + BigInt(holder.amount);
-    }, 0n);
+  // Step 1: Get eligible wallets (optimized - uses cached eligible wallets list)
+  const eligibleWalletsSet = getEligibleWalletsWithUnpaidRewards();
+  plan.eligibleWalletsCount = eligibleWalletsSet.size;
 
-    if (totalEligibleSupply === 0n) {
-      logger.warn('Total eligible supply is zero, skipping distribution');
-      return {
-        distributedCount: 0,
-        totalDistributed: 0n,
-        skippedCount: 0,
-        signatures: [],
-        errors: [],
-      };
-    }
+  if (eligibleWalletsSet.size === 0) {
+    const metadata = getEligibleWalletsMetadata();
+    logger.info('No eligible wallets, skipping distribution', {
+      eligibleWalletsLastUpdated: metadata.lastUpdated ? new Date(metadata.lastUpdated).toISOString() : null,
+      eligibleWalletsCount: metadata.count,
+    });
+    return plan;
+  }
 
-    // Step 4: Get minimum payout threshold based on REWARD_VALUE_MODE
-    const minPayoutThresholdSOL = await getMinimumPayoutThreshold();
-    if (minPayoutThresholdSOL === null) {
-      logger.warn('Could not determine minimum payout threshold, using legacy MIN_SOL_PAYOUT', {
-        legacyMinSolPayout: MIN_SOL_PAYOUT,
-      });
-    }
-    const thresholdSOL = minPayoutThresholdSOL ?? MIN_SOL_PAYOUT;
-    const thresholdLamports = BigInt(Math.floor(thresholdSOL * LAMPORTS_PER_SOL));
+  // Step 2: Get all token holders and filter to eligible wallets only
+  const allHolders = await getTokenHolders();
+  const eligibleHolders: TokenHolder[] = allHolders.filter(holder => 
+    eligibleWalletsSet.has(holder.owner)
+  );
+  plan.eligibleHoldersCount = new Set(eligibleHolders.map((holder) => holder.owner)).size; // Owners, not token accounts
+  
+  if (eligibleHolders.length === 0) {
+    logger.info('No eligible holders found after filtering', {
+      totalHolders: allHolders.length,
+      eligibleWalletsCount: eligibleWalletsSet.size,
+    });
+    return plan;
+  }
+
+  // Step 3: Weight each holder and calculate total eligible supply
+  const { holders: weightedHolders, weightingMode } = getHolderWeights(eligibleHolders);
+  plan.weightingMode = weightingMode;
+
+  const totalEligibleSupply = weightedHolders.reduce((sum, holder) => {
+    return sum + BigInt(holder.amount);
+  }, 0n);
+  plan.totalEligibleSupply = totalEligibleSupply;
+
+  if (totalEligibleSupply === 0n) {
+    logger.warn('Total eligible supply is zero, skipping distribution');
+    return plan;
+  }
+
+  // Step 4: Get minimum payout threshold based on REWARD_VALUE_MODE
+  const minPayoutThresholdSOL = await getMinimumPayoutThreshold();
+  if (minPayoutThresholdSOL === null) {
+    logger.warn('Could not determine minimum payout threshold, using legacy MIN_SOL_PAYOUT', {
+      legacyMinSolPayout: MIN_SOL_PAYOUT,
+    });
+  }
+  const thresholdSOL = minPayoutThresholdSOL ?? MIN_SOL_PAYOUT;
+  const thresholdLamports = BigInt(Math.floor(thresholdSOL * LAMPORTS_PER_SOL));
+  plan.thresholdSOL = thresholdSOL;
+  plan.thresholdLamports = thresholdLamports;
 
-    // Step 5: Calculate per-holder rewards and check against threshold
-    // IMPORTANT: Only distribute SOL from current swap, NOT from accumulated rewards
-    const rewardsToPay: Array<{ pubkey: string; amountLamports: bigint; wasAccumulated: boolean }> = [];
-    const rewardsToAccumulate: Array<{ pubkey: string; amountLamports: bigint }> = [];
+  // Personal minimum payouts of verified holders (holderPreferencesService)
+  const payoutPreferences = REWARD_ACCUMULATION_CONFIG.ENABLED ? getPayoutPreferences() : new Map();
+
+  // Step 5: Calculate per-holder rewards and check against threshold
+  // Without accumulation only SOL from the current swap is distributed; with
+  // REWARD_ACCUMULATION_CONFIG.ENABLED the holder's accumulated reward is added
+  for (const holder of weightedHolders) {
+    const holderBalance = BigInt(holder.amount);
     
-    for (const holder of eligibleHolders) {
-      const holderBalance = BigInt(holder.amount);
-      
-      // Calculate current epoch reward: (holder balance / total eligible supply) * total SOL
-      const currentRewardLamports = (totalSol * holderBalance) / totalEligibleSupply;
-      
-      // Skip if current reward is below dust limit
-      if (currentRewardLamports < BigInt(Math.floor(MIN_SOL_PAYOUT * LAMPORTS_PER_SOL))) {
-        const currentRewardSOL = Number(currentRewardLamports) / LAMPORTS_PER_SOL;
-        logger.debug('Payout skipped: below dust limit', {
-          wallet: holder.owner,
-          currentRewardSOL: currentRewardSOL.toFixed(6),
-          dustLimitSOL: MIN_SOL_PAYOUT,
-          reason: 'BELOW_DUST_LIMIT',
-        });
-        continue;
-      }
-      
-      // Get accumulated reward for logging only (not used for payouts)
-      const accumulatedRewardSOL = getAccumulatedReward(holder.owner);
-      const accumulatedRewardLamports = BigInt(Math.floor(accumulatedRewardSOL * LAMPORTS_PER_SOL));
-      
-      // Check if current reward meets threshold (ignore accumulated rewards)
-      if (currentRewardLamports >= thresholdLamports) {
-        // Current reward meets threshold: pay ONLY the current reward from swap
-        rewardsToPay.push({
+    // Calculate current epoch reward: (holder balance / total eligible supply) * total SOL
+    const currentRewardLamports = (totalSol * holderBalance) / totalEligibleSupply;
+
+    if (REWARD_ACCUMULATION_CONFIG.ENABLED) {
+      const accumulatedLamports = BigInt(Math.round(getAccumulatedReward(holder.owner) * LAMPORTS_PER_SOL));
+      const totalRewardLamports = currentRewardLamports + accumulatedLamports;
+
+      // A holder's own minimum can only raise the threshold
+      const holderMinSOL: number | null = payoutPreferences.get(holder.owner)?.minPayoutSOL ?? null;
+      const holderThresholdLamports = holderMinSOL !== null
+        ? BigInt(Math.floor(Math.max(thresholdSOL, holderMinSOL) * LAMPORTS_PER_SOL))
+        : thresholdLamports;
+      const holderThresholdSOL = Number(holderThresholdLamports) / LAMPORTS_PER_SOL;
+
+      if (totalRewardLamports >= holderThresholdLamports) {
+        plan.rewardsToPay.push({
           pubkey: holder.owner,
-          amountLamports: currentRewardLamports,  // ← ONLY current swap proceeds
-          wasAccumulated: false,  // Never pay accumulated rewards from wallet balance
+          amountLamports: totalRewardLamports,
+          wasAccumulated: accumulatedLamports > 0n,
+          eligibleBalance: holderBalance,
         });
-        
+
         logger.info('Payout will be sent', {
           wallet: holder.owner,
           currentRewardSOL: (Number(currentRewardLamports) / LAMPORTS_PER_SOL).toFixed(6),
-          accumulatedRewardSOL: accumulatedRewardSOL.toFixed(6),  // For info only
-          thresholdSOL: thresholdSOL.toFixed(6),
+          accumulatedRewardSOL: (Number(accumulatedLamports) / LAMPORTS_PER_SOL).toFixed(6),
+          thresholdSOL: holderThresholdSOL.toFixed(6),
           status: 'PAYING',
-          note: 'Only paying current swap proceeds, not accumulated rewards',
         });
-      } else {
-        // Current reward below threshold: skip payout (don't accumulate)
-        const currentRewardSOL = Number(currentRewardLamports) / LAMPORTS_PER_SOL;
-        rewardsToAccumulate.push({
+      } else if (currentRewardLamports > 0n) {
+        plan.rewardsToAccumulate.push({
           pubkey: holder.owner,
           amountLamports: currentRewardLamports,
         });
-        
-        logger.info('Payout skipped: below threshold', {
+
+        logger.info('Payout deferred: below threshold, reward accumulated', {
           wallet: holder.owner,
-          currentRewardSOL: currentRewardSOL.toFixed(6),
-          accumulatedRewardSOL: accumulatedRewardSOL.toFixed(6),  // For info only
-          thresholdSOL: thresholdSOL.toFixed(6),
-          status: 'SKIPPED',
-          reason: `Current reward (${currentRewardSOL.toFixed(6)} SOL) < threshold (${thresholdSOL.toFixed(6)} SOL)`,
-          note: 'Will be paid in future cycles when swap proceeds are large enough',
+          currentRewardSOL: (Number(currentRewardLamports) / LAMPORTS_PER_SOL).toFixed(6),
+          accumulatedRewardSOL: (Number(totalRewardLamports) / LAMPORTS_PER_SOL).toFixed(6),
+          thresholdSOL: holderThresholdSOL.toFixed(6),
+          status: 'ACCUMULATED',
         });
       }
+      continue;
+    }
+    
+    // Skip if current reward is below dust limit
+    if (currentRewardLamports < BigInt(Math.floor(MIN_SOL_PAYOUT * LAMPORTS_PER_SOL))) {
+      const currentRewardSOL = Number(currentRewardLamports) / LAMPORTS_PER_SOL;
+      logger.debug('Payout skipped: below dust limit', {
+        wallet: holder.owner,
+        currentRewardSOL: currentRewardSOL.toFixed(6),
+        dustLimitSOL: MIN_SOL_PAYOUT,
+        reason: 'BELOW_DUST_LIMIT',
+      });
+      continue;
     }
+    
+    // Get accumulated reward for logging only (not used for payouts)
+    const accumulatedRewardSOL = getAccumulatedReward(holder.owner);
+    
+    // Check if current reward meets threshold (ignore accumulated rewards)
+    if (currentRewardLamports >= thresholdLamports) {
+      // Current reward meets threshold: pay ONLY the current reward from swap
+      plan.rewardsToPay.push({
+        pubkey: holder.owner,
+        amountLamports: currentRewardLamports,  // ← ONLY current swap proceeds
+        wasAccumulated: false,  // Never pay accumulated rewards from wallet balance
+        eligibleBalance: holderBalance,
+      });
+      
+      logger.info('Payout will be sent', {
+        wallet: holder.owner,
+        currentRewardSOL: (Number(currentRewardLamports) / LAMPORTS_PER_SOL).toFixed(6),
+        accumulatedRewardSOL: accumulatedRewardSOL.toFixed(6),  // For info only
+        thresholdSOL: thresholdSOL.toFixed(6),
+        status: 'PAYING',
+        note: 'Only paying current swap proceeds, not accumulated rewards',
+      });
+    } else {
+      // Current reward below threshold: skip payout (don't accumulate)
+      const currentRewardSOL = Number(currentRewardLamports) / LAMPORTS_PER_SOL;
+      plan.rewardsToAccumulate.push({
+        pubkey: holder.owner,
+        amountLamports: currentRewardLamports,
+      });
+      
+      logger.info('Payout skipped: below threshold', {
+        wallet: holder.owner,
+        currentRewardSOL: currentRewardSOL.toFixed(6),
+        accumulatedRewardSOL: accumulatedRewardSOL.toFixed(6),  // For info only
+        thresholdSOL: thresholdSOL.toFixed(6),
+        status: 'SKIPPED',
+        reason: `Current reward (${currentRewardSOL.toFixed(6)} SOL) < threshold (${thresholdSOL.toFixed(6)} SOL)`,
+        note: 'Will be paid in future cycles when swap proceeds are large enough',
+      });
+    }
+  }
 
-    if (rewardsToPay.length === 0) {
-      logger.info('No holders meet minimum payout threshold from current swap', {
-        minPayoutThresholdSOL: thresholdSOL.toFixed(6),
-        totalEligibleHolders: eligibleHolders.length,
-        skippedCount: rewardsToAccumulate.length,
-        totalSkippedSOL: rewardsToAccumulate.reduce((sum, r) => sum + Number(r.amountLamports) / LAMPORTS_PER_SOL, 0).toFixed(6),
-        status: 'ALL_SKIPPED',
-        note: 'All rewards from current swap below threshold - will retry in next cycle',
+  return plan;
+}
+
+/**
+ * Merge payouts to the same wallet into one
+ * The cycle journal and the payout queue track payouts by wallet, so a wallet
+ * listed twice (e.g. planned per token account) must be paid in one transfer.
+ */
+function mergeRewardsByPubkey(rewards: HolderAllocationPlan['rewardsToPay']): HolderAllocationPlan['rewardsToPay'] {
+  const merged = new Map<string, HolderAllocationPlan['rewardsToPay'][number]>();
+  for (const reward of rewards) {
+    const existing = merged.get(reward.pubkey);
+    if (!existing) {
+      merged.set(reward.pubkey, { ...reward });
+      continue;
+    }
+    existing.amountLamports += reward.amountLamports;
+    existing.wasAccumulated = existing.wasAccumulated || reward.wasAccumulated;
+    existing.eligibleBalance = existing.eligibleBalance !== undefined && reward.eligibleBalance !== undefined
+      ? existing.eligibleBalance + reward.eligibleBalance
+      : undefined;
+  }
+
+  if (merged.size < rewards.length) {
+    logger.warn('Merged payouts planned more than once for the same wallet', {
+      planned: rewards.length,
+      wallets: merged.size,
+    });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Book a plan's rewards in the unpaid rewards store (accumulation mode)
+ * Sub-threshold rewards are credited to the holder; accumulated rewards rolled
+ * into a payout are cleared, since from here on the payout itself (cycle
+ * journal / payout queue) records what the holder is owed.
+ */
+function applyAccumulation(plan: HolderAllocationPlan): void {
+  for (const reward of plan.rewardsToPay) {
+    if (reward.wasAccumulated) {
+      clearAccumulatedReward(reward.pubkey);
+    }
+  }
+
+  for (const reward of plan.rewardsToAccumulate) {
+    addToAccumulatedReward(reward.pubkey, Number(reward.amountLamports) / LAMPORTS_PER_SOL);
+  }
+
+  if (plan.rewardsToAccumulate.length > 0) {
+    logger.info('Sub-threshold rewards accumulated', {
+      walletsCredited: plan.rewardsToAccumulate.length,
+      creditedSOL: (Number(plan.rewardsToAccumulate.reduce((sum, r) => sum + r.amountLamports, 0n)) / LAMPORTS_PER_SOL).toFixed(6),
+      totalReservedSOL: getTotalUnpaidRewards().toFixed(6),
+    });
+  }
+}
+
+/**
+ * Accumulated reward reconciliation
+ * The reward wallet must always hold at least the reserved rewards (accumulated
+ * rewards and payouts owed by the payout queue).
+ */
+export interface AccumulationReconciliation {
+  enabled: boolean;
+  walletsWithAccumulatedRewards: number;
+  accumulatedLamports: string; // getTotalUnpaidRewards() in lamports
+  queuedPayoutLamports: string; // Owed by open payout queue entries
+  reservedLamports: string; // accumulatedLamports + queuedPayoutLamports
+  rewardWalletBalanceLamports: string;
+  covered: boolean;
+  shortfallLamports: string;
+  checkedAt: number;
+}
+
+/**
+ * Check that the reward wallet balance covers all accumulated rewards and queued payouts
+ * Logs an error when it does not (reserved SOL was spent or never arrived).
+ */
+export async function reconcileAccumulatedRewards(): Promise<AccumulationReconciliation> {
+  const unpaidRewards = getAllUnpaidRewards();
+  const accumulatedLamports = BigInt(Math.round(getTotalUnpaidRewards() * LAMPORTS_PER_SOL));
+  const queuedPayoutLamports = getQueuedOwedLamports();
+  const reservedLamports = accumulatedLamports + queuedPayoutLamports;
+  const rewardBalance = BigInt(await connection.getBalance(getRewardWallet().publicKey, 'confirmed'));
+  const shortfall = reservedLamports > rewardBalance ? reservedLamports - rewardBalance : 0n;
+
+  const reconciliation: AccumulationReconciliation = {
+    enabled: REWARD_ACCUMULATION_CONFIG.ENABLED,
+    walletsWithAccumulatedRewards: Object.values(unpaidRewards).filter((amount) => amount > 0).length,
+    accumulatedLamports: accumulatedLamports.toString(),
+    queuedPayoutLamports: queuedPayoutLamports.toString(),
+    reservedLamports: reservedLamports.toString(),
+    rewardWalletBalanceLamports: rewardBalance.toString(),
+    covered: shortfall === 0n,
+    shortfallLamports: shortfall.toString(),
+    checkedAt: Date.now(),
+  };
+
+  if (!reconciliation.covered) {
+    logger.error('Reward wallet balance does not cover accumulated rewards and queued payouts', {
+      reservedSOL: (Number(reservedLamports) / LAMPORTS_PER_SOL).toFixed(6),
+      accumulatedSOL: (Number(accumulatedLamports) / LAMPORTS_PER_SOL).toFixed(6),
+      queuedPayoutSOL: (Number(queuedPayoutLamports) / LAMPORTS_PER_SOL).toFixed(6),
+      rewardWalletBalanceSOL: (Number(rewardBalance) / LAMPORTS_PER_SOL).toFixed(6),
+      shortfallSOL: (Number(shortfall) / LAMPORTS_PER_SOL).toFixed(6),
+      walletsWithAccumulatedRewards: reconciliation.walletsWithAccumulatedRewards,
+    });
+  } else {
+    logger.debug('Accumulated rewards covered by reward wallet balance', {
+      reservedLamports: reconciliation.reservedLamports,
+      rewardWalletBalanceLamports: reconciliation.rewardWalletBalanceLamports,
+    });
+  }
+
+  return reconciliation;
+}
+
+/**
+ * Record the payouts of a distribution run in the Prometheus metrics
+ */
+function observeDistribution(result: SolDistributionResult): void {
+  const epoch = getCurrentEpoch();
+  payoutsTotal.inc({ epoch, outcome: 'sent' }, result.distributedCount);
+  payoutsTotal.inc({ epoch, outcome: 'skipped' }, result.skippedCount);
+  payoutsTotal.inc({ epoch, outcome: 'failed' }, result.errors.length);
+  solDistributedTotal.inc({ epoch }, Number(result.totalDistributed) / LAMPORTS_PER_SOL);
+}
+
+/**
+ * Reward asset held by a wallet (raw units, 0 without a token account)
+ * @throws Error if holders are paid in SOL
+ */
+export async function getRewardAssetBalance(owner: PublicKey): Promise<bigint> {
+  const { mint, symbol } = getRewardAsset();
+  if (!mint) {
+    throw new Error(`Reward asset ${symbol} has no mint`);
+  }
+  const { programId } = await getRewardAssetMintInfo();
+  try {
+    const account = await getAccount(connection, getAssociatedTokenAddressSync(mint, owner, false, programId), 'confirmed', programId);
+    return account.amount;
+  } catch (error) {
+    if (error instanceof TokenAccountNotFoundError) {
+      return 0n;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Buy the reward asset for a run's payouts
+ * Recipients without a token account for the asset get one; its rent is taken
+ * out of the SOL swapped, so the payouts of the run share it pro rata. A run
+ * resuming an interrupted one reuses that run's purchase instead of swapping.
+ * A swap that throws but landed (e.g. a confirmation timeout) is still used:
+ * what it bought is read from the wallet's asset balance.
+ *
+ * @returns null when holders are paid in SOL
+ */
+async function preparePayoutAsset(
+  rewards: Array<{ pubkey: string; amountLamports: bigint }>,
+  payer: PublicKey,
+  destinations: Map<string, string>,
+  options: SolDistributionOptions
+): Promise<PayoutAsset | null> {
+  const rewardAsset = getRewardAsset();
+  if (!rewardAsset.mint || !rewardAsset.poolId) {
+    return null;
+  }
+  const mint = rewardAsset.mint;
+  const { programId, decimals, accountSize } = await getRewardAssetMintInfo();
+
+  const recipients = Array.from(new Set(rewards.map((reward) => getPayoutRecipient(reward.pubkey, destinations).toBase58())));
+  const missingAccounts = new Set<string>();
+  for (let i = 0; i < recipients.length; i += ACCOUNTS_PER_REQUEST) {
+    const chunk = recipients.slice(i, i + ACCOUNTS_PER_REQUEST);
+    const accounts = await connection.getMultipleAccountsInfo(
+      chunk.map((recipient) => getAssociatedTokenAddressSync(mint, new PublicKey(recipient), true, programId)),
+      'confirmed'
+    );
+    accounts.forEach((account, index) => {
+      if (!account) {
+        missingAccounts.add(chunk[index]);
+      }
+    });
+  }
+
+  let conversion = options.assetConversion;
+  if (!conversion) {
+    const lamportsPlanned = rewards.reduce((sum, reward) => sum + reward.amountLamports, 0n);
+    const rentPerAccount = BigInt(await connection.getMinimumBalanceForRentExemption(accountSize));
+    const rentLamports = rentPerAccount * BigInt(missingAccounts.size);
+    if (lamportsPlanned <= rentLamports) {
+      throw new Error(
+        `Payouts of ${lamportsPlanned} lamports do not cover the rent of ${missingAccounts.size} new ${rewardAsset.symbol} token accounts`
+      );
+    }
+
+    const assetBalanceBefore = await getRewardAssetBalance(payer);
+    let sent: { signature: string; lastValidBlockHeight: number } | undefined;
+    let signature: string;
+    let amountReceived: bigint;
+    const { swapSolToToken } = await import('./swapService');
+    try {
+      const swap = await swapSolToToken(lamportsPlanned - rentLamports, mint, rewardAsset.poolId, undefined, (signed, lastValidBlockHeight) => {
+        options.onAssetSwapStarted?.({
+          symbol: rewardAsset.symbol,
+          mint: mint.toBase58(),
+          decimals,
+          lamportsPlanned,
+          rentLamports,
+          accountsCreated: missingAccounts.size,
+          signature: signed,
+          assetBalanceBefore,
+          lastValidBlockHeight,
+        });
+        sent = { signature: signed, lastValidBlockHeight };
+      });
+      signature = swap.txSignature;
+      amountReceived = swap.amountReceived;
+    } catch (error) {
+      const outcome = sent
+        ? await waitForTransactionOutcome(sent.signature, sent.lastValidBlockHeight).catch(() => null)
+        : null;
+      const assetBalanceNow = outcome === 'confirmed' ? await getRewardAssetBalance(payer).catch(() => null) : null;
+      if (!sent || assetBalanceNow === null) {
+        throw error;
+      }
+      signature = sent.signature;
+      amountReceived = assetBalanceNow > assetBalanceBefore ? assetBalanceNow - assetBalanceBefore : 0n;
+      logger.warn('Reward asset swap landed despite error', {
+        asset: rewardAsset.symbol,
+        amountReceived: amountReceived.toString(),
+        signature,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    conversion = {
+      symbol: rewardAsset.symbol,
+      mint: mint.toBase58(),
+      decimals,
+      lamportsPlanned,
+      rentLamports,
+      accountsCreated: missingAccounts.size,
+      amountReceived,
+      signature,
+    };
+    options.onAssetSwapped?.(conversion);
+
+    logger.info('Payout SOL swapped into the reward asset', {
+      asset: rewardAsset.symbol,
+      lamportsPlanned: lamportsPlanned.toString(),
+      rentLamports: rentLamports.toString(),
+      accountsToCreate: missingAccounts.size,
+      amountReceived: amountReceived.toString(),
+      signature,
+    });
+  }
+
+  return {
+    mint,
+    programId,
+    decimals,
+    source: getAssociatedTokenAddressSync(mint, payer, false, programId),
+    conversion,
+    missingAccounts,
+  };
+}
+
+/**
+ * Distribute SOL to eligible holders proportionally
+ * Paid in the project's reward asset when it is not SOL (see preparePayoutAsset).
+ * 
+ * @param totalSol - Total SOL to distribute (in lamports)
+ * @param options - Planned payouts and journal hooks (see SolDistributionOptions)
+ * @returns Distribution result with details
+ */
+export async function distributeSolToHolders(
+  totalSol: bigint,
+  options: SolDistributionOptions = {}
+): Promise<SolDistributionResult> {
+  let outcome: 'success' | 'failed' = 'failed';
+  const stopTimer = distributionDurationSeconds.startTimer();
+
+  try {
+    logger.info('Starting SOL distribution to holders', {
+      totalSolLamports: totalSol.toString(),
+      totalSolHuman: (Number(totalSol) / LAMPORTS_PER_SOL).toFixed(6),
+    });
+
+    if (totalSol <= 0n) {
+      throw new Error('Total SOL amount must be greater than zero');
+    }
+
+    // Steps 1-5: Eligible holders, threshold and per-holder rewards
+    // (skipped when resuming a cycle whose payouts were already planned)
+    let plan: HolderAllocationPlan;
+    if (options.plannedRewards) {
+      plan = {
+        eligibleWalletsCount: options.plannedRewards.length,
+        eligibleHoldersCount: options.plannedRewards.length,
+        totalEligibleSupply: 0n,
+        thresholdSOL: 0,
+        thresholdLamports: 0n,
+        weightingMode: REWARD_WEIGHTING_CONFIG.WEIGHTING_MODE,
+        rewardsToPay: options.plannedRewards.map((r) => ({ ...r, wasAccumulated: false })),
+        rewardsToAccumulate: [],
+      };
+      logger.info('Using planned holder payouts', {
+        payoutsCount: plan.rewardsToPay.length,
       });
-      return {
+    } else {
+      plan = await calculateHolderAllocations(totalSol);
+      if (REWARD_ACCUMULATION_CONFIG.ENABLED) {
+        applyAccumulation(plan);
+      }
+    }
+    plan.rewardsToPay = mergeRewardsByPubkey(plan.rewardsToPay);
+    const {
+      eligibleWalletsCount,
+      eligibleHoldersCount,
+      thresholdSOL,
+      rewardsToPay,
+      rewardsToAccumulate,
+    } = plan;
+
+    if (rewardsToPay.length === 0) {
+      if (eligibleHoldersCount > 0) {
+        logger.info('No holders meet minimum payout threshold from current swap', {
+          minPayoutThresholdSOL: thresholdSOL.toFixed(6),
+          totalEligibleHolders: eligibleHoldersCount,
+          skippedCount: rewardsToAccumulate.length,
+          totalSkippedSOL: rewardsToAccumulate.reduce((sum, r) => sum + Number(r.amountLamports) / LAMPORTS_PER_SOL, 0).toFixed(6),
+          status: 'ALL_SKIPPED',
+          note: 'All rewards from current swap below threshold - will retry in next cycle',
+        });
+      }
+      const skippedResult: SolDistributionResult = {
         distributedCount: 0,
         totalDistributed: 0n,
-        skippedCount: eligibleHolders.length,
+        skippedCount: eligibleHoldersCount,
         signatures: [],
         errors: [],
       };
+      outcome = 'success';
+      observeDistribution(skippedResult);
+      return skippedResult;
     }
 
     logger.info('Calculated rewards for distribution from current swap', {
-      eligibleWalletsCount: eligibleWalletsSet.size,
-      eligibleHoldersProcessed: eligibleHolders.length,
+      eligibleWalletsCount,
+      eligibleHoldersProcessed: eligibleHoldersCount,
       rewardsToPay: rewardsToPay.length,
       rewardsBelowThreshold: rewardsToAccumulate.length,
       totalRewardLamports: rewardsToPay.reduce((sum, r) => sum + r.amountLamports, 0n).toString(),
@@ -220,11 +903,13 @@ export async function distributeSolToHolders(
       note: 'Only distributing SOL from current TEK swap, not accumulated rewards',
     });
 
+    options.onPayoutsPlanned?.(rewardsToPay.map(({ pubkey, amountLamports, eligibleBalance }) => ({ pubkey, amountLamports, eligibleBalance })));
+
     // Step 6: Get reward wallet
     const rewardWallet = getRewardWallet();
     const rewardWalletAddress = rewardWallet.publicKey;
 
-    // Step 7: Check reward wallet balance
+    // Step 7: Check reward wallet balance (once - later checks use the running total)
     const rewardBalance = await connection.getBalance(rewardWalletAddress, 'confirmed');
     const totalRequired = rewardsToPay.reduce((sum, r) => sum + r.amountLamports, 0n) + BigInt(rewardsToPay.length * 5000); // Buffer for fees
 
@@ -237,118 +922,219 @@ export async function distributeSolToHolders(
       // Continue with what we can afford
     }
 
-    // Step 8: Execute SOL transfers
-    const signatures: Array<{ pubkey: string; amount: bigint; signature: string }> = [];
+    const signatures: SolDistributionResult['signatures'] = [];
     const errors: Array<{ pubkey: string; error: string }> = [];
     let totalDistributed = 0n;
+    let assetDistributed = 0n;
     let distributedCount = 0;
     let skippedCount = 0;
 
+    // Step 8: Skip payouts the wallet cannot cover
+    // Accumulated rewards of other holders and payouts still owed by the payout
+    // queue are reserved and never spent here
+    const accumulatedLamports = REWARD_ACCUMULATION_CONFIG.ENABLED
+      ? BigInt(Math.round(getTotalUnpaidRewards() * LAMPORTS_PER_SOL))
+      : 0n;
+    const queuedPayoutLamports = getQueuedOwedLamports(
+      options.payingQueuedPayouts ? new Set(rewardsToPay.map((reward) => reward.pubkey)) : undefined
+    );
+    const reservedLamports = accumulatedLamports + queuedPayoutLamports;
+    let availableBalance = BigInt(rewardBalance) - reservedLamports;
+    const affordableRewards: typeof rewardsToPay = [];
+    const unaffordable: Array<{ pubkey: string; outcome: PayoutTransferOutcome }> = [];
+
     for (const reward of rewardsToPay) {
-      try {
-        // Check if we have enough balance
-        const currentBalance = await connection.getBalance(rewardWalletAddress, 'confirmed');
-        const requiredForThis = reward.amountLamports + BigInt(5000); // Amount + fee buffer
-
-        if (currentBalance < requiredForThis) {
-          const amountSOL = Number(reward.amountLamports) / LAMPORTS_PER_SOL;
-          const availableSOL = Number(currentBalance) / LAMPORTS_PER_SOL;
-          const requiredSOL = Number(requiredForThis) / LAMPORTS_PER_SOL;
-          
-          // Get accumulated reward for logging
-          const accumulatedRewardSOL = getAccumulatedReward(reward.pubkey);
-          
-          logger.warn('Payout skipped: insufficient balance', {
-            wallet: reward.pubkey,
-            amountSOL: amountSOL.toFixed(6),
-            availableSOL: availableSOL.toFixed(6),
-            requiredSOL: requiredSOL.toFixed(6),
-            shortfallSOL: (requiredSOL - availableSOL).toFixed(6),
-            accumulatedRewardSOL: accumulatedRewardSOL.toFixed(6),
-            wasAccumulated: reward.wasAccumulated,
-            reason: 'INSUFFICIENT_BALANCE',
-            status: 'SKIPPED',
-          });
-          skippedCount++;
-          continue;
-        }
+      const requiredForThis = reward.amountLamports + BigInt(5000); // Amount + fee buffer
 
-        // Create transfer instruction
-        const recipient = new PublicKey(reward.pubkey);
-        const transaction = new Transaction().add(
-          SystemProgram.transfer({
-            fromPubkey: rewardWalletAddress,
-            toPubkey: recipient,
-            lamports: Number(reward.amountLamports),
-          })
-        );
+      if (availableBalance < requiredForThis) {
+        const amountSOL = Number(reward.amountLamports) / LAMPORTS_PER_SOL;
+        const availableSOL = Number(availableBalance) / LAMPORTS_PER_SOL;
+        const requiredSOL = Number(requiredForThis) / LAMPORTS_PER_SOL;
+        
+        // Get accumulated reward for logging
+        const accumulatedRewardSOL = getAccumulatedReward(reward.pubkey);
+        
+        logger.warn('Payout skipped: insufficient balance', {
+          wallet: reward.pubkey,
+          amountSOL: amountSOL.toFixed(6),
+          availableSOL: availableSOL.toFixed(6),
+          requiredSOL: requiredSOL.toFixed(6),
+          shortfallSOL: (requiredSOL - availableSOL).toFixed(6),
+          accumulatedRewardSOL: accumulatedRewardSOL.toFixed(6),
+          wasAccumulated: reward.wasAccumulated,
+          reason: 'INSUFFICIENT_BALANCE',
+          status: 'SKIPPED',
+        });
+        unaffordable.push({ pubkey: reward.pubkey, outcome: { error: 'INSUFFICIENT_BALANCE' } });
+        skippedCount++;
+        continue;
+      }
 
-        // Get recent blockhash
-        const { blockhash } = await connection.getLatestBlockhash('confirmed');
-        transaction.recentBlockhash = blockhash;
-        transaction.feePayer = rewardWalletAddress;
-
-        // Sign and send
-        const signature = await sendAndConfirmTransaction(
-          connection,
-          transaction,
-          [rewardWallet],
-          { commitment: 'confirmed', maxRetries: 3 }
+      availableBalance -= requiredForThis;
+      affordableRewards.push(reward);
+    }
+
+    if (unaffordable.length > 0) {
+      options.onTransfersSettled?.(unaffordable);
+    }
+
+    // Payout destination overrides of verified holders (holderPreferencesService)
+    const destinations = new Map<string, string>();
+    for (const [pubkey, preferences] of getPayoutPreferences()) {
+      if (preferences.payoutDestination) {
+        destinations.set(pubkey, preferences.payoutDestination);
+      }
+    }
+
+    // Step 9: Swap the payouts into the reward asset (when it is not SOL)
+    const asset = affordableRewards.length > 0
+      ? await preparePayoutAsset(affordableRewards, rewardWalletAddress, destinations, options)
+      : null;
+    const context: PayoutContext = { payer: rewardWalletAddress, destinations, asset };
+
+    // Step 10: Address lookup tables (optional) - fit more transfers per transaction
+    let lookupTables: AddressLookupTableAccount[] | undefined;
+    if (
+      PAYOUT_BATCH_CONFIG.USE_LOOKUP_TABLES &&
+      affordableRewards.length >= PAYOUT_BATCH_CONFIG.LOOKUP_TABLE_MIN_RECIPIENTS
+    ) {
+      try {
+        const recipients = affordableRewards.map((reward) => getPayoutRecipient(reward.pubkey, destinations));
+        lookupTables = await getPayoutLookupTables(
+          asset
+            ? recipients.map((recipient) => getAssociatedTokenAddressSync(asset.mint, recipient, true, asset.programId))
+            : recipients,
+          rewardWallet
         );
+      } catch (error) {
+        logger.warn('Failed to prepare payout lookup tables - using legacy transactions', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Step 11: Execute the transfers, packed into multi-transfer transactions
+    const batchQueue = packPayoutBatches(affordableRewards, context, lookupTables);
+
+    logger.info('Payouts packed into transactions', {
+      payouts: affordableRewards.length,
+      transactions: batchQueue.length,
+      versioned: Boolean(lookupTables),
+    });
 
+    const recordPaid = (batch: typeof rewardsToPay, signature: string): void => {
+      const assetAmounts = batch.map((reward) => asset ? toAssetAmount(reward.amountLamports, asset.conversion) : undefined);
+      options.onTransfersSettled?.(batch.map((reward, index) => ({
+        pubkey: reward.pubkey,
+        outcome: { signature, assetAmount: assetAmounts[index] },
+      })));
+      batch.forEach((reward, index) => {
+        const assetAmount = assetAmounts[index];
         signatures.push({
           pubkey: reward.pubkey,
           amount: reward.amountLamports,
           signature,
+          eligibleBalance: reward.eligibleBalance,
         });
-
         totalDistributed += reward.amountLamports;
+        assetDistributed += assetAmount ?? 0n;
         distributedCount++;
 
-        const amountSOL = Number(reward.amountLamports) / LAMPORTS_PER_SOL;
-        
-        // Get accumulated reward before clearing for logging
-        const accumulatedRewardSOL = getAccumulatedReward(reward.pubkey);
-        
-        // NOTE: Accumulated rewards are NOT cleared because we never pay them
-        // They remain for informational/tracking purposes only
-        // Only SOL from TEK swaps is distributed
-
         logger.info('SOL payout successful', {
           wallet: reward.pubkey,
-          amountSOL: amountSOL.toFixed(6),
+          amountSOL: (Number(reward.amountLamports) / LAMPORTS_PER_SOL).toFixed(6),
           amountLamports: reward.amountLamports.toString(),
+          asset: asset?.conversion.symbol,
+          assetAmount: assetAmount?.toString(),
+          destination: destinations.get(reward.pubkey) ?? reward.pubkey,
           signature,
-          wasAccumulated: false,  // Always false now - never pay accumulated
-          accumulatedTracked: accumulatedRewardSOL.toFixed(6),  // For info only
-          note: 'Only SOL from TEK swap distributed, not accumulated rewards',
+          batchSize: batch.length,
+          accumulatedTracked: getAccumulatedReward(reward.pubkey).toFixed(6),  // For info only
           status: 'PAID',
         });
+      });
+    };
+
+    while (batchQueue.length > 0) {
+      const batch = batchQueue.shift()!;
+      let signed: SignedTransaction | null = null;
+
+      try {
+        const instructions = createBatchInstructions(context, batch);
+
+        // Sign first so the signature can be journaled before sending
+        signed = await signInstructions(instructions, [rewardWallet], lookupTables);
+        options.onTransfersSigned?.(batch.map((reward) => reward.pubkey), signed.signature, signed.lastValidBlockHeight);
+
+        const signature = await sendSignedTransaction(signed);
+        recordPaid(batch, signature);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        const amountSOL = Number(reward.amountLamports) / LAMPORTS_PER_SOL;
-        
-        errors.push({
-          pubkey: reward.pubkey,
-          error: errorMessage,
-        });
 
-        logger.error('❌ SOL payout transaction failed', {
-          wallet: reward.pubkey,
-          amountSOL: amountSOL.toFixed(6),
-          amountLamports: reward.amountLamports.toString(),
-          wasAccumulated: reward.wasAccumulated,
-          error: errorMessage,
-          errorType: error instanceof Error ? error.constructor.name : typeof error,
-          stack: error instanceof Error ? error.stack : undefined,
-          status: 'TRANSACTION_FAILED',
-        });
+        // A send/confirm error does not prove the transaction did not land
+        let outcome: TransactionOutcome | null = signed ? null : 'failed';
+        if (signed) {
+          try {
+            outcome = await waitForTransactionOutcome(signed.signature, signed.lastValidBlockHeight);
+          } catch (statusError) {
+            // Outcome unknown - leave the payouts unsettled so a resumed cycle reconciles them
+            logger.warn('Could not determine payout transaction outcome', {
+              signature: signed.signature,
+              recipients: batch.length,
+              error: statusError instanceof Error ? statusError.message : String(statusError),
+            });
+          }
+        }
+
+        if (signed && outcome === 'confirmed') {
+          logger.info('Payout transaction landed despite send error', {
+            signature: signed.signature,
+            recipients: batch.length,
+            sendError: errorMessage,
+          });
+          recordPaid(batch, signed.signature);
+          continue;
+        }
+
+        // One bad recipient fails the whole transaction (e.g. a payout below
+        // rent exemption to an empty account) - retry the recipients one by one
+        if (outcome !== null && batch.length > 1) {
+          logger.warn('Payout transaction failed - retrying its transfers individually', {
+            signature: signed?.signature,
+            recipients: batch.length,
+            error: errorMessage,
+          });
+          batchQueue.unshift(...batch.map((reward) => [reward]));
+          continue;
+        }
+
+        if (outcome !== null) {
+          options.onTransfersSettled?.(batch.map((reward) => ({ pubkey: reward.pubkey, outcome: { error: errorMessage } })));
+        }
+        for (const reward of batch) {
+          errors.push({
+            pubkey: reward.pubkey,
+            error: errorMessage,
+          });
+
+          logger.error('❌ SOL payout transaction failed', {
+            wallet: reward.pubkey,
+            amountSOL: (Number(reward.amountLamports) / LAMPORTS_PER_SOL).toFixed(6),
+            amountLamports: reward.amountLamports.toString(),
+            wasAccumulated: reward.wasAccumulated,
+            signature: signed?.signature,
+            error: errorMessage,
+            errorType: error instanceof Error ? error.constructor.name : typeof error,
+            stack: error instanceof Error ? error.stack : undefined,
+            status: 'TRANSACTION_FAILED',
+          });
+        }
       }
     }
 
     logger.info('SOL distribution completed', {
-      eligibleWalletsCount: eligibleWalletsSet.size,
-      eligibleHoldersProcessed: eligibleHolders.length,
+      eligibleWalletsCount,
+      eligibleHoldersProcessed: eligibleHoldersCount,
       totalToPay: rewardsToPay.length,
       belowThreshold: rewardsToAccumulate.length,
       distributed: distributedCount,
@@ -356,23 +1142,33 @@ export async function distributeSolToHolders(
       failed: errors.length,
       totalDistributedLamports: totalDistributed.toString(),
       totalDistributedSol: (Number(totalDistributed) / LAMPORTS_PER_SOL).toFixed(6),
+      asset: asset?.conversion.symbol ?? 'SOL',
+      assetDistributed: asset ? assetDistributed.toString() : undefined,
       minPayoutThresholdSOL: thresholdSOL,
       note: 'Only SOL from current TEK swap distributed',
     });
 
-    return {
+    const result: SolDistributionResult = {
       distributedCount,
       totalDistributed,
       skippedCount,
       signatures,
       errors,
+      assetConversion: asset?.conversion,
+      assetDistributed: asset ? assetDistributed : undefined,
     };
+    outcome = 'success';
+    observeDistribution(result);
+    return result;
   } catch (error) {
     logger.error('Error distributing SOL to holders', {
       error: error instanceof Error ? error.message : String(error),
       totalSol: totalSol.toString(),
     });
     throw error;
+  } finally {
+    stopTimer({ outcome });
+    distributionsTotal.inc({ epoch: getCurrentEpoch(), outcome });
   }
 }
 
@@ -1,7 +1,15 @@
 import { AccountInfo } from '@solana/web3.js';
 import { TOKEN_2022_PROGRAM_ID, unpackMint, unpackAccount } from '@solana/spl-token';
-import { connection, tokenMint } from '../config/solana';
+import { connection, getTokenMint } from '../config/solana';
 import { logger } from '../utils/logger';
+import { projectScoped } from '../utils/projectContext';
+import { excludeDetectedOwners } from './blacklistService';
+import {
+  tokenHoldersRequestsTotal,
+  tokenHoldersFetchDurationSeconds,
+  tokenHoldersCount,
+  rpcErrorsTotal,
+} from '../utils/metrics';
 
 export interface TokenHolder {
   address: string;
@@ -25,27 +33,34 @@ interface TokenHoldersCache {
   timestamp: number;
 }
 
-let cachedTokenHolders: TokenHoldersCache | null = null;
 const TOKEN_HOLDERS_CACHE_TTL = 30 * 60 * 1000; // 30 minutes cache (optimized to reduce Helius RPC calls)
 const TOKEN_HOLDERS_COOLDOWN = 5 * 60 * 1000; // 5 minutes cooldown between RPC calls
 
-// Track last successful fetch time to enforce cooldown
-let lastTokenHoldersFetch: number = 0;
-let pendingTokenHoldersFetch: Promise<TokenHolder[]> | null = null;
-
 // Cache for mint info
 interface MintInfoCache {
   info: MintInfo;
   timestamp: number;
 }
 
-let cachedMintInfo: MintInfoCache | null = null;
 const MINT_INFO_CACHE_TTL = 10 * 60 * 1000; // 10 minutes cache (increased to reduce RPC calls)
 const MINT_INFO_COOLDOWN = 5 * 60 * 1000; // 5 minutes cooldown between RPC calls
 
-// Track last successful fetch time for mint info
-let lastMintInfoFetch: number = 0;
-let pendingMintInfoFetch: Promise<MintInfo> | null = null;
+// Caches, last successful fetch times (to enforce cooldown) and in-flight fetches, per project
+const solanaCaches = projectScoped<{
+  cachedTokenHolders: TokenHoldersCache | null;
+  lastTokenHoldersFetch: number;
+  pendingTokenHoldersFetch: Promise<TokenHolder[]> | null;
+  cachedMintInfo: MintInfoCache | null;
+  lastMintInfoFetch: number;
+  pendingMintInfoFetch: Promise<MintInfo> | null;
+}>(() => ({
+  cachedTokenHolders: null,
+  lastTokenHoldersFetch: 0,
+  pendingTokenHoldersFetch: null,
+  cachedMintInfo: null,
+  lastMintInfoFetch: 0,
+  pendingMintInfoFetch: null,
+}));
 
 /**
  * Check if error is a 429 rate limit error
@@ -65,44 +80,45 @@ function isRateLimitError(error: unknown): boolean {
  * Enforces 5-minute cooldown between RPC calls
  */
 export async function getMintInfo(): Promise<MintInfo> {
+  const cache = solanaCaches();
   // Check cache first
   const now = Date.now();
-  if (cachedMintInfo && (now - cachedMintInfo.timestamp) < MINT_INFO_CACHE_TTL) {
+  if (cache.cachedMintInfo && (now - cache.cachedMintInfo.timestamp) < MINT_INFO_CACHE_TTL) {
     logger.debug('Using cached mint info', {
-      cachedAt: new Date(cachedMintInfo.timestamp).toISOString(),
+      cachedAt: new Date(cache.cachedMintInfo.timestamp).toISOString(),
     });
-    return cachedMintInfo.info;
+    return cache.cachedMintInfo.info;
   }
 
   // Check cooldown - if within 5 minutes of last fetch, return stale cache
-  const timeSinceLastFetch = now - lastMintInfoFetch;
-  if (lastMintInfoFetch > 0 && timeSinceLastFetch < MINT_INFO_COOLDOWN && cachedMintInfo) {
+  const timeSinceLastFetch = now - cache.lastMintInfoFetch;
+  if (cache.lastMintInfoFetch > 0 && timeSinceLastFetch < MINT_INFO_COOLDOWN && cache.cachedMintInfo) {
     logger.debug('Within cooldown period, returning stale mint info', {
       timeSinceLastFetch: Math.round(timeSinceLastFetch / 1000),
-      cacheAge: Math.round((now - cachedMintInfo.timestamp) / 1000),
+      cacheAge: Math.round((now - cache.cachedMintInfo.timestamp) / 1000),
     });
-    return cachedMintInfo.info;
+    return cache.cachedMintInfo.info;
   }
 
   // If there's already a pending fetch, wait for it
-  if (pendingMintInfoFetch) {
+  if (cache.pendingMintInfoFetch) {
     logger.debug('Mint info fetch already in progress, waiting...');
-    return pendingMintInfoFetch;
+    return cache.pendingMintInfoFetch;
   }
 
   // Create new fetch promise
-  pendingMintInfoFetch = (async () => {
+  cache.pendingMintInfoFetch = (async () => {
     try {
-    const mintAccountInfo = await connection.getAccountInfo(tokenMint);
+    const mintAccountInfo = await connection.getAccountInfo(getTokenMint());
     
     if (!mintAccountInfo) {
-      throw new Error(`Mint account not found: ${tokenMint.toBase58()}`);
+      throw new Error(`Mint account not found: ${getTokenMint().toBase58()}`);
     }
 
-    const parsedMint = unpackMint(tokenMint, mintAccountInfo, TOKEN_2022_PROGRAM_ID);
+    const parsedMint = unpackMint(getTokenMint(), mintAccountInfo, TOKEN_2022_PROGRAM_ID);
     
     const mintInfo: MintInfo = {
-      address: tokenMint.toBase58(),
+      address: getTokenMint().toBase58(),
       decimals: parsedMint.decimals,
       supply: parsedMint.supply.toString(),
       mintAuthority: parsedMint.mintAuthority ? parsedMint.mintAuthority.toBase58() : null,
@@ -111,43 +127,45 @@ export async function getMintInfo(): Promise<MintInfo> {
     };
 
       // Update cache and last fetch time
-      cachedMintInfo = {
+      cache.cachedMintInfo = {
         info: mintInfo,
         timestamp: now,
       };
-      lastMintInfoFetch = now;
+      cache.lastMintInfoFetch = now;
 
       return mintInfo;
     } catch (error) {
+      rpcErrorsTotal.inc({ operation: 'getMintInfo', kind: isRateLimitError(error) ? 'rate_limit' : 'error' });
+
       // If it's a rate limit error and we have stale cache, return it
-      if (isRateLimitError(error) && cachedMintInfo) {
+      if (isRateLimitError(error) && cache.cachedMintInfo) {
         logger.warn('Rate limit hit, returning stale mint info cache', {
-          cacheAge: Math.round((Date.now() - cachedMintInfo.timestamp) / 1000),
+          cacheAge: Math.round((Date.now() - cache.cachedMintInfo.timestamp) / 1000),
         });
-        return cachedMintInfo.info;
+        return cache.cachedMintInfo.info;
       }
       
       // Only log non-rate-limit errors as errors
       if (isRateLimitError(error)) {
         const { rateLimitLogger } = await import('../utils/rateLimitLogger');
         rateLimitLogger.logRateLimit('Rate limit error fetching mint info (no cache available)', {
-          mint: tokenMint.toBase58(),
+          mint: getTokenMint().toBase58(),
         });
         rateLimitLogger.recordRateLimitError();
       } else {
         logger.error('Error fetching mint info', {
           error: error instanceof Error ? error.message : String(error),
-          mint: tokenMint.toBase58(),
+          mint: getTokenMint().toBase58(),
         });
       }
       throw error;
     } finally {
       // Clear pending fetch
-      pendingMintInfoFetch = null;
+      cache.pendingMintInfoFetch = null;
     }
   })();
 
-  return pendingMintInfoFetch;
+  return cache.pendingMintInfoFetch;
 }
 
 /**
@@ -171,38 +189,42 @@ export async function getTokenSupply(): Promise<string> {
  * Enforces 5-minute cooldown between RPC calls
  */
 export async function getTokenHolders(): Promise<TokenHolder[]> {
+  const cache = solanaCaches();
   // Check cache first
   const now = Date.now();
-  if (cachedTokenHolders && (now - cachedTokenHolders.timestamp) < TOKEN_HOLDERS_CACHE_TTL) {
+  if (cache.cachedTokenHolders && (now - cache.cachedTokenHolders.timestamp) < TOKEN_HOLDERS_CACHE_TTL) {
     logger.debug('Using cached token holders', {
-      count: cachedTokenHolders.holders.length,
-      cachedAt: new Date(cachedTokenHolders.timestamp).toISOString(),
+      count: cache.cachedTokenHolders.holders.length,
+      cachedAt: new Date(cache.cachedTokenHolders.timestamp).toISOString(),
     });
-    return cachedTokenHolders.holders;
+    tokenHoldersRequestsTotal.inc({ source: 'cache' });
+    return cache.cachedTokenHolders.holders;
   }
 
   // Check cooldown - if within 5 minutes of last fetch, return stale cache
-  const timeSinceLastFetch = now - lastTokenHoldersFetch;
-  if (lastTokenHoldersFetch > 0 && timeSinceLastFetch < TOKEN_HOLDERS_COOLDOWN && cachedTokenHolders) {
+  const timeSinceLastFetch = now - cache.lastTokenHoldersFetch;
+  if (cache.lastTokenHoldersFetch > 0 && timeSinceLastFetch < TOKEN_HOLDERS_COOLDOWN && cache.cachedTokenHolders) {
     logger.debug('Within cooldown period, returning stale token holders cache', {
       timeSinceLastFetch: Math.round(timeSinceLastFetch / 1000),
-      cacheAge: Math.round((now - cachedTokenHolders.timestamp) / 1000),
-      count: cachedTokenHolders.holders.length,
+      cacheAge: Math.round((now - cache.cachedTokenHolders.timestamp) / 1000),
+      count: cache.cachedTokenHolders.holders.length,
     });
-    return cachedTokenHolders.holders;
+    tokenHoldersRequestsTotal.inc({ source: 'stale_cache' });
+    return cache.cachedTokenHolders.holders;
   }
 
   // If there's already a pending fetch, wait for it
-  if (pendingTokenHoldersFetch) {
+  if (cache.pendingTokenHoldersFetch) {
     logger.debug('Token holders fetch already in progress, waiting...');
-    return pendingTokenHoldersFetch;
+    return cache.pendingTokenHoldersFetch;
   }
 
   // Create new fetch promise
-  pendingTokenHoldersFetch = (async () => {
+  cache.pendingTokenHoldersFetch = (async () => {
+    const stopTimer = tokenHoldersFetchDurationSeconds.startTimer();
     try {
       logger.debug('Fetching token holders from RPC (cache miss or expired)', {
-        mint: tokenMint.toBase58(),
+        mint: getTokenMint().toBase58(),
       });
 
     // Token-2022 accounts can have variable sizes due to extensions
@@ -212,7 +234,7 @@ export async function getTokenHolders(): Promise<TokenHolder[]> {
         {
           memcmp: {
             offset: 0, // Mint address offset in token account (first 32 bytes)
-            bytes: tokenMint.toBase58(),
+            bytes: getTokenMint().toBase58(),
           },
         },
       ],
@@ -220,7 +242,7 @@ export async function getTokenHolders(): Promise<TokenHolder[]> {
 
     logger.debug('Found token accounts for mint', {
       count: tokenAccounts.length,
-      mint: tokenMint.toBase58(),
+      mint: getTokenMint().toBase58(),
     });
 
     const holders: TokenHolder[] = [];
@@ -232,7 +254,7 @@ export async function getTokenHolders(): Promise<TokenHolder[]> {
         const parsedAccount = unpackAccount(pubkey, account as AccountInfo<Buffer>, TOKEN_2022_PROGRAM_ID);
         
         // Verify this account belongs to our mint
-        if (!parsedAccount.mint.equals(tokenMint)) {
+        if (!parsedAccount.mint.equals(getTokenMint())) {
           continue;
         }
 
@@ -263,59 +285,76 @@ export async function getTokenHolders(): Promise<TokenHolder[]> {
       return 0;
     });
 
+    // Pool vaults, program escrows and exchange wallets are never eligible
+    try {
+      excludeDetectedOwners(holders);
+    } catch (detectError) {
+      logger.warn('Failed to detect pool/program owners among token holders', {
+        error: detectError instanceof Error ? detectError.message : String(detectError),
+      });
+    }
+
     logger.debug('Fetched token holders', {
       count: holders.length,
-      mint: tokenMint.toBase58(),
+      mint: getTokenMint().toBase58(),
       totalAccountsFound: tokenAccounts.length,
       accountsWithBalance: holders.length,
     });
 
       // Update cache and last fetch time
-      cachedTokenHolders = {
+      cache.cachedTokenHolders = {
         holders,
         timestamp: now,
       };
-      lastTokenHoldersFetch = now;
+      cache.lastTokenHoldersFetch = now;
 
+      stopTimer({ outcome: 'success' });
+      tokenHoldersRequestsTotal.inc({ source: 'rpc' });
+      tokenHoldersCount.set({}, holders.length);
       return holders;
     } catch (error) {
+      stopTimer({ outcome: 'failed' });
+      rpcErrorsTotal.inc({ operation: 'getTokenHolders', kind: isRateLimitError(error) ? 'rate_limit' : 'error' });
+
       // If it's a rate limit error and we have stale cache, return it
-      if (isRateLimitError(error) && cachedTokenHolders) {
+      if (isRateLimitError(error) && cache.cachedTokenHolders) {
         logger.warn('Rate limit hit, returning stale cache', {
-          cacheAge: Math.round((Date.now() - cachedTokenHolders.timestamp) / 1000),
-          count: cachedTokenHolders.holders.length,
+          cacheAge: Math.round((Date.now() - cache.cachedTokenHolders.timestamp) / 1000),
+          count: cache.cachedTokenHolders.holders.length,
         });
-        return cachedTokenHolders.holders;
+        tokenHoldersRequestsTotal.inc({ source: 'stale_cache' });
+        return cache.cachedTokenHolders.holders;
       }
+      tokenHoldersRequestsTotal.inc({ source: 'error' });
       
       // Only log non-rate-limit errors as errors, rate limits are logged as warnings
       if (isRateLimitError(error)) {
         const { rateLimitLogger } = await import('../utils/rateLimitLogger');
         rateLimitLogger.logRateLimit('Rate limit error fetching token holders (no cache available)', {
-          mint: tokenMint.toBase58(),
+          mint: getTokenMint().toBase58(),
         });
         rateLimitLogger.recordRateLimitError();
       } else {
         logger.error('Error fetching token holders', {
           error: error instanceof Error ? error.message : String(error),
-          mint: tokenMint.toBase58(),
+          mint: getTokenMint().toBase58(),
         });
       }
       throw error;
     } finally {
       // Clear pending fetch
-      pendingTokenHoldersFetch = null;
+      cache.pendingTokenHoldersFetch = null;
     }
   })();
 
-  return pendingTokenHoldersFetch;
+  return cache.pendingTokenHoldersFetch;
 }
 
 /**
  * Clear token holders cache (useful for testing or forced refresh)
  */
 export function clearTokenHoldersCache(): void {
-  cachedTokenHolders = null;
+  solanaCaches().cachedTokenHolders = null;
   logger.debug('Token holders cache cleared');
 }
 
@@ -323,7 +362,7 @@ export function clearTokenHoldersCache(): void {
  * Clear mint info cache (useful for testing or forced refresh)
  */
 export function clearMintInfoCache(): void {
-  cachedMintInfo = null;
+  solanaCaches().cachedMintInfo = null;
   logger.debug('Mint info cache cleared');
 }
 
@@ -0,0 +1,449 @@
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import { connection, getTokenMint, NETWORK } from '../config/solana';
+import { logger } from '../utils/logger';
+import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { getActiveProject } from '../utils/projectContext';
+import {
+  swapsTotal,
+  swapDurationSeconds,
+  swapSlippageBps,
+  swapSolReceivedTotal,
+  swapRoutesTotal,
+} from '../utils/metrics';
+import {
+  computeTekToSolQuote,
+  quoteTekToSOL,
+  swapTekToSOL,
+  type TekSolPoolState,
+} from './swapService';
+import { getCurrentEpoch } from './cycleService';
+import { evaluateSwapSlippage } from './alertService';
+
+/**
+ * Swap Providers
+ *
+ * Routes for swapping harvested TEK to SOL. Every cycle quotes each configured
+ * provider, swaps through the one with the best expected output and falls back
+ * to the next best when a quote or swap fails.
+ *
+ * - raydium: direct swap through the project's Raydium pool (swapService)
+ * - jupiter: aggregated route from the Jupiter quote/swap API (mainnet only,
+ *   unless JUPITER_API_URL points at another server)
+ *
+ * Configuration:
+ * Set via environment variables:
+ * - SWAP_PROVIDERS (default: raydium) - comma-separated providers, in order of
+ *   preference when quotes are equal
+ * - JUPITER_API_URL (default: https://lite-api.jup.ag/swap/v1) - quote/swap API base URL
+ * - JUPITER_API_KEY - sent as x-api-key (required by the paid api.jup.ag endpoints)
+ *
+ * Providers are built by factories taking their dependencies (pool state
+ * loader, API URL), so routing can be exercised offline against a recorded
+ * pool state and a stubbed quote server. A new provider only has to implement
+ * SwapProvider and be added in buildProviders().
+ */
+
+const DEFAULT_JUPITER_API_URL = 'https://lite-api.jup.ag/swap/v1';
+const JUPITER_TIMEOUT_MS = 15000;
+
+// Base slippage tolerance (2%), as in swapService
+const DEFAULT_SLIPPAGE_BPS = 200;
+
+/**
+ * Quote of one provider for a TEK to SOL swap
+ */
+export interface SwapQuote {
+  provider: string;
+  amountTek: bigint; // Amount in (before transfer fee deduction)
+  expectedSolOut: bigint; // lamports
+  minSolOut: bigint; // lamports
+  priceImpactBps: number;
+  slippageBps: number;
+  route: string; // Human-readable route, e.g. "Raydium Cpmm" or "Raydium CPMM > Orca"
+  details: unknown; // Provider-specific quote, handed back to swap()
+}
+
+export interface SwapProvider {
+  name: string;
+  quote(amountTek: bigint, slippageBps: number): Promise<SwapQuote>;
+  swap(quote: SwapQuote): Promise<{ solReceived: bigint; txSignature: string }>;
+}
+
+/**
+ * Result of a routed swap
+ */
+export interface RoutedSwapResult {
+  solReceived: bigint;
+  txSignature: string;
+  provider: string;
+  route: string;
+  expectedSolOut: bigint;
+}
+
+/**
+ * Quote outcome of one provider (a failed quote carries its error)
+ */
+export type SwapRouteQuote =
+  | { provider: string; quote: SwapQuote; error?: undefined }
+  | { provider: string; quote?: undefined; error: string };
+
+let cachedProviders: SwapProvider[] | null = null;
+
+/**
+ * Direct swap through the project's Raydium pool
+ * @param options.loadPoolState - Pool state to quote from (default: fetched live)
+ */
+export function createRaydiumProvider(options: { loadPoolState?: () => Promise<TekSolPoolState> } = {}): SwapProvider {
+  return {
+    name: 'raydium',
+    async quote(amountTek, slippageBps) {
+      const quote = options.loadPoolState
+        ? computeTekToSolQuote(await options.loadPoolState(), amountTek, slippageBps)
+        : await quoteTekToSOL(amountTek, slippageBps);
+      return {
+        provider: 'raydium',
+        amountTek,
+        expectedSolOut: quote.expectedSolOut,
+        minSolOut: quote.minSolOut,
+        priceImpactBps: quote.priceImpactBps,
+        slippageBps: quote.slippageBps,
+        route: `Raydium ${quote.poolType}`,
+        details: quote,
+      };
+    },
+    async swap(quote) {
+      // swapTekToSOL re-reads the pool and applies the same slippage formula as the quote
+      return swapTekToSOL(quote.amountTek, DEFAULT_SLIPPAGE_BPS);
+    },
+  };
+}
+
+/**
+ * Jupiter quote response (fields used here)
+ */
+interface JupiterQuoteResponse {
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  priceImpactPct: string;
+  routePlan: Array<{ swapInfo: { label?: string; ammKey: string } }>;
+}
+
+/**
+ * Aggregated route from the Jupiter quote/swap API
+ * @param options.apiUrl - API base URL (e.g. a stubbed quote server)
+ * @param options.apiKey - Sent as x-api-key
+ */
+export function createJupiterProvider(options: { apiUrl: string; apiKey?: string | null }): SwapProvider {
+  const baseUrl = options.apiUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) {
+    headers['x-api-key'] = options.apiKey;
+  }
+
+  return {
+    name: 'jupiter',
+    async quote(amountTek, slippageBps) {
+      if (amountTek <= 0n) {
+        throw new Error('Amount must be greater than zero');
+      }
+
+      const params = new URLSearchParams({
+        inputMint: getTokenMint().toBase58(),
+        outputMint: NATIVE_MINT.toBase58(),
+        amount: amountTek.toString(),
+        slippageBps: String(slippageBps),
+      });
+      const response = await fetch(`${baseUrl}/quote?${params.toString()}`, {
+        headers,
+        signal: AbortSignal.timeout(JUPITER_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Jupiter quote responded ${response.status}: ${await response.text()}`);
+      }
+
+      const quote = (await response.json()) as JupiterQuoteResponse;
+      if (!quote.outAmount || !quote.otherAmountThreshold || !Array.isArray(quote.routePlan)) {
+        throw new Error('Jupiter quote response is missing outAmount, otherAmountThreshold or routePlan');
+      }
+
+      return {
+        provider: 'jupiter',
+        amountTek,
+        expectedSolOut: BigInt(quote.outAmount),
+        minSolOut: BigInt(quote.otherAmountThreshold),
+        priceImpactBps: Math.round(Math.abs(parseFloat(quote.priceImpactPct || '0')) * 10000),
+        slippageBps: quote.slippageBps,
+        route: quote.routePlan.map((step) => step.swapInfo.label || step.swapInfo.ammKey).join(' > '),
+        details: quote,
+      };
+    },
+    async swap(quote) {
+      let outcome: 'success' | 'failed' = 'failed';
+      const stopTimer = swapDurationSeconds.startTimer();
+
+      try {
+        const rewardWallet = loadKeypairFromEnv(getActiveProject().rewardWalletEnv);
+
+        const response = await fetch(`${baseUrl}/swap`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            quoteResponse: quote.details,
+            userPublicKey: rewardWallet.publicKey.toBase58(),
+            wrapAndUnwrapSol: true, // Proceeds arrive as native SOL
+            dynamicComputeUnitLimit: true,
+          }),
+          signal: AbortSignal.timeout(JUPITER_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`Jupiter swap responded ${response.status}: ${await response.text()}`);
+        }
+        const { swapTransaction, lastValidBlockHeight } = (await response.json()) as {
+          swapTransaction: string;
+          lastValidBlockHeight: number;
+        };
+
+        const transaction = VersionedTransaction.deserialize(Buffer.from(swapTransaction, 'base64'));
+        if (!transaction.message.staticAccountKeys[0].equals(rewardWallet.publicKey)) {
+          throw new Error('Jupiter swap transaction is not paid by the reward wallet');
+        }
+        transaction.sign([rewardWallet]);
+
+        const signature = await connection.sendRawTransaction(transaction.serialize(), { maxRetries: 3 });
+        const confirmation = await connection.confirmTransaction(
+          { signature, blockhash: transaction.message.recentBlockhash, lastValidBlockHeight },
+          'confirmed'
+        );
+        if (confirmation.value.err) {
+          throw new Error(`Jupiter swap transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+
+        // Proceeds = change of the fee payer's balance with the fee added back
+        const confirmed = await connection.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0,
+        });
+        if (!confirmed?.meta) {
+          throw new Error(`Jupiter swap ${signature} confirmed but its transaction could not be read`);
+        }
+        const solReceived = BigInt(confirmed.meta.postBalances[0] - confirmed.meta.preBalances[0] + confirmed.meta.fee);
+
+        logger.info('Jupiter swap completed successfully', {
+          signature,
+          route: quote.route,
+          solReceived: solReceived.toString(),
+          expectedSol: quote.expectedSolOut.toString(),
+        });
+
+        outcome = 'success';
+        swapSolReceivedTotal.inc({ epoch: getCurrentEpoch() }, Number(solReceived) / 1e9);
+        if (quote.expectedSolOut > 0n) {
+          const realizedSlippageBps = (Number(quote.expectedSolOut - solReceived) / Number(quote.expectedSolOut)) * 10000;
+          swapSlippageBps.observe({}, realizedSlippageBps);
+          try {
+            evaluateSwapSlippage(realizedSlippageBps, {
+              signature,
+              expectedSolLamports: quote.expectedSolOut.toString(),
+              receivedSolLamports: solReceived.toString(),
+            });
+          } catch (alertError) {
+            logger.warn('Failed to evaluate swap slippage alert', {
+              error: alertError instanceof Error ? alertError.message : String(alertError),
+            });
+          }
+        }
+
+        return { solReceived, txSignature: signature };
+      } finally {
+        stopTimer({ outcome });
+        swapsTotal.inc({ epoch: getCurrentEpoch(), outcome });
+      }
+    },
+  };
+}
+
+/**
+ * Build the providers configured in the environment
+ */
+function buildProviders(): SwapProvider[] {
+  const names = (process.env.SWAP_PROVIDERS || 'raydium')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+  if (names.length === 0) {
+    throw new Error('SWAP_PROVIDERS must name at least one provider');
+  }
+
+  const providers: SwapProvider[] = [];
+  for (const name of names) {
+    if (providers.some((provider) => provider.name === name)) {
+      throw new Error(`Swap provider ${name} is listed twice`);
+    }
+    if (name === 'raydium') {
+      providers.push(createRaydiumProvider());
+    } else if (name === 'jupiter') {
+      const apiUrl = process.env.JUPITER_API_URL;
+      if (apiUrl) {
+        try {
+          new URL(apiUrl);
+        } catch {
+          throw new Error('JUPITER_API_URL is not a valid URL');
+        }
+      } else if (NETWORK !== 'mainnet') {
+        throw new Error('The jupiter provider only routes on mainnet (set JUPITER_API_URL to use another server)');
+      }
+      providers.push(createJupiterProvider({
+        apiUrl: apiUrl || DEFAULT_JUPITER_API_URL,
+        apiKey: process.env.JUPITER_API_KEY || null,
+      }));
+    } else {
+      throw new Error(`Unknown swap provider: ${name} (expected raydium or jupiter)`);
+    }
+  }
+  return providers;
+}
+
+/**
+ * Get the configured swap providers
+ * @throws Error if SWAP_PROVIDERS is invalid
+ */
+export function getSwapProviders(): SwapProvider[] {
+  if (!cachedProviders) {
+    cachedProviders = buildProviders();
+  }
+  return cachedProviders;
+}
+
+/**
+ * Validate the swap providers on startup
+ */
+export function validateSwapProviders(): void {
+  let providers: SwapProvider[];
+  try {
+    providers = getSwapProviders();
+  } catch (error) {
+    throw new Error(`Invalid swap provider configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  logger.info('✅ Swap providers validated', { providers: providers.map((provider) => provider.name) });
+}
+
+/**
+ * Quote a TEK to SOL swap with every provider
+ * Successful quotes come first, best expected output first (ties keep the configured order).
+ */
+export async function quoteSwapRoutes(
+  amountTek: bigint,
+  providers: SwapProvider[] = getSwapProviders(),
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): Promise<SwapRouteQuote[]> {
+  const settled = await Promise.allSettled(providers.map((provider) => provider.quote(amountTek, slippageBps)));
+
+  const routes: SwapRouteQuote[] = settled.map((result, index) =>
+    result.status === 'fulfilled'
+      ? { provider: providers[index].name, quote: result.value }
+      : {
+          provider: providers[index].name,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        }
+  );
+
+  return routes.sort((a, b) => {
+    if (!a.quote || !b.quote) {
+      return Number(!a.quote) - Number(!b.quote);
+    }
+    if (a.quote.expectedSolOut === b.quote.expectedSolOut) {
+      return 0;
+    }
+    return a.quote.expectedSolOut > b.quote.expectedSolOut ? -1 : 1;
+  });
+}
+
+/**
+ * Get the reward wallet's raw TEK balance over all its token accounts
+ */
+async function getTekBalance(owner: PublicKey): Promise<bigint> {
+  const accounts = await connection.getParsedTokenAccountsByOwner(owner, { mint: getTokenMint() }, 'confirmed');
+  return accounts.value.reduce(
+    (sum, account) => sum + BigInt(account.account.data.parsed.info.tokenAmount.amount as string),
+    0n
+  );
+}
+
+/**
+ * Swap TEK to SOL through the provider with the best quote
+ *
+ * Providers are tried best quote first. A provider whose quote or swap fails
+ * falls through to the next one - unless the failed swap already moved the
+ * TEK (e.g. it landed but could not be confirmed), which is rethrown so the
+ * cycle journal reconciles it instead of swapping twice.
+ *
+ * @param amountTek - Amount of TEK to swap (in raw token units, before transfer fee)
+ * @param providers - Providers to route through (default: SWAP_PROVIDERS)
+ * @throws Error if no provider could swap
+ */
+export async function swapTekToSolBestRoute(
+  amountTek: bigint,
+  providers: SwapProvider[] = getSwapProviders()
+): Promise<RoutedSwapResult> {
+  const routes = await quoteSwapRoutes(amountTek, providers);
+  const quoted = routes.filter((route): route is SwapRouteQuote & { quote: SwapQuote } => route.quote !== undefined);
+
+  for (const route of routes) {
+    if (route.error !== undefined) {
+      swapRoutesTotal.inc({ provider: route.provider, outcome: 'quote_failed' });
+      logger.warn('Swap provider quote failed', { provider: route.provider, error: route.error });
+    }
+  }
+  if (quoted.length === 0) {
+    throw new Error(`No swap provider could quote: ${routes.map((route) => `${route.provider}: ${route.error}`).join('; ')}`);
+  }
+
+  logger.info('Swap routes quoted', {
+    amountTek: amountTek.toString(),
+    routes: quoted.map(({ quote }) => ({
+      provider: quote.provider,
+      route: quote.route,
+      expectedSolOut: quote.expectedSolOut.toString(),
+      minSolOut: quote.minSolOut.toString(),
+    })),
+  });
+
+  const owner = loadKeypairFromEnv(getActiveProject().rewardWalletEnv).publicKey;
+  const failures: string[] = [];
+
+  for (const { quote } of quoted) {
+    const provider = providers.find((candidate) => candidate.name === quote.provider)!;
+    const tekBefore = await getTekBalance(owner);
+    try {
+      const result = await provider.swap(quote);
+      swapRoutesTotal.inc({ provider: provider.name, outcome: 'success' });
+      return { ...result, provider: provider.name, route: quote.route, expectedSolOut: quote.expectedSolOut };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      swapRoutesTotal.inc({ provider: provider.name, outcome: 'failed' });
+
+      const tekAfter = await getTekBalance(owner).catch(() => null);
+      if (tekAfter === null || tekAfter < tekBefore) {
+        logger.error('Swap failed after TEK left the wallet - not falling back', {
+          provider: provider.name,
+          error: message,
+          tekBefore: tekBefore.toString(),
+          tekAfter: tekAfter?.toString() ?? null,
+        });
+        throw error;
+      }
+
+      failures.push(`${provider.name}: ${message}`);
+      logger.warn('Swap provider failed - falling back to the next route', {
+        provider: provider.name,
+        error: message,
+        remaining: quoted.length - failures.length,
+      });
+    }
+  }
+
+  throw new Error(`All swap providers failed: ${failures.join('; ')}`);
+}
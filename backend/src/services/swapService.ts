@@ -33,20 +33,26 @@ import {
   getAccount,
   getMint,
   createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
   createSyncNativeInstruction,
   createCloseAccountInstruction,
   NATIVE_MINT,
 } from '@solana/spl-token';
 import Decimal from 'decimal.js';
 import { createHash } from 'crypto';
-import { connection, tokenMint, NETWORK } from '../config/solana';
+import { connection, getTokenMint, NETWORK } from '../config/solana';
 import { RAYDIUM_CONFIG, WSOL_MINT, getRaydiumPoolId, RAYDIUM_AMM_PROGRAM_ID } from '../config/raydium';
 import { REWARD_CONFIG } from '../config/constants';
 import { logger } from '../utils/logger';
 import { loadKeypairFromEnv } from '../utils/loadKeypairFromEnv';
+import { signInstructions, sendSignedTransaction } from '../utils/transactions';
+import { getActiveProject } from '../utils/projectContext';
+import { swapsTotal, swapDurationSeconds, swapSlippageBps, swapSolReceivedTotal } from '../utils/metrics';
+import { getCurrentEpoch } from './cycleService';
+import { evaluateSwapSlippage } from './alertService';
+import { getEffectiveTransferFee } from './transferFeeService';
 // Raydium SDK imports - using dynamic import to handle type issues
 // import { Liquidity, ApiPoolInfoItem, jsonInfo2PoolKeys, LiquidityPoolKeys } from '@raydium-io/raydium-sdk';
-import { getTransferFeeConfig, unpackMint } from '@solana/spl-token';
 
 // Official Raydium AMM v4 Program ID (for Standard pools)
 const RAYDIUM_AMM_V4_PROGRAM_ID = new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
@@ -133,10 +139,10 @@ function extractErrorCode(errorMessage: string): number | null {
 }
 
 /**
- * Get reward wallet keypair
+ * Get reward wallet keypair of the active project
  */
 function getRewardWallet(): Keypair {
-  return loadKeypairFromEnv('REWARD_WALLET_PRIVATE_KEY_JSON');
+  return loadKeypairFromEnv(getActiveProject().rewardWalletEnv);
 }
 
 /**
@@ -306,38 +312,20 @@ async function fetchPoolInfoForSDK(poolId: PublicKey): Promise<any> {
 }
 
 /**
- * Get transfer fee configuration for Token-2022 mint
+ * TEK transfer fee to apply to a swap, in basis points
+ * The Raydium API reports the mint's newer fee even while it is still pending,
+ * so the fee in force for the current epoch is read from the mint and the API
+ * value is only a fallback.
  */
-async function getTokenTransferFee(mint: PublicKey): Promise<{ basisPoints: number; maximumFee: bigint } | null> {
-  try {
-    const mintInfo = await connection.getAccountInfo(mint);
-    if (!mintInfo || !mintInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
-      return null; // Not a Token-2022 mint
-    }
-
-    const parsedMint = unpackMint(mint, mintInfo, TOKEN_2022_PROGRAM_ID);
-    const transferFeeConfig = getTransferFeeConfig(parsedMint);
-    
-    if (!transferFeeConfig) {
-      return null; // No transfer fee configured
-    }
-
-    const activeFeeBps = transferFeeConfig.newerTransferFee?.transferFeeBasisPoints ?? 
-                         transferFeeConfig.olderTransferFee?.transferFeeBasisPoints ?? 0;
-    const maxFee = transferFeeConfig.newerTransferFee?.maximumFee ?? 
-                   transferFeeConfig.olderTransferFee?.maximumFee ?? 0n;
-
-    return {
-      basisPoints: activeFeeBps,
-      maximumFee: maxFee,
-    };
-  } catch (error) {
-    logger.warn('Failed to get transfer fee config', {
-      mint: mint.toBase58(),
-      error: error instanceof Error ? error.message : String(error),
+async function resolveTekTransferFeeBps(apiTransferFeeBps: number): Promise<number> {
+  const effective = await getEffectiveTransferFee(getTokenMint());
+  if (effective && effective.basisPoints !== apiTransferFeeBps) {
+    logger.info('Using the transfer fee in force instead of the Raydium API value', {
+      effectiveBps: effective.basisPoints,
+      apiBps: apiTransferFeeBps,
     });
-    return null;
   }
+  return effective?.basisPoints ?? apiTransferFeeBps;
 }
 
 /**
@@ -924,7 +912,7 @@ async function fetchCpmmPoolState(
   let poolPcMint: PublicKey;
 
   // Determine order based on which mint is TEK
-  const tekMint = tokenMint;
+  const tekMint = getTokenMint();
   if (mintA.equals(tekMint)) {
     poolCoinTokenAccount = vaultA;
     poolPcTokenAccount = vaultB;
@@ -1374,6 +1362,160 @@ function createRaydiumClmmSwapInstruction(
   });
 }
 
+/**
+ * TEK → SOL swap quote
+ * Expected output for a swap computed from current pool reserves (no transaction sent)
+ */
+export interface TekToSolQuote {
+  poolType: 'Standard' | 'Cpmm' | 'Clmm';
+  amountTek: bigint; // Amount in (before transfer fee deduction)
+  amountTekAfterTransferFee: bigint;
+  transferFeeBps: number;
+  sourceReserve: bigint;
+  destReserve: bigint;
+  priceImpactBps: number; // Trade size as basis points of the TEK reserve
+  slippageBps: number; // Capped effective slippage that swapTekToSOL would apply
+  expectedSolOut: bigint; // lamports
+  minSolOut: bigint; // lamports
+}
+
+/**
+ * TEK/SOL pool state a quote is computed from
+ * Fetched live by fetchTekSolPoolState, or loaded from a recorded snapshot.
+ */
+export interface TekSolPoolState {
+  poolType: 'Standard' | 'Cpmm' | 'Clmm';
+  transferFeeBps: number; // TEK transfer fee
+  sourceReserve: bigint; // TEK reserve
+  destReserve: bigint; // SOL reserve (lamports)
+}
+
+/**
+ * Fetch the reserves and TEK transfer fee of the project's TEK/SOL pool
+ * Uses the same pool lookup and reserve source as swapTekToSOL.
+ */
+export async function fetchTekSolPoolState(): Promise<TekSolPoolState> {
+  const poolId = getRaydiumPoolId();
+  if (!poolId) {
+    throw new Error('RAYDIUM_POOL_ID not set in environment variables');
+  }
+
+  const poolInfo = await fetchPoolInfoFromAPI(poolId);
+  const tekIsMintA = poolInfo.mintA.equals(getTokenMint());
+
+  if (
+    !(tekIsMintA && poolInfo.mintB.equals(WSOL_MINT)) &&
+    !(poolInfo.mintB.equals(getTokenMint()) && poolInfo.mintA.equals(WSOL_MINT))
+  ) {
+    throw new Error(`Pool does not contain TEK/SOL pair. Pool mints: ${poolInfo.mintA.toBase58()}, ${poolInfo.mintB.toBase58()}`);
+  }
+
+  const transferFeeBps = await resolveTekTransferFeeBps(
+    (tekIsMintA ? poolInfo.transferFeeBasisPointsA : poolInfo.transferFeeBasisPointsB) || 0
+  );
+
+  let sourceReserve: bigint;
+  let destReserve: bigint;
+  if (poolInfo.reserveA !== undefined && poolInfo.reserveB !== undefined) {
+    sourceReserve = tekIsMintA ? poolInfo.reserveA : poolInfo.reserveB;
+    destReserve = tekIsMintA ? poolInfo.reserveB : poolInfo.reserveA;
+  } else {
+    const chainReserves = await fetchVaultReservesFromChain(
+      tekIsMintA ? poolInfo.vaultA : poolInfo.vaultB,
+      tekIsMintA ? poolInfo.vaultB : poolInfo.vaultA,
+      tekIsMintA ? poolInfo.decimalsA : poolInfo.decimalsB,
+      tekIsMintA ? poolInfo.decimalsB : poolInfo.decimalsA
+    );
+    sourceReserve = chainReserves.reserveA;
+    destReserve = chainReserves.reserveB;
+  }
+
+  return { poolType: poolInfo.poolType, transferFeeBps, sourceReserve, destReserve };
+}
+
+/**
+ * Compute a TEK to SOL quote from a pool state
+ * Pure function - no network access, so recorded pool states can be quoted offline.
+ *
+ * @param poolState - Reserves and transfer fee of the pool
+ * @param amountTek - Amount of TEK to swap (in raw token units, before transfer fee)
+ * @param slippageBps - Base slippage tolerance in basis points (default: 200 = 2%)
+ */
+export function computeTekToSolQuote(
+  poolState: TekSolPoolState,
+  amountTek: bigint,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): TekToSolQuote {
+  if (amountTek <= 0n) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  const { transferFeeBps, sourceReserve, destReserve } = poolState;
+  if (sourceReserve === 0n || destReserve === 0n) {
+    throw new Error('Pool has no liquidity');
+  }
+
+  // Same math as swapTekToSOL: Raydium fee (0.25%) after Token-2022 transfer fee
+  const feeMultiplier = 0.9975;
+  const tekAfterTransferFee = transferFeeBps > 0
+    ? (amountTek * BigInt(10000 - transferFeeBps)) / BigInt(10000)
+    : amountTek;
+  const expectedSolOut = (destReserve * tekAfterTransferFee * BigInt(Math.floor(feeMultiplier * 10000))) / (sourceReserve + tekAfterTransferFee) / BigInt(10000);
+
+  const priceImpactBps = Number((tekAfterTransferFee * 10_000n) / sourceReserve);
+  const effectiveSlippageBps = Math.max(
+    slippageBps,
+    transferFeeBps + Math.floor(priceImpactBps * 0.1) + 100
+  );
+  const cappedSlippageBps = Math.min(effectiveSlippageBps, 1000);
+  const minSolOut = (expectedSolOut * BigInt(10000 - cappedSlippageBps)) / BigInt(10000);
+
+  return {
+    poolType: poolState.poolType,
+    amountTek,
+    amountTekAfterTransferFee: tekAfterTransferFee,
+    transferFeeBps,
+    sourceReserve,
+    destReserve,
+    priceImpactBps,
+    slippageBps: cappedSlippageBps,
+    expectedSolOut,
+    minSolOut,
+  };
+}
+
+/**
+ * Quote a TEK to SOL swap without sending a transaction
+ *
+ * Uses the same pool lookup, reserve source and dynamic slippage formula as
+ * swapTekToSOL, so the quote matches what a live swap would request as its
+ * minimum output. Used by dry-run cycle simulation and the Raydium swap provider.
+ *
+ * @param amountTek - Amount of TEK to swap (in raw token units, before transfer fee)
+ * @param slippageBps - Base slippage tolerance in basis points (default: 200 = 2%)
+ * @returns Expected and minimum SOL output with the reserves used
+ */
+export async function quoteTekToSOL(
+  amountTek: bigint,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): Promise<TekToSolQuote> {
+  if (amountTek <= 0n) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  const quote = computeTekToSolQuote(await fetchTekSolPoolState(), amountTek, slippageBps);
+
+  logger.debug('TEK to SOL quote calculated', {
+    poolType: quote.poolType,
+    amountTek: amountTek.toString(),
+    expectedSolOut: quote.expectedSolOut.toString(),
+    minSolOut: quote.minSolOut.toString(),
+    slippageBps: quote.slippageBps,
+  });
+
+  return quote;
+}
+
 /**
  * Swap TEK tokens to SOL via Raydium pool (Standard, CPMM, or CLMM)
  * 
@@ -1408,6 +1550,9 @@ export async function swapTekToSOL(
   solReceived: bigint;
   txSignature: string;
 }> {
+  let outcome: 'success' | 'failed' = 'failed';
+  const stopTimer = swapDurationSeconds.startTimer();
+
   try {
     logger.info('Starting TEK to SOL swap via Raydium pool', {
       amountTek: amountTek.toString(),
@@ -1457,7 +1602,7 @@ export async function swapTekToSOL(
 
     // Step 3.5: Determine Token-2022 vs SPL Token based on pool info
     // Detect which mint is TEK and which is WSOL, then determine token programs
-    const tekMint = tokenMint;
+    const tekMint = getTokenMint();
     const solMint = WSOL_MINT;
     
     let sourceIsToken2022: boolean;
@@ -1478,6 +1623,7 @@ export async function swapTekToSOL(
       destTokenProgram = TOKEN_PROGRAM_ID; // WSOL is always SPL Token
       sourceTransferFeeBps = poolInfo.transferFeeBasisPointsB || 0;
     }
+    sourceTransferFeeBps = await resolveTekTransferFeeBps(sourceTransferFeeBps);
 
     logger.info('Token program detection', {
       sourceTokenProgram: sourceTokenProgram.toBase58(),
@@ -1726,7 +1872,7 @@ export async function swapTekToSOL(
 
     // Explicitly derive TEK ATA (source token ATA)
     const tekAta = getAssociatedTokenAddressSync(
-      tokenMint,            // TEK mint
+      getTokenMint(),            // TEK mint
       rewardWalletAddress,  // owner = reward wallet
       false,
       TOKEN_2022_PROGRAM_ID // TEK is Token-2022
@@ -2073,7 +2219,7 @@ export async function swapTekToSOL(
     // 
     // ATAs are created once per wallet using:
     // - create-tek-ata.ts (for TEK ATA)
-    // - create-wsol-atas.ts (for WSOL ATA)
+    // - tek wallets ata-create (for WSOL ATA)
     // ===================================================================
     
     // Step 10: Build transaction (ATAs already verified to exist)
@@ -2851,6 +2997,24 @@ export async function swapTekToSOL(
       note: 'solReceived is actual swap proceeds from WSOL balance, NOT total wallet balance',
     });
 
+    outcome = 'success';
+    swapSolReceivedTotal.inc({ epoch: getCurrentEpoch() }, Number(solReceived) / 1e9);
+    if (expectedDestAmount > 0n) {
+      const realizedSlippageBps = (Number(expectedDestAmount - solReceived) / Number(expectedDestAmount)) * 10000;
+      swapSlippageBps.observe({}, realizedSlippageBps);
+      try {
+        evaluateSwapSlippage(realizedSlippageBps, {
+          signature,
+          expectedSolLamports: expectedDestAmount.toString(),
+          receivedSolLamports: solReceived.toString(),
+        });
+      } catch (alertError) {
+        logger.warn('Failed to evaluate swap slippage alert', {
+          error: alertError instanceof Error ? alertError.message : String(alertError),
+        });
+      }
+    }
+
     return {
       solReceived, // Actual swap proceeds from WSOL balance, NOT total wallet balance
       txSignature: signature,
@@ -2862,5 +3026,175 @@ export async function swapTekToSOL(
       amountTek: amountTek.toString(),
     });
     throw error; // Re-throw to abort reward distribution
+  } finally {
+    stopTimer({ outcome });
+    swapsTotal.inc({ epoch: getCurrentEpoch(), outcome });
+  }
+}
+
+/**
+ * Raydium CPMM pool account offsets (after the 8-byte Anchor discriminator)
+ * amm_config, pool_creator, token_0_vault, token_1_vault, lp_mint,
+ * token_0_mint, token_1_mint, token_0_program, token_1_program, observation_key
+ */
+const CPMM_POOL_LAYOUT = {
+  AMM_CONFIG: 8,
+  TOKEN_0_VAULT: 72,
+  TOKEN_1_VAULT: 104,
+  TOKEN_0_MINT: 168,
+  TOKEN_1_MINT: 200,
+  TOKEN_0_PROGRAM: 232,
+  TOKEN_1_PROGRAM: 264,
+  OBSERVATION_KEY: 296,
+} as const;
+
+/**
+ * Swap SOL into another token via a Raydium CPMM pool
+ *
+ * Used to buy the reward asset (config/rewardAsset) with the SOL paid to
+ * holders. Unlike swapTekToSOL, every pool account is read from the pool
+ * itself (not from the Raydium API or RAYDIUM_CPMM_* variables), so any CPMM
+ * pool pairing SOL with the output mint works. The SOL is wrapped in a
+ * temporary WSOL account that is closed in the same transaction; the reward
+ * wallet's token account for the output mint is created if it does not exist.
+ *
+ * @param amountLamports - SOL to swap (in lamports)
+ * @param outputMint - Mint to buy
+ * @param poolId - Raydium CPMM pool pairing WSOL with outputMint
+ * @param slippageBps - Base slippage tolerance in basis points (default: 200 = 2%)
+ * @param onSigned - Called with the signature and blockhash expiry before the transaction is sent
+ * @returns Amount of the output token received (raw units) and the transaction signature
+ */
+export async function swapSolToToken(
+  amountLamports: bigint,
+  outputMint: PublicKey,
+  poolId: PublicKey,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  onSigned?: (signature: string, lastValidBlockHeight: number) => void
+): Promise<{
+  amountReceived: bigint;
+  txSignature: string;
+}> {
+  logger.info('Starting SOL swap via Raydium CPMM pool', {
+    amountLamports: amountLamports.toString(),
+    outputMint: outputMint.toBase58(),
+    poolId: poolId.toBase58(),
+  });
+
+  if (amountLamports <= 0n) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  const poolAccount = await connection.getAccountInfo(poolId, 'confirmed');
+  if (!poolAccount || poolAccount.data.length < CPMM_POOL_LAYOUT.OBSERVATION_KEY + 32) {
+    throw new Error(`Raydium CPMM pool not found: ${poolId.toBase58()}`);
+  }
+  const readKey = (offset: number): PublicKey => new PublicKey(poolAccount.data.subarray(offset, offset + 32));
+  const poolProgramId = poolAccount.owner;
+  const mint0 = readKey(CPMM_POOL_LAYOUT.TOKEN_0_MINT);
+  const mint1 = readKey(CPMM_POOL_LAYOUT.TOKEN_1_MINT);
+
+  const solIsToken0 = mint0.equals(WSOL_MINT) && mint1.equals(outputMint);
+  if (!solIsToken0 && !(mint1.equals(WSOL_MINT) && mint0.equals(outputMint))) {
+    throw new Error(`Pool does not pair SOL with ${outputMint.toBase58()}. Pool mints: ${mint0.toBase58()}, ${mint1.toBase58()}`);
+  }
+
+  const inputVault = readKey(solIsToken0 ? CPMM_POOL_LAYOUT.TOKEN_0_VAULT : CPMM_POOL_LAYOUT.TOKEN_1_VAULT);
+  const outputVault = readKey(solIsToken0 ? CPMM_POOL_LAYOUT.TOKEN_1_VAULT : CPMM_POOL_LAYOUT.TOKEN_0_VAULT);
+  const outputTokenProgram = readKey(solIsToken0 ? CPMM_POOL_LAYOUT.TOKEN_1_PROGRAM : CPMM_POOL_LAYOUT.TOKEN_0_PROGRAM);
+  // The CPMM program signs for its vaults with this PDA
+  const [poolAuthority] = PublicKey.findProgramAddressSync([Buffer.from('vault_and_lp_mint_auth_seed')], poolProgramId);
+
+  // Step 1: Expected output from the vault balances (0.25% pool fee, then the output mint's transfer fee)
+  const [inputReserve, outputReserve] = await Promise.all([
+    connection.getTokenAccountBalance(inputVault, 'confirmed'),
+    connection.getTokenAccountBalance(outputVault, 'confirmed'),
+  ]);
+  const sourceReserve = BigInt(inputReserve.value.amount);
+  const destReserve = BigInt(outputReserve.value.amount);
+  if (sourceReserve === 0n || destReserve === 0n) {
+    throw new Error('Pool has no liquidity');
+  }
+
+  const amountInAfterFee = (amountLamports * 9975n) / 10000n;
+  const expectedOut = (destReserve * amountInAfterFee) / (sourceReserve + amountInAfterFee);
+  const transferFee = await getEffectiveTransferFee(outputMint);
+  const expectedReceived = transferFee
+    ? expectedOut - (expectedOut * BigInt(transferFee.basisPoints)) / 10000n
+    : expectedOut;
+  const effectiveSlippageBps = Math.max(slippageBps, computeDynamicSlippageBps(amountLamports, sourceReserve));
+  const minAmountOut = (expectedReceived * BigInt(10000 - effectiveSlippageBps)) / 10000n;
+
+  const liquidity = verifyLiquidity(sourceReserve, destReserve, amountLamports, minAmountOut);
+  if (!liquidity.valid) {
+    throw new Error(`Insufficient pool liquidity: ${liquidity.reason}`);
+  }
+
+  // Step 2: Wrap SOL, swap, unwrap the leftover
+  const rewardWallet = getRewardWallet();
+  const owner = rewardWallet.publicKey;
+  const wsolAta = getAssociatedTokenAddressSync(WSOL_MINT, owner, false, TOKEN_PROGRAM_ID);
+  const outputAta = getAssociatedTokenAddressSync(outputMint, owner, false, outputTokenProgram);
+
+  const instructions: TransactionInstruction[] = [
+    ...createComputeBudgetInstructions(),
+    createAssociatedTokenAccountIdempotentInstruction(owner, wsolAta, owner, WSOL_MINT, TOKEN_PROGRAM_ID),
+    SystemProgram.transfer({ fromPubkey: owner, toPubkey: wsolAta, lamports: Number(amountLamports) }),
+    createSyncNativeInstruction(wsolAta, TOKEN_PROGRAM_ID),
+    createAssociatedTokenAccountIdempotentInstruction(owner, outputAta, owner, outputMint, outputTokenProgram),
+    createRaydiumCpmmSwapInstructionV2({
+      poolProgramId,
+      payer: owner,
+      authority: poolAuthority,
+      ammConfig: readKey(CPMM_POOL_LAYOUT.AMM_CONFIG),
+      poolState: poolId,
+      inputTokenAccount: wsolAta,
+      outputTokenAccount: outputAta,
+      inputVault,
+      outputVault,
+      inputTokenProgram: TOKEN_PROGRAM_ID,
+      outputTokenProgram,
+      inputMint: WSOL_MINT,
+      outputMint,
+      observationState: readKey(CPMM_POOL_LAYOUT.OBSERVATION_KEY),
+      amountIn: amountLamports,
+      minimumAmountOut: minAmountOut,
+    }),
+    createCloseAccountInstruction(wsolAta, owner, owner, [], TOKEN_PROGRAM_ID),
+  ];
+
+  const balanceOf = async (): Promise<bigint> => {
+    try {
+      return BigInt((await connection.getTokenAccountBalance(outputAta, 'confirmed')).value.amount);
+    } catch {
+      return 0n; // Account does not exist yet
+    }
+  };
+
+  try {
+    const balanceBefore = await balanceOf();
+    const signed = await signInstructions(instructions, [rewardWallet]);
+    onSigned?.(signed.signature, signed.lastValidBlockHeight);
+    const signature = await sendSignedTransaction(signed);
+    const amountReceived = (await balanceOf()) - balanceBefore;
+
+    logger.info('SOL swap via Raydium CPMM pool completed', {
+      signature,
+      amountLamports: amountLamports.toString(),
+      outputMint: outputMint.toBase58(),
+      expectedReceived: expectedReceived.toString(),
+      minAmountOut: minAmountOut.toString(),
+      amountReceived: amountReceived.toString(),
+    });
+
+    return { amountReceived, txSignature: signature };
+  } catch (error) {
+    logger.error('Error swapping SOL via Raydium CPMM pool', {
+      error: error instanceof Error ? error.message : String(error),
+      amountLamports: amountLamports.toString(),
+      outputMint: outputMint.toBase58(),
+      poolId: poolId.toBase58(),
+    });
+    throw error;
   }
 }
@@ -6,28 +6,59 @@ import {
   sendAndConfirmTransaction,
 } from '@solana/web3.js';
 import {
+  TOKEN_PROGRAM_ID,
   TOKEN_2022_PROGRAM_ID,
+  NATIVE_MINT,
   getAssociatedTokenAddressSync,
   createAssociatedTokenAccountInstruction,
   createTransferCheckedInstruction,
   getMint,
   getAccount,
+  TokenAccountNotFoundError,
   harvestWithheldTokensToMint,
   withdrawWithheldTokensFromAccounts,
 } from '@solana/spl-token';
-import { connection, tokenMint } from '../config/solana';
+import { connection, getTokenMint } from '../config/solana';
 import { logger } from '../utils/logger';
 import { loadKeypairFromEnv, loadKeypairFromEnvOptional } from '../utils/loadKeypairFromEnv';
 import { getAdminWallet } from './rewardService';
-import { isTokenMode, TAX_THRESHOLD_CONFIG, BATCH_HARVEST_CONFIG } from '../config/constants';
+import { isTokenMode, BATCH_HARVEST_CONFIG } from '../config/constants';
 import { getNUKEPriceUSD } from './priceService';
-import * as fs from 'fs';
-import * as path from 'path';
+import { allocateDistributionSplit, HOLDERS_BUCKET, type BucketAllocation } from '../config/distributionSplit';
+import type { RewardAssetConversion, SolDistributionResult } from './solDistributionService';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
+import { getActiveProject, projectScoped } from '../utils/projectContext';
+import { signTransaction, sendSignedTransaction, waitForTransactionOutcome, type TransactionOutcome } from '../utils/transactions';
+import {
+  beginCycleJournal,
+  finishCycleJournal,
+  findJournalStep,
+  getActiveCycleJournal,
+  markCycleJournalResumed,
+  recordHolderPayoutsPlanned,
+  recordAssetConversion,
+  recordStepConfirmed,
+  recordStepFailed,
+  recordStepStarted,
+  recordSplitPlan,
+  recordSwapPlan,
+  updateHolderPayouts,
+  type CycleJournal,
+  type CycleStepRecord,
+  type JournaledAssetConversion,
+} from './cycleJournalService';
+import { enqueueFailedPayouts } from './payoutQueueService';
+import { getCurrentEpoch, getEpochNumber, CYCLES_PER_EPOCH } from './cycleService';
+import { evaluateWithdrawAuthority } from './alertService';
+import { emitWebhookEvent } from './webhookService';
+import { publishCycleProgress } from './liveFeedService';
+import { taxHarvestsTotal, taxHarvestDurationSeconds, taxHarvestSizeTokens } from '../utils/metrics';
 
 /**
  * Tax Distribution Service
  * 
- * Handles 3% transaction tax on TEK token transfers.
+ * Handles the transaction tax on TEK token transfers: the mint's Token-2022
+ * transfer fee (rate and schedule: see transferFeeService).
  * 
  * IMPORTANT: Transfer fees are epoch-gated. The fee will only be enforced when
  * newerTransferFee.epoch <= currentClusterEpoch. If the epoch is in the future,
@@ -38,9 +69,9 @@ import * as path from 'path';
  * - DEX swaps (Raydium, etc.)
  * - Program-to-program transfers
  *
- * Distribution:
- * - 75% of swapped SOL → Distributed to eligible holders
- * - 25% of swapped SOL → Sent to Treasury wallet
+ * Distribution (DISTRIBUTION_SPLIT, see config/distributionSplit):
+ * - "holders" bucket of swapped SOL → Distributed to eligible holders (default 75%)
+ * - Every other bucket → Sent to its address (default: 25% to Treasury wallet)
  * 
  * All amounts are in token units (raw, with decimals)
  */
@@ -50,12 +81,17 @@ const TOTAL_TAX_PERCENT = 0.04; // 4% total tax
 const REWARD_PERCENT = 0.03; // 3% to reward wallet
 const TREASURY_PERCENT = 0.01; // 1% to treasury wallet
 
-// State file path for tracking tax distributions
-const STATE_FILE_PATH = path.join(process.cwd(), 'reward-state.json');
+// Resume attempts for an interrupted cycle before its journal is aborted
+const MAX_CYCLE_RESUME_ATTEMPTS = 5;
+
+// Minimum interval between holder payout progress events on the dashboard live feed
+const PAYOUT_PROGRESS_INTERVAL_MS = 1000;
 
-// Cached wallets
-let cachedRewardWallet: Keypair | null = null;
-let cachedTreasuryWallet: Keypair | null = null;
+// Cached wallets (per project)
+const cachedWallets = projectScoped<{ reward: Keypair | null; treasury: Keypair | null }>(() => ({
+  reward: null,
+  treasury: null,
+}));
 
 /**
  * Tax Distribution State
@@ -76,6 +112,11 @@ interface TaxState {
   lastSwapTx: string | null; // Last swap transaction signature
   lastDistributionTx: string | null; // Last distribution transaction signatures (comma-separated)
   lastDistributionTime: number | null; // Timestamp of last distribution
+  lastCycleJournalId?: string | null; // Journal of the last cycle counted in the totals (prevents double counting on resume)
+  totalSolByBucket?: Record<string, string>; // Total SOL per split bucket (in lamports)
+  totalAssetDistributed?: Record<string, string>; // Reward asset paid to holders per mint (in raw units)
+  lastDistributionAsset?: { symbol: string; mint: string; decimals: number; amount: string } | null; // null: paid in SOL
+  lastDistributionSplit?: Array<{ name: string; destination: string | null; amountLamports: string; signature: string | null }>;
   taxDistributions: Array<{
     timestamp: number;
     transactionAmount: string; // TEK amount harvested
@@ -88,44 +129,9 @@ interface TaxState {
 }
 
 /**
- * Load tax state from file
+ * Default (empty) tax state
  */
-function loadTaxState(): TaxState {
-  try {
-    if (fs.existsSync(STATE_FILE_PATH)) {
-      const data = fs.readFileSync(STATE_FILE_PATH, 'utf-8');
-      const state = JSON.parse(data);
-      
-      // Ensure tax state exists
-      if (!state.taxState) {
-        return {
-          totalTaxCollected: '0',
-          totalRewardAmount: '0',
-          totalTreasuryAmount: '0',
-          totalSolDistributed: '0',
-          totalSolToTreasury: '0',
-          totalNukeHarvested: '0',
-          totalNukeSold: '0',
-          lastTaxDistribution: null,
-          lastDistributionCycleNumber: null,
-          lastDistributionEpoch: null,
-          lastDistributionSolToHolders: '0',
-          lastDistributionSolToTreasury: '0',
-          lastSwapTx: null,
-          lastDistributionTx: null,
-          lastDistributionTime: null,
-          taxDistributions: [],
-        };
-      }
-      
-      return state.taxState;
-    }
-  } catch (error) {
-    logger.warn('Failed to load tax state, using defaults', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-  }
-  
+function getDefaultTaxState(): TaxState {
   return {
     totalTaxCollected: '0',
     totalRewardAmount: '0',
@@ -142,33 +148,36 @@ function loadTaxState(): TaxState {
     lastSwapTx: null,
     lastDistributionTx: null,
     lastDistributionTime: null,
+    lastCycleJournalId: null,
     taxDistributions: [],
   };
 }
 
 /**
- * Save tax state to file
+ * Load tax state from storage
  */
-function saveTaxState(taxState: TaxState): void {
+function loadTaxState(): TaxState {
   try {
-    let state: any = {};
-    
-    // Load existing state if it exists
-    if (fs.existsSync(STATE_FILE_PATH)) {
-      const data = fs.readFileSync(STATE_FILE_PATH, 'utf-8');
-      state = JSON.parse(data);
+    const taxState = readDocument<TaxState>(STORAGE_KEYS.TAX_STATE);
+    if (taxState) {
+      return taxState;
     }
-    
-    // Update tax state
-    state.taxState = taxState;
-    
-    // Save to file with explicit flush
-    fs.writeFileSync(STATE_FILE_PATH, JSON.stringify(state, null, 2), 'utf-8');
-    
-    // Force flush to disk (important for cloud environments like Render)
-    const fd = fs.openSync(STATE_FILE_PATH, 'r+');
-    fs.fsyncSync(fd);
-    fs.closeSync(fd);
+  } catch (error) {
+    logger.warn('Failed to load tax state, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  
+  return getDefaultTaxState();
+}
+
+/**
+ * Save tax state to storage
+ * Writes are atomic and flushed to disk by the storage backend.
+ */
+function saveTaxState(taxState: TaxState): void {
+  try {
+    writeDocument<TaxState>(STORAGE_KEYS.TAX_STATE, taxState);
     
     logger.debug('Tax state saved successfully', {
       lastSwapTx: taxState.lastSwapTx,
@@ -183,11 +192,11 @@ function saveTaxState(taxState: TaxState): void {
 }
 
 /**
- * Get reward wallet address from environment variable
- * Environment variable: REWARD_WALLET_ADDRESS
+ * Get reward wallet address of the active project
+ * Environment variable: REWARD_WALLET_ADDRESS (default project)
  */
 function getRewardWalletAddress(): PublicKey {
-  const rewardAddress = process.env.REWARD_WALLET_ADDRESS;
+  const rewardAddress = getActiveProject().rewardWalletAddress;
   
   if (!rewardAddress) {
     throw new Error('REWARD_WALLET_ADDRESS environment variable is not set');
@@ -205,26 +214,27 @@ function getRewardWalletAddress(): PublicKey {
 }
 
 /**
- * Get reward wallet keypair from environment variable
- * Environment variable: REWARD_WALLET_PRIVATE_KEY_JSON (JSON array of 64 numbers)
+ * Get reward wallet keypair of the active project
+ * Environment variable: REWARD_WALLET_PRIVATE_KEY_JSON (JSON array of 64 numbers; default project)
  * Required for withdrawing withheld taxes and sending distributions
  */
 function getRewardWallet(): Keypair {
-  if (cachedRewardWallet) {
-    return cachedRewardWallet;
+  const wallets = cachedWallets();
+  if (wallets.reward) {
+    return wallets.reward;
   }
 
-  cachedRewardWallet = loadKeypairFromEnv('REWARD_WALLET_PRIVATE_KEY_JSON');
-  return cachedRewardWallet;
+  wallets.reward = loadKeypairFromEnv(getActiveProject().rewardWalletEnv);
+  return wallets.reward;
 }
 
 /**
- * Get treasury wallet address from environment variable
- * Environment variable: TREASURY_WALLET_ADDRESS
+ * Get treasury wallet address of the active project
+ * Environment variable: TREASURY_WALLET_ADDRESS (default project)
  * Default: DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo
  */
 function getTreasuryWalletAddress(): PublicKey {
-  const treasuryAddress = process.env.TREASURY_WALLET_ADDRESS || 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo';
+  const treasuryAddress = getActiveProject().treasuryWalletAddress;
   
   try {
     return new PublicKey(treasuryAddress);
@@ -238,17 +248,149 @@ function getTreasuryWalletAddress(): PublicKey {
 }
 
 /**
- * Get treasury wallet keypair from environment variable (optional)
- * Environment variable: TREASURY_WALLET_PRIVATE_KEY_JSON (JSON array of 64 numbers, optional)
+ * Get treasury wallet keypair of the active project (optional)
+ * Environment variable: TREASURY_WALLET_PRIVATE_KEY_JSON (JSON array of 64 numbers, optional; default project)
  * Treasury wallet can be receive-only, so this is optional
  */
 function getTreasuryWallet(): Keypair | null {
-  if (cachedTreasuryWallet) {
-    return cachedTreasuryWallet;
+  const wallets = cachedWallets();
+  if (wallets.treasury) {
+    return wallets.treasury;
   }
 
-  cachedTreasuryWallet = loadKeypairFromEnvOptional('TREASURY_WALLET_PRIVATE_KEY_JSON');
-  return cachedTreasuryWallet;
+  const treasuryWalletEnv = getActiveProject().treasuryWalletEnv;
+  wallets.treasury = treasuryWalletEnv ? loadKeypairFromEnvOptional(treasuryWalletEnv) : null;
+  return wallets.treasury;
+}
+
+/**
+ * Get the TEK balance of a wallet's token account (0 if the account does not exist)
+ * Used to reconcile journaled withdraw and swap steps, so an RPC error is
+ * thrown rather than read as an empty balance.
+ */
+async function getTekBalance(owner: PublicKey): Promise<bigint> {
+  const tokenAccount = getAssociatedTokenAddressSync(getTokenMint(), owner, false, TOKEN_2022_PROGRAM_ID);
+  try {
+    const account = await getAccount(connection, tokenAccount, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    return account.amount;
+  } catch (error) {
+    if (error instanceof TokenAccountNotFoundError) {
+      return 0n;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a wallet's SOL balance including any wrapped SOL (in lamports)
+ * Swaps pay out WSOL and unwrap it, so both are counted when reconciling a swap.
+ */
+async function getSolAndWsolBalance(owner: PublicKey): Promise<bigint> {
+  const nativeBalance = BigInt(await connection.getBalance(owner, 'confirmed'));
+  const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner, false, TOKEN_PROGRAM_ID);
+  try {
+    const account = await getAccount(connection, wsolAccount, 'confirmed', TOKEN_PROGRAM_ID);
+    return nativeBalance + account.amount;
+  } catch (error) {
+    if (error instanceof TokenAccountNotFoundError) {
+      return nativeBalance;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the reward asset conversion recorded in a cycle journal
+ */
+function toAssetConversion(conversion: JournaledAssetConversion): RewardAssetConversion {
+  return {
+    ...conversion,
+    lamportsPlanned: BigInt(conversion.lamportsPlanned),
+    rentLamports: BigInt(conversion.rentLamports),
+    amountReceived: BigInt(conversion.amountReceived),
+  };
+}
+
+/**
+ * Settle a reward asset swap left STARTED in the journal
+ * A landed swap becomes the cycle's asset purchase, the amount bought being
+ * what the reward wallet's asset balance gained since the swap was signed.
+ * @returns Whether the swap landed
+ */
+async function reconcileAssetSwap(step: CycleStepRecord, rewardWalletAddress: PublicKey): Promise<boolean> {
+  const outcome = step.signature && step.lastValidBlockHeight !== null
+    ? await waitForTransactionOutcome(step.signature, step.lastValidBlockHeight)
+    : 'expired';
+  if (outcome !== 'confirmed' || !step.signature) {
+    recordStepFailed('ASSET_SWAP', `Reward asset swap ${outcome}`);
+    return false;
+  }
+
+  const { getRewardAssetBalance } = await import('./solDistributionService');
+  const assetBalanceBefore = BigInt(step.data.assetBalanceBefore || '0');
+  const assetBalanceNow = await getRewardAssetBalance(rewardWalletAddress);
+  const amountReceived = assetBalanceNow > assetBalanceBefore ? assetBalanceNow - assetBalanceBefore : 0n;
+  recordAssetConversion({
+    symbol: step.data.symbol,
+    mint: step.data.mint,
+    decimals: Number(step.data.decimals),
+    lamportsPlanned: BigInt(step.data.lamportsPlanned),
+    rentLamports: BigInt(step.data.rentLamports),
+    accountsCreated: Number(step.data.accountsCreated),
+    amountReceived,
+    signature: step.signature,
+  });
+  recordStepConfirmed('ASSET_SWAP', {
+    signature: step.signature,
+    data: { amountReceived: amountReceived.toString(), reconciled: 'true' },
+  });
+  logger.info('Reconciled reward asset swap from reward wallet balance', {
+    signature: step.signature,
+    amountReceived: amountReceived.toString(),
+  });
+  return true;
+}
+
+/**
+ * Build a distribution result from the holder payouts recorded in a cycle journal
+ * Used for resumed cycles, whose payouts were sent by more than one run.
+ */
+function summarizeJournaledPayouts(journal: CycleJournal): SolDistributionResult | null {
+  if (!journal.holderPayouts) {
+    return null;
+  }
+
+  const confirmed = journal.holderPayouts.filter((payout) => payout.status === 'CONFIRMED' && payout.signature);
+  const failed = journal.holderPayouts.filter((payout) => payout.status === 'FAILED');
+
+  return {
+    distributedCount: confirmed.length,
+    totalDistributed: confirmed.reduce((sum, payout) => sum + BigInt(payout.amountLamports), 0n),
+    skippedCount: failed.filter((payout) => payout.error === 'INSUFFICIENT_BALANCE').length,
+    signatures: confirmed.map((payout) => ({
+      pubkey: payout.pubkey,
+      amount: BigInt(payout.amountLamports),
+      signature: payout.signature!,
+    })),
+    errors: failed
+      .filter((payout) => payout.error !== 'INSUFFICIENT_BALANCE')
+      .map((payout) => ({ pubkey: payout.pubkey, error: payout.error || 'Transfer failed' })),
+    assetConversion: journal.assetConversion ? toAssetConversion(journal.assetConversion) : undefined,
+    assetDistributed: journal.assetConversion
+      ? confirmed.reduce((sum, payout) => sum + BigInt(payout.assetAmount ?? '0'), 0n)
+      : undefined,
+  };
+}
+
+/**
+ * Context for the post-withdrawal part of a cycle (swap → split → transfers)
+ */
+interface WithdrawnTaxContext {
+  epoch?: string;
+  cycleNumber?: number;
+  withdrawnAmount: bigint; // TEK withdrawn to the reward wallet (raw token units)
+  decimals: number;
+  resumed: boolean; // true when continuing an interrupted cycle from its journal
 }
 
 /**
@@ -260,13 +402,89 @@ export interface TaxDistributionResult {
   totalTax: bigint; // NUKE amount harvested (in token units)
   swapSignature?: string; // Swap transaction signature (NUKE → SOL)
   treasurySignature?: string; // Treasury SOL transfer signature
-  distributionResult?: {
-    distributedCount: number;
-    totalDistributed: bigint;
-    skippedCount: number;
-    signatures: Array<{ pubkey: string; amount: bigint; signature: string }>;
-    errors: Array<{ pubkey: string; error: string }>;
-  };
+  split?: DistributionSplitResult[]; // Every bucket of the SOL split, holders included (withheld tax cycles)
+  distributionResult?: SolDistributionResult;
+}
+
+/**
+ * One bucket of a cycle's SOL split (see config/distributionSplit)
+ */
+export interface DistributionSplitResult {
+  name: string;
+  destination: string | null; // null for the holders bucket
+  amountLamports: bigint;
+  signature?: string; // Bucket transfer signature (not set for holders or failed transfers)
+}
+
+/**
+ * Hooks called by executeBatchHarvest around each swap batch
+ * Used by the cycle journal to record and skip batches.
+ */
+export interface SwapBatchHooks {
+  // Result of a batch that already completed (resumed cycles), or null to execute it
+  getCompletedBatch: (batchIndex: number) => { solReceived: bigint; txSignature: string } | null;
+  onBatchStarted: (batchIndex: number, amount: bigint) => Promise<void>;
+  onBatchCompleted: (batchIndex: number, result: { solReceived: bigint; txSignature: string; provider?: string }) => void;
+  // Resolves false when the swap may have landed (its TEK left the wallet); the batch loop stops there
+  onBatchFailed: (batchIndex: number, error: string) => Promise<boolean>;
+}
+
+/**
+ * Tax Simulation Result
+ * Structured plan of what processWithheldTax would do, computed without sending transactions.
+ * All amounts are strings (raw token units or lamports) so the plan serializes to JSON as-is.
+ */
+export interface TaxSimulationResult {
+  dryRun: true;
+  simulatedAt: number;
+  epoch: string | null;
+  cycleNumber: number | null;
+  outcome: 'WOULD_DISTRIBUTE' | 'WOULD_ROLL_OVER' | 'WOULD_FAIL';
+  reason?: string;
+  mint: string;
+  decimals: number;
+  withdrawAuthority: string | null;
+  withdrawWallet: 'reward' | 'admin' | null;
+  harvest: {
+    source: 'chain' | 'override'; // override = harvestAmount supplied by caller
+    totalAccountsScanned: number;
+    accountsWithWithheld: number;
+    withheldInAccounts: string;
+    withheldInMint: string;
+    totalAvailable: string;
+    thresholdMet: boolean;
+  } | null;
+  swap: {
+    batched: boolean;
+    batches: Array<{
+      batchNumber: number;
+      amountTek: string;
+      expectedSolOut: string;
+      minSolOut: string;
+      priceImpactBps: number;
+      slippageBps: number;
+      provider: string; // Swap provider with the best quote
+      route: string;
+      failedQuotes: Array<{ provider: string; error: string }>;
+    }>;
+    expectedSolOut: string;
+    minSolOut: string;
+  } | null;
+  split: {
+    holdersSol: string;
+    treasurySol: string;
+    treasuryWallet: string | null;
+    buckets: Array<{ name: string; destination: string | null; amountLamports: string }>;
+  } | null;
+  distribution: {
+    eligibleWalletsCount: number;
+    eligibleHoldersCount: number;
+    thresholdLamports: string;
+    weightingMode: 'TIME_WEIGHTED' | 'INSTANTANEOUS';
+    totalToPay: string;
+    payouts: Array<{ pubkey: string; amountLamports: string }>;
+    belowThreshold: Array<{ pubkey: string; amountLamports: string }>;
+  } | null;
 }
 
 /**
@@ -303,7 +521,7 @@ export class TaxService {
 
     if (isTokenMode()) {
       // TOKEN mode: Compare against MIN_TAX_THRESHOLD_TOKEN (in token units)
-      const threshold = TAX_THRESHOLD_CONFIG.MIN_TAX_THRESHOLD_TOKEN;
+      const threshold = getActiveProject().thresholds.minTaxThresholdToken;
       const thresholdMet = taxAmountHuman >= threshold;
       
       logger.info('Tax threshold check (TOKEN mode)', {
@@ -322,7 +540,7 @@ export class TaxService {
       try {
         const tokenPriceUSD = await getNUKEPriceUSD();
         const taxAmountUSD = taxAmountHuman * tokenPriceUSD;
-        const threshold = TAX_THRESHOLD_CONFIG.MIN_TAX_THRESHOLD_USD;
+        const threshold = getActiveProject().thresholds.minTaxThresholdUSD;
         const thresholdMet = taxAmountUSD >= threshold;
 
         logger.info('Tax threshold check (USD mode)', {
@@ -346,7 +564,7 @@ export class TaxService {
         });
         
         // Fallback to TOKEN mode comparison if price fetch fails
-        const threshold = TAX_THRESHOLD_CONFIG.MIN_TAX_THRESHOLD_TOKEN;
+        const threshold = getActiveProject().thresholds.minTaxThresholdToken;
         const thresholdMet = taxAmountHuman >= threshold;
         
         logger.info('Tax threshold check (fallback to TOKEN mode)', {
@@ -444,6 +662,25 @@ export class TaxService {
     }
   }
 
+  /**
+   * Split a harvest amount into BATCH_COUNT batch amounts
+   * The remainder is added to the last batch.
+   *
+   * @param totalAmount - Total amount to split (in raw token units with decimals)
+   * @param batchCount - Number of batches (default: BATCH_HARVEST_CONFIG.BATCH_COUNT)
+   * @returns Amount for each batch, in execution order
+   */
+  static getBatchAmounts(
+    totalAmount: bigint,
+    batchCount: number = BATCH_HARVEST_CONFIG.BATCH_COUNT
+  ): bigint[] {
+    const batchSize = totalAmount / BigInt(batchCount);
+    const remainder = totalAmount % BigInt(batchCount);
+    return Array.from({ length: batchCount }, (_, i) =>
+      i === batchCount - 1 ? batchSize + remainder : batchSize
+    );
+  }
+
   /**
    * Execute batch harvest by splitting large amounts into multiple swaps
    * 
@@ -452,16 +689,21 @@ export class TaxService {
    * 
    * @param totalAmount - Total amount to harvest (in raw token units with decimals)
    * @param decimals - Token decimals for conversion
+   * @param options.batchAmounts - Planned batch amounts (default: getBatchAmounts(totalAmount))
+   * @param options.hooks - Per-batch hooks (see SwapBatchHooks)
    * @returns Combined swap results with total SOL received and all transaction signatures
    */
   static async executeBatchHarvest(
     totalAmount: bigint,
-    decimals: number
+    decimals: number,
+    options: { batchAmounts?: bigint[]; hooks?: SwapBatchHooks } = {}
   ): Promise<{
     solReceived: bigint;
     txSignatures: string[];
   }> {
-    const batchCount = BATCH_HARVEST_CONFIG.BATCH_COUNT;
+    const { hooks } = options;
+    const batchAmounts = options.batchAmounts ?? TaxService.getBatchAmounts(totalAmount);
+    const batchCount = batchAmounts.length;
     const batchSize = totalAmount / BigInt(batchCount);
     const remainder = totalAmount % BigInt(batchCount);
     
@@ -488,16 +730,25 @@ export class TaxService {
 
     // Execute each batch
     for (let i = 0; i < batchCount; i++) {
-      // Add remainder to the last batch
-      const currentBatchAmount = i === batchCount - 1 
-        ? batchSize + remainder 
-        : batchSize;
+      const currentBatchAmount = batchAmounts[i];
 
       if (currentBatchAmount === 0n) {
         logger.info(`Skipping batch ${i + 1}/${batchCount} - zero amount`);
         continue;
       }
 
+      const completedBatch = hooks?.getCompletedBatch(i) ?? null;
+      if (completedBatch) {
+        totalSolReceived += completedBatch.solReceived;
+        txSignatures.push(completedBatch.txSignature);
+        logger.info(`Skipping batch ${i + 1}/${batchCount} - already completed`, {
+          batchNumber: i + 1,
+          solReceived: completedBatch.solReceived.toString(),
+          txSignature: completedBatch.txSignature,
+        });
+        continue;
+      }
+
       const batchExecutionStart = Date.now();
       logger.info(`Executing batch ${i + 1}/${batchCount}`, {
         batchNumber: i + 1,
@@ -508,8 +759,11 @@ export class TaxService {
       });
 
       try {
-        const { swapTekToSOL } = await import('./swapService');
-        const swapResult = await swapTekToSOL(currentBatchAmount);
+        await hooks?.onBatchStarted(i, currentBatchAmount);
+
+        const { swapTekToSolBestRoute } = await import('./swapProviders');
+        const swapResult = await swapTekToSolBestRoute(currentBatchAmount);
+        hooks?.onBatchCompleted(i, swapResult);
         
         totalSolReceived += swapResult.solReceived;
         txSignatures.push(swapResult.txSignature);
@@ -522,6 +776,7 @@ export class TaxService {
           solReceived: swapResult.solReceived.toString(),
           solReceivedHuman: (Number(swapResult.solReceived) / 1e9).toFixed(6),
           txSignature: swapResult.txSignature,
+          provider: swapResult.provider,
           cumulativeSol: totalSolReceived.toString(),
           cumulativeSolHuman: (Number(totalSolReceived) / 1e9).toFixed(6),
           executionTimeMs: batchExecutionTime,
@@ -543,6 +798,11 @@ export class TaxService {
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
         });
+        const retryable = hooks ? await hooks.onBatchFailed(i, error instanceof Error ? error.message : String(error)) : true;
+        if (!retryable) {
+          // Outcome unknown - stop so the cycle is left for resume to reconcile
+          throw error;
+        }
         // Continue with remaining batches even if one fails
         // This allows partial success
       }
@@ -569,6 +829,114 @@ export class TaxService {
     };
   }
 
+  /**
+   * Scan all token accounts of the mint for withheld transfer fees
+   *
+   * Read-only. Scan failures are logged and a partial result is returned,
+   * since the harvest itself may still succeed.
+   *
+   * @param decimals - Token decimals for logging
+   * @param mintWithheldAmount - Amount already withheld in the mint (for logging)
+   * @returns Total withheld in token accounts and the accounts holding it
+   */
+  static async scanWithheldAccounts(
+    decimals: number,
+    mintWithheldAmount: bigint
+  ): Promise<{
+    totalWithheldInAccounts: bigint;
+    accounts: PublicKey[];
+    totalAccountsScanned: number;
+  }> {
+    let totalWithheldInAccounts = 0n;
+    let accountsWithWithheld = 0;
+    let totalAccountsScanned = 0;
+    const accountsWithWithheldList: PublicKey[] = []; // Collect accounts with withheld fees
+    
+    try {
+      const { getTransferFeeAmount, unpackAccount } = await import('@solana/spl-token');
+      
+      // Get ALL token accounts for this mint (including zero-balance accounts)
+      // This is critical because accounts with withheld fees may have zero balance
+      const allTokenAccounts = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+        filters: [
+          {
+            memcmp: {
+              offset: 0, // Mint address is first 32 bytes
+              bytes: getTokenMint().toBase58(),
+            },
+          },
+        ],
+      });
+      
+      totalAccountsScanned = allTokenAccounts.length;
+
+      logger.info('Scanning ALL token accounts for withheld fees', {
+        totalAccounts: allTokenAccounts.length,
+        note: 'This includes ALL accounts (zero balance and non-zero balance)',
+      });
+      
+      // Log account details for debugging
+      if (allTokenAccounts.length <= 20) {
+        logger.debug('Token account addresses being scanned', {
+          accounts: allTokenAccounts.map(({ pubkey }) => pubkey.toBase58()),
+        });
+      }
+      
+      // Check ALL accounts for withheld fees (not just first 50)
+      for (const { pubkey, account } of allTokenAccounts) {
+        try {
+          const parsedAccount = unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID);
+          
+          // Verify this account belongs to our mint
+          if (!parsedAccount.mint.equals(getTokenMint())) {
+            continue;
+          }
+          
+          const transferFeeAmount = getTransferFeeAmount(parsedAccount);
+          if (transferFeeAmount && transferFeeAmount.withheldAmount > 0n) {
+            totalWithheldInAccounts += transferFeeAmount.withheldAmount;
+            accountsWithWithheld++;
+            accountsWithWithheldList.push(pubkey); // Collect account address
+            const withheldHuman = (Number(transferFeeAmount.withheldAmount) / Math.pow(10, decimals)).toFixed(6);
+            logger.debug('Token account has withheld fees', {
+              account: pubkey.toBase58(),
+              withheldAmount: transferFeeAmount.withheldAmount.toString(),
+              withheldAmountHuman: withheldHuman,
+              accountBalance: parsedAccount.amount.toString(),
+            });
+          }
+        } catch (error) {
+          // Skip accounts that can't be parsed
+          logger.debug('Skipping account (parse error)', {
+            account: pubkey.toBase58(),
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      
+      logger.info('Pre-harvest check: scanned ALL token accounts for withheld fees', {
+        totalAccountsScanned: allTokenAccounts.length,
+        accountsWithWithheld,
+        totalWithheldInAccounts: totalWithheldInAccounts.toString(),
+        totalWithheldInAccountsHuman: (Number(totalWithheldInAccounts) / Math.pow(10, decimals)).toFixed(6),
+        mintWithheldAmount: mintWithheldAmount.toString(),
+        mintWithheldAmountHuman: (Number(mintWithheldAmount) / Math.pow(10, decimals)).toFixed(6),
+      });
+    } catch (error) {
+      logger.error('Failed to check token accounts for withheld fees', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      // Continue anyway - harvest might still work
+    }
+
+    return {
+      totalWithheldInAccounts,
+      accounts: accountsWithWithheldList,
+      totalAccountsScanned,
+    };
+  }
+
   /**
    * Process withheld tax from Token-2022 transfers
    * 
@@ -578,6 +946,10 @@ export class TaxService {
    * 
    * This function should be called periodically to process accumulated
    * transfer fees that have been withheld by the Token-2022 program.
+   *
+   * Once the threshold is met, every on-chain step is written to the cycle
+   * journal. A failure after the withdrawal leaves the journal in progress
+   * (the error is rethrown) so resumeWithheldTax() can finish the cycle.
    * 
    * @param epoch - Current epoch (YYYY-MM-DD format)
    * @param cycleNumber - Current cycle number (1-288)
@@ -592,29 +964,43 @@ export class TaxService {
   static async processWithheldTax(epoch?: string, cycleNumber?: number): Promise<TaxDistributionResult | null> {
     logger.info('Processing withheld tax from Token-2022 transfers', {
       timestamp: new Date().toISOString(),
-      mint: tokenMint.toBase58(),
+      mint: getTokenMint().toBase58(),
     });
 
+    let journalStarted = false;
+    // harvested once tax was withdrawn, failed on error, otherwise skipped (nothing to do)
+    let outcome: 'harvested' | 'skipped' | 'failed' = 'skipped';
+    const stopTimer = taxHarvestDurationSeconds.startTimer();
+
     try {
       // Step 1: Get token mint info and check withdraw authority
-      const mintInfo = await getMint(connection, tokenMint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+      const mintInfo = await getMint(connection, getTokenMint(), 'confirmed', TOKEN_2022_PROGRAM_ID);
       const decimals = mintInfo.decimals;
       
       // Parse mint to get transfer fee config
-      const mintAccount = await connection.getAccountInfo(tokenMint);
+      const mintAccount = await connection.getAccountInfo(getTokenMint());
       if (!mintAccount) {
         throw new Error('Mint account not found');
       }
       
       // Import unpackMint and getTransferFeeConfig
       const { unpackMint, getTransferFeeConfig } = await import('@solana/spl-token');
-      const parsedMint = unpackMint(tokenMint, mintAccount, TOKEN_2022_PROGRAM_ID);
+      const parsedMint = unpackMint(getTokenMint(), mintAccount, TOKEN_2022_PROGRAM_ID);
       const transferFeeConfig = getTransferFeeConfig(parsedMint);
       
+      // Raises (or resolves) the withdraw-authority operator alert
+      try {
+        evaluateWithdrawAuthority(transferFeeConfig?.withdrawWithheldAuthority ?? null);
+      } catch (alertError) {
+        logger.warn('Failed to evaluate withdraw authority alert', {
+          error: alertError instanceof Error ? alertError.message : String(alertError),
+        });
+      }
+
       if (!transferFeeConfig || !transferFeeConfig.withdrawWithheldAuthority) {
         logger.error('No withdraw withheld authority set on mint. Tax harvesting will not work.');
         logger.error('Please update the withdraw withheld authority to the reward wallet.');
-        logger.error('Run setWithdrawAuthority.ts script to fix this.');
+        logger.error('Run `npm run tek -- mint authority set --type withdraw-withheld` to fix this.');
         return null;
       }
       
@@ -624,7 +1010,7 @@ export class TaxService {
       const mintWithheldAmount = transferFeeConfig.withheldAmount || 0n;
       logger.info('Withdraw withheld authority check', {
         authority: withdrawAuthority.toBase58(),
-        mint: tokenMint.toBase58(),
+        mint: getTokenMint().toBase58(),
         mintWithheldAmount: mintWithheldAmount.toString(),
         mintWithheldAmountHuman: (Number(mintWithheldAmount) / Math.pow(10, decimals)).toFixed(6),
       });
@@ -692,85 +1078,10 @@ export class TaxService {
       // Step 3: Check if there's anything to harvest BEFORE doing transactions
       // CRITICAL: We must scan ALL token accounts, including those with zero balance
       // because withheld fees are stored separately and accounts with fees may have zero balance
-      let totalWithheldInAccounts = 0n;
-      let accountsWithWithheld = 0;
-      const accountsWithWithheldList: PublicKey[] = []; // Collect accounts with withheld fees
-      
-      try {
-        const { getTransferFeeAmount, unpackAccount } = await import('@solana/spl-token');
-        
-        // Get ALL token accounts for this mint (including zero-balance accounts)
-        // This is critical because accounts with withheld fees may have zero balance
-        const allTokenAccounts = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
-          filters: [
-            {
-              memcmp: {
-                offset: 0, // Mint address is first 32 bytes
-                bytes: tokenMint.toBase58(),
-              },
-            },
-          ],
-        });
-        
-        logger.info('Scanning ALL token accounts for withheld fees', {
-          totalAccounts: allTokenAccounts.length,
-          note: 'This includes ALL accounts (zero balance and non-zero balance)',
-        });
-        
-        // Log account details for debugging
-        if (allTokenAccounts.length <= 20) {
-          logger.debug('Token account addresses being scanned', {
-            accounts: allTokenAccounts.map(({ pubkey }) => pubkey.toBase58()),
-          });
-        }
-        
-        // Check ALL accounts for withheld fees (not just first 50)
-        for (const { pubkey, account } of allTokenAccounts) {
-          try {
-            const parsedAccount = unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID);
-            
-            // Verify this account belongs to our mint
-            if (!parsedAccount.mint.equals(tokenMint)) {
-              continue;
-            }
-            
-            const transferFeeAmount = getTransferFeeAmount(parsedAccount);
-            if (transferFeeAmount && transferFeeAmount.withheldAmount > 0n) {
-              totalWithheldInAccounts += transferFeeAmount.withheldAmount;
-              accountsWithWithheld++;
-              accountsWithWithheldList.push(pubkey); // Collect account address
-              const withheldHuman = (Number(transferFeeAmount.withheldAmount) / Math.pow(10, decimals)).toFixed(6);
-              logger.debug('Token account has withheld fees', {
-                account: pubkey.toBase58(),
-                withheldAmount: transferFeeAmount.withheldAmount.toString(),
-                withheldAmountHuman: withheldHuman,
-                accountBalance: parsedAccount.amount.toString(),
-              });
-            }
-          } catch (error) {
-            // Skip accounts that can't be parsed
-            logger.debug('Skipping account (parse error)', {
-              account: pubkey.toBase58(),
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
-        
-        logger.info('Pre-harvest check: scanned ALL token accounts for withheld fees', {
-          totalAccountsScanned: allTokenAccounts.length,
-          accountsWithWithheld,
-          totalWithheldInAccounts: totalWithheldInAccounts.toString(),
-          totalWithheldInAccountsHuman: (Number(totalWithheldInAccounts) / Math.pow(10, decimals)).toFixed(6),
-          mintWithheldAmount: mintWithheldAmount.toString(),
-          mintWithheldAmountHuman: (Number(mintWithheldAmount) / Math.pow(10, decimals)).toFixed(6),
-        });
-      } catch (error) {
-        logger.error('Failed to check token accounts for withheld fees', {
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-        });
-        // Continue anyway - harvest might still work
-      }
+      const {
+        totalWithheldInAccounts,
+        accounts: accountsWithWithheldList,
+      } = await TaxService.scanWithheldAccounts(decimals, mintWithheldAmount);
 
       // Step 4: Check minimum tax threshold before harvesting
       const totalAvailable = totalWithheldInAccounts + mintWithheldAmount;
@@ -788,6 +1099,10 @@ export class TaxService {
         return null;
       }
 
+      // From here on every on-chain step is journaled
+      beginCycleJournal(epoch, cycleNumber);
+      journalStarted = true;
+
       // Step 5: Harvest from accounts with withheld fees
       // Use explicit list of accounts (more reliable than empty array)
       const harvestSources = accountsWithWithheldList.length > 0 
@@ -829,11 +1144,11 @@ export class TaxService {
         }
         
         // Get mint withheld amount BEFORE harvest to compare
-        const mintAccountBeforeHarvest = await connection.getAccountInfo(tokenMint);
+        const mintAccountBeforeHarvest = await connection.getAccountInfo(getTokenMint());
         if (!mintAccountBeforeHarvest) {
           throw new Error('Mint account not found');
         }
-        const parsedMintBeforeHarvest = unpackMint(tokenMint, mintAccountBeforeHarvest, TOKEN_2022_PROGRAM_ID);
+        const parsedMintBeforeHarvest = unpackMint(getTokenMint(), mintAccountBeforeHarvest, TOKEN_2022_PROGRAM_ID);
         const transferFeeConfigBeforeHarvest = getTransferFeeConfig(parsedMintBeforeHarvest);
         const mintWithheldBeforeHarvest = transferFeeConfigBeforeHarvest?.withheldAmount || 0n;
         
@@ -842,14 +1157,28 @@ export class TaxService {
           mintWithheldAmountHuman: (Number(mintWithheldBeforeHarvest) / Math.pow(10, decimals)).toFixed(6),
         });
         
+        publishCycleProgress({
+          epoch: epoch ?? getCurrentEpoch(),
+          cycleNumber: cycleNumber ?? null,
+          stage: 'harvesting',
+          batch: null,
+          payouts: null,
+        });
+        recordStepStarted('HARVEST', {
+          mintWithheldBefore: mintWithheldBeforeHarvest.toString(),
+          sourceAccounts: harvestSources.length.toString(),
+        });
+
         harvestSignature = await harvestWithheldTokensToMint(
           connection,
           withdrawWallet,
-          tokenMint,
+          getTokenMint(),
           harvestSources, // Explicit list of accounts with withheld fees
           { commitment: 'confirmed' }
         );
 
+        recordStepConfirmed('HARVEST', { signature: harvestSignature });
+
         // Wait a moment for the transaction to fully settle, then verify
         await new Promise(resolve => setTimeout(resolve, 1000));
         
@@ -875,11 +1204,11 @@ export class TaxService {
         }
         
         // Get mint withheld amount AFTER harvest to see if anything was harvested
-        const mintAccountAfterHarvestCheck = await connection.getAccountInfo(tokenMint, 'confirmed');
+        const mintAccountAfterHarvestCheck = await connection.getAccountInfo(getTokenMint(), 'confirmed');
         if (!mintAccountAfterHarvestCheck) {
           throw new Error('Mint account not found after harvest');
         }
-        const parsedMintAfterHarvestCheck = unpackMint(tokenMint, mintAccountAfterHarvestCheck, TOKEN_2022_PROGRAM_ID);
+        const parsedMintAfterHarvestCheck = unpackMint(getTokenMint(), mintAccountAfterHarvestCheck, TOKEN_2022_PROGRAM_ID);
         const transferFeeConfigAfterHarvestCheck = getTransferFeeConfig(parsedMintAfterHarvestCheck);
         const mintWithheldAfterHarvestCheck = transferFeeConfigAfterHarvestCheck?.withheldAmount || 0n;
         const harvestedAmount = mintWithheldAfterHarvestCheck - mintWithheldBeforeHarvest;
@@ -926,13 +1255,14 @@ export class TaxService {
             stack: error instanceof Error ? error.stack : undefined,
           });
         }
+        recordStepFailed('HARVEST', errorMessage);
         // Continue - might still be able to withdraw from mint if there was something already there
       }
 
       // Step 4: Create withdrawal account (reward wallet ATA)
       // rewardWalletAddress already declared above
       const rewardTokenAccount = getAssociatedTokenAddressSync(
-        tokenMint,
+        getTokenMint(),
         rewardWalletAddress,
         false,
         TOKEN_2022_PROGRAM_ID
@@ -957,7 +1287,7 @@ export class TaxService {
             withdrawWallet.publicKey, // Payer
             rewardTokenAccount,
             rewardWalletAddress,
-            tokenMint,
+            getTokenMint(),
             TOKEN_2022_PROGRAM_ID
           )
         );
@@ -983,11 +1313,11 @@ export class TaxService {
       let withdrawnAmount = BigInt(0);
       
       // Re-check mint withheld amount after harvest
-      const mintAccountAfterHarvest = await connection.getAccountInfo(tokenMint);
+      const mintAccountAfterHarvest = await connection.getAccountInfo(getTokenMint());
       if (!mintAccountAfterHarvest) {
         throw new Error('Mint account not found after harvest');
       }
-      const parsedMintAfterHarvest = unpackMint(tokenMint, mintAccountAfterHarvest, TOKEN_2022_PROGRAM_ID);
+      const parsedMintAfterHarvest = unpackMint(getTokenMint(), mintAccountAfterHarvest, TOKEN_2022_PROGRAM_ID);
       const transferFeeConfigAfterHarvest = getTransferFeeConfig(parsedMintAfterHarvest);
       const mintWithheldAfterHarvest = transferFeeConfigAfterHarvest?.withheldAmount || 0n;
       
@@ -1003,6 +1333,7 @@ export class TaxService {
           mintWithheldBeforeHarvest: mintWithheldAmount.toString(),
           mintWithheldAfterHarvest: mintWithheldAfterHarvest.toString(),
         });
+        finishCycleJournal('ABORTED', 'Nothing to withdraw after harvest');
         return null;
       }
       
@@ -1020,11 +1351,18 @@ export class TaxService {
           mintWithheldAmount: mintWithheldAfterHarvest.toString(),
           destination: rewardTokenAccount.toBase58(),
         });
+
+        // The withdrawn amount is reconciled from this balance if the process dies mid-step
+        recordStepStarted('WITHDRAW', {
+          balanceBefore: balanceBefore.toString(),
+          mintWithheld: mintWithheldAfterHarvest.toString(),
+          decimals: decimals.toString(),
+        });
         
         withdrawSignature = await withdrawWithheldTokensFromMint(
           connection,
           withdrawWallet, // Payer
-          tokenMint, // Mint
+          getTokenMint(), // Mint
           rewardTokenAccount, // Destination
           withdrawWallet.publicKey, // Authority
           emptySigners, // Multi-signers
@@ -1055,15 +1393,33 @@ export class TaxService {
         if (errorMessage.includes('authority') || errorMessage.includes('insufficient')) {
           logger.error('Withdraw authority mismatch. Please update the withdraw withheld authority on the mint to match the wallet being used.');
         }
-        
-        return null;
+
+        // A confirmation error does not prove the withdrawal did not land
+        const balanceAfterError = await getTekBalance(rewardWalletAddress);
+        if (balanceAfterError <= balanceBefore) {
+          recordStepFailed('WITHDRAW', errorMessage);
+          finishCycleJournal('ABORTED', `Withdrawal failed: ${errorMessage}`);
+          return null;
+        }
+
+        withdrawnAmount = balanceAfterError - balanceBefore;
+        logger.warn('Withdrawal landed despite error', {
+          withdrawnAmount: withdrawnAmount.toString(),
+          error: errorMessage,
+        });
       }
 
+      recordStepConfirmed('WITHDRAW', {
+        signature: withdrawSignature,
+        data: { withdrawnAmount: withdrawnAmount.toString() },
+      });
+
       if (withdrawnAmount === BigInt(0)) {
         logger.info('No withheld tokens were withdrawn', {
           reason: 'No tax collected or already withdrawn',
           withdrawnAmount: withdrawnAmount.toString(),
         });
+        finishCycleJournal('ABORTED', 'No withheld tokens were withdrawn');
         return null;
       }
       
@@ -1071,168 +1427,514 @@ export class TaxService {
         withdrawnAmount: withdrawnAmount.toString(),
         signature: withdrawSignature,
       });
+      outcome = 'harvested';
+      taxHarvestSizeTokens.observe({}, Number(withdrawnAmount) / Math.pow(10, decimals));
+
+      const harvestEpoch = epoch ?? getCurrentEpoch();
+      const harvestJournalId = getActiveCycleJournal()?.id ?? null;
+      emitWebhookEvent('tax.harvested', harvestJournalId ?? withdrawSignature ?? String(Date.now()), {
+        epoch: harvestEpoch,
+        epochNumber: getEpochNumber(harvestEpoch),
+        cycleNumber: cycleNumber ?? null,
+        journalId: harvestJournalId,
+        tekAmount: withdrawnAmount.toString(),
+        tekAmountUi: Number(withdrawnAmount) / Math.pow(10, decimals),
+        decimals,
+        signature: withdrawSignature ?? null,
+      });
 
-      const totalTax = withdrawnAmount;
-
-      logger.info('Tax distribution calculated from withheld tokens', {
-        totalTax: totalTax.toString(),
+      // Steps 7-11: Swap, split, transfers and tax state (shared with resumed cycles)
+      return await TaxService.completeWithdrawnTax({
+        epoch,
+        cycleNumber,
+        withdrawnAmount,
         decimals,
+        resumed: false,
       });
+    } catch (error) {
+      outcome = 'failed';
+      logger.error('Error processing withheld tax', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Before the withdrawal nothing needs resuming (harvesting again is harmless)
+      const journal = journalStarted ? getActiveCycleJournal() : null;
+      if (journal && findJournalStep(journal, 'WITHDRAW')?.status !== 'CONFIRMED') {
+        finishCycleJournal('ABORTED', error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    } finally {
+      stopTimer({ outcome });
+      taxHarvestsTotal.inc({ epoch: epoch ?? getCurrentEpoch(), outcome });
+    }
+  }
+
+  /**
+   * Swap withdrawn TEK to SOL, split it and send the holder and treasury transfers
+   *
+   * Shared tail of processWithheldTax() and resumeWithheldTax(). Steps already
+   * confirmed in the cycle journal are skipped. Throws (leaving the journal in
+   * progress) when a step cannot be completed, so the next run can resume it.
+   *
+   * @returns Tax distribution result, or null if there was nothing to distribute
+   */
+  static async completeWithdrawnTax(context: WithdrawnTaxContext): Promise<TaxDistributionResult | null> {
+    const { epoch, cycleNumber, withdrawnAmount, decimals, resumed } = context;
+    const rewardWalletAddress = getRewardWalletAddress();
+    let journal = getActiveCycleJournal();
+    if (!journal) {
+      throw new Error('No active cycle journal');
+    }
+    const journalId = journal.id;
 
-      // Step 7: Swap TEK to SOL via Raydium (with batch support for large amounts)
-      logger.info('Swapping harvested TEK to SOL', {
+    const totalTax = withdrawnAmount;
+
+    logger.info('Tax distribution calculated from withheld tokens', {
+      totalTax: totalTax.toString(),
+      decimals,
+      resumed,
+    });
+
+    // Step 7: Swap TEK to SOL via Raydium (with batch support for large amounts)
+    logger.info('Swapping harvested TEK to SOL', {
+      tekAmount: withdrawnAmount.toString(),
+      tekAmountHuman: (Number(withdrawnAmount) / Math.pow(10, decimals)).toFixed(6),
+    });
+
+    // The batch plan is journaled so a resumed cycle swaps exactly the remaining batches
+    let batchAmounts: bigint[];
+    if (journal.swapBatchAmounts) {
+      batchAmounts = journal.swapBatchAmounts.map((amount) => BigInt(amount));
+    } else {
+      const shouldSplit = await TaxService.shouldSplitHarvest(withdrawnAmount, decimals);
+      batchAmounts = shouldSplit ? TaxService.getBatchAmounts(withdrawnAmount) : [withdrawnAmount];
+      recordSwapPlan(batchAmounts);
+    }
+
+    // Progress pushed to the dashboard live feed
+    const progressCycle = { epoch: epoch ?? getCurrentEpoch(), cycleNumber: cycleNumber ?? null };
+
+    const swapHooks: SwapBatchHooks = {
+      getCompletedBatch: (batchIndex) => {
+        const record = journal && findJournalStep(journal, 'SWAP', batchIndex);
+        return record && record.status === 'CONFIRMED' && record.signature
+          ? { solReceived: BigInt(record.data.solReceived || '0'), txSignature: record.signature }
+          : null;
+      },
+      onBatchStarted: async (batchIndex, amount) => {
+        publishCycleProgress({
+          ...progressCycle,
+          stage: 'swapping',
+          batch: { current: batchIndex + 1, total: batchAmounts.length },
+          payouts: null,
+        });
+        // Balances let a resumed cycle tell whether this swap landed
+        recordStepStarted('SWAP', {
+          amountTek: amount.toString(),
+          tekBalanceBefore: (await getTekBalance(rewardWalletAddress)).toString(),
+          solBalanceBefore: (await getSolAndWsolBalance(rewardWalletAddress)).toString(),
+        }, { batchIndex });
+      },
+      onBatchCompleted: (batchIndex, result) => {
+        recordStepConfirmed('SWAP', {
+          batchIndex,
+          signature: result.txSignature,
+          data: { solReceived: result.solReceived.toString(), ...(result.provider ? { provider: result.provider } : {}) },
+        });
+      },
+      onBatchFailed: async (batchIndex, error) => {
+        // A swap can throw after it landed (e.g. a confirmation timeout). Only fail
+        // the batch if its TEK is still in the wallet; otherwise leave it STARTED
+        // so resume reconciles it from the balances instead of swapping again.
+        const started = findJournalStep(getActiveCycleJournal() ?? journal!, 'SWAP', batchIndex);
+        const tekBefore = BigInt(started?.data.tekBalanceBefore || '0');
+        const tekNow = await getTekBalance(rewardWalletAddress).catch(() => null);
+        if (tekNow === null || tekNow < tekBefore) {
+          logger.error('Swap failed after its TEK may have left the wallet - left for resume to reconcile', {
+            batchIndex,
+            error,
+            tekBalanceBefore: tekBefore.toString(),
+            tekBalanceNow: tekNow?.toString() ?? null,
+          });
+          return false;
+        }
+        recordStepFailed('SWAP', error, batchIndex);
+        return true;
+      },
+    };
+
+    let swapResult: { solReceived: bigint; txSignature: string } | null = null;
+    let swapSignatures: string[] = [];
+
+    if (batchAmounts.length > 1) {
+      // Execute batch harvest
+      logger.info('Large harvest detected - using batch mode', {
         tekAmount: withdrawnAmount.toString(),
         tekAmountHuman: (Number(withdrawnAmount) / Math.pow(10, decimals)).toFixed(6),
       });
 
-      // Check if harvest should be split into batches
-      const shouldSplit = await TaxService.shouldSplitHarvest(withdrawnAmount, decimals);
-      
-      let swapResult: { solReceived: bigint; txSignature: string } | null = null;
-      let swapSignatures: string[] = [];
-
-      if (shouldSplit) {
-        // Execute batch harvest
-        logger.info('Large harvest detected - using batch mode', {
+      try {
+        const batchResult = await TaxService.executeBatchHarvest(withdrawnAmount, decimals, {
+          batchAmounts,
+          hooks: swapHooks,
+        });
+        swapResult = {
+          solReceived: batchResult.solReceived,
+          txSignature: batchResult.txSignatures.join(','), // Comma-separated for logging
+        };
+        swapSignatures = batchResult.txSignatures;
+        
+        logger.info('Batch TEK swap to SOL completed successfully', {
+          tekAmount: withdrawnAmount.toString(),
+          solReceived: swapResult.solReceived.toString(),
+          batchCount: swapSignatures.length,
+          swapSignatures,
+        });
+      } catch (error) {
+        logger.error('Failed to execute batch swap TEK to SOL - cycle left for resume', {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
           tekAmount: withdrawnAmount.toString(),
           tekAmountHuman: (Number(withdrawnAmount) / Math.pow(10, decimals)).toFixed(6),
         });
-
-        try {
-          const batchResult = await TaxService.executeBatchHarvest(withdrawnAmount, decimals);
-          swapResult = {
-            solReceived: batchResult.solReceived,
-            txSignature: batchResult.txSignatures.join(','), // Comma-separated for logging
-          };
-          swapSignatures = batchResult.txSignatures;
-          
-          logger.info('Batch TEK swap to SOL completed successfully', {
-            tekAmount: withdrawnAmount.toString(),
-            solReceived: swapResult.solReceived.toString(),
-            batchCount: swapSignatures.length,
-            swapSignatures,
-          });
-        } catch (error) {
-          logger.error('Failed to execute batch swap TEK to SOL - aborting distribution', {
-            error: error instanceof Error ? error.message : String(error),
-            stack: error instanceof Error ? error.stack : undefined,
-            tekAmount: withdrawnAmount.toString(),
-            tekAmountHuman: (Number(withdrawnAmount) / Math.pow(10, decimals)).toFixed(6),
-          });
-          return null; // Abort if batch swap fails
-        }
-      } else {
-        // Execute single swap
+        throw error;
+      }
+    } else {
+      // Execute single swap
+      swapResult = swapHooks.getCompletedBatch(0);
+      if (!swapResult) {
         try {
-          const { swapTekToSOL } = await import('./swapService');
-          swapResult = await swapTekToSOL(withdrawnAmount);
-          swapSignatures = [swapResult.txSignature];
+          await swapHooks.onBatchStarted(0, withdrawnAmount);
+          const { swapTekToSolBestRoute } = await import('./swapProviders');
+          const routedSwap = await swapTekToSolBestRoute(withdrawnAmount);
+          swapHooks.onBatchCompleted(0, routedSwap);
+          swapResult = routedSwap;
           
           logger.info('TEK swapped to SOL successfully (single swap)', {
             tekAmount: withdrawnAmount.toString(),
-            solReceived: swapResult.solReceived.toString(),
-            swapSignature: swapResult.txSignature,
+            solReceived: routedSwap.solReceived.toString(),
+            swapSignature: routedSwap.txSignature,
+            provider: routedSwap.provider,
+            route: routedSwap.route,
           });
         } catch (error) {
-          logger.error('Failed to swap TEK to SOL - aborting distribution', {
+          logger.error('Failed to swap TEK to SOL - cycle left for resume', {
             error: error instanceof Error ? error.message : String(error),
             stack: error instanceof Error ? error.stack : undefined,
             tekAmount: withdrawnAmount.toString(),
             tekAmountHuman: (Number(withdrawnAmount) / Math.pow(10, decimals)).toFixed(6),
           });
-          return null; // Abort if swap fails
+          await swapHooks.onBatchFailed(0, error instanceof Error ? error.message : String(error));
+          throw error;
         }
       }
+      swapSignatures = [swapResult.txSignature];
+    }
 
-      if (!swapResult || swapResult.solReceived === 0n) {
-        logger.warn('Swap returned zero SOL - skipping distribution');
-        return null;
-      }
+    if (swapSignatures.length === 0) {
+      // Nothing was swapped - the TEK is still in the reward wallet, so retry on resume
+      throw new Error('All swap batches failed - cycle left in progress for resume');
+    }
 
-      const totalSolReceived = swapResult.solReceived;
+    const cycleEpoch = epoch ?? getCurrentEpoch();
+    emitWebhookEvent('swap.completed', journalId, {
+      epoch: cycleEpoch,
+      epochNumber: getEpochNumber(cycleEpoch),
+      cycleNumber: cycleNumber ?? null,
+      journalId,
+      resumed,
+      tekAmount: withdrawnAmount.toString(),
+      solReceivedLamports: swapResult.solReceived.toString(),
+      signatures: swapSignatures,
+      batchCount: swapSignatures.length,
+    });
 
-      // Step 8: Split SOL: 75% to holders, 25% to treasury
-      const holdersSol = (totalSolReceived * BigInt(75)) / BigInt(100); // 75% to holders
-      const treasurySol = (totalSolReceived * BigInt(25)) / BigInt(100); // 25% to treasury
+    if (swapResult.solReceived === 0n) {
+      logger.warn('Swap returned zero SOL - skipping distribution');
+      finishCycleJournal('COMPLETED');
+      return null;
+    }
 
-      logger.info('SOL split calculated', {
-        totalSolReceived: totalSolReceived.toString(),
-        holdersSol: holdersSol.toString(),
-        treasurySol: treasurySol.toString(),
-      });
+    const totalSolReceived = swapResult.solReceived;
 
-      // Step 9: Distribute SOL to holders
-      let distributionResult: {
-        distributedCount: number;
-        totalDistributed: bigint;
-        skippedCount: number;
-        signatures: Array<{ pubkey: string; amount: bigint; signature: string }>;
-        errors: Array<{ pubkey: string; error: string }>;
-      } | null = null;
+    // Step 8: Split SOL across the distribution buckets (config/distributionSplit)
+    // A resumed cycle reuses the split recorded in its journal
+    journal = getActiveCycleJournal() ?? journal;
+    let split: BucketAllocation[];
+    if (journal.splitPlan) {
+      split = journal.splitPlan.map((bucket) => ({ ...bucket, amountLamports: BigInt(bucket.amountLamports) }));
+    } else {
+      split = allocateDistributionSplit(totalSolReceived);
+      recordSplitPlan(split);
+    }
+    const holdersSol = split.find((bucket) => bucket.name === HOLDERS_BUCKET)?.amountLamports ?? 0n;
+    const treasurySol = split.find((bucket) => bucket.name === 'treasury')?.amountLamports ?? 0n;
 
-      if (holdersSol > 0n) {
-        try {
-          const { distributeSolToHolders } = await import('./solDistributionService');
-          distributionResult = await distributeSolToHolders(holdersSol);
-          
-          logger.info('SOL distributed to holders', {
-            distributedCount: distributionResult.distributedCount,
-            totalDistributed: distributionResult.totalDistributed.toString(),
-            skippedCount: distributionResult.skippedCount,
-            errors: distributionResult.errors.length,
-          });
-        } catch (error) {
-          logger.error('Failed to distribute SOL to holders', {
-            error: error instanceof Error ? error.message : String(error),
-            holdersSol: holdersSol.toString(),
-          });
-          // Continue - treasury portion can still be sent
+    logger.info('SOL split calculated', {
+      totalSolReceived: totalSolReceived.toString(),
+      holdersSol: holdersSol.toString(),
+      treasurySol: treasurySol.toString(),
+      buckets: split.map((bucket) => ({
+        name: bucket.name,
+        amount: bucket.amountLamports.toString(),
+        destination: bucket.destination,
+      })),
+    });
+
+    // Step 9: Distribute SOL to holders
+    let distributionResult: SolDistributionResult | null = null;
+    let holderErrorForResume: string | null = null;
+    journal = getActiveCycleJournal() ?? journal;
+    const holderStep = findJournalStep(journal, 'HOLDER_TRANSFERS');
+
+    if (holdersSol > 0n && holderStep?.status !== 'CONFIRMED' && holderStep?.status !== 'FAILED') {
+      try {
+        if (!holderStep) {
+          recordStepStarted('HOLDER_TRANSFERS', { holdersSol: holdersSol.toString() });
+        }
+
+        // Payouts already planned by an interrupted run are reused; only unsent ones are paid
+        const plannedRewards = journal.holderPayouts
+          ?.filter((payout) => payout.status === 'PENDING')
+          .map((payout) => ({
+            pubkey: payout.pubkey,
+            amountLamports: BigInt(payout.amountLamports),
+            eligibleBalance: payout.eligibleBalance !== undefined ? BigInt(payout.eligibleBalance) : undefined,
+          }));
+
+        // Throttled so a large payout run does not flood the feed's replay buffer
+        const payoutProgress = { settled: 0, failed: 0, total: 0 };
+        let payoutProgressPublishedAt = 0;
+        const publishPayoutProgress = (): void => {
+          const done = payoutProgress.settled + payoutProgress.failed >= payoutProgress.total;
+          if (!done && Date.now() - payoutProgressPublishedAt < PAYOUT_PROGRESS_INTERVAL_MS) {
+            return;
+          }
+          payoutProgressPublishedAt = Date.now();
+          publishCycleProgress({ ...progressCycle, stage: 'distributing', batch: null, payouts: { ...payoutProgress } });
+        };
+
+        const { distributeSolToHolders } = await import('./solDistributionService');
+        distributionResult = await distributeSolToHolders(holdersSol, {
+          plannedRewards,
+          assetConversion: journal.assetConversion ? toAssetConversion(journal.assetConversion) : undefined,
+          // Journaled before it is sent, so a swap whose result was lost is reconciled instead of repeated
+          onAssetSwapStarted: (swap) => {
+            recordStepStarted('ASSET_SWAP', {
+              symbol: swap.symbol,
+              mint: swap.mint,
+              decimals: swap.decimals.toString(),
+              lamportsPlanned: swap.lamportsPlanned.toString(),
+              rentLamports: swap.rentLamports.toString(),
+              accountsCreated: swap.accountsCreated.toString(),
+              assetBalanceBefore: swap.assetBalanceBefore.toString(),
+            }, { signature: swap.signature, lastValidBlockHeight: swap.lastValidBlockHeight });
+          },
+          onAssetSwapped: (conversion) => {
+            recordAssetConversion(conversion);
+            recordStepConfirmed('ASSET_SWAP', {
+              signature: conversion.signature,
+              data: { amountReceived: conversion.amountReceived.toString() },
+            });
+          },
+          onPayoutsPlanned: (rewards) => {
+            if (!plannedRewards) {
+              recordHolderPayoutsPlanned(rewards);
+            }
+            payoutProgress.total = rewards.length;
+            publishPayoutProgress();
+          },
+          onTransfersSigned: (pubkeys, signature, lastValidBlockHeight) => {
+            updateHolderPayouts(pubkeys.map((pubkey) => ({
+              pubkey,
+              update: { status: 'SENT', signature, lastValidBlockHeight },
+            })));
+          },
+          onTransfersSettled: (settled) => {
+            updateHolderPayouts(settled.map(({ pubkey, outcome }) => ({
+              pubkey,
+              update: 'signature' in outcome
+                ? { status: 'CONFIRMED', signature: outcome.signature, assetAmount: outcome.assetAmount?.toString() }
+                : { status: 'FAILED', error: outcome.error },
+            })));
+            for (const { outcome } of settled) {
+              if ('signature' in outcome) {
+                payoutProgress.settled++;
+              } else {
+                payoutProgress.failed++;
+              }
+            }
+            publishPayoutProgress();
+          },
+        });
+        
+        logger.info('SOL distributed to holders', {
+          distributedCount: distributionResult.distributedCount,
+          totalDistributed: distributionResult.totalDistributed.toString(),
+          skippedCount: distributionResult.skippedCount,
+          errors: distributionResult.errors.length,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error('Failed to distribute SOL to holders', {
+          error: errorMessage,
+          holdersSol: holdersSol.toString(),
+        });
+        // Planned payouts that were not sent are queued below. Without a plan there
+        // is nothing to queue, so the step stays STARTED and resume retries it
+        // rather than leaving the holders' SOL unreserved in the reward wallet.
+        // The same goes for an asset swap that landed or whose outcome is unknown:
+        // its purchase is paid out on resume rather than queued as SOL.
+        const failedJournal = getActiveCycleJournal() ?? journal;
+        const assetSwap = findJournalStep(failedJournal, 'ASSET_SWAP');
+        const assetSwapLanded = assetSwap?.status === 'STARTED'
+          ? await reconcileAssetSwap(assetSwap, rewardWalletAddress).catch(() => null)
+          : false;
+        if (!failedJournal.holderPayouts) {
+          holderErrorForResume = `Holder distribution failed before any payout was planned - cycle left in progress for resume: ${errorMessage}`;
+        } else if (assetSwapLanded !== false) {
+          holderErrorForResume = `Holder distribution failed after the reward asset swap was sent - cycle left in progress for resume: ${errorMessage}`;
+        } else {
+          recordStepFailed('HOLDER_TRANSFERS', errorMessage);
         }
+        // Continue - treasury portion can still be sent
       }
 
-      // Step 10: Send treasury portion to treasury wallet
-      const treasuryWalletAddress = getTreasuryWalletAddress();
-      let treasurySignature: string | undefined;
+      journal = getActiveCycleJournal() ?? journal;
+      const unsettledPayouts = journal.holderPayouts?.filter((payout) => payout.status === 'SENT') ?? [];
+      if (
+        !holderErrorForResume &&
+        unsettledPayouts.length === 0 &&
+        findJournalStep(journal, 'HOLDER_TRANSFERS')?.status === 'STARTED'
+      ) {
+        recordStepConfirmed('HOLDER_TRANSFERS', {
+          data: { totalDistributed: (distributionResult?.totalDistributed ?? 0n).toString() },
+        });
+      }
+    }
 
-      if (treasurySol > 0n) {
-        try {
-          const treasuryTx = new Transaction();
-          treasuryTx.add(
-            SystemProgram.transfer({
-              fromPubkey: rewardWalletAddress,
-              toPubkey: treasuryWalletAddress,
-              lamports: Number(treasurySol),
-            })
-          );
+    // Resumed cycles report every payout of the cycle, not just those sent by this run
+    if (resumed) {
+      journal = getActiveCycleJournal() ?? journal;
+      distributionResult = summarizeJournaledPayouts(journal) ?? distributionResult;
+    }
 
-          const { blockhash } = await connection.getLatestBlockhash('confirmed');
-          treasuryTx.recentBlockhash = blockhash;
-          treasuryTx.feePayer = rewardWalletAddress;
+    // Step 10: Send every other bucket (treasury, buyback, marketing, burn...) to its destination
+    journal = getActiveCycleJournal() ?? journal;
+    const bucketSignatures = new Map<string, string>();
 
-          // Use reward wallet to sign treasury transfer (reward wallet has the SOL)
-          const rewardWallet = getRewardWallet();
-          treasurySignature = await sendAndConfirmTransaction(
-            connection,
-            treasuryTx,
-            [rewardWallet],
-            { commitment: 'confirmed', maxRetries: 3 }
-          );
+    for (const [bucketIndex, bucket] of split.entries()) {
+      if (bucket.name === HOLDERS_BUCKET || !bucket.destination || bucket.amountLamports <= 0n) {
+        continue;
+      }
 
-          logger.info('Treasury SOL sent', {
-            signature: treasurySignature,
-            amount: treasurySol.toString(),
-            to: treasuryWalletAddress.toBase58(),
+      const bucketStep = findJournalStep(journal, 'BUCKET_TRANSFER', bucketIndex);
+      if (bucketStep?.status === 'CONFIRMED') {
+        if (bucketStep.signature) {
+          bucketSignatures.set(bucket.name, bucketStep.signature);
+        }
+        continue;
+      }
+
+      publishCycleProgress({ ...progressCycle, stage: 'treasury', batch: null, payouts: null });
+      let signed: Awaited<ReturnType<typeof signTransaction>> | null = null;
+      try {
+        const bucketTx = new Transaction();
+        bucketTx.add(
+          SystemProgram.transfer({
+            fromPubkey: rewardWalletAddress,
+            toPubkey: new PublicKey(bucket.destination),
+            lamports: Number(bucket.amountLamports),
+          })
+        );
+
+        // Use reward wallet to sign the transfer (reward wallet has the SOL)
+        // Signed before sending so the signature is journaled first
+        const rewardWallet = getRewardWallet();
+        signed = await signTransaction(bucketTx, [rewardWallet]);
+        recordStepStarted('BUCKET_TRANSFER', {
+          bucket: bucket.name,
+          destination: bucket.destination,
+          amount: bucket.amountLamports.toString(),
+        }, {
+          batchIndex: bucketIndex,
+          signature: signed.signature,
+          lastValidBlockHeight: signed.lastValidBlockHeight,
+        });
+        const signature = await sendSignedTransaction(signed);
+        recordStepConfirmed('BUCKET_TRANSFER', { signature, batchIndex: bucketIndex });
+        bucketSignatures.set(bucket.name, signature);
+
+        logger.info('Bucket SOL sent', {
+          bucket: bucket.name,
+          signature,
+          amount: bucket.amountLamports.toString(),
+          to: bucket.destination,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const outcome = signed
+          ? await waitForTransactionOutcome(signed.signature, signed.lastValidBlockHeight)
+          : 'failed';
+
+        if (signed && outcome === 'confirmed') {
+          bucketSignatures.set(bucket.name, signed.signature);
+          recordStepConfirmed('BUCKET_TRANSFER', { signature: signed.signature, batchIndex: bucketIndex });
+          logger.info('Bucket SOL transfer landed despite send error', {
+            bucket: bucket.name,
+            signature: signed.signature,
+            amount: bucket.amountLamports.toString(),
+            sendError: errorMessage,
           });
-        } catch (error) {
-          logger.error('Failed to send treasury SOL', {
-            error: error instanceof Error ? error.message : String(error),
-            amount: treasurySol.toString(),
+        } else {
+          logger.error('Failed to send bucket SOL', {
+            bucket: bucket.name,
+            error: errorMessage,
+            amount: bucket.amountLamports.toString(),
+            to: bucket.destination,
           });
+          if (signed) {
+            recordStepFailed('BUCKET_TRANSFER', errorMessage, bucketIndex);
+          }
         }
       }
+    }
 
-      // Step 11: Update tax state
-      const taxState = loadTaxState();
+    const treasurySignature = bucketSignatures.get('treasury');
+    const splitResult: DistributionSplitResult[] = split.map((bucket) => ({
+      ...bucket,
+      signature: bucketSignatures.get(bucket.name),
+    }));
+
+    // Holder payouts whose outcome is still unknown are reconciled on resume
+    journal = getActiveCycleJournal() ?? journal;
+    if (journal.holderPayouts?.some((payout) => payout.status === 'SENT')) {
+      throw new Error('Some holder payouts have an unknown outcome - cycle left in progress for resume');
+    }
+    if (holderErrorForResume) {
+      throw new Error(holderErrorForResume);
+    }
+
+    // Queue holder payouts that were not paid so they are retried in later cycles
+    const holderTransfersFailed = findJournalStep(journal, 'HOLDER_TRANSFERS')?.status === 'FAILED';
+    const unpaidPayouts = journal.holderPayouts?.filter((payout) =>
+      payout.status === 'FAILED' || (holderTransfersFailed && payout.status === 'PENDING')
+    ) ?? [];
+    if (unpaidPayouts.length > 0) {
+      enqueueFailedPayouts(
+        unpaidPayouts.map((payout) => ({
+          pubkey: payout.pubkey,
+          amountLamports: BigInt(payout.amountLamports),
+          reason: payout.error === 'INSUFFICIENT_BALANCE' ? 'INSUFFICIENT_BALANCE' : 'TRANSFER_FAILED',
+          error: payout.error,
+        })),
+        { journalId, epoch: journal.epoch, cycleNumber: journal.cycleNumber }
+      );
+    }
+
+    // Step 11: Update tax state (once per journaled cycle)
+    const taxState = loadTaxState();
+    if (taxState.lastCycleJournalId !== journalId) {
       const currentTotalTax = BigInt(taxState.totalTaxCollected || '0');
       const currentReward = BigInt(taxState.totalRewardAmount || '0');
       const currentTreasury = BigInt(taxState.totalTreasuryAmount || '0');
@@ -1254,8 +1956,37 @@ export class TaxService {
       taxState.lastDistributionSolToHolders = holdersSol.toString(); // Store last distribution amount to holders
       taxState.lastDistributionSolToTreasury = treasurySol.toString(); // Store last distribution amount to treasury
       taxState.lastSwapTx = swapSignatures.length > 0 ? swapSignatures.join(',') : swapResult.txSignature;
-      taxState.lastDistributionTx = distributionResult?.signatures.map(s => s.signature).join(',') || null;
+      // Payouts share transaction signatures when batched, so list each transaction once
+      taxState.lastDistributionTx = Array.from(new Set(distributionResult?.signatures.map(s => s.signature))).join(',') || null;
       taxState.lastDistributionTime = Date.now();
+      taxState.lastCycleJournalId = journalId;
+      const totalSolByBucket = { ...(taxState.totalSolByBucket ?? {}) };
+      for (const bucket of splitResult) {
+        totalSolByBucket[bucket.name] = (BigInt(totalSolByBucket[bucket.name] ?? '0') + bucket.amountLamports).toString();
+      }
+      taxState.totalSolByBucket = totalSolByBucket;
+      const conversion = distributionResult?.assetConversion;
+      if (conversion) {
+        const totalAssetDistributed = { ...(taxState.totalAssetDistributed ?? {}) };
+        totalAssetDistributed[conversion.mint] = (
+          BigInt(totalAssetDistributed[conversion.mint] ?? '0') + (distributionResult?.assetDistributed ?? 0n)
+        ).toString();
+        taxState.totalAssetDistributed = totalAssetDistributed;
+      }
+      taxState.lastDistributionAsset = conversion
+        ? {
+            symbol: conversion.symbol,
+            mint: conversion.mint,
+            decimals: conversion.decimals,
+            amount: (distributionResult?.assetDistributed ?? 0n).toString(),
+          }
+        : null;
+      taxState.lastDistributionSplit = splitResult.map((bucket) => ({
+        name: bucket.name,
+        destination: bucket.destination,
+        amountLamports: bucket.amountLamports.toString(),
+        signature: bucket.signature ?? null,
+      }));
       
       taxState.taxDistributions.push({
         timestamp: Date.now(),
@@ -1273,38 +2004,468 @@ export class TaxService {
       }
 
       saveTaxState(taxState);
+    }
 
-      logger.info('Tax distribution complete', {
-        totalTax: totalTax.toString(),
-        tekSold: totalTax.toString(),
-        solReceived: totalSolReceived.toString(),
-        holdersSol: holdersSol.toString(),
-        treasurySol: treasurySol.toString(),
-        distributedCount: distributionResult?.distributedCount || 0,
-        swapSignature: swapSignatures.length > 0 ? swapSignatures.join(',') : swapResult.txSignature,
-        swapSignatureCount: swapSignatures.length,
-        treasurySignature,
-        totalTaxCollected: taxState.totalTaxCollected,
-        totalRewardAmount: taxState.totalRewardAmount,
-        totalTreasuryAmount: taxState.totalTreasuryAmount,
+    finishCycleJournal('COMPLETED');
+
+    logger.info('Tax distribution complete', {
+      totalTax: totalTax.toString(),
+      tekSold: totalTax.toString(),
+      solReceived: totalSolReceived.toString(),
+      holdersSol: holdersSol.toString(),
+      treasurySol: treasurySol.toString(),
+      distributedCount: distributionResult?.distributedCount || 0,
+      swapSignature: swapSignatures.length > 0 ? swapSignatures.join(',') : swapResult.txSignature,
+      swapSignatureCount: swapSignatures.length,
+      treasurySignature,
+      totalTaxCollected: taxState.totalTaxCollected,
+      totalRewardAmount: taxState.totalRewardAmount,
+      totalTreasuryAmount: taxState.totalTreasuryAmount,
+      journalId,
+      resumed,
+    });
+
+    emitWebhookEvent('distribution.completed', journalId, {
+      epoch: cycleEpoch,
+      epochNumber: getEpochNumber(cycleEpoch),
+      cycleNumber: cycleNumber ?? null,
+      cyclesPerEpoch: CYCLES_PER_EPOCH,
+      journalId,
+      resumed,
+      tekHarvested: totalTax.toString(),
+      solReceivedLamports: totalSolReceived.toString(),
+      solToHoldersLamports: holdersSol.toString(),
+      solToTreasuryLamports: treasurySol.toString(),
+      split: splitResult.map((bucket) => ({
+        name: bucket.name,
+        destination: bucket.destination,
+        amountLamports: bucket.amountLamports.toString(),
+        signature: bucket.signature ?? null,
+      })),
+      swapSignatures,
+      payouts: {
+        sent: distributionResult?.distributedCount ?? 0,
+        skipped: distributionResult?.skippedCount ?? 0,
+        failed: distributionResult?.errors.length ?? 0,
+        totalDistributedLamports: (distributionResult?.totalDistributed ?? 0n).toString(),
+      },
+      // Set when holders were paid in a reward asset other than SOL
+      rewardAsset: distributionResult?.assetConversion
+        ? {
+            symbol: distributionResult.assetConversion.symbol,
+            mint: distributionResult.assetConversion.mint,
+            decimals: distributionResult.assetConversion.decimals,
+            amountDistributed: (distributionResult.assetDistributed ?? 0n).toString(),
+            rentLamports: distributionResult.assetConversion.rentLamports.toString(),
+            accountsCreated: distributionResult.assetConversion.accountsCreated,
+            swapSignature: distributionResult.assetConversion.signature,
+          }
+        : null,
+      distributedAt: new Date().toISOString(),
+    });
+
+    return {
+      rewardAmount: holdersSol, // SOL amount
+      treasuryAmount: treasurySol, // SOL amount
+      totalTax,
+      treasurySignature,
+      split: splitResult,
+      swapSignature: swapSignatures.length > 0 ? swapSignatures.join(',') : swapResult.txSignature,
+      distributionResult: distributionResult || undefined,
+    };
+  }
+
+  /**
+   * Resume the cycle left in progress by a crash or a failed step
+   *
+   * Reconciles every step that was started but never recorded as finished
+   * (withdraw and swaps from wallet balances, transfers from their journaled
+   * signatures) and every failed swap whose TEK left the wallet anyway, and then continues from the last confirmed step. A cycle that
+   * was interrupted before its withdrawal landed is aborted instead, since the
+   * tax is still in the mint and the next cycle collects it.
+   *
+   * @returns Tax distribution result, or null if there was nothing to resume
+   */
+  static async resumeWithheldTax(): Promise<TaxDistributionResult | null> {
+    if (!getActiveCycleJournal()) {
+      return null;
+    }
+
+    let journal = markCycleJournalResumed();
+    logger.warn('Resuming interrupted distribution cycle', {
+      journalId: journal.id,
+      epoch: journal.epoch,
+      cycleNumber: journal.cycleNumber,
+      resumeCount: journal.resumeCount,
+      steps: journal.steps.map((s) => `${s.step}${s.batchIndex !== undefined ? `#${s.batchIndex}` : ''}:${s.status}`),
+    });
+
+    if (journal.resumeCount > MAX_CYCLE_RESUME_ATTEMPTS) {
+      logger.error('Interrupted cycle could not be completed - manual reconciliation required', {
+        journalId: journal.id,
+        resumeCount: journal.resumeCount,
+        maxResumeAttempts: MAX_CYCLE_RESUME_ATTEMPTS,
       });
+      finishCycleJournal('ABORTED', `Gave up after ${MAX_CYCLE_RESUME_ATTEMPTS} resume attempts`);
+      return null;
+    }
 
-      return {
-        rewardAmount: holdersSol, // SOL amount
-        treasuryAmount: treasurySol, // SOL amount
-        totalTax,
-        treasurySignature,
-        swapSignature: swapSignatures.length > 0 ? swapSignatures.join(',') : swapResult.txSignature,
-        distributionResult: distributionResult || undefined,
-      };
+    try {
+      const rewardWalletAddress = getRewardWalletAddress();
+
+      // Withdraw: nothing to resume unless the withheld TEK reached the reward wallet
+      const withdrawStep = findJournalStep(journal, 'WITHDRAW');
+      if (!withdrawStep || withdrawStep.status === 'FAILED') {
+        finishCycleJournal('ABORTED', 'Interrupted before withdrawal');
+        return null;
+      }
+      if (withdrawStep.status === 'STARTED') {
+        const balanceBefore = BigInt(withdrawStep.data.balanceBefore || '0');
+        const balanceNow = await getTekBalance(rewardWalletAddress);
+        if (balanceNow <= balanceBefore) {
+          finishCycleJournal('ABORTED', 'Interrupted withdrawal did not land');
+          return null;
+        }
+        recordStepConfirmed('WITHDRAW', {
+          data: { withdrawnAmount: (balanceNow - balanceBefore).toString() },
+        });
+        logger.info('Reconciled interrupted withdrawal from reward wallet balance', {
+          withdrawnAmount: (balanceNow - balanceBefore).toString(),
+        });
+      }
+
+      // Swaps: a batch landed if its TEK left the wallet. Failed batches are
+      // checked too, since a swap can land after its error was recorded. Newest
+      // first (steps are journaled in start order), so TEK and SOL moved by later
+      // batches are not credited to earlier ones.
+      const swapSteps = journal.steps.filter((s) => s.step === 'SWAP').reverse();
+      let laterTekSwapped = 0n;
+      let laterSolReceived = 0n;
+      for (const swapStep of swapSteps) {
+        const amountTek = BigInt(swapStep.data.amountTek || '0');
+        if (swapStep.status === 'CONFIRMED') {
+          laterTekSwapped += amountTek;
+          laterSolReceived += BigInt(swapStep.data.solReceived || '0');
+          continue;
+        }
+
+        const tekBefore = BigInt(swapStep.data.tekBalanceBefore || '0');
+        const solBefore = BigInt(swapStep.data.solBalanceBefore || '0');
+        const tekNow = await getTekBalance(rewardWalletAddress);
+
+        if (amountTek > 0n && tekBefore - tekNow - laterTekSwapped >= amountTek) {
+          const solNow = await getSolAndWsolBalance(rewardWalletAddress);
+          const solDelta = solNow - solBefore - laterSolReceived;
+          const solReceived = solDelta > 0n ? solDelta : 0n;
+          laterTekSwapped += amountTek;
+          laterSolReceived += solReceived;
+          // The swap signature is unknown; record a placeholder so the batch is not repeated
+          recordStepConfirmed('SWAP', {
+            batchIndex: swapStep.batchIndex,
+            signature: swapStep.signature ?? `reconciled-batch-${swapStep.batchIndex}`,
+            data: { solReceived: solReceived.toString(), reconciled: 'true' },
+          });
+          logger.info('Reconciled interrupted swap batch from wallet balances', {
+            batchIndex: swapStep.batchIndex,
+            previousStatus: swapStep.status,
+            solReceived: solReceived.toString(),
+          });
+        } else if (swapStep.status === 'STARTED') {
+          recordStepFailed('SWAP', 'Interrupted swap did not land', swapStep.batchIndex);
+        }
+      }
+
+      // Reward asset swap: a landed swap is paid out, one that did not land is bought again
+      const assetSwapStep = findJournalStep(journal, 'ASSET_SWAP');
+      if (assetSwapStep?.status === 'STARTED') {
+        if (journal.assetConversion) {
+          recordStepConfirmed('ASSET_SWAP', { signature: journal.assetConversion.signature });
+        } else {
+          await reconcileAssetSwap(assetSwapStep, rewardWalletAddress);
+        }
+      }
+
+      // Holder transfers: settle every payout that was sent but not confirmed
+      // (one status lookup per transaction, one journal write for all of them)
+      const transactionOutcomes = new Map<string, TransactionOutcome>();
+      const payoutUpdates: Parameters<typeof updateHolderPayouts>[0] = [];
+      for (const payout of journal.holderPayouts?.filter((p) => p.status === 'SENT') ?? []) {
+        let outcome: TransactionOutcome = 'expired';
+        if (payout.signature && payout.lastValidBlockHeight !== null) {
+          outcome = transactionOutcomes.get(payout.signature)
+            ?? await waitForTransactionOutcome(payout.signature, payout.lastValidBlockHeight);
+          transactionOutcomes.set(payout.signature, outcome);
+        }
+        payoutUpdates.push({
+          pubkey: payout.pubkey,
+          // Never landed - pay it again
+          update: outcome === 'confirmed'
+            ? { status: 'CONFIRMED' }
+            : { status: 'PENDING', signature: null, lastValidBlockHeight: null },
+        });
+        logger.info('Reconciled interrupted holder payout', {
+          wallet: payout.pubkey,
+          signature: payout.signature,
+          outcome,
+        });
+      }
+      updateHolderPayouts(payoutUpdates);
+
+      // Bucket transfers (treasury and the other split buckets)
+      for (const bucketStep of journal.steps.filter((step) => step.step === 'BUCKET_TRANSFER')) {
+        if (bucketStep.status !== 'STARTED' || !bucketStep.signature || bucketStep.lastValidBlockHeight === null) {
+          continue;
+        }
+        const outcome = await waitForTransactionOutcome(bucketStep.signature, bucketStep.lastValidBlockHeight);
+        if (outcome === 'confirmed') {
+          recordStepConfirmed('BUCKET_TRANSFER', { signature: bucketStep.signature, batchIndex: bucketStep.batchIndex });
+        } else {
+          recordStepFailed('BUCKET_TRANSFER', `Interrupted bucket transfer ${outcome}`, bucketStep.batchIndex);
+        }
+      }
+
+      journal = getActiveCycleJournal() ?? journal;
+      const withdrawnAmount = BigInt(findJournalStep(journal, 'WITHDRAW')?.data.withdrawnAmount || '0');
+      if (withdrawnAmount === 0n) {
+        finishCycleJournal('ABORTED', 'No withheld tokens were withdrawn');
+        return null;
+      }
+
+      return await TaxService.completeWithdrawnTax({
+        epoch: journal.epoch ?? undefined,
+        cycleNumber: journal.cycleNumber ?? undefined,
+        withdrawnAmount,
+        decimals: Number(withdrawStep.data.decimals || '0'),
+        resumed: true,
+      });
     } catch (error) {
-      logger.error('Error processing withheld tax', {
+      logger.error('Error resuming interrupted cycle', {
         error: error instanceof Error ? error.message : String(error),
+        journalId: journal.id,
       });
       throw error;
     }
   }
 
+  /**
+   * Simulate processWithheldTax without sending any transaction
+   *
+   * Runs the same read-only steps as a live cycle (authority check, withheld fee
+   * scan, threshold check, batch split) and then quotes each swap batch and
+   * computes the holder allocation from the expected SOL output. Nothing is
+   * harvested, withdrawn, swapped, transferred or written to tax state.
+   *
+   * Batches are quoted against the current pool reserves, so for batched
+   * harvests the later batches are slightly optimistic.
+   *
+   * @param options.epoch - Epoch to attach to the plan (YYYY-MM-DD)
+   * @param options.cycleNumber - Cycle number to attach to the plan
+   * @param options.harvestAmount - Use this amount instead of scanning the chain (raw token units)
+   * @returns Structured plan of the cycle
+   */
+  static async simulateWithheldTax(options: {
+    epoch?: string;
+    cycleNumber?: number;
+    harvestAmount?: bigint;
+  } = {}): Promise<TaxSimulationResult> {
+    const { epoch, cycleNumber, harvestAmount } = options;
+
+    logger.info('Simulating withheld tax cycle (dry run)', {
+      epoch,
+      cycleNumber,
+      harvestAmountOverride: harvestAmount?.toString(),
+      mint: getTokenMint().toBase58(),
+    });
+
+    const plan: TaxSimulationResult = {
+      dryRun: true,
+      simulatedAt: Date.now(),
+      epoch: epoch || null,
+      cycleNumber: cycleNumber || null,
+      outcome: 'WOULD_FAIL',
+      mint: getTokenMint().toBase58(),
+      decimals: 0,
+      withdrawAuthority: null,
+      withdrawWallet: null,
+      harvest: null,
+      swap: null,
+      split: null,
+      distribution: null,
+    };
+
+    // Step 1: Mint info and withdraw authority
+    const { unpackMint, getTransferFeeConfig } = await import('@solana/spl-token');
+    const mintAccount = await connection.getAccountInfo(getTokenMint());
+    if (!mintAccount) {
+      plan.reason = 'Mint account not found';
+      return plan;
+    }
+    const parsedMint = unpackMint(getTokenMint(), mintAccount, TOKEN_2022_PROGRAM_ID);
+    plan.decimals = parsedMint.decimals;
+
+    const transferFeeConfig = getTransferFeeConfig(parsedMint);
+    if (!transferFeeConfig || !transferFeeConfig.withdrawWithheldAuthority) {
+      plan.reason = 'No withdraw withheld authority set on mint';
+      return plan;
+    }
+
+    const withdrawAuthority = transferFeeConfig.withdrawWithheldAuthority;
+    plan.withdrawAuthority = withdrawAuthority.toBase58();
+
+    // Step 2: Which wallet would sign the withdrawal
+    try {
+      if (withdrawAuthority.equals(getRewardWalletAddress())) {
+        plan.withdrawWallet = 'reward';
+      } else if (withdrawAuthority.equals(getAdminWallet().publicKey)) {
+        plan.withdrawWallet = 'admin';
+      }
+    } catch (error) {
+      plan.reason = `Failed to load wallets: ${error instanceof Error ? error.message : String(error)}`;
+      return plan;
+    }
+
+    if (!plan.withdrawWallet) {
+      plan.reason = 'Withdraw authority does not match reward or admin wallet';
+      return plan;
+    }
+
+    // Step 3: Available tax (chain scan, or caller-provided amount)
+    const mintWithheldAmount = transferFeeConfig.withheldAmount || 0n;
+    let totalAvailable: bigint;
+
+    if (harvestAmount !== undefined) {
+      totalAvailable = harvestAmount;
+      plan.harvest = {
+        source: 'override',
+        totalAccountsScanned: 0,
+        accountsWithWithheld: 0,
+        withheldInAccounts: '0',
+        withheldInMint: '0',
+        totalAvailable: totalAvailable.toString(),
+        thresholdMet: false,
+      };
+    } else {
+      const scan = await TaxService.scanWithheldAccounts(plan.decimals, mintWithheldAmount);
+      totalAvailable = scan.totalWithheldInAccounts + mintWithheldAmount;
+      plan.harvest = {
+        source: 'chain',
+        totalAccountsScanned: scan.totalAccountsScanned,
+        accountsWithWithheld: scan.accounts.length,
+        withheldInAccounts: scan.totalWithheldInAccounts.toString(),
+        withheldInMint: mintWithheldAmount.toString(),
+        totalAvailable: totalAvailable.toString(),
+        thresholdMet: false,
+      };
+    }
+
+    // Step 4: Minimum tax threshold
+    plan.harvest.thresholdMet = await TaxService.checkMinimumTaxThreshold(totalAvailable, plan.decimals);
+    if (!plan.harvest.thresholdMet) {
+      plan.outcome = 'WOULD_ROLL_OVER';
+      plan.reason = 'Tax below minimum threshold';
+      return plan;
+    }
+
+    // Step 5: Batch split and swap quotes
+    const batched = await TaxService.shouldSplitHarvest(totalAvailable, plan.decimals);
+    const batchAmounts = batched ? TaxService.getBatchAmounts(totalAvailable) : [totalAvailable];
+    const { quoteSwapRoutes } = await import('./swapProviders');
+
+    plan.swap = { batched, batches: [], expectedSolOut: '0', minSolOut: '0' };
+    let expectedSolOut = 0n;
+    let minSolOut = 0n;
+
+    try {
+      for (let i = 0; i < batchAmounts.length; i++) {
+        if (batchAmounts[i] === 0n) {
+          continue;
+        }
+        // The live swap routes through the provider with the best quote
+        const routes = await quoteSwapRoutes(batchAmounts[i]);
+        const quote = routes[0].quote;
+        if (!quote) {
+          throw new Error(routes.map((route) => `${route.provider}: ${route.error}`).join('; '));
+        }
+        expectedSolOut += quote.expectedSolOut;
+        minSolOut += quote.minSolOut;
+        plan.swap.batches.push({
+          batchNumber: i + 1,
+          amountTek: batchAmounts[i].toString(),
+          expectedSolOut: quote.expectedSolOut.toString(),
+          minSolOut: quote.minSolOut.toString(),
+          priceImpactBps: quote.priceImpactBps,
+          slippageBps: quote.slippageBps,
+          provider: quote.provider,
+          route: quote.route,
+          failedQuotes: routes.flatMap((route) => (route.error !== undefined ? [{ provider: route.provider, error: route.error }] : [])),
+        });
+      }
+    } catch (error) {
+      plan.reason = `Swap quote failed: ${error instanceof Error ? error.message : String(error)}`;
+      return plan;
+    }
+
+    plan.swap.expectedSolOut = expectedSolOut.toString();
+    plan.swap.minSolOut = minSolOut.toString();
+
+    if (expectedSolOut === 0n) {
+      plan.reason = 'Swap would return zero SOL';
+      return plan;
+    }
+
+    // Step 6: SOL split across the distribution buckets
+    const split = allocateDistributionSplit(expectedSolOut);
+    const holdersSol = split.find((bucket) => bucket.name === HOLDERS_BUCKET)?.amountLamports ?? 0n;
+    const treasuryBucket = split.find((bucket) => bucket.name === 'treasury');
+    plan.split = {
+      holdersSol: holdersSol.toString(),
+      treasurySol: (treasuryBucket?.amountLamports ?? 0n).toString(),
+      treasuryWallet: treasuryBucket?.destination ?? null,
+      buckets: split.map((bucket) => ({
+        name: bucket.name,
+        destination: bucket.destination,
+        amountLamports: bucket.amountLamports.toString(),
+      })),
+    };
+
+    // Step 7: Holder allocation
+    if (holdersSol > 0n) {
+      const { calculateHolderAllocations } = await import('./solDistributionService');
+      const allocation = await calculateHolderAllocations(holdersSol);
+      plan.distribution = {
+        eligibleWalletsCount: allocation.eligibleWalletsCount,
+        eligibleHoldersCount: allocation.eligibleHoldersCount,
+        thresholdLamports: allocation.thresholdLamports.toString(),
+        weightingMode: allocation.weightingMode,
+        totalToPay: allocation.rewardsToPay.reduce((sum, r) => sum + r.amountLamports, 0n).toString(),
+        payouts: allocation.rewardsToPay.map(r => ({
+          pubkey: r.pubkey,
+          amountLamports: r.amountLamports.toString(),
+        })),
+        belowThreshold: allocation.rewardsToAccumulate.map(r => ({
+          pubkey: r.pubkey,
+          amountLamports: r.amountLamports.toString(),
+        })),
+      };
+    }
+
+    plan.outcome = 'WOULD_DISTRIBUTE';
+
+    logger.info('Dry-run cycle simulation complete', {
+      epoch,
+      cycleNumber,
+      outcome: plan.outcome,
+      totalAvailable: totalAvailable.toString(),
+      batches: plan.swap.batches.length,
+      expectedSolOut: plan.swap.expectedSolOut,
+      holdersSol: plan.split.holdersSol,
+      treasurySol: plan.split.treasurySol,
+      payouts: plan.distribution?.payouts.length || 0,
+    });
+
+    return plan;
+  }
+
   /**
    * Distribute tax from a token transfer
    * 
@@ -1329,7 +2490,7 @@ export class TaxService {
 
     try {
       // Step 1: Get token mint info (for decimals)
-      const mintInfo = await getMint(connection, tokenMint, 'confirmed', TOKEN_2022_PROGRAM_ID);
+      const mintInfo = await getMint(connection, getTokenMint(), 'confirmed', TOKEN_2022_PROGRAM_ID);
       const decimals = mintInfo.decimals;
 
       // Step 2: Convert amount to BigInt for precise calculations
@@ -1357,7 +2518,7 @@ export class TaxService {
 
       // Step 5: Get sender's token account
       const fromTokenAccount = getAssociatedTokenAddressSync(
-        tokenMint,
+        getTokenMint(),
         from,
         false,
         TOKEN_2022_PROGRAM_ID
@@ -1365,7 +2526,7 @@ export class TaxService {
 
       // Step 6: Get or create reward wallet token account
       const rewardTokenAccount = getAssociatedTokenAddressSync(
-        tokenMint,
+        getTokenMint(),
         rewardWalletAddress,
         false,
         TOKEN_2022_PROGRAM_ID
@@ -1373,7 +2534,7 @@ export class TaxService {
 
       // Step 7: Get or create treasury wallet token account
       const treasuryTokenAccount = getAssociatedTokenAddressSync(
-        tokenMint,
+        getTokenMint(),
         treasuryWalletAddress,
         false,
         TOKEN_2022_PROGRAM_ID
@@ -1410,7 +2571,7 @@ export class TaxService {
                 senderWallet.publicKey, // Payer
                 rewardTokenAccount,
                 rewardWalletAddress, // Owner
-                tokenMint,
+                getTokenMint(),
                 TOKEN_2022_PROGRAM_ID
               )
             );
@@ -1420,7 +2581,7 @@ export class TaxService {
           rewardTx.add(
             createTransferCheckedInstruction(
               fromTokenAccount,
-              tokenMint,
+              getTokenMint(),
               rewardTokenAccount,
               from, // Authority (sender)
               rewardAmount,
@@ -1473,7 +2634,7 @@ export class TaxService {
                 senderWallet.publicKey, // Payer
                 treasuryTokenAccount,
                 treasuryWalletAddress, // Owner
-                tokenMint,
+                getTokenMint(),
                 TOKEN_2022_PROGRAM_ID
               )
             );
@@ -1483,7 +2644,7 @@ export class TaxService {
           treasuryTx.add(
             createTransferCheckedInstruction(
               fromTokenAccount,
-              tokenMint,
+              getTokenMint(),
               treasuryTokenAccount,
               from, // Authority (sender)
               treasuryAmount,
@@ -1590,6 +2751,10 @@ export class TaxService {
     lastSwapTx: string | null;
     lastDistributionTx: string | null;
     distributionCount: number;
+    totalSolByBucket: Record<string, string>;
+    lastDistributionSplit: Array<{ name: string; destination: string | null; amountLamports: string; signature: string | null }>;
+    totalAssetDistributed: Record<string, string>;
+    lastDistributionAsset: { symbol: string; mint: string; decimals: number; amount: string } | null;
   } {
     const taxState = loadTaxState();
     
@@ -1609,6 +2774,10 @@ export class TaxService {
       lastSwapTx: taxState.lastSwapTx,
       lastDistributionTx: taxState.lastDistributionTx,
       distributionCount: taxState.taxDistributions.length,
+      totalSolByBucket: taxState.totalSolByBucket ?? {},
+      lastDistributionSplit: taxState.lastDistributionSplit ?? [],
+      totalAssetDistributed: taxState.totalAssetDistributed ?? {},
+      lastDistributionAsset: taxState.lastDistributionAsset ?? null,
     };
   }
 }
@@ -0,0 +1,292 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  createSetTransferFeeInstruction,
+  getTransferFeeConfig,
+  unpackMint,
+  type Mint,
+  type TransferFee,
+  type TransferFeeConfig,
+} from '@solana/spl-token';
+import { connection, getTokenMint } from '../config/solana';
+import { logger } from '../utils/logger';
+import { signInstructions, sendSignedTransaction, simulateSignedTransaction } from '../utils/transactions';
+
+/**
+ * Transfer Fee Service
+ *
+ * Reads and schedules the Token-2022 transfer fee of a mint.
+ *
+ * The mint stores two fees: olderTransferFee and newerTransferFee. The newer
+ * fee applies from its epoch onwards; until that epoch the older fee is still
+ * charged. Setting a fee writes a new newerTransferFee that applies two epochs
+ * after the current one (and first moves the newer fee to olderTransferFee if
+ * it is already in force). Setting it again while a change is pending replaces
+ * the pending change and restarts the delay.
+ *
+ * getTransferFeeSchedule() resolves which fee is in force for the current
+ * cluster epoch, so callers never have to pick between the two themselves.
+ */
+
+export const MAX_TRANSFER_FEE_BPS = 10_000;
+
+// Epoch delay Token-2022 applies to a new fee
+const TRANSFER_FEE_ACTIVATION_EPOCHS = 2;
+
+// Typical slot time, used to estimate when an epoch starts
+const ESTIMATED_SLOT_MS = 400;
+
+const SCHEDULE_CACHE_TTL = 60 * 1000; // 1 minute
+
+export interface TransferFeeTerm {
+  basisPoints: number;
+  maximumFee: string; // Raw token units
+  epoch: number; // First epoch the fee applies to
+}
+
+export interface PendingTransferFee extends TransferFeeTerm {
+  epochsRemaining: number;
+  estimatedEffectiveAt: string; // ISO timestamp (estimate from the slot time)
+}
+
+export interface TransferFeeSchedule {
+  mint: string;
+  decimals: number;
+  currentEpoch: number;
+  effective: TransferFeeTerm; // Fee charged on transfers now
+  pending: PendingTransferFee | null; // Scheduled fee not yet in force
+  olderTransferFee: TransferFeeTerm; // As stored on the mint
+  newerTransferFee: TransferFeeTerm; // As stored on the mint
+  transferFeeConfigAuthority: string | null;
+  withdrawWithheldAuthority: string | null;
+  withheldInMint: string;
+  fetchedAt: string;
+}
+
+export interface TransferFeeChange {
+  basisPoints: number;
+  maximumFee: bigint; // Raw token units
+}
+
+export interface TransferFeeChangePreview {
+  schedule: TransferFeeSchedule;
+  proposed: PendingTransferFee; // The fee as it would be scheduled
+  replacesPending: boolean; // A pending change would be overwritten
+}
+
+export interface TransferFeeChangeResult {
+  preview: TransferFeeChangePreview;
+  signature: string | null; // null on a dry run
+  simulation: { unitsConsumed: number | null; logs: string[] } | null;
+}
+
+// Schedules by mint address (mints are shared across projects)
+const scheduleCache = new Map<string, { schedule: TransferFeeSchedule; timestamp: number }>();
+
+/**
+ * Cached schedule of a mint, if still fresh
+ */
+function getCachedSchedule(mint: PublicKey): TransferFeeSchedule | null {
+  const cached = scheduleCache.get(mint.toBase58());
+  return cached && Date.now() - cached.timestamp < SCHEDULE_CACHE_TTL ? cached.schedule : null;
+}
+
+/**
+ * Fetch a Token-2022 mint and its transfer fee config
+ * @throws Error if the account is not a Token-2022 mint with the TransferFeeConfig extension
+ */
+export async function fetchTransferFeeMint(mint: PublicKey): Promise<{ mint: Mint; transferFeeConfig: TransferFeeConfig }> {
+  const account = await connection.getAccountInfo(mint, 'confirmed');
+  if (!account) {
+    throw new Error(`Mint account not found: ${mint.toBase58()}`);
+  }
+  if (!account.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`Account is not a Token-2022 mint. Owner: ${account.owner.toBase58()}`);
+  }
+  const parsed = unpackMint(mint, account, TOKEN_2022_PROGRAM_ID);
+  const transferFeeConfig = getTransferFeeConfig(parsed);
+  if (!transferFeeConfig) {
+    throw new Error('Mint does not have the TransferFeeConfig extension');
+  }
+  return { mint: parsed, transferFeeConfig };
+}
+
+function toTerm(fee: TransferFee): TransferFeeTerm {
+  return {
+    basisPoints: fee.transferFeeBasisPoints,
+    maximumFee: fee.maximumFee.toString(),
+    epoch: Number(fee.epoch),
+  };
+}
+
+/**
+ * Estimate when an epoch starts from the current position in the epoch
+ */
+function estimateEpochStart(
+  epoch: number,
+  epochInfo: { epoch: number; slotIndex: number; slotsInEpoch: number }
+): string {
+  const slots = (epoch - epochInfo.epoch) * epochInfo.slotsInEpoch - epochInfo.slotIndex;
+  return new Date(Date.now() + Math.max(slots, 0) * ESTIMATED_SLOT_MS).toISOString();
+}
+
+/**
+ * Get the transfer fee schedule of a mint for the current cluster epoch
+ * Cached for a minute; pass refresh to read the chain again.
+ * @param mint - Mint address (default: the active project's token mint)
+ */
+export async function getTransferFeeSchedule(
+  mint: PublicKey = getTokenMint(),
+  options: { refresh?: boolean } = {}
+): Promise<TransferFeeSchedule> {
+  const cached = options.refresh ? null : getCachedSchedule(mint);
+  if (cached) {
+    return cached;
+  }
+
+  const [{ mint: parsed, transferFeeConfig }, epochInfo] = await Promise.all([
+    fetchTransferFeeMint(mint),
+    connection.getEpochInfo('confirmed'),
+  ]);
+  const older = toTerm(transferFeeConfig.olderTransferFee);
+  const newer = toTerm(transferFeeConfig.newerTransferFee);
+  const newerInForce = epochInfo.epoch >= newer.epoch;
+
+  const schedule: TransferFeeSchedule = {
+    mint: mint.toBase58(),
+    decimals: parsed.decimals,
+    currentEpoch: epochInfo.epoch,
+    effective: newerInForce ? newer : older,
+    pending: newerInForce
+      ? null
+      : {
+          ...newer,
+          epochsRemaining: newer.epoch - epochInfo.epoch,
+          estimatedEffectiveAt: estimateEpochStart(newer.epoch, epochInfo),
+        },
+    olderTransferFee: older,
+    newerTransferFee: newer,
+    transferFeeConfigAuthority: transferFeeConfig.transferFeeConfigAuthority?.toBase58() ?? null,
+    withdrawWithheldAuthority: transferFeeConfig.withdrawWithheldAuthority?.toBase58() ?? null,
+    withheldInMint: transferFeeConfig.withheldAmount.toString(),
+    fetchedAt: new Date().toISOString(),
+  };
+
+  scheduleCache.set(schedule.mint, { schedule, timestamp: Date.now() });
+  return schedule;
+}
+
+/**
+ * Get the transfer fee in force on a mint
+ * @returns null if the mint is not a Token-2022 mint with a transfer fee (or cannot be read)
+ */
+export async function getEffectiveTransferFee(
+  mint: PublicKey = getTokenMint()
+): Promise<{ basisPoints: number; maximumFee: bigint } | null> {
+  try {
+    if (!getCachedSchedule(mint)) {
+      const account = await connection.getAccountInfo(mint, 'confirmed');
+      if (
+        !account ||
+        !account.owner.equals(TOKEN_2022_PROGRAM_ID) ||
+        !getTransferFeeConfig(unpackMint(mint, account, TOKEN_2022_PROGRAM_ID))
+      ) {
+        return null; // Not a Token-2022 mint with a transfer fee
+      }
+    }
+
+    const { effective } = await getTransferFeeSchedule(mint);
+    return { basisPoints: effective.basisPoints, maximumFee: BigInt(effective.maximumFee) };
+  } catch (error) {
+    logger.warn('Failed to get transfer fee config', {
+      mint: mint.toBase58(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Clear the cached fee schedules
+ */
+export function clearTransferFeeCache(): void {
+  scheduleCache.clear();
+}
+
+/**
+ * Show what scheduling a fee change now would do, without sending anything
+ * @throws Error if the change is invalid or the fee can no longer change
+ */
+export async function previewTransferFeeChange(
+  change: TransferFeeChange,
+  mint: PublicKey = getTokenMint()
+): Promise<TransferFeeChangePreview> {
+  if (!Number.isInteger(change.basisPoints) || change.basisPoints < 0 || change.basisPoints > MAX_TRANSFER_FEE_BPS) {
+    throw new Error(`basisPoints must be an integer between 0 and ${MAX_TRANSFER_FEE_BPS}`);
+  }
+  if (change.maximumFee < 0n) {
+    throw new Error('maximumFee must not be negative');
+  }
+
+  const schedule = await getTransferFeeSchedule(mint, { refresh: true });
+  if (!schedule.transferFeeConfigAuthority) {
+    throw new Error('The transfer fee config authority is revoked - the fee can no longer change');
+  }
+
+  const epochInfo = await connection.getEpochInfo('confirmed');
+  const effectiveEpoch = epochInfo.epoch + TRANSFER_FEE_ACTIVATION_EPOCHS;
+
+  return {
+    schedule,
+    proposed: {
+      basisPoints: change.basisPoints,
+      maximumFee: change.maximumFee.toString(),
+      epoch: effectiveEpoch,
+      epochsRemaining: TRANSFER_FEE_ACTIVATION_EPOCHS,
+      estimatedEffectiveAt: estimateEpochStart(effectiveEpoch, epochInfo),
+    },
+    replacesPending: schedule.pending !== null,
+  };
+}
+
+/**
+ * Schedule a new transfer fee (in force two epochs after the current one)
+ * @param authority - The mint's transfer fee config authority
+ * @param options.dryRun - Sign and simulate the transaction without sending it
+ * @throws Error if the authority does not match or the transaction fails
+ */
+export async function scheduleTransferFee(
+  change: TransferFeeChange,
+  authority: Keypair,
+  options: { mint?: PublicKey; dryRun?: boolean } = {}
+): Promise<TransferFeeChangeResult> {
+  const mint = options.mint ?? getTokenMint();
+  const preview = await previewTransferFeeChange(change, mint);
+  const configAuthority = preview.schedule.transferFeeConfigAuthority;
+  if (configAuthority !== authority.publicKey.toBase58()) {
+    throw new Error(`Transfer fee config authority is ${configAuthority}, not the signer ${authority.publicKey.toBase58()}`);
+  }
+
+  const signed = await signInstructions(
+    [createSetTransferFeeInstruction(mint, authority.publicKey, [], change.basisPoints, change.maximumFee, TOKEN_2022_PROGRAM_ID)],
+    [authority]
+  );
+
+  if (options.dryRun) {
+    return { preview, signature: null, simulation: await simulateSignedTransaction(signed) };
+  }
+
+  const signature = await sendSignedTransaction(signed);
+  scheduleCache.delete(mint.toBase58());
+
+  logger.info('Transfer fee change scheduled', {
+    mint: mint.toBase58(),
+    basisPoints: change.basisPoints,
+    maximumFee: change.maximumFee.toString(),
+    effectiveFromEpoch: preview.proposed.epoch,
+    replacedPending: preview.replacesPending,
+    signature,
+  });
+
+  return { preview, signature, simulation: null };
+}
@@ -1,6 +1,5 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { logger } from '../utils/logger';
+import { readDocument, writeDocument, STORAGE_KEYS } from '../storage';
 
 /**
  * Data structure for unpaid rewards storage
@@ -11,7 +10,28 @@ interface UnpaidRewardsState {
   unpaidRewards: Record<string, number>; // walletAddress -> accumulatedAmount
 }
 
-const STORAGE_FILE_PATH = path.join(process.cwd(), 'unpaid-rewards.json');
+/**
+ * Narrow a stored value to a JSON object
+ * @returns null if it is anything else
+ */
+function asObject(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/**
+ * Narrow a stored wallet -> amount map, dropping entries that are not amounts
+ */
+function asRewardAmounts(rewards: Record<string, unknown>): Record<string, number> {
+  const amounts: Record<string, number> = {};
+  for (const [wallet, amount] of Object.entries(rewards)) {
+    if (typeof amount === 'number' && Number.isFinite(amount)) {
+      amounts[wallet] = amount;
+    } else {
+      logger.warn('Dropping malformed unpaid reward', { wallet, key: STORAGE_KEYS.UNPAID_REWARDS });
+    }
+  }
+  return amounts;
+}
 
 /**
  * Load unpaid rewards state from persistent storage
@@ -19,33 +39,31 @@ const STORAGE_FILE_PATH = path.join(process.cwd(), 'unpaid-rewards.json');
  */
 function loadState(): UnpaidRewardsState {
   try {
-    if (fs.existsSync(STORAGE_FILE_PATH)) {
-      const data = fs.readFileSync(STORAGE_FILE_PATH, 'utf-8');
-      const parsed = JSON.parse(data);
-      
-      // Validate structure
-      if (typeof parsed === 'object' && parsed !== null) {
-        // Check if it has the new format with unpaidRewards property
-        if ('unpaidRewards' in parsed && typeof parsed.unpaidRewards === 'object' && parsed.unpaidRewards !== null) {
-          return {
-            unpaidRewards: parsed.unpaidRewards,
-          };
-        }
-        
-        // Legacy format: if file contains direct object mapping (no unpaidRewards property)
-        // This should not happen for new files, but handle it for migration safety
-        logger.warn('Detected legacy unpaid rewards format, migrating', {
-          file: STORAGE_FILE_PATH,
-        });
+    const parsed = asObject(readDocument<unknown>(STORAGE_KEYS.UNPAID_REWARDS));
+    
+    // Validate structure
+    if (parsed) {
+      // Check if it has the new format with unpaidRewards property
+      const unpaidRewards = asObject(parsed.unpaidRewards);
+      if (unpaidRewards) {
         return {
-          unpaidRewards: parsed,
+          unpaidRewards: asRewardAmounts(unpaidRewards),
         };
       }
+      
+      // Legacy format: direct object mapping (no unpaidRewards property)
+      // Can still arrive via the legacy JSON file import
+      logger.warn('Detected legacy unpaid rewards format, migrating', {
+        key: STORAGE_KEYS.UNPAID_REWARDS,
+      });
+      return {
+        unpaidRewards: asRewardAmounts(parsed),
+      };
     }
   } catch (error) {
     logger.warn('Failed to load unpaid rewards state, using defaults', {
       error: error instanceof Error ? error.message : String(error),
-      file: STORAGE_FILE_PATH,
+      key: STORAGE_KEYS.UNPAID_REWARDS,
     });
   }
   
@@ -61,27 +79,17 @@ function loadState(): UnpaidRewardsState {
  */
 function saveState(state: UnpaidRewardsState): void {
   try {
-    // Ensure directory exists
-    const dir = path.dirname(STORAGE_FILE_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    
-    // Write to temporary file first, then rename (atomic operation)
-    const tempPath = `${STORAGE_FILE_PATH}.tmp`;
-    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf-8');
-    
-    // Rename temp file to actual file (atomic on most filesystems)
-    fs.renameSync(tempPath, STORAGE_FILE_PATH);
+    // Storage backend writes atomically
+    writeDocument<UnpaidRewardsState>(STORAGE_KEYS.UNPAID_REWARDS, state);
     
     logger.debug('Unpaid rewards state saved', {
-      file: STORAGE_FILE_PATH,
+      key: STORAGE_KEYS.UNPAID_REWARDS,
       walletsCount: Object.keys(state.unpaidRewards).length,
     });
   } catch (error) {
     logger.error('Failed to save unpaid rewards state', {
       error: error instanceof Error ? error.message : String(error),
-      file: STORAGE_FILE_PATH,
+      key: STORAGE_KEYS.UNPAID_REWARDS,
     });
     throw error;
   }
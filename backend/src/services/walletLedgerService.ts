@@ -0,0 +1,342 @@
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+
+/**
+ * Wallet Ledger Service
+ *
+ * Per-wallet history behind the reward statement (GET /dashboard/wallets/:pubkey):
+ *
+ * - balances: token balance seen by each eligibility scan, recorded when it changes
+ * - eligibility: eligible / excluded / blacklisted, with the reason, recorded when it changes
+ * - payouts: every holder transfer of a cycle (paid or failed) and every queued
+ *   payout paid on retry, with its epoch, cycle and signature
+ * - totals: lifetime paid amount and counts (kept when old records are trimmed)
+ *
+ * Cycle payouts are recorded from the cycle journal when it closes, so payouts of
+ * resumed cycles are recorded once, with their final status.
+ */
+
+export type WalletEligibilityStatus = 'eligible' | 'excluded' | 'blacklisted';
+
+export type WalletEligibilityReason =
+  | 'MEETS_MIN_HOLDING'
+  | 'BELOW_MIN_HOLDING'
+  | 'BLACKLISTED'
+  | 'NOT_HOLDING'; // No longer returned by the holder scan
+
+export interface WalletBalancePoint {
+  at: number;
+  balance: string; // Raw token units (as string for BigInt)
+}
+
+export interface WalletEligibilityChange {
+  at: number;
+  status: WalletEligibilityStatus;
+  reason: WalletEligibilityReason;
+  holdingSOL: number | null; // Value of the largest token account at the scan
+  minHoldingSOL: number | null;
+}
+
+export interface WalletPayoutRecord {
+  id: string; // Unique per wallet (cycle journal, or retry signature and source cycle)
+  source: 'cycle' | 'retry';
+  epoch: string | null;
+  cycleNumber: number | null;
+  journalId: string | null;
+  amountLamports: string;
+  status: 'paid' | 'failed';
+  signature: string | null;
+  error: string | null;
+  at: number;
+}
+
+export interface WalletLedgerTotals {
+  paidLamports: string;
+  paidCount: number;
+  failedCount: number;
+  firstPaidAt: number | null;
+  lastPaidAt: number | null;
+}
+
+export interface WalletLedgerEntry {
+  balances: WalletBalancePoint[]; // Oldest first
+  eligibility: WalletEligibilityChange[]; // Oldest first
+  payouts: WalletPayoutRecord[]; // Oldest first
+  totals: WalletLedgerTotals;
+}
+
+/**
+ * Holder state of one wallet from an eligibility scan
+ */
+export interface WalletScanResult {
+  owner: string;
+  balance: bigint; // Summed over the wallet's token accounts
+  status: WalletEligibilityStatus;
+  reason: WalletEligibilityReason;
+  holdingSOL: number | null;
+}
+
+interface WalletLedgerState {
+  wallets: Record<string, WalletLedgerEntry>;
+  tokenDecimals: number | null; // Decimals of the balances, from the last scan
+}
+
+const MAX_BALANCE_POINTS = 500;
+const MAX_ELIGIBILITY_CHANGES = 100;
+const MAX_PAYOUT_RECORDS = 1000;
+
+/**
+ * Load ledger from storage
+ */
+function loadState(): WalletLedgerState {
+  try {
+    const state = readDocument<WalletLedgerState>(STORAGE_KEYS.WALLET_LEDGER);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load wallet ledger, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { wallets: {}, tokenDecimals: null };
+}
+
+function createEntry(): WalletLedgerEntry {
+  return {
+    balances: [],
+    eligibility: [],
+    payouts: [],
+    totals: { paidLamports: '0', paidCount: 0, failedCount: 0, firstPaidAt: null, lastPaidAt: null },
+  };
+}
+
+/**
+ * Add payout records to a wallet, skipping ids it already has
+ * @returns Number of records added
+ */
+function addPayoutRecords(state: WalletLedgerState, pubkey: string, records: WalletPayoutRecord[]): number {
+  const entry = state.wallets[pubkey] ?? createEntry();
+  state.wallets[pubkey] = entry;
+
+  const known = new Set(entry.payouts.map((payout) => payout.id));
+  let added = 0;
+  for (const record of records) {
+    if (known.has(record.id)) {
+      continue;
+    }
+    known.add(record.id);
+    entry.payouts.push(record);
+    added++;
+
+    if (record.status === 'paid') {
+      entry.totals.paidLamports = (BigInt(entry.totals.paidLamports) + BigInt(record.amountLamports)).toString();
+      entry.totals.paidCount++;
+      entry.totals.firstPaidAt = entry.totals.firstPaidAt ?? record.at;
+      entry.totals.lastPaidAt = Math.max(entry.totals.lastPaidAt ?? 0, record.at);
+    } else {
+      entry.totals.failedCount++;
+    }
+  }
+
+  entry.payouts = entry.payouts.slice(-MAX_PAYOUT_RECORDS);
+  return added;
+}
+
+/**
+ * Record the balances and eligibility found by an eligibility scan
+ * Wallets that held before but are missing from the scan are recorded with a
+ * zero balance.
+ */
+export function recordWalletScan(results: WalletScanResult[], minHoldingSOL: number, decimals: number | null): void {
+  try {
+    const now = Date.now();
+    const scanned = new Map(results.map((result) => [result.owner, result]));
+
+    updateDocument<WalletLedgerState>(STORAGE_KEYS.WALLET_LEDGER, (current) => {
+      const next = current ?? loadState();
+      if (decimals !== null) {
+        next.tokenDecimals = decimals;
+      }
+
+      for (const result of results) {
+        if (!next.wallets[result.owner]) {
+          next.wallets[result.owner] = createEntry();
+        }
+      }
+
+      for (const [owner, entry] of Object.entries(next.wallets)) {
+        const result = scanned.get(owner);
+        const lastBalance = entry.balances[entry.balances.length - 1];
+        if (!result && (!lastBalance || lastBalance.balance === '0')) {
+          continue; // Not holding, already recorded
+        }
+
+        const balance = result ? result.balance.toString() : '0';
+        if (lastBalance?.balance !== balance) {
+          entry.balances = [...entry.balances, { at: now, balance }].slice(-MAX_BALANCE_POINTS);
+        }
+
+        const status = result ? result.status : 'excluded';
+        const reason = result ? result.reason : 'NOT_HOLDING';
+        const lastChange = entry.eligibility[entry.eligibility.length - 1];
+        if (lastChange?.status !== status || lastChange.reason !== reason) {
+          entry.eligibility = [...entry.eligibility, {
+            at: now,
+            status,
+            reason,
+            holdingSOL: result ? result.holdingSOL : 0,
+            minHoldingSOL,
+          }].slice(-MAX_ELIGIBILITY_CHANGES);
+        }
+      }
+
+      return next;
+    });
+  } catch (error) {
+    logger.error('Failed to record wallet scan in ledger', {
+      wallets: results.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Record the holder payouts of a finished cycle (from its journal)
+ * Payouts never sent (still pending) are left out; they are owed through the payout queue.
+ */
+export function recordCyclePayouts(
+  cycle: { journalId: string; epoch: string | null; cycleNumber: number | null },
+  payouts: Array<{ pubkey: string; amountLamports: string; status: string; signature: string | null; error?: string }>
+): void {
+  const settled = payouts.filter((payout) => payout.status === 'CONFIRMED' || payout.status === 'FAILED');
+  if (settled.length === 0) {
+    return;
+  }
+
+  try {
+    const now = Date.now();
+    let added = 0;
+
+    updateDocument<WalletLedgerState>(STORAGE_KEYS.WALLET_LEDGER, (current) => {
+      const next = current ?? loadState();
+      added = 0;
+      for (const payout of settled) {
+        const paid = payout.status === 'CONFIRMED';
+        added += addPayoutRecords(next, payout.pubkey, [{
+          id: `cycle:${cycle.journalId}`,
+          source: 'cycle',
+          epoch: cycle.epoch,
+          cycleNumber: cycle.cycleNumber,
+          journalId: cycle.journalId,
+          amountLamports: payout.amountLamports,
+          status: paid ? 'paid' : 'failed',
+          signature: payout.signature,
+          error: paid ? null : payout.error ?? 'Transfer failed',
+          at: now,
+        }]);
+      }
+      return next;
+    });
+
+    logger.debug('Cycle payouts recorded in wallet ledger', {
+      journalId: cycle.journalId,
+      added,
+    });
+  } catch (error) {
+    logger.error('Failed to record cycle payouts in wallet ledger', {
+      journalId: cycle.journalId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Record a queued payout paid on retry
+ * One record per cycle the owed amount comes from, all with the retry signature.
+ */
+export function recordRetriedPayout(
+  pubkey: string,
+  signature: string,
+  sources: Array<{ journalId: string; epoch: string | null; cycleNumber: number | null; amountLamports: string }>,
+  paidAt: number
+): void {
+  try {
+    updateDocument<WalletLedgerState>(STORAGE_KEYS.WALLET_LEDGER, (current) => {
+      const next = current ?? loadState();
+      addPayoutRecords(next, pubkey, sources.map((source) => ({
+        id: `retry:${signature}:${source.journalId}`,
+        source: 'retry',
+        epoch: source.epoch,
+        cycleNumber: source.cycleNumber,
+        journalId: source.journalId,
+        amountLamports: source.amountLamports,
+        status: 'paid',
+        signature,
+        error: null,
+        at: paidAt,
+      })));
+      return next;
+    });
+  } catch (error) {
+    logger.error('Failed to record retried payout in wallet ledger', {
+      wallet: pubkey,
+      signature,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Get the ledger of a wallet
+ * @returns The wallet's history and the decimals of its balances, or null if it was never seen
+ */
+export function getWalletLedger(pubkey: string): { ledger: WalletLedgerEntry; tokenDecimals: number | null } | null {
+  const state = loadState();
+  const ledger = state.wallets[pubkey];
+  return ledger ? { ledger, tokenDecimals: state.tokenDecimals } : null;
+}
+
+/**
+ * Get the payout records of an epoch across all wallets
+ * paidWithSignatureLamports is the wallet's total paid by the record's signature,
+ * which for a retried payout covers owed amounts from other cycles too.
+ */
+export function getEpochPayoutRecords(
+  epoch: string
+): Array<{ wallet: string; record: WalletPayoutRecord; paidWithSignatureLamports: string | null }> {
+  const state = loadState();
+  const results: Array<{ wallet: string; record: WalletPayoutRecord; paidWithSignatureLamports: string | null }> = [];
+
+  for (const [wallet, entry] of Object.entries(state.wallets)) {
+    for (const record of entry.payouts) {
+      if (record.epoch !== epoch) {
+        continue;
+      }
+      const paidWithSignature = record.signature
+        ? entry.payouts
+          .filter((payout) => payout.signature === record.signature && payout.status === 'paid')
+          .reduce((sum, payout) => sum + BigInt(payout.amountLamports), 0n)
+        : null;
+      results.push({ wallet, record, paidWithSignatureLamports: paidWithSignature?.toString() ?? null });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get the signatures of all payout records (any wallet, any epoch)
+ */
+export function getPayoutSignatures(): Set<string> {
+  const signatures = new Set<string>();
+  for (const entry of Object.values(loadState().wallets)) {
+    for (const record of entry.payouts) {
+      if (record.signature) {
+        signatures.add(record.signature);
+      }
+    }
+  }
+  return signatures;
+}
@@ -0,0 +1,571 @@
+import { createHash, createHmac, randomBytes, randomUUID } from 'crypto';
+import { WEBHOOK_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { readDocument, updateDocument, STORAGE_KEYS } from '../storage';
+import { publishLiveEvent } from './liveFeedService';
+import { getActiveProject } from '../utils/projectContext';
+
+/**
+ * Webhook Service
+ *
+ * Outbound webhooks for reward pipeline events, so integrators (the Telegram
+ * bot among them) can subscribe instead of polling the dashboard API:
+ *
+ * - cycle.started: a cycle began processing
+ * - tax.harvested: withheld tax was withdrawn to the reward wallet
+ * - swap.completed: the harvested TEK was swapped to SOL
+ * - distribution.completed: the SOL was split and paid out
+ * - cycle.rolled_over: tax below the minimum threshold, carried forward
+ * - cycle.failed: the cycle ended FAILED or PARTIAL
+ * - holder.payout: a holder who linked Telegram was paid (for the bot's DMs)
+ *
+ * Every event is also pushed to the dashboard live feed (liveFeedService),
+ * except the private holder events: they carry Telegram chat ids, so they are
+ * only delivered to subscriptions that list them explicitly.
+ *
+ * Event ids are derived from what the event describes (e.g. the cycle journal
+ * of a distribution), so an event emitted twice - a resumed cycle repeating a
+ * step - is delivered once, and receivers can use the id as idempotency key.
+ *
+ * Each delivery is a JSON POST signed with the subscription's secret:
+ *   X-TEK-Signature: sha256=<hex HMAC-SHA256 of "<X-TEK-Timestamp>.<raw body>">
+ * Non-2xx responses and timeouts are retried with exponential backoff up to
+ * WEBHOOK_CONFIG.MAX_ATTEMPTS. Subscriptions, pending deliveries and the
+ * delivery log are persisted, so retries survive restarts.
+ */
+
+export type WebhookEventType =
+  | 'cycle.started'
+  | 'tax.harvested'
+  | 'swap.completed'
+  | 'distribution.completed'
+  | 'cycle.rolled_over'
+  | 'cycle.failed'
+  | 'holder.payout';
+
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  'cycle.started',
+  'tax.harvested',
+  'swap.completed',
+  'distribution.completed',
+  'cycle.rolled_over',
+  'cycle.failed',
+  'holder.payout',
+];
+
+// Not part of the default subscription and never published to the live feed
+export const PRIVATE_WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = ['holder.payout'];
+
+export type PublicWebhookEventType = Exclude<WebhookEventType, 'holder.payout'>;
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string; // HMAC key, only returned when the subscription is created
+  events: WebhookEventType[]; // Event types delivered to this URL
+  description: string | null;
+  createdAt: number;
+  createdBy: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  attemptedAt: number;
+  statusCode: number | null; // null when no response was received
+  durationMs: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  subscriptionId: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  payload: string; // Serialized event - every attempt sends the same body
+  createdAt: number;
+  queuedAt: number; // When the delivery was (re)queued - attempts since then count towards MAX_ATTEMPTS
+  nextAttemptAt: number | null; // null once delivered or failed
+  deliveredAt: number | null;
+  lastError: string | null;
+  attempts: WebhookAttempt[]; // Oldest first
+}
+
+interface WebhookState {
+  subscriptions: WebhookSubscription[];
+  deliveries: WebhookDelivery[]; // Oldest first
+  recentEventIds: string[]; // Emitted event ids, oldest first (deduplication)
+}
+
+const MAX_FINISHED_DELIVERIES_KEPT = 1000;
+const MAX_ATTEMPTS_KEPT = 20;
+const MAX_RECENT_EVENT_IDS = 2000;
+const DISPATCH_INTERVAL_MS = 15 * 1000;
+
+let dispatchInterval: NodeJS.Timeout | null = null;
+let isDispatching = false;
+let dispatchRequested = false;
+
+/**
+ * Load webhook state from storage
+ */
+function loadState(): WebhookState {
+  try {
+    const state = readDocument<WebhookState>(STORAGE_KEYS.WEBHOOKS);
+    if (state) {
+      return state;
+    }
+  } catch (error) {
+    logger.warn('Failed to load webhook state, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { subscriptions: [], deliveries: [], recentEventIds: [] };
+}
+
+/**
+ * Apply a change to the webhook state and persist it
+ */
+function updateState(mutate: (state: WebhookState) => void): WebhookState {
+  return updateDocument<WebhookState>(STORAGE_KEYS.WEBHOOKS, (current) => {
+    const next = current ?? loadState();
+    mutate(next);
+
+    // Drop the oldest finished deliveries; pending ones are always kept
+    const finished = next.deliveries.filter((delivery) => delivery.status !== 'pending');
+    if (finished.length > MAX_FINISHED_DELIVERIES_KEPT) {
+      const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_DELIVERIES_KEPT).map((d) => d.id));
+      next.deliveries = next.deliveries.filter((delivery) => !dropped.has(delivery.id));
+    }
+    return next;
+  });
+}
+
+/**
+ * Stable event id for the thing an event describes
+ */
+function getEventId(type: WebhookEventType, idempotencyKey: string): string {
+  return createHash('sha256').update(`${type}:${idempotencyKey}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * HMAC-SHA256 signature of a delivery (hex)
+ */
+function signPayload(secret: string, timestamp: number, payload: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * Delay before the next attempt after `failedAttempts` failures
+ */
+function getRetryDelay(failedAttempts: number): number {
+  return Math.min(
+    WEBHOOK_CONFIG.RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(failedAttempts - 1, 0)),
+    WEBHOOK_CONFIG.RETRY_MAX_DELAY_MS
+  );
+}
+
+/**
+ * Validate a subscription URL
+ * @throws Error if the URL is not an absolute http(s) URL
+ */
+function validateUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid webhook URL: ${url}`);
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+}
+
+/**
+ * Subscription without its secret (for listings)
+ */
+function redactSubscription(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> & { secretHint: string } {
+  const { secret, ...rest } = subscription;
+  return { ...rest, secretHint: `...${secret.slice(-4)}` };
+}
+
+/**
+ * Send one delivery attempt
+ */
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookAttempt> {
+  const attemptedAt = Date.now();
+  const timestamp = Math.floor(attemptedAt / 1000);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'tek-backend-webhooks',
+        'X-TEK-Event': delivery.eventType,
+        'X-TEK-Event-Id': delivery.eventId,
+        'X-TEK-Delivery': delivery.id,
+        'X-TEK-Timestamp': String(timestamp),
+        'X-TEK-Signature': `sha256=${signPayload(subscription.secret, timestamp, delivery.payload)}`,
+        'Idempotency-Key': delivery.eventId,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(WEBHOOK_CONFIG.TIMEOUT_MS),
+    });
+
+    return {
+      attemptedAt,
+      statusCode: response.status,
+      durationMs: Date.now() - attemptedAt,
+      ...(response.ok ? {} : { error: `Receiver responded ${response.status}` }),
+    };
+  } catch (error) {
+    return {
+      attemptedAt,
+      statusCode: null,
+      durationMs: Date.now() - attemptedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Record the outcome of an attempt and schedule the retry
+ */
+function recordAttempt(deliveryId: string, attempt: WebhookAttempt): void {
+  updateState((state) => {
+    const delivery = state.deliveries.find((entry) => entry.id === deliveryId);
+    if (!delivery) {
+      return;
+    }
+
+    delivery.attempts.push(attempt);
+    if (delivery.attempts.length > MAX_ATTEMPTS_KEPT) {
+      delivery.attempts.splice(0, delivery.attempts.length - MAX_ATTEMPTS_KEPT);
+    }
+
+    if (!attempt.error) {
+      delivery.status = 'delivered';
+      delivery.deliveredAt = attempt.attemptedAt;
+      delivery.nextAttemptAt = null;
+      delivery.lastError = null;
+      return;
+    }
+
+    const failedAttempts = delivery.attempts.filter((entry) => entry.attemptedAt >= delivery.queuedAt && entry.error).length;
+    delivery.lastError = attempt.error;
+    if (failedAttempts >= WEBHOOK_CONFIG.MAX_ATTEMPTS) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = null;
+    } else {
+      delivery.nextAttemptAt = Date.now() + getRetryDelay(failedAttempts);
+    }
+  });
+}
+
+/**
+ * Send every pending delivery that is due, one at a time
+ */
+async function processDueDeliveries(): Promise<void> {
+  if (isDispatching) {
+    dispatchRequested = true;
+    return;
+  }
+
+  isDispatching = true;
+  try {
+    do {
+      dispatchRequested = false;
+      const now = Date.now();
+      const state = loadState();
+      const due = state.deliveries.filter(
+        (delivery) => delivery.status === 'pending' && (delivery.nextAttemptAt ?? 0) <= now
+      );
+
+      for (const delivery of due) {
+        const subscription = state.subscriptions.find((entry) => entry.id === delivery.subscriptionId);
+        if (!subscription) {
+          recordAttempt(delivery.id, { attemptedAt: Date.now(), statusCode: null, durationMs: 0, error: 'Subscription deleted' });
+          continue;
+        }
+
+        const attempt = await attemptDelivery(delivery, subscription);
+        recordAttempt(delivery.id, attempt);
+
+        if (attempt.error) {
+          logger.warn('Webhook delivery failed', {
+            deliveryId: delivery.id,
+            eventType: delivery.eventType,
+            url: delivery.url,
+            attempt: delivery.attempts.length + 1,
+            error: attempt.error,
+          });
+        } else {
+          logger.debug('Webhook delivered', {
+            deliveryId: delivery.id,
+            eventType: delivery.eventType,
+            url: delivery.url,
+            durationMs: attempt.durationMs,
+          });
+        }
+      }
+    } while (dispatchRequested);
+  } finally {
+    isDispatching = false;
+  }
+}
+
+/**
+ * Deliver in the background - the reward pipeline never waits on a receiver
+ */
+function processInBackground(): void {
+  processDueDeliveries().catch((error) => {
+    logger.error('Error dispatching webhooks', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
+/**
+ * Emit an event to every subscription of its type
+ *
+ * Never throws - a webhook problem must not affect the cycle that emits it.
+ *
+ * @param idempotencyKey - Identifies what the event describes (e.g. a cycle
+ *                         journal id); emitting the same type and key again is a no-op
+ *
+ * Events carry the id of the project that emitted them; keys of additional
+ * projects are prefixed with the project id so their cycles never collide.
+ */
+export function emitWebhookEvent(type: WebhookEventType, idempotencyKey: string, data: Record<string, unknown>): void {
+  try {
+    const project = getActiveProject();
+    const eventId = getEventId(type, project.isDefault ? idempotencyKey : `${project.id}:${idempotencyKey}`);
+    const now = Date.now();
+    const payload = JSON.stringify({
+      id: eventId,
+      type,
+      project: project.id,
+      createdAt: new Date(now).toISOString(),
+      data,
+    });
+
+    let queued = 0;
+    let duplicate = false;
+    updateState((state) => {
+      if (state.recentEventIds.includes(eventId)) {
+        duplicate = true;
+        return;
+      }
+      state.recentEventIds.push(eventId);
+      if (state.recentEventIds.length > MAX_RECENT_EVENT_IDS) {
+        state.recentEventIds.splice(0, state.recentEventIds.length - MAX_RECENT_EVENT_IDS);
+      }
+
+      for (const subscription of state.subscriptions) {
+        if (!subscription.events.includes(type)) {
+          continue;
+        }
+        state.deliveries.push({
+          id: randomUUID(),
+          eventId,
+          eventType: type,
+          subscriptionId: subscription.id,
+          url: subscription.url,
+          status: 'pending',
+          payload,
+          createdAt: now,
+          queuedAt: now,
+          nextAttemptAt: now,
+          deliveredAt: null,
+          lastError: null,
+          attempts: [],
+        });
+        queued++;
+      }
+    });
+
+    if (duplicate) {
+      logger.debug('Webhook event already emitted, skipping', { type, eventId, idempotencyKey });
+      return;
+    }
+
+    logger.debug('Webhook event emitted', { type, eventId, deliveries: queued });
+    if (!PRIVATE_WEBHOOK_EVENT_TYPES.includes(type)) {
+      publishLiveEvent(type as PublicWebhookEventType, { eventId, ...data });
+    }
+    if (queued > 0) {
+      processInBackground();
+    }
+  } catch (error) {
+    logger.error('Failed to emit webhook event', {
+      type,
+      idempotencyKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Register a webhook URL
+ * @param input.events - Event types to deliver (default: all except the private holder events)
+ * @returns The subscription including its signing secret (only returned here)
+ * @throws Error if the URL or an event type is invalid
+ */
+export function createWebhookSubscription(
+  input: { url: string; events?: string[]; description?: string | null },
+  createdBy: string
+): WebhookSubscription {
+  validateUrl(input.url);
+
+  const events = input.events && input.events.length > 0
+    ? input.events
+    : WEBHOOK_EVENT_TYPES.filter((type) => !PRIVATE_WEBHOOK_EVENT_TYPES.includes(type));
+  const unknown = events.filter((event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown event types: ${unknown.join(', ')} (valid: ${WEBHOOK_EVENT_TYPES.join(', ')})`);
+  }
+
+  const subscription: WebhookSubscription = {
+    id: randomUUID(),
+    url: input.url,
+    secret: randomBytes(32).toString('hex'),
+    events: Array.from(new Set(events)) as WebhookEventType[],
+    description: input.description || null,
+    createdAt: Date.now(),
+    createdBy,
+  };
+
+  updateState((state) => {
+    state.subscriptions.push(subscription);
+  });
+
+  logger.info('Webhook subscription created', {
+    id: subscription.id,
+    url: subscription.url,
+    events: subscription.events,
+    createdBy,
+  });
+
+  return subscription;
+}
+
+/**
+ * Remove a webhook subscription; its pending deliveries are marked failed
+ * @returns The removed subscription (without secret), or null if it does not exist
+ */
+export function deleteWebhookSubscription(id: string, deletedBy: string): ReturnType<typeof redactSubscription> | null {
+  let removed: WebhookSubscription | null = null;
+
+  updateState((state) => {
+    const index = state.subscriptions.findIndex((subscription) => subscription.id === id);
+    if (index === -1) {
+      return;
+    }
+    removed = state.subscriptions.splice(index, 1)[0];
+
+    for (const delivery of state.deliveries) {
+      if (delivery.subscriptionId === id && delivery.status === 'pending') {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = null;
+        delivery.lastError = 'Subscription deleted';
+      }
+    }
+  });
+
+  if (!removed) {
+    return null;
+  }
+
+  logger.info('Webhook subscription deleted', { id, deletedBy });
+  return redactSubscription(removed as WebhookSubscription);
+}
+
+/**
+ * Get all webhook subscriptions (secrets redacted)
+ */
+export function getWebhookSubscriptions(): Array<ReturnType<typeof redactSubscription>> {
+  return loadState().subscriptions.map(redactSubscription);
+}
+
+/**
+ * Get the delivery log, newest first (payloads omitted)
+ */
+export function getWebhookDeliveries(filters: {
+  subscriptionId?: string;
+  eventType?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+} = {}): { total: number; deliveries: Array<Omit<WebhookDelivery, 'payload'>> } {
+  const matching = loadState().deliveries
+    .filter((delivery) => !filters.subscriptionId || delivery.subscriptionId === filters.subscriptionId)
+    .filter((delivery) => !filters.eventType || delivery.eventType === filters.eventType)
+    .filter((delivery) => !filters.status || delivery.status === filters.status)
+    .reverse();
+
+  return {
+    total: matching.length,
+    deliveries: matching
+      .slice(0, filters.limit ?? 100)
+      .map(({ payload: _payload, ...delivery }) => delivery),
+  };
+}
+
+/**
+ * Queue a delivery again (same event id and payload)
+ * @returns The requeued delivery, or null if it does not exist
+ * @throws Error if its subscription was deleted
+ */
+export function redeliverWebhook(deliveryId: string): Omit<WebhookDelivery, 'payload'> | null {
+  let requeued: WebhookDelivery | null = null;
+
+  updateState((state) => {
+    const delivery = state.deliveries.find((entry) => entry.id === deliveryId);
+    if (!delivery) {
+      return;
+    }
+    if (!state.subscriptions.some((subscription) => subscription.id === delivery.subscriptionId)) {
+      throw new Error('The subscription of this delivery was deleted');
+    }
+
+    const now = Date.now();
+    delivery.status = 'pending';
+    delivery.queuedAt = now;
+    delivery.nextAttemptAt = now;
+    delivery.deliveredAt = null;
+    requeued = { ...delivery };
+  });
+
+  if (!requeued) {
+    return null;
+  }
+
+  processInBackground();
+  const { payload: _payload, ...delivery } = requeued as WebhookDelivery;
+  return delivery;
+}
+
+/**
+ * Start the background retry loop (also sends deliveries left pending by a restart)
+ */
+export function startWebhookDispatcher(): void {
+  if (dispatchInterval !== null) {
+    return;
+  }
+
+  processInBackground();
+  dispatchInterval = setInterval(processInBackground, DISPATCH_INTERVAL_MS);
+}
+
+/**
+ * Stop the background retry loop
+ */
+export function stopWebhookDispatcher(): void {
+  if (dispatchInterval !== null) {
+    clearInterval(dispatchInterval);
+    dispatchInterval = null;
+  }
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import {
+  STORAGE_KEYS,
+  type StorageBackend,
+  type StorageKey,
+  type StoredDocument,
+} from './types';
+
+const LOCK_STALE_MS = 30000; // Locks older than 30 seconds are left over from a crash
+const LOCK_RETRY_BASE_MS = 5; // First wait for a held lock, doubled on every retry
+const LOCK_MAX_RETRIES = 6; // 5 + 10 + ... + 160 = 315 ms of waiting at most
+
+const KNOWN_KEYS = new Set<string>(Object.values(STORAGE_KEYS));
+
+/**
+ * Block the calling thread (the storage API is synchronous)
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Whether the process that wrote a lock file is still running
+ * A holder that cannot be identified (lock being written) counts as running.
+ */
+function isLockHolderRunning(holder: string): boolean {
+  const pid = Number(holder);
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return true;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code !== 'ESRCH'; // EPERM: running as another user
+  }
+}
+
+/**
+ * File storage backend
+ *
+ * Stores each document as `<dir>/<key>.json`. Writes go to a temporary file
+ * which is fsynced and renamed over the target, so readers never see a
+ * partially written document. A lock file serializes writers across
+ * processes (e.g. the server and an operator script).
+ *
+ * The lock is only held for the duration of one write, so a writer that finds
+ * it held retries with backoff. The storage API is synchronous and waiting
+ * blocks the event loop (health checks, SSE, admin routes), so the wait is
+ * bounded (LOCK_MAX_RETRIES) and a write that still finds the lock held throws.
+ * A lock whose holder process is no longer running, or older than
+ * LOCK_STALE_MS, is left over from a crash and removed.
+ */
+export class FileStorageBackend implements StorageBackend {
+  readonly kind = 'file' as const;
+  readonly location: string;
+  private readonly lockPath: string;
+
+  constructor(dir: string) {
+    this.location = dir;
+    this.lockPath = path.join(dir, '.lock');
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private filePath(key: StorageKey): string {
+    return path.join(this.location, `${key}.json`);
+  }
+
+  read(key: StorageKey): StoredDocument | null {
+    const filePath = this.filePath(key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (typeof parsed !== 'object' || parsed === null || typeof parsed.schemaVersion !== 'number') {
+      throw new Error(`Storage document "${key}" is malformed (${filePath})`);
+    }
+    return parsed as StoredDocument;
+  }
+
+  write(key: StorageKey, document: StoredDocument): void {
+    this.withLock(() => this.writeUnlocked(key, document));
+  }
+
+  update(key: StorageKey, updater: (current: StoredDocument | null) => StoredDocument): StoredDocument {
+    return this.withLock(() => {
+      const next = updater(this.read(key));
+      this.writeUnlocked(key, next);
+      return next;
+    });
+  }
+
+  remove(key: StorageKey): void {
+    this.withLock(() => {
+      const filePath = this.filePath(key);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    });
+  }
+
+  keys(): StorageKey[] {
+    return fs
+      .readdirSync(this.location)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => name.slice(0, -'.json'.length))
+      .filter((name): name is StorageKey => KNOWN_KEYS.has(name));
+  }
+
+  close(): void {
+    // Nothing to release - files are opened per operation
+  }
+
+  /**
+   * Write a document via temp file + fsync + rename
+   */
+  private writeUnlocked(key: StorageKey, document: StoredDocument): void {
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(document, null, 2));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Run fn while holding the cross-process lock file
+   * @throws Error if another process still holds the lock after the last retry
+   */
+  private withLock<T>(fn: () => T): T {
+    let fd: number | null = null;
+    let retries = 0;
+
+    while (fd === null) {
+      try {
+        fd = fs.openSync(this.lockPath, 'wx');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+
+        let lockAge: number;
+        let holder: string;
+        try {
+          lockAge = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+          holder = fs.readFileSync(this.lockPath, 'utf-8') || 'unknown';
+        } catch {
+          // Lock disappeared between open and stat - just retry
+          continue;
+        }
+
+        // Break locks left behind by a crashed process
+        if (lockAge > LOCK_STALE_MS || !isLockHolderRunning(holder)) {
+          logger.warn('Removing stale storage lock', { lockPath: this.lockPath, lockAgeMs: lockAge, holder });
+          try {
+            fs.unlinkSync(this.lockPath);
+          } catch {
+            // Already removed by another process
+          }
+          continue;
+        }
+
+        if (retries >= LOCK_MAX_RETRIES) {
+          throw new Error(`Storage is locked by another process (pid ${holder}, ${this.lockPath}) - retry the write`);
+        }
+        sleepSync(LOCK_RETRY_BASE_MS * 2 ** retries);
+        retries++;
+      }
+    }
+
+    try {
+      fs.writeSync(fd, String(process.pid));
+      return fn();
+    } finally {
+      fs.closeSync(fd);
+      try {
+        fs.unlinkSync(this.lockPath);
+      } catch {
+        // Already removed (treated as stale by another process)
+      }
+    }
+  }
+}
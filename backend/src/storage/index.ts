@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { STORAGE_CONFIG } from '../config/constants';
+import { FileStorageBackend } from './fileBackend';
+import { SqliteStorageBackend } from './sqliteBackend';
+import { importLegacyJsonFiles } from './migrations';
+import { SCHEMA_VERSIONS, upgradeDocument } from './schema';
+import { SHARED_STORAGE_KEYS, type StorageBackend, type StorageBackendKind, type StorageKey } from './types';
+import { getActiveProject } from '../utils/projectContext';
+
+export { STORAGE_KEYS, SHARED_STORAGE_KEYS } from './types';
+export type { StorageBackend, StorageBackendKind, StorageKey, StoredDocument } from './types';
+
+const PERSISTENT_DIR = '/data';
+
+let backend: StorageBackend | null = null;
+const projectBackends = new Map<string, StorageBackend>(); // Additional projects, by project id
+
+/**
+ * Resolve the directory holding persistent state
+ * STORAGE_DIR wins; otherwise /data if it is writable, else the working directory.
+ */
+export function resolveStorageDir(): string {
+  if (STORAGE_CONFIG.DIR) {
+    return path.resolve(STORAGE_CONFIG.DIR);
+  }
+
+  try {
+    if (fs.existsSync(PERSISTENT_DIR)) {
+      fs.accessSync(PERSISTENT_DIR, fs.constants.W_OK);
+      return PERSISTENT_DIR;
+    }
+  } catch {
+    // /data exists but is not writable - fall back to local directory
+  }
+
+  return process.cwd();
+}
+
+/**
+ * Create the backend selected by STORAGE_BACKEND
+ */
+function createBackend(kind: string, dir: string): StorageBackend {
+  switch (kind) {
+    case 'file':
+      return new FileStorageBackend(path.join(dir, 'state'));
+    case 'sqlite':
+      return new SqliteStorageBackend(path.join(dir, STORAGE_CONFIG.SQLITE_FILE));
+    default:
+      throw new Error(`STORAGE_BACKEND must be either "file" or "sqlite" (got "${kind}")`);
+  }
+}
+
+/**
+ * Open the configured storage backend and import legacy JSON state files
+ * Called on startup so misconfiguration fails fast; getStorage() calls it
+ * lazily for scripts that use the services directly.
+ */
+export function initializeStorage(): StorageBackend {
+  if (backend) {
+    return backend;
+  }
+
+  const dir = resolveStorageDir();
+  const instance = createBackend(STORAGE_CONFIG.BACKEND, dir);
+
+  importLegacyJsonFiles(instance);
+
+  backend = instance;
+  logger.info('Storage initialized', {
+    backend: instance.kind,
+    location: instance.location,
+    documents: instance.keys(),
+  });
+
+  return backend;
+}
+
+/**
+ * Get the active storage backend
+ */
+export function getStorage(): StorageBackend {
+  return backend ?? initializeStorage();
+}
+
+/**
+ * Get the backend holding a document for the active project
+ * Shared documents and the default project's documents use the main backend;
+ * an additional project's documents live under <storage dir>/projects/<id>
+ * (same backend kind).
+ */
+function getDocumentStorage(key: StorageKey): StorageBackend {
+  const project = getActiveProject();
+  if (project.isDefault || SHARED_STORAGE_KEYS.has(key)) {
+    return getStorage();
+  }
+
+  let projectBackend = projectBackends.get(project.id);
+  if (!projectBackend) {
+    projectBackend = createBackend(STORAGE_CONFIG.BACKEND, path.join(resolveStorageDir(), 'projects', project.id));
+    projectBackends.set(project.id, projectBackend);
+    logger.info('Project storage initialized', {
+      project: project.id,
+      backend: projectBackend.kind,
+      location: projectBackend.location,
+    });
+  }
+  return projectBackend;
+}
+
+/**
+ * Close the storage backends (used on shutdown and by scripts)
+ */
+export function closeStorage(): void {
+  for (const projectBackend of projectBackends.values()) {
+    projectBackend.close();
+  }
+  projectBackends.clear();
+  if (backend) {
+    backend.close();
+    backend = null;
+  }
+}
+
+/**
+ * Read a document's data, upgraded to the current schema version
+ * @returns The document data, or null if the document does not exist
+ */
+export function readDocument<T>(key: StorageKey): T | null {
+  const document = getDocumentStorage(key).read(key);
+  return document ? upgradeDocument<T>(key, document) : null;
+}
+
+/**
+ * Replace a document's data
+ */
+export function writeDocument<T>(key: StorageKey, data: T): void {
+  getDocumentStorage(key).write(key, {
+    schemaVersion: SCHEMA_VERSIONS[key],
+    updatedAt: Date.now(),
+    data,
+  });
+}
+
+/**
+ * Atomically read-modify-write a document
+ * @param updater - Receives the current data (null if missing) and returns the new data
+ * @returns The data that was written
+ */
+export function updateDocument<T>(key: StorageKey, updater: (current: T | null) => T): T {
+  const document = getDocumentStorage(key).update(key, (current) => ({
+    schemaVersion: SCHEMA_VERSIONS[key],
+    updatedAt: Date.now(),
+    data: updater(current ? upgradeDocument<T>(key, current) : null),
+  }));
+  return document.data as T;
+}
+
+/**
+ * Describe the active storage backend (for health and status endpoints)
+ */
+export function getStorageInfo(): {
+  backend: StorageBackendKind;
+  location: string;
+  documents: StorageKey[];
+} {
+  const storage = getStorage();
+  return {
+    backend: storage.kind,
+    location: storage.location,
+    documents: storage.keys(),
+  };
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { SCHEMA_VERSIONS } from './schema';
+import { STORAGE_KEYS, type StorageBackend, type StorageKey } from './types';
+
+/**
+ * Storage metadata document
+ */
+export interface StorageMeta {
+  createdAt: number;
+  legacyImport: {
+    completedAt: number;
+    importedFiles: Array<{ file: string; keys: StorageKey[] }>;
+  } | null;
+}
+
+/**
+ * A pre-storage-layer JSON state file and how it maps onto documents
+ */
+interface LegacyStateFile {
+  candidates: string[]; // Possible locations, first existing one wins
+  toDocuments: (parsed: unknown) => Partial<Record<StorageKey, unknown>>;
+}
+
+/**
+ * Narrow a parsed legacy file to a JSON object (every legacy file held one)
+ * @throws Error if it is anything else - the import is retried on next startup
+ */
+function asObject(parsed: unknown, file: string): Record<string, unknown> {
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${file} does not contain a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Legacy state files written directly by the services before the storage layer
+ */
+function getLegacyStateFiles(): LegacyStateFile[] {
+  const cwd = process.cwd();
+
+  return [
+    {
+      // reward-state.json was shared by rewardService and taxService.
+      // It is split into two documents so each service owns its own.
+      candidates: [path.join(cwd, 'reward-state.json')],
+      toDocuments: (parsed) => {
+        const { taxState, ...rewardState } = asObject(parsed, 'reward-state.json');
+        const documents: Partial<Record<StorageKey, unknown>> = {
+          [STORAGE_KEYS.REWARD_STATE]: rewardState,
+        };
+        if (taxState) {
+          documents[STORAGE_KEYS.TAX_STATE] = taxState;
+        }
+        return documents;
+      },
+    },
+    {
+      candidates: [path.join(cwd, 'unpaid-rewards.json')],
+      toDocuments: (parsed) => ({ [STORAGE_KEYS.UNPAID_REWARDS]: asObject(parsed, 'unpaid-rewards.json') }),
+    },
+    {
+      candidates: [path.join(cwd, 'eligible-wallets.json')],
+      toDocuments: (parsed) => ({ [STORAGE_KEYS.ELIGIBLE_WALLETS]: asObject(parsed, 'eligible-wallets.json') }),
+    },
+    {
+      candidates: [path.join(cwd, 'reward-history.json')],
+      toDocuments: (parsed) => ({ [STORAGE_KEYS.REWARD_HISTORY]: asObject(parsed, 'reward-history.json') }),
+    },
+    {
+      // cycleService preferred the /data persistent disk when available
+      candidates: ['/data/cycle-state.json', path.join(cwd, 'cycle-state.json')],
+      toDocuments: (parsed) => ({ [STORAGE_KEYS.CYCLE_STATE]: asObject(parsed, 'cycle-state.json') }),
+    },
+    {
+      candidates: [path.join(cwd, 'exports', 'manifest.json')],
+      toDocuments: (parsed) => ({ [STORAGE_KEYS.EXPORT_MANIFEST]: asObject(parsed, 'exports/manifest.json') }),
+    },
+  ];
+}
+
+/**
+ * Import the legacy JSON state files into the storage backend
+ *
+ * Runs once per storage location (recorded in the storage-meta document).
+ * Documents that already exist in storage are never overwritten, and the
+ * legacy files are left in place so a rollback to an older build still works.
+ */
+export function importLegacyJsonFiles(backend: StorageBackend): void {
+  const existingMeta = backend.read(STORAGE_KEYS.STORAGE_META);
+  const meta: StorageMeta = existingMeta
+    ? (existingMeta.data as StorageMeta)
+    : { createdAt: Date.now(), legacyImport: null };
+
+  if (meta.legacyImport) {
+    return;
+  }
+
+  const importedFiles: Array<{ file: string; keys: StorageKey[] }> = [];
+
+  for (const legacyFile of getLegacyStateFiles()) {
+    const file = legacyFile.candidates.find((candidate) => fs.existsSync(candidate));
+    if (!file) {
+      continue;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const documents = legacyFile.toDocuments(parsed);
+      const importedKeys: StorageKey[] = [];
+
+      for (const [key, data] of Object.entries(documents) as Array<[StorageKey, unknown]>) {
+        if (backend.read(key)) {
+          logger.info('Storage document already exists, skipping legacy import', { key, file });
+          continue;
+        }
+
+        backend.write(key, {
+          schemaVersion: 1,
+          updatedAt: Date.now(),
+          data,
+        });
+        importedKeys.push(key);
+      }
+
+      importedFiles.push({ file, keys: importedKeys });
+      logger.info('Imported legacy state file', { file, keys: importedKeys });
+    } catch (error) {
+      // Leave the import unfinished so it is retried on next startup
+      logger.error('Failed to import legacy state file', {
+        error: error instanceof Error ? error.message : String(error),
+        file,
+      });
+      throw error;
+    }
+  }
+
+  meta.legacyImport = {
+    completedAt: Date.now(),
+    importedFiles,
+  };
+  backend.write(STORAGE_KEYS.STORAGE_META, {
+    schemaVersion: SCHEMA_VERSIONS[STORAGE_KEYS.STORAGE_META],
+    updatedAt: Date.now(),
+    data: meta,
+  });
+
+  if (importedFiles.length > 0) {
+    logger.info('Legacy state import completed - the old JSON files are no longer read and can be archived', {
+      files: importedFiles.map((entry) => entry.file),
+    });
+  }
+}
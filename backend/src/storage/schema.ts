@@ -0,0 +1,70 @@
+import { STORAGE_KEYS, type StorageKey, type StoredDocument } from './types';
+
+/**
+ * Current schema version of each document
+ *
+ * Bump a version when the shape of a document changes and register an
+ * upgrade step below that converts data from the previous version.
+ * Version 1 is the shape of the original JSON state files.
+ */
+export const SCHEMA_VERSIONS: Record<StorageKey, number> = {
+  [STORAGE_KEYS.REWARD_STATE]: 1,
+  [STORAGE_KEYS.TAX_STATE]: 1,
+  [STORAGE_KEYS.UNPAID_REWARDS]: 1,
+  [STORAGE_KEYS.ELIGIBLE_WALLETS]: 1,
+  [STORAGE_KEYS.REWARD_HISTORY]: 1,
+  [STORAGE_KEYS.CYCLE_STATE]: 1,
+  [STORAGE_KEYS.CYCLE_JOURNAL]: 1,
+  [STORAGE_KEYS.PAYOUT_LOOKUP_TABLES]: 1,
+  [STORAGE_KEYS.PAYOUT_QUEUE]: 1,
+  [STORAGE_KEYS.BALANCE_SNAPSHOTS]: 1,
+  [STORAGE_KEYS.BLACKLIST]: 1,
+  [STORAGE_KEYS.ADMIN_AUDIT_LOG]: 1,
+  [STORAGE_KEYS.SCHEDULER_STATE]: 1,
+  [STORAGE_KEYS.ALERT_STATE]: 1,
+  [STORAGE_KEYS.WEBHOOKS]: 1,
+  [STORAGE_KEYS.EXPORT_MANIFEST]: 1,
+  [STORAGE_KEYS.WALLET_LEDGER]: 1,
+  [STORAGE_KEYS.HOLDER_PREFERENCES]: 1,
+  [STORAGE_KEYS.REWARD_MERKLE]: 1,
+  [STORAGE_KEYS.STORAGE_META]: 1,
+};
+
+/**
+ * Converts a document's data from one schema version to the next
+ * The data is whatever an older build stored, so an upgrade narrows it (and
+ * throws on data it cannot convert) instead of assuming its shape.
+ */
+type SchemaUpgrade = (data: unknown) => unknown;
+
+/**
+ * Upgrade steps per document
+ * SCHEMA_UPGRADES[key][n] converts data from version n to version n + 1.
+ */
+const SCHEMA_UPGRADES: Partial<Record<StorageKey, Record<number, SchemaUpgrade>>> = {};
+
+/**
+ * Bring a stored document up to the current schema version
+ * Throws if the document was written by a newer build, so that older code
+ * never overwrites data it does not understand.
+ */
+export function upgradeDocument<T>(key: StorageKey, document: StoredDocument): T {
+  const targetVersion = SCHEMA_VERSIONS[key];
+
+  if (document.schemaVersion > targetVersion) {
+    throw new Error(
+      `Storage document "${key}" has schema version ${document.schemaVersion}, this build supports up to ${targetVersion}`
+    );
+  }
+
+  let data = document.data;
+  for (let version = document.schemaVersion; version < targetVersion; version++) {
+    const upgrade = SCHEMA_UPGRADES[key]?.[version];
+    if (!upgrade) {
+      throw new Error(`No upgrade registered for storage document "${key}" from schema version ${version}`);
+    }
+    data = upgrade(data);
+  }
+
+  return data as T;
+}
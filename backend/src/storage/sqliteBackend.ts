@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  STORAGE_KEYS,
+  type StorageBackend,
+  type StorageKey,
+  type StoredDocument,
+} from './types';
+
+const KNOWN_KEYS = new Set<string>(Object.values(STORAGE_KEYS));
+
+interface DocumentRow {
+  key: string;
+  schema_version: number;
+  updated_at: number;
+  data: string;
+}
+
+/**
+ * SQLite storage backend
+ *
+ * Stores all documents in a single `documents` table. The database runs in
+ * WAL mode and every update() is an IMMEDIATE transaction, so concurrent
+ * writers (even from other processes) are serialized by SQLite itself.
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  readonly location: string;
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    this.location = filePath;
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = FULL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        key TEXT PRIMARY KEY,
+        schema_version INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+  }
+
+  read(key: StorageKey): StoredDocument | null {
+    const row = this.db
+      .prepare('SELECT key, schema_version, updated_at, data FROM documents WHERE key = ?')
+      .get(key) as DocumentRow | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      schemaVersion: row.schema_version,
+      updatedAt: row.updated_at,
+      data: JSON.parse(row.data),
+    };
+  }
+
+  write(key: StorageKey, document: StoredDocument): void {
+    this.db
+      .prepare(`
+        INSERT INTO documents (key, schema_version, updated_at, data)
+        VALUES (@key, @schemaVersion, @updatedAt, @data)
+        ON CONFLICT(key) DO UPDATE SET
+          schema_version = excluded.schema_version,
+          updated_at = excluded.updated_at,
+          data = excluded.data
+      `)
+      .run({
+        key,
+        schemaVersion: document.schemaVersion,
+        updatedAt: document.updatedAt,
+        data: JSON.stringify(document.data),
+      });
+  }
+
+  update(key: StorageKey, updater: (current: StoredDocument | null) => StoredDocument): StoredDocument {
+    const transaction = this.db.transaction(() => {
+      const next = updater(this.read(key));
+      this.write(key, next);
+      return next;
+    });
+    return transaction.immediate();
+  }
+
+  remove(key: StorageKey): void {
+    this.db.prepare('DELETE FROM documents WHERE key = ?').run(key);
+  }
+
+  keys(): StorageKey[] {
+    const rows = this.db.prepare('SELECT key FROM documents').all() as Array<{ key: string }>;
+    return rows
+      .map((row) => row.key)
+      .filter((key): key is StorageKey => KNOWN_KEYS.has(key));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Storage layer types
+ *
+ * Every piece of persisted backend state is a named document. Backends only
+ * move opaque documents around; schema versioning and defaults are handled by
+ * the storage facade (see ./index.ts) and the owning services.
+ */
+
+/**
+ * Names of all persisted documents
+ * Each document is owned by exactly one service - services must not write
+ * documents owned by another service.
+ */
+export const STORAGE_KEYS = {
+  REWARD_STATE: 'reward-state', // rewardService
+  TAX_STATE: 'tax-state', // taxService
+  UNPAID_REWARDS: 'unpaid-rewards', // unpaidRewardsService
+  ELIGIBLE_WALLETS: 'eligible-wallets', // eligibleWalletsService
+  REWARD_HISTORY: 'reward-history', // rewardHistoryService
+  CYCLE_STATE: 'cycle-state', // cycleService
+  CYCLE_JOURNAL: 'cycle-journal', // cycleJournalService
+  PAYOUT_LOOKUP_TABLES: 'payout-lookup-tables', // payoutLookupTableService
+  PAYOUT_QUEUE: 'payout-queue', // payoutQueueService
+  BALANCE_SNAPSHOTS: 'balance-snapshots', // balanceSnapshotService
+  BLACKLIST: 'blacklist', // blacklistService
+  ADMIN_AUDIT_LOG: 'admin-audit-log', // adminAuditService
+  SCHEDULER_STATE: 'scheduler-state', // rewardScheduler
+  ALERT_STATE: 'alert-state', // alertService
+  WEBHOOKS: 'webhooks', // webhookService
+  EXPORT_MANIFEST: 'export-manifest', // rewardExportService
+  WALLET_LEDGER: 'wallet-ledger', // walletLedgerService
+  HOLDER_PREFERENCES: 'holder-preferences', // holderPreferencesService
+  REWARD_MERKLE: 'reward-merkle', // rewardMerkleService
+  STORAGE_META: 'storage-meta', // storage layer (migrations)
+} as const;
+
+export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
+
+/**
+ * Documents shared by all projects
+ * Every other document belongs to a project: the default project's documents
+ * live in the main backend, each additional project has a backend of its own.
+ */
+export const SHARED_STORAGE_KEYS: ReadonlySet<StorageKey> = new Set<StorageKey>([
+  STORAGE_KEYS.ADMIN_AUDIT_LOG,
+  STORAGE_KEYS.WEBHOOKS,
+  STORAGE_KEYS.HOLDER_PREFERENCES,
+  STORAGE_KEYS.STORAGE_META,
+]);
+
+export type StorageBackendKind = 'file' | 'sqlite';
+
+/**
+ * Envelope stored for every document
+ */
+export interface StoredDocument<T = unknown> {
+  schemaVersion: number;
+  updatedAt: number; // Timestamp of last write
+  data: T;
+}
+
+/**
+ * Interface implemented by every storage backend
+ *
+ * All operations are synchronous so that a read-modify-write via update()
+ * can never interleave with another write in the same process.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  readonly location: string;
+
+  /**
+   * Read a document, or null if it does not exist
+   */
+  read(key: StorageKey): StoredDocument | null;
+
+  /**
+   * Replace a document atomically
+   */
+  write(key: StorageKey, document: StoredDocument): void;
+
+  /**
+   * Atomically read, transform and write a document
+   * The backend holds its write lock for the whole read-modify-write.
+   */
+  update(key: StorageKey, updater: (current: StoredDocument | null) => StoredDocument): StoredDocument;
+
+  /**
+   * Remove a document (no-op if it does not exist)
+   */
+  remove(key: StorageKey): void;
+
+  /**
+   * List keys of all stored documents
+   */
+  keys(): StorageKey[];
+
+  /**
+   * Release any open handles
+   */
+  close(): void;
+}
+
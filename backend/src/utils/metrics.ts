@@ -0,0 +1,369 @@
+/**
+ * Prometheus metrics
+ *
+ * Minimal in-process registry rendering the Prometheus text exposition format
+ * (served at GET /metrics). Metrics live in memory and reset on restart, which
+ * Prometheus handles for counters and histograms.
+ *
+ * The reward pipeline metrics are defined at the bottom of this file so every
+ * instrumented module imports them from one place.
+ */
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Render a label set as {a="1",b="2"} (empty string for no labels)
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(',')}}`;
+}
+
+/**
+ * Stable key of a label set (label order as declared by the metric)
+ */
+function labelKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? '')));
+}
+
+/**
+ * Pick the declared labels in declaration order
+ * @throws Error if a declared label is missing (a typo would otherwise create a new series)
+ */
+function pickLabels(metricName: string, labelNames: readonly string[], labels: Labels): Labels {
+  const picked: Labels = {};
+  for (const name of labelNames) {
+    if (labels[name] === undefined) {
+      throw new Error(`Metric ${metricName} is missing label "${name}"`);
+    }
+    picked[name] = labels[name];
+  }
+  return picked;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter implements Metric {
+  readonly type = 'counter' as const;
+  readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    const picked = pickLabels(this.name, this.labelNames, labels);
+    const key = labelKey(this.labelNames, picked);
+    const current = this.series.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.series.set(key, { labels: picked, value });
+    }
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(
+      (series) => `${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`
+    );
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge' as const;
+  readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[] = []
+  ) {
+    registry.push(this);
+  }
+
+  set(labels: Labels, value: number): void {
+    const picked = pickLabels(this.name, this.labelNames, labels);
+    this.series.set(labelKey(this.labelNames, picked), { labels: picked, value });
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(
+      (series) => `${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`
+    );
+  }
+}
+
+/**
+ * Distribution of observed values in cumulative buckets
+ */
+export class Histogram implements Metric {
+  readonly type = 'histogram' as const;
+  readonly series = new Map<string, { labels: Labels; bucketCounts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: readonly number[],
+    readonly labelNames: readonly string[] = []
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    const picked = pickLabels(this.name, this.labelNames, labels);
+    const key = labelKey(this.labelNames, picked);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: picked, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.bucketCounts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing - call the returned function to observe the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${series.bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Render every registered metric in the Prometheus text format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// ---------------------------------------------------------------------------
+// Reward pipeline metrics
+// ---------------------------------------------------------------------------
+
+// Cycles (rewardScheduler.processRewards)
+export const rewardCyclesTotal = new Counter(
+  'tek_reward_cycles_total',
+  'Reward cycles finished, by epoch and final cycle state',
+  ['epoch', 'state']
+);
+export const rewardCycleDurationSeconds = new Histogram(
+  'tek_reward_cycle_duration_seconds',
+  'Duration of a reward cycle, by final cycle state',
+  [1, 5, 10, 30, 60, 120, 300, 600, 1200],
+  ['state']
+);
+export const rewardCycleLastTimestampSeconds = new Gauge(
+  'tek_reward_cycle_last_timestamp_seconds',
+  'Unix time the last cycle of each state started',
+  ['state']
+);
+export const rewardLastSuccessfulCycleTimestampSeconds = new Gauge(
+  'tek_reward_last_successful_cycle_timestamp_seconds',
+  'Unix time of the last cycle that was not FAILED or PARTIAL'
+);
+export const rewardSchedulerPaused = new Gauge(
+  'tek_reward_scheduler_paused',
+  '1 while the reward scheduler is paused by an admin'
+);
+
+// Tax harvesting (TaxService.processWithheldTax)
+export const taxHarvestsTotal = new Counter(
+  'tek_tax_harvests_total',
+  'Withheld tax runs, by epoch and outcome (harvested, skipped, failed)',
+  ['epoch', 'outcome']
+);
+export const taxHarvestDurationSeconds = new Histogram(
+  'tek_tax_harvest_duration_seconds',
+  'Duration of a withheld tax run including swap and distribution, by outcome',
+  [1, 5, 10, 30, 60, 120, 300, 600],
+  ['outcome']
+);
+export const taxHarvestSizeTokens = new Histogram(
+  'tek_tax_harvest_size_tokens',
+  'TEK withdrawn per harvest (UI amount)',
+  [100, 1_000, 10_000, 100_000, 1_000_000, 10_000_000, 100_000_000]
+);
+
+// Swaps (swapTekToSOL and the swap providers)
+export const swapsTotal = new Counter(
+  'tek_swaps_total',
+  'TEK to SOL swaps, by epoch and outcome (success, failed)',
+  ['epoch', 'outcome']
+);
+export const swapDurationSeconds = new Histogram(
+  'tek_swap_duration_seconds',
+  'Duration of a TEK to SOL swap, by outcome',
+  [1, 2, 5, 10, 20, 30, 60, 120],
+  ['outcome']
+);
+export const swapSlippageBps = new Histogram(
+  'tek_swap_slippage_bps',
+  'Realized slippage of successful swaps versus the quoted output, in basis points',
+  [0, 10, 25, 50, 100, 200, 300, 500, 1000]
+);
+export const swapSolReceivedTotal = new Counter(
+  'tek_swap_sol_received_total',
+  'SOL received from swaps, by epoch',
+  ['epoch']
+);
+export const swapRoutesTotal = new Counter(
+  'tek_swap_routes_total',
+  'Swap provider attempts, by provider and outcome (success, failed, quote_failed)',
+  ['provider', 'outcome']
+);
+
+// Holder payouts (distributeSolToHolders)
+export const distributionsTotal = new Counter(
+  'tek_distributions_total',
+  'SOL distribution runs, by epoch and outcome (success, failed)',
+  ['epoch', 'outcome']
+);
+export const distributionDurationSeconds = new Histogram(
+  'tek_distribution_duration_seconds',
+  'Duration of a SOL distribution run, by outcome',
+  [1, 5, 10, 30, 60, 120, 300, 600],
+  ['outcome']
+);
+export const payoutsTotal = new Counter(
+  'tek_payouts_total',
+  'Holder payouts, by epoch and outcome (sent, skipped, failed)',
+  ['epoch', 'outcome']
+);
+export const solDistributedTotal = new Counter(
+  'tek_sol_distributed_total',
+  'SOL paid out to holders, by epoch',
+  ['epoch']
+);
+
+// Token holders (solanaService.getTokenHolders)
+export const tokenHoldersRequestsTotal = new Counter(
+  'tek_token_holders_requests_total',
+  'getTokenHolders calls, by where the answer came from (cache, stale_cache, rpc, error)',
+  ['source']
+);
+export const tokenHoldersFetchDurationSeconds = new Histogram(
+  'tek_token_holders_fetch_duration_seconds',
+  'Duration of a token holders RPC fetch, by outcome',
+  [0.5, 1, 2, 5, 10, 20, 30, 60],
+  ['outcome']
+);
+export const tokenHoldersCount = new Gauge(
+  'tek_token_holders',
+  'Token accounts with a balance at the last successful fetch'
+);
+
+// RPC errors and the RateLimitLogger circuit breaker
+export const rpcErrorsTotal = new Counter(
+  'tek_rpc_errors_total',
+  'RPC errors, by operation and kind (rate_limit, error)',
+  ['operation', 'kind']
+);
+export const rateLimitErrorsTotal = new Counter(
+  'tek_rate_limit_errors_total',
+  'Rate limit errors recorded by the circuit breaker'
+);
+export const circuitBreakerTripsTotal = new Counter(
+  'tek_circuit_breaker_trips_total',
+  'Times the rate limit circuit breaker opened'
+);
+export const circuitBreakerOpen = new Gauge(
+  'tek_circuit_breaker_open',
+  '1 while the rate limit circuit breaker is open'
+);
+
+// Dashboard live feed (liveFeedService)
+export const liveFeedClients = new Gauge(
+  'tek_live_feed_clients',
+  'Open /dashboard/live server-sent event streams'
+);
+export const liveFeedEventsTotal = new Counter(
+  'tek_live_feed_events_total',
+  'Events published to the dashboard live feed, by type',
+  ['type']
+);
+
+// Process
+export const processStartTimeSeconds = new Gauge(
+  'process_start_time_seconds',
+  'Start time of the process since unix epoch in seconds'
+);
+export const processResidentMemoryBytes = new Gauge(
+  'process_resident_memory_bytes',
+  'Resident memory size in bytes'
+);
+export const nodejsHeapUsedBytes = new Gauge(
+  'nodejs_heap_used_bytes',
+  'Node.js heap used in bytes'
+);
+
+processStartTimeSeconds.set({}, Math.round(Date.now() / 1000 - process.uptime()));
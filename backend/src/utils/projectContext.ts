@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { getDefaultProject, getProject, type ProjectConfig } from '../config/projects';
+
+/**
+ * Project context
+ *
+ * The project a piece of code works on is carried through async calls instead
+ * of being passed to every service: the scheduler runs each project's cycle
+ * inside runWithProject(), and /projects/:id routes handle their request
+ * inside it. Code running outside any project context works on the default
+ * project, so single-token deployments behave exactly as before.
+ */
+
+const activeProject = new AsyncLocalStorage<ProjectConfig>();
+
+/**
+ * Get the project the current code runs for
+ */
+export function getActiveProject(): ProjectConfig {
+  return activeProject.getStore() ?? getDefaultProject();
+}
+
+/**
+ * Run fn (and everything it awaits) for a project
+ * @throws Error if the project does not exist
+ */
+export function runWithProject<T>(project: ProjectConfig | string, fn: () => T): T {
+  const resolved = typeof project === 'string' ? getProject(project) : project;
+  if (!resolved) {
+    throw new Error(`Unknown project: ${project}`);
+  }
+  return activeProject.run(resolved, fn);
+}
+
+/**
+ * Per-project module state
+ * Returns an accessor for the active project's copy of the state, created on
+ * first use. Used for caches that must not leak between projects.
+ */
+export function projectScoped<T>(create: () => T): { (): T; all(): Map<string, T> } {
+  const states = new Map<string, T>();
+  const get = (): T => {
+    const id = getActiveProject().id;
+    let state = states.get(id);
+    if (state === undefined) {
+      state = create();
+      states.set(id, state);
+    }
+    return state;
+  };
+  return Object.assign(get, { all: () => states });
+}
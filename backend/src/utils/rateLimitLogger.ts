@@ -3,6 +3,8 @@
  * Limits duplicate error messages to prevent log spam
  */
 
+import { rateLimitErrorsTotal, circuitBreakerTripsTotal } from './metrics';
+
 interface LogEntry {
   message: string;
   count: number;
@@ -88,6 +90,8 @@ class RateLimitLogger {
    * Record a rate limit error for circuit breaker
    */
   recordRateLimitError(): void {
+    rateLimitErrorsTotal.inc();
+
     // Count rate limit errors in recent window
     const recentErrors = Array.from(this.logEntries.values())
       .filter(entry => entry.message.includes('429') || entry.message.includes('rate limit'))
@@ -97,6 +101,7 @@ class RateLimitLogger {
     if (recentErrors >= this.circuitBreakerThreshold && !this.circuitBreakerOpen) {
       this.circuitBreakerOpen = true;
       this.circuitBreakerOpenedAt = Date.now();
+      circuitBreakerTripsTotal.inc();
       console.warn(`[RateLimitLogger] Circuit breaker OPENED - too many rate limit errors (${recentErrors}). Will retry after ${this.circuitBreakerTimeout / 1000}s`);
     }
   }
@@ -0,0 +1,26 @@
+import { createPublicKey, verify } from 'crypto';
+import bs58 from 'bs58';
+
+// DER prefix of an ed25519 SubjectPublicKeyInfo - followed by the 32 raw key bytes
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Verify a wallet's ed25519 signature over a message (what Solana wallets
+ * produce for signMessage)
+ *
+ * @param pubkey - Wallet address (base58)
+ * @param signature - Raw 64-byte signature
+ * @returns false if the signature does not match or the key or signature is malformed
+ */
+export function verifyWalletSignature(pubkey: string, message: string, signature: Uint8Array): boolean {
+  try {
+    const publicKey = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(bs58.decode(pubkey))]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, Buffer.from(message), publicKey, signature);
+  } catch {
+    return false;
+  }
+}
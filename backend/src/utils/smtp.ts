@@ -0,0 +1,171 @@
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+
+/**
+ * Minimal SMTP client for plain-text operator emails
+ *
+ * Supports implicit TLS (port 465), STARTTLS when the server offers it and
+ * AUTH PLAIN. Good enough for a relay such as SES, Postmark or Gmail; not a
+ * general purpose mailer.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465)
+  user: string | null;
+  pass: string | null;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-based reader for SMTP replies (multi-line replies use "250-" continuations)
+ */
+function createReplyReader(socket: net.Socket | tls.TLSSocket): () => Promise<SmtpReply> {
+  let buffer = '';
+  let pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const tryResolve = (): void => {
+    if (!pending) {
+      return;
+    }
+    const lines = buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3} /.test(lines[i]) || /^\d{3}$/.test(lines[i])) {
+        const replyLines = lines.slice(0, i + 1);
+        buffer = lines.slice(i + 1).join('\r\n');
+        const { resolve } = pending;
+        pending = null;
+        resolve({ code: parseInt(lines[i].slice(0, 3), 10), lines: replyLines.map((line) => line.slice(4)) });
+        return;
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    tryResolve();
+  });
+  socket.on('error', (error: Error) => {
+    failure = error;
+    pending?.reject(error);
+    pending = null;
+  });
+
+  return () => new Promise<SmtpReply>((resolve, reject) => {
+    if (failure) {
+      reject(failure);
+      return;
+    }
+    pending = { resolve, reject };
+    tryResolve();
+  });
+}
+
+/**
+ * Strip a display name: "Ops <ops@example.com>" -> "ops@example.com"
+ */
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Send one email
+ * @throws Error if the server rejects any step or the connection fails
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? 15000;
+
+  let socket: net.Socket | tls.TLSSocket = await new Promise((resolve, reject) => {
+    const onError = (error: Error): void => reject(error);
+    const connected = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(connected))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(connected));
+    connected.once('error', onError);
+    connected.setTimeout(timeoutMs, () => connected.destroy(new Error(`SMTP connection timed out after ${timeoutMs}ms`)));
+  });
+
+  let readReply = createReplyReader(socket);
+
+  const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await readReply();
+    if (!expected.includes(reply.code)) {
+      const shown = line?.startsWith('AUTH') ? 'AUTH' : line;
+      throw new Error(`SMTP ${shown ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    let ehlo = await command('EHLO tek-backend', [250]);
+
+    if (!options.secure && ehlo.lines.some((line) => line.toUpperCase().startsWith('STARTTLS'))) {
+      await command('STARTTLS', [220]);
+      socket.removeAllListeners('data');
+      socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+        const upgraded = tls.connect({ socket, servername: options.host }, () => resolve(upgraded));
+        upgraded.once('error', reject);
+      });
+      readReply = createReplyReader(socket);
+      ehlo = await command('EHLO tek-backend', [250]);
+    }
+
+    if (options.user && options.pass) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass}`).toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@tek-backend>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+    // Dot-stuffing: a line starting with "." would otherwise end the message
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await command(`${headers.join('\r\n')}\r\n\r\n${body}\r\n.`, [250]);
+
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { connection } from '../config/solana';
+
+/**
+ * A transaction that has been signed locally but not necessarily sent
+ * The signature is known up front, so it can be journaled before sending.
+ */
+export interface SignedTransaction {
+  signature: string;
+  serialized: Buffer;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Final (or current) outcome of a sent transaction
+ * - confirmed: landed without error
+ * - failed: landed with an error (no state change)
+ * - expired: not found and its blockhash is no longer valid, so it can never land
+ * - pending: not found yet, but may still land
+ */
+export type TransactionOutcome = 'confirmed' | 'failed' | 'expired' | 'pending';
+
+const OUTCOME_POLL_INTERVAL_MS = 2000;
+
+// Placeholder blockhash for size calculations (a blockhash is always 32 bytes)
+const SIZE_CHECK_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Compile instructions into a transaction for the given blockhash
+ * With lookup tables a v0 transaction is built, otherwise a legacy one.
+ */
+function compileTransaction(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  recentBlockhash: string,
+  lookupTables?: AddressLookupTableAccount[]
+): VersionedTransaction {
+  const message = new TransactionMessage({ payerKey: payer, recentBlockhash, instructions });
+  return new VersionedTransaction(
+    lookupTables ? message.compileToV0Message(lookupTables) : message.compileToLegacyMessage()
+  );
+}
+
+/**
+ * Sign a transaction with a fresh blockhash without sending it
+ * The first signer pays the fee.
+ */
+export async function signTransaction(
+  transaction: Transaction,
+  signers: Keypair[]
+): Promise<SignedTransaction> {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = signers[0].publicKey;
+  transaction.sign(...signers);
+
+  if (!transaction.signature) {
+    throw new Error('Transaction was not signed');
+  }
+
+  return {
+    signature: bs58.encode(transaction.signature),
+    serialized: transaction.serialize(),
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Sign a set of instructions with a fresh blockhash without sending them
+ * Builds a v0 transaction when lookup tables are given, otherwise a legacy one.
+ * The first signer pays the fee.
+ */
+export async function signInstructions(
+  instructions: TransactionInstruction[],
+  signers: Keypair[],
+  lookupTables?: AddressLookupTableAccount[]
+): Promise<SignedTransaction> {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = compileTransaction(instructions, signers[0].publicKey, blockhash, lookupTables);
+  transaction.sign(signers);
+
+  return {
+    signature: bs58.encode(transaction.signatures[0]),
+    serialized: Buffer.from(transaction.serialize()),
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Serialized size in bytes of a transaction holding these instructions
+ * Compare against PACKET_DATA_SIZE (1232 bytes) to decide whether they fit.
+ * Throws if the instructions cannot be compiled at all (e.g. too many accounts).
+ */
+export function getTransactionSize(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables?: AddressLookupTableAccount[]
+): number {
+  return compileTransaction(instructions, payer, SIZE_CHECK_BLOCKHASH, lookupTables).serialize().length;
+}
+
+/**
+ * Send a signed transaction and wait for confirmation
+ * @throws Error if the transaction fails or its blockhash expires before confirmation
+ */
+export async function sendSignedTransaction(signed: SignedTransaction): Promise<string> {
+  await connection.sendRawTransaction(signed.serialized, { maxRetries: 3 });
+
+  const confirmation = await connection.confirmTransaction(
+    {
+      signature: signed.signature,
+      blockhash: signed.blockhash,
+      lastValidBlockHeight: signed.lastValidBlockHeight,
+    },
+    'confirmed'
+  );
+
+  if (confirmation.value.err) {
+    throw new Error(`Transaction ${signed.signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+
+  return signed.signature;
+}
+
+/**
+ * Simulate a signed transaction without sending it (dry runs)
+ * @throws Error if the simulation fails
+ */
+export async function simulateSignedTransaction(
+  signed: SignedTransaction
+): Promise<{ unitsConsumed: number | null; logs: string[] }> {
+  const { value } = await connection.simulateTransaction(VersionedTransaction.deserialize(signed.serialized), {
+    commitment: 'confirmed',
+  });
+  if (value.err) {
+    throw new Error(`Simulation failed: ${JSON.stringify(value.err)}\n${(value.logs ?? []).join('\n')}`);
+  }
+  return { unitsConsumed: value.unitsConsumed ?? null, logs: value.logs ?? [] };
+}
+
+/**
+ * Look up the outcome of a previously sent transaction
+ */
+export async function getTransactionOutcome(
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<TransactionOutcome> {
+  const { value } = await connection.getSignatureStatuses([signature], {
+    searchTransactionHistory: true,
+  });
+  const status = value[0];
+
+  if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+    return status.err ? 'failed' : 'confirmed';
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  return blockHeight > lastValidBlockHeight ? 'expired' : 'pending';
+}
+
+/**
+ * Poll until a transaction is confirmed, failed or expired
+ * A blockhash stays valid for ~150 blocks (about a minute), so this settles quickly.
+ */
+export async function waitForTransactionOutcome(
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<Exclude<TransactionOutcome, 'pending'>> {
+  for (;;) {
+    const outcome = await getTransactionOutcome(signature, lastValidBlockHeight);
+    if (outcome !== 'pending') {
+      return outcome;
+    }
+    await new Promise(resolve => setTimeout(resolve, OUTCOME_POLL_INTERVAL_MS));
+  }
+}
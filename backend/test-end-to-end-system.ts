@@ -15,8 +15,6 @@
  * This script verifies configuration and state management logic.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
 import {
   isTokenMode,
   isUsdMode,
@@ -37,10 +35,8 @@ import {
   getEligibleWalletsWithUnpaidRewards,
   getEligibleWalletsMetadata,
 } from './src/services/eligibleWalletsService';
+import { readDocument, STORAGE_KEYS } from './src/storage';
 
-const UNPAID_REWARDS_FILE = path.join(process.cwd(), 'unpaid-rewards.json');
-const ELIGIBLE_WALLETS_FILE = path.join(process.cwd(), 'eligible-wallets.json');
-const REWARD_STATE_FILE = path.join(process.cwd(), 'reward-state.json');
 
 // Test results tracking
 interface TestResult {
@@ -248,29 +244,28 @@ async function runTests(): Promise<void> {
       );
     }
 
-    // Verify file persistence
-    if (fs.existsSync(UNPAID_REWARDS_FILE)) {
-      const fileContent = fs.readFileSync(UNPAID_REWARDS_FILE, 'utf-8');
-      const parsed = JSON.parse(fileContent);
-      if (parsed.unpaidRewards && typeof parsed.unpaidRewards === 'object') {
+    // Verify storage persistence
+    const unpaidDocument = readDocument<any>(STORAGE_KEYS.UNPAID_REWARDS);
+    if (unpaidDocument) {
+      if (unpaidDocument.unpaidRewards && typeof unpaidDocument.unpaidRewards === 'object') {
         addTestResult(
-          'File Persistence',
+          'Storage Persistence',
           'PASS',
-          'Unpaid rewards file exists and has correct structure',
-          { fileSize: fileContent.length }
+          'Unpaid rewards document exists and has correct structure',
+          { walletsInDocument: Object.keys(unpaidDocument.unpaidRewards).length }
         );
       } else {
         addTestResult(
-          'File Persistence',
+          'Storage Persistence',
           'FAIL',
-          'File exists but has incorrect structure'
+          'Document exists but has incorrect structure'
         );
       }
     } else {
       addTestResult(
-        'File Persistence',
+        'Storage Persistence',
         'SKIP',
-        'File does not exist (will be created on first use)'
+        'Document does not exist (will be created on first use)'
       );
     }
   } catch (error) {
@@ -320,33 +315,31 @@ async function runTests(): Promise<void> {
       { count: eligibleWalletsWithUnpaid.size, baseCount: eligibleWallets.size }
     );
 
-    // Verify file persistence
-    if (fs.existsSync(ELIGIBLE_WALLETS_FILE)) {
-      const fileContent = fs.readFileSync(ELIGIBLE_WALLETS_FILE, 'utf-8');
-      const parsed = JSON.parse(fileContent);
+    // Verify storage persistence
+    const parsed = readDocument<any>(STORAGE_KEYS.ELIGIBLE_WALLETS);
+    if (parsed) {
       if (parsed.eligibleWallets && Array.isArray(parsed.eligibleWallets)) {
         addTestResult(
-          'Eligible Wallets File Persistence',
+          'Eligible Wallets Storage Persistence',
           'PASS',
-          'Eligible wallets file exists and has correct structure',
+          'Eligible wallets document exists and has correct structure',
           {
-            fileSize: fileContent.length,
-            walletsInFile: parsed.eligibleWallets.length,
+            walletsInDocument: parsed.eligibleWallets.length,
             lastUpdated: parsed.lastUpdated ? new Date(parsed.lastUpdated).toISOString() : null,
           }
         );
       } else {
         addTestResult(
-          'Eligible Wallets File Persistence',
+          'Eligible Wallets Storage Persistence',
           'FAIL',
-          'File exists but has incorrect structure'
+          'Document exists but has incorrect structure'
         );
       }
     } else {
       addTestResult(
-        'Eligible Wallets File Persistence',
+        'Eligible Wallets Storage Persistence',
         'SKIP',
-        'File does not exist (will be created when updateEligibleWallets() is called)'
+        'Document does not exist (will be created when updateEligibleWallets() is called)'
       );
     }
   } catch (error) {
@@ -359,35 +352,32 @@ async function runTests(): Promise<void> {
 
   console.log();
 
-  // Test 4: State File Verification
-  console.log('Test 4: State File Verification');
+  // Test 4: State Document Verification
+  console.log('Test 4: State Document Verification');
   console.log('-'.repeat(60));
 
   try {
-    if (fs.existsSync(REWARD_STATE_FILE)) {
-      const fileContent = fs.readFileSync(REWARD_STATE_FILE, 'utf-8');
-      const parsed = JSON.parse(fileContent);
-      
+    const rewardState = readDocument<any>(STORAGE_KEYS.REWARD_STATE);
+    if (rewardState) {
       addTestResult(
-        'Reward State File',
+        'Reward State Document',
         'PASS',
-        'Reward state file exists and is valid JSON',
+        'Reward state document exists and is valid',
         {
-          fileSize: fileContent.length,
-          hasTaxState: !!parsed.taxState,
-          hasPendingPayouts: Array.isArray(parsed.pendingPayouts),
+          hasTaxState: !!readDocument(STORAGE_KEYS.TAX_STATE),
+          hasPendingPayouts: Array.isArray(rewardState.pendingPayouts),
         }
       );
     } else {
       addTestResult(
-        'Reward State File',
+        'Reward State Document',
         'SKIP',
-        'Reward state file does not exist (will be created on first use)'
+        'Reward state document does not exist (will be created on first use)'
       );
     }
   } catch (error) {
     addTestResult(
-      'State File Verification',
+      'State Document Verification',
       'FAIL',
       `Error: ${error instanceof Error ? error.message : String(error)}`
     );
@@ -0,0 +1,95 @@
+/**
+ * Offline test of the holder allocations
+ *
+ * This script tests:
+ * 1. An owner with several token accounts gets one allocation over its whole
+ *    balance, in INSTANTANEOUS mode and in the TIME_WEIGHTED fallback used
+ *    before the first balance snapshot
+ * 2. The minimum payout threshold is checked per owner
+ * 3. An owner's accumulated reward is added once, not once per token account
+ *
+ * Token holders and the minimum payout threshold are stubbed.
+ *
+ * Run with: npx ts-node --transpile-only test-holder-allocations.ts
+ */
+
+import { section, check, assertEqual, finish } from './test-offline-setup';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import * as constants from './src/config/constants';
+import { REWARD_ACCUMULATION_CONFIG, REWARD_WEIGHTING_CONFIG } from './src/config/constants';
+import * as solanaService from './src/services/solanaService';
+import { writeDocument, STORAGE_KEYS } from './src/storage';
+import { addToAccumulatedReward } from './src/services/unpaidRewardsService';
+import { calculateHolderAllocations, type HolderAllocationPlan } from './src/services/solDistributionService';
+
+const TOTAL_SOL = 100_000_000n; // 0.1 SOL
+
+// owner-a holds 400 over two accounts, owner-b 600 in one
+Object.assign(solanaService, {
+  getTokenHolders: async (): Promise<solanaService.TokenHolder[]> => [
+    { address: 'account-a1', owner: 'owner-a', amount: '300', decimals: 6 },
+    { address: 'account-b1', owner: 'owner-b', amount: '600', decimals: 6 },
+    { address: 'account-a2', owner: 'owner-a', amount: '100', decimals: 6 },
+  ],
+});
+
+let thresholdSOL = 0.001;
+Object.assign(constants, { getMinimumPayoutThreshold: async () => thresholdSOL });
+
+writeDocument(STORAGE_KEYS.ELIGIBLE_WALLETS, {
+  eligibleWallets: ['owner-a', 'owner-b'],
+  lastUpdated: Date.now(),
+  totalHolders: 2,
+  eligibleCount: 2,
+});
+
+function payouts(plan: HolderAllocationPlan): Array<[string, string, string]> {
+  return plan.rewardsToPay.map((reward) => [reward.pubkey, reward.amountLamports.toString(), String(reward.eligibleBalance)]);
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Testing Holder Allocations');
+  console.log('='.repeat(60));
+
+  section('Test 1: One allocation per owner');
+  await check('TIME_WEIGHTED without a snapshot falls back to the balance of each owner', async () => {
+    assertEqual(REWARD_WEIGHTING_CONFIG.WEIGHTING_MODE, 'TIME_WEIGHTED', 'weighting mode');
+    const plan = await calculateHolderAllocations(TOTAL_SOL);
+    assertEqual(plan.weightingMode, 'INSTANTANEOUS', 'weighting used');
+    assertEqual(plan.eligibleHoldersCount, 2, 'eligible holders');
+    assertEqual(payouts(plan), [['owner-a', '40000000', '400'], ['owner-b', '60000000', '600']], 'payouts');
+  });
+
+  Object.assign(REWARD_WEIGHTING_CONFIG, { WEIGHTING_MODE: 'INSTANTANEOUS' });
+
+  await check('INSTANTANEOUS allocates on the balance of each owner', async () => {
+    const plan = await calculateHolderAllocations(TOTAL_SOL);
+    assertEqual(payouts(plan), [['owner-a', '40000000', '400'], ['owner-b', '60000000', '600']], 'payouts');
+  });
+
+  section('Test 2: Threshold');
+  await check('the minimum payout is checked against the whole share of an owner', async () => {
+    thresholdSOL = 0.035; // Above the share of each of owner-a's accounts (0.03, 0.01), below its total
+    const plan = await calculateHolderAllocations(TOTAL_SOL);
+    assertEqual(payouts(plan).map(([pubkey]) => pubkey), ['owner-a', 'owner-b'], 'paid owners');
+    assertEqual(plan.rewardsToAccumulate, [], 'deferred rewards');
+    thresholdSOL = 0.001;
+  });
+
+  section('Test 3: Accumulated rewards');
+  await check('an accumulated reward is added once per owner', async () => {
+    Object.assign(REWARD_ACCUMULATION_CONFIG, { ENABLED: true });
+    addToAccumulatedReward('owner-a', 5_000_000 / LAMPORTS_PER_SOL);
+    const plan = await calculateHolderAllocations(TOTAL_SOL);
+    assertEqual(payouts(plan), [['owner-a', '45000000', '400'], ['owner-b', '60000000', '600']], 'payouts');
+    assertEqual(plan.rewardsToPay.map((reward) => reward.wasAccumulated), [true, false], 'accumulated');
+  });
+
+  finish('Holder allocations');
+}
+
+main().catch((error) => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,428 @@
+/**
+ * Offline test of the cycle journal and the resume of interrupted cycles
+ *
+ * This script tests:
+ * 1. Journal bookkeeping (one cycle at a time, one payout per wallet, holder
+ *    payouts updated in one write)
+ * 2. A swap that throws after its TEK left the wallet stays STARTED, in single
+ *    and batch mode, while one whose TEK is still in the wallet is FAILED
+ * 3. Resume reconciles swaps from the wallet balances: started and failed
+ *    batches whose TEK left are credited, without counting later batches
+ * 4. Resume settles sent holder payouts from their transaction outcome, and a
+ *    holder distribution that fails before planning any payout is retried
+ * 5. A reward asset swap whose result was lost is recorded from the asset
+ *    balance if it landed, and its payouts are left for resume, not queued
+ *
+ * The chain is stubbed on the shared connection (token account, SOL balance,
+ * signature statuses), the swap router and the reward asset balance are
+ * replaced, so nothing is sent.
+ *
+ * Run with: npx ts-node --transpile-only test-journal-resume.ts
+ */
+
+import { TEST_REWARD_WALLET, section, check, assert, assertEqual, finish } from './test-offline-setup';
+import { PublicKey, type AccountInfo } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { connection, getTokenMint } from './src/config/solana';
+import * as solDistribution from './src/services/solDistributionService';
+import * as swapProviders from './src/services/swapProviders';
+import { TaxService } from './src/services/taxService';
+import { getQueuedPayouts } from './src/services/payoutQueueService';
+import {
+  beginCycleJournal,
+  findJournalStep,
+  finishCycleJournal,
+  getActiveCycleJournal,
+  getCycleJournalHistory,
+  recordHolderPayoutsPlanned,
+  recordStepConfirmed,
+  recordStepFailed,
+  recordStepStarted,
+  recordSwapPlan,
+  updateHolderPayouts,
+  type CycleJournal,
+} from './src/services/cycleJournalService';
+
+type WithdrawnTaxContext = Parameters<typeof TaxService.completeWithdrawnTax>[0];
+
+// Stubbed chain state of the reward wallet
+const chain = {
+  tekBalance: 0n,
+  solBalance: 0n,
+  assetBalance: 0n, // Reward asset held by the reward wallet
+  landedSignatures: new Set<string>(),
+};
+
+const tekAccount = getAssociatedTokenAddressSync(getTokenMint(), TEST_REWARD_WALLET, false, TOKEN_2022_PROGRAM_ID);
+
+function tekAccountInfo(amount: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint: getTokenMint(),
+    owner: TEST_REWARD_WALLET,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return { data, executable: false, lamports: 2039280, owner: TOKEN_2022_PROGRAM_ID, rentEpoch: 0 };
+}
+
+Object.assign(connection, {
+  getAccountInfo: async (address: PublicKey) => (address.equals(tekAccount) ? tekAccountInfo(chain.tekBalance) : null),
+  getBalance: async () => Number(chain.solBalance),
+  getBlockHeight: async () => 1000, // Every journaled blockhash (valid until 10) has expired
+  getSignatureStatuses: async (signatures: string[]) => ({
+    context: { slot: 1 },
+    value: signatures.map((signature) => (chain.landedSignatures.has(signature)
+      ? { slot: 1, confirmations: null, err: null, confirmationStatus: 'confirmed' as const }
+      : null)),
+  }),
+});
+
+Object.assign(solDistribution, { getRewardAssetBalance: async () => chain.assetBalance });
+
+/**
+ * Replace the swap router for one scenario
+ */
+function stubSwap(swap: (amountTek: bigint) => Promise<swapProviders.RoutedSwapResult>): void {
+  Object.assign(swapProviders, { swapTekToSolBestRoute: swap });
+}
+
+/**
+ * Start a journal whose withdrawal landed
+ */
+function startCycle(withdrawnAmount: bigint, batchAmounts: bigint[]): void {
+  if (getActiveCycleJournal()) {
+    finishCycleJournal('ABORTED', 'Next scenario');
+  }
+  beginCycleJournal('2026-01-01', 1);
+  recordStepStarted('WITHDRAW', { balanceBefore: '0', decimals: '6' });
+  recordStepConfirmed('WITHDRAW', { data: { withdrawnAmount: withdrawnAmount.toString() } });
+  recordSwapPlan(batchAmounts);
+}
+
+function activeJournal(): CycleJournal {
+  const journal = getActiveCycleJournal();
+  assert(journal, 'no active journal');
+  return journal;
+}
+
+function swapStatus(batchIndex: number): string | undefined {
+  return findJournalStep(activeJournal(), 'SWAP', batchIndex)?.status;
+}
+
+const context: WithdrawnTaxContext = { epoch: '2026-01-01', cycleNumber: 1, withdrawnAmount: 1000n, decimals: 6, resumed: false };
+
+async function rejects(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  throw new Error('expected the call to fail');
+}
+
+/**
+ * Resume the active journal up to the point where it would continue the cycle
+ * @returns Context the cycle would have been continued with, or null
+ */
+async function resumeReconciliation(): Promise<WithdrawnTaxContext | null> {
+  const completeWithdrawnTax = TaxService.completeWithdrawnTax;
+  let continued: WithdrawnTaxContext | null = null;
+  TaxService.completeWithdrawnTax = async (resumeContext) => {
+    continued = resumeContext;
+    return null;
+  };
+  try {
+    await TaxService.resumeWithheldTax();
+  } finally {
+    TaxService.completeWithdrawnTax = completeWithdrawnTax;
+  }
+  return continued;
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Testing Cycle Journal Resume');
+  console.log('='.repeat(60));
+
+  section('Test 1: Journal');
+  await check('a second cycle cannot start while one is in progress', () => {
+    startCycle(1000n, [1000n]);
+    let message = '';
+    try {
+      beginCycleJournal('2026-01-01', 2);
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    assert(message.includes('still in progress'), `expected a journal error, got "${message}"`);
+  });
+
+  await check('holder payout updates are applied together', () => {
+    recordHolderPayoutsPlanned([
+      { pubkey: 'holder-a', amountLamports: 10n },
+      { pubkey: 'holder-b', amountLamports: 20n },
+      { pubkey: 'holder-c', amountLamports: 30n },
+    ]);
+    updateHolderPayouts([
+      { pubkey: 'holder-a', update: { status: 'SENT', signature: 'tx-1', lastValidBlockHeight: 10 } },
+      { pubkey: 'holder-b', update: { status: 'SENT', signature: 'tx-1', lastValidBlockHeight: 10 } },
+      { pubkey: 'unknown', update: { status: 'CONFIRMED' } },
+    ]);
+    const payouts = activeJournal().holderPayouts!;
+    assertEqual(payouts.map((p) => p.status), ['SENT', 'SENT', 'PENDING'], 'statuses');
+  });
+
+  await check('payouts to the same wallet are merged before they are journaled', async () => {
+    startCycle(1000n, [1000n]);
+    const planned = await rejects(solDistribution.distributeSolToHolders(60n, {
+      plannedRewards: [
+        { pubkey: 'holder-a', amountLamports: 10n, eligibleBalance: 100n },
+        { pubkey: 'holder-b', amountLamports: 20n, eligibleBalance: 200n },
+        { pubkey: 'holder-a', amountLamports: 30n, eligibleBalance: 300n },
+      ],
+      onPayoutsPlanned: (rewards) => {
+        recordHolderPayoutsPlanned(rewards);
+        throw new Error('Planned');
+      },
+    }));
+    assertEqual(planned, 'Planned', 'error');
+    const payouts = activeJournal().holderPayouts!;
+    assertEqual(payouts.map((p) => [p.pubkey, p.amountLamports, p.eligibleBalance]), [
+      ['holder-a', '40', '400'],
+      ['holder-b', '20', '200'],
+    ], 'journaled payouts');
+
+    const duplicate = await rejects(Promise.resolve().then(() => recordHolderPayoutsPlanned([
+      { pubkey: 'holder-a', amountLamports: 10n },
+      { pubkey: 'holder-a', amountLamports: 30n },
+    ])));
+    assert(duplicate.includes('repeats'), `unexpected error: ${duplicate}`);
+  });
+
+  section('Test 2: Failing swaps');
+  await check('a single swap that throws after moving TEK stays STARTED', async () => {
+    startCycle(1000n, [1000n]);
+    chain.tekBalance = 1000n;
+    stubSwap(async (amountTek) => {
+      chain.tekBalance -= amountTek;
+      throw new Error('Confirmation timed out');
+    });
+    assertEqual(await rejects(TaxService.completeWithdrawnTax(context)), 'Confirmation timed out', 'error');
+    assertEqual(swapStatus(0), 'STARTED', 'swap status');
+  });
+
+  await check('a single swap that throws with the TEK still in the wallet is FAILED', async () => {
+    startCycle(1000n, [1000n]);
+    chain.tekBalance = 1000n;
+    stubSwap(async () => {
+      throw new Error('Quote expired');
+    });
+    await rejects(TaxService.completeWithdrawnTax(context));
+    assertEqual(swapStatus(0), 'FAILED', 'swap status');
+  });
+
+  await check('batch mode stops at a swap whose outcome is unknown', async () => {
+    startCycle(1000n, [400n, 300n, 300n]);
+    chain.tekBalance = 1000n;
+    const swapped: bigint[] = [];
+    stubSwap(async (amountTek) => {
+      swapped.push(amountTek);
+      if (swapped.length === 2) {
+        chain.tekBalance -= amountTek;
+        throw new Error('Blockhash expired while confirming');
+      }
+      throw new Error('Pool busy');
+    });
+    await rejects(TaxService.completeWithdrawnTax(context));
+    assertEqual(swapped.map(String), ['400', '300'], 'batches attempted');
+    assertEqual([swapStatus(0), swapStatus(1), swapStatus(2)], ['FAILED', 'STARTED', undefined], 'swap statuses');
+  });
+
+  section('Test 3: Swap reconciliation on resume');
+  await check('a started swap whose TEK left the wallet is credited with the SOL received', async () => {
+    startCycle(1000n, [1000n]);
+    recordStepStarted('SWAP', { amountTek: '1000', tekBalanceBefore: '1000', solBalanceBefore: '5000' }, { batchIndex: 0 });
+    chain.tekBalance = 0n;
+    chain.solBalance = 9000n;
+    const continued = await resumeReconciliation();
+    const step = findJournalStep(activeJournal(), 'SWAP', 0);
+    assertEqual(step?.status, 'CONFIRMED', 'swap status');
+    assertEqual(step?.data.solReceived, '4000', 'SOL received');
+    assertEqual(continued?.withdrawnAmount.toString(), '1000', 'cycle continued with the withdrawn amount');
+  });
+
+  await check('a started swap whose TEK is still in the wallet is FAILED so it is retried', async () => {
+    startCycle(1000n, [1000n]);
+    recordStepStarted('SWAP', { amountTek: '1000', tekBalanceBefore: '1000', solBalanceBefore: '5000' }, { batchIndex: 0 });
+    chain.tekBalance = 1000n;
+    await resumeReconciliation();
+    assertEqual(swapStatus(0), 'FAILED', 'swap status');
+  });
+
+  await check('a failed swap whose TEK left the wallet anyway is credited', async () => {
+    startCycle(1000n, [500n, 500n]);
+    recordStepStarted('SWAP', { amountTek: '500', tekBalanceBefore: '1000', solBalanceBefore: '100' }, { batchIndex: 0 });
+    recordStepFailed('SWAP', 'Confirmation timed out', 0);
+    recordStepStarted('SWAP', { amountTek: '500', tekBalanceBefore: '1000', solBalanceBefore: '100' }, { batchIndex: 1 });
+    recordStepConfirmed('SWAP', { batchIndex: 1, signature: 'swap-1', data: { solReceived: '40' } });
+    chain.tekBalance = 0n;
+    chain.solBalance = 170n;
+    await resumeReconciliation();
+    const step = findJournalStep(activeJournal(), 'SWAP', 0);
+    assertEqual(step?.status, 'CONFIRMED', 'swap status');
+    assertEqual(step?.data.solReceived, '30', 'SOL received (without the later batch)');
+  });
+
+  await check('a failed swap is not credited with the TEK of a later batch', async () => {
+    startCycle(1000n, [500n, 500n]);
+    recordStepStarted('SWAP', { amountTek: '500', tekBalanceBefore: '1000', solBalanceBefore: '100' }, { batchIndex: 0 });
+    recordStepFailed('SWAP', 'Quote expired', 0);
+    recordStepStarted('SWAP', { amountTek: '500', tekBalanceBefore: '1000', solBalanceBefore: '100' }, { batchIndex: 1 });
+    recordStepConfirmed('SWAP', { batchIndex: 1, signature: 'swap-1', data: { solReceived: '40' } });
+    chain.tekBalance = 500n;
+    chain.solBalance = 140n;
+    await resumeReconciliation();
+    assertEqual([swapStatus(0), swapStatus(1)], ['FAILED', 'CONFIRMED'], 'swap statuses');
+  });
+
+  await check('an interrupted withdrawal that did not land aborts the cycle', async () => {
+    if (getActiveCycleJournal()) {
+      finishCycleJournal('ABORTED', 'Next scenario');
+    }
+    beginCycleJournal('2026-01-01', 3);
+    recordStepStarted('WITHDRAW', { balanceBefore: '1000', decimals: '6' });
+    chain.tekBalance = 1000n;
+    assertEqual(await resumeReconciliation(), null, 'cycle continued');
+    assertEqual(getActiveCycleJournal(), null, 'journal still active');
+    assertEqual(getCycleJournalHistory(1)[0]?.abortReason, 'Interrupted withdrawal did not land', 'abort reason');
+  });
+
+  section('Test 4: Holder payouts on resume');
+  await check('sent payouts are confirmed or reset to pending by their transaction outcome', async () => {
+    startCycle(1000n, [1000n]);
+    recordStepConfirmed('SWAP', { batchIndex: 0, signature: 'swap-0', data: { solReceived: '0' } });
+    recordHolderPayoutsPlanned([
+      { pubkey: 'holder-a', amountLamports: 10n },
+      { pubkey: 'holder-b', amountLamports: 20n },
+      { pubkey: 'holder-c', amountLamports: 30n },
+      { pubkey: 'holder-d', amountLamports: 40n },
+    ]);
+    updateHolderPayouts([
+      { pubkey: 'holder-a', update: { status: 'SENT', signature: 'landed', lastValidBlockHeight: 10 } },
+      { pubkey: 'holder-b', update: { status: 'SENT', signature: 'landed', lastValidBlockHeight: 10 } },
+      { pubkey: 'holder-c', update: { status: 'SENT', signature: 'dropped', lastValidBlockHeight: 10 } },
+    ]);
+    chain.landedSignatures.add('landed');
+    await resumeReconciliation();
+    const payouts = activeJournal().holderPayouts!;
+    assertEqual(payouts.map((p) => p.status), ['CONFIRMED', 'CONFIRMED', 'PENDING', 'PENDING'], 'statuses');
+    assertEqual(payouts[2].signature, null, 'signature of the dropped payout');
+  });
+
+  await check('a holder distribution that fails before planning any payout is left for resume', async () => {
+    startCycle(1000n, [1000n]);
+    recordStepConfirmed('SWAP', { batchIndex: 0, signature: 'swap-0', data: { solReceived: '1000000' } });
+    let attempts = 0;
+    Object.assign(solDistribution, {
+      distributeSolToHolders: async () => {
+        attempts++;
+        throw new Error('Failed to fetch token holders');
+      },
+    });
+    for (let run = 0; run < 2; run++) {
+      const message = await rejects(TaxService.completeWithdrawnTax({ ...context, resumed: run > 0 }));
+      assert(message.includes('before any payout was planned'), `unexpected error: ${message}`);
+      assertEqual(findJournalStep(activeJournal(), 'HOLDER_TRANSFERS')?.status, 'STARTED', 'holder step status');
+    }
+    assertEqual(attempts, 2, 'distribution attempts');
+  });
+
+  section('Test 5: Reward asset swap');
+  const startAssetSwap = (signature: string): void => {
+    startCycle(1000n, [1000n]);
+    recordStepConfirmed('SWAP', { batchIndex: 0, signature: 'swap-0', data: { solReceived: '0' } });
+    recordHolderPayoutsPlanned([{ pubkey: 'holder-a', amountLamports: 600n }, { pubkey: 'holder-b', amountLamports: 400n }]);
+    recordStepStarted('HOLDER_TRANSFERS', { holdersSol: '1000' });
+    recordStepStarted('ASSET_SWAP', {
+      symbol: 'USDC',
+      mint: 'usdc-mint',
+      decimals: '6',
+      lamportsPlanned: '1000',
+      rentLamports: '0',
+      accountsCreated: '0',
+      assetBalanceBefore: '50',
+    }, { signature, lastValidBlockHeight: 10 });
+  };
+
+  await check('resume records a landed asset swap from the asset balance', async () => {
+    startAssetSwap('asset-swap-landed');
+    chain.landedSignatures.add('asset-swap-landed');
+    chain.assetBalance = 5050n;
+    await resumeReconciliation();
+    const journal = activeJournal();
+    assertEqual(findJournalStep(journal, 'ASSET_SWAP')?.status, 'CONFIRMED', 'asset swap status');
+    assertEqual(
+      [journal.assetConversion?.amountReceived, journal.assetConversion?.signature, journal.assetConversion?.symbol],
+      ['5000', 'asset-swap-landed', 'USDC'],
+      'conversion'
+    );
+  });
+
+  await check('resume fails an asset swap that did not land so the asset is bought again', async () => {
+    startAssetSwap('asset-swap-dropped');
+    await resumeReconciliation();
+    const journal = activeJournal();
+    assertEqual(findJournalStep(journal, 'ASSET_SWAP')?.status, 'FAILED', 'asset swap status');
+    assertEqual(journal.assetConversion ?? null, null, 'conversion');
+  });
+
+  await check('payouts whose asset swap landed are left for resume instead of queued as SOL', async () => {
+    startCycle(1000n, [1000n]);
+    recordStepConfirmed('SWAP', { batchIndex: 0, signature: 'swap-0', data: { solReceived: '1000000' } });
+    chain.landedSignatures.add('asset-swap-lost');
+    chain.assetBalance = 5050n;
+    Object.assign(solDistribution, {
+      distributeSolToHolders: async (_lamports: bigint, options: solDistribution.SolDistributionOptions = {}) => {
+        options.onPayoutsPlanned?.([{ pubkey: 'holder-a', amountLamports: 1000n }]);
+        options.onAssetSwapStarted?.({
+          symbol: 'USDC',
+          mint: 'usdc-mint',
+          decimals: 6,
+          lamportsPlanned: 1000n,
+          rentLamports: 0n,
+          accountsCreated: 0,
+          signature: 'asset-swap-lost',
+          assetBalanceBefore: 50n,
+          lastValidBlockHeight: 10,
+        });
+        throw new Error('Transaction was not confirmed in 60.00 seconds');
+      },
+    });
+    const message = await rejects(TaxService.completeWithdrawnTax(context));
+    assert(message.includes('after the reward asset swap was sent'), `unexpected error: ${message}`);
+    const journal = activeJournal();
+    assertEqual(findJournalStep(journal, 'HOLDER_TRANSFERS')?.status, 'STARTED', 'holder step status');
+    assertEqual(journal.assetConversion?.amountReceived, '5000', 'asset bought');
+    assertEqual(getQueuedPayouts({ pubkey: 'holder-a' }).length, 0, 'queued payouts');
+  });
+
+  finish('Cycle journal resume');
+}
+
+main().catch((error) => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * Shared setup for the offline test scripts (test-*.ts that need no cluster)
+ *
+ * Import it first: it points storage at a fresh temporary directory and fills
+ * the required configuration with placeholders (the RPC URL is never
+ * contacted), so the scripts need no .env and never touch real state. Backend
+ * logs are muted unless TEST_VERBOSE=true.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { logger } from './src/utils/logger';
+
+export const TEST_STORAGE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'tek-test-'));
+
+const rewardWallet = Keypair.generate();
+export const TEST_REWARD_WALLET = rewardWallet.publicKey;
+
+process.env.STORAGE_DIR = TEST_STORAGE_DIR;
+process.env.STORAGE_BACKEND = 'file';
+process.env.SOLANA_RPC_URL = 'http://127.0.0.1:1'; // Never contacted - chain calls are stubbed
+process.env.TOKEN_MINT = Keypair.generate().publicKey.toBase58();
+process.env.ADMIN_WALLET_JSON = JSON.stringify(Array.from(Keypair.generate().secretKey));
+process.env.REWARD_WALLET_PRIVATE_KEY_JSON = JSON.stringify(Array.from(rewardWallet.secretKey));
+process.env.REWARD_WALLET_ADDRESS = rewardWallet.publicKey.toBase58();
+
+process.on('exit', () => {
+  fs.rmSync(TEST_STORAGE_DIR, { recursive: true, force: true });
+});
+
+if (process.env.TEST_VERBOSE !== 'true') {
+  logger.info = () => undefined;
+  logger.warn = () => undefined;
+  logger.error = () => undefined;
+  logger.debug = () => undefined;
+}
+
+let failures = 0;
+
+/**
+ * Print a section header
+ */
+export function section(title: string): void {
+  console.log();
+  console.log(title);
+  console.log('-'.repeat(60));
+}
+
+/**
+ * Run one check and report it
+ */
+export async function check(name: string, fn: () => void | Promise<void>): Promise<void> {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.error(`❌ ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+export function assertEqual<T>(actual: T, expected: T, what: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+/**
+ * Print the result and exit with status 1 if any check failed
+ */
+export function finish(title: string): void {
+  console.log();
+  console.log('='.repeat(60));
+  if (failures > 0) {
+    console.error(`❌ ${title}: ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log(`✅ ${title}: all checks passed`);
+}
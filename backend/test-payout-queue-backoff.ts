@@ -0,0 +1,205 @@
+/**
+ * Offline test of the payout queue
+ *
+ * This script tests:
+ * 1. Failed payouts are queued once per cycle and are not retried before they are due
+ * 2. Failed retries back off exponentially up to PAYOUT_RETRY_MAX_DELAY_MS and
+ *    the entry is marked failed (still owed) after PAYOUT_MAX_RETRIES
+ * 3. Insufficient balance is retried without counting as a failed retry, and a
+ *    new amount owed re-opens an exhausted entry
+ * 4. In-flight retries are reconciled from their transaction outcome before
+ *    anything is sent again, and paid entries close
+ * 5. The amount owed is reserved (getQueuedOwedLamports)
+ *
+ * The clock is simulated, distributeSolToHolders is replaced by a stub that
+ * settles the transfers as each scenario needs and signature statuses are
+ * stubbed on the shared connection.
+ *
+ * Run with: npx ts-node --transpile-only test-payout-queue-backoff.ts
+ */
+
+import { section, check, assert, assertEqual, finish } from './test-offline-setup';
+import { connection } from './src/config/solana';
+import { PAYOUT_QUEUE_CONFIG } from './src/config/constants';
+import * as solDistribution from './src/services/solDistributionService';
+import {
+  enqueueFailedPayouts,
+  getQueuedOwedLamports,
+  getQueuedPayouts,
+  processPayoutQueue,
+  type QueuedPayout,
+} from './src/services/payoutQueueService';
+
+const MINUTE = 60 * 1000;
+
+// Simulated clock
+let clock = Date.parse('2026-01-01T00:00:00Z');
+Date.now = () => clock;
+
+const landedSignatures = new Set<string>();
+Object.assign(connection, {
+  getBlockHeight: async () => 1000, // Every retry blockhash (valid until 10) has expired
+  getSignatureStatuses: async (signatures: string[]) => ({
+    context: { slot: 1 },
+    value: signatures.map((signature) => (landedSignatures.has(signature)
+      ? { slot: 1, confirmations: null, err: null, confirmationStatus: 'confirmed' as const }
+      : null)),
+  }),
+});
+
+type Settle = (pubkey: string) => { signature: string } | { error: string } | 'in-flight';
+
+let sentPubkeys: string[] = [];
+
+/**
+ * Replace distributeSolToHolders: sign every planned payout, then settle it with settle()
+ */
+function stubDistribution(settle: Settle): void {
+  const distributeSolToHolders: typeof solDistribution.distributeSolToHolders = async (_lamports, options = {}) => {
+    const planned = options.plannedRewards ?? [];
+    sentPubkeys = planned.map((reward) => reward.pubkey);
+    options.onTransfersSigned?.(sentPubkeys, `retry-${clock}`, 10);
+
+    const outcomes = planned.map((reward) => ({ pubkey: reward.pubkey, outcome: settle(reward.pubkey) }));
+    const settled = outcomes.flatMap(({ pubkey, outcome }) => (outcome === 'in-flight' ? [] : [{ pubkey, outcome }]));
+    options.onTransfersSettled?.(settled);
+
+    return {
+      success: true,
+      distributedCount: settled.filter(({ outcome }) => 'signature' in outcome).length,
+      totalDistributed: 0n,
+      skippedCount: 0,
+      signatures: [],
+      errors: [],
+    };
+  };
+  Object.assign(solDistribution, { distributeSolToHolders });
+}
+
+function entryOf(pubkey: string): QueuedPayout {
+  const entry = getQueuedPayouts({ pubkey })[0] ?? getQueuedPayouts({ pubkey, status: 'paid' })[0];
+  assert(entry, `no queue entry for ${pubkey}`);
+  return entry;
+}
+
+/**
+ * Move the clock to the entry's next attempt and process the queue
+ */
+async function retryWhenDue(pubkey: string): Promise<void> {
+  const { nextAttemptAt } = entryOf(pubkey);
+  assert(nextAttemptAt !== null, `${pubkey} has no next attempt`);
+  clock = nextAttemptAt;
+  await processPayoutQueue();
+}
+
+function cycle(journalId: string) {
+  return { journalId, epoch: '2026-01-01', cycleNumber: 1 };
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Testing Payout Queue Backoff');
+  console.log('='.repeat(60));
+
+  section('Test 1: Queueing');
+  await check('failed payouts are queued once per cycle', () => {
+    const payouts = [{ pubkey: 'holder-a', amountLamports: 1000n, reason: 'TRANSFER_FAILED' as const }];
+    assertEqual(enqueueFailedPayouts(payouts, cycle('cycle-1')), 1, 'added');
+    assertEqual(enqueueFailedPayouts(payouts, cycle('cycle-1')), 0, 'added again');
+    const entry = entryOf('holder-a');
+    assertEqual(entry.amountLamports, '1000', 'amount owed');
+    assertEqual(entry.nextAttemptAt, clock + PAYOUT_QUEUE_CONFIG.RETRY_BASE_DELAY_MS, 'first attempt');
+  });
+
+  await check('entries are not retried before they are due', async () => {
+    let called = false;
+    stubDistribution(() => {
+      called = true;
+      return { error: 'unexpected' };
+    });
+    assertEqual(await processPayoutQueue(), { attempted: 0, paid: 0, unpaid: 0 }, 'result');
+    assert(!called, 'distribution called');
+  });
+
+  section('Test 2: Backoff');
+  await check('failed retries back off exponentially up to the maximum delay', async () => {
+    stubDistribution(() => ({ error: 'Transaction simulation failed' }));
+    const delays: number[] = [];
+    for (let retry = 1; retry < PAYOUT_QUEUE_CONFIG.MAX_RETRIES; retry++) {
+      await retryWhenDue('holder-a');
+      const entry = entryOf('holder-a');
+      assertEqual(entry.retryCount, retry, 'retry count');
+      delays.push((entry.nextAttemptAt! - clock) / MINUTE);
+    }
+    assertEqual(delays, [10, 20, 40, 80, 160, 320, 360], 'delays (minutes)');
+  });
+
+  await check('an entry that exhausts its retries is failed but stays owed', async () => {
+    await retryWhenDue('holder-a');
+    const entry = entryOf('holder-a');
+    assertEqual([entry.status, entry.nextAttemptAt, entry.amountLamports], ['failed', null, '1000'], 'entry');
+    assertEqual(entry.attempts.length, PAYOUT_QUEUE_CONFIG.MAX_RETRIES, 'attempts recorded');
+  });
+
+  await check('a new amount owed re-opens an exhausted entry', () => {
+    enqueueFailedPayouts([{ pubkey: 'holder-a', amountLamports: 500n, reason: 'TRANSFER_FAILED' }], cycle('cycle-2'));
+    const entry = entryOf('holder-a');
+    assertEqual([entry.status, entry.retryCount, entry.amountLamports], ['pending', 0, '1500'], 'entry');
+    assertEqual(entry.nextAttemptAt, clock + PAYOUT_QUEUE_CONFIG.RETRY_BASE_DELAY_MS, 'next attempt');
+  });
+
+  section('Test 3: Insufficient balance');
+  await check('insufficient balance is retried without counting as a failed retry', async () => {
+    enqueueFailedPayouts([{ pubkey: 'holder-b', amountLamports: 2000n, reason: 'INSUFFICIENT_BALANCE' }], cycle('cycle-2'));
+    stubDistribution(() => ({ error: 'INSUFFICIENT_BALANCE' }));
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await retryWhenDue('holder-b');
+      const entry = entryOf('holder-b');
+      assertEqual(entry.retryCount, 0, 'retry count');
+      assertEqual(entry.nextAttemptAt, clock + PAYOUT_QUEUE_CONFIG.RETRY_BASE_DELAY_MS, 'next attempt');
+    }
+    assertEqual(entryOf('holder-b').attempts.map((a) => a.result), Array(3).fill('INSUFFICIENT_BALANCE'), 'attempts');
+  });
+
+  section('Test 4: Paying');
+  await check('a retry whose outcome is unknown is reconciled before anything is sent again', async () => {
+    stubDistribution((pubkey) => (pubkey === 'holder-b' ? 'in-flight' : { error: 'Transaction simulation failed' }));
+    await retryWhenDue('holder-b');
+    const inFlight = entryOf('holder-b').inFlight;
+    assert(inFlight, 'retry not marked in flight');
+    landedSignatures.add(inFlight.signature);
+
+    stubDistribution(() => ({ error: 'sent twice' }));
+    clock += PAYOUT_QUEUE_CONFIG.RETRY_MAX_DELAY_MS;
+    sentPubkeys = [];
+    await processPayoutQueue();
+    const entry = entryOf('holder-b');
+    assertEqual([entry.status, entry.paidSignature], ['paid', inFlight.signature], 'entry');
+    assert(!sentPubkeys.includes('holder-b'), 'paid retry sent again');
+  });
+
+  await check('a paid retry closes the entry', async () => {
+    stubDistribution(() => ({ signature: 'paid-a' }));
+    await retryWhenDue('holder-a');
+    const entry = entryOf('holder-a');
+    assertEqual([entry.status, entry.paidSignature, entry.nextAttemptAt], ['paid', 'paid-a', null], 'entry');
+    assertEqual(getQueuedPayouts().length, 0, 'open entries');
+  });
+
+  section('Test 5: Reserve');
+  await check('payouts still owed are reserved, except those being paid', () => {
+    enqueueFailedPayouts([
+      { pubkey: 'holder-c', amountLamports: 300n, reason: 'TRANSFER_FAILED' },
+      { pubkey: 'holder-d', amountLamports: 700n, reason: 'INSUFFICIENT_BALANCE' },
+    ], cycle('cycle-3'));
+    assertEqual(getQueuedOwedLamports().toString(), '1000', 'owed');
+    assertEqual(getQueuedOwedLamports(new Set(['holder-c'])).toString(), '700', 'owed except holder-c');
+  });
+
+  finish('Payout queue backoff');
+}
+
+main().catch((error) => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
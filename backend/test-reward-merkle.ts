@@ -0,0 +1,172 @@
+/**
+ * Offline test of the epoch reward Merkle proofs
+ *
+ * This script tests:
+ * 1. Leaf hashes of the backend (rewardMerkleService) and the frontend verifier
+ *    (frontend/src/utils/merkleProof.ts) agree
+ * 2. Every proof served for a published epoch verifies in the frontend against
+ *    the published root, for trees of 1 to 9 leaves (odd nodes carried up)
+ * 3. Tampered leaves, proofs and roots are rejected
+ * 4. Proofs are only served once the epoch root is published
+ *
+ * The frontend verifier is an ES module of the frontend package; it is
+ * transpiled to CommonJS here and runs on Node's Web Crypto. Publication
+ * transactions are stubbed.
+ *
+ * Run with: npx ts-node --transpile-only test-reward-merkle.ts
+ */
+
+import { section, check, assert, assertEqual, finish } from './test-offline-setup';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { Keypair } from '@solana/web3.js';
+import * as transactions from './src/utils/transactions';
+import {
+  getMerkleRoot,
+  getWalletEpochProof,
+  hashAllocationLeaf,
+  publishPendingEpochRoots,
+  recordEpochAllocations,
+  type RewardAllocationLeaf,
+} from './src/services/rewardMerkleService';
+
+interface FrontendMerkleProof {
+  hashAllocationLeaf(leaf: RewardAllocationLeaf): Promise<string>;
+  verifyAllocationProof(leaf: RewardAllocationLeaf, proof: string[], root: string): Promise<boolean>;
+}
+
+/**
+ * Load frontend/src/utils/merkleProof.ts (its only import is type-only)
+ */
+function loadFrontendMerkleProof(): FrontendMerkleProof {
+  const filename = path.join(__dirname, '..', 'frontend', 'src', 'utils', 'merkleProof.ts');
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  const moduleExports = {} as FrontendMerkleProof;
+  new Function('exports', outputText)(moduleExports);
+  return moduleExports;
+}
+
+let memoSignatures = 0;
+Object.assign(transactions, {
+  signInstructions: async () => ({}),
+  sendSignedTransaction: async () => `memo-signature-${++memoSignatures}`,
+});
+
+type CyclePayout = Parameters<typeof recordEpochAllocations>[1][number];
+
+/**
+ * Confirmed payouts of one cycle; every third holder has no recorded eligible balance
+ */
+function cyclePayouts(wallets: string[], cycle: number): CyclePayout[] {
+  return wallets.map((wallet, index) => ({
+    pubkey: wallet,
+    amountLamports: String(1_000_000 * (index + 1) + cycle),
+    status: 'CONFIRMED',
+    signature: `payout-${cycle}-${index}`,
+    eligibleBalance: index % 3 === 2 ? undefined : String(5_000_000_000 * (index + 1)),
+  }));
+}
+
+function epochOf(leafCount: number): string {
+  return `2020-01-${String(leafCount).padStart(2, '0')}`;
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Testing Reward Merkle Proofs');
+  console.log('='.repeat(60));
+
+  const frontend = loadFrontendMerkleProof();
+  const wallets = Array.from({ length: 6 }, () => Keypair.generate().publicKey.toBase58());
+
+  section('Test 1: Leaf hashes');
+  await check('backend and frontend hash leaves the same way', async () => {
+    const leaves: RewardAllocationLeaf[] = [
+      { wallet: wallets[0], eligibleBalance: '5000000000', rewardLamports: '1000000', signature: 'sig-1' },
+      { wallet: wallets[1], eligibleBalance: null, rewardLamports: '0', signature: 'sig-2' },
+      { wallet: 'wallet-ü', eligibleBalance: '', rewardLamports: '1', signature: 'sig-3' },
+    ];
+    for (const leaf of leaves) {
+      assertEqual(await frontend.hashAllocationLeaf(leaf), hashAllocationLeaf(leaf), `hash of ${leaf.signature}`);
+    }
+  });
+
+  section('Test 2: Proofs');
+  // Epoch N holds N leaves: cycle 1 pays up to six wallets, cycle 2 pays the
+  // first wallets again so a wallet can hold several leaves
+  for (let leafCount = 1; leafCount <= 9; leafCount++) {
+    const epoch = epochOf(leafCount);
+    recordEpochAllocations({ journalId: `${epoch}-cycle-1`, epoch }, cyclePayouts(wallets.slice(0, Math.min(leafCount, 6)), 1));
+    recordEpochAllocations({ journalId: `${epoch}-cycle-2`, epoch }, cyclePayouts(wallets.slice(0, Math.max(0, leafCount - 6)), 2));
+  }
+
+  await check('proofs are only served once the epoch root is published', () => {
+    assertEqual(getWalletEpochProof(epochOf(1), wallets[0]), null, 'unpublished proof');
+  });
+
+  const published = await publishPendingEpochRoots();
+
+  await check('every epoch root is published', () => {
+    assertEqual(published.map((publication) => publication.leafCount), [1, 2, 3, 4, 5, 6, 7, 8, 9], 'leaf counts');
+  });
+
+  await check('every served proof verifies in the frontend against the published root', async () => {
+    for (let leafCount = 1; leafCount <= 9; leafCount++) {
+      const epoch = epochOf(leafCount);
+      let verified = 0;
+      for (const wallet of wallets) {
+        const walletProof = getWalletEpochProof(epoch, wallet);
+        if (!walletProof) {
+          continue;
+        }
+        assert(walletProof.memo.includes(`:${epoch}:${walletProof.root}:${leafCount}`), `memo of ${epoch}: ${walletProof.memo}`);
+        for (const { leaf, leafHash, proof } of walletProof.allocations) {
+          assertEqual(await frontend.hashAllocationLeaf(leaf), leafHash, `leaf hash in ${epoch}`);
+          assert(await frontend.verifyAllocationProof(leaf, proof, walletProof.root), `proof of ${leaf.signature} in ${epoch}`);
+          verified++;
+        }
+      }
+      assertEqual(verified, leafCount, `verified leaves in ${epoch}`);
+    }
+  });
+
+  await check('the published root is the root of the recorded leaves', () => {
+    const walletProof = getWalletEpochProof(epochOf(9), wallets[0]);
+    assert(walletProof, 'no proof');
+    assertEqual(walletProof.allocations.length, 2, 'allocations of a wallet paid twice');
+    const leaves = [
+      ...cyclePayouts(wallets, 1),
+      ...cyclePayouts(wallets.slice(0, 3), 2),
+    ].map((payout) => ({
+      wallet: payout.pubkey,
+      eligibleBalance: payout.eligibleBalance ?? null,
+      rewardLamports: payout.amountLamports,
+      signature: payout.signature!,
+    }));
+    assertEqual(getMerkleRoot(leaves), walletProof.root, 'root');
+  });
+
+  section('Test 3: Tampering');
+  await check('tampered leaves, proofs and roots are rejected', async () => {
+    const walletProof = getWalletEpochProof(epochOf(7), wallets[4]);
+    assert(walletProof, 'no proof');
+    const { leaf, proof } = walletProof.allocations[0];
+    const { root } = walletProof;
+    assert(await frontend.verifyAllocationProof(leaf, proof, root.toUpperCase()), 'upper-case root rejected');
+    assert(!(await frontend.verifyAllocationProof({ ...leaf, rewardLamports: '999999999' }, proof, root)), 'tampered reward accepted');
+    assert(!(await frontend.verifyAllocationProof({ ...leaf, wallet: wallets[5] }, proof, root)), 'other wallet accepted');
+    assert(!(await frontend.verifyAllocationProof(leaf, proof.slice(1), root)), 'shortened proof accepted');
+    assert(!(await frontend.verifyAllocationProof(leaf, proof, getWalletEpochProof(epochOf(8), wallets[4])!.root)), 'other epoch root accepted');
+  });
+
+  finish('Reward Merkle proofs');
+}
+
+main().catch((error) => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+/**
+ * Offline test of the storage layer
+ *
+ * This script tests:
+ * 1. Both backends (file, SQLite) read, write, update and list documents
+ * 2. The file backend waits a bounded time for a lock held by another process
+ *    and breaks stale locks and locks of processes that are no longer running
+ * 3. Legacy JSON state files are imported once, reward-state.json is split,
+ *    existing documents are never overwritten and a malformed file leaves the
+ *    import to be retried
+ * 4. Documents from a newer schema version are refused
+ *
+ * Run with: npx ts-node --transpile-only test-storage-migrations.ts
+ */
+
+import { TEST_STORAGE_DIR, section, check, assert, assertEqual, finish } from './test-offline-setup';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { FileStorageBackend } from './src/storage/fileBackend';
+import { SqliteStorageBackend } from './src/storage/sqliteBackend';
+import { importLegacyJsonFiles, type StorageMeta } from './src/storage/migrations';
+import { upgradeDocument } from './src/storage/schema';
+import { STORAGE_KEYS, type StorageBackend } from './src/storage/types';
+
+function doc(data: unknown) {
+  return { schemaVersion: 1, updatedAt: Date.now(), data };
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Testing Storage Backends and Migrations');
+  console.log('='.repeat(60));
+
+  section('Test 1: Backends');
+  const backends: StorageBackend[] = [
+    new FileStorageBackend(path.join(TEST_STORAGE_DIR, 'backends', 'state')),
+    new SqliteStorageBackend(path.join(TEST_STORAGE_DIR, 'backends', 'tek-state.db')),
+  ];
+  for (const backend of backends) {
+    await check(`${backend.kind}: write, read, update, remove`, () => {
+      assertEqual(backend.read(STORAGE_KEYS.UNPAID_REWARDS), null, 'missing document');
+      backend.write(STORAGE_KEYS.UNPAID_REWARDS, doc({ unpaidRewards: { a: 1 } }));
+      const updated = backend.update(STORAGE_KEYS.UNPAID_REWARDS, (current) =>
+        doc({ unpaidRewards: { ...(current?.data as { unpaidRewards: Record<string, number> }).unpaidRewards, b: 2 } })
+      );
+      assertEqual(updated.data, { unpaidRewards: { a: 1, b: 2 } }, 'updated data');
+      assertEqual(backend.read(STORAGE_KEYS.UNPAID_REWARDS)?.data, { unpaidRewards: { a: 1, b: 2 } }, 'read back');
+      assertEqual(backend.keys(), [STORAGE_KEYS.UNPAID_REWARDS], 'keys');
+      backend.remove(STORAGE_KEYS.UNPAID_REWARDS);
+      assertEqual(backend.keys(), [], 'keys after remove');
+    });
+    backend.close();
+  }
+
+  section('Test 2: File lock');
+  const lockDir = path.join(TEST_STORAGE_DIR, 'lock', 'state');
+  const locked = new FileStorageBackend(lockDir);
+  const lockPath = path.join(lockDir, '.lock');
+
+  await check('a lock held by a running process fails the write after a bounded wait', () => {
+    fs.writeFileSync(lockPath, String(process.ppid));
+    const startedAt = Date.now();
+    let message = '';
+    try {
+      locked.write(STORAGE_KEYS.BLACKLIST, doc({}));
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    const waitedMs = Date.now() - startedAt;
+    assert(message.includes(`pid ${process.ppid}`), `expected a lock error, got "${message}"`);
+    assert(waitedMs >= 300 && waitedMs < 2000, `waited ${waitedMs} ms for the lock`);
+    assertEqual(locked.read(STORAGE_KEYS.BLACKLIST), null, 'document written despite the lock');
+  });
+
+  await check('a lock of a process that is no longer running is removed', () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    fs.writeFileSync(lockPath, String(pid));
+    locked.write(STORAGE_KEYS.BLACKLIST, doc({ entries: ['dead-holder'] }));
+    assertEqual(locked.read(STORAGE_KEYS.BLACKLIST)?.data, { entries: ['dead-holder'] }, 'written data');
+    assert(!fs.existsSync(lockPath), 'lock left behind');
+  });
+
+  await check('a stale lock is removed', () => {
+    fs.writeFileSync(lockPath, String(process.ppid));
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+    locked.write(STORAGE_KEYS.BLACKLIST, doc({ entries: [] }));
+    assertEqual(locked.read(STORAGE_KEYS.BLACKLIST)?.data, { entries: [] }, 'written data');
+    assert(!fs.existsSync(lockPath), 'lock left behind');
+  });
+
+  section('Test 3: Legacy import');
+  const legacyDir = path.join(TEST_STORAGE_DIR, 'legacy');
+  fs.mkdirSync(path.join(legacyDir, 'exports'), { recursive: true });
+  const originalCwd = process.cwd();
+  process.chdir(legacyDir);
+
+  fs.writeFileSync('reward-state.json', JSON.stringify({ lastRun: 1, taxState: { totalTaxCollected: '5' } }));
+  fs.writeFileSync('unpaid-rewards.json', JSON.stringify({ unpaidRewards: { wallet: 3 } }));
+  fs.writeFileSync(path.join('exports', 'manifest.json'), JSON.stringify({ latest: null, exports: [], lastUpdated: 'x' }));
+  fs.writeFileSync('reward-history.json', '[1, 2]'); // Not an object - import must stop
+
+  const legacy = new FileStorageBackend(path.join(legacyDir, 'state'));
+  legacy.write(STORAGE_KEYS.UNPAID_REWARDS, doc({ unpaidRewards: { existing: 1 } }));
+
+  await check('a malformed legacy file fails the import and leaves it unfinished', () => {
+    let message = '';
+    try {
+      importLegacyJsonFiles(legacy);
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    assert(message.includes('reward-history.json'), `expected an error naming the file, got "${message}"`);
+    assertEqual(legacy.read(STORAGE_KEYS.STORAGE_META), null, 'storage meta written');
+  });
+
+  await check('the retried import splits reward-state and keeps existing documents', () => {
+    fs.writeFileSync('reward-history.json', JSON.stringify({ rewardCycles: [], historicalPayouts: [] }));
+    importLegacyJsonFiles(legacy);
+    assertEqual(legacy.read(STORAGE_KEYS.REWARD_STATE)?.data, { lastRun: 1 }, 'reward-state');
+    assertEqual(legacy.read(STORAGE_KEYS.TAX_STATE)?.data, { totalTaxCollected: '5' }, 'tax-state');
+    assertEqual(legacy.read(STORAGE_KEYS.UNPAID_REWARDS)?.data, { unpaidRewards: { existing: 1 } }, 'unpaid-rewards');
+    assertEqual(legacy.read(STORAGE_KEYS.REWARD_HISTORY)?.data, { rewardCycles: [], historicalPayouts: [] }, 'reward-history');
+    assertEqual(legacy.read(STORAGE_KEYS.EXPORT_MANIFEST)?.data, { latest: null, exports: [], lastUpdated: 'x' }, 'manifest');
+    const meta = legacy.read(STORAGE_KEYS.STORAGE_META)?.data as StorageMeta;
+    assert(meta.legacyImport !== null, 'import not recorded');
+  });
+
+  await check('the import runs only once', () => {
+    fs.writeFileSync('reward-state.json', JSON.stringify({ lastRun: 2 }));
+    importLegacyJsonFiles(legacy);
+    assertEqual(legacy.read(STORAGE_KEYS.REWARD_STATE)?.data, { lastRun: 1 }, 'reward-state after second run');
+  });
+
+  process.chdir(originalCwd);
+
+  section('Test 4: Schema versions');
+  await check('current documents pass through', () => {
+    assertEqual(upgradeDocument(STORAGE_KEYS.BLACKLIST, doc({ entries: [] })), { entries: [] }, 'data');
+  });
+
+  await check('documents from a newer build are refused', () => {
+    let message = '';
+    try {
+      upgradeDocument(STORAGE_KEYS.BLACKLIST, { schemaVersion: 99, updatedAt: 0, data: {} });
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    assert(message.includes('schema version 99'), `expected a version error, got "${message}"`);
+  });
+
+  finish('Storage backends and migrations');
+}
+
+main().catch((error) => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
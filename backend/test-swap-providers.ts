@@ -0,0 +1,226 @@
+/**
+ * Offline test of swap routing
+ *
+ * This script tests:
+ * 1. The Raydium provider quotes from a recorded pool state and the Jupiter
+ *    provider from a stubbed quote server
+ * 2. quoteSwapRoutes puts the best expected output first and failed quotes last
+ * 3. swapTekToSolBestRoute swaps through the best route and falls back to the
+ *    next one when a quote or swap fails
+ * 4. A failed swap that already moved the TEK is rethrown without falling back
+ *
+ * Swaps themselves are stubbed on the provider objects; the reward wallet's TEK
+ * balance is read from a stubbed connection.
+ *
+ * Run with: npx ts-node --transpile-only test-swap-providers.ts
+ */
+
+import { section, check, assert, assertEqual, finish } from './test-offline-setup';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { NATIVE_MINT } from '@solana/spl-token';
+import { connection } from './src/config/solana';
+import type { TekSolPoolState } from './src/services/swapService';
+import {
+  createJupiterProvider,
+  createRaydiumProvider,
+  quoteSwapRoutes,
+  swapTekToSolBestRoute,
+  type SwapProvider,
+} from './src/services/swapProviders';
+
+const AMOUNT_TEK = 1_000_000_000_000n; // 1M TEK (6 decimals)
+
+// Recorded TEK/SOL pool state: 50M TEK / 250 SOL, 1% TEK transfer fee
+const RECORDED_POOL_STATE: TekSolPoolState = {
+  poolType: 'Cpmm',
+  transferFeeBps: 100,
+  sourceReserve: 50_000_000_000_000n,
+  destReserve: 250_000_000_000n,
+};
+
+// Raydium quote of AMOUNT_TEK from the recorded pool state
+const RAYDIUM_EXPECTED_SOL_OUT = 4_841_758_187n;
+const RAYDIUM_MIN_SOL_OUT = 4_735_723_682n; // 2.19% slippage (transfer fee + price impact + 1%)
+
+// Stubbed quote server: answers /quote with jupiterQuote, or with its status code
+let jupiterQuote: object | number = 500;
+let lastQuoteQuery: URLSearchParams | null = null;
+
+const quoteServer = http.createServer((request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  if (url.pathname !== '/quote') {
+    response.writeHead(404).end();
+    return;
+  }
+  lastQuoteQuery = url.searchParams;
+  if (typeof jupiterQuote === 'number') {
+    response.writeHead(jupiterQuote).end('quote unavailable');
+    return;
+  }
+  response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(jupiterQuote));
+});
+
+function jupiterQuoteFor(outAmount: bigint) {
+  return {
+    inAmount: AMOUNT_TEK.toString(),
+    outAmount: outAmount.toString(),
+    otherAmountThreshold: ((outAmount * 98n) / 100n).toString(),
+    slippageBps: 200,
+    priceImpactPct: '0.0123',
+    routePlan: [
+      { swapInfo: { label: 'Raydium CPMM', ammKey: 'amm-1' } },
+      { swapInfo: { ammKey: 'amm-2' } },
+    ],
+  };
+}
+
+// Reward wallet TEK balance, as read by swapTekToSolBestRoute around each swap
+let tekBalance = 5n * AMOUNT_TEK;
+Object.assign(connection, {
+  getParsedTokenAccountsByOwner: async () => ({
+    context: { slot: 1 },
+    value: [{ account: { data: { parsed: { info: { tokenAmount: { amount: tekBalance.toString() } } } } } }],
+  }),
+});
+
+let swapsCalled: string[] = [];
+
+/**
+ * Replace a provider's swap: succeed, or fail after optionally moving the TEK
+ */
+function stubSwap(provider: SwapProvider, outcome: { solReceived: bigint } | { error: string; tekMoved?: boolean }): void {
+  provider.swap = async (quote) => {
+    swapsCalled.push(provider.name);
+    if ('error' in outcome) {
+      if (outcome.tekMoved) {
+        tekBalance -= quote.amountTek;
+      }
+      throw new Error(outcome.error);
+    }
+    tekBalance -= quote.amountTek;
+    return { solReceived: outcome.solReceived, txSignature: `${provider.name}-signature` };
+  };
+}
+
+async function rejects(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  throw new Error('expected a rejection');
+}
+
+async function main(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('Testing Swap Providers');
+  console.log('='.repeat(60));
+
+  await new Promise<void>((resolve) => quoteServer.listen(0, '127.0.0.1', resolve));
+  const { port } = quoteServer.address() as AddressInfo;
+  const apiUrl = `http://127.0.0.1:${port}/`;
+
+  const raydium = createRaydiumProvider({ loadPoolState: async () => RECORDED_POOL_STATE });
+  const jupiter = createJupiterProvider({ apiUrl });
+  const providers = [raydium, jupiter];
+
+  section('Test 1: Quotes');
+  await check('raydium quotes from the recorded pool state', async () => {
+    const quote = await raydium.quote(AMOUNT_TEK, 200);
+    assertEqual(
+      [quote.expectedSolOut.toString(), quote.minSolOut.toString(), quote.slippageBps, quote.route],
+      [RAYDIUM_EXPECTED_SOL_OUT.toString(), RAYDIUM_MIN_SOL_OUT.toString(), 219, 'Raydium Cpmm'],
+      'quote'
+    );
+  });
+
+  await check('jupiter quotes from the quote server', async () => {
+    jupiterQuote = jupiterQuoteFor(5_000_000_000n);
+    const quote = await jupiter.quote(AMOUNT_TEK, 150);
+    assertEqual(
+      [quote.expectedSolOut.toString(), quote.minSolOut.toString(), quote.priceImpactBps, quote.route],
+      ['5000000000', '4900000000', 123, 'Raydium CPMM > amm-2'],
+      'quote'
+    );
+    assert(lastQuoteQuery, 'quote server not called');
+    assertEqual(
+      [lastQuoteQuery.get('inputMint'), lastQuoteQuery.get('outputMint'), lastQuoteQuery.get('amount'), lastQuoteQuery.get('slippageBps')],
+      [process.env.TOKEN_MINT, NATIVE_MINT.toBase58(), AMOUNT_TEK.toString(), '150'],
+      'query'
+    );
+  });
+
+  section('Test 2: Route order');
+  await check('the best expected output comes first', async () => {
+    jupiterQuote = jupiterQuoteFor(5_000_000_000n);
+    assertEqual((await quoteSwapRoutes(AMOUNT_TEK, providers)).map((r) => r.provider), ['jupiter', 'raydium'], 'better jupiter quote');
+    jupiterQuote = jupiterQuoteFor(4_000_000_000n);
+    assertEqual((await quoteSwapRoutes(AMOUNT_TEK, providers)).map((r) => r.provider), ['raydium', 'jupiter'], 'worse jupiter quote');
+  });
+
+  await check('failed quotes come last with their error', async () => {
+    jupiterQuote = 503;
+    const routes = await quoteSwapRoutes(AMOUNT_TEK, [jupiter, raydium]);
+    assertEqual(routes.map((r) => r.provider), ['raydium', 'jupiter'], 'order');
+    assert(routes[1].error?.includes('Jupiter quote responded 503'), `unexpected error: ${routes[1].error}`);
+  });
+
+  section('Test 3: Routing');
+  await check('the swap goes through the best quote', async () => {
+    jupiterQuote = jupiterQuoteFor(5_000_000_000n);
+    swapsCalled = [];
+    stubSwap(jupiter, { solReceived: 4_990_000_000n });
+    stubSwap(raydium, { solReceived: 4_800_000_000n });
+    const result = await swapTekToSolBestRoute(AMOUNT_TEK, providers);
+    assertEqual(
+      [result.provider, result.route, result.solReceived.toString(), result.expectedSolOut.toString()],
+      ['jupiter', 'Raydium CPMM > amm-2', '4990000000', '5000000000'],
+      'result'
+    );
+    assertEqual(swapsCalled, ['jupiter'], 'swaps');
+  });
+
+  await check('a failed quote falls back to the next provider', async () => {
+    jupiterQuote = 500;
+    swapsCalled = [];
+    const result = await swapTekToSolBestRoute(AMOUNT_TEK, providers);
+    assertEqual([result.provider, swapsCalled], ['raydium', ['raydium']], 'result');
+  });
+
+  await check('a failed swap that left the TEK in the wallet falls back', async () => {
+    jupiterQuote = jupiterQuoteFor(5_000_000_000n);
+    swapsCalled = [];
+    stubSwap(jupiter, { error: 'Transaction simulation failed' });
+    const result = await swapTekToSolBestRoute(AMOUNT_TEK, providers);
+    assertEqual([result.provider, swapsCalled], ['raydium', ['jupiter', 'raydium']], 'result');
+  });
+
+  await check('a failed swap that moved the TEK is rethrown without falling back', async () => {
+    swapsCalled = [];
+    stubSwap(jupiter, { error: 'Transaction was not confirmed', tekMoved: true });
+    const message = await rejects(swapTekToSolBestRoute(AMOUNT_TEK, providers));
+    assertEqual([message, swapsCalled], ['Transaction was not confirmed', ['jupiter']], 'result');
+  });
+
+  await check('the swap fails when every provider fails', async () => {
+    swapsCalled = [];
+    stubSwap(jupiter, { error: 'jupiter down' });
+    stubSwap(raydium, { error: 'pool paused' });
+    const message = await rejects(swapTekToSolBestRoute(AMOUNT_TEK, providers));
+    assertEqual(message, 'All swap providers failed: jupiter: jupiter down; raydium: pool paused', 'error');
+
+    jupiterQuote = 500;
+    const noQuote = await rejects(swapTekToSolBestRoute(AMOUNT_TEK, [jupiter]));
+    assert(noQuote.startsWith('No swap provider could quote: jupiter: Jupiter quote responded 500'), `unexpected error: ${noQuote}`);
+  });
+
+  await new Promise<void>((resolve) => quoteServer.close(() => resolve()));
+
+  finish('Swap providers');
+}
+
+main().catch((error) => {
+  console.error('❌ Test run failed:', error);
+  process.exit(1);
+});
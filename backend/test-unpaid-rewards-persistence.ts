@@ -13,8 +13,6 @@
  *   2. Second run: Verifies the rewards are still there
  */
 
-import * as path from 'path';
-import * as fs from 'fs';
 import {
   getAccumulatedReward,
   addToAccumulatedReward,
@@ -23,8 +21,9 @@ import {
   getAllUnpaidRewards,
   getTotalUnpaidRewards,
 } from './src/services/unpaidRewardsService';
+import { getStorageInfo, readDocument, STORAGE_KEYS } from './src/storage';
 
-const STORAGE_FILE_PATH = path.join(process.cwd(), 'unpaid-rewards.json');
+const storageInfo = getStorageInfo();
 
 // Test wallet addresses
 const TEST_WALLET_1 = 'TestWallet111111111111111111111111111111111';
@@ -35,24 +34,23 @@ console.log('='.repeat(60));
 console.log('Testing Unpaid Rewards Persistence');
 console.log('='.repeat(60));
 console.log();
-console.log(`Storage file: ${STORAGE_FILE_PATH}`);
-console.log(`File exists: ${fs.existsSync(STORAGE_FILE_PATH)}`);
+console.log(`Storage: ${storageInfo.backend} (${storageInfo.location})`);
+console.log(`Document exists: ${storageInfo.documents.includes(STORAGE_KEYS.UNPAID_REWARDS)}`);
 console.log();
 
 // Check if this is a clean run or a persistence test
-const fileExists = fs.existsSync(STORAGE_FILE_PATH);
+const documentExists = storageInfo.documents.includes(STORAGE_KEYS.UNPAID_REWARDS);
 let existingData: Record<string, number> = {};
 
-if (fileExists) {
+if (documentExists) {
   try {
-    const fileContent = fs.readFileSync(STORAGE_FILE_PATH, 'utf-8');
-    const parsed = JSON.parse(fileContent);
+    const parsed = readDocument<any>(STORAGE_KEYS.UNPAID_REWARDS);
     existingData = parsed.unpaidRewards || parsed;
-    console.log('📄 Existing data found in storage file:');
+    console.log('📄 Existing data found in storage:');
     console.log(JSON.stringify(existingData, null, 2));
     console.log();
   } catch (error) {
-    console.log('⚠️  Could not read existing file (will continue with tests)');
+    console.log('⚠️  Could not read existing document (will continue with tests)');
     console.log();
   }
 }
@@ -209,27 +207,24 @@ try {
   process.exit(1);
 }
 
-// Test 6: Verify file exists and has correct structure
-console.log('Test 6: Verify Storage File');
+// Test 6: Verify document exists and has correct structure
+console.log('Test 6: Verify Storage Document');
 console.log('-'.repeat(60));
 try {
-  if (!fs.existsSync(STORAGE_FILE_PATH)) {
-    console.error(`❌ ERROR: Storage file does not exist at ${STORAGE_FILE_PATH}`);
+  const parsed = readDocument<any>(STORAGE_KEYS.UNPAID_REWARDS);
+  if (!parsed) {
+    console.error(`❌ ERROR: Storage document '${STORAGE_KEYS.UNPAID_REWARDS}' does not exist in ${storageInfo.location}`);
     process.exit(1);
   }
   
-  const fileContent = fs.readFileSync(STORAGE_FILE_PATH, 'utf-8');
-  const parsed = JSON.parse(fileContent);
-  
   if (!parsed.unpaidRewards || typeof parsed.unpaidRewards !== 'object') {
-    console.error(`❌ ERROR: Invalid file structure. Expected 'unpaidRewards' object`);
+    console.error(`❌ ERROR: Invalid document structure. Expected 'unpaidRewards' object`);
     console.error(`   Got: ${JSON.stringify(parsed)}`);
     process.exit(1);
   }
   
-  console.log(`✅ Storage file exists and has correct structure`);
-  console.log(`   File size: ${fileContent.length} bytes`);
-  console.log(`   Wallets in file: ${Object.keys(parsed.unpaidRewards).length}`);
+  console.log(`✅ Storage document exists and has correct structure`);
+  console.log(`   Wallets in document: ${Object.keys(parsed.unpaidRewards).length}`);
   console.log();
 } catch (error) {
   console.error(`❌ Test 6 failed:`, error);
@@ -244,7 +239,7 @@ console.log(`✅ getAccumulatedReward: WORKING`);
 console.log(`✅ addToAccumulatedReward: WORKING`);
 console.log(`✅ getAllWalletsWithAccumulatedRewards: WORKING`);
 console.log(`✅ clearAccumulatedReward: WORKING`);
-console.log(`✅ Storage file: ${fs.existsSync(STORAGE_FILE_PATH) ? 'EXISTS' : 'MISSING'}`);
+console.log(`✅ Storage document: ${readDocument(STORAGE_KEYS.UNPAID_REWARDS) ? 'EXISTS' : 'MISSING'}`);
 console.log();
 console.log('All tests passed! 🎉');
 console.log();
@@ -13,6 +13,7 @@ import { PayoutsPage } from './pages/PayoutsPage';
 import { SystemStatusPage } from './pages/SystemStatusPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
 import { DocumentationPage } from './pages/DocumentationPage';
+import { MyRewardsPage } from './pages/MyRewardsPage';
 import './App.css';
 
 function App() {
@@ -33,6 +34,7 @@ function App() {
                 <Route path="/holders" element={<HoldersPage />} />
                 <Route path="/payouts" element={<PayoutsPage />} />
                 <Route path="/system-status" element={<SystemStatusPage />} />
+                <Route path="/my-rewards" element={<MyRewardsPage />} />
                 <Route path="/docs" element={<DocumentationPage />} />
               </Routes>
             </div>
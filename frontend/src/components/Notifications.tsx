@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
-import { fetchRewards, fetchPayouts } from '../services/api';
+import { fetchHealthComponents, fetchPayouts } from '../services/api';
 import './Notifications.css';
 
 interface NotificationState {
@@ -17,28 +17,22 @@ export function NotificationManager() {
     apiErrors: 0,
   });
 
-  // Low balance threshold: 0.1 SOL (not used directly, but kept for reference)
-
   useEffect(() => {
     const checkNotifications = async () => {
       try {
-        // Check rewards for balance info
-        const rewards = await fetchRewards();
-        
-        // Check for low balance (if backend provides balance info)
-        // For now, we'll check if total SOL distributed is close to reward pool
-        if (!rewards || !rewards.statistics) {
-          return;
-        }
-        
-        const totalSOL = rewards.statistics?.totalSOLDistributed || 0;
-        const pendingPayouts = rewards.statistics?.pendingPayouts || 0;
-        
-        // Estimate if we might run out of SOL
-        if (pendingPayouts > 0 && totalSOL > 0.9) {
+        // Low balance comes from the backend's reward wallet health check
+        const health = await fetchHealthComponents();
+        const rewardWallet = health.components.find((component) => component.id === 'reward-wallet');
+
+        // (a failed probe has no balance and is not a low balance)
+        const lowBalance = rewardWallet !== undefined
+          && typeof rewardWallet.details.balanceSOL === 'number'
+          && (rewardWallet.status === 'degraded' || rewardWallet.status === 'down');
+
+        if (lowBalance) {
           if (!notificationState.lowBalance) {
             toast.warning(
-              `Low reward pool: ${(totalSOL || 0).toFixed(6)} SOL remaining. ${pendingPayouts} payouts pending.`,
+              `Low reward wallet balance: ${rewardWallet.message}`,
               {
                 autoClose: 10000,
                 toastId: 'low-balance',
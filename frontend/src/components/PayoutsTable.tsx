@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { fetchPayouts } from '../services/api';
-import type { Payout } from '../types/api';
+import type { Payout, PayoutsResponse } from '../types/api';
 import { Table } from './Table';
 import type { TableColumn } from './Table';
 import './PayoutsTable.css';
@@ -12,10 +12,11 @@ interface PayoutsTableProps {
 export function PayoutsTable({ refreshInterval = 300000 }: PayoutsTableProps) {
   const [payouts, setPayouts] = useState<Payout[]>([]);
   const [loading, setLoading] = useState(true);
-  const [summary, setSummary] = useState({
+  const [summary, setSummary] = useState<PayoutsResponse['summary']>({
     pending: 0,
     failed: 0,
     totalSOL: 0,
+    owedSOL: 0,
   });
 
   const loadPayouts = async () => {
@@ -80,6 +81,33 @@ export function PayoutsTable({ refreshInterval = 300000 }: PayoutsTableProps) {
       sortable: true,
       sortFn: (a, b) => a.retryCount - b.retryCount,
     },
+    {
+      key: 'nextAttemptAt',
+      header: 'Next Retry',
+      accessor: (row) =>
+        row.nextAttemptAt ? new Date(row.nextAttemptAt).toLocaleString() : '-',
+      sortable: true,
+      sortFn: (a, b) => {
+        if (!a.nextAttemptAt && !b.nextAttemptAt) return 0;
+        if (!a.nextAttemptAt) return 1;
+        if (!b.nextAttemptAt) return -1;
+        return new Date(a.nextAttemptAt).getTime() - new Date(b.nextAttemptAt).getTime();
+      },
+    },
+    {
+      key: 'lastError',
+      header: 'Last Error',
+      accessor: (row) => {
+        // Retry history as a tooltip, oldest first
+        const history = (row.attempts || [])
+          .map((attempt) =>
+            `${new Date(attempt.attemptedAt).toLocaleString()}: ${attempt.result}${attempt.error ? ` (${attempt.error})` : ''}`
+          )
+          .join('\n');
+        return <span title={history || undefined}>{row.lastError || '-'}</span>;
+      },
+      sortable: false,
+    },
     {
       key: 'status',
       header: 'Status',
@@ -129,6 +157,10 @@ export function PayoutsTable({ refreshInterval = 300000 }: PayoutsTableProps) {
           <span className="badge-label">Failed:</span>
           <span className="badge-value badge-failed">{summary?.failed || 0}</span>
         </div>
+        <div className="summary-badge">
+          <span className="badge-label">Owed SOL:</span>
+          <span className="badge-value">{(summary?.owedSOL || 0).toFixed(6)}</span>
+        </div>
         <div className="summary-badge highlight">
           <span className="badge-label">Total SOL:</span>
           <span className="badge-value">{(summary?.totalSOL || 0).toFixed(6)}</span>
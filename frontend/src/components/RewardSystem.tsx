@@ -1,7 +1,8 @@
 import { useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useEpochCycles, useCurrentCycleInfo, useHistoricalRewards, useEpochs } from '../hooks/useApiData';
-import type { CycleResult, CycleState } from '../types/api';
+import { useLiveCycleProgress } from '../hooks/useLiveFeed';
+import type { CycleProgress, CycleResult, CycleState } from '../types/api';
 import { EpochDatePicker } from './EpochDatePicker';
 import './RewardSystem.css';
 
@@ -22,6 +23,10 @@ function getCycleStateColor(state: CycleState | 'PENDING' | 'NOT_EXECUTED'): str
       return 'var(--cycle-rolled-over)';
     case 'FAILED':
       return 'var(--cycle-failed)';
+    case 'PARTIAL':
+      return 'var(--cycle-partial)';
+    case 'RESUMED':
+      return 'var(--cycle-resumed)';
     case 'NOT_EXECUTED':
       return 'var(--cycle-not-executed)';
     case 'PENDING':
@@ -38,6 +43,10 @@ function getCycleStateLabel(state: CycleState | 'PENDING' | 'NOT_EXECUTED', erro
       return 'Rolled Over (Insufficient Tax)';
     case 'FAILED':
       return error ? `Failed (${error})` : 'Failed';
+    case 'PARTIAL':
+      return error ? `Partial - will resume (${error})` : 'Partial - will resume';
+    case 'RESUMED':
+      return 'Resumed (interrupted cycle completed)';
     case 'NOT_EXECUTED':
       return 'Not executed yet';
     case 'PENDING':
@@ -46,6 +55,26 @@ function getCycleStateLabel(state: CycleState | 'PENDING' | 'NOT_EXECUTED', erro
   }
 }
 
+function getCycleProgressLabel(progress: CycleProgress): string {
+  switch (progress.stage) {
+    case 'harvesting':
+      return 'Harvesting tax';
+    case 'swapping':
+      return progress.batch && progress.batch.total > 1
+        ? `Swapping batch ${progress.batch.current}/${progress.batch.total}`
+        : 'Swapping to SOL';
+    case 'distributing':
+      return progress.payouts && progress.payouts.total > 0
+        ? `Paying holders ${progress.payouts.settled + progress.payouts.failed}/${progress.payouts.total}`
+        : 'Paying holders';
+    case 'treasury':
+      return 'Sending treasury share';
+    case 'finished':
+    default:
+      return 'Finishing cycle';
+  }
+}
+
 function formatCycleTime(timestamp: number): string {
   const date = new Date(timestamp);
   // Format in CET timezone with 24-hour format
@@ -166,6 +195,9 @@ export function RewardSystem({ selectedEpoch: externalSelectedEpoch, onEpochChan
     refetchInterval: 1 * 60 * 1000, // 1 minute
   });
 
+  // Pushed by the live feed while a cycle is being processed
+  const cycleProgress = useLiveCycleProgress();
+
   const { data: epochData, isLoading } = useEpochCycles(selectedEpoch, {
     refetchInterval: 5 * 60 * 1000, // 5 minutes
   });
@@ -351,6 +383,11 @@ export function RewardSystem({ selectedEpoch: externalSelectedEpoch, onEpochChan
                   Cycle {currentCycle} of {CYCLES_PER_EPOCH}
                 </span>
               )}
+              {selectedEpoch === currentEpoch && cycleProgress && (
+                <span className="cycle-progress-info" role="status">
+                  {getCycleProgressLabel(cycleProgress)}
+                </span>
+              )}
             </div>
           )}
           <button
@@ -431,6 +468,18 @@ export function RewardSystem({ selectedEpoch: externalSelectedEpoch, onEpochChan
             <span className="stat-value">{epochData.statistics.failed}</span>
             <span className="stat-label">Failed</span>
           </span>
+          {epochData.statistics.partial > 0 && (
+            <span className="stat-item">
+              <span className="stat-value">{epochData.statistics.partial}</span>
+              <span className="stat-label">Partial</span>
+            </span>
+          )}
+          {epochData.statistics.resumed > 0 && (
+            <span className="stat-item">
+              <span className="stat-value">{epochData.statistics.resumed}</span>
+              <span className="stat-label">Resumed</span>
+            </span>
+          )}
           <span className="stat-item">
             <span className="stat-value">{epochData.statistics.totalCycles}</span>
             <span className="stat-label">Total Cycles</span>
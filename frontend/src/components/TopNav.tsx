@@ -18,6 +18,7 @@ const navItems: NavItem[] = [
   { path: '/holders', label: 'Treasury' },
   { path: '/system-status', label: 'System Status' },
   { path: '/analytics', label: 'Analytics' },
+  { path: '/my-rewards', label: 'My Rewards' },
 ];
 
 export function TopNav() {
@@ -17,6 +17,10 @@ import {
   fetchCurrentCycleInfo,
   fetchEpochCycles,
   fetchEpochs,
+  fetchHealthComponents,
+  fetchWalletStatement,
+  fetchTransferFee,
+  fetchEpochProof,
 } from '../services/api';
 import type {
   RewardsResponse,
@@ -31,6 +35,10 @@ import type {
   CurrentCycleInfo,
   EpochCycleResponse,
   EpochsResponse,
+  HealthComponentsResponse,
+  WalletStatementResponse,
+  TransferFeeResponse,
+  EpochProofResponse,
 } from '../types/api';
 
 /**
@@ -73,7 +81,7 @@ export function useHolders(
  * Hook for fetching payouts data
  */
 export function usePayouts(
-  params?: { pubkey?: string; status?: 'pending' | 'failed'; limit?: number },
+  params?: { pubkey?: string; status?: 'pending' | 'failed' | 'paid'; limit?: number },
   options?: { enabled?: boolean; refetchInterval?: number }
 ) {
   const key = ['payouts', JSON.stringify(params || {})].join(':');
@@ -269,3 +277,68 @@ export function useEpochs(
   );
 }
 
+
+/**
+ * Hook for fetching live component health
+ */
+export function useHealthComponents(options?: { enabled?: boolean; refetchInterval?: number }) {
+  return useQuery<HealthComponentsResponse>(
+    'health-components',
+    () => fetchHealthComponents(),
+    {
+      ttl: 1 * 60 * 1000, // 1 minute
+      staleTime: 30 * 1000, // 30 seconds
+      refetchInterval: options?.refetchInterval ?? 1 * 60 * 1000, // 1 minute
+      enabled: options?.enabled !== false,
+    }
+  );
+}
+
+/**
+ * Hook for fetching the reward statement of a wallet (data is null when the
+ * backend has no history for it)
+ */
+export function useWalletStatement(pubkey?: string | null, options?: { enabled?: boolean; refetchInterval?: number }) {
+  return useQuery<WalletStatementResponse | null>(
+    ['wallet-statement', pubkey || 'none'].join(':'),
+    () => fetchWalletStatement(pubkey as string, { limit: 1000 }),
+    {
+      ttl: 5 * 60 * 1000, // 5 minutes
+      staleTime: 2.5 * 60 * 1000, // 2.5 minutes
+      refetchInterval: options?.refetchInterval ?? 5 * 60 * 1000, // 5 minutes
+      enabled: !!pubkey && options?.enabled !== false,
+    }
+  );
+}
+
+/**
+ * Hook for fetching the token's transfer fee schedule (data is null when the
+ * backend cannot read the mint)
+ */
+export function useTransferFee(options?: { enabled?: boolean }) {
+  return useQuery<TransferFeeResponse | null>(
+    'transfer-fee',
+    () => fetchTransferFee(),
+    {
+      ttl: 10 * 60 * 1000, // 10 minutes
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      enabled: options?.enabled !== false,
+    }
+  );
+}
+
+/**
+ * Hook for fetching the Merkle proofs of a wallet's payouts in an epoch
+ * (data is null until the epoch root is published)
+ */
+export function useEpochProof(epoch?: string | null, wallet?: string | null) {
+  return useQuery<EpochProofResponse | null>(
+    ['epoch-proof', epoch || 'none', wallet || 'none'].join(':'),
+    () => fetchEpochProof(epoch as string, wallet as string),
+    {
+      ttl: 30 * 60 * 1000, // 30 minutes - published roots never change
+      staleTime: 15 * 60 * 1000, // 15 minutes
+      enabled: !!epoch && !!wallet,
+    }
+  );
+}
@@ -5,6 +5,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { dataCache, type CacheOptions } from '../services/dataCache';
 import { requestQueue } from '../services/requestQueue';
+import { liveFeed } from '../services/liveFeed';
 
 export interface UseDataFetchingOptions<T> extends CacheOptions {
   enabled?: boolean; // Whether to fetch immediately
@@ -209,6 +210,10 @@ export function useDataFetching<T>(
   useEffect(() => {
     if (refetchInterval > 0 && enabled) {
       intervalRef.current = setInterval(() => {
+        // The live feed refreshes keys it covers; polling is the fallback while it is down
+        if (liveFeed.isConnected() && liveFeed.covers(key)) {
+          return;
+        }
         // Only refetch if data is stale or expired
         if (dataCache.isStale(key) || !dataCache.get(key)) {
           fetchData(true);
@@ -223,6 +228,26 @@ export function useDataFetching<T>(
     }
   }, [refetchInterval, enabled, key, fetchData]);
 
+  // Refresh when a live feed event touched this key
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    return liveFeed.onInvalidate((matches) => {
+      if (!matches(key)) {
+        return;
+      }
+      // Pushed data (e.g. prices) is already cached; invalidated keys are refetched
+      const cachedData = dataCache.get<T>(key);
+      if (cachedData) {
+        setData(cachedData);
+      } else {
+        fetchData(true);
+      }
+    });
+  }, [enabled, key, fetchData]);
+
   // Refetch on window focus
   useEffect(() => {
     if (!refetchOnWindowFocus || !enabled) {
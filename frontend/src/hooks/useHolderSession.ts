@@ -0,0 +1,193 @@
+/**
+ * Hooks for holder self-service: wallet verification by signed message and
+ * the verified holder's payout preferences
+ */
+
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import axios from 'axios';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useQuery } from './useDataFetching';
+import {
+  createTelegramLink,
+  endHolderSession,
+  fetchHolderPreferences,
+  requestHolderNonce,
+  updateHolderPreferences,
+  verifyHolderSignature,
+} from '../services/api';
+import type { HolderPreferencesResponse, HolderPreferencesUpdate, TelegramLinkResponse } from '../types/api';
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+const STORAGE_PREFIX = 'tek-holder-session:';
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function readToken(wallet: string | null): string | null {
+  if (!wallet) {
+    return null;
+  }
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + wallet);
+    const session = raw ? (JSON.parse(raw) as StoredSession) : null;
+    return session && new Date(session.expiresAt).getTime() > Date.now() ? session.token : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSession(wallet: string, session: StoredSession | null): void {
+  try {
+    if (session) {
+      localStorage.setItem(STORAGE_PREFIX + wallet, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(STORAGE_PREFIX + wallet);
+    }
+  } catch {
+    // Storage unavailable (private mode) - the session lasts until reload
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Error message from the backend response, if any
+ */
+function getErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+    return error.response.data.error;
+  }
+  return error instanceof Error ? error.message : 'Request failed';
+}
+
+/**
+ * Verification session of the connected wallet
+ * verify() asks the wallet to sign a one-time message; the session token is
+ * kept in localStorage per wallet until it expires or the holder signs out.
+ */
+export function useHolderSession() {
+  const { publicKey, signMessage } = useWallet();
+  const wallet = publicKey ? publicKey.toString() : null;
+  const token = useSyncExternalStore(subscribe, () => readToken(wallet));
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const verify = useCallback(async (): Promise<void> => {
+    if (!wallet || !signMessage) {
+      return;
+    }
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const challenge = await requestHolderNonce(wallet);
+      const signature = await signMessage(new TextEncoder().encode(challenge.message));
+      const session = await verifyHolderSignature(wallet, challenge.nonce, btoa(String.fromCharCode(...signature)));
+      writeSession(wallet, { token: session.token, expiresAt: session.expiresAt });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [wallet, signMessage]);
+
+  const signOut = useCallback(async (): Promise<void> => {
+    if (!wallet || !token) {
+      return;
+    }
+    writeSession(wallet, null);
+    try {
+      await endHolderSession(token);
+    } catch {
+      // The session expires on its own
+    }
+  }, [wallet, token]);
+
+  return {
+    wallet,
+    token,
+    verified: token !== null,
+    canSign: !!signMessage, // Some wallets cannot sign messages
+    isVerifying,
+    error,
+    verify,
+    signOut,
+  };
+}
+
+/**
+ * Payout preferences of the verified wallet
+ * A rejected session (expired on the backend) is cleared so the holder can verify again.
+ */
+export function useHolderPreferences(wallet: string | null, token: string | null) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const query = useQuery<HolderPreferencesResponse>(
+    ['holder-preferences', wallet || 'none'].join(':'),
+    async () => {
+      try {
+        return await fetchHolderPreferences(token as string);
+      } catch (err) {
+        if (wallet && axios.isAxiosError(err) && err.response?.status === 401) {
+          writeSession(wallet, null);
+        }
+        throw err;
+      }
+    },
+    {
+      ttl: 5 * 60 * 1000, // 5 minutes
+      staleTime: 60 * 1000, // 1 minute
+      enabled: !!wallet && !!token,
+    }
+  );
+  const { refetch } = query;
+
+  const save = useCallback(async (changes: HolderPreferencesUpdate): Promise<boolean> => {
+    if (!token) {
+      return false;
+    }
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await updateHolderPreferences(token, changes);
+      await refetch();
+      return true;
+    } catch (err) {
+      setSaveError(getErrorMessage(err));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [token, refetch]);
+
+  const linkTelegram = useCallback(async (): Promise<TelegramLinkResponse | null> => {
+    if (!token) {
+      return null;
+    }
+    setSaveError(null);
+    try {
+      return await createTelegramLink(token);
+    } catch (err) {
+      setSaveError(getErrorMessage(err));
+      return null;
+    }
+  }, [token]);
+
+  return {
+    ...query,
+    isSaving,
+    saveError,
+    save,
+    linkTelegram,
+  };
+}
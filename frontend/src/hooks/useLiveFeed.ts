@@ -0,0 +1,25 @@
+/**
+ * Hooks for the dashboard live feed (server-sent events from the backend)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { liveFeed } from '../services/liveFeed';
+import type { CycleProgress, LiveSnapshot } from '../types/api';
+
+const subscribe = (listener: () => void) => liveFeed.subscribe(listener);
+
+/**
+ * Progress of the cycle being processed (null when idle or the feed is down)
+ */
+export function useLiveCycleProgress(): CycleProgress | null {
+  return useSyncExternalStore(subscribe, () => liveFeed.getProgress());
+}
+
+/**
+ * Connection state, scheduler state and last prices of the live feed
+ */
+export function useLiveFeedStatus(): { connected: boolean; snapshot: LiveSnapshot | null } {
+  const connected = useSyncExternalStore(subscribe, () => liveFeed.isConnected());
+  const snapshot = useSyncExternalStore(subscribe, () => liveFeed.getSnapshot());
+  return { connected, snapshot };
+}
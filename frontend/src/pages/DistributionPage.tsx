@@ -4,7 +4,7 @@ import { GlassCard } from '../components/GlassCard';
 import { Table, type TableColumn } from '../components/Table';
 import { EpochDatePicker } from '../components/EpochDatePicker';
 import { useRewards, useHistoricalRewards, useSolPrice, useEpochs } from '../hooks/useApiData';
-import type { RewardCycle } from '../types/api';
+import type { RewardCycle, DistributionSplitBucket } from '../types/api';
 import './DistributionPage.css';
 
 // Helper to get current epoch date
@@ -212,6 +212,50 @@ export function DistributionPage() {
     ];
   }, [solPriceData]);
 
+  // Split buckets: where each cycle's SOL goes
+  const splitColumns: TableColumn<DistributionSplitBucket>[] = useMemo(() => [
+    {
+      key: 'name',
+      header: 'BUCKET',
+      accessor: (row) => row.name,
+      sortable: false,
+    },
+    {
+      key: 'share',
+      header: 'SHARE',
+      accessor: (row) => (row.percent !== null ? `${row.percent}%` : `${row.fixedSol} SOL`),
+      sortable: false,
+    },
+    {
+      key: 'destination',
+      header: 'DESTINATION',
+      accessor: (row) =>
+        row.destination ? (
+          <span title={row.destination}>
+            {`${row.destination.substring(0, 6)}...${row.destination.substring(row.destination.length - 6)}`}
+          </span>
+        ) : (
+          'Eligible holders'
+        ),
+      sortable: false,
+    },
+    {
+      key: 'lastAmountSOL',
+      header: 'LAST CYCLE (SOL)',
+      accessor: (row) =>
+        row.lastAmountSOL !== null
+          ? row.lastAmountSOL.toLocaleString(undefined, { maximumFractionDigits: 6, minimumFractionDigits: 6 })
+          : 'N/A',
+      sortable: false,
+    },
+    {
+      key: 'totalSOL',
+      header: 'TOTAL (SOL)',
+      accessor: (row) => row.totalSOL.toLocaleString(undefined, { maximumFractionDigits: 6, minimumFractionDigits: 6 }),
+      sortable: false,
+    },
+  ], []);
+
   // Export CSV handler
   const handleExportCSV = () => {
     const solPrice = solPriceData?.price || 0;
@@ -255,7 +299,11 @@ export function DistributionPage() {
       <section className="dashboard-section">
         <GlassCard className="dashboard-section-card">
           <h2 className="section-title">Distribution Data</h2>
-          <p className="section-subtitle">Track SOL reward distributions to holders and their USD values.</p>
+          <p className="section-subtitle">
+            {rewardsData?.rewardAsset && rewardsData.rewardAsset.kind !== 'SOL'
+              ? `Track reward distributions to holders and their USD values. Holders are paid in ${rewardsData.rewardAsset.symbol}, bought with their SOL share each cycle.`
+              : 'Track SOL reward distributions to holders and their USD values.'}
+          </p>
           
           {/* Stats Summary */}
           <div className="distribution-stats">
@@ -263,6 +311,12 @@ export function DistributionPage() {
               label="Total SOL Distributed"
               value={`${totalSOLDistributed.toLocaleString(undefined, { maximumFractionDigits: 8, minimumFractionDigits: 8 })} SOL`}
             />
+            {rewardsData?.rewardAsset && rewardsData.rewardAsset.kind !== 'SOL' && (
+              <StatCard
+                label={`Total ${rewardsData.rewardAsset.symbol} Paid to Holders`}
+                value={`${rewardsData.rewardAsset.totalDistributed.toLocaleString(undefined, { maximumFractionDigits: Math.min(rewardsData.rewardAsset.decimals, 8) })} ${rewardsData.rewardAsset.symbol}`}
+              />
+            )}
             <StatCard
               label="Distribution USD Value"
               value={`$${distributionUSDValue.toLocaleString(undefined, { maximumFractionDigits: 4, minimumFractionDigits: 4 })}`}
@@ -312,6 +366,27 @@ export function DistributionPage() {
           </div>
         </GlassCard>
       </section>
+
+      {/* Distribution Split Section */}
+      {rewardsData?.split && rewardsData.split.length > 0 && (
+        <section className="dashboard-section">
+          <GlassCard className="dashboard-section-card">
+            <h2 className="section-title">Distribution Split</h2>
+            <p className="section-subtitle">How the SOL from each cycle is split between holders and the other buckets.</p>
+
+            <div className="distribution-table-container">
+              <Table
+                data={rewardsData.split}
+                columns={splitColumns}
+                searchable={false}
+                pagination={false}
+                exportable={false}
+                loading={false}
+              />
+            </div>
+          </GlassCard>
+        </section>
+      )}
     </div>
   );
 }
@@ -1,10 +1,53 @@
 import { Tabs } from '../components/Tabs';
 import { Accordion } from '../components/Accordion';
 import { GlassCard } from '../components/GlassCard';
+import { useTransferFee } from '../hooks/useApiData';
 import './DocumentationPage.css';
 import './DocumentationPage-responsive.css';
 
+// Shown until the live fee schedule loads, or if the backend cannot read the mint
+const DEFAULT_TAX_BPS = { total: 300, holders: 200, treasury: 100 };
+
+interface TaxRates {
+  total: string;
+  holders: string;
+  treasury: string;
+  pendingNote: string | null; // Scheduled fee change, if any
+}
+
+function formatBps(bps: number): string {
+  return `${Number((bps / 100).toFixed(2))}%`;
+}
+
+/**
+ * Tax rates from the transfer fee in force and the distribution split
+ */
+function useTaxRates(): TaxRates {
+  const { data } = useTransferFee();
+  if (!data) {
+    return {
+      total: formatBps(DEFAULT_TAX_BPS.total),
+      holders: formatBps(DEFAULT_TAX_BPS.holders),
+      treasury: formatBps(DEFAULT_TAX_BPS.treasury),
+      pendingNote: null,
+    };
+  }
+
+  const total = data.effective.basisPoints;
+  const holders = data.split.find((bucket) => bucket.name === 'holders')?.basisPointsOfTransfer ?? 0;
+  const treasury = data.split.find((bucket) => bucket.name === 'treasury')?.basisPointsOfTransfer ?? total - holders;
+  return {
+    total: formatBps(total),
+    holders: formatBps(holders),
+    treasury: formatBps(treasury),
+    pendingNote: data.pending
+      ? `A transfer tax of ${formatBps(data.pending.basisPoints)} is scheduled from Solana epoch ${data.pending.epoch} (around ${new Date(data.pending.estimatedEffectiveAt).toLocaleDateString()}). Until then the current rate applies.`
+      : null,
+  };
+}
+
 function OverviewTab() {
+  const rates = useTaxRates();
   return (
     <div className="doc-tab-content">
       <section className="doc-section">
@@ -19,14 +62,14 @@ function OverviewTab() {
         <div className="doc-subsection">
           <h4 className="doc-subsection-title">Trade Initiation</h4>
           <p>
-            Any buy, sell, or transfer of TEK triggers a 3% transfer tax, which is automatically collected on-chain.
+            Any buy, sell, or transfer of TEK triggers a {rates.total} transfer tax, which is automatically collected on-chain.
           </p>
         </div>
 
         <div className="doc-subsection">
           <h4 className="doc-subsection-title">Tax Allocation</h4>
           <p>
-            The tax is split to fuel rewards, liquidity growth, and deflation. Specifically, 2% is converted to SOL and distributed as passive yield to all holders, while 1% goes to a treasury for compounding liquidity and strategic marketing.
+            The tax is split to fuel rewards, liquidity growth, and deflation. Specifically, {rates.holders} is converted to SOL and distributed as passive yield to all holders, while {rates.treasury} goes to a treasury for compounding liquidity and strategic marketing.
           </p>
         </div>
 
@@ -68,12 +111,12 @@ function OverviewTab() {
         <div className="flow-diagram">
           <div className="flow-box">
             <div className="flow-box-title">User Trades Token</div>
-            <div className="flow-box-description">3% transfer tax collected automatically</div>
+            <div className="flow-box-description">{rates.total} transfer tax collected automatically</div>
           </div>
           <div className="flow-arrow">↓</div>
           <div className="flow-box">
             <div className="flow-box-title">Transfer Tax Collected</div>
-            <div className="flow-box-description">Split: 2% for rewards, 1% for treasury</div>
+            <div className="flow-box-description">Split: {rates.holders} for rewards, {rates.treasury} for treasury</div>
           </div>
           <div className="flow-arrow">↓</div>
           <div className="flow-box">
@@ -97,6 +140,7 @@ function OverviewTab() {
 }
 
 function RewardTokenTab() {
+  const rates = useTaxRates();
   return (
     <div className="doc-tab-content">
       <section className="doc-section">
@@ -111,38 +155,39 @@ function RewardTokenTab() {
         <div className="tax-boxes">
           <div className="tax-box">
             <div className="tax-box-title">Total Tax</div>
-            <div className="tax-box-value">3%</div>
+            <div className="tax-box-value">{rates.total}</div>
             <div className="tax-box-text">Applied to token transfers</div>
           </div>
           <div className="tax-box">
             <div className="tax-box-title">Holder Rewards</div>
-            <div className="tax-box-value">2%</div>
+            <div className="tax-box-value">{rates.holders}</div>
             <div className="tax-box-text">Used for reward distributions</div>
           </div>
           <div className="tax-box">
             <div className="tax-box-title">Treasury</div>
-            <div className="tax-box-value">1%</div>
+            <div className="tax-box-value">{rates.treasury}</div>
             <div className="tax-box-text">Supports protocol operations</div>
           </div>
         </div>
+        {rates.pendingNote && <p className="doc-highlight">{rates.pendingNote}</p>}
       </section>
 
       <section className="doc-section">
         <Accordion title="How the Tax Works">
           <p>
-            The core mechanic revolves around a uniform 3% transfer tax applied to every buy, sell, or transfer. No exceptions for fairness across all participants. This tax is automatically enforced on-chain and breaks down as follows:
+            The core mechanic revolves around a uniform {rates.total} transfer tax applied to every buy, sell, or transfer. No exceptions for fairness across all participants. This tax is automatically enforced on-chain and breaks down as follows:
           </p>
           
           <div className="tax-breakdown">
             <div className="tax-breakdown-item">
-              <h4 className="tax-breakdown-title">2% for SOL Reflections</h4>
+              <h4 className="tax-breakdown-title">{rates.holders} for SOL Reflections</h4>
               <p>
                 This portion is swapped to SOL approximately every 5 minutes (via automated processes) and distributed as direct yield to holders. It's a gas-efficient, pro-rata system where rewards scale with your holdings— no staking or active claiming required.
               </p>
             </div>
 
             <div className="tax-breakdown-item">
-              <h4 className="tax-breakdown-title">1% for Treasury</h4>
+              <h4 className="tax-breakdown-title">{rates.treasury} for Treasury</h4>
               <p>
                 Allocated exclusively to liquidity compounding and marketing initiatives. This ensures the protocol's growth without any founder or team extraction, maintaining trust and sustainability.
               </p>
@@ -166,12 +211,13 @@ function RewardTokenTab() {
 }
 
 function RewardsDistributionTab() {
+  const rates = useTaxRates();
   return (
     <div className="doc-tab-content">
       <section className="doc-section">
         <h3 className="doc-section-title">How Rewards Are Distributed</h3>
         <p>
-          Rewards in the TEK protocol are distributed automatically and passively, ensuring holders earn SOL without any manual intervention. The process is powered by the 2% reflections portion of the 3% transfer tax, which accumulates from every trade and is converted to SOL for fair, pro-rata airdrops.
+          Rewards in the TEK protocol are distributed automatically and passively, ensuring holders earn SOL without any manual intervention. The process is powered by the {rates.holders} reflections portion of the {rates.total} transfer tax, which accumulates from every trade and is converted to SOL for fair, pro-rata airdrops.
         </p>
         <p>
           Here's a step-by-step breakdown of how rewards are distributed:
@@ -183,7 +229,7 @@ function RewardsDistributionTab() {
             <div className="step-content">
               <div className="step-title">Tax Collection</div>
               <div className="step-description">
-                On every TEK transfer, 2% of the transaction amount (in TEK tokens) is collected into a reward pool.
+                On every TEK transfer, {rates.holders} of the transaction amount (in TEK tokens) is collected into a reward pool.
               </div>
             </div>
           </div>
@@ -338,12 +384,13 @@ function RewardsDistributionTab() {
 }
 
 function TreasuryTab() {
+  const rates = useTaxRates();
   return (
     <div className="doc-tab-content">
       <section className="doc-section">
         <h3 className="doc-section-title">What Is the Treasury?</h3>
         <p>
-          The Treasury in the TEK protocol serves as a decentralized, on-chain fund that collects and manages a portion of the transaction taxes to ensure the long-term sustainability, growth, and resilience of the ecosystem. It acts as a strategic reserve, automatically funded by <strong>1% of every 3% transfer tax</strong> applied to buys, sells, and transfers of TEK tokens. This Treasury is not controlled by any central entity—<strong>contract ownership is fully renounced at launch</strong>, making all operations trustless and transparent via Solana's blockchain.
+          The Treasury in the TEK protocol serves as a decentralized, on-chain fund that collects and manages a portion of the transaction taxes to ensure the long-term sustainability, growth, and resilience of the ecosystem. It acts as a strategic reserve, automatically funded by <strong>{rates.treasury} of every {rates.total} transfer tax</strong> applied to buys, sells, and transfers of TEK tokens. This Treasury is not controlled by any central entity—<strong>contract ownership is fully renounced at launch</strong>, making all operations trustless and transparent via Solana's blockchain.
         </p>
         <p>
           Unlike traditional token treasuries that might be subject to manual withdrawals or team discretion, TEK's Treasury is programmatically designed for efficiency and holder alignment. It accumulates TEK tokens from taxes, which are then converted and deployed through automated or community-governed mechanisms. The primary goal is to create a self-reinforcing flywheel: by reinvesting funds into liquidity and marketing, the Treasury boosts trading volume, which in turn generates more taxes and rewards for holders.
@@ -392,7 +439,7 @@ function TreasuryTab() {
       <section className="doc-section">
         <Accordion title="How Are Treasury Funds Used?">
           <p>
-            Treasury funds are exclusively dedicated to two core pillars: <strong>liquidity compounding</strong> and <strong>strategic marketing</strong>. This allocation is hardcoded into the protocol, with no flexibility for other uses, to maintain focus and trust. The 1% tax portion (in TEK tokens) accumulates in the Treasury contract and is periodically converted to SOL or other assets for deployment. Conversions and usages occur through automated scripts or, in some cases, community-voted proposals via integrated governance tools (if enabled post-launch).
+            Treasury funds are exclusively dedicated to two core pillars: <strong>liquidity compounding</strong> and <strong>strategic marketing</strong>. This allocation is hardcoded into the protocol, with no flexibility for other uses, to maintain focus and trust. The {rates.treasury} tax portion (in TEK tokens) accumulates in the Treasury contract and is periodically converted to SOL or other assets for deployment. Conversions and usages occur through automated scripts or, in some cases, community-voted proposals via integrated governance tools (if enabled post-launch).
           </p>
 
           <div className="treasury-usage-section">
@@ -428,7 +475,7 @@ function TreasuryTab() {
       <section className="doc-section">
         <Accordion title="Future Plans for the Treasury">
           <p>
-            As the TEK protocol matures, the Treasury will evolve to incorporate advanced mechanisms that further enhance holder value, sustainability, and ecosystem growth. Currently, <strong>100% of the 1% Treasury tax allocation is directed toward liquidity compounding</strong> to build a strong foundational base of depth and arbitrage-driven volume. In future phases, this allocation will be diversified through community-governed updates to the smart contract (e.g., via DAO proposals on Solana). These updates will introduce <strong>deflationary burns with integrated buybacks</strong> and a <strong>dedicated marketing budget</strong>, all while maintaining the protocol's trustless and automated nature.
+            As the TEK protocol matures, the Treasury will evolve to incorporate advanced mechanisms that further enhance holder value, sustainability, and ecosystem growth. Currently, <strong>100% of the {rates.treasury} Treasury tax allocation is directed toward liquidity compounding</strong> to build a strong foundational base of depth and arbitrage-driven volume. In future phases, this allocation will be diversified through community-governed updates to the smart contract (e.g., via DAO proposals on Solana). These updates will introduce <strong>deflationary burns with integrated buybacks</strong> and a <strong>dedicated marketing budget</strong>, all while maintaining the protocol's trustless and automated nature.
           </p>
           <p>
             The planned diversification aims to balance immediate liquidity strength with long-term scarcity and visibility, creating even greater compounding effects for SOL rewards. All changes will be transparent, audited, and implemented only after holder consensus to ensure alignment with the "hold-to-earn" ethos.
@@ -457,7 +504,7 @@ function TreasuryTab() {
                 <ul>
                   <li><strong>Supply Reduction and Scarcity:</strong> By systematically decreasing the total TEK supply (starting from 1,000,000,000 with mint authority revoked), each remaining token becomes more valuable over time. Holders' proportional ownership increases, amplifying their share of future SOL rewards and potential price appreciation.</li>
                   <li><strong>Price Support and Stability:</strong> Buybacks provide organic buying pressure, helping to stabilize or uplift the TEK price during market dips. This counteracts sell-offs and reinforces the protocol's resilience, as arbitrage bots respond to improved liquidity dynamics.</li>
-                  <li><strong>Compounding Rewards:</strong> Reduced supply means higher per-holder yields from the 2% reflections tax, creating a deflationary flywheel: fewer tokens → greater individual stake → more SOL per holder → increased holding incentive.</li>
+                  <li><strong>Compounding Rewards:</strong> Reduced supply means higher per-holder yields from the {rates.holders} reflections tax, creating a deflationary flywheel: fewer tokens → greater individual stake → more SOL per holder → increased holding incentive.</li>
                   <li><strong>Anti-Inflationary Hedge:</strong> In a volatile crypto market, burns protect against dilution, making TEK a more attractive long-term asset compared to inflationary tokens.</li>
                   <li><strong>Holder-Centric Value:</strong> Unlike manual team burns, this automated system ensures fair, predictable deflation, fostering trust and encouraging longer hold periods for sustained volume.</li>
                 </ul>
@@ -508,6 +555,7 @@ function TreasuryTab() {
 }
 
 function LiquidityPoolsTab() {
+  const rates = useTaxRates();
   return (
     <div className="doc-tab-content">
       <section className="doc-section">
@@ -542,7 +590,7 @@ function LiquidityPoolsTab() {
             <div className="liquidity-char-icon">💰</div>
             <div className="liquidity-char-content">
               <h5>Tax Integration</h5>
-              <p>Every trade (buy/sell) incurs the uniform 3% transfer tax, which powers reflections (2% to SOL yields) and treasury (1% for compounding).</p>
+              <p>Every trade (buy/sell) incurs the uniform {rates.total} transfer tax, which powers reflections ({rates.holders} to SOL yields) and treasury ({rates.treasury} for compounding).</p>
             </div>
           </div>
         </div>
@@ -653,13 +701,13 @@ function LiquidityPoolsTab() {
           </div>
 
           <p className="arbitrage-highlight">
-            Solana's high speed (thousands of TPS) and low fees make these micro-arbitrage opportunities highly profitable for bots, resulting in frequent trades that trigger the 3% tax repeatedly.
+            Solana's high speed (thousands of TPS) and low fees make these micro-arbitrage opportunities highly profitable for bots, resulting in frequent trades that trigger the {rates.total} tax repeatedly.
           </p>
         </Accordion>
 
         <Accordion title="The Liquidity Flywheel">
           <p>
-            Treasury funds (from the 1% tax allocation) are 100% dedicated to compounding liquidity:
+            Treasury funds (from the {rates.treasury} tax allocation) are 100% dedicated to compounding liquidity:
           </p>
 
           <div className="flywheel-process">
@@ -728,6 +776,7 @@ function LiquidityPoolsTab() {
 }
 
 function FAQTab() {
+  const rates = useTaxRates();
   return (
     <div className="doc-tab-content">
       <section className="doc-section">
@@ -737,11 +786,11 @@ function FAQTab() {
 
         <Accordion title="What is the transfer tax on TEK, and how does it work?">
           <p>
-            TEK applies a uniform <strong>3% transfer tax</strong> on every buy, sell, or transfer—no exceptions for fairness. This tax is automatically enforced on-chain. It breaks down as:
+            TEK applies a uniform <strong>{rates.total} transfer tax</strong> on every buy, sell, or transfer—no exceptions for fairness. This tax is automatically enforced on-chain. It breaks down as:
           </p>
           <ul>
-            <li><strong>2%</strong> converted to SOL and distributed as passive reflections (rewards) to all holders</li>
-            <li><strong>1%</strong> allocated to the Treasury for liquidity compounding</li>
+            <li><strong>{rates.holders}</strong> converted to SOL and distributed as passive reflections (rewards) to all holders</li>
+            <li><strong>{rates.treasury}</strong> allocated to the Treasury for liquidity compounding</li>
           </ul>
           <p>
             Additionally, 1% of the collected tax tokens is burned per reward cycle to reduce supply.
@@ -750,7 +799,7 @@ function FAQTab() {
 
         <Accordion title="How do SOL rewards (reflections) work, and do I need to stake or claim them?">
           <p>
-            <strong>No staking or claiming is required—it's pure hold-to-earn.</strong> The 2% tax portion accumulates in a reward pool from every transaction. Approximately every 5 minutes, accumulated TEK is automatically swapped to SOL and airdropped pro-rata to all holders based on their share of the circulating supply.
+            <strong>No staking or claiming is required—it's pure hold-to-earn.</strong> The {rates.holders} tax portion accumulates in a reward pool from every transaction. Approximately every 5 minutes, accumulated TEK is automatically swapped to SOL and airdropped pro-rata to all holders based on their share of the circulating supply.
           </p>
           <p>
             Your rewards scale directly with your holdings and protocol volume.
@@ -768,7 +817,7 @@ function FAQTab() {
 
         <Accordion title="How does the arbitrage flywheel create sustainable volume?">
           <p>
-            Fragmented pools lead to temporary price differences after trades. Arbitrage bots exploit these for profit, buying low in one pool and selling high in another. This rebalances prices while triggering the 3% tax repeatedly.
+            Fragmented pools lead to temporary price differences after trades. Arbitrage bots exploit these for profit, buying low in one pool and selling high in another. This rebalances prices while triggering the {rates.total} tax repeatedly.
           </p>
           <p>
             Solana's high speed and low fees make these micro-arbitrages highly profitable for bots, creating perpetual, mechanics-driven volume that powers rewards without relying on hype.
@@ -777,7 +826,7 @@ function FAQTab() {
 
         <Accordion title="What happens to the Treasury funds?">
           <p>
-            The Treasury receives the 1% tax allocation and is currently dedicated <strong>100% to liquidity compounding</strong>. Accumulated TEK is swapped to SOL and added to pools to deepen liquidity, tighten spreads, and attract more arbitrage.
+            The Treasury receives the {rates.treasury} tax allocation and is currently dedicated <strong>100% to liquidity compounding</strong>. Accumulated TEK is swapped to SOL and added to pools to deepen liquidity, tighten spreads, and attract more arbitrage.
           </p>
           <p>
             This creates a compounding loop: deeper liquidity → more bot activity → higher volume → more taxes → amplified rewards.
@@ -0,0 +1,528 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useWalletModal } from '@solana/wallet-adapter-react-ui';
+import { StatCard } from '../components/StatCard';
+import { GlassCard } from '../components/GlassCard';
+import { Table, type TableColumn } from '../components/Table';
+import { useEpochProof, useWalletStatement } from '../hooks/useApiData';
+import { useHolderPreferences, useHolderSession } from '../hooks/useHolderSession';
+import { formatCETDateTime } from '../utils/timeUtils';
+import { verifyAllocationProof } from '../utils/merkleProof';
+import type {
+  EpochProofResponse,
+  HolderPreferencesResponse,
+  HolderPreferencesUpdate,
+  TelegramLinkResponse,
+  WalletEligibilityReason,
+  WalletEligibilityStatus,
+  WalletStatementPayout,
+  WalletStatementResponse,
+} from '../types/api';
+import './MyRewardsPage.css';
+
+type EligibilityRow = WalletStatementResponse['eligibilityHistory'][number];
+
+const STATUS_LABELS: Record<WalletEligibilityStatus, string> = {
+  eligible: 'Eligible',
+  excluded: 'Not eligible',
+  blacklisted: 'Excluded',
+};
+
+const REASON_LABELS: Record<WalletEligibilityReason, string> = {
+  MEETS_MIN_HOLDING: 'Holding meets the minimum',
+  BELOW_MIN_HOLDING: 'Holding below the minimum',
+  BLACKLISTED: 'Address excluded from rewards',
+  NOT_HOLDING: 'No longer holding TEK',
+};
+
+function formatSOL(amount: number): string {
+  return `${amount.toFixed(6)} SOL`;
+}
+
+/**
+ * Check the wallet's payouts of an epoch against the Merkle root the reward
+ * wallet published on chain - the proofs are verified in the browser
+ */
+function EpochProofCheck({ wallet, epochs }: { wallet: string; epochs: string[] }) {
+  const [selectedEpoch, setSelectedEpoch] = useState<string | null>(null);
+  const epoch = selectedEpoch ?? epochs[0] ?? null;
+  const { data: proof, isLoading, error } = useEpochProof(epoch, wallet);
+  const [verification, setVerification] = useState<{ proof: EpochProofResponse; results: boolean[] } | null>(null);
+
+  useEffect(() => {
+    if (!proof) {
+      return;
+    }
+    let cancelled = false;
+    Promise.all(proof.allocations.map((allocation) => verifyAllocationProof(allocation.leaf, allocation.proof, proof.root)))
+      .then((results) => {
+        if (!cancelled) {
+          setVerification({ proof, results });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setVerification({ proof, results: proof.allocations.map(() => false) });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [proof]);
+
+  const results = proof && verification?.proof === proof ? verification.results : null;
+  const verifiedCount = results?.filter(Boolean).length ?? 0;
+
+  if (epochs.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <h3 className="my-rewards-heading">Verify your payouts</h3>
+      <p className="my-rewards-message">
+        After each epoch the reward wallet publishes a Merkle root of all payouts on chain. Your browser checks
+        that your payouts are part of it.
+      </p>
+      <label className="my-rewards-field">
+        <span className="my-rewards-field-label">Epoch</span>
+        <select
+          className="my-rewards-input"
+          value={epoch ?? ''}
+          onChange={(event) => setSelectedEpoch(event.target.value)}
+        >
+          {epochs.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </label>
+
+      {isLoading && !proof ? (
+        <p className="my-rewards-message">Loading the proof...</p>
+      ) : error && !proof ? (
+        <p className="my-rewards-message">The proof could not be loaded. Please try again later.</p>
+      ) : !proof ? (
+        <p className="my-rewards-message">
+          The root of this epoch has not been published yet. It is published shortly after the epoch ends.
+        </p>
+      ) : !results ? (
+        <p className="my-rewards-message">Verifying...</p>
+      ) : (
+        <>
+          <p className={`my-rewards-message${verifiedCount < results.length ? ' my-rewards-failed' : ''}`}>
+            {verifiedCount === results.length
+              ? `All ${results.length} payout(s) match the published root.`
+              : `${results.length - verifiedCount} of ${results.length} payout(s) do not match the published root.`}
+            {' '}Root <code>{`${proof.root.slice(0, 16)}...`}</code> published in{' '}
+            <a
+              href={`https://solscan.io/tx/${proof.memoSignature}?cluster=devnet`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="my-rewards-link"
+            >
+              {`${proof.memoSignature.slice(0, 8)}...`}
+            </a>
+            {` (${proof.leafCount} payouts in the epoch).`}
+          </p>
+          <ul className="my-rewards-proofs">
+            {proof.allocations.map((allocation, index) => (
+              <li key={allocation.leafHash} className={results[index] ? undefined : 'my-rewards-failed'}>
+                {`${formatSOL(Number(allocation.leaf.rewardLamports) / 1e9)} - ${allocation.leaf.signature.slice(0, 8)}... - `}
+                {results[index] ? 'verified' : 'not verified'}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </>
+  );
+}
+
+interface PreferencesFormProps {
+  preferences: HolderPreferencesResponse;
+  isSaving: boolean;
+  onSave: (changes: HolderPreferencesUpdate) => Promise<boolean>;
+  onLinkTelegram: () => Promise<TelegramLinkResponse | null>;
+}
+
+/**
+ * Payout preferences of a verified holder (remounted when they change on the backend)
+ */
+function PreferencesForm({ preferences, isSaving, onSave, onLinkTelegram }: PreferencesFormProps) {
+  const [destination, setDestination] = useState(preferences.payoutDestination ?? '');
+  const [minPayout, setMinPayout] = useState(preferences.minPayoutSOL?.toString() ?? '');
+  const [telegramLink, setTelegramLink] = useState<TelegramLinkResponse | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const { options } = preferences;
+
+  const handleSave = () => {
+    const changes: HolderPreferencesUpdate = { payoutDestination: destination.trim() || null };
+    if (options.minPayoutAvailable) {
+      const value = minPayout.trim() ? Number(minPayout) : null;
+      if (value !== null && (!Number.isFinite(value) || value <= 0 || value > options.maxMinPayoutSOL)) {
+        setInputError(`The minimum payout must be greater than 0 and at most ${options.maxMinPayoutSOL} SOL.`);
+        return;
+      }
+      changes.minPayoutSOL = value;
+    }
+    setInputError(null);
+    onSave(changes);
+  };
+
+  const handleLinkTelegram = async () => {
+    setTelegramLink(await onLinkTelegram());
+  };
+
+  return (
+    <div className="my-rewards-preferences">
+      <label className="my-rewards-field">
+        <span className="my-rewards-field-label">Payout address</span>
+        <input
+          type="text"
+          className="my-rewards-input"
+          placeholder="This wallet"
+          value={destination}
+          onChange={(e) => setDestination(e.target.value)}
+        />
+        <span className="my-rewards-field-hint">Leave empty to receive payouts in this wallet.</span>
+      </label>
+
+      {options.minPayoutAvailable && (
+        <label className="my-rewards-field">
+          <span className="my-rewards-field-label">Minimum payout (SOL)</span>
+          <input
+            type="number"
+            className="my-rewards-input"
+            placeholder="Default"
+            min={0}
+            max={options.maxMinPayoutSOL}
+            step="any"
+            value={minPayout}
+            onChange={(e) => setMinPayout(e.target.value)}
+          />
+          <span className="my-rewards-field-hint">
+            Smaller rewards are saved up until they reach this amount. Leave empty for the default minimum.
+          </span>
+        </label>
+      )}
+
+      {inputError && <p className="my-rewards-message my-rewards-failed">{inputError}</p>}
+
+      <button className="my-rewards-connect" onClick={handleSave} disabled={isSaving}>
+        {isSaving ? 'Saving...' : 'Save preferences'}
+      </button>
+
+      {options.telegramAvailable && (
+        <>
+          <h3 className="my-rewards-heading">Telegram notifications</h3>
+          {preferences.telegramLinked ? (
+            <>
+              <p className="my-rewards-message">
+                You get a Telegram message for each payout
+                {preferences.telegramLinkedAt ? ` (linked ${formatCETDateTime(preferences.telegramLinkedAt)})` : ''}.
+              </p>
+              <button
+                className="my-rewards-connect"
+                onClick={() => onSave({ telegramNotifications: false })}
+                disabled={isSaving}
+              >
+                Turn off
+              </button>
+            </>
+          ) : telegramLink ? (
+            <p className="my-rewards-message">
+              {telegramLink.botUrl ? (
+                <>
+                  <a href={telegramLink.botUrl} target="_blank" rel="noopener noreferrer" className="my-rewards-link">
+                    Open the bot in Telegram
+                  </a>
+                  {' and press Start, or send it '}
+                </>
+              ) : 'Send the bot '}
+              <code>/start {telegramLink.code}</code>
+              {` before ${formatCETDateTime(telegramLink.expiresAt)}. Reload this page once linked.`}
+            </p>
+          ) : (
+            <>
+              <p className="my-rewards-message">Get a direct message from our Telegram bot when you are paid.</p>
+              <button className="my-rewards-connect" onClick={handleLinkTelegram}>
+                Link Telegram
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Payout preferences card: wallet verification, then the preferences form
+ */
+function PayoutPreferences() {
+  const session = useHolderSession();
+  const {
+    data: preferences,
+    error,
+    isSaving,
+    saveError,
+    save,
+    linkTelegram,
+  } = useHolderPreferences(session.wallet, session.token);
+
+  return (
+    <section className="dashboard-section">
+      <GlassCard className="dashboard-section-card">
+        <h2 className="section-title">Payout preferences</h2>
+        <p className="section-subtitle">
+          Choose where your rewards are sent, how often and whether you are notified.
+        </p>
+
+        {!session.verified ? (
+          <>
+            <p className="my-rewards-message">
+              {session.canSign
+                ? 'Sign a message with your wallet to prove you own it. Signing is free and does not send a transaction.'
+                : 'Your wallet cannot sign messages. Connect a wallet that supports message signing to change your preferences.'}
+            </p>
+            {session.error && <p className="my-rewards-message my-rewards-failed">{session.error}</p>}
+            {session.canSign && (
+              <button className="my-rewards-connect" onClick={session.verify} disabled={session.isVerifying}>
+                {session.isVerifying ? 'Waiting for signature...' : 'Verify wallet'}
+              </button>
+            )}
+          </>
+        ) : error && !preferences ? (
+          <p className="my-rewards-message">Your preferences could not be loaded. Please try again later.</p>
+        ) : preferences ? (
+          <>
+            {saveError && <p className="my-rewards-message my-rewards-failed">{saveError}</p>}
+            <PreferencesForm
+              key={preferences.updatedAt ?? 'default'}
+              preferences={preferences}
+              isSaving={isSaving}
+              onSave={save}
+              onLinkTelegram={linkTelegram}
+            />
+            <button className="my-rewards-signout" onClick={session.signOut}>
+              Sign out
+            </button>
+          </>
+        ) : (
+          <p className="my-rewards-message">Loading your preferences...</p>
+        )}
+      </GlassCard>
+    </section>
+  );
+}
+
+export function MyRewardsPage() {
+  const { connected, publicKey } = useWallet();
+  const { setVisible } = useWalletModal();
+  const pubkey = connected && publicKey ? publicKey.toString() : null;
+
+  const { data: statement, isLoading, error } = useWalletStatement(pubkey);
+
+  const payoutColumns: TableColumn<WalletStatementPayout>[] = useMemo(() => [
+    {
+      key: 'at',
+      header: 'DATE',
+      accessor: (row) => formatCETDateTime(row.at),
+      sortable: true,
+      sortFn: (a, b) => new Date(a.at).getTime() - new Date(b.at).getTime(),
+    },
+    {
+      key: 'epoch',
+      header: 'EPOCH',
+      accessor: (row) => row.epoch ?? '-',
+      sortable: false,
+    },
+    {
+      key: 'cycleNumber',
+      header: 'CYCLE',
+      accessor: (row) => row.cycleNumber ?? '-',
+      sortable: false,
+    },
+    {
+      key: 'amountSOL',
+      header: 'AMOUNT',
+      accessor: (row) => formatSOL(row.amountSOL),
+      sortable: true,
+      sortFn: (a, b) => a.amountSOL - b.amountSOL,
+    },
+    {
+      key: 'status',
+      header: 'STATUS',
+      accessor: (row) => row.status === 'failed'
+        ? <span className="my-rewards-failed" title={row.error ?? undefined}>Failed - queued for retry</span>
+        : row.source === 'retry' ? 'Paid (retry)' : 'Paid',
+      sortable: false,
+    },
+    {
+      key: 'signature',
+      header: 'TRANSACTION',
+      accessor: (row) => row.signature ? (
+        <a
+          href={`https://solscan.io/tx/${row.signature}?cluster=devnet`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="my-rewards-link"
+        >
+          {`${row.signature.slice(0, 8)}...`}
+        </a>
+      ) : '-',
+      sortable: false,
+    },
+  ], []);
+
+  const eligibilityColumns: TableColumn<EligibilityRow>[] = useMemo(() => [
+    {
+      key: 'at',
+      header: 'SINCE',
+      accessor: (row) => formatCETDateTime(row.at),
+      sortable: false,
+    },
+    {
+      key: 'status',
+      header: 'STATUS',
+      accessor: (row) => STATUS_LABELS[row.status],
+      sortable: false,
+    },
+    {
+      key: 'reason',
+      header: 'REASON',
+      accessor: (row) => REASON_LABELS[row.reason],
+      sortable: false,
+    },
+    {
+      key: 'holdingSOL',
+      header: 'HOLDING / MINIMUM',
+      accessor: (row) => row.holdingSOL !== null && row.minHoldingSOL !== null
+        ? `${row.holdingSOL.toFixed(4)} / ${row.minHoldingSOL.toFixed(4)} SOL`
+        : '-',
+      sortable: false,
+    },
+  ], []);
+
+  // Epochs with cycle payouts, newest first (retries are not part of the epoch roots)
+  const proofEpochs = useMemo(
+    () => Array.from(new Set((statement?.payouts ?? [])
+      .filter((payout) => payout.status === 'paid' && payout.source === 'cycle' && payout.epoch)
+      .map((payout) => payout.epoch as string))),
+    [statement]
+  );
+
+  // Newest first, like the payouts
+  const eligibilityHistory = useMemo(
+    () => [...(statement?.eligibilityHistory ?? [])].reverse(),
+    [statement]
+  );
+
+  if (!pubkey) {
+    return (
+      <div className="my-rewards-page">
+        <section className="dashboard-section">
+          <GlassCard className="dashboard-section-card">
+            <h2 className="section-title">My Rewards</h2>
+            <p className="section-subtitle">Connect your wallet to see your reward statement.</p>
+            <button className="my-rewards-connect" onClick={() => setVisible(true)}>
+              Connect Wallet
+            </button>
+          </GlassCard>
+        </section>
+      </div>
+    );
+  }
+
+  const current = statement?.current;
+  const eligibility = current?.eligibilityStatus
+    ? `${STATUS_LABELS[current.eligibilityStatus]}${current.eligibilityReason ? ` (${REASON_LABELS[current.eligibilityReason]})` : ''}`
+    : 'Unknown';
+  const balance = current?.balanceUI !== null && current?.balanceUI !== undefined
+    ? `${current.balanceUI.toLocaleString()} TEK`
+    : 'N/A';
+  const lastPaid = statement?.totals.lastPaidAt ? formatCETDateTime(statement.totals.lastPaidAt) : 'Never';
+
+  return (
+    <div className="my-rewards-page">
+      <section className="dashboard-section">
+        <GlassCard className="dashboard-section-card">
+          <h2 className="section-title">My Rewards</h2>
+          <p className="section-subtitle my-rewards-wallet">{pubkey}</p>
+
+          {error && !statement ? (
+            <p className="my-rewards-message">Your reward statement could not be loaded. Please try again later.</p>
+          ) : !isLoading && !statement ? (
+            <p className="my-rewards-message">No rewards have been recorded for this wallet yet.</p>
+          ) : (
+            <>
+              <div className="my-rewards-stats">
+                <StatCard
+                  label="Total received"
+                  value={statement ? formatSOL(statement.totals.paidSOL) : '-'}
+                />
+                <StatCard
+                  label="Payouts"
+                  value={statement ? statement.totals.payoutCount : '-'}
+                />
+                <StatCard
+                  label="Owed to you"
+                  value={statement ? formatSOL(statement.unpaid.totalSOL) : '-'}
+                />
+                <StatCard
+                  label="Eligibility"
+                  value={eligibility}
+                />
+                <StatCard
+                  label="Balance"
+                  value={balance}
+                />
+                <StatCard
+                  label="Last payout"
+                  value={lastPaid}
+                />
+              </div>
+
+              {statement && statement.unpaid.totalSOL > 0 && (
+                <p className="my-rewards-message">
+                  {statement.unpaid.accumulatedSOL > 0 &&
+                    `${formatSOL(statement.unpaid.accumulatedSOL)} is below the payout minimum and will be paid with a later reward. `}
+                  {statement.unpaid.queuedSOL > 0 &&
+                    `${formatSOL(statement.unpaid.queuedSOL)} failed to send and ${statement.unpaid.nextAttemptAt
+                      ? `will be retried at ${formatCETDateTime(statement.unpaid.nextAttemptAt)}.`
+                      : 'is waiting for a retry.'}`}
+                </p>
+              )}
+
+              <h3 className="my-rewards-heading">Payouts</h3>
+              <Table
+                data={statement?.payouts ?? []}
+                columns={payoutColumns}
+                searchable={false}
+                exportable={true}
+                exportFilename="my-rewards"
+                pageSize={20}
+                loading={isLoading}
+                emptyMessage="No payouts yet"
+              />
+
+              <EpochProofCheck wallet={pubkey} epochs={proofEpochs} />
+
+              <h3 className="my-rewards-heading">Eligibility history</h3>
+              <Table
+                data={eligibilityHistory}
+                columns={eligibilityColumns}
+                searchable={false}
+                pageSize={10}
+                loading={isLoading}
+                emptyMessage="Not scanned yet"
+              />
+            </>
+          )}
+        </GlassCard>
+      </section>
+
+      <PayoutPreferences />
+    </div>
+  );
+}
@@ -2,45 +2,93 @@ import { useMemo } from 'react';
 import { StatCard } from '../components/StatCard';
 import { GlassCard } from '../components/GlassCard';
 import { Table, type TableColumn } from '../components/Table';
+import { useHealthComponents } from '../hooks/useApiData';
+import { useLiveFeedStatus } from '../hooks/useLiveFeed';
+import { formatCETDateTime } from '../utils/timeUtils';
+import type { ComponentHealth, HealthStatus } from '../types/api';
 import './SystemStatusPage.css';
 
 export interface SystemStatusData {
   component: string;
-  status: string;
+  status: HealthStatus;
+  statusLabel: string;
+  message: string;
+  lastCheck: string;
+  history: ComponentHealth['history'];
   statusIndicator: string;
 }
 
+const STATUS_LABELS: Record<HealthStatus, string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Down',
+  unknown: 'Unknown',
+};
+
+const STATUS_INDICATORS: Record<HealthStatus, string> = {
+  healthy: '🟢',
+  degraded: '🟡',
+  down: '🔴',
+  unknown: '⚪',
+};
+
+// Worst first, used for sorting by status
+const STATUS_ORDER: Record<HealthStatus, number> = {
+  down: 0,
+  degraded: 1,
+  unknown: 2,
+  healthy: 3,
+};
+
 export function SystemStatusPage() {
-  // Wallet addresses
-  const treasuryWalletAddress = import.meta.env.VITE_TREASURY_WALLET_ADDRESS || 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo';
-  const rewardWalletAddress = import.meta.env.VITE_REWARD_WALLET_ADDRESS || '6PpZCPj72mdzBfrSJCJab9y535v2greCBe6YVW7XeXpo';
+  const { data: health, isLoading } = useHealthComponents();
+
+  const components = useMemo(() => health?.components ?? [], [health]);
+  const findComponent = (id: string) => components.find((component) => component.id === id);
+
+  // Wallet addresses - prefer the addresses the backend actually checks
+  const treasuryDetailsAddress = findComponent('treasury-wallet')?.details.address;
+  const rewardDetailsAddress = findComponent('reward-wallet')?.details.address;
+  const treasuryWalletAddress = typeof treasuryDetailsAddress === 'string'
+    ? treasuryDetailsAddress
+    : import.meta.env.VITE_TREASURY_WALLET_ADDRESS || 'DwhLErVhPhzg1ep19Lracmp6iMTECh4nVBdPebsvJwjo';
+  const rewardWalletAddress = typeof rewardDetailsAddress === 'string'
+    ? rewardDetailsAddress
+    : import.meta.env.VITE_REWARD_WALLET_ADDRESS || '6PpZCPj72mdzBfrSJCJab9y535v2greCBe6YVW7XeXpo';
 
-  // Placeholder system status data
   const systemStatusData: SystemStatusData[] = useMemo(() => {
-    return [
-      {
-        component: 'Distribution engine',
-        status: 'Online',
-        statusIndicator: '🟢',
-      },
-      {
-        component: 'Harvesting engine',
-        status: 'Online',
-        statusIndicator: '🟢',
-      },
-      {
-        component: 'Telegram Bot',
-        status: 'Online',
-        statusIndicator: '🟢',
-      },
-    ];
-  }, []);
+    return components.map((component) => ({
+      component: component.name,
+      status: component.status,
+      statusLabel: STATUS_LABELS[component.status],
+      message: component.message,
+      lastCheck: formatCETDateTime(component.checkedAt),
+      history: component.history,
+      statusIndicator: STATUS_INDICATORS[component.status],
+    }));
+  }, [components]);
 
   // Calculate stats
-  const distributionEngineStatus = 'Online';
-  const harvestingEngineStatus = 'Online';
-  const errors = 'None';
-  const lastUpdate = new Date().toISOString().split('T')[0]; // Today's date in YYYY-MM-DD format
+  const overallStatus = health ? STATUS_LABELS[health.status] : 'Unknown';
+  const distributionEngine = findComponent('distribution-engine');
+  const distributionEngineStatus = distributionEngine ? STATUS_LABELS[distributionEngine.status] : 'Unknown';
+  const failingCount = components.filter((component) => component.status === 'down' || component.status === 'degraded').length;
+  const errors = failingCount === 0 ? 'None' : `${failingCount} component${failingCount === 1 ? '' : 's'}`;
+  const lastUpdate = health?.checkedAt ? formatCETDateTime(health.checkedAt) : 'N/A';
+
+  // Scheduler state is pushed by the live feed; without it the page polls
+  const { connected: liveConnected, snapshot: liveSnapshot } = useLiveFeedStatus();
+  const scheduler = liveSnapshot?.scheduler;
+  const schedulerStatus = !liveConnected || !scheduler
+    ? 'Unknown'
+    : scheduler.isRunning
+      ? 'Running cycle'
+      : scheduler.paused
+        ? 'Paused'
+        : scheduler.skipNextCycle
+          ? 'Skipping next cycle'
+          : 'Idle';
+  const liveUpdates = liveConnected ? 'Connected' : 'Polling';
 
   // Copy wallet address to clipboard
   const handleCopyAddress = async (address: string) => {
@@ -68,9 +116,37 @@ export function SystemStatusPage() {
     {
       key: 'status',
       header: 'STATUS',
-      accessor: (row) => row.status,
+      accessor: (row) => row.statusLabel,
       sortable: true,
-      sortFn: (a, b) => a.status.localeCompare(b.status),
+      sortFn: (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status],
+    },
+    {
+      key: 'message',
+      header: 'DETAILS',
+      accessor: (row) => row.message,
+      sortable: false,
+    },
+    {
+      key: 'lastCheck',
+      header: 'LAST CHECK',
+      accessor: (row) => row.lastCheck,
+      sortable: false,
+    },
+    {
+      key: 'history',
+      header: 'RECENT',
+      accessor: (row) => (
+        <span className="status-history">
+          {row.history.map((entry, index) => (
+            <span
+              key={`${entry.checkedAt}-${index}`}
+              className={`status-history-dot status-history-dot--${entry.status}`}
+              title={`${formatCETDateTime(entry.checkedAt)}: ${entry.message}`}
+            />
+          ))}
+        </span>
+      ),
+      sortable: false,
     },
     {
       key: 'statusIndicator',
@@ -91,12 +167,12 @@ export function SystemStatusPage() {
           {/* Stats Summary */}
           <div className="system-status-stats">
             <StatCard
-              label="Distribution engine"
-              value={distributionEngineStatus}
+              label="Overall status"
+              value={overallStatus}
             />
             <StatCard
-              label="Harvesting engine"
-              value={harvestingEngineStatus}
+              label="Distribution engine"
+              value={distributionEngineStatus}
             />
             <StatCard
               label="Errors"
@@ -106,6 +182,14 @@ export function SystemStatusPage() {
               label="Last Update"
               value={lastUpdate}
             />
+            <StatCard
+              label="Scheduler"
+              value={schedulerStatus}
+            />
+            <StatCard
+              label="Live updates"
+              value={liveUpdates}
+            />
           </div>
 
           {/* Wallet Addresses Section */}
@@ -167,7 +251,7 @@ export function SystemStatusPage() {
               searchable={false}
               pagination={false}
               exportable={false}
-              loading={false}
+              loading={isLoading}
               emptyMessage="No system status data available"
             />
           </div>
@@ -14,6 +14,15 @@ import type {
   CurrentCycleInfo,
   EpochCycleResponse,
   EpochsResponse,
+  HealthComponentsResponse,
+  WalletStatementResponse,
+  HolderChallengeResponse,
+  HolderSessionResponse,
+  HolderPreferencesResponse,
+  HolderPreferencesUpdate,
+  TelegramLinkResponse,
+  TransferFeeResponse,
+  EpochProofResponse,
 } from '../types/api';
 
 // Production check
@@ -347,7 +356,7 @@ export async function fetchRewards(pubkey?: string): Promise<RewardsResponse> {
  */
 export async function fetchPayouts(params?: {
   pubkey?: string;
-  status?: 'pending' | 'failed';
+  status?: 'pending' | 'failed' | 'paid';
   limit?: number;
 }): Promise<PayoutsResponse> {
   try {
@@ -775,6 +784,8 @@ export async function fetchEpochCycles(epoch?: string): Promise<EpochCycleRespon
         distributed: 0,
         rolledOver: 0,
         failed: 0,
+        partial: 0,
+        resumed: 0,
         cycles: [],
       },
       cycles: [],
@@ -807,4 +818,172 @@ export async function fetchEpochs(limit?: number): Promise<EpochsResponse> {
   }
 }
 
+/**
+ * Fetch the reward statement of a wallet
+ * @returns null if the backend has no history for the wallet
+ */
+export async function fetchWalletStatement(
+  pubkey: string,
+  params?: { limit?: number; offset?: number }
+): Promise<WalletStatementResponse | null> {
+  try {
+    const response = await retryRequest(() =>
+      apiClient.get<WalletStatementResponse>(`/dashboard/wallets/${encodeURIComponent(pubkey)}`, { params })
+    );
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    if (isDevelopment) {
+      console.error('[API] Error fetching wallet statement:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Request the message a holder signs to verify their wallet
+ */
+export async function requestHolderNonce(wallet: string): Promise<HolderChallengeResponse> {
+  const response = await apiClient.post<HolderChallengeResponse>('/holders/auth/nonce', { wallet });
+  return response.data;
+}
+
+/**
+ * Send the signed verification message and start a holder session
+ * @param nonce - nonce of the challenge from requestHolderNonce
+ * @param signature - base64 signature of the message from requestHolderNonce
+ */
+export async function verifyHolderSignature(wallet: string, nonce: string, signature: string): Promise<HolderSessionResponse> {
+  const response = await apiClient.post<HolderSessionResponse>('/holders/auth/verify', { wallet, nonce, signature });
+  return response.data;
+}
+
+/**
+ * End a holder session
+ */
+export async function endHolderSession(token: string): Promise<void> {
+  await apiClient.delete('/holders/auth/session', {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+/**
+ * Fetch the preferences of the verified wallet
+ */
+export async function fetchHolderPreferences(token: string): Promise<HolderPreferencesResponse> {
+  try {
+    const response = await retryRequest(() =>
+      apiClient.get<HolderPreferencesResponse>('/holders/me/preferences', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    );
+    return response.data;
+  } catch (error) {
+    if (isDevelopment) {
+      console.error('[API] Error fetching holder preferences:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change the preferences of the verified wallet (omitted fields are kept)
+ */
+export async function updateHolderPreferences(
+  token: string,
+  changes: HolderPreferencesUpdate
+): Promise<HolderPreferencesResponse> {
+  const response = await apiClient.put<HolderPreferencesResponse>('/holders/me/preferences', changes, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+}
+
+/**
+ * Get a code that links a Telegram chat to the verified wallet
+ */
+export async function createTelegramLink(token: string): Promise<TelegramLinkResponse> {
+  const response = await apiClient.post<TelegramLinkResponse>('/holders/me/telegram/link', undefined, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return response.data;
+}
+
+/**
+ * Fetch the token's transfer fee schedule
+ * @returns null if the backend cannot read the mint
+ */
+export async function fetchTransferFee(): Promise<TransferFeeResponse | null> {
+  try {
+    const response = await retryRequest(() =>
+      apiClient.get<TransferFeeResponse>('/dashboard/transfer-fee')
+    );
+    return response.data;
+  } catch (error) {
+    if (isDevelopment) {
+      console.error('[API] Error fetching transfer fee:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Fetch the Merkle proofs of a wallet's payouts in an epoch
+ * Returns null when the epoch root is not published or the wallet was not paid in the epoch.
+ */
+export async function fetchEpochProof(epoch: string, wallet: string): Promise<EpochProofResponse | null> {
+  try {
+    const response = await retryRequest(() =>
+      apiClient.get<EpochProofResponse>(
+        `/audit/epochs/${encodeURIComponent(epoch)}/proof/${encodeURIComponent(wallet)}`
+      )
+    );
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    if (isDevelopment) {
+      console.error('[API] Error fetching epoch proof:', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the live status of each backend component
+ */
+export async function fetchHealthComponents(): Promise<HealthComponentsResponse> {
+  try {
+    const response = await retryRequest(() =>
+      apiClient.get<HealthComponentsResponse>('/health/components')
+    );
+    return response.data;
+  } catch (error) {
+    if (isDevelopment) {
+      console.error('[API] Error fetching component health:', error);
+    }
+    // The backend itself is unreachable
+    const now = new Date().toISOString();
+    return {
+      status: 'down',
+      checkedAt: now,
+      components: [
+        {
+          id: 'backend-api',
+          name: 'Backend API',
+          status: 'down',
+          message: error instanceof Error ? error.message : 'Backend unreachable',
+          checkedAt: now,
+          latencyMs: null,
+          details: {},
+          history: [],
+        },
+      ],
+    };
+  }
+}
+
 export default apiClient;
@@ -0,0 +1,235 @@
+/**
+ * Live feed client for the backend's server-sent events stream (GET /dashboard/live)
+ *
+ * One EventSource is shared by every hook. Pipeline events invalidate the
+ * cache entries they affect and wake the hooks using them, so the dashboard
+ * updates within seconds of a distribution instead of at the next polling
+ * interval. Polling stays as the fallback: hooks only skip their interval for
+ * keys the feed fully covers, and only while the stream is connected.
+ */
+
+import apiClient from './api';
+import { dataCache } from './dataCache';
+import type {
+  CycleProgress,
+  LiveEvent,
+  LiveEventType,
+  LiveSnapshot,
+  SolPriceResponse,
+} from '../types/api';
+
+type KeyMatcher = (key: string) => boolean;
+type InvalidationListener = (matches: KeyMatcher) => void;
+type StateListener = () => void;
+
+// Cache key patterns (see useApiData) refreshed by each event
+const CYCLE_RESULT_KEYS = [/^epoch-cycles:/, /^epochs:/, /^historical-/];
+// Payouts are added to wallet statements when the cycle journal closes (still polled for eligibility)
+const WALLET_STATEMENT_KEYS = [/^wallet-statement:/];
+const INVALIDATIONS: Record<LiveEventType, (data: Record<string, unknown>) => RegExp[]> = {
+  'cycle.started': () => [/^current-cycle-info$/],
+  'tax.harvested': () => [/^treasury-balance/],
+  'swap.completed': () => [/^treasury-balance/, /^liquidity-/],
+  'distribution.completed': () => [/^rewards/, /^holders:/, /^payouts:/, /^treasury-balance/],
+  'cycle.rolled_over': () => [/^rewards/],
+  'cycle.failed': () => [/^health-components$/],
+  'cycle.progress': () => [],
+  'price.updated': () => [], // Written to the cache directly, see handlePriceUpdate
+  // Cycle results are recorded after the pipeline events, so they refresh once the cycle finished
+  'scheduler.state': (data) => [
+    /^current-cycle-info$/,
+    /^health-components$/,
+    ...(data.reason === 'cycle_finished' ? [...CYCLE_RESULT_KEYS, ...WALLET_STATEMENT_KEYS] : []),
+  ],
+};
+
+// Keys that only change through events on the feed - not polled while connected
+const COVERED_KEYS = [...CYCLE_RESULT_KEYS, /^payouts:/];
+
+// Everything the feed refreshes, for a reconnect that missed events
+const ALL_LIVE_KEYS = [
+  ...COVERED_KEYS,
+  ...WALLET_STATEMENT_KEYS,
+  /^current-cycle-info$/,
+  /^health-components$/,
+  /^treasury-balance/,
+  /^liquidity-/,
+  /^rewards/,
+  /^holders:/,
+];
+
+// Retry delay after the backend refused the stream (e.g. 503 at capacity)
+const RECONNECT_DELAY = 60 * 1000; // 1 minute
+
+class LiveFeed {
+  private source: EventSource | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected = false;
+  private hasConnected = false;
+  private lastEventId: number | null = null;
+  private snapshot: LiveSnapshot | null = null;
+  private progress: CycleProgress | null = null;
+  private invalidationListeners: Set<InvalidationListener> = new Set();
+  private stateListeners: Set<StateListener> = new Set();
+
+  /**
+   * Called when cache keys were refreshed by an event (opens the stream on first use)
+   */
+  onInvalidate(listener: InvalidationListener): () => void {
+    this.invalidationListeners.add(listener);
+    this.connect();
+    return () => {
+      this.invalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called when the connection, snapshot or cycle progress changed (opens the stream on first use)
+   */
+  subscribe(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    this.connect();
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Whether the feed announces every change of this cache key
+   */
+  covers(key: string): boolean {
+    return COVERED_KEYS.some((pattern) => pattern.test(key));
+  }
+
+  getSnapshot(): LiveSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Cycle being processed right now (null when idle)
+   */
+  getProgress(): CycleProgress | null {
+    return this.progress;
+  }
+
+  private connect(): void {
+    if (this.source || this.reconnectTimer || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const source = new EventSource(`${apiClient.defaults.baseURL}/dashboard/live`);
+    this.source = source;
+
+    source.addEventListener('snapshot', (message) => {
+      this.handleSnapshot(JSON.parse((message as MessageEvent<string>).data) as LiveSnapshot);
+    });
+    for (const type of Object.keys(INVALIDATIONS) as LiveEventType[]) {
+      source.addEventListener(type, (message) => {
+        this.handleEvent(JSON.parse((message as MessageEvent<string>).data) as LiveEvent);
+      });
+    }
+
+    source.onerror = () => {
+      this.setConnected(false);
+      // EventSource retries network errors itself, but gives up on an HTTP error status
+      if (source.readyState === EventSource.CLOSED) {
+        source.close();
+        this.source = null;
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          this.connect();
+        }, RECONNECT_DELAY);
+      }
+    };
+  }
+
+  private handleSnapshot(snapshot: LiveSnapshot): void {
+    // Events missed while disconnected are replayed after the snapshot, unless the backend lost them.
+    // Without a received event id there is no Last-Event-ID, so compare with the previous snapshot.
+    const missedEvents = snapshot.resync
+      || (this.lastEventId === null && snapshot.lastEventId !== this.snapshot?.lastEventId);
+    if (this.hasConnected && missedEvents) {
+      this.invalidate(ALL_LIVE_KEYS);
+    }
+
+    this.snapshot = snapshot;
+    this.progress = snapshot.progress;
+    this.hasConnected = true;
+    this.setConnected(true);
+  }
+
+  private handleEvent(event: LiveEvent): void {
+    this.lastEventId = event.id;
+
+    if (event.type === 'cycle.progress') {
+      const progress = event.data as unknown as CycleProgress;
+      this.progress = progress.stage === 'finished' ? null : progress;
+      this.notifyState();
+    } else if (event.type === 'price.updated') {
+      this.handlePriceUpdate(event);
+    } else if (event.type === 'scheduler.state' && this.snapshot) {
+      const scheduler = { ...event.data };
+      delete scheduler.reason;
+      this.snapshot = { ...this.snapshot, scheduler: scheduler as unknown as LiveSnapshot['scheduler'] };
+      this.notifyState();
+    }
+
+    const patterns = INVALIDATIONS[event.type]?.(event.data) ?? [];
+    if (patterns.length > 0) {
+      this.invalidate(patterns);
+    }
+  }
+
+  /**
+   * Pushed prices replace the cached value instead of triggering a refetch
+   */
+  private handlePriceUpdate(event: LiveEvent): void {
+    const prices = event.data.prices as LiveSnapshot['prices'] | undefined;
+    if (this.snapshot && prices) {
+      this.snapshot = { ...this.snapshot, prices };
+      this.notifyState();
+    }
+    if (event.data.pair === 'solUsd' && typeof event.data.price === 'number') {
+      const solPrice: SolPriceResponse = {
+        price: event.data.price,
+        source: 'jupiter',
+        updatedAt: event.createdAt,
+      };
+      dataCache.set('sol-price', solPrice, { ttl: 5 * 60 * 1000, staleTime: 1 * 60 * 1000 }); // As useSolPrice
+      this.notifyInvalidation((key) => key === 'sol-price');
+    }
+  }
+
+  private invalidate(patterns: RegExp[]): void {
+    for (const pattern of patterns) {
+      dataCache.invalidatePattern(pattern);
+    }
+    this.notifyInvalidation((key) => patterns.some((pattern) => pattern.test(key)));
+  }
+
+  private notifyInvalidation(matches: KeyMatcher): void {
+    for (const listener of this.invalidationListeners) {
+      listener(matches);
+    }
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected !== connected) {
+      this.connected = connected;
+      this.notifyState();
+    }
+  }
+
+  private notifyState(): void {
+    for (const listener of this.stateListeners) {
+      listener();
+    }
+  }
+}
+
+// Singleton instance
+export const liveFeed = new LiveFeed();
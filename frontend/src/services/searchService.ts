@@ -1,5 +1,5 @@
-import { fetchHolders, fetchPayouts, fetchHistoricalPayouts } from './api';
-import type { Payout, HistoricalPayout } from '../types/api';
+import { fetchHistoricalPayouts, fetchWalletStatement } from './api';
+import type { HistoricalPayout } from '../types/api';
 
 export interface SearchResult {
   type: 'wallet' | 'transaction';
@@ -78,54 +78,31 @@ export async function search(query: string): Promise<SearchResult | null> {
 }
 
 /**
- * Search for a wallet address
+ * Search for a wallet address (uses the backend's wallet statement)
  */
 async function searchWallet(pubkey: string): Promise<SearchResult | null> {
   try {
-    // Search in holders
-    const holdersResponse = await fetchHolders({ limit: 1 });
-    const holder = holdersResponse.holders.find(h => h.pubkey === pubkey);
-
-    // Search in payouts
-    const payoutsResponse = await fetchPayouts({ pubkey, limit: 10 });
-    
-    // Search in historical payouts
-    const historicalPayoutsResponse = await fetchHistoricalPayouts({ 
-      pubkey, 
-      limit: 10 
-    });
+    const statement = await fetchWalletStatement(pubkey, { limit: 10 });
 
     // If no results found, return null
-    if (!holder && payoutsResponse.payouts.length === 0 && historicalPayoutsResponse.payouts.length === 0) {
+    if (!statement) {
       return null;
     }
 
-    // Combine recent payouts
-    const recentPayouts = [
-      ...payoutsResponse.payouts.map((p: Payout) => ({
-        rewardSOL: p.rewardSOL,
-        status: p.status,
-        timestamp: p.queuedAt,
-        transactionSignature: null,
-      })),
-      ...historicalPayoutsResponse.payouts
-        .filter((p: HistoricalPayout) => p.status === 'success')
-        .map((p: HistoricalPayout) => ({
-          rewardSOL: p.rewardSOL,
-          status: p.status,
-          timestamp: p.executedAt || p.timestamp,
-          transactionSignature: p.transactionSignature,
-        })),
-    ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-     .slice(0, 10);
+    const recentPayouts = statement.payouts.map((p) => ({
+      rewardSOL: p.amountSOL,
+      status: p.status,
+      timestamp: p.at,
+      transactionSignature: p.signature,
+    }));
 
     const result: WalletSearchResult = {
       pubkey,
-      balance: holder?.balance,
-      usdValue: holder?.usdValue,
-      eligibilityStatus: holder?.eligibilityStatus,
-      lastReward: holder?.lastReward,
-      pendingPayouts: payoutsResponse.payouts.filter(p => p.status === 'pending').length,
+      balance: statement.current.balanceUI !== null ? String(statement.current.balanceUI) : undefined,
+      eligibilityStatus: statement.current.eligibilityStatus ?? undefined,
+      lastReward: statement.totals.lastPaidAt,
+      pendingPayouts: statement.unpaid.queueStatus === 'pending' ? 1 : 0,
+      totalSOLForHolder: statement.totals.paidSOL,
       recentPayouts: recentPayouts.length > 0 ? recentPayouts : undefined,
     };
 
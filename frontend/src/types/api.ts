@@ -57,6 +57,8 @@ export interface RewardsResponse {
     updatedAt: string | null;
   } | null;
   tax?: TaxStatistics;
+  split?: DistributionSplitBucket[];
+  rewardAsset?: RewardAssetSummary;
   filtered: {
     pubkey: string;
     eligible: boolean;
@@ -65,13 +67,54 @@ export interface RewardsResponse {
   } | null;
 }
 
+// One bucket of the configured SOL split (holders, treasury, burn, ...)
+export interface DistributionSplitBucket {
+  name: string;
+  percent: number | null;
+  fixedSol: number | null;
+  destination: string | null; // null for the holders bucket
+  lastAmountSOL: number | null;
+  lastSignature: string | null;
+  totalSOL: number;
+}
+
+// What holders are paid in (SOL, the project token or another SPL token)
+export interface RewardAssetSummary {
+  kind: 'SOL' | 'TOKEN' | 'SPL';
+  symbol: string;
+  mint: string | null; // null for SOL
+  decimals: number;
+  totalDistributed: number; // In the asset's units
+  lastDistributed: number | null; // null if the last cycle paid a different asset
+}
+
+export interface PayoutAttempt {
+  attemptedAt: string;
+  signature: string | null;
+  result: 'PAID' | 'FAILED' | 'INSUFFICIENT_BALANCE';
+  error: string | null;
+}
+
 export interface Payout {
   pubkey: string;
   rewardSOL: number;
   queuedAt: string;
   retryCount: number;
-  status: 'pending' | 'failed';
+  status: 'pending' | 'failed' | 'paid';
   lastReward: string | null;
+  amountLamports?: string;
+  nextAttemptAt?: string | null;
+  lastError?: string | null;
+  attempts?: PayoutAttempt[];
+  sources?: Array<{
+    journalId: string;
+    epoch: string | null;
+    cycleNumber: number | null;
+    amountLamports: string;
+    reason: 'TRANSFER_FAILED' | 'INSUFFICIENT_BALANCE';
+  }>;
+  paidAt?: string | null;
+  paidSignature?: string | null;
 }
 
 export interface PayoutsResponse {
@@ -83,6 +126,7 @@ export interface PayoutsResponse {
     pending: number;
     failed: number;
     totalSOL: number;
+    owedSOL?: number;
   };
 }
 
@@ -186,7 +230,7 @@ export interface SolPriceResponse {
 }
 
 // Cycle/Epoch Types
-export type CycleState = 'DISTRIBUTED' | 'ROLLED_OVER' | 'FAILED';
+export type CycleState = 'DISTRIBUTED' | 'ROLLED_OVER' | 'FAILED' | 'PARTIAL' | 'RESUMED';
 
 export interface CycleResult {
   epoch: string; // ISO date string (YYYY-MM-DD)
@@ -194,12 +238,19 @@ export interface CycleResult {
   state: CycleState;
   timestamp: number; // Unix timestamp in milliseconds
   error?: string;
+  journalId?: string; // Cycle journal of the on-chain steps (PARTIAL and RESUMED)
   taxResult?: {
     harvested: string; // TEK amount harvested (in raw token units)
     solToHolders: string;
     solToTreasury: string;
     distributedCount: number;
     swapSignature?: string;
+    split?: Array<{
+      name: string;
+      destination: string | null;
+      amountSOL: string;
+      signature?: string;
+    }>;
   };
 }
 
@@ -227,6 +278,8 @@ export interface EpochCycleResponse {
     distributed: number;
     rolledOver: number;
     failed: number;
+    partial: number;
+    resumed: number;
     cycles: CycleResult[];
   };
   cycles: CycleResult[];
@@ -241,6 +294,8 @@ export interface EpochsResponse {
     distributed: number;
     rolledOver: number;
     failed: number;
+    partial: number;
+    resumed: number;
     cycles: CycleResult[];
     createdAt: number;
     updatedAt: number;
@@ -249,3 +304,226 @@ export interface EpochsResponse {
   limit: number;
 }
 
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+export interface HealthCheckEntry {
+  status: HealthStatus;
+  message: string;
+  checkedAt: string;
+  latencyMs: number | null;
+}
+
+export interface ComponentHealth extends HealthCheckEntry {
+  id: string;
+  name: string;
+  details: Record<string, unknown>;
+  history: HealthCheckEntry[]; // Oldest first
+}
+
+export interface HealthComponentsResponse {
+  status: HealthStatus; // Worst status of all components
+  checkedAt: string | null;
+  components: ComponentHealth[];
+}
+
+// Dashboard live feed (GET /dashboard/live, server-sent events)
+export type LiveEventType =
+  | 'cycle.started'
+  | 'tax.harvested'
+  | 'swap.completed'
+  | 'distribution.completed'
+  | 'cycle.rolled_over'
+  | 'cycle.failed'
+  | 'cycle.progress'
+  | 'price.updated'
+  | 'scheduler.state';
+
+export interface LiveEvent {
+  id: number;
+  type: LiveEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export type CycleProgressStage = 'harvesting' | 'swapping' | 'distributing' | 'treasury' | 'finished';
+
+export interface CycleProgress {
+  epoch: string;
+  cycleNumber: number | null;
+  stage: CycleProgressStage;
+  batch: { current: number; total: number } | null; // Swap batches (1-based)
+  payouts: { settled: number; failed: number; total: number } | null; // Holder transfers
+  updatedAt: string;
+}
+
+export interface LiveSchedulerState {
+  isRunning: boolean;
+  paused: boolean;
+  pauseReason: string | null;
+  skipNextCycle: boolean;
+  lastRun: string | null;
+  nextRun: string | null;
+}
+
+export interface LivePrices {
+  tekSol: number | null;
+  solUsd: number | null;
+  updatedAt: string | null;
+}
+
+export interface LiveSnapshot {
+  scheduler: LiveSchedulerState;
+  cycle: { epoch: string; cycleNumber: number; nextCycleInSeconds: number };
+  progress: CycleProgress | null;
+  prices: LivePrices;
+  lastEventId: number;
+  resync: boolean; // Events were missed and cannot be replayed - refetch everything
+}
+
+// Wallet statement (GET /dashboard/wallets/:pubkey)
+export type WalletEligibilityStatus = 'eligible' | 'excluded' | 'blacklisted';
+
+export type WalletEligibilityReason = 'MEETS_MIN_HOLDING' | 'BELOW_MIN_HOLDING' | 'BLACKLISTED' | 'NOT_HOLDING';
+
+export interface WalletStatementPayout {
+  epoch: string | null;
+  cycleNumber: number | null;
+  journalId: string | null;
+  source: 'cycle' | 'retry';
+  status: 'paid' | 'failed';
+  amountSOL: number;
+  amountLamports: string;
+  signature: string | null;
+  error: string | null;
+  at: string;
+}
+
+export interface WalletStatementResponse {
+  pubkey: string;
+  current: {
+    balance: string;
+    balanceUI: number | null;
+    eligible: boolean;
+    blacklisted: boolean;
+    eligibilityStatus: WalletEligibilityStatus | null;
+    eligibilityReason: WalletEligibilityReason | null;
+    eligibleSince: string | null;
+  };
+  balanceHistory: Array<{ at: string; balance: string; balanceUI: number | null }>;
+  eligibilityHistory: Array<{
+    at: string;
+    status: WalletEligibilityStatus;
+    reason: WalletEligibilityReason;
+    holdingSOL: number | null;
+    minHoldingSOL: number | null;
+  }>;
+  payouts: WalletStatementPayout[]; // Newest first
+  payoutsTotal: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+  unpaid: {
+    accumulatedSOL: number; // Below the payout threshold, paid with a later reward
+    queuedSOL: number; // Failed payout waiting for retry
+    queueStatus: 'pending' | 'failed' | null;
+    nextAttemptAt: string | null;
+    lastError: string | null;
+    totalSOL: number;
+  };
+  totals: {
+    paidSOL: number;
+    paidLamports: string;
+    payoutCount: number;
+    failedCount: number;
+    firstPaidAt: string | null;
+    lastPaidAt: string | null;
+  };
+}
+
+export interface HolderChallengeResponse {
+  nonce: string;
+  message: string; // Text the wallet signs
+  expiresAt: string;
+}
+
+export interface HolderSessionResponse {
+  token: string;
+  wallet: string;
+  expiresAt: string;
+}
+
+export interface HolderPreferencesResponse {
+  wallet: string;
+  payoutDestination: string | null; // null: payouts go to the wallet itself
+  minPayoutSOL: number | null; // null: the global payout threshold
+  telegramLinked: boolean;
+  telegramLinkedAt: string | null;
+  verifiedAt: string | null;
+  updatedAt: string | null;
+  options: {
+    minPayoutAvailable: boolean; // Requires reward accumulation on the backend
+    maxMinPayoutSOL: number;
+    telegramAvailable: boolean;
+  };
+}
+
+export interface HolderPreferencesUpdate {
+  payoutDestination?: string | null;
+  minPayoutSOL?: number | null;
+  telegramNotifications?: false; // Unlink the Telegram chat
+}
+
+export interface TelegramLinkResponse {
+  code: string; // Sent to the bot as /start <code>
+  botUrl: string | null;
+  expiresAt: string;
+}
+
+export interface TransferFeeTerm {
+  basisPoints: number;
+  maximumFee: string; // Raw token units
+  epoch: number; // First epoch the fee applies to
+}
+
+export interface TransferFeeResponse {
+  mint: string;
+  decimals: number;
+  currentEpoch: number;
+  effective: TransferFeeTerm; // Fee charged on transfers now
+  pending: (TransferFeeTerm & { epochsRemaining: number; estimatedEffectiveAt: string }) | null;
+  olderTransferFee: TransferFeeTerm;
+  newerTransferFee: TransferFeeTerm;
+  transferFeeConfigAuthority: string | null;
+  withdrawWithheldAuthority: string | null;
+  withheldInMint: string;
+  fetchedAt: string;
+  split: Array<{
+    name: string;
+    percent: number | null;
+    basisPointsOfTransfer: number; // Share of each transfer going to the bucket
+  }>;
+  hasFixedBuckets: boolean;
+}
+
+export interface RewardAllocationLeaf {
+  wallet: string;
+  eligibleBalance: string | null; // Raw token units the share was based on
+  rewardLamports: string;
+  signature: string;
+}
+
+export interface EpochProofResponse {
+  epoch: string;
+  wallet: string;
+  root: string; // Published in the memo transaction
+  leafCount: number;
+  memo: string;
+  memoSignature: string;
+  publishedAt: number;
+  allocations: Array<{
+    leaf: RewardAllocationLeaf;
+    leafHash: string;
+    proof: string[]; // Sibling hashes, leaf to root
+  }>;
+}
@@ -0,0 +1,56 @@
+import type { RewardAllocationLeaf } from '../types/api';
+
+/**
+ * Verification of the epoch reward Merkle proofs (see the backend's rewardMerkleService)
+ *
+ *   leaf = sha256(0x00 || "<wallet>:<eligibleBalance>:<rewardLamports>:<signature>")
+ *   node = sha256(0x01 || min(a, b) || max(a, b))
+ */
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function sha256(prefix: number, ...parts: Uint8Array[]): Promise<string> {
+  const length = parts.reduce((sum, part) => sum + part.length, 1);
+  const data = new Uint8Array(length);
+  data[0] = prefix;
+  let offset = 1;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * Hash a leaf the way the backend does
+ */
+export function hashAllocationLeaf(leaf: RewardAllocationLeaf): Promise<string> {
+  const encoded = `${leaf.wallet}:${leaf.eligibleBalance ?? ''}:${leaf.rewardLamports}:${leaf.signature}`;
+  return sha256(0, new TextEncoder().encode(encoded));
+}
+
+/**
+ * Check that a leaf and its proof lead to the root
+ */
+export async function verifyAllocationProof(
+  leaf: RewardAllocationLeaf,
+  proof: string[],
+  root: string
+): Promise<boolean> {
+  let hash = await hashAllocationLeaf(leaf);
+  for (const sibling of proof) {
+    const [first, second] = hash < sibling ? [hash, sibling] : [sibling, hash];
+    hash = await sha256(1, fromHex(first), fromHex(second));
+  }
+  return hash === root.toLowerCase();
+}
@@ -11,6 +11,7 @@ export interface BotConfig {
   POLLING_INTERVAL_MS: number;
   RETRY_ATTEMPTS: number;
   RETRY_DELAY_MS: number;
+  ADMIN_API_KEY: string | null; // Backend admin API key (only needed for on-demand exports)
 }
 
 function getEnvVar(key: string, defaultValue?: string): string {
@@ -44,6 +45,7 @@ export function loadConfig(): BotConfig {
     POLLING_INTERVAL_MS: getEnvNumber('POLLING_INTERVAL_MS', 300000), // 5 minutes default
     RETRY_ATTEMPTS: getEnvNumber('RETRY_ATTEMPTS', 3),
     RETRY_DELAY_MS: getEnvNumber('RETRY_DELAY_MS', 1000),
+    ADMIN_API_KEY: process.env.ADMIN_API_KEY || null,
   };
 }
 
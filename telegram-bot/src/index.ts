@@ -22,6 +22,12 @@ function getWebhookUrl(): string {
   return normalized.replace(/\/+$/, '');
 }
 
+// Backend webhook events older than this are rejected (replay protection)
+const BACKEND_WEBHOOK_TOLERANCE_SECONDS = 300;
+const MAX_PROCESSED_EVENT_IDS = 500;
+
+type RawBodyRequest = Request & { rawBody?: Buffer };
+
 function parseAuthorizedChatIds(raw: string): string[] {
   return raw.split(',').map((id) => id.trim()).filter(Boolean);
 }
@@ -77,8 +83,172 @@ type RewardApiResponse = {
     lastDistributionTx: string | null;
     distributionCount: number;
   };
+  rewardAsset?: {
+    kind: 'SOL' | 'TOKEN' | 'SPL';
+    symbol: string;
+    mint: string | null;
+    decimals: number;
+    totalDistributed: number;
+    lastDistributed: number | null;
+  };
+};
+
+/**
+ * Event delivered by the backend webhooks (see backend README "Webhooks")
+ */
+type BackendWebhookEvent = {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+
+type DistributionCompletedData = {
+  epoch: string;
+  epochNumber: number | null;
+  cycleNumber: number | null;
+  cyclesPerEpoch: number;
+  solToHoldersLamports: string;
+  solToTreasuryLamports: string;
+  // Set when holders were paid in a reward asset other than SOL
+  rewardAsset: {
+    symbol: string;
+    mint: string;
+    decimals: number;
+    amountDistributed: string;
+  } | null;
+  distributedAt: string;
+};
+
+type HolderPayoutData = {
+  wallet: string;
+  chatId: string;
+  amountLamports: string;
+  amountSOL: number;
+  asset: { symbol: string; amount: string; amountUi: number } | null;
+  destination: string;
+  signature: string;
+  epoch: string | null;
+  cycleNumber: number | null;
+  source: 'cycle' | 'retry';
 };
 
+/**
+ * Verify the X-TEK-Signature of a backend webhook
+ * Returns the reason the request is rejected, or null if it is authentic.
+ */
+function verifyBackendSignature(
+  secret: string,
+  rawBody: Buffer | undefined,
+  timestampHeader: string | undefined,
+  signatureHeader: string | undefined
+): string | null {
+  if (!rawBody || !timestampHeader || !signatureHeader) return 'Missing body, timestamp or signature';
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > BACKEND_WEBHOOK_TOLERANCE_SECONDS) {
+    return 'Timestamp outside the allowed window';
+  }
+
+  const expected = crypto.createHmac('sha256', secret)
+    .update(`${timestampHeader}.`)
+    .update(rawBody)
+    .digest('hex');
+  const received = signatureHeader.replace(/^sha256=/, '');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))) {
+    return 'Invalid signature';
+  }
+  return null;
+}
+
+/**
+ * Format the distribution announcement posted to the authorized chats
+ */
+function formatDistributionMessage(
+  solToHolders: bigint,
+  solToTreasury: bigint,
+  cycle: { epochNumber: number; cycleNumber: number; cyclesPerEpoch: number } | null,
+  holdersAsset: { symbol: string; amount: number } | null = null
+): string {
+  // Convert from lamports to SOL
+  const solToHoldersFormatted = (Number(solToHolders) / 1e9).toFixed(6);
+  const solToTreasuryFormatted = (Number(solToTreasury) / 1e9).toFixed(6);
+  
+  // Calculate total (holders + treasury)
+  const totalSOL = Number(solToHolders) + Number(solToTreasury);
+  const totalSOLFormatted = (totalSOL / 1e9).toFixed(6);
+
+  // Build message with TEK branding and spacing
+  const messageLines = [
+    '*🟢 TEK Distribution*',
+    '',
+    `*Total:* ${totalSOLFormatted} SOL`,
+    `*Holders:* ${solToHoldersFormatted} SOL`,
+    `*Treasury:* ${solToTreasuryFormatted} SOL`,
+  ];
+
+  // Holders were paid in a reward asset bought with their SOL share
+  if (holdersAsset) {
+    messageLines.push(`*Paid to holders:* ${holdersAsset.amount.toLocaleString('en-US', { maximumFractionDigits: 6 })} ${holdersAsset.symbol}`);
+  }
+
+  // Add spacing before epoch/cycle section
+  messageLines.push('');
+
+  // Add epoch and cycle info if available
+  if (cycle) {
+    messageLines.push(`*Epoch:* ${cycle.epochNumber}`);
+    messageLines.push(`*Cycle:* ${cycle.cycleNumber} / ${cycle.cyclesPerEpoch}`);
+  }
+
+  return messageLines.join('\n');
+}
+
+/**
+ * Format the payout DM sent to a holder who linked their chat
+ */
+function formatHolderPayoutMessage(data: HolderPayoutData): string {
+  const shortWallet = `${data.wallet.slice(0, 4)}...${data.wallet.slice(-4)}`;
+  const messageLines = [
+    '*💸 TEK Reward Paid*',
+    '',
+    data.asset
+      ? `*Amount:* ${data.asset.amountUi.toLocaleString('en-US', { maximumFractionDigits: 6 })} ${data.asset.symbol} (${(Number(data.amountLamports) / 1e9).toFixed(6)} SOL)`
+      : `*Amount:* ${(Number(data.amountLamports) / 1e9).toFixed(6)} SOL`,
+    `*Wallet:* ${shortWallet}`,
+  ];
+  if (data.destination !== data.wallet) {
+    messageLines.push(`*Sent to:* ${data.destination.slice(0, 4)}...${data.destination.slice(-4)}`);
+  }
+  if (data.epoch) {
+    messageLines.push(`*Epoch:* ${data.epoch}${data.cycleNumber !== null ? ` (cycle ${data.cycleNumber})` : ''}`);
+  }
+  messageLines.push('', `[View transaction](https://solscan.io/tx/${data.signature})`);
+  return messageLines.join('\n');
+}
+
+/**
+ * Link or unlink a holder's chat on the backend (POST /holders/telegram/link | unlink)
+ * Returns the linked wallet for a link, or null if the code is unknown or expired.
+ */
+async function updateHolderChatLink(
+  backendUrl: string,
+  linkToken: string,
+  action: 'link' | 'unlink',
+  body: { code?: string; chatId: number | string }
+): Promise<string | null> {
+  try {
+    const response = await axios.post<{ wallet?: string }>(`${backendUrl}/holders/telegram/${action}`, body, {
+      headers: { Authorization: `Bearer ${linkToken}` },
+      timeout: 30000,
+    });
+    return response.data.wallet ?? null;
+  } catch (err) {
+    if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+    throw err;
+  }
+}
+
 /**
  * Fetch rewards from the backend and return swap/distribution notification message
  * Only returns a message if a distribution occurred (uses lastTaxDistribution timestamp)
@@ -137,14 +307,6 @@ async function fetchSwapDistributionNotification(
   const solToHolders = BigInt(rewards.tax.lastDistributionSolToHolders || '0');
   const solToTreasury = BigInt(rewards.tax.lastDistributionSolToTreasury || '0');
   
-  // Convert from lamports to SOL
-  const solToHoldersFormatted = (Number(solToHolders) / 1e9).toFixed(6);
-  const solToTreasuryFormatted = (Number(solToTreasury) / 1e9).toFixed(6);
-  
-  // Calculate total (holders + treasury)
-  const totalSOL = Number(solToHolders) + Number(solToTreasury);
-  const totalSOLFormatted = (totalSOL / 1e9).toFixed(6);
-  
   // Fetch current cycle information
   let cycleInfo: { epoch: string; epochNumber: number; cycleNumber: number; cyclesPerEpoch: number } | null = null;
   try {
@@ -178,29 +340,17 @@ async function fetchSwapDistributionNotification(
       })()
     : 'N/A';
   
-  // Build message with TEK branding and spacing
-  const messageLines = [
-    '*🟢 TEK Distribution*',
-    '',
-    `*Total:* ${totalSOLFormatted} SOL`,
-    `*Holders:* ${solToHoldersFormatted} SOL`,
-    `*Treasury:* ${solToTreasuryFormatted} SOL`,
-  ];
-
-  // Add spacing before epoch/cycle section
-  messageLines.push('');
-
-  // Add epoch and cycle info if available
-  if (cycleInfo) {
-    // Use the stored cycle number from when distribution occurred, not current cycle
-    const distributionCycleNumber = rewards.tax.lastDistributionCycleNumber || cycleInfo.cycleNumber;
-    const distributionEpochNumber = rewards.tax.lastDistributionEpochNumber || cycleInfo.epochNumber;
-    
-    messageLines.push(`*Epoch:* ${distributionEpochNumber}`); // Use stored epoch number from distribution
-    messageLines.push(`*Cycle:* ${distributionCycleNumber} / ${cycleInfo.cyclesPerEpoch}`); // Use stored cycle number from distribution
-  }
-
-  const message = messageLines.join('\n');
+  // Use the stored epoch/cycle numbers from when the distribution occurred, not the current cycle
+  const message = formatDistributionMessage(solToHolders, solToTreasury, cycleInfo
+    ? {
+        epochNumber: rewards.tax.lastDistributionEpochNumber || cycleInfo.epochNumber,
+        cycleNumber: rewards.tax.lastDistributionCycleNumber || cycleInfo.cycleNumber,
+        cyclesPerEpoch: cycleInfo.cyclesPerEpoch,
+      }
+    : null,
+    rewards.rewardAsset && rewards.rewardAsset.kind !== 'SOL' && rewards.rewardAsset.lastDistributed !== null
+      ? { symbol: rewards.rewardAsset.symbol, amount: rewards.rewardAsset.lastDistributed }
+      : null);
 
   return { message, lastDistributionTime: currentDistributionTime, distributionHash };
 }
@@ -256,6 +406,15 @@ async function handleRewardsCommand(bot: TelegramBot, chatId: number, backendUrl
       '',
     ];
 
+    // Holders are paid in a reward asset - show the total paid out in it
+    if (rewards.rewardAsset && rewards.rewardAsset.kind !== 'SOL') {
+      messageLines.splice(
+        messageLines.length - 1,
+        0,
+        `*Paid to Holders:* ${rewards.rewardAsset.totalDistributed.toLocaleString('en-US', { maximumFractionDigits: 6 })} ${rewards.rewardAsset.symbol}`
+      );
+    }
+
     // Add cycle info if available
     if (cycleInfo) {
       messageLines.push(`*Current Epoch:* ${cycleInfo.epochNumber}`); // Use epochNumber instead of epoch date
@@ -285,6 +444,10 @@ function main(): void {
     const backendUrl = requireEnv('BACKEND_URL');
     const port = Number(process.env.PORT || 3000);
     const pollingIntervalMs = Number(process.env.POLLING_INTERVAL_MS || '60000');
+    // Shared with the backend webhook subscription (POST /admin/webhooks returns it)
+    const backendWebhookSecret = process.env.BACKEND_WEBHOOK_SECRET || null;
+    // Shared with the backend (HOLDER_TELEGRAM_LINK_TOKEN) - enables holder payout DMs
+    const holderLinkToken = process.env.HOLDER_TELEGRAM_LINK_TOKEN || null;
     const webhookUrl = `${getWebhookUrl()}/telegram/webhook`;
 
     const bot = new TelegramBot(token, { polling: false, webHook: { port: 0 } });
@@ -294,7 +457,12 @@ function main(): void {
       .catch((err) => console.error('[Bot] Failed to set webhook:', err));
 
     const app = express();
-    app.use(express.json());
+    // The raw body is kept for verifying backend webhook signatures
+    app.use(express.json({
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      },
+    }));
 
     app.get('/health', (_req: Request, res: Response) => res.status(200).send('OK'));
 
@@ -308,6 +476,107 @@ function main(): void {
       res.sendStatus(200);
     });
 
+    // Backend webhook events (distribution.completed replaces polling when BACKEND_WEBHOOK_SECRET is set)
+    // The backend retries non-2xx responses with the same event id, so handled ids are persisted
+    const eventsInFlight = new Set<string>();
+    app.post('/backend/webhook', async (req: Request, res: Response) => {
+      if (!backendWebhookSecret) {
+        res.sendStatus(404);
+        return;
+      }
+
+      const rejection = verifyBackendSignature(
+        backendWebhookSecret,
+        (req as RawBodyRequest).rawBody,
+        req.header('x-tek-timestamp'),
+        req.header('x-tek-signature')
+      );
+      if (rejection) {
+        console.warn('[BackendWebhook] Rejected event', { reason: rejection, eventId: req.header('x-tek-event-id') });
+        res.status(401).json({ error: rejection });
+        return;
+      }
+
+      const event = req.body as BackendWebhookEvent;
+      if (getLastState().processedEventIds?.includes(event.id)) {
+        console.log('[BackendWebhook] Event already handled', { eventId: event.id, type: event.type });
+        res.status(200).json({ received: true, duplicate: true });
+        return;
+      }
+      if (eventsInFlight.has(event.id)) {
+        // A retry arrived while the first delivery is still being handled - ask for a later retry
+        res.status(409).json({ error: 'Event is being processed' });
+        return;
+      }
+
+      eventsInFlight.add(event.id);
+      try {
+        if (event.type === 'distribution.completed') {
+          const data = event.data as DistributionCompletedData;
+          const message = formatDistributionMessage(
+            BigInt(data.solToHoldersLamports || '0'),
+            BigInt(data.solToTreasuryLamports || '0'),
+            data.epochNumber !== null && data.cycleNumber !== null
+              ? { epochNumber: data.epochNumber, cycleNumber: data.cycleNumber, cyclesPerEpoch: data.cyclesPerEpoch }
+              : null,
+            data.rewardAsset
+              ? {
+                  symbol: data.rewardAsset.symbol,
+                  amount: Number(data.rewardAsset.amountDistributed) / Math.pow(10, data.rewardAsset.decimals),
+                }
+              : null
+          );
+
+          let sentCount = 0;
+          for (const chatId of authorizedChatIds) {
+            try {
+              await bot.sendMessage(chatId, message, { parse_mode: 'Markdown' });
+              sentCount++;
+              console.log('[BackendWebhook] Sent distribution notification', { chatId, eventId: event.id });
+            } catch (sendErr) {
+              console.error('[BackendWebhook] Failed to send notification', { chatId, eventId: event.id, error: sendErr });
+            }
+          }
+
+          // Nothing was sent - let the backend retry the event
+          if (sentCount === 0) {
+            res.status(502).json({ error: 'Failed to notify any chat' });
+            return;
+          }
+        } else if (event.type === 'holder.payout') {
+          const data = event.data as HolderPayoutData;
+          try {
+            await bot.sendMessage(data.chatId, formatHolderPayoutMessage(data), { parse_mode: 'Markdown' });
+            console.log('[BackendWebhook] Sent holder payout DM', { chatId: data.chatId, eventId: event.id });
+          } catch (sendErr) {
+            // 403: the holder blocked the bot or deleted the chat - stop sending to it
+            const statusCode = (sendErr as { response?: { statusCode?: number } }).response?.statusCode;
+            if (statusCode !== 403) {
+              console.error('[BackendWebhook] Failed to send holder payout DM', { chatId: data.chatId, eventId: event.id, error: sendErr });
+              res.status(502).json({ error: 'Failed to notify holder' });
+              return;
+            }
+            console.warn('[BackendWebhook] Holder chat unreachable - unlinking', { chatId: data.chatId, eventId: event.id });
+            if (holderLinkToken) {
+              await updateHolderChatLink(backendUrl, holderLinkToken, 'unlink', { chatId: data.chatId })
+                .catch((unlinkErr) => console.error('[BackendWebhook] Failed to unlink holder chat', { chatId: data.chatId, error: unlinkErr }));
+            }
+          }
+        } else {
+          console.log('[BackendWebhook] Ignoring event', { eventId: event.id, type: event.type });
+        }
+
+        const processedEventIds = [...(getLastState().processedEventIds ?? []), event.id].slice(-MAX_PROCESSED_EVENT_IDS);
+        updateState({ processedEventIds });
+        res.status(200).json({ received: true });
+      } catch (err) {
+        console.error('[BackendWebhook] Error handling event:', err);
+        res.status(500).json({ error: 'Failed to handle event' });
+      } finally {
+        eventsInFlight.delete(event.id);
+      }
+    });
+
     // Unified handler for messages and channel posts (webhook-driven)
     const handleIncomingMessage = async (msg: TelegramBot.Message) => {
       console.log('[Bot] Incoming message', { chatId: msg.chat.id, chatType: msg.chat.type, text: msg.text });
@@ -315,6 +584,36 @@ function main(): void {
 
       const allowed = isAuthorizedMessage(authorizedChatIds, msg);
 
+      // Holder payout DMs: /start <code> from the My Rewards page links the chat, /stop unlinks it
+      const linkCode = msg.text.match(/^\/start\s+([A-Za-z0-9_-]+)/)?.[1];
+      if (linkCode && msg.chat.type === 'private') {
+        if (!holderLinkToken) return await bot.sendMessage(msg.chat.id, 'Payout notifications are not available.');
+        try {
+          const wallet = await updateHolderChatLink(backendUrl, holderLinkToken, 'link', { code: linkCode, chatId: msg.chat.id });
+          if (!wallet) {
+            return await bot.sendMessage(msg.chat.id, 'This link has expired. Create a new one on the My Rewards page.');
+          }
+          console.log('[Bot] Holder chat linked', { chatId: msg.chat.id, wallet });
+          return await bot.sendMessage(
+            msg.chat.id,
+            `You will get a message here for each reward paid to ${wallet.slice(0, 4)}...${wallet.slice(-4)}. Send /stop to turn this off.`
+          );
+        } catch (err) {
+          console.error('[Bot] Failed to link holder chat', { chatId: msg.chat.id, error: err });
+          return await bot.sendMessage(msg.chat.id, 'Could not link this chat right now. Please try again later.');
+        }
+      }
+
+      if (msg.text.startsWith('/stop') && msg.chat.type === 'private' && holderLinkToken) {
+        try {
+          await updateHolderChatLink(backendUrl, holderLinkToken, 'unlink', { chatId: msg.chat.id });
+          return await bot.sendMessage(msg.chat.id, 'Payout notifications are turned off.');
+        } catch (err) {
+          console.error('[Bot] Failed to unlink holder chat', { chatId: msg.chat.id, error: err });
+          return await bot.sendMessage(msg.chat.id, 'Could not turn off notifications right now. Please try again later.');
+        }
+      }
+
       if (msg.text.startsWith('/start') && msg.chat.type === 'private') {
         if (!allowed) return await bot.sendMessage(msg.chat.id, 'Unauthorized chat ID');
         return await bot.sendMessage(msg.chat.id, 'Hello! Bot is online. Use /rewards to see rewards.');
@@ -329,7 +628,7 @@ function main(): void {
     bot.on('message', handleIncomingMessage);
     bot.on('channel_post', handleIncomingMessage);
 
-    // Automatic reward notifications loop:
+    // Automatic reward notifications loop (fallback when BACKEND_WEBHOOK_SECRET is not set):
     // - Runs every POLLING_INTERVAL_MS (default 60000ms)
     // - Only sends notifications when a distribution occurred (lastTaxDistribution changed)
     // - Uses distribution timestamp instead of swap tx to handle batch splitting correctly
@@ -386,7 +685,36 @@ function main(): void {
     };
 
     // Start periodic automatic rewards polling (does not interfere with webhook handlers)
-    setInterval(tickAutomaticRewards, pollingIntervalMs);
+    if (backendWebhookSecret) {
+      console.log('[AutoRewards] Distribution notifications come from backend webhooks (POST /backend/webhook) - polling disabled');
+    } else {
+      console.warn('[AutoRewards] BACKEND_WEBHOOK_SECRET not set - falling back to polling /dashboard/rewards');
+      setInterval(tickAutomaticRewards, pollingIntervalMs);
+    }
+
+    // Heartbeat for the backend's /health/components (Telegram bot component)
+    const heartbeatToken = process.env.HEALTH_HEARTBEAT_TOKEN;
+    if (heartbeatToken) {
+      const sendHeartbeat = async () => {
+        try {
+          await axios.post(
+            `${backendUrl}/health/heartbeat/telegram-bot`,
+            {
+              authorizedChats: authorizedChatIds.length,
+              notifications: backendWebhookSecret ? 'webhook' : 'polling',
+              pollingIntervalMs,
+            },
+            { headers: { Authorization: `Bearer ${heartbeatToken}` }, timeout: 10000 }
+          );
+        } catch (err) {
+          console.error('[Heartbeat] Failed to send heartbeat to backend:', err instanceof Error ? err.message : err);
+        }
+      };
+      sendHeartbeat();
+      setInterval(sendHeartbeat, 60000);
+    } else {
+      console.log('[Heartbeat] HEALTH_HEARTBEAT_TOKEN not set - backend will report the bot status as unknown');
+    }
 
     app.listen(port, () => {
       console.log('[Bot] Express server listening', { port, webhookUrl, backendUrl, pollingIntervalMs });
@@ -123,7 +123,7 @@ class BackendClient {
 
   /**
    * Generate export file on backend
-   * Placeholder - implement actual API call
+   * Requires ADMIN_API_KEY (an admin API key with the "exports" scope)
    */
   async generateExport(params?: {
     type?: 'combined' | 'rewards' | 'payouts';
@@ -131,9 +131,13 @@ class BackendClient {
     endDate?: string;
   }): Promise<ExportFile> {
     return this.retry(async () => {
-      // TODO: Implement actual API call to POST /audit/generate
+      if (!config.ADMIN_API_KEY) {
+        throw new Error('ADMIN_API_KEY is required to generate exports');
+      }
       logger.info('Generating export on backend', { params });
-      const response = await this.client.post<ExportFile>('/audit/generate', params);
+      const response = await this.client.post<ExportFile>('/admin/exports/generate', params, {
+        headers: { Authorization: `Bearer ${config.ADMIN_API_KEY}` },
+      });
       return response.data;
     });
   }
@@ -2,7 +2,8 @@
  * Notification State Management
  * 
  * Persists notification state to prevent duplicate notifications.
- * Tracks last reward run timestamp and last payout ID.
+ * Tracks last reward run timestamp and last payout ID, and the ids of backend
+ * webhook events already handled.
  * 
  * Safety: All file operations are wrapped in try/catch to prevent crashes.
  */
@@ -16,6 +17,7 @@ interface NotificationState {
   lastSwapTx?: string; // Legacy: Track last swap transaction (deprecated in favor of lastDistributionTime)
   lastDistributionTime?: number; // Track last distribution timestamp to prevent duplicate notifications (handles batch splitting correctly)
   lastDistributionHash?: string; // Hash of distribution data to detect true duplicates even if timestamp changes
+  processedEventIds?: string[]; // Backend webhook event ids already handled, oldest first (retries resend the same id)
 }
 
 class NotificationStateManager {
@@ -79,6 +81,9 @@ class NotificationStateManager {
         lastDistributionHash: typeof state.lastDistributionHash === 'string'
           ? state.lastDistributionHash
           : undefined,
+        processedEventIds: Array.isArray(state.processedEventIds)
+          ? state.processedEventIds.filter((id): id is string => typeof id === 'string')
+          : undefined,
       };
     } catch (error) {
       // On corruption or read error, return empty state
@@ -45,7 +45,6 @@ export interface ExportSummary {
 
 export interface ExportFile {
   filename: string;
-  filepath: string;
   downloadUrl: string;
 }
 